@@ -17,6 +17,7 @@ import {
   fetchAllModels,
   createCacheManager,
   createForecastCacheKey,
+  createForecastCacheRequest,
   type Location,
 } from "@weather-oracle/core";
 
@@ -35,36 +36,37 @@ afterEach(() => {
 
 describe("Cache Integration Tests", () => {
   describe("Cache key generation", () => {
+    const dublin = { latitude: 53.3498, longitude: -6.2603 };
+
     it("should generate consistent cache keys for same coordinates", () => {
-      const now = new Date();
-      const key1 = createForecastCacheKey(53.3498, -6.2603, "ecmwf,gfs", now);
-      const key2 = createForecastCacheKey(53.3498, -6.2603, "ecmwf,gfs", now);
+      const key1 = createForecastCacheKey({ ...dublin, models: ["ecmwf", "gfs"], days: 7 });
+      const key2 = createForecastCacheKey({ ...dublin, models: ["gfs", "ecmwf"], days: 7 });
 
       expect(key1).toBe(key2);
     });
 
     it("should generate different keys for different coordinates", () => {
-      const now = new Date();
-      const dublinKey = createForecastCacheKey(53.3498, -6.2603, "ecmwf", now);
-      const londonKey = createForecastCacheKey(51.5074, -0.1278, "ecmwf", now);
+      const dublinKey = createForecastCacheKey({ ...dublin, models: ["ecmwf"], days: 7 });
+      const londonKey = createForecastCacheKey({
+        latitude: 51.5074,
+        longitude: -0.1278,
+        models: ["ecmwf"],
+        days: 7,
+      });
 
       expect(dublinKey).not.toBe(londonKey);
     });
 
     it("should generate different keys for different models", () => {
-      const now = new Date();
-      const key1 = createForecastCacheKey(53.3498, -6.2603, "ecmwf", now);
-      const key2 = createForecastCacheKey(53.3498, -6.2603, "ecmwf,gfs", now);
+      const key1 = createForecastCacheKey({ ...dublin, models: ["ecmwf"], days: 7 });
+      const key2 = createForecastCacheKey({ ...dublin, models: ["ecmwf", "gfs"], days: 7 });
 
       expect(key1).not.toBe(key2);
     });
 
-    it("should generate different keys for different dates", () => {
-      const date1 = new Date("2024-06-15");
-      const date2 = new Date("2024-06-16");
-
-      const key1 = createForecastCacheKey(53.3498, -6.2603, "ecmwf", date1);
-      const key2 = createForecastCacheKey(53.3498, -6.2603, "ecmwf", date2);
+    it("should generate different keys for different forecast days", () => {
+      const key1 = createForecastCacheKey({ ...dublin, models: ["ecmwf"], days: 3 });
+      const key2 = createForecastCacheKey({ ...dublin, models: ["ecmwf"], days: 16 });
 
       expect(key1).not.toBe(key2);
     });
@@ -222,10 +224,7 @@ describe("Cache Integration Tests", () => {
 
       // Create cache key
       const cacheKey = createForecastCacheKey(
-        geocoded.coordinates.latitude,
-        geocoded.coordinates.longitude,
-        "ecmwf,gfs",
-        new Date()
+        createForecastCacheRequest(geocoded.coordinates, ["ecmwf", "gfs"], { forecastDays: 5 })
       );
 
       // Store in cache
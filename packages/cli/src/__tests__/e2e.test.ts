@@ -64,7 +64,7 @@ describe("CLI E2E Tests", () => {
 
       expect(result.exitCode).toBe(0);
       expect(result.stdout).toContain("forecast");
-      expect(result.stdout).toContain("<location>");
+      expect(result.stdout).toContain("[location]");
       expect(result.stdout).toContain("--days");
       expect(result.stdout).toContain("--models");
       expect(result.stdout).toContain("--format");
@@ -75,7 +75,7 @@ describe("CLI E2E Tests", () => {
 
       expect(result.exitCode).toBe(0);
       expect(result.stdout).toContain("compare");
-      expect(result.stdout).toContain("<location>");
+      expect(result.stdout).toContain("[location]");
       expect(result.stdout).toContain("--days");
       expect(result.stdout).toContain("--models");
     });
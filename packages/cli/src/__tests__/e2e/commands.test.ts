@@ -15,7 +15,7 @@ import { spawn } from "bun";
 import { join } from "path";
 import { setupServer } from "msw/node";
 import { http, HttpResponse } from "msw";
-import type { ModelName } from "@weather-oracle/core";
+import type { OpenMeteoModelName } from "@weather-oracle/core";
 
 /**
  * Open-Meteo API base URLs
@@ -26,7 +26,7 @@ const WEATHER_API = "https://api.open-meteo.com/v1";
 /**
  * Model endpoint mappings
  */
-const MODEL_ENDPOINTS: Record<ModelName, string> = {
+const MODEL_ENDPOINTS: Record<OpenMeteoModelName, string> = {
   ecmwf: `${WEATHER_API}/ecmwf`,
   gfs: `${WEATHER_API}/gfs`,
   icon: `${WEATHER_API}/dwd-icon`,
@@ -40,7 +40,7 @@ const MODEL_ENDPOINTS: Record<ModelName, string> = {
  * Mock state
  */
 interface MockState {
-  failingModels: Set<ModelName>;
+  failingModels: Set<OpenMeteoModelName>;
   geocodingFailure: boolean;
 }
 
@@ -54,7 +54,7 @@ function resetMockState(): void {
   mockState.geocodingFailure = false;
 }
 
-function setModelFailure(model: ModelName, shouldFail: boolean): void {
+function setModelFailure(model: OpenMeteoModelName, shouldFail: boolean): void {
   if (shouldFail) {
     mockState.failingModels.add(model);
   } else {
@@ -98,7 +98,7 @@ const LOCATIONS: Record<string, {
 /**
  * Generate mock forecast response
  */
-function generateMockForecast(lat: number, lon: number, days: number, model: ModelName) {
+function generateMockForecast(lat: number, lon: number, days: number, model: OpenMeteoModelName) {
   const now = new Date();
   const hourlyTimes: string[] = [];
   const dailyTimes: string[] = [];
@@ -206,11 +206,11 @@ const handlers = [
       const lon = parseFloat(url.searchParams.get("longitude") ?? "-6.26");
       const days = parseInt(url.searchParams.get("forecast_days") ?? "7", 10);
 
-      if (mockState.failingModels.has(model as ModelName)) {
+      if (mockState.failingModels.has(model as OpenMeteoModelName)) {
         return HttpResponse.json({ error: true, reason: `${model} unavailable` });
       }
 
-      return HttpResponse.json(generateMockForecast(lat, lon, days, model as ModelName));
+      return HttpResponse.json(generateMockForecast(lat, lon, days, model as OpenMeteoModelName));
     })
   ),
 ];
@@ -415,7 +415,7 @@ describe("CLI E2E Commands Tests", () => {
 
       expect(result.exitCode).toBe(0);
       expect(result.stdout).toContain("forecast");
-      expect(result.stdout).toContain("<location>");
+      expect(result.stdout).toContain("[location]");
       expect(result.stdout).toContain("--days");
       expect(result.stdout).toContain("--format");
     });
@@ -425,7 +425,7 @@ describe("CLI E2E Commands Tests", () => {
 
       expect(result.exitCode).toBe(0);
       expect(result.stdout).toContain("compare");
-      expect(result.stdout).toContain("<location>");
+      expect(result.stdout).toContain("[location]");
     });
   });
 
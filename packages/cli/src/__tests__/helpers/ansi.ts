@@ -0,0 +1,12 @@
+/**
+ * ANSI helpers for CLI tests.
+ */
+
+import { stripVTControlCharacters } from "node:util";
+
+/**
+ * Strip ANSI color codes from output
+ */
+export function stripAnsi(text: string): string {
+  return stripVTControlCharacters(text);
+}
@@ -3,7 +3,7 @@
  * Creates realistic Open-Meteo API response structures.
  */
 
-import type { ModelName } from "@weather-oracle/core";
+import type { OpenMeteoModelName } from "@weather-oracle/core";
 
 /**
  * Location data for common test locations
@@ -146,8 +146,8 @@ function generateDailyTimes(days: number): string[] {
 /**
  * Create small model-specific temperature offsets for realistic variation
  */
-function getModelOffset(model: ModelName): number {
-  const offsets: Record<ModelName, number> = {
+function getModelOffset(model: OpenMeteoModelName): number {
+  const offsets: Record<OpenMeteoModelName, number> = {
     ecmwf: 0,
     gfs: 0.5,
     icon: -0.3,
@@ -166,7 +166,7 @@ export function createMockForecastResponse(
   lat: number,
   lon: number,
   days: number,
-  model: ModelName
+  model: OpenMeteoModelName
 ): {
   latitude: number;
   longitude: number;
@@ -4,7 +4,7 @@
  */
 
 import { http, HttpResponse, delay } from "msw";
-import type { ModelName } from "@weather-oracle/core";
+import type { OpenMeteoModelName } from "@weather-oracle/core";
 import { createMockGeocodingResponse, createMockForecastResponse } from "./data";
 
 /**
@@ -17,7 +17,7 @@ const WEATHER_API = "https://api.open-meteo.com/v1";
  * Model endpoint mappings
  * Note: UKMO uses /forecast with models= query param, not its own endpoint
  */
-const MODEL_ENDPOINTS: Record<ModelName, string> = {
+const MODEL_ENDPOINTS: Record<OpenMeteoModelName, string> = {
   ecmwf: `${WEATHER_API}/ecmwf`,
   gfs: `${WEATHER_API}/gfs`,
   icon: `${WEATHER_API}/dwd-icon`,
@@ -31,7 +31,7 @@ const MODEL_ENDPOINTS: Record<ModelName, string> = {
  * State for controlling mock behavior
  */
 interface MockState {
-  failingModels: Set<ModelName>;
+  failingModels: Set<OpenMeteoModelName>;
   geocodingFailure: boolean;
   networkDelay: number;
   requestLog: Array<{ url: string; timestamp: Date }>;
@@ -57,7 +57,7 @@ export function resetMockState(): void {
 /**
  * Configure a model to fail
  */
-export function setModelFailure(model: ModelName, shouldFail: boolean): void {
+export function setModelFailure(model: OpenMeteoModelName, shouldFail: boolean): void {
   if (shouldFail) {
     mockState.failingModels.add(model);
   } else {
@@ -140,7 +140,7 @@ export const handlers = [
         const days = parseInt(url.searchParams.get("forecast_days") ?? "7", 10);
 
         // Simulate model failure
-        if (mockState.failingModels.has(model as ModelName)) {
+        if (mockState.failingModels.has(model as OpenMeteoModelName)) {
           return HttpResponse.json(
             { error: true, reason: `${model} service temporarily unavailable` },
             { status: 200 }
@@ -148,7 +148,7 @@ export const handlers = [
         }
 
         // Return mock forecast response
-        const response = createMockForecastResponse(lat, lon, days, model as ModelName);
+        const response = createMockForecastResponse(lat, lon, days, model as OpenMeteoModelName);
         return HttpResponse.json(response);
       })
     ),
@@ -168,7 +168,7 @@ export const handlers = [
     const models = url.searchParams.get("models");
 
     // Determine model from query param (e.g., ukmo_seamless -> ukmo)
-    let model: ModelName = "ukmo";
+    let model: OpenMeteoModelName = "ukmo";
     if (models?.includes("ukmo")) {
       model = "ukmo";
     }
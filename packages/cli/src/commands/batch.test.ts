@@ -0,0 +1,79 @@
+/**
+ * Tests for the batch command.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { formatCsv, formatNdjson, parseSitesFile, type BatchSiteResult } from "./batch";
+
+const OSLO: BatchSiteResult = {
+  query: "oslo",
+  location: { name: "Oslo", country: "Norway", latitude: 59.91, longitude: 10.75 },
+  models: ["ecmwf", "gfs"],
+  failures: [],
+  confidence: { level: "high", score: 0.82 },
+  cached: false,
+  daily: [
+    {
+      date: "2024-01-15",
+      temperatureMin: -2,
+      temperatureMax: 4.5,
+      precipitation: 1.2,
+      precipitationProbability: 40,
+      windSpeedMax: 6.5,
+      weatherCode: 61,
+    },
+    {
+      date: "2024-01-16",
+      temperatureMin: -4,
+      temperatureMax: 1,
+      precipitation: 0,
+      precipitationProbability: 5,
+      windSpeedMax: 3,
+      weatherCode: 1,
+    },
+  ],
+};
+
+const UNKNOWN: BatchSiteResult = {
+  query: "Nowhere, Atlantis",
+  error: "Location not found",
+};
+
+describe("parseSitesFile", () => {
+  it("should skip blank lines and comments", () => {
+    const content = "# coastal sites\noslo\n\n  Bergen, Norway  \r\n# inland\n60.79,11.07\n";
+
+    expect(parseSitesFile(content)).toEqual(["oslo", "Bergen, Norway", "60.79,11.07"]);
+  });
+});
+
+describe("formatNdjson", () => {
+  it("should write one JSON object per site", () => {
+    const lines = formatNdjson([OSLO, UNKNOWN]).split("\n");
+
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0])).toEqual(OSLO);
+    expect(JSON.parse(lines[1])).toEqual(UNKNOWN);
+  });
+});
+
+describe("formatCsv", () => {
+  it("should write a row per site and day", () => {
+    const lines = formatCsv([OSLO]).split("\n");
+
+    expect(lines[0]).toBe(
+      "query,name,latitude,longitude,date,temperature_min,temperature_max,precipitation," +
+        "precipitation_probability,wind_speed_max,weather_code,confidence,models,error"
+    );
+    expect(lines.slice(1)).toEqual([
+      "oslo,Oslo,59.91,10.75,2024-01-15,-2,4.5,1.2,40,6.5,61,high,ecmwf gfs,",
+      "oslo,Oslo,59.91,10.75,2024-01-16,-4,1,0,5,3,1,high,ecmwf gfs,",
+    ]);
+  });
+
+  it("should quote fields and report failed sites", () => {
+    const lines = formatCsv([UNKNOWN]).split("\n");
+
+    expect(lines[1]).toBe('"Nowhere, Atlantis",,,,,,,,,,,,,Location not found');
+  });
+});
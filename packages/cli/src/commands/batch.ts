@@ -0,0 +1,377 @@
+/**
+ * Batch command for Weather Oracle CLI.
+ * Forecasts every site listed in a file in one run, sharing requests, the
+ * cache and a concurrency limit across sites, and writes one NDJSON record
+ * or CSV rows per site.
+ */
+
+import ora from "ora";
+import type { Command } from "commander";
+import { readFile } from "node:fs/promises";
+import {
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
+  fetchForecastsForLocations,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
+  createCacheManager,
+  getCacheOptionsFromConfig,
+  aggregateForecasts,
+  loadWeightingStrategy,
+  calculateConfidence,
+  DEFAULT_LOCATION_CONCURRENCY,
+  type AggregatedForecast,
+  type ConfidenceResult,
+  type Location,
+  type ModelName,
+  type MultiModelResult,
+} from "@weather-oracle/core";
+import { formatError } from "../errors/handler";
+import { extractGlobalOptions, loadConfigWithOverrides } from "../program";
+import { recordForecasts } from "./verify";
+import { recordRuns } from "./trend";
+
+/**
+ * Output formats for the batch command
+ */
+export type BatchFormat = "ndjson" | "csv";
+
+/**
+ * Options for the batch command
+ */
+export interface BatchOptions {
+  file: string;
+  days?: number;
+  models?: string[];
+  format?: BatchFormat;
+  concurrency?: number;
+  noCache?: boolean;
+  verbose?: boolean;
+  color?: boolean;
+}
+
+/**
+ * One day of a site's consensus forecast.
+ * Units: °C, mm, %, m/s.
+ */
+export interface BatchDay {
+  date: string;
+  temperatureMin: number;
+  temperatureMax: number;
+  precipitation: number;
+  precipitationProbability: number;
+  windSpeedMax: number;
+  weatherCode: number;
+}
+
+/**
+ * Forecast summary for one site, or the error that stopped it
+ */
+export interface BatchSiteResult {
+  query: string;
+  location?: {
+    name: string;
+    country: string;
+    latitude: number;
+    longitude: number;
+  };
+  models?: ModelName[];
+  failures?: { model: ModelName; error: string }[];
+  confidence?: { level: string; score: number };
+  cached?: boolean;
+  daily?: BatchDay[];
+  error?: string;
+}
+
+/**
+ * Read site queries from a sites file: one location per line,
+ * ignoring blank lines and # comments
+ */
+export function parseSitesFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+}
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Summarize a site's aggregated forecast
+ */
+export function summarizeSite(
+  query: string,
+  location: Location,
+  result: MultiModelResult,
+  aggregated: AggregatedForecast,
+  confidence: ConfidenceResult,
+  cached: boolean
+): BatchSiteResult {
+  return {
+    query,
+    location: {
+      name: location.resolved.name,
+      country: location.resolved.country,
+      latitude: location.resolved.coordinates.latitude,
+      longitude: location.resolved.coordinates.longitude,
+    },
+    models: result.forecasts.map((forecast) => forecast.model),
+    failures: result.failures.map((failure) => ({
+      model: failure.model,
+      error: failure.error.message,
+    })),
+    confidence: { level: confidence.level, score: confidence.score },
+    cached,
+    daily: aggregated.consensus.daily.map((day) => ({
+      date: new Date(day.date).toISOString().slice(0, 10),
+      temperatureMin: round1(day.forecast.temperature.min),
+      temperatureMax: round1(day.forecast.temperature.max),
+      precipitation: round1(day.forecast.precipitation.total),
+      precipitationProbability: Math.round(day.forecast.precipitation.probability),
+      windSpeedMax: round1(day.forecast.wind.maxSpeed),
+      weatherCode: day.forecast.weatherCode,
+    })),
+  };
+}
+
+/**
+ * Format site results as NDJSON (one JSON object per line)
+ */
+export function formatNdjson(results: readonly BatchSiteResult[]): string {
+  return results.map((result) => JSON.stringify(result)).join("\n");
+}
+
+/**
+ * CSV columns, one row per site and day
+ */
+const CSV_COLUMNS = [
+  "query",
+  "name",
+  "latitude",
+  "longitude",
+  "date",
+  "temperature_min",
+  "temperature_max",
+  "precipitation",
+  "precipitation_probability",
+  "wind_speed_max",
+  "weather_code",
+  "confidence",
+  "models",
+  "error",
+] as const;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or newline
+ */
+function csvField(value: string | number | undefined): string {
+  if (value === undefined) {
+    return "";
+  }
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format site results as CSV with a header row; sites that failed get one
+ * row with the error
+ */
+export function formatCsv(results: readonly BatchSiteResult[]): string {
+  const rows: (string | number | undefined)[][] = [];
+
+  for (const result of results) {
+    const site = [
+      result.query,
+      result.location?.name,
+      result.location?.latitude,
+      result.location?.longitude,
+    ];
+    if (!result.daily || result.daily.length === 0) {
+      rows.push([...site, ...Array<undefined>(CSV_COLUMNS.length - 5), result.error]);
+      continue;
+    }
+    for (const day of result.daily) {
+      rows.push([
+        ...site,
+        day.date,
+        day.temperatureMin,
+        day.temperatureMax,
+        day.precipitation,
+        day.precipitationProbability,
+        day.windSpeedMax,
+        day.weatherCode,
+        result.confidence?.level,
+        result.models?.join(" "),
+        undefined,
+      ]);
+    }
+  }
+
+  return [CSV_COLUMNS.join(","), ...rows.map((row) => row.map(csvField).join(","))].join("\n");
+}
+
+/**
+ * Batch command action handler
+ */
+export async function batchHandler(options: BatchOptions): Promise<void> {
+  const spinner = ora({
+    text: "Reading sites...",
+    spinner: "dots",
+  }).start();
+
+  try {
+    const config = await loadConfigWithOverrides({
+      days: options.days,
+      models: options.models,
+      verbose: options.verbose,
+      color: options.color,
+    });
+
+    const queries = parseSitesFile(await readFile(options.file, "utf-8"));
+    if (queries.length === 0) {
+      throw new Error(`No sites found in ${options.file}`);
+    }
+
+    // Step 1: Resolve every site; a site that fails to resolve is reported, not fatal
+    const results: BatchSiteResult[] = queries.map((query) => ({ query }));
+    const resolved: { index: number; location: Location }[] = [];
+    for (const [index, query] of queries.entries()) {
+      spinner.text = `Resolving ${query} (${index + 1}/${queries.length})...`;
+      try {
+        const { location } = await resolveLocation(
+          query,
+          config.locations,
+          getGeocodingOptionsFromConfig(config)
+        );
+        resolved.push({ index, location });
+      } catch (error) {
+        results[index].error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    // Step 2: Fetch every resolved site together
+    spinner.text = `Fetching forecasts for ${resolved.length} sites...`;
+    const modelsToFetch = options.models
+      ? (options.models as ModelName[])
+      : (config.models?.defaults as ModelName[] | undefined);
+    const fetched = await fetchForecastsForLocations(
+      resolved.map((site) => site.location),
+      modelsToFetch,
+      {
+        ...getForecastOptionsFromConfig(config),
+        forecastDays: options.days ?? 7,
+        registry: createProviderRegistry(config.providers),
+        concurrency: options.concurrency,
+        cache: createCacheManager({
+          ...getCacheOptionsFromConfig(config),
+          enabled: config.cache.enabled && !options.noCache,
+        }),
+      }
+    );
+
+    // Step 3: Aggregate each site
+    spinner.text = "Aggregating forecasts...";
+    const weighting = await loadWeightingStrategy(config.models);
+    for (const [i, { location, result, cached }] of fetched.entries()) {
+      const index = resolved[i].index;
+      if (!cached) {
+        await recordForecasts(config, result.forecasts);
+        await recordRuns(config, result.forecasts);
+      }
+      if (result.forecasts.length === 0) {
+        results[index].error = "Failed to fetch any model forecasts";
+        continue;
+      }
+
+      const aggregated = aggregateForecasts(result.forecasts, {
+        weighting,
+        policy: config.aggregation,
+      });
+      const confidence = calculateConfidence(aggregated, "overall", 0);
+      results[index] = summarizeSite(
+        queries[index],
+        location,
+        result,
+        aggregated,
+        confidence,
+        cached
+      );
+    }
+
+    const failed = results.filter((result) => result.error !== undefined).length;
+    if (failed > 0) {
+      spinner.warn(`Forecast ${queries.length - failed} of ${queries.length} sites`);
+    } else {
+      spinner.succeed(`Forecast ${queries.length} sites`);
+    }
+
+    console.log(options.format === "csv" ? formatCsv(results) : formatNdjson(results));
+  } catch (error) {
+    spinner.fail("Failed");
+    console.error(formatError(error, { verbose: options.verbose ?? false }));
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the batch command with the CLI program
+ */
+export function registerBatchCommand(program: Command): void {
+  program
+    .command("batch")
+    .description("Forecast every site in a file, writing NDJSON or CSV per site")
+    .requiredOption("--file <path>", "Sites file (one location per line, # for comments)")
+    .option("-d, --days <n>", "Forecast days (1-16, default: 7)", (v) => {
+      const n = parseInt(v, 10);
+      if (isNaN(n) || n < 1 || n > 16) {
+        throw new Error("Days must be between 1 and 16");
+      }
+      return n;
+    })
+    .option("-m, --models <list>", "Models to query for every site (comma-separated)", (v) =>
+      v.split(",").map((m) => m.trim().toLowerCase())
+    )
+    .option("-f, --format <type>", "Output format (ndjson/csv)", (v) => {
+      const normalized = v.toLowerCase();
+      if (normalized !== "ndjson" && normalized !== "csv") {
+        throw new Error('Format must be "ndjson" or "csv"');
+      }
+      return normalized;
+    })
+    .option(
+      "-c, --concurrency <n>",
+      `Requests in flight at once (1-16, default: ${DEFAULT_LOCATION_CONCURRENCY})`,
+      (v) => {
+        const n = parseInt(v, 10);
+        if (isNaN(n) || n < 1 || n > 16) {
+          throw new Error("Concurrency must be between 1 and 16");
+        }
+        return n;
+      }
+    )
+    .option("--no-cache", "Disable caching (fetch fresh data from API)")
+    .action(
+      async (
+        cmdOptions: Omit<BatchOptions, "noCache" | "verbose" | "color"> & { cache?: boolean }
+      ) => {
+        const globalOptions = extractGlobalOptions(program.opts());
+        // Note: Commander's --no-cache sets cmdOptions.cache = false
+        const options: BatchOptions = {
+          file: cmdOptions.file,
+          days: cmdOptions.days ?? globalOptions.days,
+          models: cmdOptions.models ?? globalOptions.models,
+          format: cmdOptions.format ?? "ndjson",
+          concurrency: cmdOptions.concurrency,
+          noCache: cmdOptions.cache === false,
+          verbose: globalOptions.verbose,
+          color: globalOptions.color,
+        };
+        await batchHandler(options);
+      }
+    );
+}
@@ -7,9 +7,14 @@ import chalk from "chalk";
 import ora from "ora";
 import type { Command } from "commander";
 import {
-  geocodeLocation,
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
   fetchAllModels,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
   aggregateForecasts,
+  loadWeightingStrategy,
+  hasDailyMetric,
   MODEL_INFO,
   type ModelName,
   type ModelForecast,
@@ -19,6 +24,8 @@ import {
 import { mean, stdDev, calculateSpread } from "@weather-oracle/core";
 import { formatError } from "../errors/handler";
 import { extractGlobalOptions, loadConfigWithOverrides } from "../program";
+import { recordForecasts } from "./verify";
+import { recordRuns } from "./trend";
 
 /**
  * Box drawing characters for comparison table
@@ -178,12 +185,23 @@ function buildComparisonData(
         });
       }
 
+      // Metrics the model does not forecast are left out and shown as "-"
       const comp = comparisons.get(dateKey)!;
-      comp.tempMax.set(forecast.model, daily.temperature.max as number);
-      comp.tempMin.set(forecast.model, daily.temperature.min as number);
-      comp.precipProb.set(forecast.model, daily.precipitation.probability);
-      comp.precipTotal.set(forecast.model, daily.precipitation.total as number);
-      comp.windMax.set(forecast.model, daily.wind.maxSpeed as number);
+      if (hasDailyMetric(daily, "temperatureMax")) {
+        comp.tempMax.set(forecast.model, daily.temperature.max as number);
+      }
+      if (hasDailyMetric(daily, "temperatureMin")) {
+        comp.tempMin.set(forecast.model, daily.temperature.min as number);
+      }
+      if (hasDailyMetric(daily, "precipitationProbability")) {
+        comp.precipProb.set(forecast.model, daily.precipitation.probability);
+      }
+      if (hasDailyMetric(daily, "precipitation")) {
+        comp.precipTotal.set(forecast.model, daily.precipitation.total as number);
+      }
+      if (hasDailyMetric(daily, "windSpeed")) {
+        comp.windMax.set(forecast.model, daily.wind.maxSpeed as number);
+      }
     }
   }
 
@@ -395,7 +413,7 @@ function padCenter(str: string, width: number): string {
  * Compare command action handler
  */
 export async function compareHandler(
-  locationQuery: string,
+  locationQuery: string | undefined,
   options: CompareOptions
 ): Promise<void> {
   const spinner = ora({
@@ -408,17 +426,21 @@ export async function compareHandler(
     const config = await loadConfigWithOverrides(options);
     const verbose = options.verbose ?? false;
 
-    // Use config values as defaults (fixes bug where config.display.units was ignored)
+    // Resolve location (saved alias, default location, or geocoding)
+    const { location, saved } = await resolveLocation(
+      locationQuery,
+      config.locations,
+      getGeocodingOptionsFromConfig(config)
+    );
+    const geocoded = location.resolved;
+
+    // Use config values as defaults (fixes bug where config.display.units was ignored);
+    // a saved location's own units, days and models take precedence over the globals
+    const days = options.days ?? saved?.days;
     const effectiveOptions: CompareOptions = {
       ...options,
-      units: options.units ?? config.display.units,
-    };
-
-    // Resolve location
-    const geocoded = await geocodeLocation(locationQuery);
-    const location: Location = {
-      query: locationQuery,
-      resolved: geocoded,
+      days,
+      units: options.units ?? saved?.units ?? config.display.units,
     };
 
     spinner.text = `Fetching forecasts for ${geocoded.name}...`;
@@ -426,11 +448,15 @@ export async function compareHandler(
     // Determine which models to fetch
     const modelsToFetch = options.models
       ? (options.models as ModelName[])
-      : (config.models?.defaults as ModelName[] | undefined) ?? undefined;
+      : (saved?.models as ModelName[] | undefined) ??
+        (config.models?.defaults as ModelName[] | undefined) ??
+        undefined;
 
     // Fetch all models
     const result = await fetchAllModels(location, modelsToFetch, {
-      forecastDays: options.days ?? 7,
+      ...getForecastOptionsFromConfig(config),
+      forecastDays: days ?? 7,
+      registry: createProviderRegistry(config.providers),
     });
 
     if (result.forecasts.length === 0) {
@@ -446,6 +472,10 @@ export async function compareHandler(
 
     spinner.succeed(`Fetched ${result.forecasts.length} model forecasts`);
 
+    // Record model runs for later verification and run-to-run trends
+    await recordForecasts(config, result.forecasts);
+    await recordRuns(config, result.forecasts);
+
     // Show failures if verbose
     if (verbose && result.failures.length > 0) {
       console.log(chalk.dim("\nSome models failed:"));
@@ -455,7 +485,11 @@ export async function compareHandler(
     }
 
     // Aggregate forecasts for additional stats
-    const aggregated = aggregateForecasts(result.forecasts);
+    const weighting = await loadWeightingStrategy(config.models);
+    const aggregated = aggregateForecasts(result.forecasts, {
+      weighting,
+      policy: config.aggregation,
+    });
 
     // Render comparison table
     const output = renderComparisonTable(
@@ -478,7 +512,7 @@ export async function compareHandler(
  */
 export function registerCompareCommand(program: Command): void {
   program
-    .command("compare <location>")
+    .command("compare [location]")
     .description("Compare forecasts across weather models side-by-side")
     .option("-d, --days <n>", "Number of days to compare (1-7, default: 5)", (v) => {
       const n = parseInt(v, 10);
@@ -490,7 +524,7 @@ export function registerCompareCommand(program: Command): void {
     .option("-m, --models <list>", "Models to compare (comma-separated)", (v) =>
       v.split(",").map((m) => m.trim().toLowerCase())
     )
-    .action(async (location: string, cmdOptions) => {
+    .action(async (location: string | undefined, cmdOptions) => {
       const globalOptions = extractGlobalOptions(program.opts());
       const options: CompareOptions = {
         ...globalOptions,
@@ -28,7 +28,7 @@ import {
 /**
  * Load the user's config file (just the file, not merged with defaults)
  */
-async function loadUserConfigFile(): Promise<Partial<AppConfig>> {
+export async function loadUserConfigFile(): Promise<Partial<AppConfig>> {
   const filePath = getConfigPath();
   try {
     const { readFile } = await import("node:fs/promises");
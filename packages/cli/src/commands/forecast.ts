@@ -1,6 +1,7 @@
 /**
  * Forecast command for Weather Oracle CLI.
- * Main command that geocodes location, fetches forecasts from all models,
+ * Main command that resolves a location (saved alias or geocoding), fetches
+ * forecasts from all models,
  * aggregates data, generates narrative, and displays formatted output.
  */
 
@@ -8,27 +9,53 @@ import chalk from "chalk";
 import ora from "ora";
 import type { Command } from "commander";
 import {
-  geocodeLocation,
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
   fetchAllModels,
+  fetchEnsembleForecasts,
+  getEnsembleOptionsFromConfig,
+  getForecastOptionsFromConfig,
   aggregateForecasts,
+  loadWeightingStrategy,
   calculateConfidence,
   generateNarrative,
-  MODEL_INFO,
+  evaluateAlertRules,
+  createProviderRegistry,
   toFahrenheit,
   toKmPerHour,
   toCardinalDirection,
   createCacheManager,
+  getCacheOptionsFromConfig,
   createForecastCacheKey,
+  createForecastCacheRequest,
+  getForecastCacheTtl,
+  getDefaultModels,
+  resolveHistoricalRange,
+  fetchObservedDays,
+  loadClimateNormals,
+  applyClimateNormals,
+  createClimateNormalsStore,
+  ConfigError,
+  HISTORICAL_FORECAST_CACHE_TTL_SECONDS,
+  MAX_PAST_DAYS,
+  parseExceedanceThreshold,
+  parseAggregationPolicy,
+  type AggregationPolicy,
   type ModelName,
   type Location,
   type AggregatedForecast,
   type ConfidenceResult,
   type NarrativeSummary,
   type MultiModelResult,
+  type EnsembleForecast,
+  type ExceedanceThreshold,
+  type HistoricalForecast,
 } from "@weather-oracle/core";
 import { createFormatter, type FormatterInput, type OutputFormatType } from "../formatters/index";
 import { formatError } from "../errors/handler";
 import { extractGlobalOptions, loadConfigWithOverrides } from "../program";
+import { recordForecasts } from "./verify";
+import { recordRuns } from "./trend";
 
 /**
  * Options for the forecast command
@@ -41,6 +68,32 @@ export interface ForecastOptions {
   verbose?: boolean;
   color?: boolean;
   noCache?: boolean;
+  ensemble?: boolean;
+  exceed?: ExceedanceThreshold[];
+  aggregation?: AggregationPolicy;
+  /**
+   * Past date (YYYY-MM-DD) to show archived forecasts for
+   */
+  date?: string;
+  /**
+   * Number of days before today to show archived forecasts for
+   */
+  pastDays?: number;
+}
+
+/**
+ * Raw options parsed by commander for the forecast command
+ */
+interface ForecastCommandOptions {
+  days?: number;
+  models?: string[];
+  format?: OutputFormatType | "minimal";
+  cache?: boolean;
+  ensemble?: boolean;
+  exceed?: ExceedanceThreshold[];
+  aggregation?: AggregationPolicy;
+  date?: string;
+  pastDays?: number;
 }
 
 /**
@@ -84,7 +137,9 @@ function renderNarrativeOutput(
   aggregated: AggregatedForecast,
   confidence: ConfidenceResult,
   narrative: NarrativeSummary,
-  options: ForecastOptions
+  options: ForecastOptions,
+  totalModels: number,
+  historical?: HistoricalForecast
 ): string {
   const lines: string[] = [];
   const useColor = options.color !== false && process.stdout.isTTY;
@@ -98,23 +153,25 @@ function renderNarrativeOutput(
 
   const weatherEmoji = getWeatherEmoji(firstDay.forecast.weatherCode as number);
   const confDisplay = getConfidenceDisplay(confidence);
+  const title = historical
+    ? `Historical Forecast (${historical.range.startDate} to ${historical.range.endDate})`
+    : "Weather Outlook";
 
   // Header
   lines.push("");
   if (useColor) {
     lines.push(
-      chalk.bold(`${weatherEmoji}  ${location.resolved.name}, ${location.resolved.country} - Weather Outlook`)
+      chalk.bold(`${weatherEmoji}  ${location.resolved.name}, ${location.resolved.country} - ${title}`)
     );
     lines.push(chalk.dim("\u2501".repeat(50)));
   } else {
-    lines.push(`${weatherEmoji}  ${location.resolved.name}, ${location.resolved.country} - Weather Outlook`);
+    lines.push(`${weatherEmoji}  ${location.resolved.name}, ${location.resolved.country} - ${title}`);
     lines.push("=".repeat(50));
   }
   lines.push("");
 
   // Model consensus
   const modelsAgree = aggregated.models.length;
-  const totalModels = Object.keys(MODEL_INFO).length;
   if (useColor) {
     lines.push(
       chalk.bold(`\uD83D\uDCCA Model Consensus: ${confDisplay.text}`)
@@ -215,7 +272,8 @@ function renderNarrativeOutput(
 function renderMinimalOutput(
   location: Location,
   aggregated: AggregatedForecast,
-  options: ForecastOptions
+  options: ForecastOptions,
+  historical?: HistoricalForecast
 ): string {
   const units = options.units ?? "metric";
   const firstDay = aggregated.consensus.daily[0];
@@ -237,15 +295,16 @@ function renderMinimalOutput(
   const precipProb = Math.round(firstDay.forecast.precipitation.probability);
   const emoji = getWeatherEmoji(firstDay.forecast.weatherCode as number);
   const unit = units === "imperial" ? "F" : "C";
+  const label = historical ? ` (historical, ${historical.range.startDate})` : "";
 
-  return `${emoji} ${location.resolved.name}: ${tempMin}-${tempMax}\u00B0${unit}, ${precipProb}% rain`;
+  return `${emoji} ${location.resolved.name}${label}: ${tempMin}-${tempMax}\u00B0${unit}, ${precipProb}% rain`;
 }
 
 /**
  * Forecast command action handler
  */
 export async function forecastHandler(
-  locationQuery: string,
+  locationQuery: string | undefined,
   options: ForecastOptions
 ): Promise<void> {
   const spinner = ora({
@@ -267,35 +326,59 @@ export async function forecastHandler(
     });
     const verbose = options.verbose ?? false;
 
-    // Use config values as defaults (fixes bug where config.display.units was ignored)
+    // Step 1: Resolve location (saved alias, default location, or geocoding)
+    const { location, saved } = await resolveLocation(
+      locationQuery,
+      config.locations,
+      getGeocodingOptionsFromConfig(config)
+    );
+    const geocoded = location.resolved;
+
+    // Use config values as defaults (fixes bug where config.display.units was ignored);
+    // a saved location's own units, days and models take precedence over the globals
+    const days = options.days ?? saved?.days;
     const effectiveOptions: ForecastOptions = {
       ...options,
-      units: options.units ?? config.display.units,
+      days,
+      units: options.units ?? saved?.units ?? config.display.units,
     };
 
-    // Create cache manager (disabled if --no-cache flag is set)
-    const cache = createCacheManager({ enabled: !options.noCache });
+    // Past dates (--date or --past-days) show archived runs of the models
+    const historicalRange =
+      options.date !== undefined || options.pastDays !== undefined
+        ? resolveHistoricalRange({ date: options.date, days, pastDays: options.pastDays })
+        : undefined;
+    if (historicalRange && options.ensemble) {
+      throw ConfigError.invalid(
+        "ensemble",
+        "ensemble members are only available for upcoming days"
+      );
+    }
 
-    // Step 1: Geocode location
-    const geocoded = await geocodeLocation(locationQuery);
-    const location: Location = {
-      query: locationQuery,
-      resolved: geocoded,
-    };
+    // Create the configured cache backend (disabled if --no-cache flag is set)
+    const cache = createCacheManager({
+      ...getCacheOptionsFromConfig(config),
+      enabled: config.cache.enabled && !options.noCache,
+    });
 
     spinner.text = `Fetching forecasts for ${geocoded.name}...`;
 
     // Step 2: Determine which models to fetch
     const modelsToFetch = options.models
       ? (options.models as ModelName[])
-      : (config.models?.defaults as ModelName[] | undefined) ?? undefined;
-
-    // Step 3: Check cache or fetch all models
+      : (saved?.models as ModelName[] | undefined) ??
+        (config.models?.defaults as ModelName[] | undefined) ??
+        undefined;
+
+    // Step 3: Check cache or fetch all models. The key covers the whole request
+    // (models, days, variables, timezone, endpoints)
+    const fetchOptions = {
+      ...getForecastOptionsFromConfig(config),
+      forecastDays: days ?? 7,
+      historical: historicalRange,
+    };
     const cacheKey = createForecastCacheKey(
-      geocoded.coordinates.latitude,
-      geocoded.coordinates.longitude,
-      modelsToFetch?.join(",") ?? "all",
-      new Date()
+      createForecastCacheRequest(geocoded.coordinates, modelsToFetch, fetchOptions)
     );
 
     let result: MultiModelResult;
@@ -310,12 +393,23 @@ export async function forecastHandler(
       }
     } else {
       result = await fetchAllModels(location, modelsToFetch, {
-        forecastDays: options.days ?? 7,
+        ...fetchOptions,
+        registry: createProviderRegistry(config.providers),
       });
 
-      // Cache the result for future requests (1 hour TTL)
+      // Cache the result until a newer run of one of the models is due;
+      // archived runs don't change, so historical results keep for a day
       if (result.forecasts.length > 0) {
-        await cache.set(cacheKey, result, 3600);
+        const ttl = historicalRange
+          ? HISTORICAL_FORECAST_CACHE_TTL_SECONDS
+          : getForecastCacheTtl(modelsToFetch ?? getDefaultModels());
+        await cache.set(cacheKey, result, ttl);
+      }
+
+      // Record fresh model runs for later verification and run-to-run trends
+      if (!historicalRange) {
+        await recordForecasts(config, result.forecasts);
+        await recordRuns(config, result.forecasts);
       }
     }
 
@@ -330,10 +424,81 @@ export async function forecastHandler(
       process.exit(1);
     }
 
+    // Fetch ensemble members for uncertainty bands when requested
+    let ensembles: EnsembleForecast[] = [];
+    if (options.ensemble) {
+      spinner.text = "Fetching ensemble members...";
+      const ensembleResult = await fetchEnsembleForecasts(location, undefined, {
+        ...getEnsembleOptionsFromConfig(config),
+        forecastDays: days ?? 7,
+      });
+      ensembles = ensembleResult.forecasts;
+
+      if (verbose && ensembleResult.failures.length > 0) {
+        spinner.info(
+          `Ensembles unavailable: ${ensembleResult.failures.map((f) => f.model).join(", ")}`
+        );
+        spinner.start();
+      }
+    }
+
+    // Fetch what was observed on the past dates; the archive lags a few days,
+    // so the forecast is still shown without observations
+    let historical: HistoricalForecast | undefined;
+    if (historicalRange) {
+      spinner.text = "Fetching observations...";
+      try {
+        const observed = await fetchObservedDays(geocoded.coordinates, historicalRange, {
+          endpoint: config.api.archive,
+          timeout: config.models.timeout,
+        });
+        historical = { range: historicalRange, observed };
+      } catch (error) {
+        historical = { range: historicalRange };
+        if (verbose) {
+          spinner.info(
+            `Observations unavailable: ${error instanceof Error ? error.message : String(error)}`
+          );
+          spinner.start();
+        }
+      }
+    }
+
     spinner.text = "Aggregating forecast data...";
 
-    // Step 4: Aggregate forecasts
-    const aggregated = aggregateForecasts(result.forecasts);
+    // Step 4: Aggregate forecasts using the configured weighting strategy and
+    // aggregation policy (--aggregation overrides the configured methods)
+    const weighting = await loadWeightingStrategy(config.models);
+    let aggregated = aggregateForecasts(result.forecasts, {
+      weighting,
+      ensembles,
+      policy: { ...config.aggregation, ...options.aggregation },
+      elevation: location.resolved.elevation,
+      ...(options.exceed !== undefined && { exceedanceThresholds: options.exceed }),
+    });
+
+    // Compare each day with the location's climate normals when enabled;
+    // without them the forecast is still described in absolute terms
+    if (config.climatology.enabled) {
+      spinner.text = "Comparing with climate normals...";
+      try {
+        const normals = await loadClimateNormals(geocoded.coordinates, {
+          store: createClimateNormalsStore({ directory: config.climatology.directory }),
+          file: config.climatology.file,
+          endpoint: config.api.archive,
+          timeout: config.models.timeout,
+          years: config.climatology.years,
+        });
+        aggregated = applyClimateNormals(aggregated, normals);
+      } catch (error) {
+        if (verbose) {
+          spinner.info(
+            `Climate normals unavailable: ${error instanceof Error ? error.message : String(error)}`
+          );
+          spinner.start();
+        }
+      }
+    }
 
     spinner.text = "Calculating confidence...";
 
@@ -342,8 +507,13 @@ export async function forecastHandler(
 
     spinner.text = "Generating narrative...";
 
-    // Step 6: Generate narrative
-    const narrative = generateNarrative(aggregated, [confidence]);
+    // Step 6: Evaluate configured alert rules and generate narrative
+    const alerts = config.alerts.enabled
+      ? evaluateAlertRules(aggregated, config.alerts.rules, { location })
+      : [];
+    const narrative = generateNarrative(aggregated, [confidence], alerts, {
+      timezone: location.resolved.timezone,
+    });
 
     spinner.succeed(`Forecast ready (${result.forecasts.length} models)`);
 
@@ -360,7 +530,7 @@ export async function forecastHandler(
 
     let output: string;
     if (format === "minimal") {
-      output = renderMinimalOutput(location, aggregated, effectiveOptions);
+      output = renderMinimalOutput(location, aggregated, effectiveOptions, historical);
     } else if (format === "table" || format === "json" || format === "narrative" || format === "rich") {
       // Use formatter factory for table, json, narrative, and rich
       const formatterInput: FormatterInput = {
@@ -369,6 +539,8 @@ export async function forecastHandler(
         confidence: [confidence],
         narrative,
         models: result.forecasts,
+        alerts,
+        historical,
       };
 
       const formatter = createFormatter(format, {
@@ -376,7 +548,9 @@ export async function forecastHandler(
         units: effectiveOptions.units ?? "metric",
         showModelDetails: verbose,
         showConfidence: true,
-        maxDays: options.days ?? config.display.defaultDays,
+        maxDays: historical
+          ? aggregated.consensus.daily.length
+          : days ?? config.display.defaultDays,
       });
 
       output = formatter.format(formatterInput);
@@ -387,7 +561,9 @@ export async function forecastHandler(
         aggregated,
         confidence,
         narrative,
-        effectiveOptions
+        effectiveOptions,
+        result.forecasts.length + result.failures.length,
+        historical
       );
     }
 
@@ -410,7 +586,7 @@ export function registerForecastCommand(program: Command): void {
   }
 
   program
-    .command("forecast <location>")
+    .command("forecast [location]")
     .description("Get weather forecast for a location with model consensus")
     .option("-d, --days <n>", "Forecast days (1-16, default: 7)", (v) => {
       const n = parseInt(v, 10);
@@ -434,7 +610,29 @@ export function registerForecastCommand(program: Command): void {
       }
     )
     .option("--no-cache", "Disable caching (fetch fresh data from API)")
-    .action(async (location: string, cmdOptions) => {
+    .option("-e, --ensemble", "Fetch ensemble members for uncertainty bands")
+    .option(
+      "--exceed <threshold>",
+      'Ensemble exceedance threshold, e.g. "precipitation>5" or "temperature<0" (repeatable)',
+      (v, previous: ExceedanceThreshold[] = []) => [...previous, parseExceedanceThreshold(v)]
+    )
+    .option(
+      "--aggregation <policy>",
+      'Aggregation method for all metrics or per metric, e.g. "median" or "temperature=exclude-outliers,windSpeed=weighted-median"',
+      (v) => parseAggregationPolicy(v)
+    )
+    .option(
+      "--date <YYYY-MM-DD>",
+      "Show archived forecasts for a past date (with --days for a range)"
+    )
+    .option("--past-days <n>", "Show archived forecasts for the last n days", (v) => {
+      const n = parseInt(v, 10);
+      if (isNaN(n) || n < 1 || n > MAX_PAST_DAYS) {
+        throw new Error(`Past days must be between 1 and ${MAX_PAST_DAYS}`);
+      }
+      return n;
+    })
+    .action(async (location: string | undefined, cmdOptions: ForecastCommandOptions) => {
       const globalOptions = extractGlobalOptions(program.opts());
       // Build options, preferring command-specific options over global
       // Note: Commander's --no-cache sets cmdOptions.cache = false
@@ -446,6 +644,11 @@ export function registerForecastCommand(program: Command): void {
         verbose: globalOptions.verbose,
         color: globalOptions.color,
         noCache: cmdOptions.cache === false,
+        ensemble: cmdOptions.ensemble === true || cmdOptions.exceed !== undefined,
+        exceed: cmdOptions.exceed,
+        aggregation: cmdOptions.aggregation,
+        date: cmdOptions.date,
+        pastDays: cmdOptions.pastDays,
       };
       await forecastHandler(location, options);
     });
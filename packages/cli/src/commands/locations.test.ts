@@ -0,0 +1,57 @@
+/**
+ * Tests for the locations command.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  addSavedLocation,
+  createSavedLocation,
+  setDefaultLocation,
+  createCoordinates,
+  timezoneId,
+} from "@weather-oracle/core";
+import { renderLocationList } from "./locations";
+import { stripAnsi } from "../__tests__/helpers/ansi";
+
+describe("renderLocationList", () => {
+  it("explains how to add a location when none are saved", () => {
+    const output = stripAnsi(renderLocationList({ saved: [] }));
+    expect(output).toContain("No saved locations");
+    expect(output).toContain("weather-oracle locations add");
+  });
+
+  it("lists aliases with places, defaults and the default marker", () => {
+    let locations = addSavedLocation(
+      {},
+      createSavedLocation(
+        "home",
+        {
+          name: "London",
+          coordinates: createCoordinates(51.5074, -0.1278),
+          country: "United Kingdom",
+          countryCode: "GB",
+          region: "England",
+          timezone: timezoneId("Europe/London"),
+        },
+        { models: ["ecmwf", "icon"], units: "imperial", days: 5 }
+      )
+    );
+    locations = addSavedLocation(
+      locations,
+      createSavedLocation("site-3", {
+        name: "Oslo",
+        coordinates: createCoordinates(59.9127, 10.7461),
+        country: "Norway",
+        countryCode: "NO",
+        timezone: timezoneId("Europe/Oslo"),
+      })
+    );
+    locations = setDefaultLocation(locations, "site-3");
+
+    const lines = stripAnsi(renderLocationList(locations)).split("\n");
+
+    expect(lines).toContain("  home  London, England, United Kingdom (51.5074, -0.1278)");
+    expect(lines).toContain("    models: ecmwf, icon | units: imperial | days: 5");
+    expect(lines).toContain("* site-3  Oslo, Norway (59.9127, 10.7461)");
+  });
+});
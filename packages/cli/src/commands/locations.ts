@@ -0,0 +1,220 @@
+/**
+ * Locations command for Weather Oracle CLI.
+ * Manages saved location aliases so other commands can skip geocoding.
+ */
+
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import {
+  loadConfig,
+  saveConfig,
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
+  createSavedLocation,
+  addSavedLocation,
+  removeSavedLocation,
+  setDefaultLocation,
+  type LocationsConfig,
+  type UnitSystem,
+} from "@weather-oracle/core";
+import { formatError } from "../errors/handler";
+import { extractGlobalOptions } from "../program";
+import { loadUserConfigFile } from "./config";
+
+/**
+ * Options for the locations add command
+ */
+export interface LocationsAddOptions {
+  models?: string[];
+  units?: UnitSystem;
+  days?: number;
+  setDefault?: boolean;
+  verbose?: boolean;
+}
+
+/**
+ * Render the saved locations list
+ */
+export function renderLocationList(locations: LocationsConfig): string {
+  if (locations.saved.length === 0) {
+    return chalk.dim("No saved locations. Add one with `weather-oracle locations add <alias> <location>`.");
+  }
+
+  const defaultAlias = locations.default?.toLowerCase();
+  const lines: string[] = [];
+  lines.push("");
+  lines.push(chalk.bold("Saved Locations"));
+  lines.push(chalk.dim("─".repeat(50)));
+
+  for (const entry of locations.saved) {
+    const { resolved } = entry;
+    const isDefault = entry.alias.toLowerCase() === defaultAlias;
+    const place = [resolved.name, resolved.region, resolved.country].filter(Boolean).join(", ");
+    lines.push(
+      `${isDefault ? chalk.green("*") : " "} ${chalk.cyan(entry.alias)}  ${place} ` +
+        chalk.dim(
+          `(${resolved.coordinates.latitude.toFixed(4)}, ${resolved.coordinates.longitude.toFixed(4)})`
+        )
+    );
+
+    const defaults: string[] = [];
+    if (entry.models !== undefined) defaults.push(`models: ${entry.models.join(", ")}`);
+    if (entry.units !== undefined) defaults.push(`units: ${entry.units}`);
+    if (entry.days !== undefined) defaults.push(`days: ${entry.days}`);
+    if (defaults.length > 0) {
+      lines.push(`    ${chalk.dim(defaults.join(" | "))}`);
+    }
+  }
+
+  lines.push("");
+  return lines.join("\n");
+}
+
+/**
+ * Locations list - show all saved locations
+ */
+async function locationsList(format?: string): Promise<void> {
+  const config = await loadConfig();
+  if (format === "json") {
+    console.log(JSON.stringify(config.locations, null, 2));
+    return;
+  }
+  console.log(renderLocationList(config.locations));
+}
+
+/**
+ * Locations add <alias> <location> - geocode once (or name the coordinates) and save under an alias
+ */
+export async function locationsAddHandler(
+  alias: string,
+  query: string,
+  options: LocationsAddOptions
+): Promise<void> {
+  const spinner = ora({
+    text: `Resolving ${query}...`,
+    spinner: "dots",
+  }).start();
+
+  try {
+    const config = await loadConfig();
+    // Resolve against no saved aliases so coordinates are accepted but aliases aren't chained
+    const { location } = await resolveLocation(
+      query,
+      { saved: [] },
+      getGeocodingOptionsFromConfig(config)
+    );
+    const resolved = location.resolved;
+    const entry = createSavedLocation(alias, resolved, {
+      models: options.models,
+      units: options.units,
+      days: options.days,
+    });
+
+    // Load existing config file and update just the locations section
+    const fileConfig = await loadUserConfigFile();
+    let updated = addSavedLocation(fileConfig.locations ?? {}, entry);
+    if (options.setDefault) {
+      updated = setDefaultLocation(updated, entry.alias);
+    }
+    await saveConfig({ ...fileConfig, locations: updated });
+
+    spinner.succeed(
+      `Saved ${chalk.cyan(entry.alias)} → ${resolved.name}, ${resolved.country}` +
+        (options.setDefault ? chalk.dim(" (default)") : "")
+    );
+  } catch (error) {
+    spinner.fail("Failed");
+    console.error(formatError(error, { verbose: options.verbose ?? false }));
+    process.exit(1);
+  }
+}
+
+/**
+ * Locations remove <alias> - delete a saved location
+ */
+async function locationsRemove(alias: string, verbose: boolean): Promise<void> {
+  try {
+    const fileConfig = await loadUserConfigFile();
+    await saveConfig({ ...fileConfig, locations: removeSavedLocation(fileConfig.locations ?? {}, alias) });
+    console.log(chalk.green(`Removed saved location "${alias}"`));
+  } catch (error) {
+    console.error(formatError(error, { verbose }));
+    process.exit(1);
+  }
+}
+
+/**
+ * Locations default [alias] - show or set the default location
+ */
+async function locationsDefault(alias: string | undefined, verbose: boolean): Promise<void> {
+  try {
+    const fileConfig = await loadUserConfigFile();
+
+    if (alias === undefined) {
+      console.log(fileConfig.locations?.default ?? chalk.dim("No default location set."));
+      return;
+    }
+
+    const updated = setDefaultLocation(fileConfig.locations ?? {}, alias);
+    await saveConfig({ ...fileConfig, locations: updated });
+    console.log(chalk.green(`Default location set to "${updated.default}"`));
+  } catch (error) {
+    console.error(formatError(error, { verbose }));
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the locations command with the CLI program
+ */
+export function registerLocationsCommand(program: Command): void {
+  const locationsCmd = program
+    .command("locations")
+    .description("Manage saved location aliases")
+    .action(async () => {
+      await locationsList(extractGlobalOptions(program.opts()).format);
+    });
+
+  // Subcommand: locations list
+  locationsCmd
+    .command("list")
+    .description("List saved locations")
+    .action(async () => {
+      await locationsList(extractGlobalOptions(program.opts()).format);
+    });
+
+  // Subcommand: locations add <alias> <location...>
+  // Per-location defaults come from the global -m/-u/-d options
+  locationsCmd
+    .command("add <alias> <location...>")
+    .description("Geocode a location and save it under an alias (use -m/-u/-d to store defaults)")
+    .option("--default", "Also make this the default location")
+    .action(async (alias: string, query: string[], cmdOptions: { default?: boolean }) => {
+      const globalOptions = extractGlobalOptions(program.opts());
+      await locationsAddHandler(alias, query.join(" "), {
+        models: globalOptions.models,
+        units: globalOptions.units,
+        days: globalOptions.days,
+        setDefault: cmdOptions.default,
+        verbose: globalOptions.verbose,
+      });
+    });
+
+  // Subcommand: locations remove <alias>
+  locationsCmd
+    .command("remove <alias>")
+    .alias("rm")
+    .description("Remove a saved location")
+    .action(async (alias: string) => {
+      await locationsRemove(alias, extractGlobalOptions(program.opts()).verbose ?? false);
+    });
+
+  // Subcommand: locations default [alias]
+  locationsCmd
+    .command("default [alias]")
+    .description("Show or set the default location used when none is given")
+    .action(async (alias?: string) => {
+      await locationsDefault(alias, extractGlobalOptions(program.opts()).verbose ?? false);
+    });
+}
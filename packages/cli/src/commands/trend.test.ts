@@ -0,0 +1,91 @@
+/**
+ * Tests for the trend command.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { ForecastTrend, TrendReport } from "@weather-oracle/core";
+import { latitude, longitude } from "@weather-oracle/core";
+import { renderTrendReport } from "./trend";
+import { stripAnsi } from "../__tests__/helpers/ansi";
+
+const NOW = new Date(2024, 0, 16, 12);
+
+const WARMING: ForecastTrend = {
+  date: "2024-01-20",
+  metric: "temperatureMax",
+  from: 12,
+  to: 15,
+  change: 3,
+  runs: 4,
+  models: [],
+};
+
+/**
+ * Create a trend report for testing
+ */
+function createReport(overrides: Partial<TrendReport> = {}): TrendReport {
+  return {
+    coordinates: { latitude: latitude(59.91), longitude: longitude(10.75) },
+    latestRuns: [
+      {
+        model: "ecmwf",
+        runInitTime: new Date("2024-01-16T00:00:00Z"),
+        runInitSource: "estimated",
+        storedRuns: 4,
+        ageHours: 11.5,
+        newerRunExpected: false,
+      },
+      {
+        model: "metno",
+        runInitTime: new Date("2024-01-16T08:00:00Z"),
+        runInitSource: "provider",
+        storedRuns: 1,
+        ageHours: 3.5,
+        newerRunExpected: true,
+      },
+    ],
+    trends: [WARMING, { ...WARMING, metric: "precipitation", from: 2, to: 2.3, change: 0.3 }],
+    ...overrides,
+  };
+}
+
+describe("renderTrendReport", () => {
+  it("should list each model's latest run", () => {
+    const output = stripAnsi(renderTrendReport("Oslo", createReport(), { now: NOW }));
+
+    expect(output).toContain("Forecast trend for Oslo");
+    expect(output).toContain(
+      "ECMWF IFS     2024-01-16 00:00 UTC (estimated)  12h old, 4 runs stored"
+    );
+    expect(output).toContain(
+      "MET Norway    2024-01-16 08:00 UTC  4h old, 1 run stored - newer run expected"
+    );
+  });
+
+  it("should show significant changes only by default", () => {
+    const output = stripAnsi(renderTrendReport("Oslo", createReport(), { now: NOW }));
+
+    expect(output).toContain("Saturday's max has warmed 3°C over the last 4 runs (12.0 -> 15.0)");
+    expect(output).not.toContain("rain total");
+  });
+
+  it("should include steady metrics with all", () => {
+    const output = stripAnsi(renderTrendReport("Oslo", createReport(), { all: true, now: NOW }));
+
+    expect(output).toContain("Saturday's rain total has held steady at 2mm over the last 4 runs");
+  });
+
+  it("should explain when there is too little history", () => {
+    const output = stripAnsi(renderTrendReport("Oslo", createReport({ trends: [] })));
+
+    expect(output).toContain("Not enough runs stored yet to show a trend.");
+  });
+
+  it("should say when nothing has moved", () => {
+    const output = stripAnsi(
+      renderTrendReport("Oslo", createReport({ trends: [{ ...WARMING, change: 0.2 }] }))
+    );
+
+    expect(output).toContain("The forecast has held steady across recent runs.");
+  });
+});
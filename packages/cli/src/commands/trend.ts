@@ -0,0 +1,264 @@
+/**
+ * Trend command for Weather Oracle CLI.
+ * Shows which model runs a location's forecast came from and how the
+ * forecast has moved from run to run.
+ */
+
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import {
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
+  fetchAllModels,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
+  createRunHistoryStore,
+  createTrendReport,
+  formatForecastTrend,
+  isSignificantTrend,
+  toModelRun,
+  MODEL_INFO,
+  TREND_METRICS,
+  DEFAULT_TREND_RUNS,
+  type AppConfig,
+  type ModelForecast,
+  type ModelName,
+  type ModelRun,
+  type TrendMetric,
+  type TrendReport,
+} from "@weather-oracle/core";
+import { formatError } from "../errors/handler";
+import { extractGlobalOptions, loadConfigWithOverrides } from "../program";
+import { recordForecasts } from "./verify";
+
+/**
+ * Options for the trend command
+ */
+export interface TrendCommandOptions {
+  runs?: number;
+  metric?: TrendMetric;
+  all?: boolean;
+  models?: string[];
+  format?: "table" | "json";
+  verbose?: boolean;
+  color?: boolean;
+}
+
+/**
+ * Record fetched model runs for run-to-run trends.
+ * Failures are ignored so run history never breaks a forecast.
+ */
+export async function recordRuns(
+  config: AppConfig,
+  forecasts: readonly ModelForecast[]
+): Promise<void> {
+  if (!config.runs.enabled) {
+    return;
+  }
+
+  const runs = forecasts.map(toModelRun).filter((run): run is ModelRun => run !== undefined);
+  if (runs.length === 0) {
+    return;
+  }
+
+  try {
+    const store = createRunHistoryStore({
+      directory: config.runs.directory,
+      retentionDays: config.runs.retentionDays,
+    });
+    await store.saveRuns(runs);
+  } catch {
+    // Run history is best-effort
+  }
+}
+
+/**
+ * Format a run init time, e.g. "2024-01-15 06:00 UTC"
+ */
+function formatRunTime(date: Date): string {
+  return `${date.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+/**
+ * Render a trend report: each model's latest run, then the trends
+ */
+export function renderTrendReport(
+  locationName: string,
+  report: TrendReport,
+  options: { all?: boolean; now?: Date } = {}
+): string {
+  const lines: string[] = [];
+
+  lines.push("");
+  lines.push(chalk.bold(`Forecast trend for ${locationName}`));
+
+  if (report.latestRuns.length > 0) {
+    lines.push("");
+    lines.push(chalk.bold.cyan("Latest runs"));
+    for (const run of report.latestRuns) {
+      const source = run.runInitSource === "estimated" ? chalk.dim(" (estimated)") : "";
+      const age = `${Math.round(run.ageHours)}h old`;
+      const stored = `${run.storedRuns} run${run.storedRuns === 1 ? "" : "s"} stored`;
+      const stale = run.newerRunExpected ? chalk.yellow(" - newer run expected") : "";
+      const name = MODEL_INFO[run.model].displayName.padEnd(14);
+      lines.push(
+        `  ${name}${formatRunTime(run.runInitTime)}${source}  ${chalk.dim(`${age}, ${stored}`)}${stale}`
+      );
+    }
+  }
+
+  const trends = options.all ? report.trends : report.trends.filter(isSignificantTrend);
+
+  lines.push("");
+  if (report.trends.length === 0) {
+    lines.push(chalk.yellow("Not enough runs stored yet to show a trend."));
+    lines.push(
+      chalk.dim("Trends appear once two or more runs have been recorded for this location.")
+    );
+    return lines.join("\n");
+  }
+  if (trends.length === 0) {
+    lines.push(chalk.green("The forecast has held steady across recent runs."));
+    return lines.join("\n");
+  }
+
+  lines.push(chalk.bold.cyan("Run-to-run changes"));
+  for (const trend of trends) {
+    const range = chalk.dim(` (${trend.from.toFixed(1)} -> ${trend.to.toFixed(1)})`);
+    lines.push(`  ${formatForecastTrend(trend, options.now)}${range}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Trend command action handler
+ */
+export async function trendHandler(
+  locationQuery: string | undefined,
+  options: TrendCommandOptions
+): Promise<void> {
+  const spinner = ora({
+    text: "Resolving location...",
+    spinner: "dots",
+  }).start();
+
+  try {
+    const config = await loadConfigWithOverrides({
+      verbose: options.verbose,
+      color: options.color,
+    });
+
+    const { location, saved } = await resolveLocation(
+      locationQuery,
+      config.locations,
+      getGeocodingOptionsFromConfig(config)
+    );
+    const geocoded = location.resolved;
+
+    spinner.text = `Fetching the latest runs for ${geocoded.name}...`;
+
+    const modelsToFetch = options.models
+      ? (options.models as ModelName[])
+      : ((saved?.models as ModelName[] | undefined) ??
+        (config.models?.defaults as ModelName[] | undefined) ??
+        undefined);
+
+    const result = await fetchAllModels(location, modelsToFetch, {
+      ...getForecastOptionsFromConfig(config),
+      forecastDays: saved?.days ?? 7,
+      registry: createProviderRegistry(config.providers),
+    });
+    await recordForecasts(config, result.forecasts);
+    await recordRuns(config, result.forecasts);
+
+    const store = createRunHistoryStore({
+      directory: config.runs.directory,
+      retentionDays: config.runs.retentionDays,
+    });
+    const runs = await store.getRuns(geocoded.coordinates);
+    const report = createTrendReport(geocoded.coordinates, runs, {
+      runs: options.runs,
+      fromDate: new Date().toISOString().slice(0, 10),
+      ...(options.metric !== undefined && { metrics: [options.metric] }),
+    });
+
+    spinner.succeed(`Compared ${runs.length} stored runs from ${report.latestRuns.length} models`);
+
+    if (options.format === "json") {
+      const trends = options.all ? report.trends : report.trends.filter(isSignificantTrend);
+      console.log(
+        JSON.stringify(
+          {
+            ...report,
+            trends: trends.map((trend) => ({ ...trend, summary: formatForecastTrend(trend) })),
+          },
+          null,
+          2
+        )
+      );
+    } else {
+      console.log(renderTrendReport(geocoded.name, report, { all: options.all }));
+    }
+  } catch (error) {
+    spinner.fail("Failed");
+    console.error(formatError(error, { verbose: options.verbose ?? false }));
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the trend command with the CLI program
+ */
+export function registerTrendCommand(program: Command): void {
+  program
+    .command("trend [location]")
+    .description("Show how the forecast has changed across recent model runs")
+    .option(
+      "-r, --runs <n>",
+      `Recent runs per model to compare (2-20, default: ${DEFAULT_TREND_RUNS})`,
+      (v) => {
+        const n = parseInt(v, 10);
+        if (isNaN(n) || n < 2 || n > 20) {
+          throw new Error("Runs must be between 2 and 20");
+        }
+        return n;
+      }
+    )
+    .option("--metric <name>", `Only show one metric (${TREND_METRICS.join("/")})`, (v) => {
+      if (!TREND_METRICS.includes(v as TrendMetric)) {
+        throw new Error(`Metric must be one of: ${TREND_METRICS.join(", ")}`);
+      }
+      return v as TrendMetric;
+    })
+    .option("-a, --all", "Include metrics that have held steady")
+    .option("-m, --models <list>", "Models to fetch (comma-separated)", (v) =>
+      v.split(",").map((m) => m.trim().toLowerCase())
+    )
+    .option("-f, --format <type>", "Output format (table/json)", (v) => {
+      const normalized = v.toLowerCase();
+      if (normalized !== "table" && normalized !== "json") {
+        throw new Error('Format must be "table" or "json"');
+      }
+      return normalized;
+    })
+    .action(
+      async (
+        location: string | undefined,
+        cmdOptions: Omit<TrendCommandOptions, "verbose" | "color">
+      ) => {
+        const globalOptions = extractGlobalOptions(program.opts());
+        const options: TrendCommandOptions = {
+          runs: cmdOptions.runs,
+          metric: cmdOptions.metric,
+          all: cmdOptions.all,
+          models: cmdOptions.models ?? globalOptions.models,
+          format: cmdOptions.format ?? (globalOptions.format === "json" ? "json" : "table"),
+          verbose: globalOptions.verbose,
+          color: globalOptions.color,
+        };
+        await trendHandler(location, options);
+      }
+    );
+}
@@ -0,0 +1,67 @@
+/**
+ * Tests for the verify command.
+ */
+
+import { describe, it, expect } from "bun:test";
+import type { VerificationReport } from "@weather-oracle/core";
+import { latitude, longitude } from "@weather-oracle/core";
+import { renderVerificationTable } from "./verify";
+import { stripAnsi } from "../__tests__/helpers/ansi";
+
+/**
+ * Create a verification report for testing
+ */
+function createReport(overrides: Partial<VerificationReport> = {}): VerificationReport {
+  return {
+    coordinates: { latitude: latitude(51.5074), longitude: longitude(-0.1278) },
+    from: new Date("2024-01-10T00:00:00Z"),
+    to: new Date("2024-01-15T00:00:00Z"),
+    models: ["ecmwf", "gfs"],
+    forecastCount: 4,
+    observationCount: 120,
+    scores: [
+      { model: "ecmwf", metric: "temperature", leadTime: "all", mae: 1.2, rmse: 1.5, bias: 0.4, sampleSize: 96 },
+      { model: "ecmwf", metric: "temperature", leadTime: "0-24h", mae: 0.8, rmse: 1.0, bias: 0.2, sampleSize: 48 },
+      { model: "gfs", metric: "temperature", leadTime: "all", mae: 2.1, rmse: 2.6, bias: -1.3, sampleSize: 96 },
+      { model: "gfs", metric: "windSpeed", leadTime: "all", mae: 1.1, rmse: 1.4, bias: 0.5, sampleSize: 96 },
+    ],
+    ...overrides,
+  };
+}
+
+describe("renderVerificationTable", () => {
+  it("should include the location and data counts", () => {
+    const output = stripAnsi(renderVerificationTable("London", createReport()));
+
+    expect(output).toContain("Forecast verification for London");
+    expect(output).toContain("4 forecast runs, 120 observations");
+  });
+
+  it("should render one section per scored metric", () => {
+    const output = stripAnsi(renderVerificationTable("London", createReport()));
+
+    expect(output).toContain("Temperature (°C)");
+    expect(output).toContain("Wind Speed (m/s)");
+    expect(output).not.toContain("Humidity (%)");
+  });
+
+  it("should show MAE, RMSE and signed bias per lead time", () => {
+    const output = stripAnsi(renderVerificationTable("London", createReport()));
+    const lines = output.split("\n");
+
+    const ecmwfRow = lines.find((l) => l.startsWith("ECMWF"));
+    expect(ecmwfRow).toContain("all");
+    expect(ecmwfRow).toContain("1.20");
+    expect(ecmwfRow).toContain("+0.40");
+
+    const gfsRow = lines.find((l) => l.includes("-1.30"));
+    expect(gfsRow).toBeDefined();
+    expect(lines.some((l) => l.includes("0-24h") && l.includes("0.80"))).toBe(true);
+  });
+
+  it("should explain when nothing could be scored", () => {
+    const output = stripAnsi(renderVerificationTable("London", createReport({ scores: [] })));
+
+    expect(output).toContain("No forecasts could be matched to observations yet.");
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Verify command for Weather Oracle CLI.
+ * Scores stored model forecasts for a location against observed weather.
+ */
+
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import {
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
+  createVerificationStore,
+  loadObservationsFile,
+  fetchArchiveObservations,
+  verifySite,
+  toForecastRecord,
+  MODEL_INFO,
+  VERIFIED_METRICS,
+  type AppConfig,
+  type ModelForecast,
+  type Observation,
+  type VerificationReport,
+  type VerifiedMetric,
+} from "@weather-oracle/core";
+import { formatError } from "../errors/handler";
+import { extractGlobalOptions, loadConfigWithOverrides } from "../program";
+
+/**
+ * Options for the verify command
+ */
+export interface VerifyOptions {
+  observations?: string;
+  days?: number;
+  metric?: VerifiedMetric;
+  format?: "table" | "json";
+  verbose?: boolean;
+  color?: boolean;
+}
+
+/**
+ * Display labels and units for verified metrics
+ */
+const METRIC_LABELS: Record<VerifiedMetric, { label: string; unit: string }> = {
+  temperature: { label: "Temperature", unit: "°C" },
+  precipitation: { label: "Precipitation", unit: "mm" },
+  windSpeed: { label: "Wind Speed", unit: "m/s" },
+  humidity: { label: "Humidity", unit: "%" },
+  pressure: { label: "Pressure", unit: "hPa" },
+};
+
+/**
+ * Record fetched model forecasts for later verification.
+ * Failures are ignored so verification never breaks a forecast.
+ */
+export async function recordForecasts(
+  config: AppConfig,
+  forecasts: readonly ModelForecast[]
+): Promise<void> {
+  if (!config.verification.enabled || forecasts.length === 0) {
+    return;
+  }
+
+  try {
+    const store = createVerificationStore({
+      directory: config.verification.directory,
+      retentionDays: config.verification.retentionDays,
+    });
+    await store.saveForecasts(forecasts.map(toForecastRecord));
+  } catch {
+    // Verification data is best-effort
+  }
+}
+
+/**
+ * Format a number to a fixed number of decimals, with sign for bias
+ */
+function formatNumber(value: number, signed = false): string {
+  const text = value.toFixed(2);
+  return signed && value > 0 ? `+${text}` : text;
+}
+
+/**
+ * Render a verification report as plain-text tables, one per metric
+ */
+export function renderVerificationTable(
+  locationName: string,
+  report: VerificationReport
+): string {
+  const lines: string[] = [];
+
+  lines.push("");
+  lines.push(chalk.bold(`Forecast verification for ${locationName}`));
+  lines.push(
+    chalk.dim(`${report.forecastCount} forecast runs, ${report.observationCount} observations`)
+  );
+
+  if (report.scores.length === 0) {
+    lines.push("");
+    lines.push(chalk.yellow("No forecasts could be matched to observations yet."));
+    lines.push(
+      chalk.dim("Run forecasts for this location and verify again once observations are available.")
+    );
+    return lines.join("\n");
+  }
+
+  const header =
+    "Model".padEnd(14) +
+    "Lead time".padEnd(11) +
+    "MAE".padStart(8) +
+    "RMSE".padStart(8) +
+    "Bias".padStart(8) +
+    "N".padStart(7);
+
+  for (const metric of VERIFIED_METRICS) {
+    const scores = report.scores.filter((s) => s.metric === metric);
+    if (scores.length === 0) continue;
+
+    const { label, unit } = METRIC_LABELS[metric];
+    lines.push("");
+    lines.push(chalk.bold.cyan(`${label} (${unit})`));
+    lines.push(chalk.dim(header));
+    lines.push(chalk.dim("-".repeat(header.length)));
+
+    let previousModel: string | undefined;
+    for (const score of scores) {
+      const modelName =
+        score.model === previousModel ? "" : MODEL_INFO[score.model].displayName;
+      previousModel = score.model;
+
+      const row =
+        modelName.substring(0, 13).padEnd(14) +
+        score.leadTime.padEnd(11) +
+        formatNumber(score.mae).padStart(8) +
+        formatNumber(score.rmse).padStart(8) +
+        formatNumber(score.bias, true).padStart(8) +
+        String(score.sampleSize).padStart(7);
+      lines.push(row);
+    }
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Verify command action handler
+ */
+export async function verifyHandler(
+  locationQuery: string | undefined,
+  options: VerifyOptions
+): Promise<void> {
+  const spinner = ora({
+    text: "Resolving location...",
+    spinner: "dots",
+  }).start();
+
+  try {
+    const config = await loadConfigWithOverrides({
+      verbose: options.verbose,
+      color: options.color,
+    });
+    const days = options.days ?? 7;
+
+    const { location } = await resolveLocation(
+      locationQuery,
+      config.locations,
+      getGeocodingOptionsFromConfig(config)
+    );
+    const geocoded = location.resolved;
+    const coordinates = geocoded.coordinates;
+
+    const store = createVerificationStore({
+      directory: config.verification.directory,
+      retentionDays: config.verification.retentionDays,
+    });
+
+    const to = new Date();
+    const from = new Date(to.getTime() - days * 24 * 60 * 60 * 1000);
+
+    // Ingest observations from a file or the archive API
+    let observations: Observation[];
+    if (options.observations !== undefined) {
+      spinner.text = `Reading observations from ${options.observations}...`;
+      observations = await loadObservationsFile(options.observations);
+    } else {
+      spinner.text = `Fetching observations for ${geocoded.name}...`;
+      observations = await fetchArchiveObservations(
+        coordinates,
+        { from, to },
+        { endpoint: config.api.archive }
+      );
+    }
+    await store.saveObservations(coordinates, observations);
+
+    spinner.text = "Scoring model forecasts...";
+
+    const report = await verifySite(store, coordinates, {
+      range: { from },
+      ...(options.metric !== undefined && { metrics: [options.metric] }),
+    });
+
+    spinner.succeed(
+      `Verified ${report.models.length} models against ${observations.length} observations`
+    );
+
+    if (options.format === "json") {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(renderVerificationTable(geocoded.name, report));
+    }
+  } catch (error) {
+    spinner.fail("Failed");
+    console.error(formatError(error, { verbose: options.verbose ?? false }));
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the verify command with the CLI program
+ */
+export function registerVerifyCommand(program: Command): void {
+  program
+    .command("verify [location]")
+    .description("Score past model forecasts for a location against observed weather")
+    .option(
+      "-o, --observations <file>",
+      "Observations file (CSV or Open-Meteo archive JSON); defaults to the archive API"
+    )
+    .option("-d, --days <n>", "Days of forecast history to verify (1-90, default: 7)", (v) => {
+      const n = parseInt(v, 10);
+      if (isNaN(n) || n < 1 || n > 90) {
+        throw new Error("Days must be between 1 and 90");
+      }
+      return n;
+    })
+    .option("--metric <name>", `Only score one metric (${VERIFIED_METRICS.join("/")})`, (v) => {
+      if (!VERIFIED_METRICS.includes(v as VerifiedMetric)) {
+        throw new Error(`Metric must be one of: ${VERIFIED_METRICS.join(", ")}`);
+      }
+      return v as VerifiedMetric;
+    })
+    .option("-f, --format <type>", "Output format (table/json)", (v) => {
+      const normalized = v.toLowerCase();
+      if (normalized !== "table" && normalized !== "json") {
+        throw new Error('Format must be "table" or "json"');
+      }
+      return normalized;
+    })
+    .action(async (location: string | undefined, cmdOptions: Omit<VerifyOptions, "verbose" | "color">) => {
+      const globalOptions = extractGlobalOptions(program.opts());
+      const options: VerifyOptions = {
+        observations: cmdOptions.observations,
+        days: cmdOptions.days,
+        metric: cmdOptions.metric,
+        format: cmdOptions.format ?? (globalOptions.format === "json" ? "json" : "table"),
+        verbose: globalOptions.verbose,
+        color: globalOptions.color,
+      };
+      await verifyHandler(location, options);
+    });
+}
@@ -0,0 +1,76 @@
+/**
+ * Tests for the watch command.
+ */
+
+import { describe, it, expect, spyOn } from "bun:test";
+import type { WatchEvent } from "@weather-oracle/core";
+import { latitude, longitude, timezoneId } from "@weather-oracle/core";
+import { renderWatchEvent, createConsoleNotifier } from "./watch";
+import { stripAnsi } from "../__tests__/helpers/ansi";
+
+/**
+ * Create a watch event for testing
+ */
+function createEvent(): WatchEvent {
+  return {
+    location: {
+      query: "London",
+      resolved: {
+        name: "London",
+        coordinates: { latitude: latitude(51.5), longitude: longitude(-0.12) },
+        country: "United Kingdom",
+        countryCode: "GB",
+        timezone: timezoneId("Europe/London"),
+      },
+    },
+    checkedAt: new Date(2024, 0, 15, 12, 5),
+    models: ["ecmwf", "gfs"],
+    changes: [
+      {
+        kind: "rain-timing",
+        previousStart: new Date("2024-01-15T18:00:00Z"),
+        currentStart: new Date("2024-01-15T14:00:00Z"),
+        message: "Rain now expected from Mon 14:00, 4h earlier than before (Mon 18:00)",
+      },
+      {
+        kind: "confidence",
+        previousLevel: "high",
+        currentLevel: "medium",
+        previousScore: 0.82,
+        currentScore: 0.61,
+        message: "Confidence dropped from high (82%) to medium (61%)",
+      },
+    ],
+  };
+}
+
+describe("renderWatchEvent", () => {
+  it("should show the time, location and each change", () => {
+    const output = stripAnsi(renderWatchEvent(createEvent()));
+    const lines = output.split("\n");
+
+    expect(lines[0]).toBe("[12:05] London (2 changes)");
+    expect(lines[1]).toBe("  • Rain now expected from Mon 14:00, 4h earlier than before (Mon 18:00)");
+    expect(lines[2]).toBe("  • Confidence dropped from high (82%) to medium (61%)");
+  });
+});
+
+describe("createConsoleNotifier", () => {
+  it("should print events as JSON lines in json format", async () => {
+    const log = spyOn(console, "log").mockImplementation(() => {});
+
+    try {
+      await createConsoleNotifier("json").notify(createEvent());
+
+      expect(log).toHaveBeenCalledTimes(1);
+      const record = JSON.parse(log.mock.calls[0][0] as string) as {
+        location: { name: string };
+        changes: Array<{ kind: string }>;
+      };
+      expect(record.location.name).toBe("London");
+      expect(record.changes.map((c) => c.kind)).toEqual(["rain-timing", "confidence"]);
+    } finally {
+      log.mockRestore();
+    }
+  });
+});
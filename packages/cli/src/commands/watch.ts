@@ -0,0 +1,247 @@
+/**
+ * Watch command for Weather Oracle CLI.
+ * Keeps polling saved locations on each model's update schedule and
+ * reports meaningful forecast changes until interrupted.
+ */
+
+import chalk from "chalk";
+import ora from "ora";
+import type { Command } from "commander";
+import {
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
+  loadWeightingStrategy,
+  createForecastWatcher,
+  createJsonlNotifier,
+  createWebhookNotifier,
+  toWatchEventRecord,
+  ConfigError,
+  type ChangeNotifier,
+  type ForecastChange,
+  type Location,
+  type ModelName,
+  type WatchEvent,
+} from "@weather-oracle/core";
+import { formatError } from "../errors/handler";
+import { extractGlobalOptions, loadConfigWithOverrides } from "../program";
+
+/**
+ * Options for the watch command
+ */
+export interface WatchOptions {
+  models?: string[];
+  interval?: number;
+  log?: string;
+  webhook?: string;
+  quiet?: boolean;
+  format?: "text" | "json";
+  verbose?: boolean;
+  color?: boolean;
+}
+
+/**
+ * Options parsed by Commander for the watch command
+ */
+interface WatchCommandOptions {
+  models?: string[];
+  interval?: number;
+  log?: string;
+  webhook?: string;
+  quiet?: boolean;
+}
+
+/**
+ * Color for each kind of change
+ */
+function colorForChange(change: ForecastChange): (text: string) => string {
+  switch (change.kind) {
+    case "rain-timing":
+    case "precipitation":
+      return chalk.cyan;
+    case "confidence":
+      return chalk.yellow;
+    case "temperature":
+      return chalk.magenta;
+  }
+}
+
+/**
+ * Format a time as HH:MM for log lines
+ */
+function formatClockTime(date: Date): string {
+  return `${String(date.getHours()).padStart(2, "0")}:${String(date.getMinutes()).padStart(2, "0")}`;
+}
+
+/**
+ * Render a watch event for the terminal
+ */
+export function renderWatchEvent(event: WatchEvent): string {
+  const lines: string[] = [];
+  lines.push(
+    `${chalk.dim(`[${formatClockTime(event.checkedAt)}]`)} ${chalk.bold(event.location.resolved.name)} ` +
+      chalk.dim(`(${event.changes.length} change${event.changes.length === 1 ? "" : "s"})`)
+  );
+  for (const change of event.changes) {
+    lines.push(`  ${colorForChange(change)("•")} ${change.message}`);
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Create a notifier that prints events to stdout
+ */
+export function createConsoleNotifier(format: "text" | "json" = "text"): ChangeNotifier {
+  return {
+    notify(event: WatchEvent): Promise<void> {
+      console.log(
+        format === "json" ? JSON.stringify(toWatchEventRecord(event)) : renderWatchEvent(event)
+      );
+      return Promise.resolve();
+    },
+  };
+}
+
+/**
+ * Wait for SIGINT or SIGTERM, then stop the watcher
+ */
+function waitForShutdown(stop: () => Promise<void>): Promise<void> {
+  return new Promise((resolve) => {
+    const shutdown = (): void => {
+      process.off("SIGINT", shutdown);
+      process.off("SIGTERM", shutdown);
+      void stop().then(resolve);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  });
+}
+
+/**
+ * Watch command action handler
+ */
+export async function watchHandler(
+  locationQueries: string[],
+  options: WatchOptions
+): Promise<void> {
+  const spinner = ora({
+    text: "Resolving locations...",
+    spinner: "dots",
+  }).start();
+
+  try {
+    const config = await loadConfigWithOverrides({
+      models: options.models,
+      verbose: options.verbose,
+      color: options.color,
+    });
+    const verbose = options.verbose ?? false;
+
+    const queries = locationQueries.length > 0 ? locationQueries : config.watch.locations;
+    if (queries.length === 0) {
+      throw ConfigError.missing("watch.locations", "pass locations to watch or save them in the config");
+    }
+
+    // Step 1: Resolve every location up front (saved aliases skip geocoding)
+    const geocodingOptions = getGeocodingOptionsFromConfig(config);
+    const locations: Location[] = [];
+    for (const query of queries) {
+      spinner.text = `Resolving ${query}...`;
+      locations.push((await resolveLocation(query, config.locations, geocodingOptions)).location);
+    }
+
+    // Step 2: Set up notifiers
+    const notifiers: ChangeNotifier[] = [];
+    if (!options.quiet) {
+      notifiers.push(createConsoleNotifier(options.format));
+    }
+    const logFile = options.log ?? config.watch.logFile;
+    if (logFile !== undefined) {
+      notifiers.push(createJsonlNotifier(logFile));
+    }
+    const webhookUrl = options.webhook ?? config.watch.webhookUrl;
+    if (webhookUrl !== undefined) {
+      notifiers.push(createWebhookNotifier(webhookUrl));
+    }
+
+    const intervalMinutes = options.interval ?? config.watch.intervalMinutes;
+    const watcher = createForecastWatcher({
+      locations,
+      models: config.models.defaults as ModelName[],
+      notifiers,
+      fetchOptions: {
+        ...getForecastOptionsFromConfig(config),
+        registry: createProviderRegistry(config.providers),
+      },
+      aggregation: {
+        weighting: await loadWeightingStrategy(config.models),
+        policy: config.aggregation,
+      },
+      ...(intervalMinutes !== undefined && { intervalMs: intervalMinutes * 60 * 1000 }),
+      onCheck: (location, _forecast, changes) => {
+        if (verbose && changes.length === 0) {
+          console.log(chalk.dim(`[${formatClockTime(new Date())}] ${location.resolved.name}: no changes`));
+        }
+      },
+      onError: (error, location) => {
+        console.error(chalk.yellow(`${location.resolved.name}: ${error.message}`));
+      },
+    });
+
+    // Step 3: Fetch the baseline forecasts
+    spinner.text = `Fetching baseline forecasts for ${locations.length} location${locations.length === 1 ? "" : "s"}...`;
+    await watcher.start();
+
+    const next = watcher.getNextPollTime();
+    spinner.succeed(
+      `Watching ${locations.map((l) => l.resolved.name).join(", ")}` +
+        (next ? ` (next check ${formatClockTime(next)})` : "")
+    );
+    console.log(chalk.dim("Press Ctrl+C to stop."));
+
+    // Step 4: Run until interrupted
+    await waitForShutdown(() => watcher.stop());
+    console.log(chalk.dim("\nStopped watching."));
+  } catch (error) {
+    spinner.fail("Failed");
+    console.error(formatError(error, { verbose: options.verbose ?? false }));
+    process.exit(1);
+  }
+}
+
+/**
+ * Register the watch command with the CLI program
+ */
+export function registerWatchCommand(program: Command): void {
+  program
+    .command("watch [locations...]")
+    .description("Keep polling locations and report meaningful forecast changes")
+    .option("-m, --models <list>", "Models to query (comma-separated)", (v) =>
+      v.split(",").map((m) => m.trim().toLowerCase())
+    )
+    .option("-i, --interval <minutes>", "Poll every N minutes instead of each model's update frequency", (v) => {
+      const n = parseInt(v, 10);
+      if (isNaN(n) || n < 1) {
+        throw new Error("Interval must be at least 1 minute");
+      }
+      return n;
+    })
+    .option("--log <file>", "Append changes to a JSONL file")
+    .option("--webhook <url>", "POST changes as JSON to a URL")
+    .option("-q, --quiet", "Do not print changes to stdout")
+    .action(async (locations: string[], cmdOptions: WatchCommandOptions) => {
+      const globalOptions = extractGlobalOptions(program.opts());
+      const options: WatchOptions = {
+        models: cmdOptions.models ?? globalOptions.models,
+        interval: cmdOptions.interval,
+        log: cmdOptions.log,
+        webhook: cmdOptions.webhook,
+        quiet: cmdOptions.quiet,
+        format: globalOptions.format === "json" ? "json" : "text",
+        verbose: globalOptions.verbose,
+        color: globalOptions.color,
+      };
+      await watchHandler(locations, options);
+    });
+}
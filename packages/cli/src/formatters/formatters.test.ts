@@ -14,6 +14,10 @@ import type {
   MetricStatistics,
   WeatherMetrics,
   DailyForecast,
+  WeatherAlert,
+  HistoricalForecast,
+  IndexValue,
+  PrecipitationTypeForecast,
 } from "@weather-oracle/core";
 import type { ConfidenceResult, NarrativeSummary } from "@weather-oracle/core";
 import {
@@ -34,7 +38,7 @@ import {
 
 import { TableFormatter, createTableFormatter } from "./table";
 import { NarrativeFormatter, createNarrativeFormatter } from "./narrative";
-import { JsonFormatter, createJsonFormatter } from "./json";
+import { JsonFormatter, createJsonFormatter, type JsonOutput } from "./json";
 import { RichFormatter } from "./rich";
 import {
   createFormatter,
@@ -288,6 +292,123 @@ function createMockFormatterInput(): FormatterInput {
   };
 }
 
+/**
+ * Add extended conditions to the first day of an aggregated forecast
+ */
+function withExtendedConditions(aggregated: AggregatedForecast): AggregatedForecast {
+  const [first, ...rest] = aggregated.consensus.daily;
+  return {
+    ...aggregated,
+    consensus: {
+      ...aggregated.consensus,
+      daily: [
+        {
+          ...first,
+          forecast: {
+            ...first.forecast,
+            dewPoint: { min: celsius(1), max: celsius(4) },
+            snowfall: { total: 2.5 },
+            cape: { max: 320 },
+          },
+        },
+        ...rest,
+      ],
+    },
+  };
+}
+
+/**
+ * Compare the first day of an aggregated forecast with a normal, with a
+ * record wet week for January
+ */
+function withClimateNormals(aggregated: AggregatedForecast): AggregatedForecast {
+  const [first, ...rest] = aggregated.consensus.daily;
+  return {
+    ...aggregated,
+    consensus: {
+      ...aggregated.consensus,
+      daily: [
+        {
+          ...first,
+          anomaly: {
+            normal: { temperatureMax: 4.3, temperatureMin: 1.5, precipitation: 2.1 },
+            temperatureMax: 4.2,
+            temperatureMin: -0.5,
+            precipitation: 1.4,
+          },
+        },
+        ...rest,
+      ],
+    },
+    climatology: {
+      period: { startYear: 1994, endYear: 2023 },
+      wettestWeek: { month: 1, years: 10, precipitation: 48.5 },
+    },
+  };
+}
+
+/**
+ * Index value agreed by every model, or a low-confidence one
+ */
+function createIndexValue(value: number, lowConfidence = false): IndexValue {
+  return {
+    value,
+    range: { min: value, max: value },
+    confidence: lowConfidence ? { level: "low", score: 0.3 } : { level: "high", score: 1 },
+  };
+}
+
+/**
+ * Add indices to the first day of an aggregated forecast: a muggy heat index
+ * above the caution threshold and a low-confidence frost risk
+ */
+function withIndices(aggregated: AggregatedForecast): AggregatedForecast {
+  const [first, ...rest] = aggregated.consensus.daily;
+  return {
+    ...aggregated,
+    consensus: {
+      ...aggregated.consensus,
+      daily: [
+        {
+          ...first,
+          indices: {
+            peaks: {
+              heatIndex: createIndexValue(31),
+              humidex: createIndexValue(29),
+              windChill: createIndexValue(12),
+              wbgt: createIndexValue(24),
+              comfort: {
+                class: "muggy",
+                dewPoint: 19,
+                confidence: { level: "high", score: 1 },
+              },
+            },
+            frostRisk: {
+              risk: "moderate",
+              minTemperature: 1.5,
+              probability: 33,
+              confidence: { level: "low", score: 0.3 },
+            },
+            growingDegreeDays: createIndexValue(12.5),
+            referenceEvapotranspiration: createIndexValue(4.2),
+          },
+        },
+        ...rest,
+      ],
+    },
+  };
+}
+
+/**
+ * Historical forecast for two past days, observed on the first
+ */
+const HISTORICAL: HistoricalForecast = {
+  range: { startDate: "2024-01-15", endDate: "2024-01-16" },
+  observed: [
+    { date: "2024-01-15", temperature: { min: 3, max: 9 }, precipitation: 4.2, windSpeedMax: 6 },
+  ],
+};
+
 // ============================================================================
 // Color Utility Tests
 // ============================================================================
@@ -430,6 +551,55 @@ describe("TableFormatter", () => {
     const output = formatter.format(emptyInput);
     expect(output).toContain("No forecast data available");
   });
+
+  test("shows extended conditions only when models provided them", () => {
+    expect(formatter.format(input)).not.toContain("Extended Conditions");
+
+    const output = formatter.format({
+      ...input,
+      aggregated: withExtendedConditions(input.aggregated),
+    });
+    expect(output).toContain("Extended Conditions:");
+    expect(output).toContain("snow 2.5cm");
+    expect(output).toContain("CAPE 320 J/kg");
+  });
+
+  test("labels historical forecasts and shows what was observed", () => {
+    expect(formatter.format(input)).not.toContain("Observed:");
+
+    const output = formatter.format({ ...input, historical: HISTORICAL });
+    expect(output).toContain("Historical Forecast for Dublin, Ireland (2024-01-15 to 2024-01-16)");
+    expect(output).toContain("Archived runs of");
+    expect(output).toContain("Observed:");
+    expect(output).toContain("precip 4.2mm");
+
+    const unobserved = formatter.format({ ...input, historical: { range: HISTORICAL.range } });
+    expect(unobserved).toContain("No observations available yet");
+  });
+
+  test("shows departures from climate normals when they were computed", () => {
+    expect(formatter.format(input)).not.toContain("vs Norm");
+
+    const output = formatter.format({ ...input, aggregated: withClimateNormals(input.aggregated) });
+    expect(output).toContain("vs Norm");
+    expect(output).toContain("+4.2°C");
+    expect(output).toContain("vs Norm: high compared with the 1994-2023 normal");
+    expect(output).toContain("Wettest week for January in 10 years (48.5mm)");
+  });
+
+  test("shows comfort and hazard indices that call for caution", () => {
+    expect(formatter.format(input)).not.toContain("Comfort & Hazards");
+
+    const output = formatter.format({ ...input, aggregated: withIndices(input.aggregated) });
+    expect(output).toContain("Comfort & Hazards:");
+    expect(output).toContain("heat index 31°C");
+    expect(output).not.toContain("humidex");
+    expect(output).not.toContain("WBGT");
+    expect(output).not.toContain("wind chill");
+    expect(output).toContain("muggy (dew point 19°C)");
+    expect(output).toContain("frost risk moderate (33% of models) (low confidence)");
+    expect(output).toContain("GDD 12.5, ET\u2080 4.2mm");
+  });
 });
 
 // ============================================================================
@@ -501,6 +671,11 @@ describe("NarrativeFormatter", () => {
     const output = formatter.format(inputWithAlerts);
     expect(output).toContain("uncertainty");
   });
+
+  test("labels historical forecasts", () => {
+    const output = formatter.format({ ...input, historical: HISTORICAL });
+    expect(output).toContain("Historical forecast for 2024-01-15 to 2024-01-16");
+  });
 });
 
 // ============================================================================
@@ -620,6 +795,229 @@ describe("JsonFormatter", () => {
 
     expect(parsed.hourly).toBeUndefined();
   });
+
+  test("includes structured alerts", () => {
+    const alert: WeatherAlert = {
+      rule: "Strong gusts",
+      severity: "warning",
+      metric: "windGust",
+      operator: ">",
+      threshold: 15,
+      start: new Date("2024-01-15T02:00:00Z"),
+      end: new Date("2024-01-15T04:00:00Z"),
+      value: 18.04,
+      modelRange: { min: 10, max: 20 },
+      probability: 67,
+      confidence: "medium",
+      triggeringModels: ["ecmwf", "gfs"],
+      message: "Strong gusts: wind gusts above 15 m/s",
+    };
+
+    const parsed = JSON.parse(formatter.format({ ...input, alerts: [alert] })) as JsonOutput;
+    const empty = JSON.parse(formatter.format(input)) as JsonOutput;
+
+    expect(parsed.alerts).toEqual([
+      {
+        ...alert,
+        start: "2024-01-15T02:00:00.000Z",
+        end: "2024-01-15T04:00:00.000Z",
+        value: 18,
+      },
+    ]);
+    expect(empty.alerts).toEqual([]);
+  });
+
+  test("includes the condition distribution when available", () => {
+    const aggregated = createMockAggregatedForecast();
+    const [first, ...rest] = aggregated.consensus.daily;
+    const withConditions: AggregatedForecast = {
+      ...aggregated,
+      consensus: {
+        ...aggregated.consensus,
+        daily: [
+          {
+            ...first,
+            conditions: {
+              condition: "rain",
+              weatherCode: weatherCode(61),
+              distribution: [
+                { condition: "rain", models: ["ecmwf", "gfs"], weight: 2 / 3 },
+                { condition: "cloudy", models: ["icon"], weight: 1 / 3 },
+              ],
+            },
+          },
+          ...rest,
+        ],
+      },
+    };
+
+    const output = formatter.format({ ...input, aggregated: withConditions });
+    const parsed = JSON.parse(output) as JsonOutput;
+
+    expect(parsed.daily[0].conditions?.map((share) => share.condition)).toEqual([
+      "rain",
+      "cloudy",
+    ]);
+    expect(parsed.daily[0].conditions?.[0].models).toEqual(["ecmwf", "gfs"]);
+    expect(parsed.daily[1]?.conditions).toBeUndefined();
+  });
+
+  test("includes coverage and data-quality gaps when models were missing values", () => {
+    const aggregated = createMockAggregatedForecast();
+    const [first, ...rest] = aggregated.consensus.daily;
+    const withGaps: AggregatedForecast = {
+      ...aggregated,
+      consensus: {
+        ...aggregated.consensus,
+        daily: [
+          {
+            ...first,
+            coverage: [{ metric: "uvIndex", models: ["ecmwf"], missing: ["nws"] }],
+          },
+          ...rest,
+        ],
+      },
+      dataQuality: {
+        entries: [
+          {
+            model: "nws",
+            scope: "daily",
+            metric: "uvIndex",
+            times: [new Date("2024-01-15T00:00:00Z")],
+          },
+        ],
+        missingValues: 1,
+        totalValues: 24,
+      },
+    };
+
+    const output = formatter.format({ ...input, aggregated: withGaps });
+    const parsed = JSON.parse(output) as JsonOutput;
+
+    expect(parsed.daily[0].coverage).toEqual([
+      { metric: "uvIndex", models: ["ecmwf"], missing: ["nws"] },
+    ]);
+    expect(parsed.dataQuality?.gaps[0]).toEqual({
+      model: "nws",
+      scope: "daily",
+      metric: "uvIndex",
+      times: ["2024-01-15T00:00:00.000Z"],
+    });
+    expect(parsed.dataQuality?.missingValues).toBe(1);
+  });
+
+  test("includes the aggregation policy and dropped models", () => {
+    const withPolicy: AggregatedForecast = {
+      ...createMockAggregatedForecast(),
+      aggregation: {
+        policy: { temperature: "exclude-outliers" },
+        exclusions: [
+          {
+            model: "jma",
+            metric: "temperature",
+            scope: "hourly",
+            method: "exclude-outliers",
+            zScore: 2.2361,
+            times: [new Date("2024-01-15T00:00:00Z")],
+          },
+        ],
+      },
+    };
+
+    const parsed = JSON.parse(formatter.format({ ...input, aggregated: withPolicy })) as JsonOutput;
+
+    expect(parsed.aggregation?.policy).toEqual({ temperature: "exclude-outliers" });
+    expect(parsed.aggregation?.exclusions[0]).toEqual({
+      model: "jma",
+      metric: "temperature",
+      scope: "hourly",
+      method: "exclude-outliers",
+      zScore: 2.24,
+      times: ["2024-01-15T00:00:00.000Z"],
+    });
+  });
+
+  test("includes extended conditions when models provided them", () => {
+    const output = formatter.format({
+      ...input,
+      aggregated: withExtendedConditions(input.aggregated),
+    });
+    const parsed = JSON.parse(output) as JsonOutput;
+
+    expect(parsed.daily[0].dewPoint).toEqual({ min: 1, max: 4 });
+    expect(parsed.daily[0].snowfall).toBe(2.5);
+    expect(parsed.daily[0].cape).toBe(320);
+    expect(parsed.daily[0].soilMoisture).toBeUndefined();
+    expect(parsed.daily[1]?.dewPoint).toBeUndefined();
+  });
+
+  test("includes the dates and observations of historical forecasts", () => {
+    expect((JSON.parse(formatter.format(input)) as JsonOutput).historical).toBeUndefined();
+
+    const parsed = JSON.parse(formatter.format({ ...input, historical: HISTORICAL })) as JsonOutput;
+    expect(parsed.historical).toEqual({
+      startDate: "2024-01-15",
+      endDate: "2024-01-16",
+      observed: [...(HISTORICAL.observed ?? [])],
+    });
+  });
+
+  test("includes daily anomalies and the climate normals period", () => {
+    expect((JSON.parse(formatter.format(input)) as JsonOutput).climatology).toBeUndefined();
+
+    const output = formatter.format({ ...input, aggregated: withClimateNormals(input.aggregated) });
+    const parsed = JSON.parse(output) as JsonOutput;
+
+    expect(parsed.climatology).toEqual({
+      period: { startYear: 1994, endYear: 2023 },
+      wettestWeek: { month: 1, years: 10, precipitation: 48.5 },
+    });
+    expect(parsed.daily[0].anomaly?.temperatureMax).toBe(4.2);
+    expect(parsed.daily[0].anomaly?.normal.precipitation).toBe(2.1);
+    expect(parsed.daily[1]?.anomaly).toBeUndefined();
+  });
+
+  test("includes daily indices with their confidence", () => {
+    const output = formatter.format({ ...input, aggregated: withIndices(input.aggregated) });
+    const parsed = JSON.parse(output) as JsonOutput;
+
+    expect(parsed.daily[0].indices?.frostRisk).toEqual({
+      risk: "moderate",
+      minTemperature: 1.5,
+      probability: 33,
+      confidence: { level: "low", score: 0.3 },
+    });
+    expect(parsed.daily[0].indices?.growingDegreeDays.value).toBe(12.5);
+    expect(parsed.daily[1]?.indices).toBeUndefined();
+  });
+
+  test("includes hourly precipitation type when requested", () => {
+    const [first, ...rest] = input.aggregated.consensus.hourly;
+    const precipitationType: PrecipitationTypeForecast = {
+      type: "snow",
+      probabilities: { rain: 20, snow: 65, sleet: 15, freezingRain: 0 },
+      models: ["ecmwf", "gfs"],
+    };
+    const aggregated = {
+      ...input.aggregated,
+      consensus: {
+        ...input.aggregated.consensus,
+        hourly: [{ ...first, precipitationType }, ...rest],
+      },
+    };
+    const output = new JsonFormatter({ includeHourly: true }).format({ ...input, aggregated });
+    const parsed = JSON.parse(output) as JsonOutput;
+
+    expect(parsed.hourly?.[0].precipitationType).toEqual(precipitationType);
+    expect(parsed.hourly?.[1]?.precipitationType).toBeUndefined();
+  });
+
+  test("omits data quality when nothing was missing", () => {
+    const parsed = JSON.parse(formatter.format(input)) as JsonOutput;
+
+    expect(parsed.dataQuality).toBeUndefined();
+    expect(parsed.daily[0].coverage).toBeUndefined();
+  });
 });
 
 // ============================================================================
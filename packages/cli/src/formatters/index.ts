@@ -40,6 +40,12 @@ export {
   type JsonOutput,
   type JsonDailyForecast,
   type JsonHourlyForecast,
+  type JsonDailyExtended,
+  type JsonHourlyExtended,
+  type JsonConditionShare,
+  type JsonMetricCoverage,
+  type JsonDataQuality,
+  type JsonAggregation,
   type JsonFormatterOptions,
 } from "./json";
 
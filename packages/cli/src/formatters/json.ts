@@ -12,6 +12,20 @@ import type {
   AggregatedForecast,
   AggregatedDailyForecast,
   AggregatedHourlyForecast,
+  AggregationSummary,
+  ClimateComparison,
+  ConditionConsensus,
+  DailyAnomaly,
+  DailyForecast,
+  DailyIndices,
+  DataQualityReport,
+  HistoricalForecast,
+  HourlyIndices,
+  MetricCoverage,
+  ObservedDay,
+  PrecipitationTypeForecast,
+  WeatherAlert,
+  WeatherMetrics,
 } from "@weather-oracle/core";
 
 /**
@@ -24,6 +38,128 @@ function toISOString(date: Date | string): string {
   return date.toISOString();
 }
 
+/**
+ * Convert a condition consensus to its JSON distribution
+ */
+function buildConditionShares(conditions: ConditionConsensus): JsonConditionShare[] {
+  return conditions.distribution.map((share) => ({
+    condition: share.condition,
+    models: [...share.models],
+    weight: share.weight,
+  }));
+}
+
+/**
+ * Convert per-metric coverage to JSON
+ */
+function buildCoverage(coverage: readonly MetricCoverage[]): JsonMetricCoverage[] {
+  return coverage.map((c) => ({
+    metric: c.metric,
+    models: [...c.models],
+    missing: [...c.missing],
+  }));
+}
+
+/**
+ * Convert the extended daily summaries a forecast includes to JSON
+ */
+function buildDailyExtended(forecast: DailyForecast): JsonDailyExtended {
+  return {
+    ...(forecast.dewPoint && {
+      dewPoint: { min: forecast.dewPoint.min, max: forecast.dewPoint.max },
+    }),
+    ...(forecast.snowfall && { snowfall: forecast.snowfall.total }),
+    ...(forecast.snowDepth && { snowDepth: forecast.snowDepth.max }),
+    ...(forecast.freezingLevelHeight && {
+      freezingLevelHeight: forecast.freezingLevelHeight.min,
+    }),
+    ...(forecast.cape && { cape: forecast.cape.max }),
+    ...(forecast.soilTemperature && {
+      soilTemperature: { min: forecast.soilTemperature.min, max: forecast.soilTemperature.max },
+    }),
+    ...(forecast.soilMoisture && { soilMoisture: forecast.soilMoisture.avg }),
+    ...(forecast.shortwaveRadiation && {
+      shortwaveRadiation: forecast.shortwaveRadiation.total,
+    }),
+  };
+}
+
+/**
+ * Convert the extended hourly metrics a forecast includes to JSON
+ */
+function buildHourlyExtended(metrics: WeatherMetrics): JsonHourlyExtended {
+  return {
+    ...(metrics.dewPoint !== undefined && { dewPoint: metrics.dewPoint }),
+    ...(metrics.snowfall !== undefined && { snowfall: metrics.snowfall }),
+    ...(metrics.snowDepth !== undefined && { snowDepth: metrics.snowDepth }),
+    ...(metrics.freezingLevelHeight !== undefined && {
+      freezingLevelHeight: metrics.freezingLevelHeight,
+    }),
+    ...(metrics.cape !== undefined && { cape: metrics.cape }),
+    ...(metrics.soilTemperature !== undefined && {
+      soilTemperature: metrics.soilTemperature,
+    }),
+    ...(metrics.soilMoisture !== undefined && { soilMoisture: metrics.soilMoisture }),
+    ...(metrics.shortwaveRadiation !== undefined && {
+      shortwaveRadiation: metrics.shortwaveRadiation,
+    }),
+  };
+}
+
+/**
+ * Convert a data-quality report to JSON
+ */
+function buildDataQuality(report: DataQualityReport): JsonDataQuality {
+  return {
+    missingValues: report.missingValues,
+    totalValues: report.totalValues,
+    gaps: report.entries.map((entry) => ({
+      model: entry.model,
+      scope: entry.scope,
+      metric: entry.metric,
+      times: entry.times.map(toISOString),
+    })),
+  };
+}
+
+/**
+ * Convert an aggregation summary to JSON
+ */
+function buildAggregation(summary: AggregationSummary): JsonAggregation {
+  return {
+    policy: { ...summary.policy },
+    exclusions: summary.exclusions.map((exclusion) => ({
+      model: exclusion.model,
+      metric: exclusion.metric,
+      scope: exclusion.scope,
+      method: exclusion.method,
+      zScore: Math.round(exclusion.zScore * 100) / 100,
+      times: exclusion.times.map(toISOString),
+    })),
+  };
+}
+
+/**
+ * Convert a historical forecast's dates and observations to JSON
+ */
+function buildHistorical(historical: HistoricalForecast): JsonHistorical {
+  return {
+    startDate: historical.range.startDate,
+    endDate: historical.range.endDate,
+    observed: [...(historical.observed ?? [])],
+  };
+}
+
+/**
+ * Convert a forecast's comparison with climate normals to JSON
+ */
+function buildClimatology(climatology: ClimateComparison): JsonClimatology {
+  return {
+    period: { ...climatology.period },
+    ...(climatology.wettestWeek && { wettestWeek: { ...climatology.wettestWeek } }),
+  };
+}
+
 /**
  * JSON output structure for weather forecast
  */
@@ -39,6 +175,10 @@ export interface JsonOutput {
     readonly timezone: string;
   };
   readonly generatedAt: string;
+  /**
+   * Present when the forecast is for past dates
+   */
+  readonly historical?: JsonHistorical;
   readonly validFrom: string;
   readonly validTo: string;
   readonly models: readonly string[];
@@ -52,6 +192,13 @@ export interface JsonOutput {
     readonly body: string;
     readonly alerts: readonly string[];
   };
+  readonly alerts: readonly JsonAlert[];
+  readonly dataQuality?: JsonDataQuality;
+  readonly aggregation?: JsonAggregation;
+  /**
+   * Present when daily anomalies are computed against climate normals
+   */
+  readonly climatology?: JsonClimatology;
   readonly daily: readonly JsonDailyForecast[];
   readonly hourly?: readonly JsonHourlyForecast[];
 }
@@ -59,7 +206,7 @@ export interface JsonOutput {
 /**
  * JSON daily forecast structure
  */
-export interface JsonDailyForecast {
+export interface JsonDailyForecast extends JsonDailyExtended {
   readonly date: string;
   readonly temperature: {
     readonly high: number;
@@ -92,16 +239,159 @@ export interface JsonDailyForecast {
   };
   readonly uvIndex: number;
   readonly weatherCode: number;
+  readonly conditions?: readonly JsonConditionShare[];
+  readonly coverage?: readonly JsonMetricCoverage[];
+  readonly anomaly?: DailyAnomaly;
+  readonly indices?: DailyIndices;
   readonly confidence: {
     readonly level: string;
     readonly score: number;
   };
 }
 
+/**
+ * JSON extended daily summaries, present when a model provided them
+ */
+export interface JsonDailyExtended {
+  readonly dewPoint?: {
+    readonly min: number;
+    readonly max: number;
+  };
+  /** Total snowfall in cm */
+  readonly snowfall?: number;
+  /** Maximum snow depth in m */
+  readonly snowDepth?: number;
+  /** Lowest freezing level in m */
+  readonly freezingLevelHeight?: number;
+  /** Maximum CAPE in J/kg */
+  readonly cape?: number;
+  readonly soilTemperature?: {
+    readonly min: number;
+    readonly max: number;
+  };
+  /** Average soil moisture in m³/m³ */
+  readonly soilMoisture?: number;
+  /** Total shortwave radiation in MJ/m² */
+  readonly shortwaveRadiation?: number;
+}
+
+/**
+ * JSON extended hourly metrics, present when a model provided them
+ */
+export interface JsonHourlyExtended {
+  readonly dewPoint?: number;
+  /** Snowfall in cm */
+  readonly snowfall?: number;
+  /** Snow depth in m */
+  readonly snowDepth?: number;
+  /** Freezing level in m */
+  readonly freezingLevelHeight?: number;
+  /** CAPE in J/kg */
+  readonly cape?: number;
+  readonly soilTemperature?: number;
+  /** Soil moisture in m³/m³ */
+  readonly soilMoisture?: number;
+  /** Shortwave radiation in W/m² */
+  readonly shortwaveRadiation?: number;
+}
+
+/**
+ * JSON share of models forecasting one weather condition
+ */
+export interface JsonConditionShare {
+  readonly condition: string;
+  readonly models: readonly string[];
+  readonly weight: number;
+}
+
+/**
+ * JSON models that did and did not provide a metric
+ */
+export interface JsonMetricCoverage {
+  readonly metric: string;
+  readonly models: readonly string[];
+  readonly missing: readonly string[];
+}
+
+/**
+ * JSON list of values the models did not provide
+ */
+export interface JsonDataQuality {
+  readonly missingValues: number;
+  readonly totalValues: number;
+  readonly gaps: readonly {
+    readonly model: string;
+    readonly scope: string;
+    readonly metric: string;
+    readonly times: readonly string[];
+  }[];
+}
+
+/**
+ * JSON aggregation policy and the models it dropped
+ */
+export interface JsonAggregation {
+  readonly policy: Readonly<Record<string, string>>;
+  readonly exclusions: readonly {
+    readonly model: string;
+    readonly metric: string;
+    readonly scope: string;
+    readonly method: string;
+    readonly zScore: number;
+    readonly times: readonly string[];
+  }[];
+}
+
+/**
+ * JSON dates of a historical forecast and what was observed on them
+ */
+export interface JsonHistorical {
+  readonly startDate: string;
+  readonly endDate: string;
+  readonly observed: readonly ObservedDay[];
+}
+
+/**
+ * JSON climate normals period and any wettest-week record
+ */
+export interface JsonClimatology {
+  readonly period: {
+    readonly startYear: number;
+    readonly endYear: number;
+  };
+  readonly wettestWeek?: {
+    readonly month: number;
+    readonly years: number;
+    readonly precipitation: number;
+  };
+}
+
+/**
+ * JSON alert structure
+ */
+export interface JsonAlert {
+  readonly rule: string;
+  readonly severity: string;
+  readonly metric: string;
+  readonly operator: string;
+  readonly threshold: number;
+  readonly start: string;
+  readonly end: string;
+  readonly value: number;
+  readonly modelRange: {
+    readonly min: number;
+    readonly max: number;
+  };
+  readonly probability: number;
+  readonly confidence: string;
+  readonly triggeringModels: readonly string[];
+  readonly message: string;
+}
+
 /**
  * JSON hourly forecast structure
  */
-export interface JsonHourlyForecast {
+export interface JsonHourlyForecast extends JsonHourlyExtended {
   readonly timestamp: string;
   readonly temperature: number;
   readonly feelsLike: number;
@@ -112,6 +402,10 @@ export interface JsonHourlyForecast {
   readonly windDirection: number;
   readonly cloudCover: number;
   readonly weatherCode: number;
+  readonly conditions?: readonly JsonConditionShare[];
+  readonly coverage?: readonly JsonMetricCoverage[];
+  readonly indices?: HourlyIndices;
+  readonly precipitationType?: PrecipitationTypeForecast;
   readonly confidence: {
     readonly level: string;
     readonly score: number;
@@ -211,6 +505,7 @@ export class JsonFormatter implements OutputFormatter {
         timezone: location.resolved.timezone as string,
       },
       generatedAt: toISOString(aggregated.generatedAt),
+      ...(data.historical && { historical: buildHistorical(data.historical) }),
       validFrom: toISOString(aggregated.validFrom),
       validTo: toISOString(aggregated.validTo),
       models: aggregated.models.slice(),
@@ -224,6 +519,10 @@ export class JsonFormatter implements OutputFormatter {
         body: narrative.body,
         alerts: narrative.alerts.slice(),
       },
+      alerts: (data.alerts ?? []).map((alert) => this.buildAlert(alert)),
+      ...(aggregated.dataQuality && { dataQuality: buildDataQuality(aggregated.dataQuality) }),
+      ...(aggregated.aggregation && { aggregation: buildAggregation(aggregated.aggregation) }),
+      ...(aggregated.climatology && { climatology: buildClimatology(aggregated.climatology) }),
       daily: this.buildDailyForecasts(aggregated),
     };
 
@@ -236,6 +535,30 @@ export class JsonFormatter implements OutputFormatter {
     return output;
   }
 
+  /**
+   * Build a single alert
+   */
+  private buildAlert(alert: WeatherAlert): JsonAlert {
+    return {
+      rule: alert.rule,
+      severity: alert.severity,
+      metric: alert.metric,
+      operator: alert.operator,
+      threshold: alert.threshold,
+      start: toISOString(alert.start),
+      end: toISOString(alert.end),
+      value: Math.round(alert.value * 10) / 10,
+      modelRange: {
+        min: Math.round(alert.modelRange.min * 10) / 10,
+        max: Math.round(alert.modelRange.max * 10) / 10,
+      },
+      probability: alert.probability,
+      confidence: alert.confidence,
+      triggeringModels: alert.triggeringModels.slice(),
+      message: alert.message,
+    };
+  }
+
   /**
    * Build daily forecast array
    */
@@ -288,6 +611,11 @@ export class JsonFormatter implements OutputFormatter {
       },
       uvIndex: forecast.uvIndex.max as number,
       weatherCode: forecast.weatherCode as number,
+      ...buildDailyExtended(forecast),
+      ...(day.conditions && { conditions: buildConditionShares(day.conditions) }),
+      ...(day.coverage && { coverage: buildCoverage(day.coverage) }),
+      ...(day.anomaly && { anomaly: day.anomaly }),
+      ...(day.indices && { indices: day.indices }),
       confidence: {
         level: day.confidence.level,
         score: day.confidence.score,
@@ -325,6 +653,11 @@ export class JsonFormatter implements OutputFormatter {
       windDirection: metrics.windDirection as number,
       cloudCover: metrics.cloudCover as number,
       weatherCode: metrics.weatherCode as number,
+      ...buildHourlyExtended(metrics),
+      ...(hour.conditions && { conditions: buildConditionShares(hour.conditions) }),
+      ...(hour.coverage && { coverage: buildCoverage(hour.coverage) }),
+      ...(hour.indices && { indices: hour.indices }),
+      ...(hour.precipitationType && { precipitationType: hour.precipitationType }),
       confidence: {
         level: hour.confidence.level,
         score: hour.confidence.score,
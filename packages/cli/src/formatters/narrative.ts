@@ -71,7 +71,7 @@ export class NarrativeFormatter implements OutputFormatter {
    * Format the location header
    */
   private formatLocationHeader(data: FormatterInput): string {
-    const { location } = data;
+    const { location, historical } = data;
     const ui = this.palette.ui;
     const headerFn = ui.header as unknown as (text: string) => string;
     const mutedFn = ui.muted as unknown as (text: string) => string;
@@ -79,6 +79,14 @@ export class NarrativeFormatter implements OutputFormatter {
     const locationName = location.resolved.name;
     const country = location.resolved.country;
 
+    if (historical) {
+      const { startDate, endDate } = historical.range;
+      return [
+        headerFn(`${locationName}, ${country}`),
+        mutedFn(`Historical forecast for ${startDate} to ${endDate} (archived model runs)`),
+      ].join("\n");
+    }
+
     return [
       headerFn(`${locationName}, ${country}`),
       mutedFn(new Date().toLocaleDateString("en-US", {
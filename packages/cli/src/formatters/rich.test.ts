@@ -369,6 +369,15 @@ describe("RichFormatter", () => {
     expect(output).toContain("°C");
   });
 
+  test("labels historical forecasts instead of current conditions", () => {
+    const output = formatter.format({
+      ...input,
+      historical: { range: { startDate: "2024-01-15", endDate: "2024-01-16" } },
+    });
+    expect(output).toContain("Historical forecast: 2024-01-15 to 2024-01-16");
+    expect(output).not.toContain("Currently");
+  });
+
   test("output contains temperature trend section", () => {
     const output = formatter.format(input);
     expect(output).toContain("Temperature Trend");
@@ -638,3 +647,91 @@ describe("RichFormatter temperature extremes", () => {
     expect(output).toContain("40");
   });
 });
+
+describe("RichFormatter ensemble uncertainty", () => {
+  function createEnsembleInput(): FormatterInput {
+    const base = createMockFormatterInput();
+    const distribution = (p10: number, p50: number, p90: number) => ({
+      p10,
+      p50,
+      p90,
+      mean: p50,
+      min: p10 - 1,
+      max: p90 + 1,
+      memberCount: 51,
+    });
+    const daily = base.aggregated.consensus.daily.map((d, i) => ({
+      ...d,
+      uncertainty: {
+        temperatureMax: distribution(18 + i, 21 + i, 25 + i),
+        temperatureMin: distribution(10, 12, 14),
+        precipitation: distribution(0, 1, 6),
+        windSpeedMax: distribution(4, 6, 9),
+        exceedance: [
+          { metric: "precipitation" as const, threshold: 5, comparison: "above" as const, probability: 35 },
+        ],
+      },
+    }));
+
+    return {
+      ...base,
+      aggregated: {
+        ...base.aggregated,
+        consensus: { ...base.aggregated.consensus, daily },
+        ensemble: { models: ["ecmwf_ens"], memberCount: 51 },
+      },
+    };
+  }
+
+  test("renders percentile bands and exceedance probabilities", () => {
+    const formatter = new RichFormatter({ useColors: false });
+    const output = formatter.format(createEnsembleInput());
+
+    expect(output).toContain("Ensemble Uncertainty (ECMWF ENS, 51 members)");
+    expect(output).toContain("18°C / 21°C / 25°C");
+    expect(output).toContain("precip >5mm 35%");
+  });
+
+  test("omits the section without ensemble data", () => {
+    const formatter = new RichFormatter({ useColors: false });
+    const output = formatter.format(createMockFormatterInput());
+
+    expect(output).not.toContain("Ensemble Uncertainty");
+  });
+});
+
+describe("RichFormatter alerts", () => {
+  test("lists alerts from configured rules", () => {
+    const formatter = new RichFormatter({ useColors: false });
+    const output = formatter.format({
+      ...createMockFormatterInput(),
+      alerts: [
+        {
+          rule: "Frost",
+          severity: "warning",
+          metric: "temperature",
+          operator: "<",
+          threshold: 0,
+          start: new Date("2024-01-15T00:00:00Z"),
+          end: new Date("2024-01-15T03:00:00Z"),
+          value: -2,
+          modelRange: { min: -3, max: -1 },
+          probability: 100,
+          confidence: "high",
+          triggeringModels: ["ecmwf"],
+          message: "Frost: temperature below 0°C, Mon 00:00-Mon 03:00 (1 of 1 models, high confidence)",
+        },
+      ],
+    });
+
+    expect(output).toContain("Alerts");
+    expect(output).toContain("Frost: temperature below 0°C");
+  });
+
+  test("omits the section without alerts", () => {
+    const formatter = new RichFormatter({ useColors: false });
+    const output = formatter.format(createMockFormatterInput());
+
+    expect(output).not.toContain("Alerts");
+  });
+});
@@ -30,7 +30,12 @@ import {
 } from "../visualization/constellation";
 import { RenderTier, detectColorSupport } from "../visualization/terminal";
 import { revealAnimation } from "../visualization/animation";
-import { formatRelativeDay } from "@weather-oracle/core";
+import {
+  formatRelativeDay,
+  ENSEMBLE_MODEL_INFO,
+  type ExceedanceProbability,
+  type WeatherAlert,
+} from "@weather-oracle/core";
 
 // Re-export revealAnimation for consumers to use with formatted output
 export { revealAnimation };
@@ -101,12 +106,22 @@ export class RichFormatter implements OutputFormatter {
     // 2. Temperature section with sparkline
     sections.push(this.formatTemperature(data, theme));
 
-    // 3. Model consensus section with constellation
+    // 3. Alerts from configured rules
+    if (data.alerts && data.alerts.length > 0) {
+      sections.push(this.formatAlerts(data.alerts, theme));
+    }
+
+    // 4. Ensemble uncertainty bands
+    if (aggregated.ensemble) {
+      sections.push(this.formatUncertainty(data, theme));
+    }
+
+    // 5. Model consensus section with constellation
     if (this.options.showConstellation && data.models.length > 1) {
       sections.push(this.formatModelConsensus(data, theme));
     }
 
-    // 4. 7-day heatmap
+    // 6. 7-day heatmap
     if (this.options.showHeatmap) {
       sections.push(this.formatHeatmap(data, theme));
     }
@@ -144,7 +159,14 @@ export class RichFormatter implements OutputFormatter {
       `${icon}  ${locationName}, ${country}`,
       theme.primary
     );
-    const tempLine = tempColorFn(`Currently: ${tempStr}`);
+    // Past dates are labelled as such instead of showing current conditions
+    const range = data.historical?.range;
+    const tempLine = range
+      ? this.colorize(
+          `Historical forecast: ${range.startDate} to ${range.endDate}`,
+          theme.secondary
+        )
+      : tempColorFn(`Currently: ${tempStr}`);
 
     lines.push(headerLine);
     lines.push(tempLine);
@@ -209,6 +231,110 @@ export class RichFormatter implements OutputFormatter {
     return lines.join("\n");
   }
 
+  /**
+   * Format the alerts section, one line per alert
+   */
+  private formatAlerts(alerts: readonly WeatherAlert[], theme: WeatherTheme): string {
+    const lines: string[] = [];
+    lines.push(this.colorize("Alerts", theme.primary));
+    lines.push("");
+
+    const icons: Record<WeatherAlert["severity"], string> = {
+      info: "\u2139",
+      warning: "\u26A0",
+      severe: "\u203C",
+    };
+
+    for (const alert of alerts) {
+      lines.push(`  ${icons[alert.severity]} ${alert.message}`);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format the ensemble uncertainty section: a P10-P90 band of daily highs
+   * on a shared scale, with the P50 marked, plus exceedance probabilities
+   */
+  private formatUncertainty(data: FormatterInput, theme: WeatherTheme): string {
+    const { aggregated } = data;
+    const lines: string[] = [];
+    const ensemble = aggregated.ensemble;
+
+    const systems = (ensemble?.models ?? [])
+      .map((m) => ENSEMBLE_MODEL_INFO[m].displayName)
+      .join(" + ");
+    lines.push(
+      this.colorize(
+        `Ensemble Uncertainty (${systems}, ${ensemble?.memberCount ?? 0} members)`,
+        theme.primary
+      )
+    );
+    lines.push("");
+
+    const days = aggregated.consensus.daily
+      .slice(0, 7)
+      .filter((d) => d.uncertainty !== undefined);
+
+    if (days.length === 0) {
+      lines.push("  No ensemble data overlaps this forecast.");
+      return lines.join("\n");
+    }
+
+    // Shared scale so bands are comparable across days
+    const bandWidth = 20;
+    const low = Math.min(...days.map((d) => d.uncertainty!.temperatureMax.p10));
+    const high = Math.max(...days.map((d) => d.uncertainty!.temperatureMax.p90));
+    const span = high - low || 1;
+    const position = (value: number): number =>
+      Math.round(((value - low) / span) * (bandWidth - 1));
+
+    lines.push(this.colorize("  Daily high, P10-P90 (\u2588 = median)", theme.secondary));
+
+    for (const day of days) {
+      const { p10, p50, p90 } = day.uncertainty!.temperatureMax;
+      const start = position(p10);
+      const end = position(p90);
+      const mid = position(p50);
+
+      let band = "";
+      for (let i = 0; i < bandWidth; i++) {
+        band += i === mid ? "\u2588" : i >= start && i <= end ? "\u2591" : " ";
+      }
+
+      const dayName = formatRelativeDay(day.date).padEnd(10);
+      const range = `${this.formatTemperatureValue(p10)} / ${this.formatTemperatureValue(p50)} / ${this.formatTemperatureValue(p90)}`;
+      lines.push(`  ${dayName} \u2595${tempToColor(p50)(band)}\u258F ${range}`);
+
+      const exceedance = day.uncertainty!.exceedance.map((e) => this.formatExceedance(e));
+      if (exceedance.length > 0) {
+        lines.push(`  ${"".padEnd(10)}   ${exceedance.join("  ")}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format an exceedance probability, e.g. "precip >5mm 40%"
+   */
+  private formatExceedance(exceedance: ExceedanceProbability): string {
+    const operator = exceedance.comparison === "above" ? ">" : "<";
+    let label: string;
+    switch (exceedance.metric) {
+      case "temperature":
+        label = `temp ${operator}${this.formatTemperatureValue(exceedance.threshold)}`;
+        break;
+      case "precipitation":
+        label = `precip ${operator}${exceedance.threshold}mm`;
+        break;
+      case "windSpeed":
+        label = `wind ${operator}${exceedance.threshold}m/s`;
+        break;
+    }
+    return `${label} ${Math.round(exceedance.probability)}%`;
+  }
+
   /**
    * Strip ANSI escape codes to get visible length
    */
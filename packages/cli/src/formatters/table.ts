@@ -9,11 +9,13 @@ import type {
   FormatterOptions,
   ColorPalette,
 } from "./types";
-import type { AggregatedDailyForecast } from "@weather-oracle/core";
+import type { AggregatedDailyForecast, IndexValue } from "@weather-oracle/core";
 import {
   formatRelativeDay,
+  formatMonthName,
   toCardinalDirection,
   MODEL_INFO,
+  INDEX_CAUTION_THRESHOLDS,
 } from "@weather-oracle/core";
 import {
   getPalette,
@@ -88,6 +90,27 @@ export class TableFormatter implements OutputFormatter {
     // Daily forecast table
     lines.push(this.formatDailyTable(data));
 
+    // What was observed, for historical forecasts
+    const observed = this.formatObserved(data);
+    if (observed) {
+      lines.push("");
+      lines.push(observed);
+    }
+
+    // Extended conditions, when any model provided them
+    const extended = this.formatExtendedConditions(data);
+    if (extended) {
+      lines.push("");
+      lines.push(extended);
+    }
+
+    // Comfort and hazard indices, when they were computed
+    const indices = this.formatIndices(data);
+    if (indices) {
+      lines.push("");
+      lines.push(indices);
+    }
+
     // Confidence summary
     if (this.options.showConfidence) {
       lines.push("");
@@ -107,7 +130,7 @@ export class TableFormatter implements OutputFormatter {
    * Format the header section with location info
    */
   private formatHeader(data: FormatterInput): string {
-    const { location, aggregated } = data;
+    const { location, aggregated, historical } = data;
     const ui = this.palette.ui;
 
     const locationName = location.resolved.name;
@@ -117,6 +140,15 @@ export class TableFormatter implements OutputFormatter {
     const headerFn = ui.header as unknown as (text: string) => string;
     const mutedFn = ui.muted as unknown as (text: string) => string;
 
+    if (historical) {
+      const { startDate, endDate } = historical.range;
+      const dates = startDate === endDate ? startDate : `${startDate} to ${endDate}`;
+      return [
+        headerFn(`Historical Forecast for ${locationName}, ${country} (${dates})`),
+        mutedFn(`Archived runs of ${modelsCount} weather models`),
+      ].join("\n");
+    }
+
     return [
       headerFn(`Weather Forecast for ${locationName}, ${country}`),
       mutedFn(`Based on ${modelsCount} weather models`),
@@ -134,11 +166,13 @@ export class TableFormatter implements OutputFormatter {
       return "No forecast data available.";
     }
 
-    // Column definitions
+    // Column definitions; the departure from normal only when normals were applied
+    const showAnomaly = daily.some((day) => day.anomaly !== undefined);
     const columns = [
       { header: "Day", width: 12 },
       { header: "High", width: 8 },
       { header: "Low", width: 8 },
+      ...(showAnomaly ? [{ header: "vs Norm", width: 9 }] : []),
       { header: "Precip", width: 10 },
       { header: "Wind", width: 12 },
       { header: "Conf", width: 6 },
@@ -161,12 +195,41 @@ export class TableFormatter implements OutputFormatter {
 
     // Data rows
     for (const day of daily) {
-      lines.push(this.formatDailyRow(day, columns));
+      lines.push(this.formatDailyRow(day, columns, showAnomaly));
     }
 
     // Bottom border
     lines.push(this.buildTableRow(columns, "bottom"));
 
+    const climate = this.formatClimateNote(data);
+    if (climate) {
+      lines.push(climate);
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Format what the departures from normal compare against, and any record
+   * wet week. Empty when no normals were applied.
+   */
+  private formatClimateNote(data: FormatterInput): string {
+    const climatology = data.aggregated.climatology;
+    if (!climatology) {
+      return "";
+    }
+
+    const mutedFn = this.palette.ui.muted as unknown as (text: string) => string;
+    const { startYear, endYear } = climatology.period;
+    const lines = [mutedFn(`vs Norm: high compared with the ${startYear}-${endYear} normal`)];
+
+    const wettestWeek = climatology.wettestWeek;
+    if (wettestWeek) {
+      const month = formatMonthName(wettestWeek.month);
+      const precip = colorizePrecip(wettestWeek.precipitation, this.palette);
+      lines.push(`Wettest week for ${month} in ${wettestWeek.years} years (${precip})`);
+    }
+
     return lines.join("\n");
   }
 
@@ -175,7 +238,8 @@ export class TableFormatter implements OutputFormatter {
    */
   private formatDailyRow(
     day: AggregatedDailyForecast,
-    columns: Array<{ header: string; width: number }>
+    columns: Array<{ header: string; width: number }>,
+    showAnomaly: boolean = false
   ): string {
     const forecast = day.forecast;
     const units = this.options.units ?? "metric";
@@ -209,10 +273,206 @@ export class TableFormatter implements OutputFormatter {
     // Confidence
     const conf = confidenceIndicator(day.confidence.level, this.palette);
 
-    const values = [dayName, highTemp, lowTemp, precip, wind, conf];
+    // Departure of the high from normal
+    const anomaly = showAnomaly ? [this.formatAnomaly(day)] : [];
+
+    const values = [dayName, highTemp, lowTemp, ...anomaly, precip, wind, conf];
     return this.buildDataRow(values, columns);
   }
 
+  /**
+   * Format a day's high as a signed departure from normal, e.g. "+4.2°C"
+   */
+  private formatAnomaly(day: AggregatedDailyForecast): string {
+    const celsiusDelta = day.anomaly?.temperatureMax;
+    if (celsiusDelta === undefined) {
+      return "-";
+    }
+
+    // Warm and cold departures of 2°C or more stand out; smaller ones are muted
+    let color = this.palette.ui.muted;
+    if (celsiusDelta >= 2) {
+      color = this.palette.temp.warm;
+    } else if (celsiusDelta <= -2) {
+      color = this.palette.temp.cool;
+    }
+    const colorFn = color as unknown as (text: string) => string;
+
+    const imperial = (this.options.units ?? "metric") === "imperial";
+    const delta = imperial ? (celsiusDelta * 9) / 5 : celsiusDelta;
+    const unit = imperial ? "F" : "C";
+    return colorFn(`${delta < 0 ? "-" : "+"}${Math.abs(delta).toFixed(1)}\u00B0${unit}`);
+  }
+
+  /**
+   * Format the extended metrics (dew point, snow, freezing level, CAPE, soil
+   * and solar radiation) per day. Empty when no day has any.
+   */
+  private formatExtendedConditions(data: FormatterInput): string {
+    const units = this.options.units ?? "metric";
+    const imperial = units === "imperial";
+    const headerFn = this.palette.ui.header as unknown as (text: string) => string;
+    const labelFn = this.palette.ui.label as unknown as (text: string) => string;
+    const temp = (value: number): string => colorizeTemp(value, this.palette, units);
+    const lines: string[] = [];
+
+    for (const day of data.aggregated.consensus.daily) {
+      const f = day.forecast;
+      const parts: string[] = [];
+
+      if (f.dewPoint) {
+        parts.push(`dew point ${temp(f.dewPoint.min)}-${temp(f.dewPoint.max)}`);
+      }
+      if (f.snowfall && f.snowfall.total > 0) {
+        const snow = imperial
+          ? `${(f.snowfall.total / 2.54).toFixed(1)}in`
+          : `${f.snowfall.total.toFixed(1)}cm`;
+        parts.push(`snow ${snow}`);
+      }
+      if (f.snowDepth && f.snowDepth.max > 0) {
+        const depth = imperial
+          ? `${Math.round(f.snowDepth.max * 39.37)}in`
+          : `${Math.round(f.snowDepth.max * 100)}cm`;
+        parts.push(`snow depth ${depth}`);
+      }
+      if (f.freezingLevelHeight) {
+        const height = imperial
+          ? `${Math.round(f.freezingLevelHeight.min * 3.281)}ft`
+          : `${Math.round(f.freezingLevelHeight.min)}m`;
+        parts.push(`freezing level ${height}`);
+      }
+      if (f.cape) {
+        parts.push(`CAPE ${Math.round(f.cape.max)} J/kg`);
+      }
+      if (f.soilTemperature) {
+        parts.push(`soil ${temp(f.soilTemperature.min)}-${temp(f.soilTemperature.max)}`);
+      }
+      if (f.soilMoisture) {
+        parts.push(`soil moisture ${f.soilMoisture.avg.toFixed(2)} m\u00B3/m\u00B3`);
+      }
+      if (f.shortwaveRadiation) {
+        parts.push(`solar ${f.shortwaveRadiation.total.toFixed(1)} MJ/m\u00B2`);
+      }
+
+      if (parts.length > 0) {
+        lines.push(`  ${labelFn(`${formatRelativeDay(day.date)}:`)} ${parts.join(", ")}`);
+      }
+    }
+
+    return lines.length > 0 ? [headerFn("Extended Conditions:"), ...lines].join("\n") : "";
+  }
+
+  /**
+   * Format the comfort and hazard indices per day: heat, cold and humidity
+   * only where they call for caution, then frost risk, growing degree days
+   * and evapotranspiration. Empty when no day has indices.
+   */
+  private formatIndices(data: FormatterInput): string {
+    const units = this.options.units ?? "metric";
+    const imperial = units === "imperial";
+    const headerFn = this.palette.ui.header as unknown as (text: string) => string;
+    const labelFn = this.palette.ui.label as unknown as (text: string) => string;
+    const mutedFn = this.palette.ui.muted as unknown as (text: string) => string;
+    const temp = (value: number): string => colorizeTemp(value, this.palette, units);
+    const unsure = (index: { readonly confidence: { readonly level: string } }): string =>
+      index.confidence.level === "low" ? ` ${mutedFn("(low confidence)")}` : "";
+    const lines: string[] = [];
+
+    for (const day of data.aggregated.consensus.daily) {
+      const indices = day.indices;
+      if (!indices) {
+        continue;
+      }
+      const parts: string[] = [];
+
+      const peaks = indices.peaks;
+      if (peaks) {
+        const heat: Array<[string, IndexValue, number]> = [
+          ["heat index", peaks.heatIndex, INDEX_CAUTION_THRESHOLDS.heatIndex],
+          ["humidex", peaks.humidex, INDEX_CAUTION_THRESHOLDS.humidex],
+          ["WBGT", peaks.wbgt, INDEX_CAUTION_THRESHOLDS.wbgt],
+        ];
+        for (const [label, index, threshold] of heat) {
+          if (index.value >= threshold) {
+            parts.push(`${label} ${temp(index.value)}${unsure(index)}`);
+          }
+        }
+        if (peaks.windChill.value <= INDEX_CAUTION_THRESHOLDS.windChill) {
+          parts.push(`wind chill ${temp(peaks.windChill.value)}${unsure(peaks.windChill)}`);
+        }
+        if (peaks.comfort.class !== "dry" && peaks.comfort.class !== "comfortable") {
+          parts.push(
+            `${peaks.comfort.class} (dew point ${temp(peaks.comfort.dewPoint)})${unsure(peaks.comfort)}`
+          );
+        }
+      }
+
+      const frost = indices.frostRisk;
+      if (frost.risk !== "none") {
+        parts.push(`frost risk ${frost.risk} (${frost.probability}% of models)${unsure(frost)}`);
+      }
+
+      const degreeDays = imperial
+        ? (indices.growingDegreeDays.value * 9) / 5
+        : indices.growingDegreeDays.value;
+      parts.push(`GDD ${degreeDays.toFixed(1)}`);
+
+      const evapotranspiration = indices.referenceEvapotranspiration;
+      if (evapotranspiration) {
+        const amount = imperial
+          ? `${(evapotranspiration.value / 25.4).toFixed(2)}in`
+          : `${evapotranspiration.value.toFixed(1)}mm`;
+        parts.push(`ET\u2080 ${amount}`);
+      }
+
+      lines.push(`  ${labelFn(`${formatRelativeDay(day.date)}:`)} ${parts.join(", ")}`);
+    }
+
+    return lines.length > 0 ? [headerFn("Comfort & Hazards:"), ...lines].join("\n") : "";
+  }
+
+  /**
+   * Format what was observed on each day of a historical forecast
+   */
+  private formatObserved(data: FormatterInput): string {
+    if (!data.historical) {
+      return "";
+    }
+    const observed = data.historical.observed;
+
+    const units = this.options.units ?? "metric";
+    const headerFn = this.palette.ui.header as unknown as (text: string) => string;
+    const labelFn = this.palette.ui.label as unknown as (text: string) => string;
+    const mutedFn = this.palette.ui.muted as unknown as (text: string) => string;
+
+    if (!observed || observed.length === 0) {
+      return [headerFn("Observed:"), mutedFn("  No observations available yet")].join("\n");
+    }
+
+    const lines = observed.map((day) => {
+      const parts: string[] = [];
+      if (day.temperature) {
+        const low = colorizeTemp(day.temperature.min, this.palette, units);
+        const high = colorizeTemp(day.temperature.max, this.palette, units);
+        parts.push(`${low}-${high}`);
+      }
+      if (day.precipitation !== undefined) {
+        const precip =
+          units === "imperial"
+            ? `${(day.precipitation / 25.4).toFixed(2)}in`
+            : `${day.precipitation.toFixed(1)}mm`;
+        parts.push(`precip ${precip}`);
+      }
+      if (day.windSpeedMax !== undefined) {
+        parts.push(`wind ${this.formatWindSpeed(day.windSpeedMax)}`);
+      }
+      const label = formatRelativeDay(new Date(`${day.date}T00:00:00`));
+      return `  ${labelFn(`${label}:`)} ${parts.join(", ")}`;
+    });
+
+    return [headerFn("Observed:"), ...lines].join("\n");
+  }
+
   /**
    * Format wind speed with units
    */
@@ -7,6 +7,8 @@ import type {
   Location,
   AggregatedForecast,
   ModelForecast,
+  WeatherAlert,
+  HistoricalForecast,
 } from "@weather-oracle/core";
 import type { ConfidenceResult, NarrativeSummary } from "@weather-oracle/core";
 
@@ -24,6 +26,14 @@ export interface FormatterInput {
   readonly confidence: readonly ConfidenceResult[];
   readonly narrative: NarrativeSummary;
   readonly models: readonly ModelForecast[];
+  /**
+   * Alerts raised by the configured alert rules
+   */
+  readonly alerts?: readonly WeatherAlert[];
+  /**
+   * Set when the forecast is for past dates (archived model runs)
+   */
+  readonly historical?: HistoricalForecast;
 }
 
 /**
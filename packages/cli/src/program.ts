@@ -9,11 +9,27 @@ import { loadConfig, type AppConfig, type UnitSystem, type OutputFormat } from "
 import { registerCompareCommand } from "./commands/compare";
 import { registerConfigCommand } from "./commands/config";
 import { registerForecastCommand } from "./commands/forecast";
+import { registerLocationsCommand } from "./commands/locations";
+import { registerVerifyCommand } from "./commands/verify";
+import { registerTrendCommand } from "./commands/trend";
+import { registerBatchCommand } from "./commands/batch";
+import { registerWatchCommand } from "./commands/watch";
 
 /**
  * Valid model names for CLI input
  */
-const VALID_MODELS = ["ecmwf", "gfs", "icon", "meteofrance", "ukmo", "jma", "gem"] as const;
+const VALID_MODELS = [
+  "ecmwf",
+  "gfs",
+  "icon",
+  "meteofrance",
+  "ukmo",
+  "jma",
+  "gem",
+  "nws",
+  "metno",
+  "local",
+] as const;
 
 /**
  * Global CLI options parsed from command line
@@ -174,6 +190,11 @@ export function createProgram(): Command {
   // Register commands
   registerForecastCommand(program);
   registerCompareCommand(program);
+  registerVerifyCommand(program);
+  registerTrendCommand(program);
+  registerBatchCommand(program);
+  registerWatchCommand(program);
+  registerLocationsCommand(program);
   registerConfigCommand(program);
 
   return program;
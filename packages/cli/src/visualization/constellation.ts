@@ -55,6 +55,9 @@ const MODEL_ABBREVIATIONS: Record<ModelName, string> = {
   ukmo: "UK",
   jma: "JMA",
   gem: "GEM",
+  nws: "NWS",
+  metno: "MET",
+  local: "LOC",
 };
 
 /**
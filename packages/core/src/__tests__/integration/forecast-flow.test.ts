@@ -22,8 +22,9 @@ import {
   generateNarrative,
   createCacheManager,
   createForecastCacheKey,
+  createForecastCacheRequest,
   type Location,
-  type ModelName,
+  type OpenMeteoModelName,
   type MultiModelResult,
 } from "../../index";
 
@@ -36,7 +37,7 @@ const WEATHER_API = "https://api.open-meteo.com/v1";
 /**
  * Model endpoint mappings
  */
-const MODEL_ENDPOINTS: Record<ModelName, string> = {
+const MODEL_ENDPOINTS: Record<OpenMeteoModelName, string> = {
   ecmwf: `${WEATHER_API}/ecmwf`,
   gfs: `${WEATHER_API}/gfs`,
   icon: `${WEATHER_API}/dwd-icon`,
@@ -98,7 +99,7 @@ const LOCATIONS: Record<
  * Mock state for controlling test behavior
  */
 interface MockState {
-  failingModels: Set<ModelName>;
+  failingModels: Set<OpenMeteoModelName>;
   geocodingFailure: boolean;
   networkDelay: number;
   requestLog: Array<{ url: string; timestamp: Date }>;
@@ -118,7 +119,7 @@ function resetMockState(): void {
   mockState.requestLog = [];
 }
 
-function setModelFailure(model: ModelName, shouldFail: boolean): void {
+function setModelFailure(model: OpenMeteoModelName, shouldFail: boolean): void {
   if (shouldFail) {
     mockState.failingModels.add(model);
   } else {
@@ -145,7 +146,7 @@ function generateMockForecast(
   lat: number,
   lon: number,
   days: number,
-  model: ModelName
+  model: OpenMeteoModelName
 ) {
   const now = new Date();
   const hourlyTimes: string[] = [];
@@ -276,14 +277,14 @@ const handlers = [
       const days = parseInt(url.searchParams.get("forecast_days") ?? "7", 10);
 
       // Simulate model failure
-      if (mockState.failingModels.has(model as ModelName)) {
+      if (mockState.failingModels.has(model as OpenMeteoModelName)) {
         return HttpResponse.json(
           { error: true, reason: `${model} service temporarily unavailable` },
           { status: 200 }
         );
       }
 
-      return HttpResponse.json(generateMockForecast(lat, lon, days, model as ModelName));
+      return HttpResponse.json(generateMockForecast(lat, lon, days, model as OpenMeteoModelName));
     })
   ),
 ];
@@ -448,10 +449,7 @@ describe("Forecast Flow Integration Tests", () => {
 
       // Store result in cache
       const cacheKey = createForecastCacheKey(
-        geocoded.coordinates.latitude,
-        geocoded.coordinates.longitude,
-        "ecmwf",
-        new Date()
+        createForecastCacheRequest(geocoded.coordinates, ["ecmwf"], { forecastDays: 3 })
       );
       await cache.set(cacheKey, result1, 3600);
 
@@ -3,18 +3,54 @@
  * Maps model names to their respective API endpoints.
  */
 
-import type { ModelName } from "../types/models";
+import type { OpenMeteoModelName } from "../types/models";
+import type { EnsembleModelName } from "../types/ensemble";
 
 /**
  * Base URL for Open-Meteo API
  */
 export const OPEN_METEO_BASE_URL = "https://api.open-meteo.com/v1";
 
+/**
+ * Open-Meteo historical weather (reanalysis) archive endpoint
+ */
+export const OPEN_METEO_ARCHIVE_URL = "https://archive-api.open-meteo.com/v1/archive";
+
+/**
+ * Open-Meteo historical forecast endpoint: archived model runs for past dates,
+ * requested like /forecast with models= and start_date/end_date
+ */
+export const OPEN_METEO_HISTORICAL_FORECAST_URL =
+  "https://historical-forecast-api.open-meteo.com/v1/forecast";
+
+/**
+ * Open-Meteo ensemble API endpoint (member-level forecasts)
+ */
+export const OPEN_METEO_ENSEMBLE_URL = "https://ensemble-api.open-meteo.com/v1/ensemble";
+
+/**
+ * models= query parameter for each ensemble system on the ensemble endpoint
+ */
+export const ENSEMBLE_MODEL_PARAMS: Record<EnsembleModelName, string> = {
+  ecmwf_ens: "ecmwf_ifs025",
+  gefs: "gfs025",
+  icon_eps: "icon_global",
+} as const;
+
+/**
+ * Hourly variables requested for ensemble members
+ */
+export const ENSEMBLE_HOURLY_VARIABLES = [
+  "temperature_2m",
+  "precipitation",
+  "wind_speed_10m",
+] as const;
+
 /**
  * Model-specific endpoint paths
  * Most models have dedicated endpoints, some use /forecast with models= param
  */
-export const MODEL_ENDPOINTS: Record<ModelName, string> = {
+export const MODEL_ENDPOINTS: Record<OpenMeteoModelName, string> = {
   ecmwf: `${OPEN_METEO_BASE_URL}/ecmwf`,
   gfs: `${OPEN_METEO_BASE_URL}/gfs`,
   icon: `${OPEN_METEO_BASE_URL}/dwd-icon`,
@@ -27,7 +63,22 @@ export const MODEL_ENDPOINTS: Record<ModelName, string> = {
 /**
  * Models that require the models= query parameter on /forecast endpoint
  */
-export const MODEL_QUERY_PARAMS: Partial<Record<ModelName, string>> = {
+export const MODEL_QUERY_PARAMS: Partial<Record<OpenMeteoModelName, string>> = {
+  ukmo: "ukmo_seamless",
+} as const;
+
+/**
+ * models= value for each model on the /forecast endpoint when several models
+ * are fetched in one request. Variables in the response are suffixed with it
+ * (e.g. temperature_2m_gfs_seamless).
+ */
+export const MODEL_BATCH_PARAMS: Record<OpenMeteoModelName, string> = {
+  ecmwf: "ecmwf_ifs025",
+  gfs: "gfs_seamless",
+  icon: "icon_seamless",
+  jma: "jma_seamless",
+  gem: "gem_seamless",
+  meteofrance: "meteofrance_seamless",
   ukmo: "ukmo_seamless",
 } as const;
 
@@ -48,6 +99,14 @@ export const HOURLY_VARIABLES = [
   "visibility",
   "uv_index",
   "weather_code",
+  "dew_point_2m",
+  "snowfall",
+  "snow_depth",
+  "freezing_level_height",
+  "cape",
+  "soil_temperature_0cm",
+  "soil_moisture_0_to_1cm",
+  "shortwave_radiation",
 ] as const;
 
 /**
@@ -69,6 +128,8 @@ export const DAILY_VARIABLES = [
   "daylight_duration",
   "uv_index_max",
   "weather_code",
+  "snowfall_sum",
+  "shortwave_radiation_sum",
 ] as const;
 
 /**
@@ -81,9 +142,49 @@ export type HourlyVariable = (typeof HOURLY_VARIABLES)[number];
  */
 export type DailyVariable = (typeof DAILY_VARIABLES)[number];
 
+/**
+ * Endpoint overrides for self-hosted or proxied Open-Meteo instances
+ */
+export interface EndpointOverrides {
+  /**
+   * Base URL replacing OPEN_METEO_BASE_URL (e.g. "https://meteo.example.com/v1")
+   */
+  baseUrl?: string;
+
+  /**
+   * Full endpoint URLs for individual models (take precedence over baseUrl)
+   */
+  models?: Partial<Record<OpenMeteoModelName, string>>;
+}
+
 /**
  * Get the API endpoint URL for a specific weather model
  */
-export function getModelEndpoint(model: ModelName): string {
+export function getModelEndpoint(model: OpenMeteoModelName, overrides?: EndpointOverrides): string {
+  const modelOverride = overrides?.models?.[model];
+  if (modelOverride) {
+    return modelOverride;
+  }
+
+  if (overrides?.baseUrl) {
+    const baseUrl = overrides.baseUrl.replace(/\/+$/, "");
+    return MODEL_ENDPOINTS[model].replace(OPEN_METEO_BASE_URL, baseUrl);
+  }
+
   return MODEL_ENDPOINTS[model];
 }
+
+/**
+ * Get the /forecast endpoint used for multi-model requests
+ */
+export function getForecastEndpoint(baseUrl: string = OPEN_METEO_BASE_URL): string {
+  return `${baseUrl.replace(/\/+$/, "")}/forecast`;
+}
+
+/**
+ * Derive the API base URL from a forecast endpoint URL
+ * (e.g. "https://meteo.example.com/v1/forecast" -> "https://meteo.example.com/v1")
+ */
+export function getBaseUrlFromForecastUrl(forecastUrl: string): string {
+  return forecastUrl.replace(/\/+$/, "").replace(/\/forecast$/, "");
+}
@@ -0,0 +1,200 @@
+/**
+ * Tests for the Open-Meteo ensemble client.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import {
+  fetchEnsembleForecast,
+  fetchEnsembleForecasts,
+  parseEnsembleResponse,
+  getEnsembleOptionsFromConfig,
+  type EnsembleResponse,
+} from "./ensemble";
+import { appConfigSchema } from "../config/schema";
+import { ApiError } from "../errors/api";
+import { ErrorCode } from "../errors/base";
+import { latitude, longitude, timezoneId } from "../types/location";
+import type { Location, Coordinates } from "../types/location";
+
+const COORDINATES: Coordinates = { latitude: latitude(51.5), longitude: longitude(-0.12) };
+
+/**
+ * Create a mock location for testing
+ */
+function createMockLocation(): Location {
+  return {
+    query: "London",
+    resolved: {
+      name: "London",
+      coordinates: COORDINATES,
+      country: "United Kingdom",
+      countryCode: "GB",
+      timezone: timezoneId("Europe/London"),
+    },
+  };
+}
+
+/**
+ * Create an ensemble response with a control run and two members
+ */
+function createMockResponse(): EnsembleResponse {
+  return {
+    latitude: 51.5,
+    longitude: -0.12,
+    hourly_units: { wind_speed_10m: "km/h" },
+    hourly: {
+      time: ["2024-01-15T00:00", "2024-01-15T01:00"],
+      temperature_2m: [5, 6],
+      temperature_2m_member01: [4, 5],
+      temperature_2m_member02: [7, null],
+      precipitation: [0, 1.2],
+      precipitation_member01: [0, 0],
+      precipitation_member02: [0.5, 2],
+      wind_speed_10m: [36, 18],
+      wind_speed_10m_member01: [18, 18],
+      wind_speed_10m_member02: [54, 36],
+    },
+  };
+}
+
+/**
+ * Helper to create a mock fetch function
+ */
+function createMockFetch(
+  handler: (url: string | URL | Request) => Promise<Response>
+): typeof globalThis.fetch {
+  const mockFn = mock(handler) as unknown as typeof globalThis.fetch;
+  // Add preconnect method to satisfy fetch type
+  return Object.assign(mockFn, { preconnect: () => {} });
+}
+
+describe("parseEnsembleResponse", () => {
+  it("should order members with the control run first", () => {
+    const forecast = parseEnsembleResponse(createMockResponse(), "ecmwf_ens", COORDINATES);
+
+    expect(forecast.model).toBe("ecmwf_ens");
+    expect(forecast.memberCount).toBe(3);
+    expect(forecast.hourly.length).toBe(2);
+    expect(forecast.hourly[0].temperature).toEqual([5, 4, 7]);
+    expect(forecast.hourly[1].temperature).toEqual([6, 5, null]);
+  });
+
+  it("should convert wind speed from km/h to m/s", () => {
+    const forecast = parseEnsembleResponse(createMockResponse(), "gefs", COORDINATES);
+
+    const [control, first, second] = forecast.hourly[0].windSpeed;
+    expect(control!).toBeCloseTo(10, 5);
+    expect(first!).toBeCloseTo(5, 5);
+    expect(second!).toBeCloseTo(15, 5);
+  });
+
+  it("should throw on an API error response", () => {
+    expect(() =>
+      parseEnsembleResponse({ error: true, reason: "bad model" }, "gefs", COORDINATES)
+    ).toThrow(ApiError);
+  });
+
+  it("should throw when no members are present", () => {
+    expect(() =>
+      parseEnsembleResponse({ hourly: { time: ["2024-01-15T00:00"] } }, "gefs", COORDINATES)
+    ).toThrow(ApiError);
+  });
+});
+
+describe("fetchEnsembleForecast", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should request the ensemble endpoint with the system's model parameter", async () => {
+    let requestedUrl = "";
+    globalThis.fetch = createMockFetch((url) => {
+      requestedUrl = url instanceof Request ? url.url : url.toString();
+      return Promise.resolve(new Response(JSON.stringify(createMockResponse()), { status: 200 }));
+    });
+
+    const forecast = await fetchEnsembleForecast("icon_eps", createMockLocation(), {
+      forecastDays: 3,
+    });
+
+    expect(requestedUrl).toContain("ensemble-api.open-meteo.com/v1/ensemble");
+    expect(requestedUrl).toContain("models=icon_global");
+    expect(requestedUrl).toContain("forecast_days=3");
+    expect(forecast.memberCount).toBe(3);
+  });
+
+  it("should map HTTP errors to ApiError", async () => {
+    globalThis.fetch = createMockFetch(() =>
+      Promise.resolve(new Response("", { status: 503, statusText: "Service Unavailable" }))
+    );
+
+    const error = await fetchEnsembleForecast("gefs", createMockLocation(), { retries: 0 }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).code).toBe(ErrorCode.API_UNAVAILABLE);
+  });
+
+  it("should retry transient failures against the configured endpoint", async () => {
+    const requestedUrls: string[] = [];
+    globalThis.fetch = createMockFetch((url) => {
+      requestedUrls.push(url instanceof Request ? url.url : url.toString());
+      return Promise.resolve(
+        requestedUrls.length === 1
+          ? new Response("", { status: 503, statusText: "Service Unavailable" })
+          : new Response(JSON.stringify(createMockResponse()), { status: 200 })
+      );
+    });
+
+    const config = appConfigSchema.parse({
+      api: { ensemble: "http://127.0.0.1:8080/v1/ensemble" },
+      models: { retries: 1, retryDelayMs: 1 },
+    });
+    const forecast = await fetchEnsembleForecast(
+      "gefs",
+      createMockLocation(),
+      getEnsembleOptionsFromConfig(config)
+    );
+
+    expect(requestedUrls.length).toBe(2);
+    expect(requestedUrls[1]).toStartWith("http://127.0.0.1:8080/v1/ensemble?");
+    expect(forecast.memberCount).toBe(3);
+  });
+});
+
+describe("fetchEnsembleForecasts", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should collect failures without rejecting", async () => {
+    globalThis.fetch = createMockFetch((url) => {
+      const href = url instanceof Request ? url.url : url.toString();
+      if (href.includes("gfs025")) {
+        return Promise.resolve(new Response("", { status: 500, statusText: "Error" }));
+      }
+      return Promise.resolve(new Response(JSON.stringify(createMockResponse()), { status: 200 }));
+    });
+
+    const result = await fetchEnsembleForecasts(createMockLocation(), ["ecmwf_ens", "gefs"], {
+      retries: 0,
+    });
+
+    expect(result.forecasts.map((f) => f.model)).toEqual(["ecmwf_ens"]);
+    expect(result.failures.length).toBe(1);
+    expect(result.failures[0].model).toBe("gefs");
+  });
+});
@@ -0,0 +1,343 @@
+/**
+ * Open-Meteo ensemble API client.
+ * Fetches member-level forecasts from ensemble prediction systems
+ * (ECMWF ENS, GEFS, ICON-EPS) for probabilistic outputs.
+ */
+
+import type { Location, Coordinates } from "../types/location";
+import type {
+  EnsembleModelName,
+  EnsembleForecast,
+  EnsembleHourlyMembers,
+} from "../types/ensemble";
+import { ENSEMBLE_MODEL_INFO } from "../types/ensemble";
+import type { AppConfig } from "../config/schema";
+import { ApiError } from "../errors/api";
+import {
+  OPEN_METEO_ENSEMBLE_URL,
+  ENSEMBLE_MODEL_PARAMS,
+  ENSEMBLE_HOURLY_VARIABLES,
+} from "./endpoints";
+import { getBackoffDelay, isTransientError, parseRetryAfter, sleep } from "./open-meteo";
+
+/**
+ * Options for fetching ensemble forecasts
+ */
+export interface EnsembleOptions {
+  /**
+   * Number of forecast days (1-16, default 7)
+   */
+  forecastDays?: number;
+
+  /**
+   * Timezone for the response (default "auto")
+   */
+  timezone?: string;
+
+  /**
+   * Request timeout in milliseconds (default 30000)
+   */
+  timeout?: number;
+
+  /**
+   * Number of retry attempts for transient failures (default 2)
+   */
+  retries?: number;
+
+  /**
+   * Base delay for exponential backoff between retries in milliseconds (default 1000)
+   */
+  retryDelayMs?: number;
+
+  /**
+   * Maximum delay between retries in milliseconds (default 30000).
+   * A rate limit asking us to wait longer than this fails immediately.
+   */
+  maxRetryDelayMs?: number;
+
+  /**
+   * Ensemble endpoint URL (default OPEN_METEO_ENSEMBLE_URL)
+   */
+  endpoint?: string;
+}
+
+/**
+ * Open-Meteo ensemble response. Hourly keys are the variable name for the
+ * control run plus `<variable>_memberNN` for each perturbed member.
+ */
+export interface EnsembleResponse {
+  latitude?: number;
+  longitude?: number;
+  hourly_units?: Record<string, string>;
+  hourly?: { time: string[] } & Record<string, (number | null)[] | string[] | undefined>;
+  error?: boolean;
+  reason?: string;
+}
+
+/**
+ * Failure information for an ensemble fetch
+ */
+export interface EnsembleFailure {
+  readonly model: EnsembleModelName;
+  readonly error: Error;
+}
+
+/**
+ * Result from fetching multiple ensemble systems
+ */
+export interface MultiEnsembleResult {
+  readonly forecasts: EnsembleForecast[];
+  readonly failures: EnsembleFailure[];
+}
+
+const DEFAULT_OPTIONS: Required<Omit<EnsembleOptions, "endpoint">> = {
+  forecastDays: 7,
+  timezone: "auto",
+  timeout: 30000,
+  retries: 2,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 30000,
+};
+
+/**
+ * Build ensemble options from application configuration: the configured
+ * ensemble endpoint with the models' timeout and retry policy
+ */
+export function getEnsembleOptionsFromConfig(
+  config: Pick<AppConfig, "api" | "models">
+): EnsembleOptions {
+  return {
+    endpoint: config.api.ensemble,
+    timeout: config.models.timeout,
+    retries: config.models.retries,
+    retryDelayMs: config.models.retryDelayMs,
+    maxRetryDelayMs: config.models.maxRetryDelayMs,
+  };
+}
+
+/**
+ * Get all available ensemble system names
+ */
+export function getDefaultEnsembleModels(): EnsembleModelName[] {
+  return Object.keys(ENSEMBLE_MODEL_INFO) as EnsembleModelName[];
+}
+
+/**
+ * Collect the control and member series for a variable, in member order
+ */
+function collectMemberSeries(
+  hourly: NonNullable<EnsembleResponse["hourly"]>,
+  variable: string
+): (number | null)[][] {
+  const memberKeys = Object.keys(hourly)
+    .filter((key) => key.startsWith(`${variable}_member`))
+    .sort();
+  const keys = variable in hourly ? [variable, ...memberKeys] : memberKeys;
+
+  return keys.map((key) => (hourly[key] as (number | null)[] | undefined) ?? []);
+}
+
+/**
+ * Get a multiplier converting a wind speed unit to m/s
+ */
+function windScale(unit: string | undefined): number {
+  switch (unit) {
+    case "m/s":
+      return 1;
+    case "mp/h":
+      return 0.44704;
+    case "kn":
+      return 0.514444;
+    default:
+      return 1 / 3.6; // km/h, Open-Meteo default
+  }
+}
+
+/**
+ * Parse an Open-Meteo ensemble response into an EnsembleForecast.
+ * Wind speed is converted to m/s based on `hourly_units` (km/h by default).
+ *
+ * @throws ApiError if the response has no hourly member data
+ */
+export function parseEnsembleResponse(
+  response: EnsembleResponse,
+  model: EnsembleModelName,
+  coordinates: Coordinates
+): EnsembleForecast {
+  const endpoint = OPEN_METEO_ENSEMBLE_URL;
+
+  if (response.error) {
+    throw ApiError.invalidResponse(endpoint, response.reason ?? "Unknown API error");
+  }
+  if (!response.hourly || !Array.isArray(response.hourly.time)) {
+    throw ApiError.invalidResponse(endpoint, `missing hourly data for ${model}`);
+  }
+
+  const hourly = response.hourly;
+  const temperature = collectMemberSeries(hourly, "temperature_2m");
+  const precipitation = collectMemberSeries(hourly, "precipitation");
+  const wind = collectMemberSeries(hourly, "wind_speed_10m");
+  const scale = windScale(response.hourly_units?.["wind_speed_10m"]);
+
+  const memberCount = Math.max(temperature.length, precipitation.length, wind.length);
+  if (memberCount === 0) {
+    throw ApiError.invalidResponse(endpoint, `no ensemble members for ${model}`);
+  }
+
+  const pick = (series: (number | null)[][], index: number, factor = 1): (number | null)[] =>
+    Array.from({ length: memberCount }, (_, member) => {
+      const value = series[member]?.[index];
+      return value != null ? value * factor : null;
+    });
+
+  const members: EnsembleHourlyMembers[] = hourly.time.map((time, index) => ({
+    timestamp: new Date(time),
+    temperature: pick(temperature, index),
+    precipitation: pick(precipitation, index),
+    windSpeed: pick(wind, index, scale),
+  }));
+
+  const now = new Date();
+
+  return {
+    model,
+    coordinates,
+    generatedAt: now,
+    validFrom: members.length > 0 ? members[0].timestamp : now,
+    validTo: members.length > 0 ? members[members.length - 1].timestamp : now,
+    memberCount,
+    hourly: members,
+  };
+}
+
+/**
+ * Fetch member-level forecasts from one ensemble system
+ *
+ * @throws ApiError if the request fails
+ */
+export async function fetchEnsembleForecast(
+  model: EnsembleModelName,
+  location: Location,
+  options: EnsembleOptions = {}
+): Promise<EnsembleForecast> {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const endpoint = options.endpoint ?? OPEN_METEO_ENSEMBLE_URL;
+  const coordinates = location.resolved.coordinates;
+
+  const url = new URL(endpoint);
+  url.searchParams.set("latitude", String(coordinates.latitude));
+  url.searchParams.set("longitude", String(coordinates.longitude));
+  url.searchParams.set("hourly", ENSEMBLE_HOURLY_VARIABLES.join(","));
+  url.searchParams.set("models", ENSEMBLE_MODEL_PARAMS[model]);
+  url.searchParams.set("timezone", opts.timezone);
+  url.searchParams.set("forecast_days", String(opts.forecastDays));
+
+  const data = await requestEnsembleWithRetries(url, endpoint, opts);
+  return parseEnsembleResponse(data, model, coordinates);
+}
+
+/**
+ * Make an ensemble request, retrying transient failures with backoff and
+ * honouring Retry-After on rate limits
+ *
+ * @throws ApiError once retries are exhausted or on a non-transient failure
+ */
+async function requestEnsembleWithRetries(
+  url: URL,
+  endpoint: string,
+  opts: Required<Omit<EnsembleOptions, "endpoint">>
+): Promise<EnsembleResponse> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await requestEnsemble(url, endpoint, opts.timeout);
+    } catch (error) {
+      if (attempt >= opts.retries || !isTransientError(error)) {
+        throw error;
+      }
+      const retryAfterSeconds = error instanceof ApiError ? error.retryAfterSeconds : undefined;
+      if (retryAfterSeconds !== undefined) {
+        if (retryAfterSeconds * 1000 > opts.maxRetryDelayMs) {
+          throw error;
+        }
+        await sleep(retryAfterSeconds * 1000);
+      } else {
+        await sleep(getBackoffDelay(attempt, opts.retryDelayMs, opts.maxRetryDelayMs));
+      }
+    }
+  }
+}
+
+/**
+ * Make one ensemble request with a timeout
+ *
+ * @throws ApiError if the request fails
+ */
+async function requestEnsemble(
+  url: URL,
+  endpoint: string,
+  timeout: number
+): Promise<EnsembleResponse> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url.toString(), {
+      signal: controller.signal,
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      throw ApiError.fromResponse(
+        response.status,
+        response.statusText,
+        endpoint,
+        undefined,
+        response.status === 429 ? parseRetryAfter(response.headers.get("Retry-After")) : undefined
+      );
+    }
+
+    return (await response.json()) as EnsembleResponse;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      throw ApiError.timeout(endpoint, timeout);
+    }
+    throw ApiError.unavailable(undefined, error instanceof Error ? error : undefined);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Fetch several ensemble systems in parallel, collecting failures
+ * instead of rejecting (mirrors fetchAllModels).
+ */
+export async function fetchEnsembleForecasts(
+  location: Location,
+  models?: EnsembleModelName[],
+  options?: EnsembleOptions
+): Promise<MultiEnsembleResult> {
+  const modelsToFetch = models ?? getDefaultEnsembleModels();
+
+  const results = await Promise.allSettled(
+    modelsToFetch.map((model) => fetchEnsembleForecast(model, location, options))
+  );
+
+  const forecasts: EnsembleForecast[] = [];
+  const failures: EnsembleFailure[] = [];
+
+  results.forEach((result, index) => {
+    if (result.status === "fulfilled") {
+      forecasts.push(result.value);
+    } else {
+      failures.push({
+        model: modelsToFetch[index],
+        error: result.reason instanceof Error ? result.reason : new Error(String(result.reason)),
+      });
+    }
+  });
+
+  return { forecasts, failures };
+}
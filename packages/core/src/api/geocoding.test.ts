@@ -3,9 +3,10 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
-import { geocodeLocation, searchLocations } from "./geocoding";
+import { geocodeLocation, searchLocations, reverseGeocode } from "./geocoding";
 import { GeocodingError } from "../errors/geocoding";
 import { ErrorCode } from "../errors/base";
+import { createCoordinates } from "../types/location";
 
 /**
  * Create a mock geocoding API response
@@ -49,7 +50,7 @@ function createMockGeocodingResponse(results: Array<{
  * Helper to create a mock fetch function
  */
 function createMockFetch(
-  handler: (url: string | URL | Request) => Promise<Response>
+  handler: (url: string | URL | Request, init?: RequestInit) => Promise<Response>
 ): typeof globalThis.fetch {
   const mockFn = mock(handler) as unknown as typeof globalThis.fetch;
   // Add preconnect method to satisfy fetch type
@@ -190,6 +191,7 @@ describe("geocodeLocation", () => {
     await expect(
       geocodeLocation("London", {
         endpoint: "https://geocoding-api.open-meteo.com/v1/search",
+        mode: "online",
       })
     ).rejects.toThrow(GeocodingError);
   });
@@ -202,6 +204,7 @@ describe("geocodeLocation", () => {
     await expect(
       geocodeLocation("London", {
         endpoint: "https://geocoding-api.open-meteo.com/v1/search",
+        mode: "online",
       })
     ).rejects.toThrow(GeocodingError);
   });
@@ -475,6 +478,7 @@ describe("searchLocations", () => {
     await expect(
       searchLocations("London", {
         endpoint: "https://geocoding-api.open-meteo.com/v1/search",
+        mode: "online",
       })
     ).rejects.toThrow(GeocodingError);
   });
@@ -601,6 +605,7 @@ describe("geocoding error handling", () => {
     try {
       await geocodeLocation("London", {
         endpoint: "https://geocoding-api.open-meteo.com/v1/search",
+        mode: "online",
       });
       expect(true).toBe(false); // Should not reach here
     } catch (error) {
@@ -694,3 +699,173 @@ describe("geocoding timezone handling", () => {
     expect(result.timezone as string).toBe("Australia/Sydney");
   });
 });
+
+describe("offline gazetteer fallback", () => {
+  const endpoint = "https://geocoding-api.open-meteo.com/v1/search";
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("falls back to the gazetteer when the API is unreachable", async () => {
+    globalThis.fetch = createMockFetch(() => Promise.reject(new Error("getaddrinfo ENOTFOUND")));
+
+    const result = await geocodeLocation("London", { endpoint });
+
+    expect(result.name).toBe("London");
+    expect(result.countryCode).toBe("GB");
+    expect(result.timezone as string).toBe("Europe/London");
+  });
+
+  it("falls back for searches on HTTP errors", async () => {
+    globalThis.fetch = createMockFetch(() =>
+      Promise.resolve(new Response("Bad Gateway", { status: 502, statusText: "Bad Gateway" }))
+    );
+
+    const results = await searchLocations("Springfield", { endpoint, count: 10 });
+
+    expect(results.map((r) => r.region)).toEqual(["Missouri", "Massachusetts", "Illinois"]);
+  });
+
+  it("keeps the service error when the gazetteer has no match", async () => {
+    globalThis.fetch = createMockFetch(() => Promise.reject(new Error("Connection refused")));
+
+    const error = await geocodeLocation("Llanfairpwllgwyngyll", { endpoint }).catch(
+      (e: unknown) => e
+    );
+
+    expect(error).toBeInstanceOf(GeocodingError);
+    expect((error as GeocodingError).code).toBe(ErrorCode.GEOCODING_SERVICE_ERROR);
+  });
+
+  it("uses only the gazetteer in offline mode", async () => {
+    const fetchMock = createMockFetch(() => Promise.reject(new Error("should not be called")));
+    globalThis.fetch = fetchMock;
+
+    const result = await geocodeLocation("Portland, ME", { endpoint, mode: "offline" });
+    const results = await searchLocations("Portland", { endpoint, mode: "offline" });
+
+    expect(result.region).toBe("Maine");
+    expect(results).toHaveLength(2);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("adds gazetteer suggestions when the API finds nothing", async () => {
+    globalThis.fetch = createMockFetch(() =>
+      Promise.resolve(new Response(JSON.stringify({ results: [] }), { status: 200 }))
+    );
+
+    const error = await geocodeLocation("Edinbrugh", { endpoint }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GeocodingError);
+    expect((error as GeocodingError).code).toBe(ErrorCode.GEOCODING_NOT_FOUND);
+    expect((error as GeocodingError).suggestions?.[0]).toEqual({
+      name: "Edinburgh",
+      country: "United Kingdom",
+      region: "Scotland",
+    });
+  });
+});
+
+describe("reverseGeocode", () => {
+  const reverseEndpoint = "https://nominatim.example.com/reverse";
+  const point = createCoordinates(48.8584, 2.2945);
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("names the point from the reverse geocoding service", async () => {
+    const seen: { url?: URL; userAgent?: string | null } = {};
+    globalThis.fetch = createMockFetch((url, init?: RequestInit) => {
+      seen.url = new URL(url as string);
+      seen.userAgent = new Headers(init?.headers).get("User-Agent");
+      return Promise.resolve(
+        new Response(
+          JSON.stringify({
+            name: "Quartier du Gros-Caillou",
+            address: {
+              city: "Paris",
+              state: "Île-de-France",
+              country: "France",
+              country_code: "fr",
+            },
+          })
+        )
+      );
+    });
+
+    const result = await reverseGeocode(point, {
+      reverseEndpoint,
+      mode: "online",
+      userAgent: "weather-oracle-test",
+    });
+
+    expect(seen.url?.searchParams.get("lat")).toBe("48.8584");
+    expect(seen.url?.searchParams.get("format")).toBe("jsonv2");
+    expect(seen.userAgent).toBe("weather-oracle-test");
+    expect(result).toMatchObject({
+      name: "Paris",
+      country: "France",
+      countryCode: "FR",
+      region: "Île-de-France",
+      timezone: "Europe/Paris",
+    });
+    expect(result.coordinates).toEqual(point);
+  });
+
+  it("falls back to the gazetteer for unnamed points", async () => {
+    globalThis.fetch = createMockFetch(() =>
+      Promise.resolve(new Response(JSON.stringify({ error: "Unable to geocode" })))
+    );
+
+    const result = await reverseGeocode(createCoordinates(-45, -140), {
+      reverseEndpoint,
+      mode: "online",
+      userAgent: "test",
+    });
+
+    expect(result.name).toBe("-45.0000, -140.0000");
+  });
+
+  it("falls back to the gazetteer when the service is unreachable in auto mode", async () => {
+    globalThis.fetch = createMockFetch(() => Promise.reject(new Error("ECONNREFUSED")));
+
+    const result = await reverseGeocode(point, { reverseEndpoint, mode: "auto", userAgent: "test" });
+
+    expect(result.name).toBe("Paris");
+  });
+
+  it("throws service errors in online mode", async () => {
+    globalThis.fetch = createMockFetch(() => Promise.reject(new Error("ECONNREFUSED")));
+
+    const error = await reverseGeocode(point, {
+      reverseEndpoint,
+      mode: "online",
+      userAgent: "test",
+    }).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GeocodingError);
+    expect((error as GeocodingError).code).toBe(ErrorCode.GEOCODING_SERVICE_ERROR);
+  });
+
+  it("makes no request in offline mode", async () => {
+    const fetchMock = createMockFetch(() => Promise.reject(new Error("should not be called")));
+    globalThis.fetch = fetchMock;
+
+    const result = await reverseGeocode(point, { mode: "offline" });
+
+    expect(result.name).toBe("Paris");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+});
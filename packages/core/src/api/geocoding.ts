@@ -13,7 +13,16 @@
 import type { GeocodingResult, Coordinates } from "../types/location";
 import { latitude, longitude, elevation, timezoneId } from "../types/location";
 import { GeocodingError } from "../errors/geocoding";
+import { ErrorCode } from "../errors/base";
 import { loadConfig } from "../config/index";
+import type { AppConfig, GeocodingMode } from "../config/schema";
+import {
+  geocodeLocationOffline,
+  reverseGeocodeOffline,
+  searchLocationsOffline,
+  suggestLocations,
+} from "../gazetteer/gazetteer";
+import { formatCoordinates } from "../geo/coordinates";
 
 /**
  * Open-Meteo geocoding API response structure
@@ -49,6 +58,30 @@ interface OpenMeteoGeocodingResult {
   postcodes?: string[];
 }
 
+/**
+ * Nominatim reverse geocoding response (jsonv2 format)
+ */
+interface NominatimReverseResponse {
+  name?: string;
+  address?: {
+    city?: string;
+    town?: string;
+    village?: string;
+    hamlet?: string;
+    municipality?: string;
+    county?: string;
+    state?: string;
+    country?: string;
+    country_code?: string;
+  };
+  error?: string;
+}
+
+/**
+ * Zoom level for reverse lookups: city/town granularity
+ */
+const REVERSE_GEOCODING_ZOOM = 10;
+
 /**
  * Options for geocoding requests
  */
@@ -72,12 +105,33 @@ export interface GeocodingOptions {
    * Custom geocoding API endpoint (default from config)
    */
   endpoint?: string;
+
+  /**
+   * Geocoding source: API with gazetteer fallback ("auto"), API only
+   * ("online") or gazetteer only ("offline") (default from config)
+   */
+  mode?: GeocodingMode;
+
+  /**
+   * Custom reverse geocoding (Nominatim) endpoint (default from config)
+   */
+  reverseEndpoint?: string;
+
+  /**
+   * User-Agent sent to the reverse geocoding service (default from config)
+   */
+  userAgent?: string;
 }
 
+/**
+ * Request settings for a geocoding API call
+ */
+type GeocodingRequestOptions = Required<Pick<GeocodingOptions, "count" | "language" | "timeout">>;
+
 /**
  * Default geocoding options
  */
-const DEFAULT_OPTIONS: Required<Omit<GeocodingOptions, "endpoint">> = {
+const DEFAULT_OPTIONS: GeocodingRequestOptions = {
   count: 5,
   language: "en",
   timeout: 10000,
@@ -89,7 +143,7 @@ const DEFAULT_OPTIONS: Required<Omit<GeocodingOptions, "endpoint">> = {
 function buildGeocodingUrl(
   query: string,
   endpoint: string,
-  options: Required<Omit<GeocodingOptions, "endpoint">>
+  options: GeocodingRequestOptions
 ): URL {
   const url = new URL(endpoint);
 
@@ -151,49 +205,42 @@ function validateQuery(query: string): void {
 }
 
 /**
- * Geocode a location query to coordinates.
- *
- * @param query - Location name to search for (e.g., "London", "New York, USA")
- * @param options - Optional geocoding options
- * @returns The best matching location result
- * @throws GeocodingError if the location cannot be found or an API error occurs
- *
- * @example
- * ```typescript
- * const result = await geocodeLocation("London");
- * console.log(result.name); // "London"
- * console.log(result.country); // "United Kingdom"
- * console.log(result.coordinates); // { latitude: 51.5074, longitude: -0.1278 }
- * ```
+ * Resolve the endpoint and mode, loading config for any not given
  */
-export async function geocodeLocation(
-  query: string,
+async function resolveGeocodingSource(
   options?: GeocodingOptions
-): Promise<GeocodingResult> {
-  validateQuery(query);
-
-  // Load config to get endpoint if not provided
-  let endpoint = options?.endpoint;
-  if (!endpoint) {
-    const config = await loadConfig({ skipFile: true, skipEnv: false });
-    endpoint = config.api.geocoding;
+): Promise<{ endpoint: string; mode: GeocodingMode }> {
+  if (options?.endpoint !== undefined && options.mode !== undefined) {
+    return { endpoint: options.endpoint, mode: options.mode };
   }
 
-  const opts: Required<Omit<GeocodingOptions, "endpoint">> = {
-    count: options?.count ?? DEFAULT_OPTIONS.count,
-    language: options?.language ?? DEFAULT_OPTIONS.language,
-    timeout: options?.timeout ?? DEFAULT_OPTIONS.timeout,
+  const config = await loadConfig({ skipFile: true, skipEnv: false });
+  return {
+    endpoint: options?.endpoint ?? config.api.geocoding,
+    mode: options?.mode ?? config.geocoding.mode,
   };
+}
 
-  const url = buildGeocodingUrl(query.trim(), endpoint, opts);
+/**
+ * GET a JSON document from a geocoding service
+ *
+ * @throws GeocodingError for HTTP, network and timeout failures
+ */
+async function fetchGeocodingJson(
+  url: URL,
+  query: string,
+  timeout: number,
+  headers: Record<string, string> = {}
+): Promise<unknown> {
   const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), opts.timeout);
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
 
   try {
     const response = await fetch(url.toString(), {
       signal: controller.signal,
       headers: {
         Accept: "application/json",
+        ...headers,
       },
     });
 
@@ -206,15 +253,7 @@ export async function geocodeLocation(
       );
     }
 
-    const data = (await response.json()) as OpenMeteoGeocodingResponse;
-
-    // Check for empty results
-    if (!data.results || data.results.length === 0) {
-      throw GeocodingError.notFound(query);
-    }
-
-    // Return the best match (first result, sorted by population/relevance by API)
-    return mapToGeocodingResult(data.results[0]);
+    return await response.json();
   } catch (error) {
     clearTimeout(timeoutId);
 
@@ -227,7 +266,7 @@ export async function geocodeLocation(
     if (error instanceof Error && error.name === "AbortError") {
       throw GeocodingError.serviceError(
         query,
-        new Error(`Request timed out after ${opts.timeout}ms`)
+        new Error(`Request timed out after ${timeout}ms`)
       );
     }
 
@@ -239,12 +278,94 @@ export async function geocodeLocation(
   }
 }
 
+/**
+ * Fetch matching places from the geocoding API
+ *
+ * @throws GeocodingError for HTTP, network and timeout failures
+ */
+async function fetchGeocodingResults(
+  query: string,
+  endpoint: string,
+  options?: GeocodingOptions
+): Promise<OpenMeteoGeocodingResult[]> {
+  const opts: GeocodingRequestOptions = {
+    count: options?.count ?? DEFAULT_OPTIONS.count,
+    language: options?.language ?? DEFAULT_OPTIONS.language,
+    timeout: options?.timeout ?? DEFAULT_OPTIONS.timeout,
+  };
+
+  const url = buildGeocodingUrl(query.trim(), endpoint, opts);
+  const data = (await fetchGeocodingJson(url, query, opts.timeout)) as OpenMeteoGeocodingResponse;
+  return data.results ?? [];
+}
+
+/**
+ * Whether an error means the geocoding API could not be reached
+ */
+function isServiceError(error: unknown): boolean {
+  return error instanceof GeocodingError && error.code === ErrorCode.GEOCODING_SERVICE_ERROR;
+}
+
+/**
+ * Geocode a location query to coordinates.
+ *
+ * In "auto" mode (the default) the bundled gazetteer answers when the API is
+ * unreachable; in "offline" mode it answers every query.
+ *
+ * @param query - Location name to search for (e.g., "London", "New York, USA")
+ * @param options - Optional geocoding options
+ * @returns The best matching location result
+ * @throws GeocodingError if the location cannot be found or an API error occurs
+ *
+ * @example
+ * ```typescript
+ * const result = await geocodeLocation("London");
+ * console.log(result.name); // "London"
+ * console.log(result.country); // "United Kingdom"
+ * console.log(result.coordinates); // { latitude: 51.5074, longitude: -0.1278 }
+ * ```
+ */
+export async function geocodeLocation(
+  query: string,
+  options?: GeocodingOptions
+): Promise<GeocodingResult> {
+  validateQuery(query);
+
+  const { endpoint, mode } = await resolveGeocodingSource(options);
+  if (mode === "offline") {
+    return geocodeLocationOffline(query.trim());
+  }
+
+  let results: OpenMeteoGeocodingResult[];
+  try {
+    results = await fetchGeocodingResults(query, endpoint, options);
+  } catch (error) {
+    // Fall back to the bundled gazetteer when the API is unreachable
+    if (mode === "auto" && isServiceError(error)) {
+      const [match] = searchLocationsOffline(query.trim(), { count: 1 });
+      if (match) {
+        return match;
+      }
+    }
+    throw error;
+  }
+
+  // Check for empty results
+  if (results.length === 0) {
+    throw GeocodingError.notFound(query, suggestLocations(query.trim()));
+  }
+
+  // Return the best match (first result, sorted by population/relevance by API)
+  return mapToGeocodingResult(results[0]);
+}
+
 /**
  * Search for multiple matching locations.
  *
  * Unlike `geocodeLocation` which returns only the best match,
  * this function returns all matching results (up to the specified count).
  * Useful for implementing location autocomplete or disambiguation UI.
+ * Falls back to the bundled gazetteer the same way as `geocodeLocation`.
  *
  * @param query - Location name to search for
  * @param options - Optional geocoding options
@@ -263,68 +384,135 @@ export async function searchLocations(
 ): Promise<GeocodingResult[]> {
   validateQuery(query);
 
-  // Load config to get endpoint if not provided
-  let endpoint = options?.endpoint;
-  if (!endpoint) {
-    const config = await loadConfig({ skipFile: true, skipEnv: false });
-    endpoint = config.api.geocoding;
+  const count = options?.count ?? DEFAULT_OPTIONS.count;
+  const { endpoint, mode } = await resolveGeocodingSource(options);
+  if (mode === "offline") {
+    return searchLocationsOffline(query.trim(), { count });
   }
 
-  const opts: Required<Omit<GeocodingOptions, "endpoint">> = {
-    count: options?.count ?? DEFAULT_OPTIONS.count,
-    language: options?.language ?? DEFAULT_OPTIONS.language,
-    timeout: options?.timeout ?? DEFAULT_OPTIONS.timeout,
-  };
+  let results: OpenMeteoGeocodingResult[];
+  try {
+    results = await fetchGeocodingResults(query, endpoint, options);
+  } catch (error) {
+    // Fall back to the bundled gazetteer when the API is unreachable
+    if (mode === "auto" && isServiceError(error)) {
+      const matches = searchLocationsOffline(query.trim(), { count });
+      if (matches.length > 0) {
+        return matches;
+      }
+    }
+    throw error;
+  }
 
-  const url = buildGeocodingUrl(query.trim(), endpoint, opts);
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), opts.timeout);
+  // Return empty array if no results (not an error for search)
+  return results.map(mapToGeocodingResult);
+}
 
-  try {
-    const response = await fetch(url.toString(), {
-      signal: controller.signal,
-      headers: {
-        Accept: "application/json",
-      },
-    });
+/**
+ * Map a Nominatim reverse result to a GeocodingResult at the queried point.
+ * Nominatim has no timezone, so the nearest bundled city's timezone is used.
+ */
+function mapReverseResult(
+  coordinates: Coordinates,
+  response: NominatimReverseResponse
+): GeocodingResult | undefined {
+  const address = response.address ?? {};
+  const name = [
+    address.city,
+    address.town,
+    address.village,
+    address.hamlet,
+    address.municipality,
+    response.name,
+    address.county,
+  ].find((candidate) => candidate !== undefined && candidate !== "");
+  if (response.error !== undefined || name === undefined) {
+    return undefined;
+  }
 
-    clearTimeout(timeoutId);
+  const nearby = reverseGeocodeOffline(coordinates);
+  return {
+    name,
+    coordinates,
+    country: address.country ?? "Unknown",
+    countryCode: address.country_code?.toUpperCase() ?? "XX",
+    region: address.state,
+    timezone: nearby.timezone,
+  };
+}
 
-    if (!response.ok) {
-      throw GeocodingError.serviceError(
-        query,
-        new Error(`HTTP ${response.status}: ${response.statusText}`)
-      );
-    }
+/**
+ * Name the place at a set of coordinates.
+ *
+ * Asks the reverse geocoding service (Nominatim) for the nearest town or city;
+ * in "auto" mode the bundled gazetteer answers when the service is unreachable,
+ * and in "offline" mode it answers every lookup. The result keeps the given
+ * coordinates, so it can stand in for a geocoded location. Points with no
+ * nearby named place are labelled by their coordinates.
+ *
+ * @param coordinates - Point to name
+ * @param options - Optional geocoding options
+ * @throws GeocodingError if the service fails in "online" mode
+ *
+ * @example
+ * ```typescript
+ * const place = await reverseGeocode(createCoordinates(51.5074, -0.1278));
+ * console.log(place.name); // "London"
+ * ```
+ */
+export async function reverseGeocode(
+  coordinates: Coordinates,
+  options?: GeocodingOptions
+): Promise<GeocodingResult> {
+  let mode = options?.mode;
+  let endpoint = options?.reverseEndpoint;
+  let userAgent = options?.userAgent;
+  if (mode === undefined || endpoint === undefined || userAgent === undefined) {
+    const config = await loadConfig({ skipFile: true, skipEnv: false });
+    mode ??= config.geocoding.mode;
+    endpoint ??= config.api.reverseGeocoding;
+    userAgent ??= config.providers.userAgent;
+  }
 
-    const data = (await response.json()) as OpenMeteoGeocodingResponse;
+  if (mode === "offline") {
+    return reverseGeocodeOffline(coordinates);
+  }
 
-    // Return empty array if no results (not an error for search)
-    if (!data.results || data.results.length === 0) {
-      return [];
-    }
+  const url = new URL(endpoint);
+  url.searchParams.set("lat", String(coordinates.latitude));
+  url.searchParams.set("lon", String(coordinates.longitude));
+  url.searchParams.set("format", "jsonv2");
+  url.searchParams.set("zoom", String(REVERSE_GEOCODING_ZOOM));
+  url.searchParams.set("accept-language", options?.language ?? DEFAULT_OPTIONS.language);
 
-    return data.results.map(mapToGeocodingResult);
+  let response: NominatimReverseResponse;
+  try {
+    response = (await fetchGeocodingJson(
+      url,
+      formatCoordinates(coordinates),
+      options?.timeout ?? DEFAULT_OPTIONS.timeout,
+      { "User-Agent": userAgent }
+    )) as NominatimReverseResponse;
   } catch (error) {
-    clearTimeout(timeoutId);
-
-    // Re-throw GeocodingError as-is
-    if (error instanceof GeocodingError) {
-      throw error;
+    // Fall back to the bundled gazetteer when the service is unreachable
+    if (mode === "auto" && isServiceError(error)) {
+      return reverseGeocodeOffline(coordinates);
     }
+    throw error;
+  }
 
-    // Handle abort/timeout
-    if (error instanceof Error && error.name === "AbortError") {
-      throw GeocodingError.serviceError(
-        query,
-        new Error(`Request timed out after ${opts.timeout}ms`)
-      );
-    }
+  // Open water and other unnamed points have no address
+  return mapReverseResult(coordinates, response) ?? reverseGeocodeOffline(coordinates);
+}
 
-    // Wrap other errors
-    throw GeocodingError.serviceError(
-      query,
-      error instanceof Error ? error : new Error(String(error))
-    );
-  }
+/**
+ * Get geocoding options from the application config
+ */
+export function getGeocodingOptionsFromConfig(config: AppConfig): GeocodingOptions {
+  return {
+    endpoint: config.api.geocoding,
+    mode: config.geocoding.mode,
+    reverseEndpoint: config.api.reverseGeocoding,
+    userAgent: config.providers.userAgent,
+  };
 }
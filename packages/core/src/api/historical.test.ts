@@ -0,0 +1,92 @@
+/**
+ * Tests for historical forecast ranges and observed day summaries.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { resolveHistoricalRange, summarizeObservedDays, MAX_PAST_DAYS } from "./historical";
+import { ConfigError } from "../errors/config";
+import type { Observation } from "../verification/types";
+
+const NOW = new Date("2026-10-19T15:00:00Z");
+
+describe("resolveHistoricalRange", () => {
+  it("should resolve a single past date", () => {
+    expect(resolveHistoricalRange({ date: "2026-09-12" }, NOW)).toEqual({
+      startDate: "2026-09-12",
+      endDate: "2026-09-12",
+    });
+  });
+
+  it("should extend a date by days, stopping at yesterday", () => {
+    expect(resolveHistoricalRange({ date: "2026-09-12", days: 3 }, NOW)).toEqual({
+      startDate: "2026-09-12",
+      endDate: "2026-09-14",
+    });
+    expect(resolveHistoricalRange({ date: "2026-10-16", days: 7 }, NOW)).toEqual({
+      startDate: "2026-10-16",
+      endDate: "2026-10-18",
+    });
+  });
+
+  it("should resolve the days before today", () => {
+    expect(resolveHistoricalRange({ pastDays: 3 }, NOW)).toEqual({
+      startDate: "2026-10-16",
+      endDate: "2026-10-18",
+    });
+    expect(resolveHistoricalRange({ pastDays: 1 }, NOW)).toEqual({
+      startDate: "2026-10-18",
+      endDate: "2026-10-18",
+    });
+  });
+
+  it("should reject dates that are invalid or not in the past", () => {
+    expect(() => resolveHistoricalRange({ date: "12/09/2026" }, NOW)).toThrow(ConfigError);
+    expect(() => resolveHistoricalRange({ date: "2026-02-30" }, NOW)).toThrow(/YYYY-MM-DD/);
+    expect(() => resolveHistoricalRange({ date: "2026-10-19" }, NOW)).toThrow(/not in the past/);
+  });
+
+  it("should reject out-of-range past days and conflicting requests", () => {
+    expect(() => resolveHistoricalRange({ pastDays: 0 }, NOW)).toThrow(ConfigError);
+    expect(() => resolveHistoricalRange({ pastDays: MAX_PAST_DAYS + 1 }, NOW)).toThrow(ConfigError);
+    expect(() => resolveHistoricalRange({ date: "2026-09-12", pastDays: 2 }, NOW)).toThrow(
+      /not both/
+    );
+    expect(() => resolveHistoricalRange({}, NOW)).toThrow(ConfigError);
+  });
+});
+
+describe("summarizeObservedDays", () => {
+  /**
+   * Create an hourly observation at a local time
+   */
+  function observation(time: string, values: Observation["values"]): Observation {
+    return { timestamp: new Date(time), values };
+  }
+
+  it("should summarise each day of the range", () => {
+    const observations = [
+      observation("2026-09-11T23:00", { temperature: 30 }),
+      observation("2026-09-12T06:00", { temperature: 11, precipitation: 0.4, windSpeed: 3 }),
+      observation("2026-09-12T15:00", { temperature: 19, precipitation: 1.1, windSpeed: 7 }),
+      observation("2026-09-13T12:00", { precipitation: 0 }),
+    ];
+
+    expect(
+      summarizeObservedDays(observations, { startDate: "2026-09-12", endDate: "2026-09-13" })
+    ).toEqual([
+      {
+        date: "2026-09-12",
+        temperature: { min: 11, max: 19 },
+        precipitation: 1.5,
+        windSpeedMax: 7,
+      },
+      { date: "2026-09-13", precipitation: 0 },
+    ]);
+  });
+
+  it("should leave out days without observations", () => {
+    expect(summarizeObservedDays([], { startDate: "2026-09-12", endDate: "2026-09-13" })).toEqual(
+      []
+    );
+  });
+});
@@ -0,0 +1,209 @@
+/**
+ * Historical forecasts for Weather Oracle.
+ * Resolves the past dates asked for (one date or the last few days) and
+ * summarises what was observed on them, so archived model runs can be shown
+ * next to what actually happened.
+ */
+
+import type { Coordinates } from "../types/location";
+import type { Observation } from "../verification/types";
+import { fetchArchiveObservations, type ArchiveFetchOptions } from "../verification/observations";
+import { ConfigError } from "../errors/config";
+
+/**
+ * Most past days fetched in one historical request
+ */
+export const MAX_PAST_DAYS = 92;
+
+/**
+ * Inclusive range of past dates (YYYY-MM-DD)
+ */
+export interface HistoricalRange {
+  readonly startDate: string;
+  readonly endDate: string;
+}
+
+/**
+ * Past dates as asked for: a date (and how many days from it), or the
+ * number of days before today
+ */
+export interface HistoricalRequest {
+  readonly date?: string;
+  /**
+   * Days from `date`, default 1
+   */
+  readonly days?: number;
+  readonly pastDays?: number;
+}
+
+/**
+ * Observed weather for one day of a historical range
+ */
+export interface ObservedDay {
+  /**
+   * Date (YYYY-MM-DD)
+   */
+  readonly date: string;
+  readonly temperature?: {
+    readonly min: number;
+    readonly max: number;
+  };
+  /**
+   * Total precipitation in mm
+   */
+  readonly precipitation?: number;
+  /**
+   * Highest hourly wind speed in m/s
+   */
+  readonly windSpeedMax?: number;
+}
+
+/**
+ * The dates of a historical forecast and, when available, what was observed
+ */
+export interface HistoricalForecast {
+  readonly range: HistoricalRange;
+  readonly observed?: readonly ObservedDay[];
+}
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ */
+function toDateString(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Add days to a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS));
+}
+
+/**
+ * Check that a value is a real YYYY-MM-DD calendar date
+ */
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const time = Date.parse(`${value}T00:00:00Z`);
+  return !isNaN(time) && toDateString(new Date(time)) === value;
+}
+
+/**
+ * Resolve a historical request to the range of past dates to fetch.
+ * Ranges stop at yesterday, since today's runs are still forecasts.
+ *
+ * @throws ConfigError if the date is invalid or not in the past, or both or
+ * neither of a date and past days are given
+ */
+export function resolveHistoricalRange(
+  request: HistoricalRequest,
+  now: Date = new Date()
+): HistoricalRange {
+  const yesterday = addDays(toDateString(now), -1);
+
+  if (request.date !== undefined && request.pastDays !== undefined) {
+    throw ConfigError.invalid("date", "use either a date or a number of past days, not both");
+  }
+
+  if (request.pastDays !== undefined) {
+    const pastDays = request.pastDays;
+    if (!Number.isInteger(pastDays) || pastDays < 1 || pastDays > MAX_PAST_DAYS) {
+      throw ConfigError.invalid("pastDays", `past days must be between 1 and ${MAX_PAST_DAYS}`);
+    }
+    return { startDate: addDays(yesterday, 1 - pastDays), endDate: yesterday };
+  }
+
+  if (request.date === undefined) {
+    throw ConfigError.invalid("date", "a date or a number of past days is required");
+  }
+
+  const date = request.date;
+  if (!isCalendarDate(date)) {
+    throw ConfigError.invalid("date", `"${date}" is not a date in YYYY-MM-DD format`);
+  }
+  if (date > yesterday) {
+    throw ConfigError.invalid("date", `${date} is not in the past`);
+  }
+
+  const lastDay = addDays(date, Math.max(1, request.days ?? 1) - 1);
+  return { startDate: date, endDate: lastDay < yesterday ? lastDay : yesterday };
+}
+
+/**
+ * Local calendar date of a timestamp (YYYY-MM-DD), matching how hourly
+ * forecasts are grouped into days
+ */
+function localDateKey(timestamp: Date): string {
+  const month = String(timestamp.getMonth() + 1).padStart(2, "0");
+  const day = String(timestamp.getDate()).padStart(2, "0");
+  return `${timestamp.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Summarise hourly observations per day of a range.
+ * Days without observations are left out.
+ */
+export function summarizeObservedDays(
+  observations: readonly Observation[],
+  range: HistoricalRange
+): ObservedDay[] {
+  const byDate = new Map<string, Observation[]>();
+  for (const observation of observations) {
+    const date = localDateKey(new Date(observation.timestamp));
+    if (date >= range.startDate && date <= range.endDate) {
+      byDate.set(date, [...(byDate.get(date) ?? []), observation]);
+    }
+  }
+
+  return [...byDate.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, hours]) => {
+      const values = (metric: "temperature" | "precipitation" | "windSpeed"): number[] =>
+        hours.flatMap((h) => (h.values[metric] === undefined ? [] : [h.values[metric]]));
+      const temperatures = values("temperature");
+      const precipitation = values("precipitation");
+      const windSpeeds = values("windSpeed");
+
+      return {
+        date,
+        ...(temperatures.length > 0 && {
+          temperature: { min: Math.min(...temperatures), max: Math.max(...temperatures) },
+        }),
+        ...(precipitation.length > 0 && {
+          precipitation: precipitation.reduce((a, b) => a + b, 0),
+        }),
+        ...(windSpeeds.length > 0 && { windSpeedMax: Math.max(...windSpeeds) }),
+      };
+    });
+}
+
+/**
+ * Fetch what was observed on each day of a range from the archive API.
+ * Note that the archive lags real time by a few days, so recent days may be
+ * missing.
+ *
+ * @throws ApiError if the request fails
+ */
+export async function fetchObservedDays(
+  coordinates: Coordinates,
+  range: HistoricalRange,
+  options: ArchiveFetchOptions = {}
+): Promise<ObservedDay[]> {
+  const observations = await fetchArchiveObservations(
+    coordinates,
+    {
+      from: new Date(`${range.startDate}T00:00:00Z`),
+      to: new Date(`${range.endDate}T00:00:00Z`),
+    },
+    options
+  );
+  return summarizeObservedDays(observations, range);
+}
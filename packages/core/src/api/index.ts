@@ -7,6 +7,8 @@
 export {
   OpenMeteoClient,
   fetchModelForecast,
+  getForecastOptionsFromConfig,
+  parseRetryAfter,
   type ForecastOptions,
 } from "./open-meteo";
 
@@ -21,20 +23,70 @@ export {
   type TimedModelForecast,
 } from "./multi-model";
 
+// Multi-location fetcher
+export {
+  fetchForecastsForLocations,
+  DEFAULT_LOCATION_CONCURRENCY,
+  DEFAULT_LOCATIONS_PER_REQUEST,
+  type MultiLocationOptions,
+  type LocationForecastResult,
+} from "./multi-location";
+
+// Historical forecasts (past dates and what was observed)
+export {
+  resolveHistoricalRange,
+  summarizeObservedDays,
+  fetchObservedDays,
+  MAX_PAST_DAYS,
+  type HistoricalRange,
+  type HistoricalRequest,
+  type HistoricalForecast,
+  type ObservedDay,
+} from "./historical";
+
+// Weather providers
+export * from "./providers";
+
+// Ensemble client
+export {
+  fetchEnsembleForecast,
+  fetchEnsembleForecasts,
+  parseEnsembleResponse,
+  getDefaultEnsembleModels,
+  getEnsembleOptionsFromConfig,
+  type EnsembleOptions,
+  type EnsembleResponse,
+  type EnsembleFailure,
+  type MultiEnsembleResult,
+} from "./ensemble";
+
 // Geocoding client
 export {
   geocodeLocation,
   searchLocations,
+  reverseGeocode,
+  getGeocodingOptionsFromConfig,
   type GeocodingOptions,
 } from "./geocoding";
 
+// Location resolution (saved aliases, coordinates, then geocoding)
+export { resolveLocation, type ResolvedLocation } from "./locations";
+
 // Endpoint configuration
 export {
   OPEN_METEO_BASE_URL,
+  OPEN_METEO_ARCHIVE_URL,
+  OPEN_METEO_HISTORICAL_FORECAST_URL,
+  OPEN_METEO_ENSEMBLE_URL,
+  ENSEMBLE_MODEL_PARAMS,
   MODEL_ENDPOINTS,
+  MODEL_BATCH_PARAMS,
   HOURLY_VARIABLES,
   DAILY_VARIABLES,
   getModelEndpoint,
+  getForecastEndpoint,
+  getBaseUrlFromForecastUrl,
+  type EndpointOverrides,
   type HourlyVariable,
   type DailyVariable,
 } from "./endpoints";
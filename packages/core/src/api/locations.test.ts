@@ -0,0 +1,126 @@
+/**
+ * Tests for location resolution
+ */
+
+import { describe, expect, it, beforeEach, afterEach, mock } from "bun:test";
+import { resolveLocation } from "./locations";
+import { addSavedLocation, createSavedLocation, setDefaultLocation } from "../config/locations";
+import type { LocationsConfig } from "../config/schema";
+import { createCoordinates, timezoneId } from "../types/location";
+import { ConfigError } from "../errors/config";
+import { GeocodingError } from "../errors/geocoding";
+import { ErrorCode } from "../errors/base";
+
+function createLocations(): LocationsConfig {
+  const home = createSavedLocation(
+    "home",
+    {
+      name: "London",
+      coordinates: createCoordinates(51.5074, -0.1278),
+      country: "United Kingdom",
+      countryCode: "GB",
+      timezone: timezoneId("Europe/London"),
+    },
+    { models: ["ecmwf"], days: 3 }
+  );
+  return addSavedLocation({}, home);
+}
+
+describe("resolveLocation", () => {
+  let originalFetch: typeof globalThis.fetch;
+  let fetchMock: ReturnType<typeof mock>;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    fetchMock = mock(() =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({
+            results: [
+              {
+                id: 1,
+                name: "Paris",
+                latitude: 48.8566,
+                longitude: 2.3522,
+                country_code: "FR",
+                country: "France",
+                timezone: "Europe/Paris",
+              },
+            ],
+          })
+        )
+      )
+    );
+    globalThis.fetch = Object.assign(fetchMock, { preconnect: () => {} });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("resolves a saved alias without a geocoding request", async () => {
+    const { location, saved } = await resolveLocation("HOME", createLocations());
+
+    expect(location.query).toBe("HOME");
+    expect(location.resolved.name).toBe("London");
+    expect(location.resolved.timezone).toBe(timezoneId("Europe/London"));
+    expect(saved?.days).toBe(3);
+    expect(saved?.models).toEqual(["ecmwf"]);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("uses the default location when no query is given", async () => {
+    const locations = setDefaultLocation(createLocations(), "home");
+    const { location, saved } = await resolveLocation(undefined, locations);
+
+    expect(location.query).toBe("home");
+    expect(location.resolved.name).toBe("London");
+    expect(saved?.alias).toBe("home");
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("throws a config error when no query or default is available", async () => {
+    const error = await resolveLocation("  ", createLocations()).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+    expect((error as ConfigError).configKey).toBe("locations.default");
+  });
+
+  it("geocodes queries that are not saved aliases", async () => {
+    const { location, saved } = await resolveLocation("Paris", createLocations(), {
+      endpoint: "https://geocoding.example.com/v1/search",
+    });
+
+    expect(location.resolved.name).toBe("Paris");
+    expect(saved).toBeUndefined();
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it("uses coordinates as given and names them offline", async () => {
+    const { location } = await resolveLocation("48.85,2.35", createLocations(), {
+      mode: "offline",
+    });
+
+    expect(location.query).toBe("48.85,2.35");
+    expect(location.resolved.name).toBe("Paris");
+    expect(location.resolved.coordinates).toEqual(createCoordinates(48.85, 2.35));
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it("recovers a short plus code against its locality", async () => {
+    const { location } = await resolveLocation("V75V+8Q Paris", createLocations(), {
+      mode: "offline",
+    });
+
+    expect(location.resolved.name).toBe("Paris");
+    expect(location.resolved.coordinates.latitude as number).toBeCloseTo(48.8583, 3);
+    expect(location.resolved.coordinates.longitude as number).toBeCloseTo(2.2944, 3);
+  });
+
+  it("rejects a short plus code without a locality", async () => {
+    const error = await resolveLocation("V75V+8Q", createLocations()).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(GeocodingError);
+    expect((error as GeocodingError).code).toBe(ErrorCode.GEOCODING_INVALID_INPUT);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Location resolution for Weather Oracle.
+ * Resolves saved location aliases from config, then coordinate queries
+ * (named by reverse geocoding), before falling back to geocoding.
+ */
+
+import type { Location } from "../types/location";
+import type { LocationsConfig, SavedLocationConfig } from "../config/schema";
+import { findSavedLocation, toGeocodingResult } from "../config/locations";
+import { ConfigError } from "../errors/config";
+import { GeocodingError } from "../errors/geocoding";
+import { parseCoordinates, parseShortPlusCode } from "../geo/coordinates";
+import { recoverShortPlusCode } from "../geo/plus-codes";
+import { geocodeLocation, reverseGeocode, type GeocodingOptions } from "./geocoding";
+
+/**
+ * A resolved location, with the saved entry it came from if any
+ */
+export interface ResolvedLocation {
+  readonly location: Location;
+  readonly saved?: SavedLocationConfig;
+}
+
+/**
+ * Resolve a location query.
+ *
+ * Saved aliases resolve from config without a geocoding call. With no query,
+ * the default saved location is used. Coordinates (decimal, DMS, geohash or
+ * plus code) are used as given and named after the nearest place; a short
+ * plus code is recovered against the locality that follows it.
+ *
+ * @throws ConfigError if no query is given and no default location is saved
+ * @throws GeocodingError if the query is not an alias and cannot be geocoded
+ */
+export async function resolveLocation(
+  query: string | undefined,
+  locations: LocationsConfig,
+  options?: GeocodingOptions
+): Promise<ResolvedLocation> {
+  const trimmed = query?.trim();
+
+  if (!trimmed) {
+    const saved =
+      locations.default !== undefined ? findSavedLocation(locations, locations.default) : undefined;
+    if (!saved) {
+      throw ConfigError.missing(
+        "locations.default",
+        "pass a location or set a default with `weather-oracle locations default <alias>`"
+      );
+    }
+    return { location: { query: saved.alias, resolved: toGeocodingResult(saved) }, saved };
+  }
+
+  const saved = findSavedLocation(locations, trimmed);
+  if (saved) {
+    return { location: { query: trimmed, resolved: toGeocodingResult(saved) }, saved };
+  }
+
+  const parsed = parseCoordinates(trimmed);
+  if (parsed) {
+    const resolved = await reverseGeocode(parsed.coordinates, options);
+    return { location: { query: trimmed, resolved } };
+  }
+
+  const shortCode = parseShortPlusCode(trimmed);
+  if (shortCode) {
+    if (shortCode.locality === undefined) {
+      throw GeocodingError.invalidInput(
+        trimmed,
+        "Short plus codes need a nearby place, e.g. \"GV2G+2X London\"."
+      );
+    }
+    const reference = await geocodeLocation(shortCode.locality, options);
+    const coordinates = recoverShortPlusCode(shortCode.code, reference.coordinates);
+    const resolved = await reverseGeocode(coordinates, options);
+    return { location: { query: trimmed, resolved } };
+  }
+
+  return { location: { query: trimmed, resolved: await geocodeLocation(trimmed, options) } };
+}
@@ -0,0 +1,239 @@
+/**
+ * Tests for multi-location fetcher.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { fetchForecastsForLocations } from "./multi-location";
+import { FileCacheManager } from "../cache/file-cache";
+import { latitude, longitude, timezoneId, elevation } from "../types/location";
+import type { Location } from "../types/location";
+
+/**
+ * Create a mock location for testing
+ */
+function createMockLocation(name: string, lat: number, lon: number): Location {
+  return {
+    query: name,
+    resolved: {
+      name,
+      coordinates: {
+        latitude: latitude(lat),
+        longitude: longitude(lon),
+      },
+      country: "Test",
+      countryCode: "XX",
+      timezone: timezoneId("UTC"),
+      elevation: elevation(10),
+    },
+  };
+}
+
+const LOCATIONS = [
+  createMockLocation("Oslo", 59.91, 10.75),
+  createMockLocation("Bergen", 60.39, 5.32),
+  createMockLocation("Tromsø", 69.65, 18.96),
+];
+
+/**
+ * Create one location's API response, with columns suffixed when a
+ * models= value is given
+ */
+function createLocationResponse(temperature: number, modelParams: string[] = []): object {
+  const hourly: Record<string, unknown[]> = {
+    temperature_2m: [temperature, temperature - 0.5],
+    relative_humidity_2m: [75, 78],
+    wind_speed_10m: [10.8, 12.6],
+    precipitation: [0, 0.1],
+    weather_code: [2, 3],
+  };
+  const daily: Record<string, unknown[]> = {
+    temperature_2m_max: [temperature + 3],
+    temperature_2m_min: [temperature - 3],
+    precipitation_sum: [0.1],
+    weather_code: [3],
+  };
+
+  const suffix = (data: Record<string, unknown[]>): Record<string, unknown[]> =>
+    modelParams.length === 0
+      ? data
+      : Object.fromEntries(
+          modelParams.flatMap((param) =>
+            Object.entries(data).map(([key, values]) => [`${key}_${param}`, values])
+          )
+        );
+
+  return {
+    latitude: 0,
+    longitude: 0,
+    generationtime_ms: 0.5,
+    utc_offset_seconds: 0,
+    timezone: "UTC",
+    timezone_abbreviation: "UTC",
+    elevation: 10,
+    hourly: { time: ["2024-01-15T00:00", "2024-01-15T01:00"], ...suffix(hourly) },
+    daily: { time: ["2024-01-15"], ...suffix(daily) },
+  };
+}
+
+/**
+ * Respond to a request with one entry per requested location, each
+ * location's temperature set from its latitude
+ */
+function respondForLocations(url: URL): Response {
+  const latitudes = (url.searchParams.get("latitude") ?? "").split(",").map(Number);
+  const modelParams = url.searchParams.get("models")?.split(",") ?? [];
+  const suffixed = modelParams.length > 1 ? modelParams : [];
+  const bodies = latitudes.map((lat) => createLocationResponse(Math.round(lat), suffixed));
+  return new Response(JSON.stringify(bodies.length === 1 ? bodies[0] : bodies), {
+    status: 200,
+  });
+}
+
+/**
+ * Helper to create a mock fetch function that records requested URLs
+ */
+function createMockFetch(
+  requests: URL[],
+  handler: (url: URL) => Response | Promise<Response> = respondForLocations
+): typeof globalThis.fetch {
+  const mockFn = mock((input: string | URL | Request) => {
+    const url = new URL(input instanceof Request ? input.url : input);
+    requests.push(url);
+    return Promise.resolve(handler(url));
+  }) as unknown as typeof globalThis.fetch;
+  return mockFn;
+}
+
+describe("fetchForecastsForLocations", () => {
+  let originalFetch: typeof globalThis.fetch;
+  let requests: URL[];
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    requests = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should fetch every location and model in one request", async () => {
+    globalThis.fetch = createMockFetch(requests);
+
+    const results = await fetchForecastsForLocations(LOCATIONS, ["gfs", "ecmwf"], {
+      batchRequests: true,
+    });
+
+    expect(requests).toHaveLength(1);
+    expect(requests[0].searchParams.get("latitude")).toBe("59.91,60.39,69.65");
+    expect(requests[0].searchParams.get("longitude")).toBe("10.75,5.32,18.96");
+    expect(requests[0].searchParams.get("models")).toBe("gfs_seamless,ecmwf_ifs025");
+
+    expect(results.map((r) => r.location.resolved.name)).toEqual(["Oslo", "Bergen", "Tromsø"]);
+    for (const { location, result, cached } of results) {
+      expect(cached).toBe(false);
+      expect(result.forecasts.map((f) => f.model)).toEqual(["gfs", "ecmwf"]);
+      expect(result.forecasts[0].coordinates).toEqual(location.resolved.coordinates);
+      expect(result.successRate).toBe(1);
+    }
+    expect(Number(results[2].result.forecasts[0].hourly[0].metrics.temperature)).toBe(70);
+  });
+
+  it("should send one request per model without batchRequests", async () => {
+    globalThis.fetch = createMockFetch(requests);
+
+    const results = await fetchForecastsForLocations(LOCATIONS, ["gfs", "icon"]);
+
+    expect(requests.map((r) => r.pathname).sort()).toEqual(["/v1/dwd-icon", "/v1/gfs"]);
+    expect(results.every((r) => r.result.forecasts.length === 2)).toBe(true);
+  });
+
+  it("should split locations across requests", async () => {
+    globalThis.fetch = createMockFetch(requests);
+
+    const results = await fetchForecastsForLocations(LOCATIONS, ["gfs"], {
+      locationsPerRequest: 2,
+    });
+
+    expect(requests.map((r) => r.searchParams.get("latitude"))).toEqual(["59.91,60.39", "69.65"]);
+    expect(results.map((r) => r.result.forecasts.length)).toEqual([1, 1, 1]);
+  });
+
+  it("should fall back to per-location requests when a shared request fails", async () => {
+    globalThis.fetch = createMockFetch(requests, (url) =>
+      url.searchParams.get("latitude")?.includes(",")
+        ? new Response("Error", { status: 500 })
+        : respondForLocations(url)
+    );
+
+    const results = await fetchForecastsForLocations(LOCATIONS, ["gfs"], { retries: 0 });
+
+    expect(requests).toHaveLength(4);
+    expect(results.map((r) => r.result.forecasts.length)).toEqual([1, 1, 1]);
+    expect(results.every((r) => r.result.failures.length === 0)).toBe(true);
+  });
+
+  it("should fail rate-limited models without retrying each location", async () => {
+    globalThis.fetch = createMockFetch(
+      requests,
+      () => new Response("Too Many Requests", { status: 429, statusText: "Too Many Requests" })
+    );
+
+    const results = await fetchForecastsForLocations(LOCATIONS, ["gfs"], { retries: 0 });
+
+    expect(requests).toHaveLength(1);
+    expect(results.map((r) => r.result.failures.map((f) => f.model))).toEqual([
+      ["gfs"],
+      ["gfs"],
+      ["gfs"],
+    ]);
+  });
+
+  it("should limit requests in flight", async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    globalThis.fetch = createMockFetch(requests, async (url) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return respondForLocations(url);
+    });
+
+    await fetchForecastsForLocations(LOCATIONS, ["gfs", "icon", "gem"], { concurrency: 2 });
+
+    expect(requests).toHaveLength(3);
+    expect(maxInFlight).toBe(2);
+  });
+
+  describe("with a cache", () => {
+    let cacheDir: string;
+
+    beforeEach(() => {
+      cacheDir = join(tmpdir(), `weather-oracle-multi-location-test-${randomUUID()}`);
+    });
+
+    afterEach(async () => {
+      await rm(cacheDir, { recursive: true, force: true });
+    });
+
+    it("should only fetch locations missing from the cache", async () => {
+      globalThis.fetch = createMockFetch(requests);
+      const cache = new FileCacheManager({ cacheDir });
+
+      await fetchForecastsForLocations(LOCATIONS.slice(0, 2), ["gfs"], { cache });
+      expect(requests).toHaveLength(1);
+
+      const results = await fetchForecastsForLocations(LOCATIONS, ["gfs"], { cache });
+
+      expect(requests).toHaveLength(2);
+      expect(requests[1].searchParams.get("latitude")).toBe("69.65");
+      expect(results.map((r) => r.cached)).toEqual([true, true, false]);
+      expect(results.map((r) => r.result.forecasts.length)).toEqual([1, 1, 1]);
+    });
+  });
+});
@@ -0,0 +1,263 @@
+/**
+ * Multi-location fetcher for Weather Oracle.
+ * Fetches forecasts for many locations at once: Open-Meteo models are
+ * requested for several locations per call, and locations share a cache
+ * and a concurrency limit.
+ */
+
+import type { Location } from "../types/location";
+import type { ModelName, ModelForecast, OpenMeteoModelName } from "../types/models";
+import type { CacheManager } from "../cache/types";
+import {
+  createForecastCacheKey,
+  createForecastCacheRequest,
+  getForecastCacheTtl,
+  HISTORICAL_FORECAST_CACHE_TTL_SECONDS,
+} from "../cache/keys";
+import { ApiError } from "../errors/api";
+import { ErrorCode } from "../errors/base";
+import { OpenMeteoClient } from "./open-meteo";
+import {
+  fetchAllModels,
+  getBatchableModels,
+  getDefaultModels,
+  type ModelFailure,
+  type MultiModelOptions,
+  type MultiModelResult,
+} from "./multi-model";
+import { getDefaultProviderRegistry } from "./providers/registry";
+
+/**
+ * Default number of requests in flight at once
+ */
+export const DEFAULT_LOCATION_CONCURRENCY = 4;
+
+/**
+ * Default maximum number of locations sent in one Open-Meteo request
+ */
+export const DEFAULT_LOCATIONS_PER_REQUEST = 50;
+
+/**
+ * Options for multi-location fetch
+ */
+export interface MultiLocationOptions extends MultiModelOptions {
+  /**
+   * Requests in flight at once, across shared and per-location requests.
+   * Default: 4
+   */
+  concurrency?: number;
+
+  /**
+   * Most locations sent in one Open-Meteo request.
+   * Default: 50
+   */
+  locationsPerRequest?: number;
+
+  /**
+   * Cache for each location's results. Entries use the same keys as
+   * single-location forecasts, so the two share cached data.
+   */
+  cache?: CacheManager;
+
+  /**
+   * Longest time to keep cached results, in seconds.
+   * Default: until a newer run of one of the models is due
+   */
+  cacheTtlSeconds?: number;
+}
+
+/**
+ * Forecasts fetched for one location
+ */
+export interface LocationForecastResult {
+  readonly location: Location;
+  readonly result: MultiModelResult;
+  /**
+   * Whether the result came from the cache
+   */
+  readonly cached: boolean;
+}
+
+/**
+ * Outcome of one model for one location
+ */
+type ModelOutcome = { forecast: ModelForecast } | { failure: ModelFailure };
+
+/**
+ * Run a task for each item with at most `limit` tasks in flight
+ */
+async function forEachWithConcurrency<T>(
+  items: readonly T[],
+  limit: number,
+  task: (item: T) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      await task(items[next++]);
+    }
+  };
+  const workers = Math.min(Math.max(1, limit), items.length);
+  await Promise.all(Array.from({ length: workers }, worker));
+}
+
+/**
+ * Split items into chunks of at most `size`
+ */
+function chunk<T>(items: readonly T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += Math.max(1, size)) {
+    chunks.push(items.slice(i, i + Math.max(1, size)));
+  }
+  return chunks;
+}
+
+/**
+ * Fetch forecasts for several locations.
+ *
+ * Cached locations are returned as-is. For the rest, Open-Meteo models are
+ * fetched for up to `locationsPerRequest` locations per request (all models in
+ * one request with batchRequests, otherwise one request per model). Models
+ * missing from those responses, models from other providers, and locations
+ * whose shared request failed are then fetched location by location.
+ * A rate-limited shared request fails its models instead of being retried
+ * per location.
+ *
+ * @param locations - Locations to fetch forecasts for
+ * @param models - Models to fetch for every location (defaults to all Open-Meteo models)
+ * @param options - Forecast, cache and concurrency options
+ * @returns One result per location, in input order
+ *
+ * @example
+ * ```typescript
+ * const results = await fetchForecastsForLocations(locations, ["ecmwf", "gfs"], {
+ *   batchRequests: true,
+ *   cache: createCacheManager(),
+ * });
+ * for (const { location, result } of results) {
+ *   console.log(`${location.resolved.name}: ${result.forecasts.length} models`);
+ * }
+ * ```
+ */
+export async function fetchForecastsForLocations(
+  locations: readonly Location[],
+  models?: ModelName[],
+  options?: MultiLocationOptions
+): Promise<LocationForecastResult[]> {
+  const startTime = Date.now();
+  const fetchedAt = new Date();
+  const modelsToFetch = models ?? getDefaultModels();
+  const {
+    concurrency = DEFAULT_LOCATION_CONCURRENCY,
+    locationsPerRequest = DEFAULT_LOCATIONS_PER_REQUEST,
+    cache,
+    cacheTtlSeconds,
+    ...fetchOptions
+  } = options ?? {};
+  const registry = fetchOptions.registry ?? getDefaultProviderRegistry();
+
+  const cacheKeys = locations.map((location) =>
+    createForecastCacheKey(
+      createForecastCacheRequest(location.resolved.coordinates, models, fetchOptions)
+    )
+  );
+  const runTtl = fetchOptions.historical
+    ? HISTORICAL_FORECAST_CACHE_TTL_SECONDS
+    : getForecastCacheTtl(modelsToFetch, fetchedAt);
+  const cacheTtl = cacheTtlSeconds !== undefined ? Math.min(cacheTtlSeconds, runTtl) : runTtl;
+
+  // Step 1: Serve cached locations
+  const results: (LocationForecastResult | undefined)[] = locations.map(() => undefined);
+  const pending: number[] = [];
+  for (let i = 0; i < locations.length; i++) {
+    const cached = cache ? await cache.get<MultiModelResult>(cacheKeys[i]) : null;
+    if (cached) {
+      results[i] = { location: locations[i], result: cached, cached: true };
+    } else {
+      pending.push(i);
+    }
+  }
+
+  // Step 2: Fetch Open-Meteo models for many locations per request
+  const outcomes = new Map<number, Map<ModelName, ModelOutcome>>(
+    pending.map((i) => [i, new Map()])
+  );
+  const shared = getBatchableModels(modelsToFetch, registry, fetchOptions);
+  const modelGroups: OpenMeteoModelName[][] =
+    fetchOptions.batchRequests && shared.length > 1 ? [shared] : shared.map((model) => [model]);
+  const sharedRequests = chunk(pending, locationsPerRequest).flatMap((indexes) =>
+    modelGroups.map((group) => ({ indexes, group }))
+  );
+
+  if (pending.length > 1) {
+    const client = new OpenMeteoClient(fetchOptions);
+    await forEachWithConcurrency(sharedRequests, concurrency, async ({ indexes, group }) => {
+      const requestStart = Date.now();
+      try {
+        const forecasts = await client.fetchLocationsBatch(
+          group,
+          indexes.map((i) => locations[i]),
+          fetchOptions
+        );
+        indexes.forEach((locationIndex, i) => {
+          for (const [model, forecast] of forecasts[i]) {
+            outcomes.get(locationIndex)?.set(model, { forecast });
+          }
+        });
+      } catch (error) {
+        // Other failures are retried location by location below
+        if (error instanceof ApiError && error.code === ErrorCode.API_RATE_LIMIT) {
+          const durationMs = Date.now() - requestStart;
+          for (const locationIndex of indexes) {
+            for (const model of group) {
+              outcomes.get(locationIndex)?.set(model, { failure: { model, error, durationMs } });
+            }
+          }
+        }
+      }
+    });
+  }
+
+  // Step 3: Fetch whatever is left location by location
+  await forEachWithConcurrency(pending, concurrency, async (locationIndex) => {
+    const modelOutcomes = outcomes.get(locationIndex) ?? new Map<ModelName, ModelOutcome>();
+    const remaining = modelsToFetch.filter((model) => !modelOutcomes.has(model));
+    if (remaining.length > 0) {
+      const result = await fetchAllModels(locations[locationIndex], remaining, {
+        ...fetchOptions,
+        registry,
+      });
+      for (const forecast of result.forecasts) {
+        modelOutcomes.set(forecast.model, { forecast });
+      }
+      for (const failure of result.failures) {
+        modelOutcomes.set(failure.model, { failure });
+      }
+    }
+
+    const forecasts: ModelForecast[] = [];
+    const failures: ModelFailure[] = [];
+    for (const model of modelsToFetch) {
+      const outcome = modelOutcomes.get(model);
+      if (outcome && "forecast" in outcome) {
+        forecasts.push(outcome.forecast);
+      } else if (outcome) {
+        failures.push(outcome.failure);
+      }
+    }
+
+    const result: MultiModelResult = {
+      forecasts,
+      failures,
+      fetchedAt,
+      totalDurationMs: Date.now() - startTime,
+      successRate: modelsToFetch.length > 0 ? forecasts.length / modelsToFetch.length : 0,
+    };
+    if (cache && forecasts.length > 0) {
+      await cache.set(cacheKeys[locationIndex], result, cacheTtl);
+    }
+    results[locationIndex] = { location: locations[locationIndex], result, cached: false };
+  });
+
+  return results.filter((result): result is LocationForecastResult => result !== undefined);
+}
@@ -10,7 +10,7 @@ import {
 } from "./multi-model";
 import { latitude, longitude, timezoneId, elevation } from "../types/location";
 import type { Location } from "../types/location";
-import type { ModelName } from "../types/models";
+import type { ModelName, OpenMeteoModelName } from "../types/models";
 
 /**
  * Create a mock location for testing
@@ -305,7 +305,7 @@ describe("fetchAllModels", () => {
   });
 
   it("should preserve model identity in failures", async () => {
-    const errorModels: Record<ModelName, string> = {
+    const errorModels: Record<OpenMeteoModelName, string> = {
       gfs: "GFS service down",
       ecmwf: "ECMWF maintenance",
       icon: "", // Will succeed
@@ -318,7 +318,7 @@ describe("fetchAllModels", () => {
     globalThis.fetch = createMockFetch((url: string | URL | Request) => {
       const urlStr = url.toString();
 
-      for (const [model, errorMsg] of Object.entries(errorModels) as [ModelName, string][]) {
+      for (const [model, errorMsg] of Object.entries(errorModels) as [OpenMeteoModelName, string][]) {
         if (urlStr.includes(model) && errorMsg) {
           return Promise.resolve(
             new Response(JSON.stringify({ error: true, reason: errorMsg }), {
@@ -455,3 +455,182 @@ describe("fetchAllModelsWithTiming", () => {
     expect(result.failures[0].durationMs).toBeGreaterThanOrEqual(5);
   });
 });
+
+/**
+ * Create a multi-model API response, with each model's temperatures offset
+ * by its position and columns suffixed with its models= value
+ */
+function createBatchResponse(modelParams: string[]): object {
+  const single = createMockResponse() as {
+    hourly: Record<string, unknown[]>;
+    daily: Record<string, unknown[]>;
+  };
+
+  const suffix = (data: Record<string, unknown[]>, offset: number, param: string) =>
+    Object.fromEntries(
+      Object.entries(data)
+        .filter(([key]) => key !== "time")
+        .map(([key, values]) => [
+          `${key}_${param}`,
+          key.startsWith("temperature_2m")
+            ? values.map((value) => (value as number) + offset)
+            : values,
+        ])
+    );
+
+  return {
+    ...single,
+    hourly: Object.assign(
+      { time: single.hourly.time },
+      ...modelParams.map((param, i) => suffix(single.hourly, i, param))
+    ) as object,
+    daily: Object.assign(
+      { time: single.daily.time },
+      ...modelParams.map((param, i) => suffix(single.daily, i, param))
+    ) as object,
+  };
+}
+
+/**
+ * Get the URL a mocked fetch was called with
+ */
+function requestUrl(input: string | URL | Request): string {
+  if (typeof input === "string") {
+    return input;
+  }
+  return input instanceof URL ? input.href : input.url;
+}
+
+describe("batch requests", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should fetch all Open-Meteo models in one request", async () => {
+    const requests: string[] = [];
+    globalThis.fetch = createMockFetch((url: string | URL | Request) => {
+      requests.push(requestUrl(url));
+      return Promise.resolve(
+        new Response(JSON.stringify(createBatchResponse(["gfs_seamless", "ecmwf_ifs025"])), {
+          status: 200,
+        })
+      );
+    });
+
+    const result = await fetchAllModels(createMockLocation(), ["gfs", "ecmwf"], {
+      batchRequests: true,
+    });
+
+    expect(requests).toHaveLength(1);
+    const url = new URL(requests[0]);
+    expect(url.pathname).toBe("/v1/forecast");
+    expect(url.searchParams.get("models")).toBe("gfs_seamless,ecmwf_ifs025");
+
+    expect(result.forecasts.map((f) => f.model)).toEqual(["gfs", "ecmwf"]);
+    expect(result.forecasts.map((f) => Number(f.hourly[0].metrics.temperature))).toEqual([
+      5.2, 6.2,
+    ]);
+    expect(Number(result.forecasts[1].daily[0].temperature.max)).toBe(9.5);
+    expect(result.successRate).toBe(1);
+  });
+
+  it("should fetch models missing from the response separately", async () => {
+    const requests: string[] = [];
+    globalThis.fetch = createMockFetch((url: string | URL | Request) => {
+      const urlStr = requestUrl(url);
+      requests.push(urlStr);
+      const body = urlStr.includes("models=")
+        ? createBatchResponse(["gfs_seamless"])
+        : createMockResponse();
+      return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+    });
+
+    const result = await fetchAllModels(createMockLocation(), ["gfs", "ukmo", "icon"], {
+      batchRequests: true,
+    });
+
+    expect(requests).toHaveLength(3);
+    expect(requests.some((r) => r.includes("/dwd-icon"))).toBe(true);
+    expect(result.forecasts.map((f) => f.model)).toEqual(["gfs", "ukmo", "icon"]);
+    expect(result.failures).toHaveLength(0);
+  });
+
+  it("should fall back to one request per model when the batch fails", async () => {
+    globalThis.fetch = createMockFetch((url: string | URL | Request) => {
+      if (requestUrl(url).includes("/forecast")) {
+        return Promise.resolve(new Response("Error", { status: 500 }));
+      }
+      return Promise.resolve(new Response(JSON.stringify(createMockResponse()), { status: 200 }));
+    });
+
+    const result = await fetchAllModels(createMockLocation(), ["gfs", "ecmwf"], {
+      batchRequests: true,
+      retries: 0,
+    });
+
+    expect(result.forecasts.map((f) => f.model)).toEqual(["gfs", "ecmwf"]);
+    expect(result.failures).toHaveLength(0);
+  });
+
+  it("should not retry a rate-limited batch model by model", async () => {
+    let requests = 0;
+    globalThis.fetch = createMockFetch(() => {
+      requests++;
+      return Promise.resolve(
+        new Response("Too Many Requests", { status: 429, statusText: "Too Many Requests" })
+      );
+    });
+
+    const result = await fetchAllModels(createMockLocation(), ["gfs", "ecmwf"], {
+      batchRequests: true,
+      retries: 0,
+    });
+
+    expect(requests).toBe(1);
+    expect(result.failures.map((f) => f.model)).toEqual(["gfs", "ecmwf"]);
+  });
+
+  it("should request overridden endpoints separately", async () => {
+    const requests: string[] = [];
+    globalThis.fetch = createMockFetch((url: string | URL | Request) => {
+      const urlStr = requestUrl(url);
+      requests.push(urlStr);
+      const body = urlStr.includes("models=")
+        ? createBatchResponse(["gfs_seamless", "icon_seamless"])
+        : createMockResponse();
+      return Promise.resolve(new Response(JSON.stringify(body), { status: 200 }));
+    });
+
+    const result = await fetchAllModels(createMockLocation(), ["gfs", "ecmwf", "icon"], {
+      batchRequests: true,
+      modelEndpoints: { ecmwf: "https://ecmwf.example.com/v1/ecmwf" },
+    });
+
+    expect(requests).toHaveLength(2);
+    expect(requests.some((r) => r.startsWith("https://ecmwf.example.com/v1/ecmwf"))).toBe(true);
+    expect(result.forecasts.map((f) => f.model)).toEqual(["gfs", "ecmwf", "icon"]);
+  });
+
+  it("should report the shared request time for batched models", async () => {
+    globalThis.fetch = createMockFetch(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      return new Response(JSON.stringify(createBatchResponse(["gfs_seamless", "jma_seamless"])), {
+        status: 200,
+      });
+    });
+
+    const result = await fetchAllModelsWithTiming(createMockLocation(), ["gfs", "jma"], {
+      batchRequests: true,
+    });
+
+    expect(result.forecasts).toHaveLength(2);
+    expect(result.forecasts[0].fetchDurationMs).toBeGreaterThanOrEqual(10);
+    expect(result.forecasts[1].fetchDurationMs).toBe(result.forecasts[0].fetchDurationMs);
+  });
+});
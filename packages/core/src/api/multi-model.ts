@@ -5,9 +5,12 @@
  */
 
 import type { Location } from "../types/location";
-import type { ModelName, ModelForecast } from "../types/models";
-import { fetchModelForecast, type ForecastOptions } from "./open-meteo";
-import { MODEL_INFO } from "../types/models";
+import type { ModelName, ModelForecast, OpenMeteoModelName } from "../types/models";
+import { OpenMeteoClient, type ForecastOptions } from "./open-meteo";
+import { OPEN_METEO_MODELS, isOpenMeteoModel } from "../types/models";
+import { ApiError } from "../errors/api";
+import { ErrorCode } from "../errors/base";
+import { getDefaultProviderRegistry, type ProviderRegistry } from "./providers/registry";
 
 /**
  * Failure information for a model fetch
@@ -46,13 +49,20 @@ export interface MultiModelOptions extends ForecastOptions {
    * Default: 0 (no delay)
    */
   requestDelayMs?: number;
+
+  /**
+   * Provider registry used to resolve models.
+   * Default: built-in providers with default settings
+   */
+  registry?: ProviderRegistry;
 }
 
 /**
- * Get all available model names
+ * Get the models fetched by default (Open-Meteo models).
+ * Other providers' models are opt-in via the models list.
  */
 export function getDefaultModels(): ModelName[] {
-  return Object.keys(MODEL_INFO) as ModelName[];
+  return [...OPEN_METEO_MODELS];
 }
 
 /**
@@ -62,18 +72,40 @@ function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+/**
+ * Outcome of fetching one model
+ */
+interface FetchResult {
+  model: ModelName;
+  forecast?: ModelForecast;
+  error?: Error;
+  durationMs: number;
+}
+
 /**
  * Fetch a single model forecast with timing information
  */
 async function fetchWithTiming(
   model: ModelName,
   location: Location,
+  registry: ProviderRegistry,
   options?: ForecastOptions
-): Promise<{ model: ModelName; forecast?: ModelForecast; error?: Error; durationMs: number }> {
+): Promise<FetchResult> {
   const startTime = Date.now();
 
   try {
-    const forecast = await fetchModelForecast(model, location, options);
+    const provider = registry.getProviderForModel(model);
+    if (!provider) {
+      throw ApiError.unsupported(model, "no provider is registered for this model");
+    }
+    if (provider.supports && !provider.supports(location.resolved.coordinates)) {
+      throw ApiError.unsupported(model, `${provider.displayName} does not cover this location`);
+    }
+    if (options?.historical && provider.historical !== true) {
+      throw ApiError.unsupported(model, `${provider.displayName} has no historical forecasts`);
+    }
+
+    const forecast = await provider.fetchForecast(model, location, options);
     const durationMs = Date.now() - startTime;
     return { model, forecast, durationMs };
   } catch (error) {
@@ -86,6 +118,94 @@ async function fetchWithTiming(
   }
 }
 
+/**
+ * Get the models that can share one Open-Meteo /forecast request: those served
+ * by the built-in Open-Meteo provider without a per-model endpoint override
+ */
+export function getBatchableModels(
+  models: readonly ModelName[],
+  registry: ProviderRegistry,
+  options: ForecastOptions
+): OpenMeteoModelName[] {
+  return models.filter(
+    (model): model is OpenMeteoModelName =>
+      isOpenMeteoModel(model) &&
+      options.modelEndpoints?.[model] === undefined &&
+      registry.getProviderForModel(model)?.id === "open-meteo"
+  );
+}
+
+/**
+ * Fetch several Open-Meteo models in one request.
+ * Models missing from the response, or all models when the request fails,
+ * are fetched separately; their timing includes the batch request. A rate
+ * limit fails every model instead, since separate requests would only add
+ * to it.
+ */
+async function fetchBatchWithTiming(
+  models: readonly OpenMeteoModelName[],
+  location: Location,
+  registry: ProviderRegistry,
+  options: ForecastOptions
+): Promise<FetchResult[]> {
+  const startTime = Date.now();
+  let forecasts = new Map<OpenMeteoModelName, ModelForecast>();
+
+  try {
+    forecasts = await new OpenMeteoClient(options).fetchModelsBatch(models, location, options);
+  } catch (error) {
+    if (error instanceof ApiError && error.code === ErrorCode.API_RATE_LIMIT) {
+      const durationMs = Date.now() - startTime;
+      return models.map((model) => ({ model, error, durationMs }));
+    }
+  }
+
+  const batchDurationMs = Date.now() - startTime;
+  return Promise.all(
+    models.map(async (model): Promise<FetchResult> => {
+      const forecast = forecasts.get(model);
+      if (forecast) {
+        return { model, forecast, durationMs: batchDurationMs };
+      }
+      const result = await fetchWithTiming(model, location, registry, options);
+      return { ...result, durationMs: batchDurationMs + result.durationMs };
+    })
+  );
+}
+
+/**
+ * Start fetching each model, in model order.
+ * With batchRequests, Open-Meteo models share one request and count as the
+ * first request when staggering the rest.
+ */
+function startFetches(
+  models: readonly ModelName[],
+  location: Location,
+  registry: ProviderRegistry,
+  requestDelayMs: number,
+  options: ForecastOptions
+): Promise<FetchResult>[] {
+  const batchable = options.batchRequests ? getBatchableModels(models, registry, options) : [];
+  const batched: readonly ModelName[] = batchable.length > 1 ? batchable : [];
+  const batch =
+    batched.length > 0 ? fetchBatchWithTiming(batchable, location, registry, options) : undefined;
+
+  let index = batch ? 1 : 0;
+  return models.map((model) => {
+    const batchIndex = batched.indexOf(model);
+    if (batch && batchIndex >= 0) {
+      return batch.then((results) => results[batchIndex]);
+    }
+
+    const delayMs = requestDelayMs * index++;
+    if (delayMs > 0) {
+      // Staggered requests with delay
+      return sleep(delayMs).then(() => fetchWithTiming(model, location, registry, options));
+    }
+    return fetchWithTiming(model, location, registry, options);
+  });
+}
+
 /**
  * Fetch forecasts from multiple weather models in parallel.
  *
@@ -116,30 +236,20 @@ export async function fetchAllModels(
   const startTime = Date.now();
   const fetchedAt = new Date();
   const modelsToFetch = models ?? getDefaultModels();
-  const { requestDelayMs = 0, ...forecastOptions } = options ?? {};
+  const {
+    requestDelayMs = 0,
+    registry = getDefaultProviderRegistry(),
+    ...forecastOptions
+  } = options ?? {};
 
   // Build array of fetch promises
-  let fetchPromises: Promise<{
-    model: ModelName;
-    forecast?: ModelForecast;
-    error?: Error;
-    durationMs: number;
-  }>[];
-
-  if (requestDelayMs > 0) {
-    // Staggered requests with delay
-    fetchPromises = modelsToFetch.map(async (model, index) => {
-      if (index > 0) {
-        await sleep(requestDelayMs * index);
-      }
-      return fetchWithTiming(model, location, forecastOptions);
-    });
-  } else {
-    // Fully parallel requests
-    fetchPromises = modelsToFetch.map((model) =>
-      fetchWithTiming(model, location, forecastOptions)
-    );
-  }
+  const fetchPromises = startFetches(
+    modelsToFetch,
+    location,
+    registry,
+    requestDelayMs,
+    forecastOptions
+  );
 
   // Wait for all requests to complete (even if some fail)
   const results = await Promise.allSettled(fetchPromises);
@@ -207,27 +317,19 @@ export async function fetchAllModelsWithTiming(
   const startTime = Date.now();
   const fetchedAt = new Date();
   const modelsToFetch = models ?? getDefaultModels();
-  const { requestDelayMs = 0, ...forecastOptions } = options ?? {};
-
-  let fetchPromises: Promise<{
-    model: ModelName;
-    forecast?: ModelForecast;
-    error?: Error;
-    durationMs: number;
-  }>[];
-
-  if (requestDelayMs > 0) {
-    fetchPromises = modelsToFetch.map(async (model, index) => {
-      if (index > 0) {
-        await sleep(requestDelayMs * index);
-      }
-      return fetchWithTiming(model, location, forecastOptions);
-    });
-  } else {
-    fetchPromises = modelsToFetch.map((model) =>
-      fetchWithTiming(model, location, forecastOptions)
-    );
-  }
+  const {
+    requestDelayMs = 0,
+    registry = getDefaultProviderRegistry(),
+    ...forecastOptions
+  } = options ?? {};
+
+  const fetchPromises = startFetches(
+    modelsToFetch,
+    location,
+    registry,
+    requestDelayMs,
+    forecastOptions
+  );
 
   const results = await Promise.allSettled(fetchPromises);
 
@@ -3,8 +3,16 @@
  */
 
 import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
-import { OpenMeteoClient, fetchModelForecast } from "./open-meteo";
+import {
+  OpenMeteoClient,
+  fetchModelForecast,
+  getForecastOptionsFromConfig,
+  parseRetryAfter,
+} from "./open-meteo";
+import { getModelEndpoint, getBaseUrlFromForecastUrl } from "./endpoints";
 import { ApiError } from "../errors/api";
+import { ErrorCode } from "../errors/base";
+import { DEFAULT_CONFIG } from "../config/schema";
 import { latitude, longitude, timezoneId, elevation } from "../types/location";
 import type { Location } from "../types/location";
 
@@ -143,6 +151,7 @@ describe("OpenMeteoClient", () => {
       const forecast = await client.fetchModelForecast("gfs", location);
 
       expect(forecast.model).toBe("gfs");
+      expect(forecast.elevation as number).toBe(10);
       expect(forecast.hourly.length).toBe(3);
       expect(forecast.daily.length).toBe(1);
 
@@ -428,6 +437,75 @@ describe("OpenMeteoClient", () => {
       expect(day.hourly.length).toBe(3);
       expect(day.hourly[0].metrics.temperature as number).toBeCloseTo(5.2, 1);
     });
+
+    it("should mark null values as missing", async () => {
+      const response = createMockResponse({}) as {
+        hourly: Record<string, (number | null)[]>;
+        daily: Record<string, (number | string | null)[]>;
+      };
+      response.hourly.temperature_2m[1] = null;
+      response.hourly.visibility = [null, null, null];
+      response.daily.uv_index_max = [null];
+      globalThis.fetch = createMockFetch(() =>
+        Promise.resolve(
+          new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          })
+        )
+      );
+
+      const client = new OpenMeteoClient();
+      const forecast = await client.fetchModelForecast("gfs", createMockLocation());
+
+      expect(forecast.hourly[0].metrics.missing).toEqual(["visibility"]);
+      expect(forecast.hourly[1].metrics.missing).toEqual(["temperature", "visibility"]);
+      expect(forecast.daily[0].missing).toEqual(["uvIndex"]);
+      expect(forecast.daily[0].temperature.max as number).toBeCloseTo(8.5, 1);
+    });
+
+    it("should parse the extended variables a model serves", async () => {
+      const response = createMockResponse({}) as {
+        hourly: Record<string, (number | null)[]>;
+        daily: Record<string, (number | string | null)[]>;
+      };
+      response.hourly.dew_point_2m = [1.5, 2.0, null];
+      response.hourly.snowfall = [0, 0.7, 0.3];
+      response.hourly.freezing_level_height = [800, 750, 900];
+      response.hourly.cape = [0, 50, 20];
+      response.hourly.shortwave_radiation = [0, 100, 200];
+      response.daily.snowfall_sum = [1.2];
+      globalThis.fetch = createMockFetch(() =>
+        Promise.resolve(
+          new Response(JSON.stringify(response), {
+            status: 200,
+            headers: { "Content-Type": "application/json" },
+          })
+        )
+      );
+
+      const client = new OpenMeteoClient();
+      const forecast = await client.fetchModelForecast("gfs", createMockLocation());
+
+      const hour = forecast.hourly[1].metrics;
+      expect(Number(hour.dewPoint)).toBe(2.0);
+      expect(hour.snowfall).toBe(0.7);
+      expect(hour.cape).toBe(50);
+      expect(hour.soilTemperature).toBeUndefined();
+      expect(forecast.hourly[2].metrics.dewPoint).toBeUndefined();
+      // Absent extended metrics are not listed as missing
+      expect(hour.missing).toBeUndefined();
+
+      const day = forecast.daily[0];
+      expect(Number(day.dewPoint?.min)).toBe(1.5);
+      expect(Number(day.dewPoint?.max)).toBe(2.0);
+      expect(day.snowfall?.total).toBe(1.2);
+      expect(day.freezingLevelHeight?.min).toBe(750);
+      expect(day.cape?.max).toBe(50);
+      expect(day.shortwaveRadiation?.total).toBeCloseTo(1.08, 2);
+      expect(day.soilMoisture).toBeUndefined();
+      expect(day.missing).toBeUndefined();
+    });
   });
 });
 
@@ -459,3 +537,198 @@ describe("fetchModelForecast convenience function", () => {
     expect(forecast.hourly.length).toBe(3);
   });
 });
+
+describe("configured endpoints and retry policy", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  /**
+   * Mock fetch that records requested URLs and returns a valid response
+   */
+  function captureUrls(urls: string[]): typeof globalThis.fetch {
+    return createMockFetch((url: string | URL | Request) => {
+      urls.push(url instanceof Request ? url.url : url.toString());
+      return Promise.resolve(
+        new Response(JSON.stringify(createMockResponse({})), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    });
+  }
+
+  it("should resolve model endpoints against a custom base URL", () => {
+    expect(getModelEndpoint("icon", { baseUrl: "https://meteo.example.com/v1/" })).toBe(
+      "https://meteo.example.com/v1/dwd-icon"
+    );
+    expect(
+      getModelEndpoint("icon", {
+        baseUrl: "https://meteo.example.com/v1",
+        models: { icon: "https://icon.example.com/forecast" },
+      })
+    ).toBe("https://icon.example.com/forecast");
+    expect(getModelEndpoint("gfs")).toBe("https://api.open-meteo.com/v1/gfs");
+  });
+
+  it("should derive the base URL from a forecast URL", () => {
+    expect(getBaseUrlFromForecastUrl("https://meteo.example.com/v1/forecast")).toBe(
+      "https://meteo.example.com/v1"
+    );
+    expect(getBaseUrlFromForecastUrl("https://meteo.example.com/v1/")).toBe(
+      "https://meteo.example.com/v1"
+    );
+  });
+
+  it("should request configured endpoints", async () => {
+    const urls: string[] = [];
+    globalThis.fetch = captureUrls(urls);
+
+    const client = new OpenMeteoClient({
+      baseUrl: "https://meteo.example.com/v1",
+      modelEndpoints: { ecmwf: "https://ecmwf.example.com/v1/ecmwf" },
+    });
+    await client.fetchModelForecast("gfs", createMockLocation());
+    await client.fetchModelForecast("ukmo", createMockLocation());
+    await client.fetchModelForecast("ecmwf", createMockLocation());
+
+    expect(urls[0]).toStartWith("https://meteo.example.com/v1/gfs?");
+    expect(urls[1]).toStartWith("https://meteo.example.com/v1/forecast?");
+    expect(urls[1]).toContain("models=ukmo_seamless");
+    expect(urls[2]).toStartWith("https://ecmwf.example.com/v1/ecmwf?");
+  });
+
+  it("should request archived runs from the historical endpoint for past dates", async () => {
+    const urls: string[] = [];
+    globalThis.fetch = captureUrls(urls);
+
+    const client = new OpenMeteoClient({
+      historical: { startDate: "2024-01-15", endDate: "2024-01-16" },
+      historicalUrl: "https://history.example.com/v1/forecast",
+      modelEndpoints: { gfs: "https://gfs.example.com/v1/gfs" },
+    });
+    const forecast = await client.fetchModelForecast("gfs", createMockLocation());
+
+    const url = new URL(urls[0]);
+    expect(url.origin + url.pathname).toBe("https://history.example.com/v1/forecast");
+    expect(url.searchParams.get("models")).toBe("gfs_seamless");
+    expect(url.searchParams.get("start_date")).toBe("2024-01-15");
+    expect(url.searchParams.get("end_date")).toBe("2024-01-16");
+    expect(url.searchParams.has("forecast_days")).toBe(false);
+    expect(forecast.runInitTime).toBeUndefined();
+  });
+
+  it("should build forecast options from config", () => {
+    const options = getForecastOptionsFromConfig({
+      api: {
+        ...DEFAULT_CONFIG.api,
+        forecast: "https://meteo.example.com/v1/forecast",
+        models: { gfs: "https://gfs.example.com/v1/gfs" },
+      },
+      models: { ...DEFAULT_CONFIG.models, timeout: 5000, retries: 4, retryDelayMs: 200 },
+    });
+
+    expect(options.baseUrl).toBe("https://meteo.example.com/v1");
+    expect(options.modelEndpoints).toEqual({ gfs: "https://gfs.example.com/v1/gfs" });
+    expect(options.timeout).toBe(5000);
+    expect(options.retries).toBe(4);
+    expect(options.retryDelayMs).toBe(200);
+    expect(options.maxRetryDelayMs).toBe(30000);
+    expect(options.batchRequests).toBe(true);
+    expect(options.historicalUrl).toBe(
+      "https://historical-forecast-api.open-meteo.com/v1/forecast"
+    );
+  });
+
+  it("should parse Retry-After seconds and HTTP dates", () => {
+    expect(parseRetryAfter("2")).toBe(2);
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter("soon")).toBeUndefined();
+
+    const inTenSeconds = new Date(Date.now() + 10_000).toUTCString();
+    const parsed = parseRetryAfter(inTenSeconds);
+    expect(parsed).toBeGreaterThanOrEqual(9);
+    expect(parsed).toBeLessThanOrEqual(10);
+    expect(parseRetryAfter(new Date(0).toUTCString())).toBe(0);
+  });
+
+  it("should wait for Retry-After before retrying a rate limit", async () => {
+    const callTimes: number[] = [];
+    globalThis.fetch = createMockFetch(() => {
+      callTimes.push(Date.now());
+      if (callTimes.length === 1) {
+        return Promise.resolve(
+          new Response("Too Many Requests", {
+            status: 429,
+            statusText: "Too Many Requests",
+            headers: { "Retry-After": "1" },
+          })
+        );
+      }
+      return Promise.resolve(
+        new Response(JSON.stringify(createMockResponse({})), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    });
+
+    const client = new OpenMeteoClient({ retries: 1, retryDelayMs: 1 });
+    const forecast = await client.fetchModelForecast("gfs", createMockLocation());
+
+    expect(forecast.model).toBe("gfs");
+    expect(callTimes).toHaveLength(2);
+    expect(callTimes[1] - callTimes[0]).toBeGreaterThanOrEqual(950);
+  });
+
+  it("should fail fast when Retry-After exceeds the maximum retry delay", async () => {
+    let callCount = 0;
+    globalThis.fetch = createMockFetch(() => {
+      callCount++;
+      return Promise.resolve(
+        new Response("Too Many Requests", {
+          status: 429,
+          statusText: "Too Many Requests",
+          headers: { "Retry-After": "120" },
+        })
+      );
+    });
+
+    const client = new OpenMeteoClient({ retries: 3, maxRetryDelayMs: 5000 });
+    const error = await client
+      .fetchModelForecast("gfs", createMockLocation())
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).code).toBe(ErrorCode.API_RATE_LIMIT);
+    expect((error as ApiError).retryAfterSeconds).toBe(120);
+    expect(callCount).toBe(1);
+  });
+
+  it("should use the configured backoff delay between retries", async () => {
+    let callCount = 0;
+    globalThis.fetch = createMockFetch(() => {
+      callCount++;
+      return Promise.resolve(
+        new Response("Service Unavailable", { status: 503, statusText: "Service Unavailable" })
+      );
+    });
+
+    const client = new OpenMeteoClient({ retries: 3, retryDelayMs: 5, maxRetryDelayMs: 10 });
+    const start = Date.now();
+    const error = await client
+      .fetchModelForecast("gfs", createMockLocation())
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).code).toBe(ErrorCode.API_UNAVAILABLE);
+    expect(callCount).toBe(4);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
@@ -8,11 +8,13 @@
  * - Timeout handling
  */
 
-import type { ModelName, ModelForecast } from "../types/models";
-import type { Location, Coordinates } from "../types/location";
+import type { OpenMeteoModelName, ModelForecast } from "../types/models";
+import { elevation, type Location, type Coordinates } from "../types/location";
 import type {
   HourlyForecast,
+  HourlyMetricName,
   DailyForecast,
+  DailyMetricName,
   WeatherMetrics,
   TemperatureRange,
   PrecipitationSummary,
@@ -30,9 +32,25 @@ import {
   uvIndex,
   visibility,
   weatherCode,
+  hasMetric,
 } from "../types/weather";
+import type { AppConfig } from "../config/schema";
 import { ApiError } from "../errors/api";
-import { getModelEndpoint, HOURLY_VARIABLES, DAILY_VARIABLES, MODEL_QUERY_PARAMS } from "./endpoints";
+import { ErrorCode } from "../errors/base";
+import {
+  getModelEndpoint,
+  getForecastEndpoint,
+  getBaseUrlFromForecastUrl,
+  OPEN_METEO_BASE_URL,
+  OPEN_METEO_HISTORICAL_FORECAST_URL,
+  HOURLY_VARIABLES,
+  DAILY_VARIABLES,
+  MODEL_QUERY_PARAMS,
+  MODEL_BATCH_PARAMS,
+} from "./endpoints";
+import { readExtendedMetrics, summarizeExtendedMetrics, trackMissing } from "./providers/derive";
+import { estimateRunInitTime } from "../runs/schedule";
+import type { HistoricalRange } from "./historical";
 
 /**
  * Options for fetching a forecast
@@ -57,8 +75,53 @@ export interface ForecastOptions {
    * Number of retry attempts for transient failures (default 2)
    */
   retries?: number;
+
+  /**
+   * Base delay for exponential backoff between retries in milliseconds (default 1000)
+   */
+  retryDelayMs?: number;
+
+  /**
+   * Maximum delay between retries in milliseconds (default 30000).
+   * A rate limit asking us to wait longer than this fails immediately.
+   */
+  maxRetryDelayMs?: number;
+
+  /**
+   * API base URL for model endpoints (default OPEN_METEO_BASE_URL)
+   */
+  baseUrl?: string;
+
+  /**
+   * Full endpoint URLs for individual models, overriding baseUrl
+   */
+  modelEndpoints?: Partial<Record<OpenMeteoModelName, string>>;
+
+  /**
+   * Fetch several Open-Meteo models in one /forecast request where possible
+   * (default false). Used by fetchAllModels.
+   */
+  batchRequests?: boolean;
+
+  /**
+   * Past dates to fetch archived model runs for, instead of a forecast from
+   * now (forecastDays is then ignored). Only providers marked `historical`
+   * serve these.
+   */
+  historical?: HistoricalRange;
+
+  /**
+   * Historical forecast endpoint (default OPEN_METEO_HISTORICAL_FORECAST_URL)
+   */
+  historicalUrl?: string;
 }
 
+/**
+ * Forecast options with defaults applied (historical stays optional)
+ */
+type ResolvedForecastOptions = Required<Omit<ForecastOptions, "historical">> &
+  Pick<ForecastOptions, "historical">;
+
 /**
  * Raw hourly data from Open-Meteo API
  */
@@ -77,6 +140,14 @@ interface OpenMeteoHourlyResponse {
   visibility?: (number | null)[];
   uv_index?: (number | null)[];
   weather_code?: (number | null)[];
+  dew_point_2m?: (number | null)[];
+  snowfall?: (number | null)[];
+  snow_depth?: (number | null)[];
+  freezing_level_height?: (number | null)[];
+  cape?: (number | null)[];
+  soil_temperature_0cm?: (number | null)[];
+  soil_moisture_0_to_1cm?: (number | null)[];
+  shortwave_radiation?: (number | null)[];
 }
 
 /**
@@ -99,6 +170,8 @@ interface OpenMeteoDailyResponse {
   daylight_duration?: (number | null)[];
   uv_index_max?: (number | null)[];
   weather_code?: (number | null)[];
+  snowfall_sum?: (number | null)[];
+  shortwave_radiation_sum?: (number | null)[];
 }
 
 /**
@@ -123,44 +196,116 @@ interface OpenMeteoResponse {
 /**
  * Default forecast options
  */
-const DEFAULT_OPTIONS: Required<ForecastOptions> = {
+const DEFAULT_OPTIONS: ResolvedForecastOptions = {
   forecastDays: 7,
   timezone: "auto",
   timeout: 30000,
   retries: 2,
+  retryDelayMs: 1000,
+  maxRetryDelayMs: 30000,
+  baseUrl: OPEN_METEO_BASE_URL,
+  modelEndpoints: {},
+  batchRequests: false,
+  historicalUrl: OPEN_METEO_HISTORICAL_FORECAST_URL,
 };
 
 /**
  * Sleep for a given number of milliseconds
  */
-function sleep(ms: number): Promise<void> {
+export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
 /**
- * Calculate exponential backoff delay
+ * Calculate exponential backoff delay with jitter.
+ * Half the delay is fixed and half random, so parallel model requests
+ * that fail together don't all retry at the same moment.
  */
-function getBackoffDelay(attempt: number, baseDelay: number = 1000): number {
-  return baseDelay * Math.pow(2, attempt) + Math.random() * 100;
+export function getBackoffDelay(attempt: number, baseDelay: number, maxDelay: number): number {
+  const delay = Math.min(maxDelay, baseDelay * Math.pow(2, attempt));
+  return delay / 2 + Math.random() * (delay / 2);
 }
 
 /**
- * Build the URL with query parameters for Open-Meteo API
+ * Whether a failed request is worth retrying: timeouts, network failures,
+ * rate limits (429) and server errors (5xx)
  */
-function buildRequestUrl(
-  model: ModelName,
-  coordinates: Coordinates,
-  options: Required<ForecastOptions>
-): URL {
-  const endpoint = getModelEndpoint(model);
-  const url = new URL(endpoint);
+export function isTransientError(error: unknown): boolean {
+  return (
+    !(error instanceof ApiError) ||
+    error.code === "API_TIMEOUT" ||
+    error.code === "API_UNAVAILABLE" ||
+    error.statusCode === undefined ||
+    error.statusCode >= 500 ||
+    error.statusCode === 429
+  );
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (value === null || value.trim() === "") {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
 
-  url.searchParams.set("latitude", String(coordinates.latitude));
-  url.searchParams.set("longitude", String(coordinates.longitude));
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Set the location, variable and range query parameters shared by all requests.
+ * Several locations are sent as comma-separated latitudes and longitudes.
+ */
+function setForecastParams(
+  url: URL,
+  coordinates: readonly Coordinates[],
+  options: ResolvedForecastOptions
+): void {
+  url.searchParams.set("latitude", coordinates.map((c) => c.latitude).join(","));
+  url.searchParams.set("longitude", coordinates.map((c) => c.longitude).join(","));
   url.searchParams.set("hourly", HOURLY_VARIABLES.join(","));
   url.searchParams.set("daily", DAILY_VARIABLES.join(","));
   url.searchParams.set("timezone", options.timezone);
-  url.searchParams.set("forecast_days", String(options.forecastDays));
+  if (options.historical) {
+    url.searchParams.set("start_date", options.historical.startDate);
+    url.searchParams.set("end_date", options.historical.endDate);
+  } else {
+    url.searchParams.set("forecast_days", String(options.forecastDays));
+  }
+}
+
+/**
+ * Build the URL with query parameters for Open-Meteo API
+ */
+function buildRequestUrl(
+  model: OpenMeteoModelName,
+  coordinates: readonly Coordinates[],
+  options: ResolvedForecastOptions
+): URL {
+  // Archived runs of every model come from one endpoint, selected with models=
+  if (options.historical) {
+    const url = new URL(options.historicalUrl);
+    setForecastParams(url, coordinates, options);
+    url.searchParams.set("models", MODEL_BATCH_PARAMS[model]);
+    return url;
+  }
+
+  const endpoint = getModelEndpoint(model, {
+    baseUrl: options.baseUrl,
+    models: options.modelEndpoints,
+  });
+  const url = new URL(endpoint);
+  setForecastParams(url, coordinates, options);
 
   // Some models require the models= query parameter (e.g., UKMO uses /forecast?models=ukmo_seamless)
   const modelParam = MODEL_QUERY_PARAMS[model];
@@ -172,7 +317,88 @@ function buildRequestUrl(
 }
 
 /**
- * Parse hourly data from API response into HourlyForecast array
+ * Build a /forecast URL requesting several models at once
+ */
+function buildBatchRequestUrl(
+  models: readonly OpenMeteoModelName[],
+  coordinates: readonly Coordinates[],
+  options: ResolvedForecastOptions
+): URL {
+  const url = new URL(
+    options.historical ? options.historicalUrl : getForecastEndpoint(options.baseUrl)
+  );
+  setForecastParams(url, coordinates, options);
+  url.searchParams.set("models", models.map((model) => MODEL_BATCH_PARAMS[model]).join(","));
+  return url;
+}
+
+/**
+ * Variables that don't depend on the model; Open-Meteo may return them unsuffixed
+ */
+const MODEL_INDEPENDENT_VARIABLES = new Set(["time", "sunrise", "sunset", "daylight_duration"]);
+
+/**
+ * Pick one model's columns out of a multi-model data block, dropping the
+ * model suffix (e.g. temperature_2m_gfs_seamless -> temperature_2m)
+ */
+function pickModelColumns<T extends { time: string[] }>(
+  data: T,
+  variables: readonly string[],
+  modelParam: string
+): T {
+  const columns = data as unknown as Record<string, unknown>;
+  const picked: Record<string, unknown> = { time: data.time };
+
+  for (const variable of variables) {
+    const suffixed = columns[`${variable}_${modelParam}`];
+    if (suffixed !== undefined) {
+      picked[variable] = suffixed;
+    } else if (MODEL_INDEPENDENT_VARIABLES.has(variable) && columns[variable] !== undefined) {
+      picked[variable] = columns[variable];
+    }
+  }
+
+  return picked as T;
+}
+
+/**
+ * Check whether a data block has at least one non-null model value
+ */
+function hasModelValues(data: object): boolean {
+  return Object.entries(data).some(
+    ([key, values]) =>
+      !MODEL_INDEPENDENT_VARIABLES.has(key) &&
+      Array.isArray(values) &&
+      values.some((value) => value !== null)
+  );
+}
+
+/**
+ * Split one model's forecast out of a multi-model response.
+ * Returns undefined when the response has no values for the model.
+ */
+function splitBatchResponse(
+  response: OpenMeteoResponse,
+  model: OpenMeteoModelName
+): OpenMeteoResponse | undefined {
+  const modelParam = MODEL_BATCH_PARAMS[model];
+  const hourly = response.hourly
+    ? pickModelColumns(response.hourly, HOURLY_VARIABLES, modelParam)
+    : undefined;
+  const daily = response.daily
+    ? pickModelColumns(response.daily, DAILY_VARIABLES, modelParam)
+    : undefined;
+
+  if (!(hourly && hasModelValues(hourly)) && !(daily && hasModelValues(daily))) {
+    return undefined;
+  }
+
+  return { ...response, hourly, daily };
+}
+
+/**
+ * Parse hourly data from API response into HourlyForecast array.
+ * Null values get placeholders and are listed in `metrics.missing`.
  */
 function parseHourlyData(hourly: OpenMeteoHourlyResponse): HourlyForecast[] {
   const forecasts: HourlyForecast[] = [];
@@ -180,28 +406,41 @@ function parseHourlyData(hourly: OpenMeteoHourlyResponse): HourlyForecast[] {
 
   for (let i = 0; i < times.length; i++) {
     const timestamp = new Date(times[i]);
+    const values = trackMissing<HourlyMetricName>();
+    const gust = values.read(hourly.wind_gusts_10m?.[i], "windGust");
 
     const metrics: WeatherMetrics = {
-      temperature: celsius(hourly.temperature_2m?.[i] ?? 0),
-      feelsLike: celsius(hourly.apparent_temperature?.[i] ?? hourly.temperature_2m?.[i] ?? 0),
-      humidity: humidity(hourly.relative_humidity_2m?.[i] ?? 0),
-      pressure: pressure(hourly.surface_pressure?.[i] ?? 1013),
-      windSpeed: metersPerSecond(
-        hourly.wind_speed_10m?.[i] != null
-          ? hourly.wind_speed_10m[i]! / 3.6 // Convert km/h to m/s
-          : 0
+      temperature: celsius(values.read(hourly.temperature_2m?.[i], "temperature")),
+      // Apparent temperature falls back to the air temperature when only that is reported
+      feelsLike: celsius(
+        values.read(hourly.apparent_temperature?.[i] ?? hourly.temperature_2m?.[i], "feelsLike")
+      ),
+      humidity: humidity(values.read(hourly.relative_humidity_2m?.[i], "humidity")),
+      pressure: pressure(values.read(hourly.surface_pressure?.[i], "pressure", 1013)),
+      // Convert km/h to m/s
+      windSpeed: metersPerSecond(values.read(hourly.wind_speed_10m?.[i], "windSpeed") / 3.6),
+      windDirection: windDirection(values.read(hourly.wind_direction_10m?.[i], "windDirection")),
+      windGust: values.missing.includes("windGust") ? undefined : metersPerSecond(gust / 3.6),
+      precipitation: millimeters(values.read(hourly.precipitation?.[i], "precipitation")),
+      precipitationProbability: values.read(
+        hourly.precipitation_probability?.[i],
+        "precipitationProbability"
       ),
-      windDirection: windDirection(hourly.wind_direction_10m?.[i] ?? 0),
-      windGust:
-        hourly.wind_gusts_10m?.[i] != null
-          ? metersPerSecond(hourly.wind_gusts_10m[i]! / 3.6) // Convert km/h to m/s
-          : undefined,
-      precipitation: millimeters(hourly.precipitation?.[i] ?? 0),
-      precipitationProbability: hourly.precipitation_probability?.[i] ?? 0,
-      cloudCover: cloudCover(hourly.cloud_cover?.[i] ?? 0),
-      visibility: visibility(hourly.visibility?.[i] ?? 10000),
-      uvIndex: uvIndex(hourly.uv_index?.[i] ?? 0),
-      weatherCode: weatherCode(hourly.weather_code?.[i] ?? 0),
+      cloudCover: cloudCover(values.read(hourly.cloud_cover?.[i], "cloudCover")),
+      visibility: visibility(values.read(hourly.visibility?.[i], "visibility", 10000)),
+      uvIndex: uvIndex(values.read(hourly.uv_index?.[i], "uvIndex")),
+      weatherCode: weatherCode(values.read(hourly.weather_code?.[i], "weatherCode")),
+      ...readExtendedMetrics({
+        dewPoint: hourly.dew_point_2m?.[i],
+        snowfall: hourly.snowfall?.[i],
+        snowDepth: hourly.snow_depth?.[i],
+        freezingLevelHeight: hourly.freezing_level_height?.[i],
+        cape: hourly.cape?.[i],
+        soilTemperature: hourly.soil_temperature_0cm?.[i],
+        soilMoisture: hourly.soil_moisture_0_to_1cm?.[i],
+        shortwaveRadiation: hourly.shortwave_radiation?.[i],
+      }),
+      ...(values.missing.length > 0 && { missing: values.missing }),
     };
 
     forecasts.push({ timestamp, metrics });
@@ -228,7 +467,8 @@ function getHourlyForDay(
 }
 
 /**
- * Parse daily data from API response into DailyForecast array
+ * Parse daily data from API response into DailyForecast array.
+ * Null values get placeholders and are listed in `missing`.
  */
 function parseDailyData(
   daily: OpenMeteoDailyResponse,
@@ -240,30 +480,30 @@ function parseDailyData(
   for (let i = 0; i < times.length; i++) {
     const date = new Date(times[i]);
     const dayHourly = getHourlyForDay(hourlyForecasts, date);
+    const values = trackMissing<DailyMetricName>();
 
     const temperature: TemperatureRange = {
-      min: celsius(daily.temperature_2m_min?.[i] ?? 0),
-      max: celsius(daily.temperature_2m_max?.[i] ?? 0),
+      min: celsius(values.read(daily.temperature_2m_min?.[i], "temperatureMin")),
+      max: celsius(values.read(daily.temperature_2m_max?.[i], "temperatureMax")),
     };
 
     const precipitation: PrecipitationSummary = {
-      total: millimeters(daily.precipitation_sum?.[i] ?? 0),
-      probability: daily.precipitation_probability_max?.[i] ?? 0,
-      hours: daily.precipitation_hours?.[i] ?? 0,
+      total: millimeters(values.read(daily.precipitation_sum?.[i], "precipitation")),
+      probability: values.read(
+        daily.precipitation_probability_max?.[i],
+        "precipitationProbability"
+      ),
+      hours: values.read(daily.precipitation_hours?.[i], "precipitationHours"),
     };
 
+    // Convert km/h to m/s
+    const maxSpeed = values.read(daily.wind_speed_10m_max?.[i], "windSpeed") / 3.6;
     const wind: WindSummary = {
-      avgSpeed: metersPerSecond(
-        daily.wind_speed_10m_max?.[i] != null
-          ? daily.wind_speed_10m_max[i]! / 3.6 / 2 // Rough average estimate
-          : 0
-      ),
-      maxSpeed: metersPerSecond(
-        daily.wind_speed_10m_max?.[i] != null
-          ? daily.wind_speed_10m_max[i]! / 3.6 // Convert km/h to m/s
-          : 0
+      avgSpeed: metersPerSecond(maxSpeed / 2), // Rough average estimate
+      maxSpeed: metersPerSecond(maxSpeed),
+      dominantDirection: windDirection(
+        values.read(daily.wind_direction_10m_dominant?.[i], "windDirection")
       ),
-      dominantDirection: windDirection(daily.wind_direction_10m_dominant?.[i] ?? 0),
     };
 
     const sun: SunTimes = {
@@ -272,10 +512,17 @@ function parseDailyData(
       daylightHours: (daily.daylight_duration?.[i] ?? 43200) / 3600, // Convert seconds to hours
     };
 
-    // Calculate min/max humidity and pressure from hourly data
-    const humidityValues = dayHourly.map((h) => h.metrics.humidity as number);
-    const pressureValues = dayHourly.map((h) => h.metrics.pressure as number);
-    const cloudCoverValues = dayHourly.map((h) => h.metrics.cloudCover as number);
+    // Calculate min/max humidity and pressure from the hours that report them
+    const fromHourly = (metric: "humidity" | "pressure" | "cloudCover"): number[] => {
+      const available = dayHourly
+        .filter((h) => hasMetric(h.metrics, metric))
+        .map((h) => h.metrics[metric] as number);
+      if (available.length === 0) values.read(undefined, metric);
+      return available;
+    };
+    const humidityValues = fromHourly("humidity");
+    const pressureValues = fromHourly("pressure");
+    const cloudCoverValues = fromHourly("cloudCover");
 
     forecasts.push({
       date,
@@ -299,11 +546,16 @@ function parseDailyData(
         max: cloudCover(cloudCoverValues.length > 0 ? Math.max(...cloudCoverValues) : 0),
       },
       uvIndex: {
-        max: uvIndex(daily.uv_index_max?.[i] ?? 0),
+        max: uvIndex(values.read(daily.uv_index_max?.[i], "uvIndex")),
       },
       sun,
-      weatherCode: weatherCode(daily.weather_code?.[i] ?? 0),
+      weatherCode: weatherCode(values.read(daily.weather_code?.[i], "weatherCode")),
       hourly: dayHourly,
+      ...summarizeExtendedMetrics(dayHourly, {
+        snowfall: daily.snowfall_sum?.[i],
+        shortwaveRadiation: daily.shortwave_radiation_sum?.[i],
+      }),
+      ...(values.missing.length > 0 && { missing: values.missing }),
     });
   }
 
@@ -314,7 +566,7 @@ function parseDailyData(
  * Open-Meteo API client for fetching weather forecasts
  */
 export class OpenMeteoClient {
-  private readonly defaultOptions: Required<ForecastOptions>;
+  private readonly defaultOptions: ResolvedForecastOptions;
 
   constructor(options?: Partial<ForecastOptions>) {
     this.defaultOptions = {
@@ -327,48 +579,129 @@ export class OpenMeteoClient {
    * Fetch forecast from a specific weather model
    */
   async fetchModelForecast(
-    model: ModelName,
+    model: OpenMeteoModelName,
     location: Location,
     options?: ForecastOptions
   ): Promise<ModelForecast> {
-    const opts: Required<ForecastOptions> = {
+    const opts: ResolvedForecastOptions = {
       ...this.defaultOptions,
       ...options,
     };
 
     const coordinates = location.resolved.coordinates;
-    const url = buildRequestUrl(model, coordinates, opts);
+    const url = buildRequestUrl(model, [coordinates], opts);
+    const response = await this.fetchWithRetries(url, opts, model);
+    return this.parseResponse(response, model, coordinates, opts.historical !== undefined);
+  }
 
+  /**
+   * Fetch several models in one /forecast request.
+   * Models missing from the response (no values returned) are left out of
+   * the result so callers can fetch them separately.
+   */
+  async fetchModelsBatch(
+    models: readonly OpenMeteoModelName[],
+    location: Location,
+    options?: ForecastOptions
+  ): Promise<Map<OpenMeteoModelName, ModelForecast>> {
+    const [forecasts] = await this.fetchLocationsBatch(models, [location], options);
+    return forecasts;
+  }
+
+  /**
+   * Fetch one or more models for several locations in one request.
+   * Returns each location's forecasts in input order; models missing from
+   * the response for a location are left out of its map.
+   */
+  async fetchLocationsBatch(
+    models: readonly OpenMeteoModelName[],
+    locations: readonly Location[],
+    options?: ForecastOptions
+  ): Promise<Map<OpenMeteoModelName, ModelForecast>[]> {
+    const opts: ResolvedForecastOptions = {
+      ...this.defaultOptions,
+      ...options,
+    };
+
+    const coordinates = locations.map((location) => location.resolved.coordinates);
+    const singleModel = models.length === 1 ? models[0] : undefined;
+    const url = singleModel
+      ? buildRequestUrl(singleModel, coordinates, opts)
+      : buildBatchRequestUrl(models, coordinates, opts);
+
+    // Open-Meteo returns an array with one entry per location when given several
+    const response = (await this.fetchWithRetries(url, opts, singleModel)) as
+      | OpenMeteoResponse
+      | OpenMeteoResponse[];
+    const responses = Array.isArray(response) ? response : [response];
+    if (responses.length !== locations.length) {
+      throw ApiError.invalidResponse(
+        url.toString(),
+        `expected ${locations.length} locations, got ${responses.length}`,
+        singleModel
+      );
+    }
+
+    return responses.map((locationResponse, i) => {
+      const forecasts = new Map<OpenMeteoModelName, ModelForecast>();
+      for (const model of models) {
+        const modelResponse = singleModel
+          ? locationResponse
+          : splitBatchResponse(locationResponse, model);
+        if (modelResponse) {
+          forecasts.set(
+            model,
+            this.parseResponse(modelResponse, model, coordinates[i], opts.historical !== undefined)
+          );
+        }
+      }
+      return forecasts;
+    });
+  }
+
+  /**
+   * Fetch a URL, retrying transient failures with backoff
+   */
+  private async fetchWithRetries(
+    url: URL,
+    opts: ResolvedForecastOptions,
+    model?: OpenMeteoModelName
+  ): Promise<OpenMeteoResponse> {
     let lastError: Error | undefined;
 
     for (let attempt = 0; attempt <= opts.retries; attempt++) {
       try {
-        const response = await this.fetchWithTimeout(url.toString(), opts.timeout, model);
-        return this.parseResponse(response, model, coordinates);
+        return await this.fetchWithTimeout(url.toString(), opts.timeout, model);
       } catch (error) {
         lastError = error instanceof Error ? error : new Error(String(error));
 
         // Don't retry on non-transient errors (but DO retry 429 rate limits and 5xx)
-        if (error instanceof ApiError) {
-          if (
-            error.code !== "API_TIMEOUT" &&
-            error.code !== "API_UNAVAILABLE" &&
-            error.statusCode !== undefined &&
-            error.statusCode < 500 &&
-            error.statusCode !== 429 // 429 Too Many Requests is transient
-          ) {
-            throw error;
-          }
+        if (!isTransientError(error)) {
+          throw error;
         }
 
-        // Wait before retry (with exponential backoff)
+        // Wait before retry, honouring Retry-After on rate limits
         if (attempt < opts.retries) {
-          await sleep(getBackoffDelay(attempt));
+          const retryAfterSeconds =
+            error instanceof ApiError ? error.retryAfterSeconds : undefined;
+
+          if (retryAfterSeconds !== undefined) {
+            const retryAfterMs = retryAfterSeconds * 1000;
+            if (retryAfterMs > opts.maxRetryDelayMs) {
+              throw error;
+            }
+            await sleep(retryAfterMs);
+          } else {
+            await sleep(getBackoffDelay(attempt, opts.retryDelayMs, opts.maxRetryDelayMs));
+          }
         }
       }
     }
 
-    // All retries exhausted
+    // All retries exhausted; keep rate limits distinct so callers can back off
+    if (lastError instanceof ApiError && lastError.code === ErrorCode.API_RATE_LIMIT) {
+      throw lastError;
+    }
     throw ApiError.unavailable(model, lastError);
   }
 
@@ -376,11 +709,11 @@ export class OpenMeteoClient {
    * Fetch multiple models in parallel
    */
   async fetchMultipleModels(
-    models: ModelName[],
+    models: OpenMeteoModelName[],
     location: Location,
     options?: ForecastOptions
-  ): Promise<Map<ModelName, ModelForecast | ApiError>> {
-    const results = new Map<ModelName, ModelForecast | ApiError>();
+  ): Promise<Map<OpenMeteoModelName, ModelForecast | ApiError>> {
+    const results = new Map<OpenMeteoModelName, ModelForecast | ApiError>();
 
     const promises = models.map(async (model) => {
       try {
@@ -405,7 +738,7 @@ export class OpenMeteoClient {
   private async fetchWithTimeout(
     url: string,
     timeout: number,
-    model: ModelName
+    model?: OpenMeteoModelName
   ): Promise<OpenMeteoResponse> {
     const controller = new AbortController();
     const timeoutId = setTimeout(() => controller.abort(), timeout);
@@ -421,7 +754,13 @@ export class OpenMeteoClient {
       clearTimeout(timeoutId);
 
       if (!response.ok) {
-        throw ApiError.fromResponse(response.status, response.statusText, url, model);
+        throw ApiError.fromResponse(
+          response.status,
+          response.statusText,
+          url,
+          model,
+          response.status === 429 ? parseRetryAfter(response.headers.get("Retry-After")) : undefined
+        );
       }
 
       const data = (await response.json()) as OpenMeteoResponse;
@@ -451,8 +790,9 @@ export class OpenMeteoClient {
    */
   private parseResponse(
     response: OpenMeteoResponse,
-    model: ModelName,
-    coordinates: Coordinates
+    model: OpenMeteoModelName,
+    coordinates: Coordinates,
+    historical: boolean = false
   ): ModelForecast {
     const hourly = response.hourly ? parseHourlyData(response.hourly) : [];
     const daily = response.daily ? parseDailyData(response.daily, hourly) : [];
@@ -461,10 +801,15 @@ export class OpenMeteoClient {
     const validFrom = hourly.length > 0 ? hourly[0].timestamp : now;
     const validTo = hourly.length > 0 ? hourly[hourly.length - 1].timestamp : now;
 
+    // Archived days span many runs, so no single run time applies
+    const runInitTime = historical ? undefined : estimateRunInitTime(model, now);
+
     return {
       model,
       coordinates,
+      ...(response.elevation !== undefined && { elevation: elevation(response.elevation) }),
       generatedAt: now,
+      ...(runInitTime && { runInitTime, runInitSource: "estimated" as const }),
       validFrom,
       validTo,
       hourly,
@@ -477,10 +822,30 @@ export class OpenMeteoClient {
  * Fetch a forecast from a specific weather model (convenience function)
  */
 export async function fetchModelForecast(
-  model: ModelName,
+  model: OpenMeteoModelName,
   location: Location,
   options?: ForecastOptions
 ): Promise<ModelForecast> {
   const client = new OpenMeteoClient(options);
   return client.fetchModelForecast(model, location, options);
 }
+
+/**
+ * Build forecast options from application configuration.
+ * Applies the configured forecast and historical forecast endpoints,
+ * per-model endpoint overrides, timeout, retry policy, and request batching.
+ */
+export function getForecastOptionsFromConfig(
+  config: Pick<AppConfig, "api" | "models">
+): ForecastOptions {
+  return {
+    baseUrl: getBaseUrlFromForecastUrl(config.api.forecast),
+    modelEndpoints: config.api.models ?? {},
+    timeout: config.models.timeout,
+    retries: config.models.retries,
+    retryDelayMs: config.models.retryDelayMs,
+    maxRetryDelayMs: config.models.maxRetryDelayMs,
+    batchRequests: config.models.batchRequests,
+    historicalUrl: config.api.historicalForecast,
+  };
+}
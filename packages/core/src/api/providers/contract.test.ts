@@ -0,0 +1,365 @@
+/**
+ * Contract tests for weather providers against recorded API fixtures.
+ * Every provider must turn its source data into a well-formed ModelForecast.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+import { createNwsProvider, parseNwsGridpoints, parseDurationHours } from "./nws";
+import type { NwsGridpointsResponse } from "./nws";
+import { createMetNoProvider, parseMetNoForecast, symbolToWeatherCode } from "./metno";
+import type { MetNoResponse } from "./metno";
+import { createLocalFileProvider } from "./local-file";
+import type { WeatherProvider } from "./types";
+import { ApiError } from "../../errors/api";
+import { ConfigError } from "../../errors/config";
+import { ErrorCode } from "../../errors/base";
+import type { ModelForecast, ModelName } from "../../types/models";
+import { latitude, longitude, timezoneId } from "../../types/location";
+import type { Location, Coordinates } from "../../types/location";
+
+/**
+ * Path to a recorded fixture
+ */
+function fixturePath(name: string): string {
+  return fileURLToPath(new URL(`./fixtures/${name}`, import.meta.url));
+}
+
+/**
+ * Load a recorded fixture as JSON
+ */
+function loadFixture<T>(name: string): T {
+  return JSON.parse(readFileSync(fixturePath(name), "utf-8")) as T;
+}
+
+/**
+ * Create a mock location for testing
+ */
+function createMockLocation(lat: number, lon: number, name = "Test"): Location {
+  return {
+    query: name,
+    resolved: {
+      name,
+      coordinates: { latitude: latitude(lat), longitude: longitude(lon) },
+      country: "Test",
+      countryCode: "XX",
+      timezone: timezoneId("UTC"),
+    },
+  };
+}
+
+/**
+ * Helper to create a mock fetch function
+ */
+function createMockFetch(
+  handler: (url: string | URL | Request, init?: RequestInit) => Promise<Response>
+): typeof globalThis.fetch {
+  const mockFn = mock(handler) as unknown as typeof globalThis.fetch;
+  // Add preconnect method to satisfy fetch type
+  return Object.assign(mockFn, { preconnect: () => {} });
+}
+
+/**
+ * Serve recorded fixtures by URL
+ */
+function serveFixtures(routes: Record<string, string>): string[] {
+  const requests: string[] = [];
+  globalThis.fetch = createMockFetch((url, init) => {
+    const href = url instanceof Request ? url.url : url.toString();
+    requests.push(`${href} ${new Headers(init?.headers).get("User-Agent") ?? ""}`);
+
+    const match = Object.entries(routes).find(([prefix]) => href.startsWith(prefix));
+    if (!match) {
+      return Promise.resolve(new Response("", { status: 404, statusText: "Not Found" }));
+    }
+    return Promise.resolve(new Response(readFileSync(fixturePath(match[1]), "utf-8")));
+  });
+  return requests;
+}
+
+/**
+ * Invariants every provider's forecast must satisfy
+ */
+function expectWellFormedForecast(forecast: ModelForecast, model: ModelName): void {
+  expect(forecast.model).toBe(model);
+  expect(forecast.hourly.length).toBeGreaterThan(0);
+  expect(forecast.daily.length).toBeGreaterThan(0);
+  expect(forecast.validFrom).toEqual(forecast.hourly[0].timestamp);
+  expect(forecast.validTo).toEqual(forecast.hourly[forecast.hourly.length - 1].timestamp);
+
+  for (let i = 1; i < forecast.hourly.length; i++) {
+    expect(forecast.hourly[i].timestamp.getTime()).toBeGreaterThan(
+      forecast.hourly[i - 1].timestamp.getTime()
+    );
+  }
+
+  for (const { metrics } of forecast.hourly) {
+    expect(Number.isFinite(metrics.temperature)).toBe(true);
+    expect(metrics.humidity).toBeGreaterThanOrEqual(0);
+    expect(metrics.humidity).toBeLessThanOrEqual(100);
+    expect(metrics.windDirection).toBeGreaterThanOrEqual(0);
+    expect(metrics.windDirection).toBeLessThan(360);
+    expect(metrics.precipitation).toBeGreaterThanOrEqual(0);
+    expect(metrics.precipitationProbability).toBeGreaterThanOrEqual(0);
+    expect(metrics.precipitationProbability).toBeLessThanOrEqual(100);
+  }
+
+  const hourCount = forecast.daily.reduce((sum, day) => sum + day.hourly.length, 0);
+  expect(hourCount).toBe(forecast.hourly.length);
+  for (const day of forecast.daily) {
+    expect(day.temperature.min).toBeLessThanOrEqual(day.temperature.max);
+  }
+}
+
+interface ProviderCase {
+  name: string;
+  model: ModelName;
+  location: Location;
+  routes: Record<string, string>;
+  create: () => WeatherProvider;
+}
+
+const PROVIDER_CASES: ProviderCase[] = [
+  {
+    name: "NWS",
+    model: "nws",
+    location: createMockLocation(39.7456, -97.0892, "Topeka"),
+    routes: {
+      "https://api.weather.gov/points/": "nws-points.json",
+      "https://api.weather.gov/gridpoints/": "nws-gridpoints.json",
+    },
+    create: () => createNwsProvider({ userAgent: "contract-test" }),
+  },
+  {
+    name: "MET Norway",
+    model: "metno",
+    location: createMockLocation(59.9139, 10.7522, "Oslo"),
+    routes: { "https://api.met.no/": "metno-compact.json" },
+    create: () => createMetNoProvider({ userAgent: "contract-test" }),
+  },
+  {
+    name: "local file",
+    model: "local",
+    location: createMockLocation(51.5, -0.12, "London"),
+    routes: {},
+    create: () => createLocalFileProvider({ path: fixturePath("local-forecast.json") }),
+  },
+];
+
+describe("provider contract", () => {
+  let originalFetch: typeof globalThis.fetch;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  for (const testCase of PROVIDER_CASES) {
+    describe(testCase.name, () => {
+      it("should declare its model in MODEL_INFO terms", () => {
+        expect(testCase.create().models).toContain(testCase.model);
+      });
+
+      it("should produce a well-formed forecast from recorded data", async () => {
+        serveFixtures(testCase.routes);
+        const provider = testCase.create();
+
+        const forecast = await provider.fetchForecast(testCase.model, testCase.location);
+
+        expectWellFormedForecast(forecast, testCase.model);
+        expect(forecast.coordinates).toEqual(testCase.location.resolved.coordinates);
+      });
+
+      it("should reject models it does not serve", async () => {
+        const error = await testCase
+          .create()
+          .fetchForecast("ecmwf", testCase.location)
+          .catch((e: unknown) => e);
+
+        expect(error).toBeInstanceOf(ApiError);
+        expect((error as ApiError).code).toBe(ErrorCode.API_UNSUPPORTED);
+      });
+    });
+  }
+});
+
+describe("NWS provider", () => {
+  let originalFetch: typeof globalThis.fetch;
+  const coordinates: Coordinates = { latitude: latitude(39.7456), longitude: longitude(-97.0892) };
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it("should parse ISO 8601 durations into hours", () => {
+    expect(parseDurationHours("PT1H")).toBe(1);
+    expect(parseDurationHours("PT6H")).toBe(6);
+    expect(parseDurationHours("P1DT6H")).toBe(30);
+    expect(parseDurationHours("P2D")).toBe(48);
+    expect(() => parseDurationHours("6 hours")).toThrow(RangeError);
+  });
+
+  it("should expand gridpoint intervals to hourly values", () => {
+    const forecast = parseNwsGridpoints(
+      loadFixture<NwsGridpointsResponse>("nws-gridpoints.json"),
+      coordinates
+    );
+
+    expect(forecast.hourly.length).toBe(6);
+    expect(forecast.hourly[0].timestamp.toISOString()).toBe("2024-01-15T20:00:00.000Z");
+    expect(forecast.hourly[1].metrics.temperature as number).toBe(5);
+    expect(forecast.hourly[2].metrics.temperature).toBeCloseTo(4.44, 2);
+  });
+
+  it("should convert units and split accumulated precipitation", () => {
+    const forecast = parseNwsGridpoints(
+      loadFixture<NwsGridpointsResponse>("nws-gridpoints.json"),
+      coordinates
+    );
+    const first = forecast.hourly[0].metrics;
+
+    expect(first.windSpeed).toBeCloseTo(5, 5);
+    expect(first.windGust!).toBeCloseTo(10, 5);
+    expect(first.precipitation).toBeCloseTo(0.5, 5);
+    expect(first.weatherCode as number).toBe(61);
+    expect(forecast.hourly[4].metrics.precipitation as number).toBe(0);
+    expect(forecast.daily.map((d) => d.date.toISOString().split("T")[0])).toEqual([
+      "2024-01-15",
+      "2024-01-16",
+    ]);
+    expect(forecast.daily[0].precipitation.total).toBeCloseTo(2, 5);
+  });
+
+  it("should resolve the grid via /points and send a User-Agent", async () => {
+    const requests = serveFixtures({
+      "https://api.weather.gov/points/": "nws-points.json",
+      "https://api.weather.gov/gridpoints/": "nws-gridpoints.json",
+    });
+
+    await createNwsProvider({ userAgent: "my-app (me@example.com)" }).fetchForecast(
+      "nws",
+      createMockLocation(39.7456, -97.0892)
+    );
+
+    expect(requests).toEqual([
+      "https://api.weather.gov/points/39.7456,-97.0892 my-app (me@example.com)",
+      "https://api.weather.gov/gridpoints/TOP/32,81 my-app (me@example.com)",
+    ]);
+  });
+
+  it("should only cover US locations", () => {
+    const provider = createNwsProvider();
+
+    expect(provider.supports!(coordinates)).toBe(true);
+    expect(provider.supports!({ latitude: latitude(61.2), longitude: longitude(-149.9) })).toBe(
+      true
+    );
+    expect(provider.supports!({ latitude: latitude(51.5), longitude: longitude(-0.12) })).toBe(
+      false
+    );
+  });
+
+  it("should reject gridpoints without temperature data", () => {
+    expect(() => parseNwsGridpoints({ properties: {} }, coordinates)).toThrow(ApiError);
+  });
+});
+
+describe("MET Norway provider", () => {
+  const coordinates: Coordinates = { latitude: latitude(59.9139), longitude: longitude(10.7522) };
+
+  it("should map symbol codes to WMO weather codes", () => {
+    expect(symbolToWeatherCode("clearsky_night")).toBe(0);
+    expect(symbolToWeatherCode("partlycloudy_polartwilight")).toBe(2);
+    expect(symbolToWeatherCode("heavysleetshowers_day")).toBe(67);
+    expect(symbolToWeatherCode("lightrainandthunder")).toBe(95);
+    expect(symbolToWeatherCode("unknown")).toBeUndefined();
+  });
+
+  it("should expand 6-hour steps to hourly values", () => {
+    const forecast = parseMetNoForecast(
+      loadFixture<MetNoResponse>("metno-compact.json"),
+      coordinates
+    );
+
+    expect(forecast.hourly.length).toBe(9);
+    expect(forecast.hourly[0].metrics.weatherCode as number).toBe(2);
+    expect(forecast.hourly[1].metrics.precipitation).toBeCloseTo(0.4, 5);
+    expect(forecast.hourly[2].metrics.precipitation).toBeCloseTo(0.5, 5);
+    expect(forecast.hourly[7].timestamp.toISOString()).toBe("2024-01-15T19:00:00.000Z");
+    expect(forecast.hourly[7].metrics.weatherCode as number).toBe(95);
+    expect(forecast.daily[0].precipitation.total).toBeCloseTo(3.4, 5);
+  });
+
+  it("should truncate to the requested forecast days", () => {
+    const forecast = parseMetNoForecast(
+      loadFixture<MetNoResponse>("metno-compact.json"),
+      coordinates,
+      0
+    );
+
+    expect(forecast.hourly.length).toBe(0);
+  });
+
+  it("should reject responses without a timeseries", () => {
+    expect(() => parseMetNoForecast({ properties: {} }, coordinates)).toThrow(ApiError);
+  });
+});
+
+describe("local file provider", () => {
+  it("should sort hours and derive missing weather codes", async () => {
+    const forecast = await createLocalFileProvider({
+      path: fixturePath("local-forecast.json"),
+    }).fetchForecast("local", createMockLocation(51.5, -0.12));
+
+    expect(forecast.hourly.map((h) => h.metrics.weatherCode as number)).toEqual([2, 63, 61]);
+    expect(forecast.hourly[2].metrics.feelsLike as number).toBe(1.5);
+    expect(forecast.hourly[2].metrics.pressure as number).toBe(1013);
+  });
+
+  it("should read the extended metrics the file provides", async () => {
+    const forecast = await createLocalFileProvider({
+      path: fixturePath("local-forecast.json"),
+    }).fetchForecast("local", createMockLocation(51.5, -0.12));
+
+    expect(forecast.hourly[0].metrics.dewPoint as number).toBe(3);
+    expect(forecast.hourly[2].metrics.dewPoint).toBeUndefined();
+    expect(Number(forecast.daily[0].dewPoint?.min)).toBe(2.5);
+    expect(Number(forecast.daily[0].dewPoint?.max)).toBe(3);
+    expect(forecast.daily[0].shortwaveRadiation).toEqual({ total: 1.08 });
+    expect(forecast.daily[0].cape).toBeUndefined();
+  });
+
+  it("should refuse locations far from the file's point", async () => {
+    const error = await createLocalFileProvider({ path: fixturePath("local-forecast.json") })
+      .fetchForecast("local", createMockLocation(40.7, -74))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).code).toBe(ErrorCode.API_UNSUPPORTED);
+  });
+
+  it("should report a missing file as a configuration error", async () => {
+    const error = await createLocalFileProvider({ path: fixturePath("missing.json") })
+      .fetchForecast("local", createMockLocation(51.5, -0.12))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ConfigError);
+  });
+
+  it("should reject files that do not match the schema", async () => {
+    const error = await createLocalFileProvider({ path: fixturePath("nws-points.json") })
+      .fetchForecast("local", createMockLocation(51.5, -0.12))
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect((error as ApiError).code).toBe(ErrorCode.API_INVALID_RESPONSE);
+  });
+});
@@ -0,0 +1,295 @@
+/**
+ * Helpers for providers that only supply hourly data.
+ * Builds daily summaries and WMO weather codes the way Open-Meteo reports them.
+ */
+
+import type { ModelName, ModelForecast } from "../../types/models";
+import type { Coordinates } from "../../types/location";
+import type {
+  HourlyForecast,
+  DailyForecast,
+  DailyMetricName,
+  ExtendedMetricName,
+  HourlyMetricName,
+  WeatherMetrics,
+} from "../../types/weather";
+import {
+  EXTENDED_METRICS,
+  celsius,
+  millimeters,
+  metersPerSecond,
+  windDirection,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  weatherCode,
+  hasMetric,
+} from "../../types/weather";
+
+/**
+ * Reads optional source values, substituting a placeholder for each absent
+ * value and recording which metric it was
+ */
+export interface MissingTracker<M extends string> {
+  readonly missing: readonly M[];
+  read(value: number | null | undefined, metric: M, placeholder?: number): number;
+}
+
+/**
+ * Create a tracker for one hour's or day's values
+ */
+export function trackMissing<M extends string>(): MissingTracker<M> {
+  const missing: M[] = [];
+  return {
+    missing,
+    read(value, metric, placeholder = 0) {
+      if (value === null || value === undefined) {
+        if (!missing.includes(metric)) missing.push(metric);
+        return placeholder;
+      }
+      return value;
+    },
+  };
+}
+
+/**
+ * Extended metric values as a source reports them (null or absent when not
+ * provided), in the units of WeatherMetrics
+ */
+export type RawExtendedMetrics = {
+  readonly [M in ExtendedMetricName]?: number | null;
+};
+
+/**
+ * Keep the extended metrics a source provided, leaving the rest out
+ */
+export function readExtendedMetrics(
+  raw: RawExtendedMetrics
+): Pick<WeatherMetrics, ExtendedMetricName> {
+  const metrics: { -readonly [M in ExtendedMetricName]?: number } = {};
+  for (const metric of EXTENDED_METRICS) {
+    const value = raw[metric];
+    if (value !== null && value !== undefined) {
+      metrics[metric] = value;
+    }
+  }
+  return metrics as Pick<WeatherMetrics, ExtendedMetricName>;
+}
+
+/**
+ * Derive a WMO weather code from precipitation, temperature and cloud cover
+ * for sources that do not report one
+ */
+export function deriveWeatherCode(
+  precipitationMm: number,
+  temperatureC: number,
+  cloudCoverPercent: number
+): number {
+  if (precipitationMm >= 0.1) {
+    const snow = temperatureC <= 0;
+    if (precipitationMm >= 4) return snow ? 75 : 65;
+    if (precipitationMm >= 1) return snow ? 73 : 63;
+    return snow ? 71 : 61;
+  }
+
+  if (cloudCoverPercent >= 88) return 3;
+  if (cloudCoverPercent >= 50) return 2;
+  if (cloudCoverPercent >= 13) return 1;
+  return 0;
+}
+
+/**
+ * Keep only hours within the first `days` days of the forecast
+ */
+export function limitToForecastDays(
+  hourly: readonly HourlyForecast[],
+  days: number
+): HourlyForecast[] {
+  if (hourly.length === 0) return [];
+
+  const cutoff = hourly[0].timestamp.getTime() + days * 24 * 60 * 60 * 1000;
+  return hourly.filter((h) => h.timestamp.getTime() < cutoff);
+}
+
+/**
+ * Average wind direction in degrees, weighted by speed
+ */
+function dominantDirection(hours: readonly HourlyForecast[]): number {
+  let x = 0;
+  let y = 0;
+  for (const h of hours) {
+    const radians = ((h.metrics.windDirection as number) * Math.PI) / 180;
+    const speed = hasMetric(h.metrics, "windSpeed") ? (h.metrics.windSpeed as number) || 1 : 1;
+    x += Math.sin(radians) * speed;
+    y += Math.cos(radians) * speed;
+  }
+  return (Math.atan2(x, y) * 180) / Math.PI;
+}
+
+/**
+ * Minimum, maximum, sum and mean of hourly values, or a placeholder when
+ * every hour is missing the metric
+ */
+const minOf = (values: readonly number[], placeholder = 0): number =>
+  values.length > 0 ? Math.min(...values) : placeholder;
+const maxOf = (values: readonly number[], placeholder = 0): number =>
+  values.length > 0 ? Math.max(...values) : placeholder;
+const sumOf = (values: readonly number[]): number => values.reduce((a, b) => a + b, 0);
+const meanOf = (values: readonly number[], placeholder = 0): number =>
+  values.length > 0 ? sumOf(values) / values.length : placeholder;
+
+/**
+ * Daily summaries of the extended metrics the hours provide. Totals given
+ * by the source (e.g. a daily snowfall sum) replace the hourly sums.
+ */
+export function summarizeExtendedMetrics(
+  hours: readonly HourlyForecast[],
+  totals: { readonly snowfall?: number | null; readonly shortwaveRadiation?: number | null } = {}
+): Pick<DailyForecast, ExtendedMetricName> {
+  const pick = (metric: ExtendedMetricName): number[] =>
+    hours.flatMap((h) => {
+      const value = h.metrics[metric];
+      return value === undefined ? [] : [value];
+    });
+
+  const dewPoints = pick("dewPoint");
+  const snowfall = pick("snowfall");
+  const snowDepths = pick("snowDepth");
+  const freezingLevels = pick("freezingLevelHeight");
+  const capes = pick("cape");
+  const soilTemps = pick("soilTemperature");
+  const soilMoistures = pick("soilMoisture");
+  const radiation = pick("shortwaveRadiation");
+  const snowfallTotal = totals.snowfall ?? (snowfall.length > 0 ? sumOf(snowfall) : undefined);
+  // Hourly W/m² means to a daily MJ/m² total
+  const radiationTotal =
+    totals.shortwaveRadiation ??
+    (radiation.length > 0 ? (sumOf(radiation) * 3600) / 1_000_000 : undefined);
+
+  return {
+    ...(dewPoints.length > 0 && {
+      dewPoint: { min: celsius(minOf(dewPoints)), max: celsius(maxOf(dewPoints)) },
+    }),
+    ...(snowfallTotal !== undefined && { snowfall: { total: snowfallTotal } }),
+    ...(snowDepths.length > 0 && { snowDepth: { max: maxOf(snowDepths) } }),
+    ...(freezingLevels.length > 0 && { freezingLevelHeight: { min: minOf(freezingLevels) } }),
+    ...(capes.length > 0 && { cape: { max: maxOf(capes) } }),
+    ...(soilTemps.length > 0 && {
+      soilTemperature: { min: celsius(minOf(soilTemps)), max: celsius(maxOf(soilTemps)) },
+    }),
+    ...(soilMoistures.length > 0 && { soilMoisture: { avg: meanOf(soilMoistures) } }),
+    ...(radiationTotal !== undefined && { shortwaveRadiation: { total: radiationTotal } }),
+  };
+}
+
+/**
+ * Build daily forecasts from hourly data, grouped by UTC date.
+ * Sunrise and sunset fall back to 06:00/18:00 like the Open-Meteo parser.
+ * Hours missing a metric are skipped; a day with no values for it lists the
+ * metric as missing.
+ */
+export function buildDailyForecasts(hourly: readonly HourlyForecast[]): DailyForecast[] {
+  const days = new Map<string, HourlyForecast[]>();
+  for (const hour of hourly) {
+    const key = hour.timestamp.toISOString().split("T")[0];
+    const existing = days.get(key) ?? [];
+    existing.push(hour);
+    days.set(key, existing);
+  }
+
+  const daily: DailyForecast[] = [];
+  for (const [key, hours] of days) {
+    const date = new Date(key);
+    const missing: DailyMetricName[] = [];
+    const pick = (metric: HourlyMetricName, ...dailyMetrics: DailyMetricName[]): number[] => {
+      const values = hours
+        .filter((h) => hasMetric(h.metrics, metric))
+        .map((h) => h.metrics[metric] as number);
+      if (values.length === 0) missing.push(...dailyMetrics);
+      return values;
+    };
+
+    const temps = pick("temperature", "temperatureMax", "temperatureMin");
+    const humidities = pick("humidity", "humidity");
+    const pressures = pick("pressure", "pressure");
+    const precip = pick("precipitation", "precipitation", "precipitationHours");
+    const precipProb = pick("precipitationProbability", "precipitationProbability");
+    const winds = pick("windSpeed", "windSpeed");
+    const clouds = pick("cloudCover", "cloudCover");
+    const uv = pick("uvIndex", "uvIndex");
+    const codes = pick("weatherCode", "weatherCode");
+    const directionHours = hours.filter((h) => hasMetric(h.metrics, "windDirection"));
+    if (directionHours.length === 0) missing.push("windDirection");
+
+    daily.push({
+      date,
+      temperature: { min: celsius(minOf(temps)), max: celsius(maxOf(temps)) },
+      humidity: { min: humidity(minOf(humidities)), max: humidity(maxOf(humidities)) },
+      pressure: {
+        min: pressure(minOf(pressures, 1013)),
+        max: pressure(maxOf(pressures, 1013)),
+      },
+      precipitation: {
+        total: millimeters(sumOf(precip)),
+        probability: maxOf(precipProb),
+        hours: precip.filter((p) => p >= 0.1).length,
+      },
+      wind: {
+        avgSpeed: metersPerSecond(meanOf(winds)),
+        maxSpeed: metersPerSecond(maxOf(winds)),
+        dominantDirection: windDirection(dominantDirection(directionHours)),
+      },
+      cloudCover: {
+        avg: cloudCover(meanOf(clouds)),
+        max: cloudCover(maxOf(clouds)),
+      },
+      uvIndex: { max: uvIndex(maxOf(uv)) },
+      sun: {
+        sunrise: new Date(date.getTime() + 6 * 60 * 60 * 1000),
+        sunset: new Date(date.getTime() + 18 * 60 * 60 * 1000),
+        daylightHours: 12,
+      },
+      // Most severe code of the day, as Open-Meteo reports daily codes
+      weatherCode: weatherCode(maxOf(codes)),
+      hourly: hours,
+      ...summarizeExtendedMetrics(hours),
+      ...(missing.length > 0 && { missing }),
+    });
+  }
+
+  return daily.sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Parse a provider's forecast update time, ignoring absent or invalid values
+ */
+export function parseRunInitTime(value: string | undefined): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Assemble a ModelForecast from sorted hourly data, deriving daily summaries.
+ * `runInitTime` is the provider-reported time of the run, when known.
+ */
+export function toModelForecast(
+  model: ModelName,
+  coordinates: Coordinates,
+  hourly: HourlyForecast[],
+  runInitTime?: Date
+): ModelForecast {
+  const now = new Date();
+
+  return {
+    model,
+    coordinates,
+    generatedAt: now,
+    ...(runInitTime && { runInitTime, runInitSource: "provider" as const }),
+    validFrom: hourly.length > 0 ? hourly[0].timestamp : now,
+    validTo: hourly.length > 0 ? hourly[hourly.length - 1].timestamp : now,
+    hourly,
+    daily: buildDailyForecasts(hourly),
+  };
+}
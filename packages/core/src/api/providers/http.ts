@@ -0,0 +1,62 @@
+/**
+ * HTTP helper for weather providers.
+ * Maps network failures to ApiError the same way the Open-Meteo client does.
+ */
+
+import type { ModelName } from "../../types/models";
+import { ApiError } from "../../errors/api";
+import { parseRetryAfter } from "../open-meteo";
+
+/**
+ * Default User-Agent for providers that require one
+ */
+export const DEFAULT_USER_AGENT = "weather-oracle (https://github.com/blueman82/weather-oracle)";
+
+/**
+ * Default request timeout in milliseconds
+ */
+export const DEFAULT_PROVIDER_TIMEOUT = 30000;
+
+/**
+ * Fetch and decode a JSON document with timeout and error mapping
+ *
+ * @throws ApiError on HTTP errors, timeouts, and network failures
+ */
+export async function fetchProviderJson<T>(
+  url: string,
+  model: ModelName,
+  options: { timeout?: number; headers?: Record<string, string> } = {}
+): Promise<T> {
+  const timeout = options.timeout ?? DEFAULT_PROVIDER_TIMEOUT;
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { Accept: "application/json", ...options.headers },
+    });
+
+    if (!response.ok) {
+      throw ApiError.fromResponse(
+        response.status,
+        response.statusText,
+        url,
+        model,
+        response.status === 429 ? parseRetryAfter(response.headers.get("Retry-After")) : undefined
+      );
+    }
+
+    return (await response.json()) as T;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      throw ApiError.timeout(url, timeout, model);
+    }
+    throw ApiError.unavailable(model, error instanceof Error ? error : undefined);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
@@ -0,0 +1,51 @@
+/**
+ * Weather providers for Weather Oracle.
+ * Exports the provider interface, registry, and built-in providers.
+ */
+
+export type { WeatherProvider, ProviderOptions } from "./types";
+
+export {
+  ProviderRegistry,
+  createProviderRegistry,
+  getDefaultProviderRegistry,
+} from "./registry";
+
+export { DEFAULT_USER_AGENT, fetchProviderJson } from "./http";
+
+export {
+  buildDailyForecasts,
+  deriveWeatherCode,
+  readExtendedMetrics,
+  summarizeExtendedMetrics,
+  type RawExtendedMetrics,
+} from "./derive";
+
+export { createOpenMeteoProvider } from "./open-meteo";
+
+export {
+  createNwsProvider,
+  parseNwsGridpoints,
+  parseDurationHours,
+  NWS_BASE_URL,
+  type NwsPointsResponse,
+  type NwsGridpointsResponse,
+  type NwsLayer,
+} from "./nws";
+
+export {
+  createMetNoProvider,
+  parseMetNoForecast,
+  symbolToWeatherCode,
+  METNO_FORECAST_URL,
+  type MetNoResponse,
+  type MetNoTimestep,
+} from "./metno";
+
+export {
+  createLocalFileProvider,
+  parseLocalForecast,
+  localForecastFileSchema,
+  type LocalForecastFile,
+  type LocalFileProviderOptions,
+} from "./local-file";
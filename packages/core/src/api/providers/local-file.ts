@@ -0,0 +1,203 @@
+/**
+ * Local file provider.
+ *
+ * Reads hourly forecast data from a JSON file, e.g. one exported from GRIB
+ * output with wgrib2 or cfgrib. Units follow the internal conventions:
+ * °C, %, hPa, m/s, mm, and meters for visibility.
+ */
+
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import type { ModelName, ModelForecast } from "../../types/models";
+import type { Location, Coordinates } from "../../types/location";
+import type { HourlyForecast, HourlyMetricName } from "../../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  windDirection,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+} from "../../types/weather";
+import { ApiError } from "../../errors/api";
+import { ConfigError } from "../../errors/config";
+import type { ForecastOptions } from "../open-meteo";
+import type { WeatherProvider } from "./types";
+import {
+  deriveWeatherCode,
+  limitToForecastDays,
+  readExtendedMetrics,
+  toModelForecast,
+  trackMissing,
+} from "./derive";
+
+/**
+ * Maximum distance in degrees between the file's point and the requested location
+ */
+const MAX_COORDINATE_OFFSET = 0.5;
+
+/**
+ * Schema for one hour of local forecast data
+ */
+const localHourSchema = z.object({
+  time: z.string().refine((value) => !Number.isNaN(Date.parse(value)), "invalid timestamp"),
+  temperature: z.number(),
+  feelsLike: z.number().optional(),
+  humidity: z.number().min(0).max(100).optional(),
+  pressure: z.number().min(0).optional(),
+  windSpeed: z.number().min(0).optional(),
+  windDirection: z.number().optional(),
+  windGust: z.number().min(0).optional(),
+  precipitation: z.number().min(0).optional(),
+  precipitationProbability: z.number().min(0).max(100).optional(),
+  cloudCover: z.number().min(0).max(100).optional(),
+  visibility: z.number().min(0).optional(),
+  uvIndex: z.number().min(0).optional(),
+  weatherCode: z.number().int().optional(),
+  dewPoint: z.number().optional(),
+  snowfall: z.number().min(0).optional(),
+  snowDepth: z.number().min(0).optional(),
+  freezingLevelHeight: z.number().optional(),
+  cape: z.number().min(0).optional(),
+  soilTemperature: z.number().optional(),
+  soilMoisture: z.number().min(0).optional(),
+  shortwaveRadiation: z.number().min(0).optional(),
+});
+
+/**
+ * Schema for a local forecast file
+ */
+export const localForecastFileSchema = z.object({
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
+  hourly: z.array(localHourSchema).min(1),
+});
+
+export type LocalForecastFile = z.infer<typeof localForecastFileSchema>;
+
+/**
+ * Options for the local file provider
+ */
+export interface LocalFileProviderOptions {
+  /**
+   * Path to the forecast JSON file
+   */
+  path: string;
+}
+
+/**
+ * Parse local forecast file contents into a ModelForecast
+ *
+ * @throws ApiError if the data does not match the file schema
+ */
+export function parseLocalForecast(
+  data: unknown,
+  coordinates: Coordinates,
+  source: string,
+  forecastDays = 7
+): ModelForecast {
+  const result = localForecastFileSchema.safeParse(data);
+  if (!result.success) {
+    const issue = result.error.issues[0];
+    throw ApiError.invalidResponse(source, `${issue.path.join(".")}: ${issue.message}`, "local");
+  }
+
+  const hourly: HourlyForecast[] = result.data.hourly
+    .map((hour) => {
+      const values = trackMissing<HourlyMetricName>();
+      const precip = values.read(hour.precipitation, "precipitation");
+      const clouds = values.read(hour.cloudCover, "cloudCover");
+      const gust = values.read(hour.windGust, "windGust");
+
+      return {
+        timestamp: new Date(hour.time),
+        metrics: {
+          temperature: celsius(hour.temperature),
+          feelsLike: celsius(hour.feelsLike ?? hour.temperature),
+          humidity: humidity(values.read(hour.humidity, "humidity")),
+          pressure: pressure(values.read(hour.pressure, "pressure", 1013)),
+          windSpeed: metersPerSecond(values.read(hour.windSpeed, "windSpeed")),
+          windDirection: windDirection(values.read(hour.windDirection, "windDirection")),
+          windGust: values.missing.includes("windGust") ? undefined : metersPerSecond(gust),
+          precipitation: millimeters(precip),
+          precipitationProbability: values.read(
+            hour.precipitationProbability,
+            "precipitationProbability"
+          ),
+          cloudCover: cloudCover(clouds),
+          visibility: visibility(values.read(hour.visibility, "visibility", 10000)),
+          uvIndex: uvIndex(values.read(hour.uvIndex, "uvIndex")),
+          weatherCode: weatherCode(
+            hour.weatherCode ?? deriveWeatherCode(precip, hour.temperature, clouds)
+          ),
+          ...readExtendedMetrics(hour),
+          ...(values.missing.length > 0 && { missing: values.missing }),
+        },
+      };
+    })
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  return toModelForecast("local", coordinates, limitToForecastDays(hourly, forecastDays));
+}
+
+/**
+ * Create a provider serving the "local" model from a forecast file
+ */
+export function createLocalFileProvider(options: LocalFileProviderOptions): WeatherProvider {
+  return {
+    id: "local",
+    displayName: "Local forecast file",
+    models: ["local"],
+
+    async fetchForecast(
+      model: ModelName,
+      location: Location,
+      forecastOptions?: ForecastOptions
+    ): Promise<ModelForecast> {
+      if (model !== "local") {
+        throw ApiError.unsupported(model, "not served by the local file provider");
+      }
+
+      let content: string;
+      try {
+        content = await readFile(options.path, "utf-8");
+      } catch (error) {
+        throw ConfigError.invalid(
+          "providers.localFile",
+          `cannot read ${options.path}: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      let data: unknown;
+      try {
+        data = JSON.parse(content);
+      } catch (error) {
+        throw ApiError.invalidResponse(
+          options.path,
+          error instanceof Error ? error.message : String(error),
+          "local"
+        );
+      }
+
+      const { coordinates } = location.resolved;
+      const file = data as Partial<LocalForecastFile> | null;
+      if (
+        typeof file?.latitude === "number" &&
+        typeof file.longitude === "number" &&
+        (Math.abs(file.latitude - coordinates.latitude) > MAX_COORDINATE_OFFSET ||
+          Math.abs(file.longitude - coordinates.longitude) > MAX_COORDINATE_OFFSET)
+      ) {
+        throw ApiError.unsupported(
+          model,
+          `the local file covers ${file.latitude}, ${file.longitude}`
+        );
+      }
+
+      return parseLocalForecast(data, coordinates, options.path, forecastOptions?.forecastDays);
+    },
+  };
+}
@@ -0,0 +1,226 @@
+/**
+ * MET Norway provider (api.met.no locationforecast 2.0, compact).
+ *
+ * Global coverage; the timeseries is hourly for the first days and
+ * 6-hourly after that, so coarser steps are expanded to hourly values.
+ */
+
+import type { ModelName, ModelForecast } from "../../types/models";
+import type { Location, Coordinates } from "../../types/location";
+import type { HourlyForecast, HourlyMetricName, WeatherMetrics } from "../../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  windDirection,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+} from "../../types/weather";
+import { ApiError } from "../../errors/api";
+import type { ForecastOptions } from "../open-meteo";
+import type { WeatherProvider, ProviderOptions } from "./types";
+import { DEFAULT_USER_AGENT, fetchProviderJson } from "./http";
+import {
+  deriveWeatherCode,
+  limitToForecastDays,
+  parseRunInitTime,
+  toModelForecast,
+  trackMissing,
+} from "./derive";
+
+/**
+ * MET Norway locationforecast endpoint
+ */
+export const METNO_FORECAST_URL = "https://api.met.no/weatherapi/locationforecast/2.0/compact";
+
+/**
+ * Forecast summary for a following period
+ */
+export interface MetNoPeriod {
+  summary?: { symbol_code?: string };
+  details?: { precipitation_amount?: number; probability_of_precipitation?: number };
+}
+
+/**
+ * A single timeseries step
+ */
+export interface MetNoTimestep {
+  time: string;
+  data: {
+    instant: {
+      details: {
+        air_temperature?: number;
+        air_pressure_at_sea_level?: number;
+        cloud_area_fraction?: number;
+        relative_humidity?: number;
+        wind_from_direction?: number;
+        wind_speed?: number;
+        wind_speed_of_gust?: number;
+        ultraviolet_index_clear_sky?: number;
+      };
+    };
+    next_1_hours?: MetNoPeriod;
+    next_6_hours?: MetNoPeriod;
+    next_12_hours?: MetNoPeriod;
+  };
+}
+
+/**
+ * Locationforecast response (GeoJSON feature)
+ */
+export interface MetNoResponse {
+  properties?: {
+    meta?: { updated_at?: string };
+    timeseries?: MetNoTimestep[];
+  };
+}
+
+/**
+ * MET Norway symbol codes (without _day/_night/_polartwilight) to WMO codes
+ */
+const SYMBOL_WEATHER_CODES: Record<string, number> = {
+  clearsky: 0,
+  fair: 1,
+  partlycloudy: 2,
+  cloudy: 3,
+  fog: 45,
+  lightrain: 61,
+  rain: 63,
+  heavyrain: 65,
+  lightrainshowers: 80,
+  rainshowers: 81,
+  heavyrainshowers: 82,
+  lightsleet: 66,
+  sleet: 66,
+  heavysleet: 67,
+  lightsleetshowers: 66,
+  sleetshowers: 66,
+  heavysleetshowers: 67,
+  lightsnow: 71,
+  snow: 73,
+  heavysnow: 75,
+  lightsnowshowers: 85,
+  snowshowers: 85,
+  heavysnowshowers: 86,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Map a MET Norway symbol code to a WMO weather code
+ */
+export function symbolToWeatherCode(symbol: string): number | undefined {
+  const base = symbol.replace(/_(day|night|polartwilight)$/, "");
+  if (base.includes("thunder")) return 95;
+  return SYMBOL_WEATHER_CODES[base];
+}
+
+/**
+ * Parse a locationforecast response into a ModelForecast
+ *
+ * @throws ApiError if the response has no timeseries
+ */
+export function parseMetNoForecast(
+  response: MetNoResponse,
+  coordinates: Coordinates,
+  forecastDays = 7
+): ModelForecast {
+  const timeseries = response.properties?.timeseries ?? [];
+  if (timeseries.length === 0) {
+    throw ApiError.invalidResponse("api.met.no", "forecast contains no timeseries", "metno");
+  }
+
+  const hourly: HourlyForecast[] = [];
+  timeseries.forEach((step, index) => {
+    const start = new Date(step.time).getTime();
+    const next = timeseries[index + 1];
+    // Repeat coarse steps until the next one, capped at the 6-hour period
+    const hours = next
+      ? Math.min(6, Math.max(1, Math.round((new Date(next.time).getTime() - start) / HOUR_MS)))
+      : 1;
+
+    const details = step.data.instant.details;
+    const period = step.data.next_1_hours ?? step.data.next_6_hours ?? step.data.next_12_hours;
+    const periodHours = step.data.next_1_hours ? 1 : step.data.next_6_hours ? 6 : 12;
+    const values = trackMissing<HourlyMetricName>();
+    const precip =
+      values.read(period?.details?.precipitation_amount, "precipitation") / periodHours;
+    const temp = values.read(details.air_temperature, "temperature");
+    const clouds = values.read(details.cloud_area_fraction, "cloudCover");
+    const gust = values.read(details.wind_speed_of_gust, "windGust");
+    const symbol = period?.summary?.symbol_code;
+    const code =
+      (symbol ? symbolToWeatherCode(symbol) : undefined) ??
+      deriveWeatherCode(precip, temp, clouds);
+
+    const metrics: WeatherMetrics = {
+      temperature: celsius(temp),
+      feelsLike: celsius(values.read(details.air_temperature, "feelsLike")),
+      humidity: humidity(values.read(details.relative_humidity, "humidity")),
+      pressure: pressure(values.read(details.air_pressure_at_sea_level, "pressure", 1013)),
+      windSpeed: metersPerSecond(values.read(details.wind_speed, "windSpeed")),
+      windDirection: windDirection(values.read(details.wind_from_direction, "windDirection")),
+      windGust: values.missing.includes("windGust") ? undefined : metersPerSecond(gust),
+      precipitation: millimeters(precip),
+      precipitationProbability: values.read(
+        period?.details?.probability_of_precipitation,
+        "precipitationProbability"
+      ),
+      cloudCover: cloudCover(clouds),
+      // MET Norway does not forecast visibility
+      visibility: visibility(values.read(undefined, "visibility", 10000)),
+      uvIndex: uvIndex(values.read(details.ultraviolet_index_clear_sky, "uvIndex")),
+      weatherCode: weatherCode(code),
+      ...(values.missing.length > 0 && { missing: values.missing }),
+    };
+
+    for (let i = 0; i < hours; i++) {
+      hourly.push({ timestamp: new Date(start + i * HOUR_MS), metrics });
+    }
+  });
+
+  return toModelForecast(
+    "metno",
+    coordinates,
+    limitToForecastDays(hourly, forecastDays),
+    parseRunInitTime(response.properties?.meta?.updated_at)
+  );
+}
+
+/**
+ * Create the MET Norway provider (global coverage)
+ */
+export function createMetNoProvider(options: ProviderOptions = {}): WeatherProvider {
+  const baseUrl = options.baseUrl ?? METNO_FORECAST_URL;
+  const headers = { "User-Agent": options.userAgent ?? DEFAULT_USER_AGENT };
+
+  return {
+    id: "metno",
+    displayName: "MET Norway",
+    models: ["metno"],
+
+    async fetchForecast(
+      model: ModelName,
+      location: Location,
+      forecastOptions?: ForecastOptions
+    ): Promise<ModelForecast> {
+      if (model !== "metno") {
+        throw ApiError.unsupported(model, "not served by the MET Norway provider");
+      }
+
+      // MET Norway asks clients to truncate coordinates to 4 decimals for caching
+      const { coordinates } = location.resolved;
+      const url = `${baseUrl}?lat=${coordinates.latitude.toFixed(4)}&lon=${coordinates.longitude.toFixed(4)}`;
+
+      const response = await fetchProviderJson<MetNoResponse>(url, model, {
+        timeout: forecastOptions?.timeout,
+        headers,
+      });
+      return parseMetNoForecast(response, coordinates, forecastOptions?.forecastDays);
+    },
+  };
+}
@@ -0,0 +1,274 @@
+/**
+ * US National Weather Service provider (api.weather.gov gridpoints).
+ *
+ * Resolves a location to its forecast grid via /points, then expands the
+ * gridpoint layers (values with ISO 8601 validity intervals) into hourly data.
+ */
+
+import type { ModelName, ModelForecast } from "../../types/models";
+import type { Location, Coordinates } from "../../types/location";
+import type { HourlyForecast, HourlyMetricName } from "../../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  windDirection,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+} from "../../types/weather";
+import { ApiError } from "../../errors/api";
+import type { ForecastOptions } from "../open-meteo";
+import type { WeatherProvider, ProviderOptions } from "./types";
+import { DEFAULT_USER_AGENT, fetchProviderJson } from "./http";
+import {
+  deriveWeatherCode,
+  limitToForecastDays,
+  parseRunInitTime,
+  toModelForecast,
+  trackMissing,
+} from "./derive";
+
+/**
+ * NWS API base URL
+ */
+export const NWS_BASE_URL = "https://api.weather.gov";
+
+/**
+ * A gridpoint layer value valid over an interval
+ */
+export interface NwsLayerValue {
+  validTime: string;
+  value: number | null;
+}
+
+/**
+ * A gridpoint layer with its unit of measure
+ */
+export interface NwsLayer {
+  uom?: string;
+  values: NwsLayerValue[];
+}
+
+/**
+ * Response from /points/{lat},{lon}
+ */
+export interface NwsPointsResponse {
+  properties?: {
+    forecastGridData?: string;
+    gridId?: string;
+    gridX?: number;
+    gridY?: number;
+  };
+}
+
+/**
+ * Response from /gridpoints/{office}/{x},{y}
+ */
+export interface NwsGridpointsResponse {
+  properties?: {
+    updateTime?: string;
+    temperature?: NwsLayer;
+    apparentTemperature?: NwsLayer;
+    relativeHumidity?: NwsLayer;
+    windSpeed?: NwsLayer;
+    windDirection?: NwsLayer;
+    windGust?: NwsLayer;
+    probabilityOfPrecipitation?: NwsLayer;
+    quantitativePrecipitation?: NwsLayer;
+    skyCover?: NwsLayer;
+    visibility?: NwsLayer;
+    pressure?: NwsLayer;
+  };
+}
+
+/**
+ * Regions covered by NWS forecast grids: [south, north, west, east]
+ */
+const NWS_COVERAGE: readonly [number, number, number, number][] = [
+  [24, 50, -125, -66], // Contiguous US
+  [51, 72, -180, -129], // Alaska
+  [18, 23, -161, -154], // Hawaii
+  [17.5, 18.6, -67.5, -65], // Puerto Rico
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Parse an ISO 8601 duration such as "PT2H" or "P1DT6H" into whole hours
+ */
+export function parseDurationHours(duration: string): number {
+  const match = duration.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?)?$/);
+  if (!match) {
+    throw new RangeError(`Invalid ISO 8601 duration: ${duration}`);
+  }
+  const [, days, hours, minutes] = match;
+  const total =
+    Number(days ?? 0) * 24 + Number(hours ?? 0) + Math.ceil(Number(minutes ?? 0) / 60);
+  return Math.max(1, total);
+}
+
+/**
+ * Convert a layer value to the internal unit for its unit of measure
+ */
+function convertUnit(value: number, uom: string | undefined): number {
+  switch (uom) {
+    case "wmoUnit:degF":
+      return ((value - 32) * 5) / 9;
+    case "wmoUnit:km_h-1":
+      return value / 3.6;
+    case "wmoUnit:kn":
+      return value * 0.514444;
+    case "wmoUnit:Pa":
+      return value / 100;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Expand a layer into hourly values keyed by epoch milliseconds.
+ * Accumulated layers (precipitation) are split evenly across their interval.
+ */
+function expandLayer(layer: NwsLayer | undefined, accumulated = false): Map<number, number> {
+  const hourly = new Map<number, number>();
+  if (!layer) return hourly;
+
+  for (const entry of layer.values) {
+    if (entry.value === null) continue;
+
+    const [start, duration] = entry.validTime.split("/");
+    const startMs = Math.floor(new Date(start).getTime() / HOUR_MS) * HOUR_MS;
+    if (Number.isNaN(startMs) || !duration) continue;
+
+    const hours = parseDurationHours(duration);
+    const value = convertUnit(entry.value, layer.uom);
+    for (let i = 0; i < hours; i++) {
+      hourly.set(startMs + i * HOUR_MS, accumulated ? value / hours : value);
+    }
+  }
+
+  return hourly;
+}
+
+/**
+ * Parse a gridpoints response into a ModelForecast
+ *
+ * @throws ApiError if the response has no temperature data
+ */
+export function parseNwsGridpoints(
+  response: NwsGridpointsResponse,
+  coordinates: Coordinates,
+  forecastDays = 7
+): ModelForecast {
+  const props = response.properties;
+  const temperature = expandLayer(props?.temperature);
+  if (temperature.size === 0) {
+    throw ApiError.invalidResponse("api.weather.gov", "gridpoints contain no temperature data", "nws");
+  }
+
+  const apparent = expandLayer(props?.apparentTemperature);
+  const rh = expandLayer(props?.relativeHumidity);
+  const wind = expandLayer(props?.windSpeed);
+  const direction = expandLayer(props?.windDirection);
+  const gust = expandLayer(props?.windGust);
+  const pop = expandLayer(props?.probabilityOfPrecipitation);
+  const qpf = expandLayer(props?.quantitativePrecipitation, true);
+  const sky = expandLayer(props?.skyCover);
+  const vis = expandLayer(props?.visibility);
+  const pres = expandLayer(props?.pressure);
+
+  const hourly: HourlyForecast[] = [...temperature.keys()]
+    .sort((a, b) => a - b)
+    .map((time) => {
+      const temp = temperature.get(time)!;
+      const values = trackMissing<HourlyMetricName>();
+      const precip = values.read(qpf.get(time), "precipitation");
+      const clouds = values.read(sky.get(time), "cloudCover");
+      const windGust = values.read(gust.get(time), "windGust");
+
+      return {
+        timestamp: new Date(time),
+        metrics: {
+          temperature: celsius(temp),
+          feelsLike: celsius(apparent.get(time) ?? temp),
+          humidity: humidity(values.read(rh.get(time), "humidity")),
+          pressure: pressure(values.read(pres.get(time), "pressure", 1013)),
+          windSpeed: metersPerSecond(values.read(wind.get(time), "windSpeed")),
+          windDirection: windDirection(values.read(direction.get(time), "windDirection")),
+          windGust: values.missing.includes("windGust") ? undefined : metersPerSecond(windGust),
+          precipitation: millimeters(precip),
+          precipitationProbability: values.read(pop.get(time), "precipitationProbability"),
+          cloudCover: cloudCover(clouds),
+          visibility: visibility(values.read(vis.get(time), "visibility", 10000)),
+          // The gridpoints endpoint has no UV index
+          uvIndex: uvIndex(values.read(undefined, "uvIndex")),
+          weatherCode: weatherCode(deriveWeatherCode(precip, temp, clouds)),
+          ...(values.missing.length > 0 && { missing: values.missing }),
+        },
+      };
+    });
+
+  return toModelForecast(
+    "nws",
+    coordinates,
+    limitToForecastDays(hourly, forecastDays),
+    parseRunInitTime(props?.updateTime)
+  );
+}
+
+/**
+ * Create the NWS provider (United States and territories only)
+ */
+export function createNwsProvider(options: ProviderOptions = {}): WeatherProvider {
+  const baseUrl = options.baseUrl ?? NWS_BASE_URL;
+  const headers = {
+    Accept: "application/geo+json",
+    "User-Agent": options.userAgent ?? DEFAULT_USER_AGENT,
+  };
+
+  return {
+    id: "nws",
+    displayName: "US National Weather Service",
+    models: ["nws"],
+
+    supports(coordinates: Coordinates): boolean {
+      const { latitude: lat, longitude: lon } = coordinates;
+      return NWS_COVERAGE.some(
+        ([south, north, west, east]) => lat >= south && lat <= north && lon >= west && lon <= east
+      );
+    },
+
+    async fetchForecast(
+      model: ModelName,
+      location: Location,
+      forecastOptions?: ForecastOptions
+    ): Promise<ModelForecast> {
+      if (model !== "nws") {
+        throw ApiError.unsupported(model, "not served by the NWS provider");
+      }
+
+      const { coordinates } = location.resolved;
+      const timeout = forecastOptions?.timeout;
+      const pointsUrl = `${baseUrl}/points/${coordinates.latitude.toFixed(4)},${coordinates.longitude.toFixed(4)}`;
+
+      const points = await fetchProviderJson<NwsPointsResponse>(pointsUrl, model, {
+        timeout,
+        headers,
+      });
+      const gridUrl = points.properties?.forecastGridData;
+      if (!gridUrl) {
+        throw ApiError.invalidResponse(pointsUrl, "missing forecastGridData", model);
+      }
+
+      const grid = await fetchProviderJson<NwsGridpointsResponse>(gridUrl, model, {
+        timeout,
+        headers,
+      });
+      return parseNwsGridpoints(grid, coordinates, forecastOptions?.forecastDays);
+    },
+  };
+}
@@ -0,0 +1,33 @@
+/**
+ * Open-Meteo provider wrapping the existing multi-model client.
+ */
+
+import type { ModelName, ModelForecast } from "../../types/models";
+import { OPEN_METEO_MODELS, isOpenMeteoModel } from "../../types/models";
+import type { Location } from "../../types/location";
+import { ApiError } from "../../errors/api";
+import { fetchModelForecast, type ForecastOptions } from "../open-meteo";
+import type { WeatherProvider } from "./types";
+
+/**
+ * Create the Open-Meteo provider (global coverage, all built-in models)
+ */
+export function createOpenMeteoProvider(): WeatherProvider {
+  return {
+    id: "open-meteo",
+    displayName: "Open-Meteo",
+    models: OPEN_METEO_MODELS,
+    historical: true,
+
+    fetchForecast(
+      model: ModelName,
+      location: Location,
+      options?: ForecastOptions
+    ): Promise<ModelForecast> {
+      if (!isOpenMeteoModel(model)) {
+        return Promise.reject(ApiError.unsupported(model, "not an Open-Meteo model"));
+      }
+      return fetchModelForecast(model, location, options);
+    },
+  };
+}
@@ -0,0 +1,152 @@
+/**
+ * Tests for the weather provider registry.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { ProviderRegistry, createProviderRegistry, getDefaultProviderRegistry } from "./registry";
+import type { WeatherProvider } from "./types";
+import { fetchAllModels } from "../multi-model";
+import { ApiError } from "../../errors/api";
+import { ConfigError } from "../../errors/config";
+import { ErrorCode } from "../../errors/base";
+import { OPEN_METEO_MODELS } from "../../types/models";
+import type { ModelForecast, ModelName } from "../../types/models";
+import { latitude, longitude, timezoneId } from "../../types/location";
+import type { Location } from "../../types/location";
+
+const LONDON: Location = {
+  query: "London",
+  resolved: {
+    name: "London",
+    coordinates: { latitude: latitude(51.5), longitude: longitude(-0.12) },
+    country: "United Kingdom",
+    countryCode: "GB",
+    timezone: timezoneId("Europe/London"),
+  },
+};
+
+/**
+ * Create a provider returning empty forecasts for its models
+ */
+function createStubProvider(
+  id: string,
+  models: ModelName[],
+  supports?: WeatherProvider["supports"]
+): WeatherProvider {
+  return {
+    id,
+    displayName: id.toUpperCase(),
+    models,
+    supports,
+    fetchForecast(model: ModelName, location: Location): Promise<ModelForecast> {
+      const now = new Date();
+      return Promise.resolve({
+        model,
+        coordinates: location.resolved.coordinates,
+        generatedAt: now,
+        validFrom: now,
+        validTo: now,
+        hourly: [],
+        daily: [],
+      });
+    },
+  };
+}
+
+describe("ProviderRegistry", () => {
+  it("should resolve providers by id and model", () => {
+    const provider = createStubProvider("stub", ["nws", "metno"]);
+    const registry = new ProviderRegistry().register(provider);
+
+    expect(registry.get("stub")).toBe(provider);
+    expect(registry.getProviderForModel("metno")).toBe(provider);
+    expect(registry.getProviderForModel("ecmwf")).toBeUndefined();
+    expect(registry.list()).toEqual([provider]);
+  });
+
+  it("should reject duplicate ids and models", () => {
+    const registry = new ProviderRegistry().register(createStubProvider("a", ["nws"]));
+
+    expect(() => registry.register(createStubProvider("a", ["metno"]))).toThrow(ConfigError);
+    expect(() => registry.register(createStubProvider("b", ["nws"]))).toThrow(ConfigError);
+    expect(registry.getProviderForModel("metno")).toBeUndefined();
+  });
+
+  it("should unregister a provider and its models", () => {
+    const registry = new ProviderRegistry().register(createStubProvider("a", ["nws"]));
+
+    expect(registry.unregister("a")).toBe(true);
+    expect(registry.unregister("a")).toBe(false);
+    expect(registry.getProviderForModel("nws")).toBeUndefined();
+  });
+
+  it("should filter models by provider coverage", () => {
+    const registry = new ProviderRegistry()
+      .register(createStubProvider("global", ["metno"]))
+      .register(createStubProvider("none", ["nws"], () => false));
+
+    expect(registry.getModels()).toEqual(["metno", "nws"]);
+    expect(registry.getModels(LONDON.resolved.coordinates)).toEqual(["metno"]);
+  });
+});
+
+describe("createProviderRegistry", () => {
+  it("should register the built-in providers", () => {
+    const registry = createProviderRegistry();
+
+    expect(registry.list().map((p) => p.id)).toEqual(["open-meteo", "nws", "metno"]);
+    expect(registry.getModels()).toEqual([...OPEN_METEO_MODELS, "nws", "metno"]);
+  });
+
+  it("should add the local provider when a file is configured", () => {
+    const registry = createProviderRegistry({ localFile: "/tmp/forecast.json" });
+
+    expect(registry.getProviderForModel("local")?.id).toBe("local");
+  });
+
+  it("should share a default registry", () => {
+    expect(getDefaultProviderRegistry()).toBe(getDefaultProviderRegistry());
+  });
+});
+
+describe("fetchAllModels with a registry", () => {
+  it("should fetch models through their providers", async () => {
+    const registry = new ProviderRegistry().register(createStubProvider("stub", ["metno"]));
+
+    const result = await fetchAllModels(LONDON, ["metno"], { registry });
+
+    expect(result.forecasts.map((f) => f.model)).toEqual(["metno"]);
+    expect(result.failures).toEqual([]);
+  });
+
+  it("should report unregistered and out-of-coverage models as failures", async () => {
+    const registry = new ProviderRegistry().register(
+      createStubProvider("us-only", ["nws"], () => false)
+    );
+
+    const result = await fetchAllModels(LONDON, ["nws", "local"], { registry });
+
+    expect(result.forecasts).toEqual([]);
+    expect(result.failures.map((f) => f.model)).toEqual(["nws", "local"]);
+    for (const failure of result.failures) {
+      expect(failure.error).toBeInstanceOf(ApiError);
+      expect((failure.error as ApiError).code).toBe(ErrorCode.API_UNSUPPORTED);
+    }
+    expect(result.failures[0].error.message).toContain("US-ONLY does not cover this location");
+  });
+
+  it("should only ask providers with historical forecasts for past dates", async () => {
+    const registry = new ProviderRegistry()
+      .register({ ...createStubProvider("archive", ["gfs"]), historical: true })
+      .register(createStubProvider("live", ["metno"]));
+
+    const result = await fetchAllModels(LONDON, ["gfs", "metno"], {
+      registry,
+      historical: { startDate: "2024-01-15", endDate: "2024-01-15" },
+    });
+
+    expect(result.forecasts.map((f) => f.model)).toEqual(["gfs"]);
+    expect(result.failures.map((f) => f.model)).toEqual(["metno"]);
+    expect(result.failures[0].error.message).toContain("LIVE has no historical forecasts");
+  });
+});
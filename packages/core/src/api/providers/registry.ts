@@ -0,0 +1,121 @@
+/**
+ * Weather provider registry.
+ * Maps model names to the provider that serves them.
+ */
+
+import type { ModelName } from "../../types/models";
+import type { Coordinates } from "../../types/location";
+import type { ProviderConfig } from "../../config/schema";
+import { ConfigError } from "../../errors/config";
+import type { WeatherProvider } from "./types";
+import { createOpenMeteoProvider } from "./open-meteo";
+import { createNwsProvider } from "./nws";
+import { createMetNoProvider } from "./metno";
+import { createLocalFileProvider } from "./local-file";
+
+/**
+ * Registry of weather providers keyed by id and model
+ */
+export class ProviderRegistry {
+  private readonly providers = new Map<string, WeatherProvider>();
+  private readonly modelProviders = new Map<ModelName, WeatherProvider>();
+
+  /**
+   * Register a provider
+   *
+   * @throws ConfigError if the id or one of its models is already registered
+   */
+  register(provider: WeatherProvider): this {
+    if (this.providers.has(provider.id)) {
+      throw ConfigError.invalid("providers", `provider "${provider.id}" is already registered`);
+    }
+
+    for (const model of provider.models) {
+      const existing = this.modelProviders.get(model);
+      if (existing) {
+        throw ConfigError.invalid(
+          "providers",
+          `model "${model}" is already served by provider "${existing.id}"`
+        );
+      }
+    }
+
+    this.providers.set(provider.id, provider);
+    for (const model of provider.models) {
+      this.modelProviders.set(model, provider);
+    }
+    return this;
+  }
+
+  /**
+   * Remove a provider and its models
+   */
+  unregister(id: string): boolean {
+    const provider = this.providers.get(id);
+    if (!provider) {
+      return false;
+    }
+
+    for (const model of provider.models) {
+      this.modelProviders.delete(model);
+    }
+    return this.providers.delete(id);
+  }
+
+  /**
+   * Get a provider by id
+   */
+  get(id: string): WeatherProvider | undefined {
+    return this.providers.get(id);
+  }
+
+  /**
+   * Get the provider serving a model
+   */
+  getProviderForModel(model: ModelName): WeatherProvider | undefined {
+    return this.modelProviders.get(model);
+  }
+
+  /**
+   * List registered providers in registration order
+   */
+  list(): WeatherProvider[] {
+    return [...this.providers.values()];
+  }
+
+  /**
+   * List models from all providers, optionally only those covering a location
+   */
+  getModels(coordinates?: Coordinates): ModelName[] {
+    return this.list()
+      .filter((provider) => !coordinates || !provider.supports || provider.supports(coordinates))
+      .flatMap((provider) => [...provider.models]);
+  }
+}
+
+/**
+ * Create a registry with the built-in providers.
+ * The local file provider is only registered when a file is configured.
+ */
+export function createProviderRegistry(config: Partial<ProviderConfig> = {}): ProviderRegistry {
+  const registry = new ProviderRegistry()
+    .register(createOpenMeteoProvider())
+    .register(createNwsProvider({ userAgent: config.userAgent }))
+    .register(createMetNoProvider({ userAgent: config.userAgent }));
+
+  if (config.localFile) {
+    registry.register(createLocalFileProvider({ path: config.localFile }));
+  }
+
+  return registry;
+}
+
+let defaultRegistry: ProviderRegistry | undefined;
+
+/**
+ * Get the shared registry with default provider settings
+ */
+export function getDefaultProviderRegistry(): ProviderRegistry {
+  defaultRegistry ??= createProviderRegistry();
+  return defaultRegistry;
+}
@@ -0,0 +1,66 @@
+/**
+ * Weather provider types.
+ * A provider turns one or more models into ModelForecasts, so sources
+ * beyond Open-Meteo can be aggregated alongside the built-in models.
+ */
+
+import type { ModelName, ModelForecast } from "../../types/models";
+import type { Location, Coordinates } from "../../types/location";
+import type { ForecastOptions } from "../open-meteo";
+
+/**
+ * A source of model forecasts
+ */
+export interface WeatherProvider {
+  /**
+   * Unique provider identifier (e.g. "open-meteo", "nws")
+   */
+  readonly id: string;
+
+  /**
+   * Human-readable provider name
+   */
+  readonly displayName: string;
+
+  /**
+   * Models served by this provider (metadata lives in MODEL_INFO)
+   */
+  readonly models: readonly ModelName[];
+
+  /**
+   * Whether the provider serves archived runs for past dates
+   * (ForecastOptions.historical); false if omitted
+   */
+  readonly historical?: boolean;
+
+  /**
+   * Whether the provider covers a location (all locations if omitted)
+   */
+  supports?(coordinates: Coordinates): boolean;
+
+  /**
+   * Fetch and parse a forecast for one of this provider's models
+   *
+   * @throws ApiError if the request fails or the response is invalid
+   */
+  fetchForecast(
+    model: ModelName,
+    location: Location,
+    options?: ForecastOptions
+  ): Promise<ModelForecast>;
+}
+
+/**
+ * Options shared by providers that call third-party APIs
+ */
+export interface ProviderOptions {
+  /**
+   * User-Agent header; NWS and MET Norway reject anonymous requests
+   */
+  userAgent?: string;
+
+  /**
+   * API base URL override (mainly for testing)
+   */
+  baseUrl?: string;
+}
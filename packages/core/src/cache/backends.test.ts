@@ -0,0 +1,225 @@
+/**
+ * Conformance tests shared by every cache backend, plus backend-specific
+ * behaviour for the memory and SQLite caches.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "node:path";
+import { rm, readdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { FileCacheManager } from "./file-cache";
+import { MemoryCacheManager } from "./memory-cache";
+import { SqliteCacheManager } from "./sqlite-cache";
+import { createCacheManager, getCacheOptionsFromConfig, type CacheBackend } from "./factory";
+import type { CacheManager } from "./types";
+
+/**
+ * Wait for entries with a 0 second TTL to expire
+ */
+function tick(ms: number = 10): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+const BACKENDS: CacheBackend[] = ["file", "memory", "sqlite"];
+
+for (const backend of BACKENDS) {
+  describe(`${backend} cache backend conformance`, () => {
+    let cacheDir: string;
+    let cache: CacheManager;
+
+    /**
+     * Create a cache of this backend in the test directory
+     */
+    function create(options: { maxEntries?: number; enabled?: boolean } = {}): CacheManager {
+      return createCacheManager({ backend, cacheDir, ...options });
+    }
+
+    beforeEach(() => {
+      cacheDir = join(tmpdir(), `weather-oracle-cache-${backend}-${randomUUID()}`);
+      cache = create();
+    });
+
+    afterEach(async () => {
+      if (cache instanceof SqliteCacheManager) {
+        await cache.close();
+      }
+      await rm(cacheDir, { recursive: true, force: true });
+    });
+
+    it("should store and retrieve values", async () => {
+      const data = { forecasts: [{ model: "ecmwf", daily: [{ max: 12.5 }] }] };
+      await cache.set("51.51_-0.13_ecmwf_7d_abc", data);
+
+      expect(await cache.get<typeof data>("51.51_-0.13_ecmwf_7d_abc")).toEqual(data);
+      expect(await cache.has("51.51_-0.13_ecmwf_7d_abc")).toBe(true);
+      expect(await cache.get("missing")).toBeNull();
+      expect(await cache.has("missing")).toBe(false);
+    });
+
+    it("should overwrite existing keys", async () => {
+      await cache.set("key", { v: 1 });
+      await cache.set("key", { v: 2 });
+
+      expect(await cache.get("key")).toEqual({ v: 2 });
+      expect((await cache.stats()).size).toBe(1);
+    });
+
+    it("should expire entries after their TTL", async () => {
+      await cache.set("short", { v: 1 }, 0);
+      await cache.set("long", { v: 2 }, 3600);
+      await tick();
+
+      expect(await cache.get("short")).toBeNull();
+      expect(await cache.has("short")).toBe(false);
+      expect(await cache.get("long")).toEqual({ v: 2 });
+    });
+
+    it("should remove expired entries on cleanup", async () => {
+      await cache.set("expired1", { v: 1 }, 0);
+      await cache.set("expired2", { v: 2 }, 0);
+      await cache.set("valid", { v: 3 }, 3600);
+      await tick();
+
+      expect(await cache.cleanup()).toBe(2);
+      expect((await cache.stats()).size).toBe(1);
+    });
+
+    it("should invalidate keys matching a glob pattern", async () => {
+      await cache.set("ecmwf_dublin", { v: 1 });
+      await cache.set("ecmwf_london", { v: 2 });
+      await cache.set("gfs_dublin", { v: 3 });
+
+      expect(await cache.invalidate("ecmwf_*")).toBe(2);
+      expect(await cache.get("ecmwf_dublin")).toBeNull();
+      expect(await cache.get("gfs_dublin")).toEqual({ v: 3 });
+      expect(await cache.invalidate("gfs_?ublin")).toBe(1);
+    });
+
+    it("should clear all entries and reset statistics", async () => {
+      await cache.set("a", 1);
+      await cache.set("b", 2);
+      await cache.get("a");
+      await cache.clear();
+
+      expect(await cache.stats()).toEqual({
+        hits: 0,
+        misses: 0,
+        size: 0,
+        oldestEntry: null,
+        newestEntry: null,
+      });
+    });
+
+    it("should count hits and misses", async () => {
+      await cache.set("key", { v: 1 });
+      await cache.get("key");
+      await cache.get("key");
+      await cache.get("missing");
+
+      const stats = await cache.stats();
+      expect(stats.hits).toBe(2);
+      expect(stats.misses).toBe(1);
+      expect(stats.size).toBe(1);
+      expect(stats.oldestEntry).not.toBeNull();
+      expect(stats.newestEntry).toBeGreaterThanOrEqual(stats.oldestEntry ?? 0);
+    });
+
+    it("should keep at most maxEntries, dropping the oldest", async () => {
+      cache = create({ maxEntries: 2 });
+      await cache.set("first", 1);
+      await tick(5);
+      await cache.set("second", 2);
+      await tick(5);
+      await cache.set("third", 3);
+
+      expect((await cache.stats()).size).toBe(2);
+      expect(await cache.get("first")).toBeNull();
+      expect(await cache.get("third")).toBe(3);
+    });
+
+    it("should do nothing when disabled", async () => {
+      cache = create({ enabled: false });
+      await cache.set("key", { v: 1 });
+
+      expect(await cache.get("key")).toBeNull();
+      expect(await cache.has("key")).toBe(false);
+      expect((await cache.stats()).size).toBe(0);
+    });
+  });
+}
+
+describe("MemoryCacheManager", () => {
+  it("should evict the least recently used entry", async () => {
+    const cache = new MemoryCacheManager({ maxEntries: 2 });
+    await cache.set("a", 1);
+    await cache.set("b", 2);
+    await cache.get("a");
+    await cache.set("c", 3);
+
+    expect(await cache.get("a")).toBe(1);
+    expect(await cache.get("b")).toBeNull();
+    expect(await cache.get("c")).toBe(3);
+  });
+});
+
+describe("SqliteCacheManager", () => {
+  let cacheDir: string;
+
+  beforeEach(() => {
+    cacheDir = join(tmpdir(), `weather-oracle-cache-sqlite-${randomUUID()}`);
+  });
+
+  afterEach(async () => {
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  it("should keep entries in a single database across instances", async () => {
+    const first = new SqliteCacheManager({ cacheDir });
+    await first.set("a", { v: 1 });
+    await first.set("b", { v: 2 });
+    await first.close();
+
+    const second = new SqliteCacheManager({ cacheDir });
+    expect(await second.get("b")).toEqual({ v: 2 });
+    await second.close();
+
+    expect((await readdir(cacheDir)).filter((f) => f.endsWith(".cache.json"))).toEqual([]);
+  });
+
+  it("should share one connection between concurrent first calls", async () => {
+    const cache = new SqliteCacheManager({ cacheDir });
+    await Promise.all([cache.set("a", 1), cache.set("b", 2), cache.get("a")]);
+
+    expect((await cache.stats()).size).toBe(2);
+    await cache.close();
+  });
+});
+
+describe("createCacheManager", () => {
+  it("should default to the file backend", () => {
+    expect(createCacheManager()).toBeInstanceOf(FileCacheManager);
+    expect(createCacheManager({ backend: "memory" })).toBeInstanceOf(MemoryCacheManager);
+    expect(createCacheManager({ backend: "sqlite" })).toBeInstanceOf(SqliteCacheManager);
+  });
+
+  it("should map the cache config", () => {
+    expect(
+      getCacheOptionsFromConfig({
+        cache: {
+          enabled: true,
+          backend: "sqlite",
+          ttlSeconds: 300,
+          maxEntries: 50,
+          directory: "/tmp/weather-cache",
+        },
+      })
+    ).toEqual({
+      backend: "sqlite",
+      enabled: true,
+      defaultTtl: 300,
+      maxEntries: 50,
+      cacheDir: "/tmp/weather-cache",
+    });
+  });
+});
@@ -7,8 +7,16 @@ import { join } from "node:path";
 import { mkdir, rm, readdir } from "node:fs/promises";
 import { tmpdir } from "node:os";
 import { randomUUID } from "node:crypto";
-import { FileCacheManager, createCacheManager } from "./file-cache";
-import { createForecastCacheKey, parseForecastCacheKey } from "./types";
+import { FileCacheManager } from "./file-cache";
+import { createCacheManager } from "./factory";
+import {
+  createForecastCacheKey,
+  createForecastCacheRequest,
+  getForecastCacheTtl,
+  parseForecastCacheKey,
+  DEFAULT_FORECAST_CACHE_TTL_SECONDS,
+} from "./keys";
+import { latitude, longitude } from "../types/location";
 
 /**
  * Create a temporary cache directory for testing
@@ -314,67 +322,166 @@ describe("createCacheManager", () => {
 });
 
 describe("Cache key utilities", () => {
+  const london = { latitude: 51.5074, longitude: -0.1278, models: ["ecmwf"], days: 7 };
+
   describe("createForecastCacheKey", () => {
     it("should create a properly formatted cache key", () => {
-      const key = createForecastCacheKey(
-        51.5074,
-        -0.1278,
-        "ecmwf",
-        new Date("2024-01-15")
-      );
-      expect(key).toBe("51.51_-0.13_ecmwf_2024-01-15");
+      const key = createForecastCacheKey(london);
+      expect(key).toMatch(/^51\.51_-0\.13_ecmwf_7d_[0-9a-f]{12}$/);
     });
 
     it("should round coordinates to 2 decimal places", () => {
-      const key = createForecastCacheKey(
-        51.50739,
-        -0.12775,
-        "gfs",
-        new Date("2024-06-20")
-      );
-      expect(key).toBe("51.51_-0.13_gfs_2024-06-20");
+      const key = createForecastCacheKey({ ...london, latitude: 51.50739, longitude: -0.12775 });
+      expect(key).toBe(createForecastCacheKey(london));
     });
 
     it("should handle negative coordinates", () => {
-      const key = createForecastCacheKey(
-        -33.8688,
-        151.2093,
-        "icon",
-        new Date("2024-12-25")
+      const key = createForecastCacheKey({
+        latitude: -33.8688,
+        longitude: 151.2093,
+        models: ["icon"],
+        days: 3,
+      });
+      expect(key.startsWith("-33.87_151.21_icon_3d_")).toBe(true);
+    });
+
+    it("should normalise model order and case", () => {
+      expect(createForecastCacheKey({ ...london, models: ["GFS", "ecmwf", "gfs"] })).toBe(
+        createForecastCacheKey({ ...london, models: ["ecmwf", "gfs"] })
+      );
+      expect(createForecastCacheKey({ ...london, models: undefined })).toContain("_all_");
+    });
+
+    it("should differ for each part of the request", () => {
+      const base = createForecastCacheKey(london);
+      const variants = [
+        { days: 16 },
+        { models: ["ecmwf", "gfs"] },
+        { variables: ["temperature_2m"] },
+        { timezone: "Europe/London" },
+        { endpoint: "http://localhost:8080/v1" },
+      ].map((change) => createForecastCacheKey({ ...london, ...change }));
+
+      for (const key of variants) {
+        expect(key).not.toBe(base);
+      }
+      expect(new Set(variants).size).toBe(variants.length);
+    });
+
+    it("should not depend on the date", () => {
+      expect(createForecastCacheKey(london)).not.toMatch(/\d{4}-\d{2}-\d{2}/);
+    });
+  });
+
+  describe("createForecastCacheRequest", () => {
+    const coordinates = { latitude: latitude(51.5074), longitude: longitude(-0.1278) };
+
+    it("should fill in the client's defaults", () => {
+      const request = createForecastCacheRequest(coordinates, ["ecmwf"]);
+
+      expect(request.days).toBe(7);
+      expect(request.timezone).toBe("auto");
+      expect(request.variables).toContain("temperature_2m");
+      expect(createForecastCacheKey(request)).toBe(
+        createForecastCacheKey(
+          createForecastCacheRequest(coordinates, ["ecmwf"], {
+            forecastDays: 7,
+            timezone: "auto",
+            baseUrl: "https://api.open-meteo.com/v1",
+          })
+        )
+      );
+    });
+
+    it("should include model endpoint overrides", () => {
+      const plain = createForecastCacheRequest(coordinates, ["ecmwf"]);
+      const overridden = createForecastCacheRequest(coordinates, ["ecmwf"], {
+        modelEndpoints: { ecmwf: "http://localhost:8080/v1/ecmwf" },
+      });
+
+      expect(createForecastCacheKey(overridden)).not.toBe(createForecastCacheKey(plain));
+    });
+
+    it("should key historical requests by their dates", () => {
+      const historical = (startDate: string, endDate: string): string =>
+        createForecastCacheKey(
+          createForecastCacheRequest(coordinates, ["ecmwf"], {
+            historical: { startDate, endDate },
+          })
+        );
+
+      expect(historical("2024-01-15", "2024-01-17")).toMatch(/_ecmwf_3d_/);
+      expect(historical("2024-01-15", "2024-01-17")).not.toBe(
+        historical("2024-01-16", "2024-01-18")
+      );
+      expect(historical("2024-01-15", "2024-01-21")).not.toBe(
+        createForecastCacheKey(createForecastCacheRequest(coordinates, ["ecmwf"]))
       );
-      expect(key).toBe("-33.87_151.21_icon_2024-12-25");
     });
   });
 
   describe("parseForecastCacheKey", () => {
     it("should parse a valid cache key", () => {
-      const result = parseForecastCacheKey("51.51_-0.13_ecmwf_2024-01-15");
+      const result = parseForecastCacheKey("51.51_-0.13_ecmwf,gfs_7d_0123456789ab");
       expect(result).toEqual({
         lat: 51.51,
         lon: -0.13,
-        model: "ecmwf",
-        date: "2024-01-15",
+        models: ["ecmwf", "gfs"],
+        days: 7,
+        digest: "0123456789ab",
       });
     });
 
+    it("should round-trip a created key", () => {
+      const result = parseForecastCacheKey(createForecastCacheKey({ ...london, models: undefined }));
+      expect(result?.lat).toBe(51.51);
+      expect(result?.lon).toBe(-0.13);
+      expect(result?.models).toBeUndefined();
+      expect(result?.days).toBe(7);
+    });
+
     it("should return null for invalid key format", () => {
       expect(parseForecastCacheKey("invalid")).toBeNull();
       expect(parseForecastCacheKey("a_b_c")).toBeNull();
       expect(parseForecastCacheKey("")).toBeNull();
+      expect(parseForecastCacheKey("51.51_-0.13_ecmwf_2024-01-15")).toBeNull();
+      expect(parseForecastCacheKey("51.51_-0.13_ecmwf_seven_0123456789ab")).toBeNull();
     });
 
     it("should return null for non-numeric coordinates", () => {
-      expect(parseForecastCacheKey("abc_def_ecmwf_2024-01-15")).toBeNull();
+      expect(parseForecastCacheKey("abc_def_ecmwf_7d_0123456789ab")).toBeNull();
     });
 
     it("should handle negative coordinates", () => {
-      const result = parseForecastCacheKey("-33.87_151.21_icon_2024-12-25");
+      const result = parseForecastCacheKey("-33.87_151.21_icon_3d_0123456789ab");
       expect(result).toEqual({
         lat: -33.87,
         lon: 151.21,
-        model: "icon",
-        date: "2024-12-25",
+        models: ["icon"],
+        days: 3,
+        digest: "0123456789ab",
       });
     });
   });
+
+  describe("getForecastCacheTtl", () => {
+    it("should expire when the next run is published", () => {
+      // The GFS 06Z run is published around 10:00 UTC
+      expect(getForecastCacheTtl(["gfs"], new Date("2024-01-15T09:30:00Z"))).toBe(30 * 60);
+      expect(getForecastCacheTtl(["gfs"], new Date("2024-01-15T10:00:00Z"))).toBe(6 * 60 * 60);
+    });
+
+    it("should use the earliest next run across models", () => {
+      // ECMWF 06Z is published around 13:00 UTC, GFS 06Z around 10:00 UTC
+      const now = new Date("2024-01-15T08:00:00Z");
+
+      expect(getForecastCacheTtl(["ecmwf"], now)).toBe(5 * 60 * 60);
+      expect(getForecastCacheTtl(["ecmwf", "gfs"], now)).toBe(2 * 60 * 60);
+    });
+
+    it("should fall back to the default for unscheduled models", () => {
+      expect(getForecastCacheTtl(["local"])).toBe(DEFAULT_FORECAST_CACHE_TTL_SECONDS);
+      expect(getForecastCacheTtl([])).toBe(DEFAULT_FORECAST_CACHE_TTL_SECONDS);
+    });
+  });
 });
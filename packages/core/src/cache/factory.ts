@@ -0,0 +1,57 @@
+/**
+ * Cache manager factory.
+ * Selects a cache backend by name and maps the cache config onto it.
+ */
+
+import type { AppConfig } from "../config/schema";
+import type { CacheManager } from "./types";
+import { FileCacheManager, type FileCacheManagerOptions } from "./file-cache";
+import { MemoryCacheManager } from "./memory-cache";
+import { SqliteCacheManager } from "./sqlite-cache";
+
+/**
+ * Available cache backends:
+ * - file: one JSON file per key (default)
+ * - memory: in-process LRU, for long-lived servers
+ * - sqlite: a single bun:sqlite database (Bun only)
+ */
+export type CacheBackend = "file" | "memory" | "sqlite";
+
+/**
+ * Options for createCacheManager. cacheDir is ignored by the memory backend.
+ */
+export interface CacheManagerOptions extends FileCacheManagerOptions {
+  /**
+   * Backend to store entries in (default: "file")
+   */
+  backend?: CacheBackend;
+}
+
+/**
+ * Create a cache manager with configuration
+ */
+export function createCacheManager(options: CacheManagerOptions = {}): CacheManager {
+  const { backend = "file", ...backendOptions } = options;
+
+  switch (backend) {
+    case "memory":
+      return new MemoryCacheManager(backendOptions);
+    case "sqlite":
+      return new SqliteCacheManager(backendOptions);
+    case "file":
+      return new FileCacheManager(backendOptions);
+  }
+}
+
+/**
+ * Get cache manager options from app config
+ */
+export function getCacheOptionsFromConfig(config: Pick<AppConfig, "cache">): CacheManagerOptions {
+  return {
+    backend: config.cache.backend,
+    enabled: config.cache.enabled,
+    defaultTtl: config.cache.ttlSeconds,
+    maxEntries: config.cache.maxEntries,
+    ...(config.cache.directory !== undefined && { cacheDir: config.cache.directory }),
+  };
+}
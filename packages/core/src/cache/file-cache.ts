@@ -19,6 +19,7 @@ import { constants } from "node:fs";
 import { tmpdir } from "node:os";
 import { randomUUID } from "node:crypto";
 import { CacheError } from "../errors/cache";
+import { globToRegExp } from "./glob";
 import type {
   CacheManager,
   CacheEntry,
@@ -313,12 +314,7 @@ export class FileCacheManager implements CacheManager {
       const files = await readdir(this.cacheDir);
       const cacheFiles = files.filter((f) => f.endsWith(CACHE_FILE_EXTENSION));
 
-      // Convert glob pattern to regex
-      const regexPattern = pattern
-        .replace(/[.+^${}()|[\]\\]/g, "\\$&")
-        .replace(/\*/g, ".*")
-        .replace(/\?/g, ".");
-      const regex = new RegExp(`^${regexPattern}$`);
+      const regex = globToRegExp(pattern);
 
       let count = 0;
       await Promise.all(
@@ -502,12 +498,3 @@ export class FileCacheManager implements CacheManager {
     }
   }
 }
-
-/**
- * Create a cache manager with configuration
- */
-export function createCacheManager(
-  options?: FileCacheManagerOptions
-): CacheManager {
-  return new FileCacheManager(options);
-}
@@ -0,0 +1,15 @@
+/**
+ * Glob matching for cache invalidation patterns.
+ */
+
+/**
+ * Convert a glob pattern ("*" for any run of characters, "?" for one
+ * character) to an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const regexPattern = pattern
+    .replace(/[.+^${}()|[\]\\]/g, "\\$&")
+    .replace(/\*/g, ".*")
+    .replace(/\?/g, ".");
+  return new RegExp(`^${regexPattern}$`);
+}
@@ -1,6 +1,6 @@
 /**
  * Cache layer module for Weather Oracle.
- * Provides file-based caching to reduce redundant API calls.
+ * Provides file, in-memory and SQLite caches to reduce redundant API calls.
  */
 
 // Types and interfaces
@@ -12,11 +12,31 @@ export type {
   CacheStats,
 } from "./types";
 
-export { createForecastCacheKey, parseForecastCacheKey } from "./types";
+// Forecast cache keys and expiry
+export {
+  createForecastCacheKey,
+  createForecastCacheRequest,
+  parseForecastCacheKey,
+  getForecastCacheTtl,
+  DEFAULT_FORECAST_CACHE_TTL_SECONDS,
+  HISTORICAL_FORECAST_CACHE_TTL_SECONDS,
+  type ForecastCacheRequest,
+  type ParsedForecastCacheKey,
+} from "./keys";
 
 // File-based cache implementation
+export { FileCacheManager, type FileCacheManagerOptions } from "./file-cache";
+
+// In-memory LRU cache implementation
+export { MemoryCacheManager, type MemoryCacheManagerOptions } from "./memory-cache";
+
+// SQLite cache implementation (Bun only)
+export { SqliteCacheManager, type SqliteCacheManagerOptions } from "./sqlite-cache";
+
+// Backend selection
 export {
-  FileCacheManager,
   createCacheManager,
-  type FileCacheManagerOptions,
-} from "./file-cache";
+  getCacheOptionsFromConfig,
+  type CacheBackend,
+  type CacheManagerOptions,
+} from "./factory";
@@ -0,0 +1,190 @@
+/**
+ * Forecast cache keys and expiry.
+ * Keys cover everything that changes a forecast response; entries expire
+ * when a newer run of one of the requested models is due.
+ */
+
+import { createHash } from "node:crypto";
+import type { Coordinates } from "../types/location";
+import type { ModelName } from "../types/models";
+import type { ForecastOptions } from "../api/open-meteo";
+import {
+  OPEN_METEO_BASE_URL,
+  OPEN_METEO_HISTORICAL_FORECAST_URL,
+  HOURLY_VARIABLES,
+  DAILY_VARIABLES,
+} from "../api/endpoints";
+import { estimateRunInitTime, assessRunStaleness } from "../runs/schedule";
+
+/**
+ * Cache TTL in seconds for models without a fixed run schedule
+ */
+export const DEFAULT_FORECAST_CACHE_TTL_SECONDS = 3600;
+
+/**
+ * Cache TTL in seconds for historical forecasts; archived runs for past
+ * dates do not change
+ */
+export const HISTORICAL_FORECAST_CACHE_TTL_SECONDS = 86400;
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * A forecast request, as far as caching is concerned
+ */
+export interface ForecastCacheRequest {
+  readonly latitude: number;
+  readonly longitude: number;
+  /**
+   * Models requested; undefined for the default set
+   */
+  readonly models?: readonly string[];
+  readonly days: number;
+  /**
+   * Hourly and daily variables requested
+   */
+  readonly variables?: readonly string[];
+  /**
+   * Response timezone (default "auto")
+   */
+  readonly timezone?: string;
+  /**
+   * API endpoint(s) the forecast is fetched from
+   */
+  readonly endpoint?: string;
+  /**
+   * Past dates of a historical request ("{start}/{end}")
+   */
+  readonly range?: string;
+}
+
+/**
+ * Components of a forecast cache key
+ */
+export interface ParsedForecastCacheKey {
+  lat: number;
+  lon: number;
+  /**
+   * Undefined when the key covers the default models
+   */
+  models?: string[];
+  days: number;
+  /**
+   * Digest of the variables, timezone, endpoint and historical range
+   */
+  digest: string;
+}
+
+/**
+ * Describe a multi-model fetch as a cache request: the coordinates, models,
+ * forecast days, the variables the Open-Meteo client asks for, the timezone,
+ * the configured endpoints and, for historical requests, the past dates
+ */
+export function createForecastCacheRequest(
+  coordinates: Coordinates,
+  models: readonly ModelName[] | undefined,
+  options: ForecastOptions = {}
+): ForecastCacheRequest {
+  const overrides = Object.entries(options.modelEndpoints ?? {})
+    .map(([model, url]) => `${model}=${url}`)
+    .sort();
+
+  const historical = options.historical;
+  const historicalDays = historical
+    ? Math.round((Date.parse(historical.endDate) - Date.parse(historical.startDate)) / DAY_MS) + 1
+    : undefined;
+
+  return {
+    latitude: coordinates.latitude,
+    longitude: coordinates.longitude,
+    models,
+    days: historicalDays ?? options.forecastDays ?? 7,
+    variables: [...HOURLY_VARIABLES, ...DAILY_VARIABLES],
+    timezone: options.timezone ?? "auto",
+    endpoint: historical
+      ? (options.historicalUrl ?? OPEN_METEO_HISTORICAL_FORECAST_URL)
+      : [options.baseUrl ?? OPEN_METEO_BASE_URL, ...overrides].join(" "),
+    ...(historical && { range: `${historical.startDate}/${historical.endDate}` }),
+  };
+}
+
+/**
+ * Generate a cache key for forecast data from the normalised request.
+ * Format: {lat}_{lon}_{models}_{days}d_{digest}
+ *
+ * Coordinates are rounded to 2 decimal places, models are sorted and the
+ * variables, timezone, endpoint and any historical range are folded into a
+ * short digest, so equivalent requests share a key and different ones never do.
+ */
+export function createForecastCacheKey(request: ForecastCacheRequest): string {
+  // Round coordinates to 2 decimal places for cache key stability
+  const roundedLat = Math.round(request.latitude * 100) / 100;
+  const roundedLon = Math.round(request.longitude * 100) / 100;
+  const models = request.models
+    ? [...new Set(request.models.map((m) => m.toLowerCase()))].sort().join(",")
+    : "all";
+  const digest = createHash("sha256")
+    .update(
+      JSON.stringify({
+        variables: [...new Set(request.variables ?? [])].sort(),
+        timezone: request.timezone ?? "auto",
+        endpoint: request.endpoint ?? OPEN_METEO_BASE_URL,
+        ...(request.range !== undefined && { range: request.range }),
+      })
+    )
+    .digest("hex")
+    .slice(0, 12);
+  return `${roundedLat}_${roundedLon}_${models}_${request.days}d_${digest}`;
+}
+
+/**
+ * Parse a forecast cache key back to components
+ */
+export function parseForecastCacheKey(key: string): ParsedForecastCacheKey | null {
+  const parts = key.split("_");
+  if (parts.length !== 5) {
+    return null;
+  }
+  const [latPart, lonPart, modelsPart, daysPart, digest] = parts;
+  const lat = parseFloat(latPart);
+  const lon = parseFloat(lonPart);
+  const days = /^\d+d$/.test(daysPart) ? parseInt(daysPart, 10) : NaN;
+
+  if (isNaN(lat) || isNaN(lon) || isNaN(days) || !/^[0-9a-f]+$/.test(digest)) {
+    return null;
+  }
+
+  return {
+    lat,
+    lon,
+    ...(modelsPart !== "all" && { models: modelsPart.split(",") }),
+    days,
+    digest,
+  };
+}
+
+/**
+ * Seconds until a newer run of any of the models should be published, so a
+ * cached forecast is refreshed as soon as one of its models has new data.
+ * Models without a fixed schedule use DEFAULT_FORECAST_CACHE_TTL_SECONDS.
+ */
+export function getForecastCacheTtl(models: readonly ModelName[], now: Date = new Date()): number {
+  const defaultTtlMs = DEFAULT_FORECAST_CACHE_TTL_SECONDS * 1000;
+  if (models.length === 0) {
+    return DEFAULT_FORECAST_CACHE_TTL_SECONDS;
+  }
+
+  const ttlMs = Math.min(
+    ...models.map((model) => {
+      const runInitTime = estimateRunInitTime(model, now);
+      const nextRunAvailableAt =
+        runInitTime && assessRunStaleness(model, runInitTime, now).nextRunAvailableAt;
+      return nextRunAvailableAt ? nextRunAvailableAt.getTime() - now.getTime() : defaultTtlMs;
+    })
+  );
+
+  return Math.max(1, Math.ceil(ttlMs / 1000));
+}
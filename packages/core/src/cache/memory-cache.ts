@@ -0,0 +1,185 @@
+/**
+ * In-memory LRU cache manager implementation.
+ * Keeps entries in a Map ordered by recent use, for long-lived processes
+ * such as the web server where a file per key is unnecessary.
+ */
+
+import { globToRegExp } from "./glob";
+import type { CacheManager, CacheEntry, CacheStats } from "./types";
+
+/**
+ * Default TTL in seconds (1 hour - models update every ~6 hours)
+ */
+const DEFAULT_TTL_SECONDS = 3600;
+
+/**
+ * Default maximum number of cache entries
+ */
+const DEFAULT_MAX_ENTRIES = 500;
+
+/**
+ * Configuration options for MemoryCacheManager
+ */
+export interface MemoryCacheManagerOptions {
+  /**
+   * Default TTL in seconds (default: 3600)
+   */
+  defaultTtl?: number;
+
+  /**
+   * Maximum number of entries; the least recently used entry is evicted
+   * first (default: 500)
+   */
+  maxEntries?: number;
+
+  /**
+   * Whether cache is enabled (default: true)
+   */
+  enabled?: boolean;
+}
+
+/**
+ * In-memory least-recently-used cache manager
+ */
+export class MemoryCacheManager implements CacheManager {
+  private readonly defaultTtl: number;
+  private readonly maxEntries: number;
+  private readonly enabled: boolean;
+  // Map iteration order is insertion order: re-inserting on use keeps the
+  // least recently used entry first
+  private readonly entries = new Map<string, CacheEntry<unknown>>();
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(options: MemoryCacheManagerOptions = {}) {
+    this.defaultTtl = options.defaultTtl ?? DEFAULT_TTL_SECONDS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.enabled = options.enabled ?? true;
+  }
+
+  /**
+   * Get a cached value by key
+   */
+  get<T>(key: string): Promise<T | null> {
+    const entry = this.enabled ? this.entries.get(key) : undefined;
+
+    if (!entry || entry.metadata.expiresAt < Date.now()) {
+      this.entries.delete(key);
+      this.misses++;
+      return Promise.resolve(null);
+    }
+
+    // Mark as most recently used
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return Promise.resolve(entry.data as T);
+  }
+
+  /**
+   * Set a value in the cache, evicting the least recently used entries
+   * beyond the limit
+   */
+  set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    if (!this.enabled) {
+      return Promise.resolve();
+    }
+
+    const now = Date.now();
+    this.entries.delete(key);
+    this.entries.set(key, {
+      data: value,
+      metadata: {
+        createdAt: now,
+        expiresAt: now + (ttl ?? this.defaultTtl) * 1000,
+        key,
+      },
+    });
+
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break;
+      }
+      this.entries.delete(oldest);
+    }
+
+    return Promise.resolve();
+  }
+
+  /**
+   * Invalidate cache entries matching a pattern
+   */
+  invalidate(pattern: string): Promise<number> {
+    const regex = globToRegExp(pattern);
+
+    let count = 0;
+    for (const key of [...this.entries.keys()]) {
+      if (regex.test(key)) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+
+    return Promise.resolve(count);
+  }
+
+  /**
+   * Clear all cache entries
+   */
+  clear(): Promise<void> {
+    this.entries.clear();
+    this.hits = 0;
+    this.misses = 0;
+    return Promise.resolve();
+  }
+
+  /**
+   * Check if a key exists and is not expired
+   */
+  has(key: string): Promise<boolean> {
+    const entry = this.entries.get(key);
+    return Promise.resolve(entry !== undefined && entry.metadata.expiresAt >= Date.now());
+  }
+
+  /**
+   * Get cache statistics
+   */
+  stats(): Promise<CacheStats> {
+    let oldestEntry: number | null = null;
+    let newestEntry: number | null = null;
+
+    for (const { metadata } of this.entries.values()) {
+      if (oldestEntry === null || metadata.createdAt < oldestEntry) {
+        oldestEntry = metadata.createdAt;
+      }
+      if (newestEntry === null || metadata.createdAt > newestEntry) {
+        newestEntry = metadata.createdAt;
+      }
+    }
+
+    return Promise.resolve({
+      hits: this.hits,
+      misses: this.misses,
+      size: this.entries.size,
+      oldestEntry,
+      newestEntry,
+    });
+  }
+
+  /**
+   * Remove expired entries
+   */
+  cleanup(): Promise<number> {
+    const now = Date.now();
+
+    let count = 0;
+    for (const [key, entry] of [...this.entries]) {
+      if (entry.metadata.expiresAt < now) {
+        this.entries.delete(key);
+        count++;
+      }
+    }
+
+    return Promise.resolve(count);
+  }
+}
@@ -0,0 +1,310 @@
+/**
+ * SQLite cache manager implementation (Bun only).
+ * Stores entries in one bun:sqlite database with indexes on expiry and
+ * creation time, so cleanup, stats and size limits are single queries
+ * rather than directory scans.
+ */
+
+import { homedir } from "node:os";
+import { join } from "node:path";
+import { mkdir } from "node:fs/promises";
+import type { Database } from "bun:sqlite";
+import { CacheError } from "../errors/cache";
+import { globToRegExp } from "./glob";
+import type { CacheManager, CacheStats } from "./types";
+
+/**
+ * Default TTL in seconds (1 hour - models update every ~6 hours)
+ */
+const DEFAULT_TTL_SECONDS = 3600;
+
+/**
+ * Default maximum number of cache entries
+ */
+const DEFAULT_MAX_ENTRIES = 1000;
+
+/**
+ * Database file name inside the cache directory
+ */
+const DATABASE_FILE = "cache.sqlite";
+
+/**
+ * Configuration options for SqliteCacheManager
+ */
+export interface SqliteCacheManagerOptions {
+  /**
+   * Directory for the database file (default: ~/.weather-oracle/cache)
+   */
+  cacheDir?: string;
+
+  /**
+   * Default TTL in seconds (default: 3600)
+   */
+  defaultTtl?: number;
+
+  /**
+   * Maximum number of entries; the oldest entries are removed first
+   * (default: 1000)
+   */
+  maxEntries?: number;
+
+  /**
+   * Whether cache is enabled (default: true)
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Row shape of the cache_entries table
+ */
+interface EntryRow {
+  key: string;
+  value: string;
+  created_at: number;
+  expires_at: number;
+}
+
+/**
+ * SQLite-backed cache manager
+ */
+export class SqliteCacheManager implements CacheManager {
+  private readonly cacheDir: string;
+  private readonly defaultTtl: number;
+  private readonly maxEntries: number;
+  private readonly enabled: boolean;
+  private database: Promise<Database> | null = null;
+  private hits: number = 0;
+  private misses: number = 0;
+
+  constructor(options: SqliteCacheManagerOptions = {}) {
+    this.cacheDir = options.cacheDir ?? join(homedir(), ".weather-oracle", "cache");
+    this.defaultTtl = options.defaultTtl ?? DEFAULT_TTL_SECONDS;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.enabled = options.enabled ?? true;
+  }
+
+  /**
+   * Open the database on first use; concurrent callers share one connection
+   */
+  private getDatabase(): Promise<Database> {
+    if (!this.database) {
+      this.database = this.open().catch((error: unknown) => {
+        // Let the next call try again
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+
+  /**
+   * Open the database and create the table and indexes
+   */
+  private async open(): Promise<Database> {
+    const path = join(this.cacheDir, DATABASE_FILE);
+    try {
+      await mkdir(this.cacheDir, { recursive: true });
+      // Loaded on demand so bundlers and Node never resolve the Bun-only module
+      const { Database } = await import(/* webpackIgnore: true */ "bun:sqlite");
+      const db = new Database(path, { create: true });
+      db.exec("PRAGMA journal_mode = WAL");
+      db.exec(
+        `CREATE TABLE IF NOT EXISTS cache_entries (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL,
+          created_at INTEGER NOT NULL,
+          expires_at INTEGER NOT NULL
+        )`
+      );
+      db.exec("CREATE INDEX IF NOT EXISTS cache_entries_expires_at ON cache_entries (expires_at)");
+      db.exec("CREATE INDEX IF NOT EXISTS cache_entries_created_at ON cache_entries (created_at)");
+      // Run cleanup on initialization
+      this.deleteExpired(db);
+      return db;
+    } catch (error) {
+      throw CacheError.initError(path, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Delete expired rows, returning how many were removed
+   */
+  private deleteExpired(db: Database): number {
+    return db.query("DELETE FROM cache_entries WHERE expires_at < ?").run(Date.now()).changes;
+  }
+
+  /**
+   * Get a cached value by key
+   */
+  async get<T>(key: string): Promise<T | null> {
+    if (!this.enabled) {
+      this.misses++;
+      return null;
+    }
+
+    const db = await this.getDatabase();
+
+    let row: EntryRow | null;
+    try {
+      row = db
+        .query<EntryRow, [string]>("SELECT * FROM cache_entries WHERE key = ?")
+        .get(key);
+    } catch (error) {
+      throw CacheError.readError(key, error instanceof Error ? error : new Error(String(error)));
+    }
+
+    if (!row || row.expires_at < Date.now()) {
+      // Missing or expired - delete any leftover row
+      this.misses++;
+      db.query("DELETE FROM cache_entries WHERE key = ?").run(key);
+      return null;
+    }
+
+    try {
+      const data = JSON.parse(row.value) as T;
+      this.hits++;
+      return data;
+    } catch {
+      // Corrupted entry - delete it
+      this.misses++;
+      db.query("DELETE FROM cache_entries WHERE key = ?").run(key);
+      return null;
+    }
+  }
+
+  /**
+   * Set a value in the cache
+   */
+  async set<T>(key: string, value: T, ttl?: number): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const db = await this.getDatabase();
+    const now = Date.now();
+    const ttlSeconds = ttl ?? this.defaultTtl;
+
+    try {
+      db.query(
+        "INSERT OR REPLACE INTO cache_entries (key, value, created_at, expires_at) VALUES (?, ?, ?, ?)"
+      ).run(key, JSON.stringify(value), now, now + ttlSeconds * 1000);
+
+      // Enforce max entries limit, removing the oldest entries
+      db.query(
+        `DELETE FROM cache_entries WHERE key IN (
+          SELECT key FROM cache_entries ORDER BY created_at DESC, rowid DESC LIMIT -1 OFFSET ?
+        )`
+      ).run(this.maxEntries);
+    } catch (error) {
+      throw CacheError.writeError(key, error instanceof Error ? error : new Error(String(error)));
+    }
+  }
+
+  /**
+   * Invalidate cache entries matching a pattern
+   */
+  async invalidate(pattern: string): Promise<number> {
+    if (!this.enabled) {
+      return 0;
+    }
+
+    const db = await this.getDatabase();
+    const regex = globToRegExp(pattern);
+    const keys = db
+      .query<Pick<EntryRow, "key">, []>("SELECT key FROM cache_entries")
+      .all()
+      .map((row) => row.key)
+      .filter((key) => regex.test(key));
+
+    const remove = db.query("DELETE FROM cache_entries WHERE key = ?");
+    db.transaction(() => {
+      for (const key of keys) {
+        remove.run(key);
+      }
+    })();
+
+    return keys.length;
+  }
+
+  /**
+   * Clear all cache entries
+   */
+  async clear(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const db = await this.getDatabase();
+    db.exec("DELETE FROM cache_entries");
+    this.hits = 0;
+    this.misses = 0;
+  }
+
+  /**
+   * Check if a key exists and is not expired
+   */
+  async has(key: string): Promise<boolean> {
+    if (!this.enabled) {
+      return false;
+    }
+
+    const db = await this.getDatabase();
+    const row = db
+      .query<Pick<EntryRow, "expires_at">, [string]>(
+        "SELECT expires_at FROM cache_entries WHERE key = ?"
+      )
+      .get(key);
+
+    return row !== null && row.expires_at >= Date.now();
+  }
+
+  /**
+   * Get cache statistics
+   */
+  async stats(): Promise<CacheStats> {
+    if (!this.enabled) {
+      return {
+        hits: 0,
+        misses: 0,
+        size: 0,
+        oldestEntry: null,
+        newestEntry: null,
+      };
+    }
+
+    const db = await this.getDatabase();
+    const row = db
+      .query<{ size: number; oldest: number | null; newest: number | null }, []>(
+        "SELECT COUNT(*) AS size, MIN(created_at) AS oldest, MAX(created_at) AS newest FROM cache_entries"
+      )
+      .get();
+
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      size: row?.size ?? 0,
+      oldestEntry: row?.oldest ?? null,
+      newestEntry: row?.newest ?? null,
+    };
+  }
+
+  /**
+   * Remove expired entries
+   */
+  async cleanup(): Promise<number> {
+    if (!this.enabled) {
+      return 0;
+    }
+
+    return this.deleteExpired(await this.getDatabase());
+  }
+
+  /**
+   * Close the database; it is reopened on next use
+   */
+  async close(): Promise<void> {
+    const db = await this.database?.catch(() => null);
+    db?.close();
+    this.database = null;
+  }
+}
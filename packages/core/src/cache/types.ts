@@ -86,45 +86,3 @@ export interface CacheManager {
    */
   cleanup(): Promise<number>;
 }
-
-/**
- * Generate a cache key for forecast data
- * Format: {lat}_{lon}_{model}_{date}
- */
-export function createForecastCacheKey(
-  lat: number,
-  lon: number,
-  model: string,
-  date: Date
-): string {
-  // Round coordinates to 2 decimal places for cache key stability
-  const roundedLat = Math.round(lat * 100) / 100;
-  const roundedLon = Math.round(lon * 100) / 100;
-  const dateStr = date.toISOString().split("T")[0];
-  return `${roundedLat}_${roundedLon}_${model}_${dateStr}`;
-}
-
-/**
- * Parse a forecast cache key back to components
- */
-export function parseForecastCacheKey(key: string): {
-  lat: number;
-  lon: number;
-  model: string;
-  date: string;
-} | null {
-  const parts = key.split("_");
-  if (parts.length !== 4) {
-    return null;
-  }
-  const lat = parseFloat(parts[0]!);
-  const lon = parseFloat(parts[1]!);
-  const model = parts[2]!;
-  const date = parts[3]!;
-
-  if (isNaN(lat) || isNaN(lon)) {
-    return null;
-  }
-
-  return { lat, lon, model, date };
-}
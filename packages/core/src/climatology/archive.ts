@@ -0,0 +1,212 @@
+/**
+ * Daily archive data for climate normals.
+ * Reads daily highs, lows and precipitation from the Open-Meteo archive API
+ * or a saved archive response, and loads normals through a store so the
+ * decades of data are only fetched once per site.
+ */
+
+import { readFile } from "node:fs/promises";
+import type { Coordinates } from "../types/location";
+import type { ClimateDay, ClimateNormals, ClimateNormalsStore } from "./types";
+import { computeClimateNormals } from "./normals";
+import { ClimatologyError } from "../errors/climatology";
+import { ApiError } from "../errors/api";
+import { OPEN_METEO_ARCHIVE_URL } from "../api/endpoints";
+
+/**
+ * Default number of years normals are computed from
+ */
+export const DEFAULT_NORMAL_YEARS = 30;
+
+/**
+ * Daily variables requested from the archive API
+ */
+const ARCHIVE_DAILY_VARIABLES = ["temperature_2m_max", "temperature_2m_min", "precipitation_sum"];
+
+/**
+ * Open-Meteo archive API response with daily data
+ */
+export interface ArchiveDailyResponse {
+  latitude?: number;
+  longitude?: number;
+  daily?: {
+    time?: string[];
+    temperature_2m_max?: (number | null)[];
+    temperature_2m_min?: (number | null)[];
+    precipitation_sum?: (number | null)[];
+  };
+  error?: boolean;
+  reason?: string;
+}
+
+/**
+ * Options for loading climate normals
+ */
+export interface ClimateNormalsOptions {
+  /**
+   * Store for computed normals; without one they are recomputed every time
+   */
+  store?: ClimateNormalsStore;
+
+  /**
+   * Saved archive daily response to compute normals from instead of the API
+   */
+  file?: string;
+
+  /**
+   * Archive endpoint URL (default: Open-Meteo archive API)
+   */
+  endpoint?: string;
+
+  /**
+   * Request timeout in milliseconds (default 30000)
+   */
+  timeout?: number;
+
+  /**
+   * Years of data before the current year to compute normals from (default 30)
+   */
+  years?: number;
+
+  /**
+   * Current time, which decides the most recent full year (default: now)
+   */
+  now?: Date;
+}
+
+/**
+ * Parse daily values from an archive API response
+ *
+ * @throws ClimatologyError if the response has no daily times
+ */
+export function parseArchiveDaily(data: ArchiveDailyResponse, source: string): ClimateDay[] {
+  const daily = data.daily;
+  if (!daily || !Array.isArray(daily.time)) {
+    throw ClimatologyError.invalidData(source, "response has no daily data");
+  }
+
+  /**
+   * Value of a daily variable on a day, dropping nulls
+   */
+  const at = (values: (number | null)[] | undefined, index: number): number | undefined => {
+    const value = values?.[index];
+    return value === null || value === undefined ? undefined : value;
+  };
+
+  return daily.time.map((date, index) => {
+    const temperatureMax = at(daily.temperature_2m_max, index);
+    const temperatureMin = at(daily.temperature_2m_min, index);
+    const precipitation = at(daily.precipitation_sum, index);
+    return {
+      date,
+      ...(temperatureMax !== undefined && { temperatureMax }),
+      ...(temperatureMin !== undefined && { temperatureMin }),
+      ...(precipitation !== undefined && { precipitation }),
+    };
+  });
+}
+
+/**
+ * Load daily values from a saved archive daily response
+ *
+ * @throws ClimatologyError if the file cannot be read or parsed
+ */
+export async function loadArchiveDailyFile(filePath: string): Promise<ClimateDay[]> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(await readFile(filePath, "utf-8"));
+  } catch (error) {
+    throw ClimatologyError.invalidData(
+      filePath,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  return parseArchiveDaily(parsed as ArchiveDailyResponse, filePath);
+}
+
+/**
+ * Fetch daily values for whole years from the Open-Meteo archive API
+ *
+ * @throws ApiError if the request fails
+ */
+export async function fetchArchiveDaily(
+  coordinates: Coordinates,
+  years: { startYear: number; endYear: number },
+  options: Pick<ClimateNormalsOptions, "endpoint" | "timeout"> = {}
+): Promise<ClimateDay[]> {
+  const endpoint = options.endpoint ?? OPEN_METEO_ARCHIVE_URL;
+  const timeout = options.timeout ?? 30000;
+
+  const url = new URL(endpoint);
+  url.searchParams.set("latitude", String(coordinates.latitude));
+  url.searchParams.set("longitude", String(coordinates.longitude));
+  url.searchParams.set("start_date", `${years.startYear}-01-01`);
+  url.searchParams.set("end_date", `${years.endYear}-12-31`);
+  url.searchParams.set("daily", ARCHIVE_DAILY_VARIABLES.join(","));
+  url.searchParams.set("timezone", "auto");
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  let data: ArchiveDailyResponse;
+  try {
+    const response = await fetch(url.toString(), {
+      signal: controller.signal,
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      throw ApiError.fromResponse(response.status, response.statusText, endpoint);
+    }
+
+    data = (await response.json()) as ArchiveDailyResponse;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      throw ApiError.timeout(endpoint, timeout);
+    }
+    throw ApiError.unavailable(undefined, error instanceof Error ? error : undefined);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (data.error) {
+    throw ApiError.invalidResponse(endpoint, data.reason ?? "Unknown API error");
+  }
+
+  return parseArchiveDaily(data, endpoint);
+}
+
+/**
+ * Load climate normals for a location.
+ * A configured file always wins. Otherwise stored normals are reused while
+ * they cover the expected years, and are fetched and stored when they don't.
+ *
+ * @throws ClimatologyError if the file or stored normals cannot be read
+ * @throws ApiError if the archive request fails
+ */
+export async function loadClimateNormals(
+  coordinates: Coordinates,
+  options: ClimateNormalsOptions = {}
+): Promise<ClimateNormals> {
+  if (options.file !== undefined) {
+    return computeClimateNormals(await loadArchiveDailyFile(options.file), coordinates);
+  }
+
+  const years = options.years ?? DEFAULT_NORMAL_YEARS;
+  const endYear = (options.now ?? new Date()).getUTCFullYear() - 1;
+  const startYear = endYear - years + 1;
+
+  const stored = await options.store?.get(coordinates);
+  if (stored && stored.period.startYear === startYear && stored.period.endYear === endYear) {
+    return stored;
+  }
+
+  const days = await fetchArchiveDaily(coordinates, { startYear, endYear }, options);
+  const normals = computeClimateNormals(days, coordinates);
+  await options.store?.save(normals);
+  return normals;
+}
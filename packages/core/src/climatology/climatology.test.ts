@@ -0,0 +1,346 @@
+/**
+ * Tests for climate normals: computing them from archive data, storing and
+ * loading them, and comparing forecasts against them.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "node:path";
+import { rm, writeFile, mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { computeClimateNormals, getDailyNormal, applyClimateNormals } from "./normals";
+import { parseArchiveDaily, loadClimateNormals } from "./archive";
+import { FileClimateNormalsStore } from "./file-store";
+import type { ClimateDay, ClimateNormals } from "./types";
+import { aggregateForecasts } from "../engine/aggregator";
+import { ClimatologyError } from "../errors/climatology";
+import { latitude, longitude, type Coordinates } from "../types/location";
+import type { ModelForecast, ModelName } from "../types/models";
+import type { DailyForecast } from "../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  windDirection,
+  weatherCode,
+} from "../types/weather";
+
+const DUBLIN: Coordinates = { latitude: latitude(53.35), longitude: longitude(-6.26) };
+
+/**
+ * Create daily archive values for every day of a range of years
+ */
+function createArchiveDays(
+  startYear: number,
+  endYear: number,
+  values: (date: string) => Omit<ClimateDay, "date">
+): ClimateDay[] {
+  const days: ClimateDay[] = [];
+  const end = Date.UTC(endYear, 11, 31);
+  for (let time = Date.UTC(startYear, 0, 1); time <= end; time += 86400000) {
+    const date = new Date(time).toISOString().split("T")[0];
+    days.push({ date, ...values(date) });
+  }
+  return days;
+}
+
+/**
+ * Create a daily forecast with the given high, low and precipitation
+ */
+function createDailyForecast(
+  date: Date,
+  temperatureMax: number,
+  temperatureMin: number,
+  precipitation: number
+): DailyForecast {
+  return {
+    date,
+    temperature: { min: celsius(temperatureMin), max: celsius(temperatureMax) },
+    humidity: { min: humidity(60), max: humidity(90) },
+    pressure: { min: pressure(1010), max: pressure(1020) },
+    precipitation: {
+      total: millimeters(precipitation),
+      probability: precipitation > 0 ? 80 : 10,
+      hours: precipitation > 0 ? 3 : 0,
+    },
+    wind: {
+      avgSpeed: metersPerSecond(4),
+      maxSpeed: metersPerSecond(8),
+      dominantDirection: windDirection(225),
+    },
+    cloudCover: { avg: cloudCover(65), max: cloudCover(85) },
+    uvIndex: { max: uvIndex(3) },
+    sun: {
+      sunrise: new Date(date.getTime() + 7 * 3600000),
+      sunset: new Date(date.getTime() + 17 * 3600000),
+      daylightHours: 10,
+    },
+    weatherCode: weatherCode(3),
+    hourly: [],
+  };
+}
+
+/**
+ * Create a model forecast of consecutive days from October 14th 2026
+ */
+function createModelForecast(
+  model: ModelName,
+  days: Array<{ max: number; min: number; precipitation: number }>
+): ModelForecast {
+  const start = Date.UTC(2026, 9, 14);
+  const daily = days.map((day, index) =>
+    createDailyForecast(new Date(start + index * 86400000), day.max, day.min, day.precipitation)
+  );
+  return {
+    model,
+    coordinates: DUBLIN,
+    generatedAt: new Date(start),
+    validFrom: new Date(start),
+    validTo: new Date(start + days.length * 86400000),
+    hourly: [],
+    daily,
+  };
+}
+
+/**
+ * Normals of 13°C/6°C and 2mm for every October day, with an October wettest
+ * week of 20mm in each year from 1996 to 2025 except a 40mm week in 2018
+ */
+function createOctoberNormals(): ClimateNormals {
+  return {
+    coordinates: DUBLIN,
+    period: { startYear: 1996, endYear: 2025 },
+    days: Array.from({ length: 31 }, (_, i) => ({
+      day: `10-${String(i + 1).padStart(2, "0")}`,
+      temperatureMax: 13,
+      temperatureMin: 6,
+      precipitation: 2,
+    })),
+    wettestWeeks: Array.from({ length: 30 }, (_, i) => ({
+      year: 1996 + i,
+      month: 10,
+      precipitation: 1996 + i === 2018 ? 40 : 20,
+    })),
+  };
+}
+
+describe("computeClimateNormals", () => {
+  it("should average each calendar day over the years", () => {
+    const days = createArchiveDays(2001, 2010, () => ({
+      temperatureMax: 15,
+      temperatureMin: 5,
+      precipitation: 2,
+    }));
+    const normals = computeClimateNormals(days, DUBLIN);
+
+    expect(normals.period).toEqual({ startYear: 2001, endYear: 2010 });
+    expect(normals.days).toHaveLength(366);
+    expect(getDailyNormal(normals, new Date("2026-07-01T00:00:00Z"))).toEqual({
+      day: "07-01",
+      temperatureMax: 15,
+      temperatureMin: 5,
+      precipitation: 2,
+    });
+  });
+
+  it("should smooth a single unusual day across its neighbours", () => {
+    const days = createArchiveDays(2001, 2010, (date) => ({
+      temperatureMax: date.endsWith("-07-01") ? 30 : 15,
+      temperatureMin: 5,
+      precipitation: 0,
+    }));
+    const normals = computeClimateNormals(days, DUBLIN);
+
+    expect(getDailyNormal(normals, "2026-07-01")?.temperatureMax).toBe(16);
+    expect(getDailyNormal(normals, "2026-07-08")?.temperatureMax).toBe(16);
+    expect(getDailyNormal(normals, "2026-07-09")?.temperatureMax).toBe(15);
+  });
+
+  it("should record each month's wettest week per year", () => {
+    const days = createArchiveDays(2001, 2002, (date) => ({
+      temperatureMax: 15,
+      temperatureMin: 5,
+      precipitation: date === "2002-10-20" ? 30 : 1,
+    }));
+    const october = computeClimateNormals(days, DUBLIN).wettestWeeks.filter(
+      (week) => week.month === 10
+    );
+
+    expect(october).toEqual([
+      { year: 2001, month: 10, precipitation: 7 },
+      { year: 2002, month: 10, precipitation: 36 },
+    ]);
+  });
+
+  it("should reject empty archive data", () => {
+    expect(() => computeClimateNormals([], DUBLIN)).toThrow(ClimatologyError);
+  });
+});
+
+describe("applyClimateNormals", () => {
+  it("should add each day's departure from its normal", () => {
+    const aggregated = aggregateForecasts([
+      createModelForecast("ecmwf", [
+        { max: 17.2, min: 7, precipitation: 0 },
+        { max: 12, min: 4.5, precipitation: 6 },
+      ]),
+    ]);
+    const result = applyClimateNormals(aggregated, createOctoberNormals());
+
+    expect(result.consensus.daily[0].anomaly).toEqual({
+      normal: { temperatureMax: 13, temperatureMin: 6, precipitation: 2 },
+      temperatureMax: 4.2,
+      temperatureMin: 1,
+      precipitation: -2,
+    });
+    expect(result.consensus.daily[1].anomaly?.temperatureMax).toBe(-1);
+    expect(result.climatology).toEqual({ period: { startYear: 1996, endYear: 2025 } });
+  });
+
+  it("should report a week wetter than recent years' wettest weeks", () => {
+    const week = Array.from({ length: 7 }, () => ({ max: 13, min: 6, precipitation: 5 }));
+    const result = applyClimateNormals(
+      aggregateForecasts([createModelForecast("ecmwf", week)]),
+      createOctoberNormals()
+    );
+
+    // 35mm beats every October since the 40mm week of 2018
+    expect(result.climatology?.wettestWeek).toEqual({ month: 10, years: 7, precipitation: 35 });
+  });
+
+  it("should not report weeks that recent years have beaten", () => {
+    const week = Array.from({ length: 7 }, () => ({ max: 13, min: 6, precipitation: 2 }));
+    const result = applyClimateNormals(
+      aggregateForecasts([createModelForecast("ecmwf", week)]),
+      createOctoberNormals()
+    );
+
+    expect(result.climatology?.wettestWeek).toBeUndefined();
+  });
+
+  it("should leave out anomalies for metrics the models do not forecast", () => {
+    const forecast = createModelForecast("ecmwf", [
+      { max: 17.2, min: 7, precipitation: 10 },
+      ...Array.from({ length: 6 }, () => ({ max: 13, min: 6, precipitation: 10 })),
+    ]);
+    const result = applyClimateNormals(
+      aggregateForecasts([
+        {
+          ...forecast,
+          daily: forecast.daily.map((day) => ({
+            ...day,
+            missing: ["temperatureMin", "precipitation"] as const,
+          })),
+        },
+      ]),
+      createOctoberNormals()
+    );
+
+    expect(result.consensus.daily[0].anomaly).toEqual({
+      normal: { temperatureMax: 13, temperatureMin: 6, precipitation: 2 },
+      temperatureMax: 4.2,
+    });
+    // 70mm of placeholders would otherwise be a record week
+    expect(result.climatology?.wettestWeek).toBeUndefined();
+  });
+
+  it("should leave days without a normal unchanged", () => {
+    const aggregated = aggregateForecasts([
+      createModelForecast("ecmwf", [{ max: 13, min: 6, precipitation: 0 }]),
+    ]);
+    const result = applyClimateNormals(aggregated, { ...createOctoberNormals(), days: [] });
+
+    expect(result.consensus.daily[0].anomaly).toBeUndefined();
+  });
+});
+
+describe("parseArchiveDaily", () => {
+  it("should parse daily values, dropping nulls", () => {
+    expect(
+      parseArchiveDaily(
+        {
+          daily: {
+            time: ["2020-01-01", "2020-01-02"],
+            temperature_2m_max: [8.1, null],
+            temperature_2m_min: [2.4, 1.9],
+            precipitation_sum: [0, 3.2],
+          },
+        },
+        "test"
+      )
+    ).toEqual([
+      { date: "2020-01-01", temperatureMax: 8.1, temperatureMin: 2.4, precipitation: 0 },
+      { date: "2020-01-02", temperatureMin: 1.9, precipitation: 3.2 },
+    ]);
+  });
+
+  it("should reject responses without daily data", () => {
+    expect(() => parseArchiveDaily({}, "test")).toThrow(ClimatologyError);
+  });
+});
+
+describe("loading climate normals", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = join(tmpdir(), `weather-oracle-climatology-${randomUUID()}`);
+    await mkdir(directory, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should store and read normals per site", async () => {
+    const store = new FileClimateNormalsStore({ directory });
+    const normals = createOctoberNormals();
+
+    expect(await store.get(DUBLIN)).toBeNull();
+    await store.save(normals);
+    expect(await store.get(DUBLIN)).toEqual(normals);
+
+    await store.clear(DUBLIN);
+    expect(await store.get(DUBLIN)).toBeNull();
+  });
+
+  it("should compute normals from an archive file", async () => {
+    const days = createArchiveDays(2001, 2002, () => ({
+      temperatureMax: 11,
+      temperatureMin: 3,
+      precipitation: 1,
+    }));
+    const file = join(directory, "archive.json");
+    await writeFile(
+      file,
+      JSON.stringify({
+        daily: {
+          time: days.map((d) => d.date),
+          temperature_2m_max: days.map((d) => d.temperatureMax),
+          temperature_2m_min: days.map((d) => d.temperatureMin),
+          precipitation_sum: days.map((d) => d.precipitation),
+        },
+      })
+    );
+
+    const normals = await loadClimateNormals(DUBLIN, { file });
+    expect(normals.period).toEqual({ startYear: 2001, endYear: 2002 });
+    expect(getDailyNormal(normals, "2026-03-10")?.temperatureMax).toBe(11);
+  });
+
+  it("should reuse stored normals covering the expected years", async () => {
+    const store = new FileClimateNormalsStore({ directory });
+    await store.save(createOctoberNormals());
+
+    const normals = await loadClimateNormals(DUBLIN, {
+      store,
+      endpoint: "http://127.0.0.1:1/archive",
+      now: new Date("2026-10-19T12:00:00Z"),
+    });
+
+    expect(normals.period).toEqual({ startYear: 1996, endYear: 2025 });
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * File-based climate normals store.
+ * Stores normals per site as JSON files in
+ * ~/.weather-oracle/climatology/<site>/normals.json
+ */
+
+import { homedir, tmpdir } from "node:os";
+import { join, dirname } from "node:path";
+import { readFile, writeFile, mkdir, rename, rm, unlink } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import type { Coordinates } from "../types/location";
+import type { ClimateNormals, ClimateNormalsStore } from "./types";
+import { createSiteKey } from "../verification/records";
+import { ClimatologyError } from "../errors/climatology";
+
+const NORMALS_FILE = "normals.json";
+
+/**
+ * Configuration options for FileClimateNormalsStore
+ */
+export interface FileClimateNormalsStoreOptions {
+  /**
+   * Directory for climate normals (default: ~/.weather-oracle/climatology)
+   */
+  directory?: string;
+}
+
+/**
+ * File-based climate normals store implementation
+ */
+export class FileClimateNormalsStore implements ClimateNormalsStore {
+  private readonly directory: string;
+
+  constructor(options: FileClimateNormalsStoreOptions = {}) {
+    this.directory = options.directory ?? join(homedir(), ".weather-oracle", "climatology");
+  }
+
+  /**
+   * Get the normals file for a site
+   */
+  private getNormalsFile(coordinates: Coordinates): string {
+    return join(this.directory, createSiteKey(coordinates), NORMALS_FILE);
+  }
+
+  /**
+   * Get the stored normals for a site, or null if there are none
+   */
+  async get(coordinates: Coordinates): Promise<ClimateNormals | null> {
+    const filePath = this.getNormalsFile(coordinates);
+    try {
+      return JSON.parse(await readFile(filePath, "utf-8")) as ClimateNormals;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw ClimatologyError.storeError(
+        filePath,
+        "read",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Store normals atomically, replacing any for the same site
+   */
+  async save(normals: ClimateNormals): Promise<void> {
+    const filePath = this.getNormalsFile(normals.coordinates);
+    const tempPath = join(tmpdir(), `weather-oracle-${randomUUID()}.tmp`);
+
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(normals), "utf-8");
+      await rename(tempPath, filePath);
+    } catch (error) {
+      try {
+        await unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw ClimatologyError.storeError(
+        filePath,
+        "write",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Remove the stored normals for a site
+   */
+  async clear(coordinates: Coordinates): Promise<void> {
+    await rm(join(this.directory, createSiteKey(coordinates)), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Create a climate normals store with the given options
+ */
+export function createClimateNormalsStore(
+  options?: FileClimateNormalsStoreOptions
+): ClimateNormalsStore {
+  return new FileClimateNormalsStore(options);
+}
@@ -0,0 +1,41 @@
+/**
+ * Climatology module.
+ * Computes 30-year daily normals per location from archive data, stores
+ * them locally, and reports how a forecast departs from them.
+ */
+
+// Types
+export type {
+  ClimateDay,
+  DailyNormal,
+  MonthlyWettestWeek,
+  ClimateNormals,
+  ClimateNormalsStore,
+} from "./types";
+
+// Normals and anomalies
+export {
+  computeClimateNormals,
+  getDailyNormal,
+  applyClimateNormals,
+  NORMAL_SMOOTHING_DAYS,
+  WETTEST_WEEK_MIN_YEARS,
+} from "./normals";
+
+// Archive data
+export {
+  parseArchiveDaily,
+  loadArchiveDailyFile,
+  fetchArchiveDaily,
+  loadClimateNormals,
+  DEFAULT_NORMAL_YEARS,
+  type ArchiveDailyResponse,
+  type ClimateNormalsOptions,
+} from "./archive";
+
+// File-based store implementation
+export {
+  FileClimateNormalsStore,
+  createClimateNormalsStore,
+  type FileClimateNormalsStoreOptions,
+} from "./file-store";
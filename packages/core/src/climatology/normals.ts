@@ -0,0 +1,262 @@
+/**
+ * Climate normals for Weather Oracle.
+ * Computes smoothed daily normals and each month's wettest weeks from daily
+ * archive values, and compares aggregated forecasts against them.
+ */
+
+import type { Coordinates } from "../types/location";
+import type {
+  AggregatedForecast,
+  AggregatedDailyForecast,
+  ClimateComparison,
+  DailyAnomaly,
+} from "../types/models";
+import { hasDailyMetric } from "../types/weather";
+import type { ClimateDay, ClimateNormals, DailyNormal, MonthlyWettestWeek } from "./types";
+import { ClimatologyError } from "../errors/climatology";
+
+/**
+ * Days either side of a calendar day averaged into its normal, so that
+ * 30 samples per day give a smooth seasonal curve
+ */
+export const NORMAL_SMOOTHING_DAYS = 7;
+
+/**
+ * Fewest recent years a forecast week must out-rain before it is reported
+ * as the wettest week for its month
+ */
+export const WETTEST_WEEK_MIN_YEARS = 5;
+
+/**
+ * Days in a week, for wettest-week records
+ */
+const WEEK_DAYS = 7;
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Daily values that normals are computed for
+ */
+type NormalMetric = "temperatureMax" | "temperatureMin" | "precipitation";
+
+const NORMAL_METRICS: readonly NormalMetric[] = [
+  "temperatureMax",
+  "temperatureMin",
+  "precipitation",
+];
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Mean of a list of values, or undefined when it is empty
+ */
+function mean(values: readonly number[]): number | undefined {
+  return values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+}
+
+/**
+ * Calendar day (MM-DD) of a date, using its UTC date as forecast days do
+ */
+function calendarDayOf(date: Date | string): string {
+  return new Date(date).toISOString().slice(5, 10);
+}
+
+/**
+ * Defined values of one metric across days
+ */
+function valuesOf(days: readonly ClimateDay[], metric: NormalMetric): number[] {
+  return days.flatMap((day) => (day[metric] === undefined ? [] : [day[metric]]));
+}
+
+/**
+ * Compute each month's wettest 7-day precipitation total per year.
+ * A week counts for the month its last day falls in; weeks with a missing
+ * day are skipped.
+ */
+function computeWettestWeeks(days: readonly ClimateDay[]): MonthlyWettestWeek[] {
+  const sorted = [...days].sort((a, b) => a.date.localeCompare(b.date));
+  const wettest = new Map<string, MonthlyWettestWeek>();
+
+  for (let end = WEEK_DAYS - 1; end < sorted.length; end++) {
+    const first = sorted[end - WEEK_DAYS + 1];
+    const last = sorted[end];
+    const span = (Date.parse(last.date) - Date.parse(first.date)) / DAY_MS;
+    const precipitation = valuesOf(sorted.slice(end - WEEK_DAYS + 1, end + 1), "precipitation");
+    if (span !== WEEK_DAYS - 1 || precipitation.length !== WEEK_DAYS) {
+      continue;
+    }
+
+    const year = Number(last.date.slice(0, 4));
+    const month = Number(last.date.slice(5, 7));
+    const total = round1(precipitation.reduce((a, b) => a + b, 0));
+    const key = `${year}-${month}`;
+    const existing = wettest.get(key);
+    if (!existing || total > existing.precipitation) {
+      wettest.set(key, { year, month, precipitation: total });
+    }
+  }
+
+  return [...wettest.values()].sort((a, b) => a.year - b.year || a.month - b.month);
+}
+
+/**
+ * Compute climate normals from daily archive values.
+ * Each calendar day's normal is the mean over the years, smoothed over
+ * NORMAL_SMOOTHING_DAYS either side.
+ *
+ * @throws ClimatologyError if there are no daily values
+ */
+export function computeClimateNormals(
+  days: readonly ClimateDay[],
+  coordinates: Coordinates
+): ClimateNormals {
+  if (days.length === 0) {
+    throw ClimatologyError.invalidData("daily values", "no days to compute normals from");
+  }
+
+  const byCalendarDay = new Map<string, ClimateDay[]>();
+  for (const day of days) {
+    const key = day.date.slice(5, 10);
+    byCalendarDay.set(key, [...(byCalendarDay.get(key) ?? []), day]);
+  }
+  const calendar = [...byCalendarDay.keys()].sort();
+  const dailyMeans = calendar.map((key) => {
+    const group = byCalendarDay.get(key) ?? [];
+    return NORMAL_METRICS.map((metric) => mean(valuesOf(group, metric)));
+  });
+
+  const normals: DailyNormal[] = [];
+  calendar.forEach((day, index) => {
+    const smoothed = NORMAL_METRICS.map((_, m) => {
+      const window: number[] = [];
+      for (let offset = -NORMAL_SMOOTHING_DAYS; offset <= NORMAL_SMOOTHING_DAYS; offset++) {
+        const value = dailyMeans[(index + offset + calendar.length) % calendar.length][m];
+        if (value !== undefined) {
+          window.push(value);
+        }
+      }
+      return mean(window);
+    });
+
+    const [temperatureMax, temperatureMin, precipitation] = smoothed;
+    if (
+      temperatureMax !== undefined &&
+      temperatureMin !== undefined &&
+      precipitation !== undefined
+    ) {
+      normals.push({
+        day,
+        temperatureMax: round1(temperatureMax),
+        temperatureMin: round1(temperatureMin),
+        precipitation: round1(precipitation),
+      });
+    }
+  });
+
+  const years = days.map((day) => Number(day.date.slice(0, 4)));
+
+  return {
+    coordinates,
+    period: { startYear: Math.min(...years), endYear: Math.max(...years) },
+    days: normals,
+    wettestWeeks: computeWettestWeeks(days),
+  };
+}
+
+/**
+ * Get the normal for a date, if the normals cover its calendar day
+ */
+export function getDailyNormal(
+  normals: ClimateNormals,
+  date: Date | string
+): DailyNormal | undefined {
+  const key = calendarDayOf(date);
+  return normals.days.find((normal) => normal.day === key);
+}
+
+/**
+ * Compare an aggregated day with its normal, leaving out metrics the
+ * forecast lacks rather than comparing their placeholders
+ */
+function computeAnomaly(day: AggregatedDailyForecast, normal: DailyNormal): DailyAnomaly {
+  const { temperature, precipitation } = day.forecast;
+  return {
+    normal: {
+      temperatureMax: normal.temperatureMax,
+      temperatureMin: normal.temperatureMin,
+      precipitation: normal.precipitation,
+    },
+    ...(hasDailyMetric(day.forecast, "temperatureMax") && {
+      temperatureMax: round1(temperature.max - normal.temperatureMax),
+    }),
+    ...(hasDailyMetric(day.forecast, "temperatureMin") && {
+      temperatureMin: round1(temperature.min - normal.temperatureMin),
+    }),
+    ...(hasDailyMetric(day.forecast, "precipitation") && {
+      precipitation: round1(precipitation.total - normal.precipitation),
+    }),
+  };
+}
+
+/**
+ * Check whether the forecast's first week would be the wettest week for its
+ * month in at least WETTEST_WEEK_MIN_YEARS of the most recent years (never
+ * when a day's precipitation is not forecast)
+ */
+function findWettestWeek(
+  daily: readonly AggregatedDailyForecast[],
+  normals: ClimateNormals
+): ClimateComparison["wettestWeek"] {
+  const week = daily.slice(0, WEEK_DAYS);
+  if (week.length < WEEK_DAYS || !week.every((d) => hasDailyMetric(d.forecast, "precipitation"))) {
+    return undefined;
+  }
+
+  const precipitation = round1(week.reduce((sum, d) => sum + d.forecast.precipitation.total, 0));
+  const month = new Date(week[WEEK_DAYS - 1].date).getUTCMonth() + 1;
+
+  const records = normals.wettestWeeks
+    .filter((record) => record.month === month)
+    .sort((a, b) => b.year - a.year);
+  let years = 0;
+  for (const record of records) {
+    if (record.precipitation >= precipitation) {
+      break;
+    }
+    years++;
+  }
+
+  return years >= WETTEST_WEEK_MIN_YEARS ? { month, years, precipitation } : undefined;
+}
+
+/**
+ * Add climate anomalies to an aggregated forecast: each day's departure from
+ * its normal, and whether the week ahead is a record wet one for the month.
+ */
+export function applyClimateNormals(
+  aggregated: AggregatedForecast,
+  normals: ClimateNormals
+): AggregatedForecast {
+  const daily = aggregated.consensus.daily.map((day) => {
+    const normal = getDailyNormal(normals, day.date);
+    return normal ? { ...day, anomaly: computeAnomaly(day, normal) } : day;
+  });
+  const wettestWeek = findWettestWeek(daily, normals);
+
+  return {
+    ...aggregated,
+    consensus: { ...aggregated.consensus, daily },
+    climatology: {
+      period: normals.period,
+      ...(wettestWeek && { wettestWeek }),
+    },
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Type definitions for climate normals.
+ */
+
+import type { Coordinates } from "../types/location";
+
+/**
+ * Observed daily values for one date, as read from archive data
+ */
+export interface ClimateDay {
+  /**
+   * Date (YYYY-MM-DD)
+   */
+  readonly date: string;
+  readonly temperatureMax?: number;
+  readonly temperatureMin?: number;
+  /**
+   * Total precipitation in mm
+   */
+  readonly precipitation?: number;
+}
+
+/**
+ * Normal (smoothed mean) for one calendar day
+ */
+export interface DailyNormal {
+  /**
+   * Calendar day (MM-DD)
+   */
+  readonly day: string;
+  readonly temperatureMax: number;
+  readonly temperatureMin: number;
+  /**
+   * Mean daily precipitation in mm
+   */
+  readonly precipitation: number;
+}
+
+/**
+ * Wettest 7-day precipitation total ending in one month of one year
+ */
+export interface MonthlyWettestWeek {
+  readonly year: number;
+  /**
+   * Month (1-12)
+   */
+  readonly month: number;
+  /**
+   * Precipitation over the week in mm
+   */
+  readonly precipitation: number;
+}
+
+/**
+ * Climate normals for a location
+ */
+export interface ClimateNormals {
+  readonly coordinates: Coordinates;
+  /**
+   * Years the normals were computed from
+   */
+  readonly period: { readonly startYear: number; readonly endYear: number };
+  /**
+   * One normal per calendar day, January 1st first
+   */
+  readonly days: readonly DailyNormal[];
+  readonly wettestWeeks: readonly MonthlyWettestWeek[];
+}
+
+/**
+ * Storage for computed climate normals, one set per site
+ */
+export interface ClimateNormalsStore {
+  /**
+   * Get the stored normals for a site, or null if there are none
+   */
+  get(coordinates: Coordinates): Promise<ClimateNormals | null>;
+
+  /**
+   * Store normals, replacing any for the same site
+   */
+  save(normals: ClimateNormals): Promise<void>;
+
+  /**
+   * Remove the stored normals for a site
+   */
+  clear(coordinates: Coordinates): Promise<void>;
+}
@@ -7,9 +7,23 @@
 export {
   unitSystemSchema,
   outputFormatSchema,
+  weightingStrategySchema,
   apiEndpointsSchema,
+  geocodingModeSchema,
+  geocodingConfigSchema,
   cacheConfigSchema,
   modelConfigSchema,
+  aggregationMethodSchema,
+  aggregationConfigSchema,
+  providerConfigSchema,
+  verificationConfigSchema,
+  runsConfigSchema,
+  climatologyConfigSchema,
+  alertRuleSchema,
+  alertConfigSchema,
+  savedLocationSchema,
+  locationsConfigSchema,
+  watchConfigSchema,
   displayConfigSchema,
   appConfigSchema,
   DEFAULT_CONFIG,
@@ -20,9 +34,22 @@ export {
 export type {
   UnitSystem,
   OutputFormat,
+  WeightingStrategyConfig,
   ApiEndpoints,
+  GeocodingMode,
+  GeocodingConfig,
   CacheConfig,
   ModelConfig,
+  AggregationConfig,
+  ProviderConfig,
+  VerificationConfig,
+  RunsConfig,
+  ClimatologyConfig,
+  AlertRuleConfig,
+  AlertConfig,
+  SavedLocationConfig,
+  LocationsConfig,
+  WatchConfig,
   DisplayConfig,
   AppConfig,
 } from "./schema";
@@ -53,3 +80,14 @@ export {
   formatConfigValue,
   type ConfigKey,
 } from "./operations";
+
+// Saved locations
+export {
+  findSavedLocation,
+  toGeocodingResult,
+  createSavedLocation,
+  addSavedLocation,
+  removeSavedLocation,
+  setDefaultLocation,
+  type SavedLocationDefaults,
+} from "./locations";
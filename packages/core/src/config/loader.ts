@@ -97,27 +97,51 @@ function loadEnvConfig(): Partial<AppConfig> {
 
   // API endpoints
   const forecastUrl = process.env[`${ENV_PREFIX}API_FORECAST_URL`];
+  const historicalForecastUrl = process.env[`${ENV_PREFIX}API_HISTORICAL_FORECAST_URL`];
+  const archiveUrl = process.env[`${ENV_PREFIX}API_ARCHIVE_URL`];
+  const ensembleUrl = process.env[`${ENV_PREFIX}API_ENSEMBLE_URL`];
   const geocodingUrl = process.env[`${ENV_PREFIX}API_GEOCODING_URL`];
-  if (forecastUrl !== undefined || geocodingUrl !== undefined) {
+  const reverseGeocodingUrl = process.env[`${ENV_PREFIX}API_REVERSE_GEOCODING_URL`];
+  if (
+    forecastUrl !== undefined ||
+    historicalForecastUrl !== undefined ||
+    archiveUrl !== undefined ||
+    ensembleUrl !== undefined ||
+    geocodingUrl !== undefined ||
+    reverseGeocodingUrl !== undefined
+  ) {
     config.api = {
       ...(forecastUrl !== undefined && { forecast: forecastUrl }),
+      ...(historicalForecastUrl !== undefined && { historicalForecast: historicalForecastUrl }),
+      ...(archiveUrl !== undefined && { archive: archiveUrl }),
+      ...(ensembleUrl !== undefined && { ensemble: ensembleUrl }),
       ...(geocodingUrl !== undefined && { geocoding: geocodingUrl }),
+      ...(reverseGeocodingUrl !== undefined && { reverseGeocoding: reverseGeocodingUrl }),
     };
   }
 
+  // Geocoding settings
+  const geocodingMode = process.env[`${ENV_PREFIX}GEOCODING_MODE`];
+  if (geocodingMode !== undefined) {
+    config.geocoding = { mode: geocodingMode };
+  }
+
   // Cache settings
   const cacheEnabled = process.env[`${ENV_PREFIX}CACHE_ENABLED`];
+  const cacheBackend = process.env[`${ENV_PREFIX}CACHE_BACKEND`];
   const cacheTtl = process.env[`${ENV_PREFIX}CACHE_TTL_SECONDS`];
   const cacheMaxEntries = process.env[`${ENV_PREFIX}CACHE_MAX_ENTRIES`];
   const cacheDir = process.env[`${ENV_PREFIX}CACHE_DIRECTORY`];
   if (
     cacheEnabled !== undefined ||
+    cacheBackend !== undefined ||
     cacheTtl !== undefined ||
     cacheMaxEntries !== undefined ||
     cacheDir !== undefined
   ) {
     config.cache = {
       ...(cacheEnabled !== undefined && { enabled: cacheEnabled === "true" }),
+      ...(cacheBackend !== undefined && { backend: cacheBackend }),
       ...(cacheTtl !== undefined && { ttlSeconds: parseInt(cacheTtl, 10) }),
       ...(cacheMaxEntries !== undefined && {
         maxEntries: parseInt(cacheMaxEntries, 10),
@@ -130,11 +154,88 @@ function loadEnvConfig(): Partial<AppConfig> {
   const defaultModels = process.env[`${ENV_PREFIX}DEFAULT_MODELS`];
   const timeout = process.env[`${ENV_PREFIX}MODEL_TIMEOUT`];
   const retries = process.env[`${ENV_PREFIX}MODEL_RETRIES`];
-  if (defaultModels !== undefined || timeout !== undefined || retries !== undefined) {
+  const retryDelay = process.env[`${ENV_PREFIX}MODEL_RETRY_DELAY_MS`];
+  const maxRetryDelay = process.env[`${ENV_PREFIX}MODEL_MAX_RETRY_DELAY_MS`];
+  const batchRequests = process.env[`${ENV_PREFIX}MODEL_BATCH_REQUESTS`];
+  const weighting = process.env[`${ENV_PREFIX}MODEL_WEIGHTING`];
+  const skillScores = process.env[`${ENV_PREFIX}SKILL_SCORES`];
+  if (
+    defaultModels !== undefined ||
+    timeout !== undefined ||
+    retries !== undefined ||
+    retryDelay !== undefined ||
+    maxRetryDelay !== undefined ||
+    batchRequests !== undefined ||
+    weighting !== undefined ||
+    skillScores !== undefined
+  ) {
     config.models = {
       ...(defaultModels !== undefined && { defaults: defaultModels.split(",") }),
       ...(timeout !== undefined && { timeout: parseInt(timeout, 10) }),
       ...(retries !== undefined && { retries: parseInt(retries, 10) }),
+      ...(retryDelay !== undefined && { retryDelayMs: parseInt(retryDelay, 10) }),
+      ...(maxRetryDelay !== undefined && { maxRetryDelayMs: parseInt(maxRetryDelay, 10) }),
+      ...(batchRequests !== undefined && { batchRequests: batchRequests === "true" }),
+      ...(weighting !== undefined && { weighting }),
+      ...(skillScores !== undefined && { skillScores }),
+    };
+  }
+
+  // Provider settings
+  const userAgent = process.env[`${ENV_PREFIX}PROVIDER_USER_AGENT`];
+  const localFile = process.env[`${ENV_PREFIX}LOCAL_FORECAST_FILE`];
+  if (userAgent !== undefined || localFile !== undefined) {
+    config.providers = {
+      ...(userAgent !== undefined && { userAgent }),
+      ...(localFile !== undefined && { localFile }),
+    };
+  }
+
+  // Verification settings
+  const verificationEnabled = process.env[`${ENV_PREFIX}VERIFICATION_ENABLED`];
+  const verificationDir = process.env[`${ENV_PREFIX}VERIFICATION_DIRECTORY`];
+  const retentionDays = process.env[`${ENV_PREFIX}VERIFICATION_RETENTION_DAYS`];
+  if (
+    verificationEnabled !== undefined ||
+    verificationDir !== undefined ||
+    retentionDays !== undefined
+  ) {
+    config.verification = {
+      ...(verificationEnabled !== undefined && {
+        enabled: verificationEnabled === "true",
+      }),
+      ...(verificationDir !== undefined && { directory: verificationDir }),
+      ...(retentionDays !== undefined && { retentionDays: parseInt(retentionDays, 10) }),
+    };
+  }
+
+  // Model run history settings
+  const runsEnabled = process.env[`${ENV_PREFIX}RUNS_ENABLED`];
+  const runsDir = process.env[`${ENV_PREFIX}RUNS_DIRECTORY`];
+  const runsRetentionDays = process.env[`${ENV_PREFIX}RUNS_RETENTION_DAYS`];
+  if (runsEnabled !== undefined || runsDir !== undefined || runsRetentionDays !== undefined) {
+    config.runs = {
+      ...(runsEnabled !== undefined && { enabled: runsEnabled === "true" }),
+      ...(runsDir !== undefined && { directory: runsDir }),
+      ...(runsRetentionDays !== undefined && {
+        retentionDays: parseInt(runsRetentionDays, 10),
+      }),
+    };
+  }
+
+  // Climate normals settings
+  const climatologyEnabled = process.env[`${ENV_PREFIX}CLIMATOLOGY_ENABLED`];
+  const climatologyDir = process.env[`${ENV_PREFIX}CLIMATOLOGY_DIRECTORY`];
+  const climatologyFile = process.env[`${ENV_PREFIX}CLIMATOLOGY_FILE`];
+  if (
+    climatologyEnabled !== undefined ||
+    climatologyDir !== undefined ||
+    climatologyFile !== undefined
+  ) {
+    config.climatology = {
+      ...(climatologyEnabled !== undefined && { enabled: climatologyEnabled === "true" }),
+      ...(climatologyDir !== undefined && { directory: climatologyDir }),
+      ...(climatologyFile !== undefined && { file: climatologyFile }),
     };
   }
 
@@ -0,0 +1,111 @@
+/**
+ * Tests for saved location operations
+ */
+
+import { describe, expect, it } from "bun:test";
+import {
+  findSavedLocation,
+  toGeocodingResult,
+  createSavedLocation,
+  addSavedLocation,
+  removeSavedLocation,
+  setDefaultLocation,
+} from "./locations";
+import { DEFAULT_CONFIG, appConfigSchema, type LocationsConfig } from "./schema";
+import { createCoordinates, timezoneId, type GeocodingResult } from "../types/location";
+import { ConfigError } from "../errors/config";
+
+const LONDON: GeocodingResult = {
+  name: "London",
+  coordinates: createCoordinates(51.5074, -0.1278),
+  country: "United Kingdom",
+  countryCode: "GB",
+  region: "England",
+  timezone: timezoneId("Europe/London"),
+  population: 8961989,
+};
+
+const OSLO: GeocodingResult = {
+  name: "Oslo",
+  coordinates: createCoordinates(59.9127, 10.7461),
+  country: "Norway",
+  countryCode: "NO",
+  timezone: timezoneId("Europe/Oslo"),
+};
+
+describe("saved locations", () => {
+  it("defaults to no saved locations", () => {
+    expect(DEFAULT_CONFIG.locations).toEqual({ saved: [] });
+  });
+
+  it("creates an entry that round-trips to a geocoding result", () => {
+    const entry = createSavedLocation("home", LONDON, { models: ["ecmwf", "icon"], days: 5 });
+
+    expect(entry.alias).toBe("home");
+    expect(entry.models).toEqual(["ecmwf", "icon"]);
+    expect(entry.days).toBe(5);
+    expect(entry.units).toBeUndefined();
+    expect(toGeocodingResult(entry)).toEqual(LONDON);
+  });
+
+  it("rejects invalid aliases and defaults", () => {
+    expect(() => createSavedLocation("my home", LONDON)).toThrow(ConfigError);
+    expect(() => createSavedLocation("home", LONDON, { models: ["nope"] })).toThrow(ConfigError);
+    expect(() => createSavedLocation("home", LONDON, { days: 30 })).toThrow(ConfigError);
+  });
+
+  it("finds entries by alias case-insensitively", () => {
+    const locations = addSavedLocation({}, createSavedLocation("Site-3", OSLO));
+
+    expect(findSavedLocation(locations, "site-3")?.resolved.name).toBe("Oslo");
+    expect(findSavedLocation(locations, " SITE-3 ")?.resolved.name).toBe("Oslo");
+    expect(findSavedLocation(locations, "home")).toBeUndefined();
+  });
+
+  it("replaces an entry when adding an existing alias", () => {
+    let locations = addSavedLocation({}, createSavedLocation("home", LONDON));
+    locations = addSavedLocation(locations, createSavedLocation("work", OSLO));
+    locations = addSavedLocation(locations, createSavedLocation("HOME", OSLO, { units: "imperial" }));
+
+    expect(locations.saved.map((l) => l.alias)).toEqual(["HOME", "work"]);
+    expect(locations.saved[0]?.resolved.name).toBe("Oslo");
+    expect(locations.saved[0]?.units).toBe("imperial");
+  });
+
+  it("sets the default to the saved alias spelling", () => {
+    const locations = setDefaultLocation(
+      addSavedLocation({}, createSavedLocation("Home", LONDON)),
+      "home"
+    );
+
+    expect(locations.default).toBe("Home");
+    expect(() => setDefaultLocation(locations, "work")).toThrow(ConfigError);
+  });
+
+  it("removes entries and clears a default that pointed at them", () => {
+    let locations: LocationsConfig = addSavedLocation({}, createSavedLocation("home", LONDON));
+    locations = addSavedLocation(locations, createSavedLocation("work", OSLO));
+    locations = setDefaultLocation(locations, "home");
+
+    const withoutWork = removeSavedLocation(locations, "work");
+    expect(withoutWork.saved.map((l) => l.alias)).toEqual(["home"]);
+    expect(withoutWork.default).toBe("home");
+
+    const withoutHome = removeSavedLocation(locations, "HOME");
+    expect(withoutHome.saved.map((l) => l.alias)).toEqual(["work"]);
+    expect(withoutHome.default).toBeUndefined();
+
+    expect(() => removeSavedLocation(locations, "cabin")).toThrow(ConfigError);
+  });
+
+  it("stores entries that validate as part of the app config", () => {
+    const locations = setDefaultLocation(
+      addSavedLocation({}, createSavedLocation("home", LONDON, { days: 3 })),
+      "home"
+    );
+    const config = appConfigSchema.parse(JSON.parse(JSON.stringify({ locations })));
+
+    expect(config.locations.default).toBe("home");
+    expect(config.locations.saved[0]?.resolved.coordinates.latitude).toBe(51.5074);
+  });
+});
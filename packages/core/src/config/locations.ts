@@ -0,0 +1,152 @@
+/**
+ * Saved location operations.
+ * Pure functions for looking up and editing the `locations` config section.
+ */
+
+import type { GeocodingResult } from "../types/location";
+import { createCoordinates, elevation, timezoneId } from "../types/location";
+import { ConfigError } from "../errors/config";
+import {
+  savedLocationSchema,
+  type LocationsConfig,
+  type SavedLocationConfig,
+  type UnitSystem,
+} from "./schema";
+
+/**
+ * Per-location forecast defaults stored with a saved location
+ */
+export interface SavedLocationDefaults {
+  readonly models?: readonly string[];
+  readonly units?: UnitSystem;
+  readonly days?: number;
+}
+
+/**
+ * Find a saved location by alias (case-insensitive)
+ */
+export function findSavedLocation(
+  locations: LocationsConfig,
+  alias: string
+): SavedLocationConfig | undefined {
+  const key = alias.trim().toLowerCase();
+  return locations.saved.find((entry) => entry.alias.toLowerCase() === key);
+}
+
+/**
+ * Convert a saved location back into a geocoding result
+ */
+export function toGeocodingResult(saved: SavedLocationConfig): GeocodingResult {
+  const { resolved } = saved;
+  return {
+    name: resolved.name,
+    coordinates: createCoordinates(resolved.coordinates.latitude, resolved.coordinates.longitude),
+    country: resolved.country,
+    countryCode: resolved.countryCode,
+    ...(resolved.region !== undefined && { region: resolved.region }),
+    timezone: timezoneId(resolved.timezone),
+    ...(resolved.elevation !== undefined && { elevation: elevation(resolved.elevation) }),
+    ...(resolved.population !== undefined && { population: resolved.population }),
+  };
+}
+
+/**
+ * Create a saved location entry from a geocoding result
+ *
+ * @throws ConfigError if the alias or defaults are invalid
+ */
+export function createSavedLocation(
+  alias: string,
+  resolved: GeocodingResult,
+  defaults: SavedLocationDefaults = {}
+): SavedLocationConfig {
+  const result = savedLocationSchema.safeParse({
+    alias,
+    resolved: {
+      name: resolved.name,
+      coordinates: {
+        latitude: resolved.coordinates.latitude,
+        longitude: resolved.coordinates.longitude,
+      },
+      country: resolved.country,
+      countryCode: resolved.countryCode,
+      region: resolved.region,
+      timezone: resolved.timezone,
+      elevation: resolved.elevation,
+      population: resolved.population,
+    },
+    models: defaults.models,
+    units: defaults.units,
+    days: defaults.days,
+  });
+
+  if (!result.success) {
+    const issue = result.error.errors[0];
+    throw ConfigError.invalid(
+      `locations.${alias}${issue?.path.length ? `.${issue.path.join(".")}` : ""}`,
+      issue?.message ?? "Invalid saved location"
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Add a saved location, replacing any existing entry with the same alias
+ */
+export function addSavedLocation(
+  locations: Partial<LocationsConfig>,
+  entry: SavedLocationConfig
+): LocationsConfig {
+  const key = entry.alias.toLowerCase();
+  const saved = locations.saved ?? [];
+  const index = saved.findIndex((existing) => existing.alias.toLowerCase() === key);
+
+  return {
+    ...locations,
+    saved: index === -1 ? [...saved, entry] : saved.map((existing, i) => (i === index ? entry : existing)),
+  };
+}
+
+/**
+ * Remove a saved location, clearing the default if it pointed at it
+ *
+ * @throws ConfigError if no location has the alias
+ */
+export function removeSavedLocation(
+  locations: Partial<LocationsConfig>,
+  alias: string
+): LocationsConfig {
+  const saved = locations.saved ?? [];
+  const entry = findSavedLocation({ saved }, alias);
+  if (!entry) {
+    throw ConfigError.invalid("locations", `No saved location named "${alias}"`);
+  }
+
+  const updated: LocationsConfig = {
+    ...locations,
+    saved: saved.filter((existing) => existing !== entry),
+  };
+  if (locations.default?.toLowerCase() === entry.alias.toLowerCase()) {
+    delete updated.default;
+  }
+  return updated;
+}
+
+/**
+ * Set the default saved location
+ *
+ * @throws ConfigError if no location has the alias
+ */
+export function setDefaultLocation(
+  locations: Partial<LocationsConfig>,
+  alias: string
+): LocationsConfig {
+  const saved = locations.saved ?? [];
+  const entry = findSavedLocation({ saved }, alias);
+  if (!entry) {
+    throw ConfigError.invalid("locations.default", `No saved location named "${alias}"`);
+  }
+
+  return { ...locations, saved, default: entry.alias };
+}
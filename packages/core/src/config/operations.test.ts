@@ -158,6 +158,14 @@ describe("config operations", () => {
       expect(() => parseConfigValue("display.units", "invalid")).toThrow("Must be one of");
     });
 
+    it("parses per-metric aggregation methods", () => {
+      expect(parseConfigValue("aggregation.temperature", "exclude-outliers")).toBe(
+        "exclude-outliers"
+      );
+      expect(() => parseConfigValue("aggregation.windSpeed", "mode")).toThrow("Must be one of");
+      expect(getDefaultValue("aggregation.temperature")).toBeUndefined();
+    });
+
     it("parses array values", () => {
       const result = parseConfigValue("models.defaults", "ecmwf,gfs,icon");
       expect(result).toEqual(["ecmwf", "gfs", "icon"]);
@@ -12,13 +12,65 @@ import { appConfigSchema, DEFAULT_CONFIG } from "./schema";
 export const CONFIG_KEYS = {
   "api.forecast": { type: "string", description: "Forecast API endpoint URL" },
   "api.geocoding": { type: "string", description: "Geocoding API endpoint URL" },
+  "api.reverseGeocoding": { type: "string", description: "Reverse geocoding (Nominatim) endpoint URL" },
+  "api.historicalForecast": { type: "string", description: "Historical forecast API endpoint URL" },
+  "api.archive": { type: "string", description: "Observation archive API endpoint URL" },
+  "api.ensemble": { type: "string", description: "Ensemble API endpoint URL" },
+  "api.models.ecmwf": { type: "string", description: "ECMWF endpoint URL override" },
+  "api.models.gfs": { type: "string", description: "GFS endpoint URL override" },
+  "api.models.icon": { type: "string", description: "ICON endpoint URL override" },
+  "api.models.meteofrance": { type: "string", description: "Météo-France endpoint URL override" },
+  "api.models.ukmo": { type: "string", description: "UK Met Office endpoint URL override" },
+  "api.models.jma": { type: "string", description: "JMA endpoint URL override" },
+  "api.models.gem": { type: "string", description: "GEM endpoint URL override" },
+  "geocoding.mode": { type: "enum", values: ["auto", "online", "offline"], description: "Geocoding source (auto falls back to the bundled gazetteer)" },
   "cache.enabled": { type: "boolean", description: "Enable/disable caching" },
+  "cache.backend": { type: "enum", values: ["file", "memory", "sqlite"], description: "Cache storage backend" },
   "cache.ttlSeconds": { type: "number", description: "Cache TTL in seconds (0-86400)", min: 0, max: 86400 },
   "cache.maxEntries": { type: "number", description: "Maximum cache entries", min: 1 },
   "cache.directory": { type: "string", description: "Cache directory path" },
   "models.defaults": { type: "array", description: "Default models (comma-separated)" },
   "models.timeout": { type: "number", description: "API timeout in ms (1000-60000)", min: 1000, max: 60000 },
   "models.retries": { type: "number", description: "Number of retries (0-5)", min: 0, max: 5 },
+  "models.retryDelayMs": { type: "number", description: "Base retry backoff delay in ms", min: 1 },
+  "models.maxRetryDelayMs": { type: "number", description: "Maximum retry delay in ms (also caps Retry-After)", min: 1 },
+  "models.batchRequests": { type: "boolean", description: "Fetch Open-Meteo models in a single request" },
+  "models.weighting": { type: "enum", values: ["equal", "resolution", "region", "leadTime", "skill", "blended"], description: "Model weighting strategy" },
+  "models.skillScores": { type: "string", description: "Path to skill scores JSON file" },
+  "aggregation.temperature": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How temperature is combined across models" },
+  "aggregation.humidity": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How humidity is combined across models" },
+  "aggregation.pressure": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How pressure is combined across models" },
+  "aggregation.windSpeed": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How wind speed is combined across models" },
+  "aggregation.precipitation": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How precipitation is combined across models" },
+  "aggregation.cloudCover": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How cloud cover is combined across models" },
+  "aggregation.visibility": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How visibility is combined across models" },
+  "aggregation.uvIndex": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How UV index is combined across models" },
+  "aggregation.dewPoint": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How dew point is combined across models" },
+  "aggregation.snowfall": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How snowfall is combined across models" },
+  "aggregation.snowDepth": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How snow depth is combined across models" },
+  "aggregation.freezingLevelHeight": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How freezing level height is combined across models" },
+  "aggregation.cape": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How CAPE is combined across models" },
+  "aggregation.soilTemperature": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How soil temperature is combined across models" },
+  "aggregation.soilMoisture": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How soil moisture is combined across models" },
+  "aggregation.shortwaveRadiation": { type: "enum", values: ["mean", "median", "trimmed-mean", "weighted-median", "exclude-outliers"], description: "How shortwave radiation is combined across models" },
+  "providers.userAgent": { type: "string", description: "User-Agent sent to NWS and MET Norway" },
+  "providers.localFile": { type: "string", description: "Path to a local forecast JSON file (model \"local\")" },
+  "verification.enabled": { type: "boolean", description: "Record forecasts for verification" },
+  "verification.directory": { type: "string", description: "Verification data directory path" },
+  "verification.retentionDays": { type: "number", description: "Days of verification history to keep", min: 1 },
+  "runs.enabled": { type: "boolean", description: "Record model runs for forecast trends" },
+  "runs.directory": { type: "string", description: "Model run history directory path" },
+  "runs.retentionDays": { type: "number", description: "Days of model run history to keep", min: 1 },
+  "climatology.enabled": { type: "boolean", description: "Compare forecasts with climate normals" },
+  "climatology.directory": { type: "string", description: "Climate normals directory path" },
+  "climatology.file": { type: "string", description: "Archive daily JSON file to compute normals from" },
+  "climatology.years": { type: "number", description: "Years of archive data behind the normals", min: 10, max: 50 },
+  "locations.default": { type: "string", description: "Saved location alias used when no location is given" },
+  "alerts.enabled": { type: "boolean", description: "Evaluate alert rules from the config file" },
+  "watch.locations": { type: "array", description: "Locations polled by watch (comma-separated)" },
+  "watch.logFile": { type: "string", description: "JSONL file that watch appends changes to" },
+  "watch.webhookUrl": { type: "string", description: "URL that watch POSTs changes to" },
+  "watch.intervalMinutes": { type: "number", description: "Poll interval override in minutes", min: 1 },
   "display.units": { type: "enum", values: ["metric", "imperial"], description: "Temperature units" },
   "display.outputFormat": { type: "enum", values: ["json", "table", "minimal", "rich"], description: "Output format" },
   "display.showConfidence": { type: "boolean", description: "Show confidence indicators" },
@@ -191,8 +243,16 @@ export function validatePartialConfig(config: Partial<AppConfig>): {
     ...DEFAULT_CONFIG,
     ...config,
     api: { ...DEFAULT_CONFIG.api, ...config.api },
+    geocoding: { ...DEFAULT_CONFIG.geocoding, ...config.geocoding },
     cache: { ...DEFAULT_CONFIG.cache, ...config.cache },
     models: { ...DEFAULT_CONFIG.models, ...config.models },
+    providers: { ...DEFAULT_CONFIG.providers, ...config.providers },
+    verification: { ...DEFAULT_CONFIG.verification, ...config.verification },
+    runs: { ...DEFAULT_CONFIG.runs, ...config.runs },
+    climatology: { ...DEFAULT_CONFIG.climatology, ...config.climatology },
+    locations: { ...DEFAULT_CONFIG.locations, ...config.locations },
+    alerts: { ...DEFAULT_CONFIG.alerts, ...config.alerts },
+    watch: { ...DEFAULT_CONFIG.watch, ...config.watch },
     display: { ...DEFAULT_CONFIG.display, ...config.display },
   };
 
@@ -5,19 +5,26 @@
 
 import { z } from "zod";
 import type { ModelName } from "../types/models";
+import { OPEN_METEO_MODELS } from "../types/models";
+import type {
+  AlertMetric,
+  AlertOperator,
+  AlertAggregation,
+  AlertPeriod,
+  AlertSeverity,
+} from "../types/alerts";
+import {
+  ALERT_METRICS,
+  ALERT_OPERATORS,
+  ALERT_AGGREGATIONS,
+  ALERT_PERIODS,
+  ALERT_SEVERITIES,
+} from "../types/alerts";
 
 /**
  * Valid model names that can be configured
  */
-const MODEL_NAMES: readonly ModelName[] = [
-  "ecmwf",
-  "gfs",
-  "icon",
-  "meteofrance",
-  "ukmo",
-  "jma",
-  "gem",
-] as const;
+const MODEL_NAMES: readonly ModelName[] = [...OPEN_METEO_MODELS, "nws", "metno", "local"] as const;
 
 /**
  * Unit system for temperature, wind speed, etc.
@@ -34,7 +41,30 @@ export const outputFormatSchema = z.enum(["json", "table", "minimal", "rich"]).d
  */
 export const apiEndpointsSchema = z.object({
   forecast: z.string().url().default("https://api.open-meteo.com/v1/forecast"),
+  historicalForecast: z
+    .string()
+    .url()
+    .default("https://historical-forecast-api.open-meteo.com/v1/forecast"),
+  archive: z.string().url().default("https://archive-api.open-meteo.com/v1/archive"),
+  ensemble: z.string().url().default("https://ensemble-api.open-meteo.com/v1/ensemble"),
   geocoding: z.string().url().default("https://geocoding-api.open-meteo.com/v1/search"),
+  reverseGeocoding: z.string().url().default("https://nominatim.openstreetmap.org/reverse"),
+  models: z
+    .record(z.enum(OPEN_METEO_MODELS as unknown as [string, ...string[]]), z.string().url())
+    .optional(),
+});
+
+/**
+ * How locations are geocoded: the Open-Meteo API with the bundled gazetteer as
+ * a fallback ("auto"), the API only ("online"), or the gazetteer only ("offline")
+ */
+export const geocodingModeSchema = z.enum(["auto", "online", "offline"]).default("auto");
+
+/**
+ * Geocoding configuration
+ */
+export const geocodingConfigSchema = z.object({
+  mode: geocodingModeSchema,
 });
 
 /**
@@ -42,11 +72,19 @@ export const apiEndpointsSchema = z.object({
  */
 export const cacheConfigSchema = z.object({
   enabled: z.boolean().default(true),
+  backend: z.enum(["file", "memory", "sqlite"]).optional(),
   ttlSeconds: z.number().int().positive().default(300),
   maxEntries: z.number().int().positive().default(100),
   directory: z.string().optional(),
 });
 
+/**
+ * Strategy used to weight models when blending forecasts
+ */
+export const weightingStrategySchema = z
+  .enum(["equal", "resolution", "region", "leadTime", "skill", "blended"])
+  .default("equal");
+
 /**
  * Model configuration
  */
@@ -57,6 +95,152 @@ export const modelConfigSchema = z.object({
     .default(["ecmwf", "gfs", "icon", "meteofrance", "ukmo", "jma", "gem"]),
   timeout: z.number().int().positive().default(30000),
   retries: z.number().int().min(0).max(5).default(2),
+  retryDelayMs: z.number().int().positive().default(1000),
+  maxRetryDelayMs: z.number().int().positive().default(30000),
+  batchRequests: z.boolean().default(true),
+  weighting: weightingStrategySchema,
+  skillScores: z.string().optional(),
+});
+
+/**
+ * Method for combining one metric across models
+ */
+export const aggregationMethodSchema = z.enum([
+  "mean",
+  "median",
+  "trimmed-mean",
+  "weighted-median",
+  "exclude-outliers",
+]);
+
+/**
+ * Aggregation method per metric; unset metrics use the built-in methods
+ */
+export const aggregationConfigSchema = z.object({
+  temperature: aggregationMethodSchema.optional(),
+  humidity: aggregationMethodSchema.optional(),
+  pressure: aggregationMethodSchema.optional(),
+  windSpeed: aggregationMethodSchema.optional(),
+  precipitation: aggregationMethodSchema.optional(),
+  cloudCover: aggregationMethodSchema.optional(),
+  visibility: aggregationMethodSchema.optional(),
+  uvIndex: aggregationMethodSchema.optional(),
+  dewPoint: aggregationMethodSchema.optional(),
+  snowfall: aggregationMethodSchema.optional(),
+  snowDepth: aggregationMethodSchema.optional(),
+  freezingLevelHeight: aggregationMethodSchema.optional(),
+  cape: aggregationMethodSchema.optional(),
+  soilTemperature: aggregationMethodSchema.optional(),
+  soilMoisture: aggregationMethodSchema.optional(),
+  shortwaveRadiation: aggregationMethodSchema.optional(),
+});
+
+/**
+ * Settings for weather providers beyond Open-Meteo
+ */
+export const providerConfigSchema = z.object({
+  userAgent: z
+    .string()
+    .min(1)
+    .default("weather-oracle (https://github.com/blueman82/weather-oracle)"),
+  localFile: z.string().optional(),
+});
+
+/**
+ * Forecast verification configuration
+ */
+export const verificationConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  directory: z.string().optional(),
+  retentionDays: z.number().int().positive().default(90),
+});
+
+/**
+ * Model run history configuration
+ */
+export const runsConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  directory: z.string().optional(),
+  retentionDays: z.number().int().positive().default(14),
+});
+
+/**
+ * Climate normals configuration
+ */
+export const climatologyConfigSchema = z.object({
+  enabled: z.boolean().default(false),
+  directory: z.string().optional(),
+  file: z.string().optional(),
+  years: z.number().int().min(10).max(50).default(30),
+});
+
+/**
+ * A saved location: an alias plus its resolved geocoding result,
+ * with optional per-location forecast defaults
+ */
+export const savedLocationSchema = z.object({
+  alias: z
+    .string()
+    .regex(/^[a-z0-9][a-z0-9_-]*$/i, "Alias may only contain letters, digits, '-' and '_'"),
+  resolved: z.object({
+    name: z.string().min(1),
+    coordinates: z.object({
+      latitude: z.number().min(-90).max(90),
+      longitude: z.number().min(-180).max(180),
+    }),
+    country: z.string(),
+    countryCode: z.string(),
+    region: z.string().optional(),
+    timezone: z.string().min(1),
+    elevation: z.number().optional(),
+    population: z.number().optional(),
+  }),
+  models: z.array(z.enum(MODEL_NAMES as unknown as [string, ...string[]])).min(1).optional(),
+  units: z.enum(["metric", "imperial"]).optional(),
+  days: z.number().int().min(1).max(16).optional(),
+});
+
+/**
+ * Saved locations and the default used when no location is given
+ */
+export const locationsConfigSchema = z.object({
+  default: z.string().optional(),
+  saved: z.array(savedLocationSchema).default([]),
+});
+
+/**
+ * Watch mode configuration
+ */
+export const watchConfigSchema = z.object({
+  locations: z.array(z.string().min(1)).default([]),
+  logFile: z.string().optional(),
+  webhookUrl: z.string().url().optional(),
+  intervalMinutes: z.number().int().positive().optional(),
+});
+
+/**
+ * A user-defined alert rule.
+ * Thresholds use internal units: °C, m/s, mm, %, and meters for visibility.
+ */
+export const alertRuleSchema = z.object({
+  name: z.string().min(1),
+  metric: z.enum(ALERT_METRICS as unknown as [AlertMetric, ...AlertMetric[]]),
+  operator: z.enum(ALERT_OPERATORS as unknown as [AlertOperator, ...AlertOperator[]]),
+  threshold: z.number(),
+  windowHours: z.number().int().min(1).max(72).default(1),
+  aggregation: z.enum(ALERT_AGGREGATIONS as unknown as [AlertAggregation, ...AlertAggregation[]]).optional(),
+  period: z.enum(ALERT_PERIODS as unknown as [AlertPeriod, ...AlertPeriod[]]).default("any"),
+  minConfidence: z.enum(["low", "medium", "high"]).default("low"),
+  severity: z.enum(ALERT_SEVERITIES as unknown as [AlertSeverity, ...AlertSeverity[]]).default("warning"),
+  locations: z.array(z.string().min(1)).optional(),
+});
+
+/**
+ * Alert rules configuration
+ */
+export const alertConfigSchema = z.object({
+  enabled: z.boolean().default(true),
+  rules: z.array(alertRuleSchema).default([]),
 });
 
 /**
@@ -76,8 +260,17 @@ export const displayConfigSchema = z.object({
  */
 export const appConfigSchema = z.object({
   api: apiEndpointsSchema.default({}),
+  geocoding: geocodingConfigSchema.default({}),
   cache: cacheConfigSchema.default({}),
   models: modelConfigSchema.default({}),
+  aggregation: aggregationConfigSchema.default({}),
+  providers: providerConfigSchema.default({}),
+  verification: verificationConfigSchema.default({}),
+  runs: runsConfigSchema.default({}),
+  climatology: climatologyConfigSchema.default({}),
+  locations: locationsConfigSchema.default({}),
+  alerts: alertConfigSchema.default({}),
+  watch: watchConfigSchema.default({}),
   display: displayConfigSchema.default({}),
 });
 
@@ -86,9 +279,22 @@ export const appConfigSchema = z.object({
  */
 export type UnitSystem = z.infer<typeof unitSystemSchema>;
 export type OutputFormat = z.infer<typeof outputFormatSchema>;
+export type WeightingStrategyConfig = z.infer<typeof weightingStrategySchema>;
 export type ApiEndpoints = z.infer<typeof apiEndpointsSchema>;
+export type GeocodingMode = z.infer<typeof geocodingModeSchema>;
+export type GeocodingConfig = z.infer<typeof geocodingConfigSchema>;
 export type CacheConfig = z.infer<typeof cacheConfigSchema>;
 export type ModelConfig = z.infer<typeof modelConfigSchema>;
+export type AggregationConfig = z.infer<typeof aggregationConfigSchema>;
+export type ProviderConfig = z.infer<typeof providerConfigSchema>;
+export type VerificationConfig = z.infer<typeof verificationConfigSchema>;
+export type RunsConfig = z.infer<typeof runsConfigSchema>;
+export type ClimatologyConfig = z.infer<typeof climatologyConfigSchema>;
+export type AlertRuleConfig = z.infer<typeof alertRuleSchema>;
+export type AlertConfig = z.infer<typeof alertConfigSchema>;
+export type SavedLocationConfig = z.infer<typeof savedLocationSchema>;
+export type LocationsConfig = z.infer<typeof locationsConfigSchema>;
+export type WatchConfig = z.infer<typeof watchConfigSchema>;
 export type DisplayConfig = z.infer<typeof displayConfigSchema>;
 export type AppConfig = z.infer<typeof appConfigSchema>;
 
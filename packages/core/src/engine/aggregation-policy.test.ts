@@ -0,0 +1,117 @@
+/**
+ * Tests for per-metric aggregation policies.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  applyAggregationMethod,
+  createExclusionLog,
+  formatAggregationExclusions,
+  parseAggregationPolicy,
+  AGGREGATION_METRICS,
+  type MethodResult,
+} from "./aggregation-policy";
+import { ConfigError } from "../errors/config";
+
+describe("applyAggregationMethod", () => {
+  const values = [10, 11, 12, 30];
+  const weights = [1, 1, 1, 1];
+
+  it("should combine with each method", () => {
+    expect(applyAggregationMethod("mean", values, weights).value).toBe(15.75);
+    expect(applyAggregationMethod("median", values, weights).value).toBe(11.5);
+    expect(applyAggregationMethod("trimmed-mean", values, weights).value).toBe(11.5);
+    expect(applyAggregationMethod("weighted-median", [10, 20], [3, 1]).value).toBe(10);
+  });
+
+  it("should ignore weights for the plain median", () => {
+    expect(applyAggregationMethod("median", [10, 20, 30], [10, 1, 1]).value).toBe(20);
+  });
+
+  it("should drop z-score outliers and report them", () => {
+    const sample = [20, 20.5, 19.5, 20, 21, 19, 35];
+    const result = applyAggregationMethod(
+      "exclude-outliers",
+      sample,
+      sample.map(() => 1)
+    );
+
+    expect(result.value).toBeCloseTo(20, 10);
+    expect(result.excluded).toHaveLength(1);
+    expect(result.excluded[0].index).toBe(6);
+    expect(result.excluded[0].zScore).toBeGreaterThan(2);
+  });
+
+  it("should drop an outlier among as few as three models", () => {
+    const exclude = (sample: number[]): MethodResult =>
+      applyAggregationMethod(
+        "exclude-outliers",
+        sample,
+        sample.map(() => 1)
+      );
+
+    const three = exclude([10, 10.5, 30]);
+    expect(three.value).toBeCloseTo(10.25, 10);
+    expect(three.excluded.map((e) => e.index)).toEqual([2]);
+
+    const four = exclude([10, 10.5, 9.5, 40]);
+    expect(four.value).toBeCloseTo(10, 10);
+    expect(four.excluded.map((e) => e.index)).toEqual([3]);
+    expect(four.excluded[0].zScore).toBeGreaterThan(3.5);
+
+    const five = exclude([10, 11, 12, 10.5, 25]);
+    expect(five.value).toBeCloseTo(10.875, 10);
+    expect(five.excluded.map((e) => e.index)).toEqual([4]);
+  });
+
+  it("should keep every value when none is an outlier", () => {
+    const result = applyAggregationMethod("exclude-outliers", [10, 11, 12], [1, 1, 1]);
+
+    expect(result.value).toBe(11);
+    expect(result.excluded).toEqual([]);
+  });
+});
+
+describe("parseAggregationPolicy", () => {
+  it("should apply a bare method to every metric", () => {
+    const policy = parseAggregationPolicy("median");
+
+    expect(Object.keys(policy)).toEqual([...AGGREGATION_METRICS]);
+    expect(policy.uvIndex).toBe("median");
+  });
+
+  it("should let per-metric entries override a bare method", () => {
+    const policy = parseAggregationPolicy("exclude-outliers, windspeed=weighted-median");
+
+    expect(policy.temperature).toBe("exclude-outliers");
+    expect(policy.windSpeed).toBe("weighted-median");
+  });
+
+  it("should reject unknown metrics and methods", () => {
+    expect(() => parseAggregationPolicy("temperature=mode")).toThrow(ConfigError);
+    expect(() => parseAggregationPolicy("feelsLike=median")).toThrow(/not an aggregation metric/);
+  });
+});
+
+describe("exclusion log", () => {
+  it("should group exclusions and keep the largest z-score", () => {
+    const log = createExclusionLog();
+    const first = new Date("2024-01-15T00:00:00Z");
+    const second = new Date("2024-01-15T01:00:00Z");
+
+    log.record("icon", "temperature", "hourly", "exclude-outliers", first, 2.2);
+    log.record("icon", "temperature", "hourly", "exclude-outliers", first, -2.3);
+    log.record("icon", "temperature", "hourly", "exclude-outliers", second, -2.6);
+    log.record("gfs", "precipitation", "daily", "exclude-outliers", first, 3);
+
+    const entries = log.entries();
+    expect(entries).toHaveLength(2);
+    expect(entries[0].times).toEqual([first, second]);
+    expect(entries[0].zScore).toBeCloseTo(2.6, 10);
+
+    expect(formatAggregationExclusions(entries)).toEqual([
+      "ICON dropped from temperature for 2 hours as an outlier (z-score up to 2.6)",
+      "GFS dropped from precipitation for 1 day as an outlier (z-score up to 3.0)",
+    ]);
+  });
+});
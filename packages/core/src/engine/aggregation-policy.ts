@@ -0,0 +1,214 @@
+/**
+ * Per-metric aggregation policies.
+ * Each metric can be combined across models with a mean, median, trimmed
+ * mean, weighted median, or a mean that drops robust z-score outliers. Dropped
+ * models are logged so the output can say who was left out and why.
+ */
+
+import type {
+  AggregationExclusion,
+  AggregationMethod,
+  AggregationMetric,
+  AggregationPolicy,
+  ModelName,
+} from "../types/models";
+import { ConfigError } from "../errors/config";
+import {
+  median,
+  robustZScores,
+  weightedMean,
+  weightedMedian,
+  weightedTrimmedMean,
+} from "./statistics";
+import { formatModelName } from "./templates";
+
+/**
+ * Every aggregation method
+ */
+export const AGGREGATION_METHODS: readonly AggregationMethod[] = [
+  "mean",
+  "median",
+  "trimmed-mean",
+  "weighted-median",
+  "exclude-outliers",
+];
+
+/**
+ * Every metric a policy can set
+ */
+export const AGGREGATION_METRICS: readonly AggregationMetric[] = [
+  "temperature",
+  "humidity",
+  "pressure",
+  "windSpeed",
+  "precipitation",
+  "cloudCover",
+  "visibility",
+  "uvIndex",
+  "dewPoint",
+  "snowfall",
+  "snowDepth",
+  "freezingLevelHeight",
+  "cape",
+  "soilTemperature",
+  "soilMoisture",
+  "shortwaveRadiation",
+];
+
+/**
+ * Z-score above which a model's value counts as an outlier
+ */
+export const OUTLIER_Z_THRESHOLD = 2.0;
+
+/**
+ * Robust z-score (from the median and median absolute deviation) above which
+ * `exclude-outliers` drops a model's value. Plain z-scores cannot exceed
+ * (n-1)/√n, so they never flag anything among five or fewer models.
+ */
+export const OUTLIER_EXCLUSION_THRESHOLD = 3.5;
+
+/**
+ * Combined value plus the indices of any values the method dropped
+ */
+export interface MethodResult {
+  readonly value: number;
+  readonly excluded: readonly { readonly index: number; readonly zScore: number }[];
+}
+
+/**
+ * Combine values with an aggregation method.
+ * Weights are aligned with values; `median` ignores them.
+ */
+export function applyAggregationMethod(
+  method: AggregationMethod,
+  values: readonly number[],
+  weights: readonly number[]
+): MethodResult {
+  switch (method) {
+    case "mean":
+      return { value: weightedMean(values, weights), excluded: [] };
+    case "median":
+      return { value: median(values), excluded: [] };
+    case "trimmed-mean":
+      return { value: weightedTrimmedMean(values, weights), excluded: [] };
+    case "weighted-median":
+      return { value: weightedMedian(values, weights), excluded: [] };
+    case "exclude-outliers": {
+      const zScores = robustZScores(values);
+      const outliers = new Set(
+        zScores.flatMap((z, i) => (Math.abs(z) > OUTLIER_EXCLUSION_THRESHOLD ? [i] : []))
+      );
+      return {
+        value: weightedMean(
+          values.filter((_, i) => !outliers.has(i)),
+          weights.filter((_, i) => !outliers.has(i))
+        ),
+        excluded: [...outliers].map((index) => ({ index, zScore: zScores[index] })),
+      };
+    }
+  }
+}
+
+/**
+ * Parse an aggregation policy from a CLI spec.
+ * A bare method applies to every metric; `metric=method` sets one metric.
+ * Later entries override earlier ones.
+ *
+ * @example
+ * ```typescript
+ * parseAggregationPolicy("median");
+ * parseAggregationPolicy("exclude-outliers,windSpeed=weighted-median");
+ * ```
+ *
+ * @throws ConfigError for unknown metrics or methods
+ */
+export function parseAggregationPolicy(spec: string): AggregationPolicy {
+  const policy: { [M in AggregationMetric]?: AggregationMethod } = {};
+
+  const entries = spec.split(",").map((e) => e.trim());
+
+  for (const entry of entries.filter(Boolean)) {
+    const [left, right] = entry.includes("=") ? entry.split("=", 2) : [undefined, entry];
+    const method = AGGREGATION_METHODS.find((m) => m === right.trim().toLowerCase());
+    if (!method) {
+      throw ConfigError.invalid(
+        "aggregation",
+        `"${right.trim()}" is not an aggregation method (${AGGREGATION_METHODS.join(", ")})`
+      );
+    }
+
+    if (left === undefined) {
+      for (const metric of AGGREGATION_METRICS) policy[metric] = method;
+      continue;
+    }
+
+    const metric = AGGREGATION_METRICS.find((m) => m.toLowerCase() === left.trim().toLowerCase());
+    if (!metric) {
+      throw ConfigError.invalid(
+        "aggregation",
+        `"${left.trim()}" is not an aggregation metric (${AGGREGATION_METRICS.join(", ")})`
+      );
+    }
+    policy[metric] = method;
+  }
+
+  return policy;
+}
+
+/**
+ * Collects exclusions, grouped by model, metric and scope
+ */
+export interface ExclusionLog {
+  record(
+    model: ModelName,
+    metric: AggregationMetric,
+    scope: AggregationExclusion["scope"],
+    method: AggregationMethod,
+    time: Date,
+    zScore: number
+  ): void;
+  entries(): AggregationExclusion[];
+}
+
+/**
+ * Create an empty exclusion log
+ */
+export function createExclusionLog(): ExclusionLog {
+  const groups = new Map<string, { entry: AggregationExclusion; times: Date[] }>();
+
+  return {
+    record(model, metric, scope, method, time, zScore) {
+      const key = `${model}|${scope}|${metric}`;
+      const group = groups.get(key);
+      if (!group) {
+        groups.set(key, {
+          entry: { model, metric, scope, method, zScore: Math.abs(zScore), times: [] },
+          times: [time],
+        });
+        return;
+      }
+      // A day's max and min can both drop the same model
+      if (!group.times.some((t) => t.getTime() === time.getTime())) {
+        group.times.push(time);
+      }
+      if (Math.abs(zScore) > group.entry.zScore) {
+        group.entry = { ...group.entry, zScore: Math.abs(zScore) };
+      }
+    },
+    entries() {
+      return [...groups.values()].map(({ entry, times }) => ({ ...entry, times }));
+    },
+  };
+}
+
+/**
+ * Describe each exclusion, e.g.
+ * "ICON dropped from temperature for 3 hours as an outlier (z-score up to 4.6)"
+ */
+export function formatAggregationExclusions(exclusions: readonly AggregationExclusion[]): string[] {
+  return exclusions.map((exclusion) => {
+    const count = exclusion.times.length;
+    const unit = `${exclusion.scope === "hourly" ? "hour" : "day"}${count === 1 ? "" : "s"}`;
+    return `${formatModelName(exclusion.model)} dropped from ${exclusion.metric} for ${count} ${unit} as an outlier (z-score up to ${exclusion.zScore.toFixed(1)})`;
+  });
+}
@@ -11,15 +11,28 @@ import {
 import {
   mean,
   median,
+  percentile,
   stdDev,
   trimmedMean,
+  weightedMean,
+  weightedMedian,
+  weightedTrimmedMean,
   findOutlierIndices,
+  robustZScores,
   ensembleProbability,
+  weightedEnsembleProbability,
   confidenceFromStdDev,
   confidenceFromRange,
 } from "./statistics";
+import type { WeightingStrategy } from "./weighting";
 import type { ModelForecast, ModelName } from "../types/models";
-import type { HourlyForecast, DailyForecast, WeatherMetrics } from "../types/weather";
+import type {
+  HourlyForecast,
+  DailyForecast,
+  DailyMetricName,
+  HourlyMetricName,
+  WeatherMetrics,
+} from "../types/weather";
 import {
   celsius,
   millimeters,
@@ -105,6 +118,8 @@ function createMockDailyForecast(
     tempMax: number;
     precipTotal: number;
     windMaxSpeed: number;
+    windDirection: number;
+    weatherCode: number;
   }> = {}
 ): DailyForecast {
   return {
@@ -129,7 +144,7 @@ function createMockDailyForecast(
     wind: {
       avgSpeed: metersPerSecond(5),
       maxSpeed: metersPerSecond(overrides.windMaxSpeed ?? 10),
-      dominantDirection: windDirection(180),
+      dominantDirection: windDirection(overrides.windDirection ?? 180),
     },
     cloudCover: {
       avg: cloudCover(50),
@@ -143,7 +158,7 @@ function createMockDailyForecast(
       sunset: new Date(date.getTime() + 18 * 3600000),
       daylightHours: 12,
     },
-    weatherCode: weatherCode(1),
+    weatherCode: weatherCode(overrides.weatherCode ?? 1),
     hourly: [],
   };
 }
@@ -208,6 +223,24 @@ describe("statistics", () => {
     });
   });
 
+  describe("percentile", () => {
+    it("should interpolate between closest ranks", () => {
+      const values = [5, 1, 4, 2, 3];
+      expect(percentile(values, 50)).toBe(3);
+      expect(percentile(values, 10)).toBeCloseTo(1.4, 5);
+      expect(percentile(values, 90)).toBeCloseTo(4.6, 5);
+    });
+
+    it("should return extremes at 0 and 100", () => {
+      expect(percentile([3, 9, 6], 0)).toBe(3);
+      expect(percentile([3, 9, 6], 100)).toBe(9);
+    });
+
+    it("should return 0 for empty array", () => {
+      expect(percentile([], 50)).toBe(0);
+    });
+  });
+
   describe("median", () => {
     it("should calculate median for odd-length array", () => {
       expect(median([1, 2, 3, 4, 5])).toBe(3);
@@ -298,6 +331,23 @@ describe("statistics", () => {
     });
   });
 
+  describe("robustZScores", () => {
+    it("should measure distance from the median in absolute deviations", () => {
+      const scores = robustZScores([10, 10.5, 9.5, 40]);
+
+      expect(scores[0]).toBeCloseTo(-0.337, 3);
+      expect(scores[3]).toBeCloseTo(40.13, 2);
+    });
+
+    it("should fall back to the mean deviation when most values are equal", () => {
+      const scores = robustZScores([15, 15, 15, 15, 15, 35]);
+
+      expect(scores.slice(0, 5)).toEqual([0, 0, 0, 0, 0]);
+      expect(scores[5]).toBeCloseTo(4.79, 2);
+      expect(robustZScores([5, 5, 5])).toEqual([0, 0, 0]);
+    });
+  });
+
   describe("findOutlierIndices", () => {
     it("should identify outliers using z-score", () => {
       // Values where 100 is clearly an outlier
@@ -361,6 +411,63 @@ describe("statistics", () => {
     });
   });
 
+  describe("weightedMean", () => {
+    it("should weight values proportionally", () => {
+      expect(weightedMean([10, 20], [3, 1])).toBe(12.5);
+    });
+
+    it("should match mean for equal weights", () => {
+      expect(weightedMean([1, 2, 3, 4, 5], [1, 1, 1, 1, 1])).toBe(3);
+    });
+
+    it("should fall back to mean when all weights are zero", () => {
+      expect(weightedMean([10, 20], [0, 0])).toBe(15);
+    });
+  });
+
+  describe("weightedMedian", () => {
+    it("should return the value where cumulative weight passes half", () => {
+      expect(weightedMedian([1, 2, 3], [0.1, 0.1, 0.8])).toBe(3);
+    });
+
+    it("should match median for equal weights", () => {
+      expect(weightedMedian([5, 1, 3], [1, 1, 1])).toBe(median([5, 1, 3]));
+      expect(weightedMedian([1, 2, 3, 4], [1, 1, 1, 1])).toBe(median([1, 2, 3, 4]));
+    });
+  });
+
+  describe("weightedTrimmedMean", () => {
+    it("should match trimmedMean for equal weights", () => {
+      const values = [1, 2, 3, 4, 5, 100];
+      expect(weightedTrimmedMean(values, values.map(() => 1))).toBeCloseTo(
+        trimmedMean(values),
+        10
+      );
+    });
+
+    it("should apply weights to the trimmed values", () => {
+      // Trims 1 and 100, then weights 2 heavily
+      const result = weightedTrimmedMean([1, 2, 4, 100], [1, 3, 1, 1]);
+      expect(result).toBe(2.5);
+    });
+
+    it("should weight three values rather than take the middle one", () => {
+      expect(weightedTrimmedMean([10, 12, 14], [1, 1, 1])).toBe(12);
+      expect(weightedTrimmedMean([10, 12, 14], [2, 1, 1])).toBe(11.5);
+    });
+  });
+
+  describe("weightedEnsembleProbability", () => {
+    it("should return share of weight meeting the condition", () => {
+      expect(weightedEnsembleProbability([0, 1], [0.75, 0.25], 0.1, "gt")).toBe(25);
+    });
+
+    it("should match ensembleProbability for equal weights", () => {
+      const values = [0, 0, 0.5, 1.0, 2.0];
+      expect(weightedEnsembleProbability(values, values.map(() => 1), 0.1)).toBe(60);
+    });
+  });
+
   describe("confidenceFromStdDev", () => {
     it("should return 1.0 for low stdDev", () => {
       expect(confidenceFromStdDev(1.0, 1.5, 4.0)).toBe(1.0);
@@ -569,6 +676,32 @@ describe("aggregateForecasts", () => {
     expect(daily.range.temperatureMax.max).toBe(26);
   });
 
+  it("should apply the weighting strategy to consensus values", () => {
+    const forecasts: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ humidity: 40 }], [{ precipTotal: 0 }]),
+      createMockModelForecast("ecmwf", [{ humidity: 80 }], [{ precipTotal: 4 }]),
+    ];
+    const weighting: WeightingStrategy = {
+      name: "test",
+      weigh: (models) =>
+        models.map((model) => ({
+          model,
+          weight: model === "ecmwf" ? 0.75 : 0.25,
+          reason: model === "ecmwf" ? "Preferred" : "Down-weighted",
+        })),
+    };
+
+    const aggregated = aggregateForecasts(forecasts, { weighting });
+
+    expect(aggregated.consensus.hourly[0].metrics.humidity).toBeCloseTo(70, 5);
+    expect(aggregated.consensus.daily[0].forecast.precipitation.total).toBeCloseTo(3, 5);
+    expect(aggregated.consensus.daily[0].forecast.precipitation.probability).toBe(75);
+    expect(aggregated.modelWeights).toEqual([
+      { model: "gfs", weight: 0.25, reason: "Down-weighted" },
+      { model: "ecmwf", weight: 0.75, reason: "Preferred" },
+    ]);
+  });
+
   it("should sort hourly and daily forecasts by time", () => {
     const forecasts: ModelForecast[] = [
       createMockModelForecast(
@@ -736,3 +869,338 @@ describe("confidence thresholds", () => {
     );
   });
 });
+
+describe("wind direction aggregation", () => {
+  it("should average directions across north without wrapping to south", () => {
+    const forecasts: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ windDirection: 350 }], [{ windDirection: 350 }]),
+      createMockModelForecast("ecmwf", [{ windDirection: 10 }], [{ windDirection: 10 }]),
+    ];
+
+    const aggregated = aggregateForecasts(forecasts);
+    const hourly = aggregated.consensus.hourly[0];
+    const daily = aggregated.consensus.daily[0];
+
+    expect(hourly.metrics.windDirection).toBe(windDirection(0));
+    expect(daily.forecast.wind.dominantDirection).toBe(windDirection(0));
+    expect(hourly.modelAgreement.windDirectionStats?.spread).toBeLessThan(15);
+    expect(daily.modelAgreement.windDirectionStats?.resultantLength).toBeGreaterThan(0.98);
+  });
+
+  it("should weight the consensus direction toward stronger winds", () => {
+    const forecasts: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ windSpeed: 10, windDirection: 90 }]),
+      createMockModelForecast("ecmwf", [{ windSpeed: 2, windDirection: 180 }]),
+    ];
+
+    const direction = aggregateForecasts(forecasts).consensus.hourly[0].metrics.windDirection;
+
+    expect(direction).toBeGreaterThan(90);
+    expect(direction).toBeLessThan(135);
+  });
+
+  it("should lower confidence when models disagree on direction", () => {
+    const agreeing: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ windSpeed: 8, windDirection: 270 }]),
+      createMockModelForecast("ecmwf", [{ windSpeed: 8, windDirection: 280 }]),
+      createMockModelForecast("icon", [{ windSpeed: 8, windDirection: 265 }]),
+    ];
+    const opposed: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ windSpeed: 8, windDirection: 270 }]),
+      createMockModelForecast("ecmwf", [{ windSpeed: 8, windDirection: 90 }]),
+      createMockModelForecast("icon", [{ windSpeed: 8, windDirection: 0 }]),
+    ];
+
+    const agreeingHourly = aggregateForecasts(agreeing).consensus.hourly[0];
+    const opposedHourly = aggregateForecasts(opposed).consensus.hourly[0];
+
+    expect(opposedHourly.modelAgreement.windDirectionStats?.spread).toBeGreaterThan(80);
+    expect(opposedHourly.confidence.score).toBeLessThan(agreeingHourly.confidence.score);
+  });
+
+  it("should ignore direction disagreement in calm conditions", () => {
+    const calmAgreeing: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ windSpeed: 1, windDirection: 270 }]),
+      createMockModelForecast("ecmwf", [{ windSpeed: 1, windDirection: 270 }]),
+    ];
+    const calmOpposed: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ windSpeed: 1, windDirection: 270 }]),
+      createMockModelForecast("ecmwf", [{ windSpeed: 1, windDirection: 90 }]),
+    ];
+
+    expect(aggregateForecasts(calmOpposed).consensus.hourly[0].confidence.score).toBe(
+      aggregateForecasts(calmAgreeing).consensus.hourly[0].confidence.score
+    );
+  });
+});
+
+describe("weather condition consensus", () => {
+  it("should not invent a condition no model predicted", () => {
+    const forecasts: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ weatherCode: 71 }], [{ weatherCode: 71 }]),
+      createMockModelForecast("ecmwf", [{ weatherCode: 51 }], [{ weatherCode: 51 }]),
+    ];
+
+    const aggregated = aggregateForecasts(forecasts);
+    const hourly = aggregated.consensus.hourly[0];
+    const daily = aggregated.consensus.daily[0];
+
+    // Median would give 61 (rain); the tie goes to the more severe snow
+    expect(hourly.metrics.weatherCode).toBe(weatherCode(71));
+    expect(daily.forecast.weatherCode).toBe(weatherCode(71));
+    expect(hourly.conditions?.condition).toBe("snow");
+  });
+
+  it("should expose the condition distribution", () => {
+    const forecasts: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ weatherCode: 61 }], [{ weatherCode: 63 }]),
+      createMockModelForecast("ecmwf", [{ weatherCode: 63 }], [{ weatherCode: 63 }]),
+      createMockModelForecast("icon", [{ weatherCode: 3 }], [{ weatherCode: 3 }]),
+    ];
+
+    const daily = aggregateForecasts(forecasts).consensus.daily[0];
+
+    expect(daily.conditions?.distribution.map((share) => share.condition)).toEqual([
+      "rain",
+      "cloudy",
+    ]);
+    expect(daily.conditions?.distribution[0].models).toEqual(["gfs", "ecmwf"]);
+    expect(daily.conditions?.distribution[0].weight).toBeCloseTo(2 / 3, 10);
+    expect(daily.forecast.weatherCode).toBe(weatherCode(63));
+  });
+});
+
+describe("missing data", () => {
+  /**
+   * Mark metrics as missing in every hour and day of a forecast
+   */
+  function withMissing(
+    forecast: ModelForecast,
+    hourlyMissing: HourlyMetricName[],
+    dailyMissing: DailyMetricName[] = []
+  ): ModelForecast {
+    return {
+      ...forecast,
+      hourly: forecast.hourly.map((h) => ({
+        ...h,
+        metrics: { ...h.metrics, missing: hourlyMissing },
+      })),
+      daily: forecast.daily.map((d) =>
+        dailyMissing.length > 0 ? { ...d, missing: dailyMissing } : d
+      ),
+    };
+  }
+
+  /**
+   * Forecast with every metric present (the mock omits wind gusts by default)
+   */
+  function complete(model: ModelName, hours: number = 1): ModelForecast {
+    return createMockModelForecast(model, Array.from({ length: hours }, () => ({ windGust: 8 })));
+  }
+
+  it("should leave a model missing a metric out of its consensus", () => {
+    const forecasts: ModelForecast[] = [
+      createMockModelForecast("gfs", [{ temperature: 20, windGust: 8 }]),
+      createMockModelForecast("ecmwf", [{ temperature: 22, windGust: 8 }]),
+      // Placeholder 0 must not drag the mean down
+      withMissing(createMockModelForecast("icon", [{ temperature: 0 }]), ["temperature"]),
+    ];
+
+    const hourly = aggregateForecasts(forecasts).consensus.hourly[0];
+
+    expect(hourly.metrics.temperature).toBe(celsius(21));
+    expect(hourly.range.temperature).toEqual({ min: 20, max: 22 });
+    expect(hourly.modelAgreement.temperatureStats.min).toBe(20);
+    expect(hourly.modelAgreement.outlierModels).not.toContain("icon");
+  });
+
+  it("should report per-metric coverage", () => {
+    const forecasts: ModelForecast[] = [
+      complete("gfs"),
+      complete("ecmwf"),
+      withMissing(complete("icon"), ["visibility"], ["uvIndex"]),
+    ];
+
+    const aggregated = aggregateForecasts(forecasts);
+
+    expect(aggregated.consensus.hourly[0].coverage).toEqual([
+      { metric: "visibility", models: ["gfs", "ecmwf"], missing: ["icon"] },
+    ]);
+    expect(aggregated.consensus.daily[0].coverage).toEqual([
+      { metric: "uvIndex", models: ["gfs", "ecmwf"], missing: ["icon"] },
+    ]);
+    expect(aggregated.consensus.hourly[0].metrics.missing).toBeUndefined();
+  });
+
+  it("should omit coverage when every model provided every metric", () => {
+    const forecasts: ModelForecast[] = [
+      complete("gfs"),
+      complete("ecmwf"),
+    ];
+
+    const aggregated = aggregateForecasts(forecasts);
+
+    expect(aggregated.consensus.hourly[0].coverage).toBeUndefined();
+    expect(aggregated.dataQuality).toBeUndefined();
+  });
+
+  it("should mark a metric no model provided as missing", () => {
+    const forecasts: ModelForecast[] = [
+      withMissing(complete("gfs"), ["uvIndex"]),
+      withMissing(complete("ecmwf"), ["uvIndex"]),
+    ];
+
+    const hourly = aggregateForecasts(forecasts).consensus.hourly[0];
+
+    expect(hourly.metrics.missing).toEqual(["uvIndex"]);
+    expect(hourly.coverage).toEqual([
+      { metric: "uvIndex", models: [], missing: ["gfs", "ecmwf"] },
+    ]);
+  });
+
+  it("should attach a data-quality report listing the gaps", () => {
+    const forecasts: ModelForecast[] = [
+      complete("gfs", 2),
+      withMissing(complete("metno", 2), ["visibility"]),
+    ];
+
+    const report = aggregateForecasts(forecasts).dataQuality;
+
+    expect(report?.entries).toHaveLength(1);
+    expect(report?.entries[0].model).toBe("metno");
+    expect(report?.entries[0].metric).toBe("visibility");
+    expect(report?.entries[0].times).toHaveLength(2);
+    expect(report?.missingValues).toBe(2);
+  });
+});
+
+describe("extended metrics", () => {
+  /**
+   * Add extended metrics to every hour and day of a forecast
+   */
+  function withExtended(
+    forecast: ModelForecast,
+    extended: { dewPoint: number; cape: number; snowfall: number }
+  ): ModelForecast {
+    return {
+      ...forecast,
+      hourly: forecast.hourly.map((h) => ({
+        ...h,
+        metrics: {
+          ...h.metrics,
+          dewPoint: celsius(extended.dewPoint),
+          cape: extended.cape,
+          snowfall: extended.snowfall,
+        },
+      })),
+      daily: forecast.daily.map((d) => ({
+        ...d,
+        cape: { max: extended.cape },
+        snowfall: { total: extended.snowfall },
+      })),
+    };
+  }
+
+  it("should combine extended metrics from the models that provide them", () => {
+    const complete = [{ windGust: 8 }];
+    const forecasts: ModelForecast[] = [
+      withExtended(createMockModelForecast("gfs", complete), {
+        dewPoint: 10,
+        cape: 400,
+        snowfall: 1,
+      }),
+      withExtended(createMockModelForecast("ecmwf", complete), {
+        dewPoint: 12,
+        cape: 600,
+        snowfall: 3,
+      }),
+      createMockModelForecast("icon", complete),
+    ];
+
+    const aggregated = aggregateForecasts(forecasts);
+    const hourly = aggregated.consensus.hourly[0];
+    const daily = aggregated.consensus.daily[0];
+
+    expect(Number(hourly.metrics.dewPoint)).toBe(11);
+    expect(hourly.metrics.snowfall).toBe(2);
+    expect(hourly.modelAgreement.extendedStats?.cape?.models).toEqual(["gfs", "ecmwf"]);
+    expect(hourly.modelAgreement.extendedStats?.cape?.min).toBe(400);
+    expect(hourly.modelAgreement.extendedStats?.cape?.max).toBe(600);
+    expect(daily.forecast.snowfall).toEqual({ total: 2 });
+    expect(daily.modelAgreement.extendedStats?.snowfall?.models).toEqual(["gfs", "ecmwf"]);
+    expect(hourly.coverage).toBeUndefined();
+  });
+
+  it("should leave extended metrics out when no model provides them", () => {
+    const aggregated = aggregateForecasts([
+      createMockModelForecast("gfs"),
+      createMockModelForecast("ecmwf"),
+    ]);
+    const hourly = aggregated.consensus.hourly[0];
+
+    expect(hourly.metrics.dewPoint).toBeUndefined();
+    expect(hourly.modelAgreement.extendedStats).toBeUndefined();
+    expect(aggregated.consensus.daily[0].forecast.cape).toBeUndefined();
+  });
+});
+
+describe("aggregation policy", () => {
+  const forecasts: ModelForecast[] = [
+    createMockModelForecast("gfs", [{ temperature: 15 }], [{ tempMax: 18 }]),
+    createMockModelForecast("ecmwf", [{ temperature: 15 }], [{ tempMax: 18 }]),
+    createMockModelForecast("icon", [{ temperature: 15 }], [{ tempMax: 18 }]),
+    createMockModelForecast("ukmo", [{ temperature: 15 }], [{ tempMax: 18 }]),
+    createMockModelForecast("gem", [{ temperature: 15 }], [{ tempMax: 18 }]),
+    createMockModelForecast("jma", [{ temperature: 35 }], [{ tempMax: 38 }]),
+  ];
+
+  it("should keep the built-in methods and omit the summary without a policy", () => {
+    const aggregated = aggregateForecasts(forecasts);
+
+    // Trimmed mean drops one value from each end
+    expect(aggregated.consensus.hourly[0].metrics.temperature).toBe(celsius(15));
+    expect(aggregated.aggregation).toBeUndefined();
+  });
+
+  it("should use the method the policy sets for a metric", () => {
+    const withMean = aggregateForecasts(forecasts, { policy: { temperature: "mean" } });
+    const withMedian = aggregateForecasts(forecasts, { policy: { temperature: "median" } });
+
+    expect(withMean.consensus.hourly[0].metrics.temperature as number).toBeCloseTo(110 / 6, 10);
+    expect(withMedian.consensus.hourly[0].metrics.temperature).toBe(celsius(15));
+    expect(withMean.aggregation?.policy).toEqual({ temperature: "mean" });
+    expect(withMean.aggregation?.exclusions).toEqual([]);
+  });
+
+  it("should drop outliers and record which model was dropped and why", () => {
+    const aggregated = aggregateForecasts(forecasts, {
+      policy: { temperature: "exclude-outliers" },
+    });
+
+    expect(aggregated.consensus.hourly[0].metrics.temperature as number).toBeCloseTo(15, 10);
+    expect(aggregated.consensus.daily[0].forecast.temperature.max as number).toBeCloseTo(18, 10);
+    // The range still shows every model
+    expect(aggregated.consensus.hourly[0].range.temperature.max).toBe(35);
+
+    const exclusions = aggregated.aggregation?.exclusions ?? [];
+    expect(exclusions.map((e) => [e.model, e.metric, e.scope, e.times.length])).toEqual([
+      ["jma", "temperature", "hourly", 1],
+      ["jma", "temperature", "daily", 1],
+    ]);
+    expect(exclusions[0].method).toBe("exclude-outliers");
+    expect(exclusions[0].zScore).toBeGreaterThan(2);
+  });
+
+  it("should leave metrics outside the policy on their built-in methods", () => {
+    const aggregated = aggregateForecasts(
+      [
+        createMockModelForecast("gfs", [{ windSpeed: 4 }]),
+        createMockModelForecast("ecmwf", [{ windSpeed: 5 }]),
+        createMockModelForecast("icon", [{ windSpeed: 12 }]),
+      ],
+      { policy: { temperature: "mean" } }
+    );
+
+    expect(aggregated.consensus.hourly[0].metrics.windSpeed).toBe(metersPerSecond(5));
+  });
+});
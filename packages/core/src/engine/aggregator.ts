@@ -11,11 +11,26 @@ import type {
   AggregatedHourlyForecast,
   AggregatedDailyForecast,
   MetricStatistics,
+  ExtendedMetricStatistics,
   ModelConsensus,
+  ConditionConsensus,
   ModelWeight,
   ConfidenceLevel,
+  AggregationMethod,
+  AggregationMetric,
+  AggregationPolicy,
 } from "../types/models";
-import type { WeatherMetrics, HourlyForecast, DailyForecast } from "../types/weather";
+import type {
+  WeatherMetrics,
+  HourlyForecast,
+  HourlyMetricName,
+  DailyForecast,
+  DailyMetricName,
+  ExtendedMetricName,
+} from "../types/weather";
+import type { Coordinates, Elevation } from "../types/location";
+import type { EnsembleForecast, ExceedanceThreshold } from "../types/ensemble";
+import type { HourlyIndices } from "../types/indices";
 import {
   celsius,
   millimeters,
@@ -25,8 +40,8 @@ import {
   cloudCover,
   uvIndex,
   visibility,
-  weatherCode,
   windDirection,
+  EXTENDED_METRICS,
 } from "../types/weather";
 
 /**
@@ -53,16 +68,83 @@ function toDate(value: Date | string): Date {
 import { confidenceLevel } from "../types/models";
 import {
   mean,
-  median,
   stdDev,
-  trimmedMean,
   calculateSpread,
   findOutlierIndices,
   ensembleProbability,
+  weightedEnsembleProbability,
   confidenceFromStdDev,
   confidenceFromRange,
   type SpreadMetrics,
 } from "./statistics";
+import type { WeightingContext, WeightingStrategy } from "./weighting";
+import { equalWeighting } from "./weighting";
+import {
+  circularMean,
+  circularStatistics,
+  consensusWindDirection,
+  directionConfidence,
+} from "./wind";
+import { conditionConsensus } from "./conditions";
+import {
+  applyAggregationMethod,
+  createExclusionLog,
+  OUTLIER_Z_THRESHOLD,
+  type ExclusionLog,
+} from "./aggregation-policy";
+import {
+  assessDataQuality,
+  dailyCoverage,
+  hourlyCoverage,
+  sampleDailyMetric,
+  sampleDailyExtendedMetric,
+  sampleExtendedMetric,
+  sampleHourlyMetric,
+  uncoveredMetrics,
+  type MetricSample,
+} from "./data-quality";
+import {
+  calculateHourlyUncertainty,
+  calculateDailyUncertainty,
+  DEFAULT_EXCEEDANCE_THRESHOLDS,
+} from "./ensemble";
+import { calculateHourlyIndices, calculateDailyIndices } from "./indices";
+import { calculatePrecipitationType } from "./precipitation-type";
+
+/**
+ * Options for forecast aggregation
+ */
+export interface AggregationOptions {
+  /**
+   * Strategy used to weight models when blending (defaults to equal weighting)
+   */
+  readonly weighting?: WeightingStrategy;
+
+  /**
+   * Member-level ensemble forecasts used to attach uncertainty bands
+   */
+  readonly ensembles?: readonly EnsembleForecast[];
+
+  /**
+   * Thresholds for ensemble exceedance probabilities
+   * (defaults to DEFAULT_EXCEEDANCE_THRESHOLDS)
+   */
+  readonly exceedanceThresholds?: readonly ExceedanceThreshold[];
+
+  /**
+   * Aggregation method per metric (unset metrics use the built-in methods).
+   * When it sets any metric, the result records the policy and any models
+   * it dropped.
+   */
+  readonly policy?: AggregationPolicy;
+
+  /**
+   * Ground elevation (m) of the site, e.g. the geocoded location's. Freezing
+   * levels are measured from it for models that do not report their own
+   * elevation (defaults to the first elevation a model reports).
+   */
+  readonly elevation?: Elevation;
+}
 
 /**
  * Information about an outlier model for a specific metric
@@ -85,11 +167,6 @@ const CONFIDENCE_THRESHOLDS = {
   humidity: { highRange: 10, lowRange: 30 }, // Percentage
 } as const;
 
-/**
- * Z-score threshold for outlier detection
- */
-const OUTLIER_Z_THRESHOLD = 2.0;
-
 /**
  * Group hourly forecasts by timestamp across models.
  * Returns a map of timestamp ISO string to array of forecasts at that time.
@@ -132,10 +209,117 @@ function groupByDate(
 }
 
 /**
- * Extract numeric values from an array of items using a getter function.
+ * Combine a metric sample, or fall back to a placeholder when no model
+ * provided the metric.
+ */
+function combine(
+  sample: MetricSample,
+  method: (values: readonly number[], weights: readonly number[]) => number,
+  placeholder: number
+): number {
+  return sample.values.length > 0 ? method(sample.values, sample.weights) : placeholder;
+}
+
+/**
+ * Combines one metric sample, or returns the placeholder when no model
+ * provided it. `builtIn` is the method used when the policy leaves the
+ * metric unset.
+ */
+type MetricCombiner = (
+  metric: AggregationMetric,
+  builtIn: AggregationMethod,
+  sample: MetricSample,
+  placeholder: number
+) => number;
+
+/**
+ * Create a combiner that applies the policy and logs dropped models
+ */
+function createCombiner(
+  policy: AggregationPolicy,
+  log: ExclusionLog,
+  scope: "hourly" | "daily",
+  time: Date
+): MetricCombiner {
+  return (metric, builtIn, sample, placeholder) => {
+    if (sample.values.length === 0) return placeholder;
+    const method = policy[metric] ?? builtIn;
+    const result = applyAggregationMethod(method, sample.values, sample.weights);
+    for (const { index, zScore } of result.excluded) {
+      log.record(sample.models[index], metric, scope, method, time, zScore);
+    }
+    return result.value;
+  };
+}
+
+/**
+ * Min and max of a metric sample (the placeholder when it is empty)
+ */
+function sampleRange(
+  sample: MetricSample,
+  placeholder: number
+): { readonly min: number; readonly max: number } {
+  return sample.values.length > 0
+    ? { min: Math.min(...sample.values), max: Math.max(...sample.values) }
+    : { min: placeholder, max: placeholder };
+}
+
+/**
+ * Consensus wind direction from the models that provided both speed and
+ * direction, or the circular mean of directions when none provided both.
+ */
+function combineWindDirection(
+  speeds: MetricSample,
+  directions: MetricSample,
+  placeholder: number
+): number {
+  const paired = directions.models
+    .map((model, i) => ({ i, speedIndex: speeds.models.indexOf(model) }))
+    .filter(({ speedIndex }) => speedIndex >= 0);
+
+  if (paired.length > 0) {
+    return consensusWindDirection(
+      paired.map(({ speedIndex }) => speeds.values[speedIndex]),
+      paired.map(({ i }) => directions.values[i]),
+      paired.map(({ i }) => directions.weights[i])
+    );
+  }
+  return combine(directions, circularMean, placeholder);
+}
+
+/**
+ * Vote on the weather condition among the models that provided a code
+ */
+function voteConditions(codes: MetricSample): ConditionConsensus {
+  return conditionConsensus(
+    codes.models.map((model, i) => ({ model, weatherCode: codes.values[i] })),
+    codes.weights
+  );
+}
+
+/**
+ * Record outliers in one metric sample
  */
-function extractValues<T>(items: readonly T[], getter: (item: T) => number): number[] {
-  return items.map(getter);
+function collectOutliers(
+  sample: MetricSample,
+  metric: string,
+  timestamp: Date,
+  outliers: OutlierInfo[],
+  outlierModels: Set<ModelName>
+): void {
+  const avg = mean(sample.values);
+  const sd = stdDev(sample.values);
+
+  for (const idx of findOutlierIndices(sample.values, OUTLIER_Z_THRESHOLD)) {
+    outlierModels.add(sample.models[idx]);
+    outliers.push({
+      model: sample.models[idx],
+      metric,
+      value: sample.values[idx],
+      zScore: sd > 0 ? (sample.values[idx] - avg) / sd : 0,
+      timestamp,
+    });
+  }
 }
 
 /**
@@ -153,8 +337,121 @@ function calculateMetricStatistics(values: readonly number[]): MetricStatistics
   };
 }
 
+/**
+ * Built-in aggregation method for each extended metric
+ */
+const EXTENDED_METHODS: Record<ExtendedMetricName, AggregationMethod> = {
+  dewPoint: "trimmed-mean",
+  snowfall: "mean",
+  snowDepth: "mean",
+  freezingLevelHeight: "mean",
+  cape: "weighted-median",
+  soilTemperature: "trimmed-mean",
+  soilMoisture: "mean",
+  shortwaveRadiation: "mean",
+};
+
+/**
+ * Daily value each extended metric's agreement is measured on
+ */
+const DAILY_EXTENDED_VALUES: Record<
+  ExtendedMetricName,
+  (daily: DailyForecast) => number | undefined
+> = {
+  dewPoint: (d) => d.dewPoint?.max,
+  snowfall: (d) => d.snowfall?.total,
+  snowDepth: (d) => d.snowDepth?.max,
+  freezingLevelHeight: (d) => d.freezingLevelHeight?.min,
+  cape: (d) => d.cape?.max,
+  soilTemperature: (d) => d.soilTemperature?.max,
+  soilMoisture: (d) => d.soilMoisture?.avg,
+  shortwaveRadiation: (d) => d.shortwaveRadiation?.total,
+};
+
+/**
+ * Statistics for each extended metric at least one model provided
+ * (undefined when none did)
+ */
+function calculateExtendedStatistics(
+  sampleMetric: (metric: ExtendedMetricName) => MetricSample
+): ModelConsensus["extendedStats"] {
+  const stats: { [M in ExtendedMetricName]?: ExtendedMetricStatistics } = {};
+  for (const metric of EXTENDED_METRICS) {
+    const sample = sampleMetric(metric);
+    if (sample.values.length > 0) {
+      stats[metric] = { ...calculateMetricStatistics(sample.values), models: sample.models };
+    }
+  }
+  return Object.keys(stats).length > 0 ? stats : undefined;
+}
+
+/**
+ * Combine each extended metric at least one model provided
+ */
+function aggregateExtendedMetrics(
+  items: readonly { model: ModelName; hourly: HourlyForecast }[],
+  weights: readonly number[],
+  combineMetric: MetricCombiner
+): Pick<WeatherMetrics, ExtendedMetricName> {
+  const metrics: { -readonly [M in ExtendedMetricName]?: number } = {};
+  for (const metric of EXTENDED_METRICS) {
+    const sample = sampleExtendedMetric(items, metric, weights);
+    if (sample.values.length > 0) {
+      metrics[metric] = combineMetric(metric, EXTENDED_METHODS[metric], sample, 0);
+    }
+  }
+  return metrics as Pick<WeatherMetrics, ExtendedMetricName>;
+}
+
+/**
+ * Combine the extended daily summaries at least one model provided
+ */
+function aggregateDailyExtendedMetrics(
+  items: readonly { model: ModelName; daily: DailyForecast }[],
+  weights: readonly number[],
+  combineMetric: MetricCombiner
+): Pick<DailyForecast, ExtendedMetricName> {
+  const combined = (
+    metric: ExtendedMetricName,
+    getter: (daily: DailyForecast) => number | undefined
+  ): number | undefined => {
+    const sample = sampleDailyExtendedMetric(items, getter, weights);
+    return sample.values.length > 0
+      ? combineMetric(metric, EXTENDED_METHODS[metric], sample, 0)
+      : undefined;
+  };
+  const dewPointMin = combined("dewPoint", (d) => d.dewPoint?.min);
+  const dewPointMax = combined("dewPoint", (d) => d.dewPoint?.max);
+  const snowfall = combined("snowfall", (d) => d.snowfall?.total);
+  const snowDepth = combined("snowDepth", (d) => d.snowDepth?.max);
+  const freezingLevel = combined("freezingLevelHeight", (d) => d.freezingLevelHeight?.min);
+  const cape = combined("cape", (d) => d.cape?.max);
+  const soilTempMin = combined("soilTemperature", (d) => d.soilTemperature?.min);
+  const soilTempMax = combined("soilTemperature", (d) => d.soilTemperature?.max);
+  const soilMoisture = combined("soilMoisture", (d) => d.soilMoisture?.avg);
+  const radiation = combined("shortwaveRadiation", (d) => d.shortwaveRadiation?.total);
+
+  return {
+    ...(dewPointMin !== undefined &&
+      dewPointMax !== undefined && {
+        dewPoint: { min: celsius(dewPointMin), max: celsius(dewPointMax) },
+      }),
+    ...(snowfall !== undefined && { snowfall: { total: snowfall } }),
+    ...(snowDepth !== undefined && { snowDepth: { max: snowDepth } }),
+    ...(freezingLevel !== undefined && { freezingLevelHeight: { min: freezingLevel } }),
+    ...(cape !== undefined && { cape: { max: cape } }),
+    ...(soilTempMin !== undefined &&
+      soilTempMax !== undefined && {
+        soilTemperature: { min: celsius(soilTempMin), max: celsius(soilTempMax) },
+      }),
+    ...(soilMoisture !== undefined && { soilMoisture: { avg: soilMoisture } }),
+    ...(radiation !== undefined && { shortwaveRadiation: { total: radiation } }),
+  };
+}
+
 /**
  * Calculate model consensus for hourly forecasts at a specific timestamp.
+ * Each metric only counts the models that provided it.
  */
 function calculateHourlyConsensus(
   items: readonly { model: ModelName; hourly: HourlyForecast }[]
@@ -162,63 +459,26 @@ function calculateHourlyConsensus(
   const outliers: OutlierInfo[] = [];
 
   // Extract metric values
-  const tempValues = extractValues(items, (i) => i.hourly.metrics.temperature);
-  const precipValues = extractValues(items, (i) => i.hourly.metrics.precipitation);
-  const windValues = extractValues(items, (i) => i.hourly.metrics.windSpeed);
-
-  // Calculate statistics
-  const temperatureStats = calculateMetricStatistics(tempValues);
-  const precipitationStats = calculateMetricStatistics(precipValues);
-  const windStats = calculateMetricStatistics(windValues);
+  const temps = sampleHourlyMetric(items, "temperature");
+  const precips = sampleHourlyMetric(items, "precipitation");
+  const winds = sampleHourlyMetric(items, "windSpeed");
+  const windDirs = sampleHourlyMetric(items, "windDirection");
+
+  // Calculate statistics (wind direction is circular)
+  const temperatureStats = calculateMetricStatistics(temps.values);
+  const precipitationStats = calculateMetricStatistics(precips.values);
+  const windStats = calculateMetricStatistics(winds.values);
+  const windDirectionStats = circularStatistics(windDirs.values);
+  const extendedStats = calculateExtendedStatistics((metric) =>
+    sampleExtendedMetric(items, metric)
+  );
 
   // Find outliers
-  const tempOutlierIndices = findOutlierIndices(tempValues, OUTLIER_Z_THRESHOLD);
-  const precipOutlierIndices = findOutlierIndices(precipValues, OUTLIER_Z_THRESHOLD);
-  const windOutlierIndices = findOutlierIndices(windValues, OUTLIER_Z_THRESHOLD);
-
   const outlierModels = new Set<ModelName>();
-
-  for (const idx of tempOutlierIndices) {
-    const item = items[idx];
-    outlierModels.add(item.model);
-    const avg = mean(tempValues);
-    const sd = stdDev(tempValues);
-    outliers.push({
-      model: item.model,
-      metric: "temperature",
-      value: tempValues[idx],
-      zScore: sd > 0 ? (tempValues[idx] - avg) / sd : 0,
-      timestamp: item.hourly.timestamp,
-    });
-  }
-
-  for (const idx of precipOutlierIndices) {
-    const item = items[idx];
-    outlierModels.add(item.model);
-    const avg = mean(precipValues);
-    const sd = stdDev(precipValues);
-    outliers.push({
-      model: item.model,
-      metric: "precipitation",
-      value: precipValues[idx],
-      zScore: sd > 0 ? (precipValues[idx] - avg) / sd : 0,
-      timestamp: item.hourly.timestamp,
-    });
-  }
-
-  for (const idx of windOutlierIndices) {
-    const item = items[idx];
-    outlierModels.add(item.model);
-    const avg = mean(windValues);
-    const sd = stdDev(windValues);
-    outliers.push({
-      model: item.model,
-      metric: "windSpeed",
-      value: windValues[idx],
-      zScore: sd > 0 ? (windValues[idx] - avg) / sd : 0,
-      timestamp: item.hourly.timestamp,
-    });
-  }
+  const timestamp = items[0].hourly.timestamp;
+  collectOutliers(temps, "temperature", timestamp, outliers, outlierModels);
+  collectOutliers(precips, "precipitation", timestamp, outliers, outlierModels);
+  collectOutliers(winds, "windSpeed", timestamp, outliers, outlierModels);
 
   // Models in agreement are those not flagged as outliers
   const modelsInAgreement = items
@@ -237,6 +497,8 @@ function calculateHourlyConsensus(
       temperatureStats,
       precipitationStats,
       windStats,
+      windDirectionStats,
+      ...(extendedStats && { extendedStats }),
     },
     outliers,
   };
@@ -244,49 +506,104 @@ function calculateHourlyConsensus(
 
 /**
  * Aggregate weather metrics from multiple models for a single timestamp.
- * Uses trimmed mean for temperature, median for wind, mean for humidity.
+ * Uses trimmed mean for temperature, median for wind, mean for humidity,
+ * each weighted per model (weights are aligned with items), unless the
+ * aggregation policy picks another method. Models missing a metric are left
+ * out of it; a metric no model provided keeps the first model's placeholder
+ * and is listed in `missing`.
  */
 function aggregateHourlyMetrics(
-  items: readonly { model: ModelName; hourly: HourlyForecast }[]
+  items: readonly { model: ModelName; hourly: HourlyForecast }[],
+  weights: readonly number[],
+  conditions: ConditionConsensus,
+  missing: readonly HourlyMetricName[],
+  combineMetric: MetricCombiner
 ): WeatherMetrics {
   // Extract values for each metric
-  const temps = extractValues(items, (i) => i.hourly.metrics.temperature);
-  const feelsLikes = extractValues(items, (i) => i.hourly.metrics.feelsLike);
-  const humidities = extractValues(items, (i) => i.hourly.metrics.humidity);
-  const pressures = extractValues(items, (i) => i.hourly.metrics.pressure);
-  const windSpeeds = extractValues(items, (i) => i.hourly.metrics.windSpeed);
-  const windDirs = extractValues(items, (i) => i.hourly.metrics.windDirection);
-  const windGusts = items
-    .filter((i) => i.hourly.metrics.windGust !== undefined)
-    .map((i) => i.hourly.metrics.windGust!);
-  const precips = extractValues(items, (i) => i.hourly.metrics.precipitation);
-  const cloudCovers = extractValues(items, (i) => i.hourly.metrics.cloudCover);
-  const visibilities = extractValues(items, (i) => i.hourly.metrics.visibility);
-  const uvIndices = extractValues(items, (i) => i.hourly.metrics.uvIndex);
-  const weatherCodes = extractValues(items, (i) => i.hourly.metrics.weatherCode);
+  const sample = (metric: HourlyMetricName): MetricSample =>
+    sampleHourlyMetric(items, metric, weights);
+  const temps = sample("temperature");
+  const feelsLikes = sample("feelsLike");
+  const humidities = sample("humidity");
+  const pressures = sample("pressure");
+  const windSpeeds = sample("windSpeed");
+  const windDirs = sample("windDirection");
+  const windGusts = sample("windGust");
+  const precips = sample("precipitation");
+  const cloudCovers = sample("cloudCover");
+  const visibilities = sample("visibility");
+  const uvIndices = sample("uvIndex");
+  const placeholder = items[0].hourly.metrics;
 
   // Aggregate using appropriate methods per the strategy:
   // - Temperature: trimmed mean (robust to outliers)
   // - Wind speed: median (robust to outliers)
+  // - Wind direction: direction of the mean u/v wind vector
   // - Humidity: mean
-  // - Precipitation: ensemble probability approach (% models > 0.1mm)
+  // - Precipitation: ensemble probability approach (% of weight > 0.1mm)
+  // - Weather code: weighted vote over conditions (see conditionConsensus)
   return {
-    temperature: celsius(trimmedMean(temps)),
-    feelsLike: celsius(trimmedMean(feelsLikes)),
-    humidity: humidity(Math.round(mean(humidities))),
-    pressure: pressure(mean(pressures)),
-    windSpeed: metersPerSecond(median(windSpeeds)),
-    windDirection: windDirection(Math.round(mean(windDirs))),
-    windGust: windGusts.length > 0 ? metersPerSecond(median(windGusts)) : undefined,
-    precipitation: millimeters(mean(precips)),
-    precipitationProbability: ensembleProbability(precips, 0.1, "gt"),
-    cloudCover: cloudCover(Math.round(mean(cloudCovers))),
-    visibility: visibility(mean(visibilities)),
-    uvIndex: uvIndex(Math.round(median(uvIndices))),
-    weatherCode: weatherCode(Math.round(median(weatherCodes))),
+    temperature: celsius(
+      combineMetric("temperature", "trimmed-mean", temps, placeholder.temperature)
+    ),
+    feelsLike: celsius(
+      combineMetric("temperature", "trimmed-mean", feelsLikes, placeholder.feelsLike)
+    ),
+    humidity: humidity(
+      Math.round(combineMetric("humidity", "mean", humidities, placeholder.humidity))
+    ),
+    pressure: pressure(combineMetric("pressure", "mean", pressures, placeholder.pressure)),
+    windSpeed: metersPerSecond(
+      combineMetric("windSpeed", "weighted-median", windSpeeds, placeholder.windSpeed)
+    ),
+    windDirection: windDirection(
+      Math.round(combineWindDirection(windSpeeds, windDirs, placeholder.windDirection))
+    ),
+    windGust:
+      windGusts.values.length > 0
+        ? metersPerSecond(combineMetric("windSpeed", "weighted-median", windGusts, 0))
+        : undefined,
+    precipitation: millimeters(
+      combineMetric("precipitation", "mean", precips, placeholder.precipitation)
+    ),
+    precipitationProbability:
+      precips.values.length > 0
+        ? weightedEnsembleProbability(precips.values, precips.weights, 0.1, "gt")
+        : placeholder.precipitationProbability,
+    cloudCover: cloudCover(
+      Math.round(combineMetric("cloudCover", "mean", cloudCovers, placeholder.cloudCover))
+    ),
+    visibility: visibility(
+      combineMetric("visibility", "mean", visibilities, placeholder.visibility)
+    ),
+    uvIndex: uvIndex(
+      Math.round(combineMetric("uvIndex", "weighted-median", uvIndices, placeholder.uvIndex))
+    ),
+    weatherCode: conditions.weatherCode,
+    ...aggregateExtendedMetrics(items, weights, combineMetric),
+    ...(missing.length > 0 && { missing }),
   };
 }
 
+/**
+ * Wind confidence: the lower of speed agreement (range in km/h) and
+ * direction agreement (circular spread, ignored in calm conditions).
+ */
+function calculateWindConfidence(consensus: ModelConsensus): number {
+  const speedConfidence = confidenceFromRange(
+    consensus.windStats.range * 3.6,
+    CONFIDENCE_THRESHOLDS.windSpeed.highRange,
+    CONFIDENCE_THRESHOLDS.windSpeed.lowRange
+  );
+  if (!consensus.windDirectionStats) {
+    return speedConfidence;
+  }
+  return Math.min(
+    speedConfidence,
+    directionConfidence(consensus.windDirectionStats, consensus.windStats.median)
+  );
+}
+
 /**
  * Calculate confidence level for aggregated hourly forecast.
  */
@@ -306,13 +623,8 @@ function calculateHourlyConfidence(
   const precipConfidence =
     precipProbability >= 80 || precipProbability <= 20 ? 1.0 : 0.5;
 
-  // Wind confidence based on range (convert m/s to km/h)
-  const windRangeKmh = consensus.windStats.range * 3.6;
-  const windConfidence = confidenceFromRange(
-    windRangeKmh,
-    CONFIDENCE_THRESHOLDS.windSpeed.highRange,
-    CONFIDENCE_THRESHOLDS.windSpeed.lowRange
-  );
+  // Wind confidence based on speed range (converted m/s to km/h) and direction spread
+  const windConfidence = calculateWindConfidence(consensus);
 
   // Overall confidence is weighted average
   const overallScore = tempConfidence * 0.4 + precipConfidence * 0.3 + windConfidence * 0.3;
@@ -322,6 +634,7 @@ function calculateHourlyConfidence(
 
 /**
  * Calculate model consensus for daily forecasts.
+ * Each metric only counts the models that provided it.
  */
 function calculateDailyConsensus(
   items: readonly { model: ModelName; daily: DailyForecast }[]
@@ -329,63 +642,26 @@ function calculateDailyConsensus(
   const outliers: OutlierInfo[] = [];
 
   // Extract metric values (using max temp as representative)
-  const tempMaxValues = extractValues(items, (i) => i.daily.temperature.max);
-  const precipValues = extractValues(items, (i) => i.daily.precipitation.total);
-  const windValues = extractValues(items, (i) => i.daily.wind.maxSpeed);
-
-  // Calculate statistics
-  const temperatureStats = calculateMetricStatistics(tempMaxValues);
-  const precipitationStats = calculateMetricStatistics(precipValues);
-  const windStats = calculateMetricStatistics(windValues);
+  const tempMaxes = sampleDailyMetric(items, "temperatureMax", (d) => d.temperature.max);
+  const precips = sampleDailyMetric(items, "precipitation", (d) => d.precipitation.total);
+  const winds = sampleDailyMetric(items, "windSpeed", (d) => d.wind.maxSpeed);
+  const windDirs = sampleDailyMetric(items, "windDirection", (d) => d.wind.dominantDirection);
+
+  // Calculate statistics (wind direction is circular)
+  const temperatureStats = calculateMetricStatistics(tempMaxes.values);
+  const precipitationStats = calculateMetricStatistics(precips.values);
+  const windStats = calculateMetricStatistics(winds.values);
+  const windDirectionStats = circularStatistics(windDirs.values);
+  const extendedStats = calculateExtendedStatistics((metric) =>
+    sampleDailyExtendedMetric(items, DAILY_EXTENDED_VALUES[metric])
+  );
 
   // Find outliers
-  const tempOutlierIndices = findOutlierIndices(tempMaxValues, OUTLIER_Z_THRESHOLD);
-  const precipOutlierIndices = findOutlierIndices(precipValues, OUTLIER_Z_THRESHOLD);
-  const windOutlierIndices = findOutlierIndices(windValues, OUTLIER_Z_THRESHOLD);
-
   const outlierModels = new Set<ModelName>();
-
-  for (const idx of tempOutlierIndices) {
-    const item = items[idx];
-    outlierModels.add(item.model);
-    const avg = mean(tempMaxValues);
-    const sd = stdDev(tempMaxValues);
-    outliers.push({
-      model: item.model,
-      metric: "temperature",
-      value: tempMaxValues[idx],
-      zScore: sd > 0 ? (tempMaxValues[idx] - avg) / sd : 0,
-      timestamp: item.daily.date,
-    });
-  }
-
-  for (const idx of precipOutlierIndices) {
-    const item = items[idx];
-    outlierModels.add(item.model);
-    const avg = mean(precipValues);
-    const sd = stdDev(precipValues);
-    outliers.push({
-      model: item.model,
-      metric: "precipitation",
-      value: precipValues[idx],
-      zScore: sd > 0 ? (precipValues[idx] - avg) / sd : 0,
-      timestamp: item.daily.date,
-    });
-  }
-
-  for (const idx of windOutlierIndices) {
-    const item = items[idx];
-    outlierModels.add(item.model);
-    const avg = mean(windValues);
-    const sd = stdDev(windValues);
-    outliers.push({
-      model: item.model,
-      metric: "windSpeed",
-      value: windValues[idx],
-      zScore: sd > 0 ? (windValues[idx] - avg) / sd : 0,
-      timestamp: item.daily.date,
-    });
-  }
+  const date = items[0].daily.date;
+  collectOutliers(tempMaxes, "temperature", date, outliers, outlierModels);
+  collectOutliers(precips, "precipitation", date, outliers, outlierModels);
+  collectOutliers(winds, "windSpeed", date, outliers, outlierModels);
 
   const modelsInAgreement = items
     .filter((i) => !outlierModels.has(i.model))
@@ -402,6 +678,8 @@ function calculateDailyConsensus(
       temperatureStats,
       precipitationStats,
       windStats,
+      windDirectionStats,
+      ...(extendedStats && { extendedStats }),
     },
     outliers,
   };
@@ -409,64 +687,105 @@ function calculateDailyConsensus(
 
 /**
  * Aggregate daily forecasts from multiple models.
+ * Weights are aligned with items; methods follow the aggregation policy.
+ * Models missing a metric are left out of it; a metric no model provided
+ * keeps the first model's placeholder.
  */
 function aggregateDailyForecast(
-  items: readonly { model: ModelName; daily: DailyForecast }[]
+  items: readonly { model: ModelName; daily: DailyForecast }[],
+  weights: readonly number[],
+  conditions: ConditionConsensus,
+  missing: readonly DailyMetricName[],
+  combineMetric: MetricCombiner
 ): DailyForecast {
   // Use first item as template for structure
   const template = items[0].daily;
 
   // Extract and aggregate values
-  const tempMaxes = extractValues(items, (i) => i.daily.temperature.max);
-  const tempMins = extractValues(items, (i) => i.daily.temperature.min);
-  const humidityMaxes = extractValues(items, (i) => i.daily.humidity.max);
-  const humidityMins = extractValues(items, (i) => i.daily.humidity.min);
-  const pressureMaxes = extractValues(items, (i) => i.daily.pressure.max);
-  const pressureMins = extractValues(items, (i) => i.daily.pressure.min);
-  const precipTotals = extractValues(items, (i) => i.daily.precipitation.total);
-  const precipHours = extractValues(items, (i) => i.daily.precipitation.hours);
-  const windAvgSpeeds = extractValues(items, (i) => i.daily.wind.avgSpeed);
-  const windMaxSpeeds = extractValues(items, (i) => i.daily.wind.maxSpeed);
-  const windDirs = extractValues(items, (i) => i.daily.wind.dominantDirection);
-  const cloudAvgs = extractValues(items, (i) => i.daily.cloudCover.avg);
-  const cloudMaxes = extractValues(items, (i) => i.daily.cloudCover.max);
-  const uvMaxes = extractValues(items, (i) => i.daily.uvIndex.max);
-  const weatherCodes = extractValues(items, (i) => i.daily.weatherCode);
+  const sample = (
+    metric: DailyMetricName,
+    getter: (daily: DailyForecast) => number
+  ): MetricSample => sampleDailyMetric(items, metric, getter, weights);
+  const tempMaxes = sample("temperatureMax", (d) => d.temperature.max);
+  const tempMins = sample("temperatureMin", (d) => d.temperature.min);
+  const humidityMaxes = sample("humidity", (d) => d.humidity.max);
+  const humidityMins = sample("humidity", (d) => d.humidity.min);
+  const pressureMaxes = sample("pressure", (d) => d.pressure.max);
+  const pressureMins = sample("pressure", (d) => d.pressure.min);
+  const precipTotals = sample("precipitation", (d) => d.precipitation.total);
+  const precipHours = sample("precipitationHours", (d) => d.precipitation.hours);
+  const windAvgSpeeds = sample("windSpeed", (d) => d.wind.avgSpeed);
+  const windMaxSpeeds = sample("windSpeed", (d) => d.wind.maxSpeed);
+  const windDirs = sample("windDirection", (d) => d.wind.dominantDirection);
+  const cloudAvgs = sample("cloudCover", (d) => d.cloudCover.avg);
+  const cloudMaxes = sample("cloudCover", (d) => d.cloudCover.max);
+  const uvMaxes = sample("uvIndex", (d) => d.uvIndex.max);
 
   return {
     date: template.date,
     temperature: {
-      min: celsius(trimmedMean(tempMins)),
-      max: celsius(trimmedMean(tempMaxes)),
+      min: celsius(
+        combineMetric("temperature", "trimmed-mean", tempMins, template.temperature.min)
+      ),
+      max: celsius(
+        combineMetric("temperature", "trimmed-mean", tempMaxes, template.temperature.max)
+      ),
     },
     humidity: {
-      min: humidity(Math.round(mean(humidityMins))),
-      max: humidity(Math.round(mean(humidityMaxes))),
+      min: humidity(
+        Math.round(combineMetric("humidity", "mean", humidityMins, template.humidity.min))
+      ),
+      max: humidity(
+        Math.round(combineMetric("humidity", "mean", humidityMaxes, template.humidity.max))
+      ),
     },
     pressure: {
-      min: pressure(mean(pressureMins)),
-      max: pressure(mean(pressureMaxes)),
+      min: pressure(combineMetric("pressure", "mean", pressureMins, template.pressure.min)),
+      max: pressure(combineMetric("pressure", "mean", pressureMaxes, template.pressure.max)),
     },
     precipitation: {
-      total: millimeters(mean(precipTotals)),
-      probability: ensembleProbability(precipTotals, 0.1, "gt"),
-      hours: Math.round(mean(precipHours)),
+      total: millimeters(
+        combineMetric("precipitation", "mean", precipTotals, template.precipitation.total)
+      ),
+      probability:
+        precipTotals.values.length > 0
+          ? weightedEnsembleProbability(precipTotals.values, precipTotals.weights, 0.1, "gt")
+          : template.precipitation.probability,
+      hours: Math.round(
+        combineMetric("precipitation", "mean", precipHours, template.precipitation.hours)
+      ),
     },
     wind: {
-      avgSpeed: metersPerSecond(mean(windAvgSpeeds)),
-      maxSpeed: metersPerSecond(median(windMaxSpeeds)),
-      dominantDirection: windDirection(Math.round(mean(windDirs))),
+      avgSpeed: metersPerSecond(
+        combineMetric("windSpeed", "mean", windAvgSpeeds, template.wind.avgSpeed)
+      ),
+      maxSpeed: metersPerSecond(
+        combineMetric("windSpeed", "weighted-median", windMaxSpeeds, template.wind.maxSpeed)
+      ),
+      dominantDirection: windDirection(
+        Math.round(
+          combineWindDirection(windAvgSpeeds, windDirs, template.wind.dominantDirection)
+        )
+      ),
     },
     cloudCover: {
-      avg: cloudCover(Math.round(mean(cloudAvgs))),
-      max: cloudCover(Math.round(mean(cloudMaxes))),
+      avg: cloudCover(
+        Math.round(combineMetric("cloudCover", "mean", cloudAvgs, template.cloudCover.avg))
+      ),
+      max: cloudCover(
+        Math.round(combineMetric("cloudCover", "mean", cloudMaxes, template.cloudCover.max))
+      ),
     },
     uvIndex: {
-      max: uvIndex(Math.round(median(uvMaxes))),
+      max: uvIndex(
+        Math.round(combineMetric("uvIndex", "weighted-median", uvMaxes, template.uvIndex.max))
+      ),
     },
     sun: template.sun, // Use template sun times (they should be similar across models)
-    weatherCode: weatherCode(Math.round(median(weatherCodes))),
+    weatherCode: conditions.weatherCode,
     hourly: [], // Aggregated hourly is handled separately
+    ...aggregateDailyExtendedMetrics(items, weights, combineMetric),
+    ...(missing.length > 0 && { missing }),
   };
 }
 
@@ -488,12 +807,7 @@ function calculateDailyConfidence(
   const precipConfidence =
     precipProbability >= 80 || precipProbability <= 20 ? 1.0 : 0.5;
 
-  const windRangeKmh = consensus.windStats.range * 3.6;
-  const windConfidence = confidenceFromRange(
-    windRangeKmh,
-    CONFIDENCE_THRESHOLDS.windSpeed.highRange,
-    CONFIDENCE_THRESHOLDS.windSpeed.lowRange
-  );
+  const windConfidence = calculateWindConfidence(consensus);
 
   const overallScore = tempConfidence * 0.4 + precipConfidence * 0.3 + windConfidence * 0.3;
 
@@ -501,15 +815,59 @@ function calculateDailyConfidence(
 }
 
 /**
- * Calculate default model weights (equal weighting).
+ * Hours between the forecast start and a given time (never negative).
+ */
+function leadTimeHours(start: Date, at: Date | string): number {
+  return Math.max(0, (toDate(at).getTime() - start.getTime()) / (60 * 60 * 1000));
+}
+
+/**
+ * Resolve weights for a group of items using the weighting strategy.
+ * Returned weights are aligned with items.
  */
-function calculateModelWeights(models: readonly ModelName[]): ModelWeight[] {
-  const weight = models.length > 0 ? 1 / models.length : 0;
-  return models.map((model) => ({
-    model,
-    weight,
-    reason: "Equal weighting",
-  }));
+function resolveGroupWeights(
+  strategy: WeightingStrategy,
+  items: readonly { model: ModelName }[],
+  context: WeightingContext
+): number[] {
+  const weights = strategy.weigh(
+    items.map((i) => i.model),
+    context
+  );
+  const byModel = new Map(weights.map((w) => [w.model, w.weight]));
+  return items.map((i) => byModel.get(i.model) ?? 0);
+}
+
+/**
+ * Summarize model weights across the forecast horizon.
+ * Weight is the average over all lead times; the reason describes the
+ * weighting at the start of the forecast.
+ */
+function calculateModelWeights(
+  strategy: WeightingStrategy,
+  models: readonly ModelName[],
+  coordinates: Coordinates,
+  leadTimes: readonly number[]
+): ModelWeight[] {
+  if (models.length === 0) {
+    return [];
+  }
+
+  const samples = leadTimes.length > 0 ? leadTimes : [0];
+  const perLead = samples.map((leadTime) =>
+    strategy.weigh(models, { coordinates, leadTimeHours: leadTime })
+  );
+  const initial = strategy.weigh(models, { coordinates, leadTimeHours: 0 });
+
+  return initial.map((w, i) => {
+    const values = perLead.map((weights) => weights[i].weight);
+    const varies = Math.max(...values) - Math.min(...values) > 1e-6;
+    return {
+      model: w.model,
+      weight: mean(values),
+      reason: varies ? `${w.reason} (varies with lead time)` : w.reason,
+    };
+  });
 }
 
 /**
@@ -537,7 +895,18 @@ function calculateOverallConfidence(
  * - Wind speed: Median (robust to outliers)
  * - Humidity: Mean
  *
+ * `options.policy` can pick another method per metric (e.g. median, or a
+ * mean that drops z-score outliers); dropped models are listed in
+ * `aggregation.exclusions`.
+ *
+ * Each statistic is weighted per model by the weighting strategy,
+ * evaluated at the lead time of each hour/day.
+ *
+ * When ensemble forecasts are supplied, matching hours and days gain
+ * member percentiles and exceedance probabilities as `uncertainty`.
+ *
  * @param forecasts - Array of forecasts from different models
+ * @param options - Aggregation options (e.g. weighting strategy)
  * @returns Aggregated forecast with consensus metrics and individual model data
  *
  * @example
@@ -548,7 +917,8 @@ function calculateOverallConfidence(
  * ```
  */
 export function aggregateForecasts(
-  forecasts: readonly ModelForecast[]
+  forecasts: readonly ModelForecast[],
+  options: AggregationOptions = {}
 ): AggregatedForecast {
   if (forecasts.length === 0) {
     throw new Error("Cannot aggregate empty forecast array");
@@ -557,44 +927,85 @@ export function aggregateForecasts(
   // Use first forecast as reference for coordinates and time range
   const reference = forecasts[0];
   const models = forecasts.map((f) => f.model);
+  const coordinates = reference.coordinates;
+  const elevation =
+    options.elevation ?? forecasts.find((f) => f.elevation !== undefined)?.elevation;
+  const elevations = new Map(forecasts.map((f) => [f.model, f.elevation ?? elevation]));
+  const strategy = options.weighting ?? equalWeighting();
+  const policy = options.policy ?? {};
+  const exclusions = createExclusionLog();
+  const forecastStart = new Date(
+    Math.min(...forecasts.map((f) => toDate(f.validFrom).getTime()))
+  );
+  const leadTimes: number[] = [];
 
   // Group hourly and daily forecasts by timestamp/date
   const hourlyGroups = groupByTimestamp(forecasts);
   const dailyGroups = groupByDate(forecasts);
 
+  // Ensemble uncertainty keyed by ISO timestamp/date
+  const ensembles = options.ensembles ?? [];
+  const thresholds = options.exceedanceThresholds ?? DEFAULT_EXCEEDANCE_THRESHOLDS;
+  const hourlyUncertainty = calculateHourlyUncertainty(ensembles, thresholds);
+  const dailyUncertainty = calculateDailyUncertainty(ensembles, thresholds);
+
   // Aggregate hourly forecasts
   const aggregatedHourly: AggregatedHourlyForecast[] = [];
   for (const [, items] of hourlyGroups) {
     if (items.length === 0) continue;
 
+    const leadTime = leadTimeHours(forecastStart, items[0].hourly.timestamp);
+    leadTimes.push(leadTime);
+    const weights = resolveGroupWeights(strategy, items, {
+      coordinates,
+      leadTimeHours: leadTime,
+    });
+
     const { consensus } = calculateHourlyConsensus(items);
-    const metrics = aggregateHourlyMetrics(items);
-    const precipValues = extractValues(items, (i) => i.hourly.metrics.precipitation);
-    const confidence = calculateHourlyConfidence(consensus, precipValues);
+    const coverage = hourlyCoverage(items);
+    const conditions = voteConditions(sampleHourlyMetric(items, "weatherCode", weights));
+    const metrics = aggregateHourlyMetrics(
+      items,
+      weights,
+      conditions,
+      uncoveredMetrics<HourlyMetricName>(coverage),
+      createCombiner(policy, exclusions, "hourly", toDate(items[0].hourly.timestamp))
+    );
+    const precips = sampleHourlyMetric(items, "precipitation");
+    const confidence = calculateHourlyConfidence(consensus, precips.values);
 
     // Calculate ranges
-    const tempValues = extractValues(items, (i) => i.hourly.metrics.temperature);
-    const windValues = extractValues(items, (i) => i.hourly.metrics.windSpeed);
+    const temps = sampleHourlyMetric(items, "temperature");
+    const winds = sampleHourlyMetric(items, "windSpeed");
+    const uncertainty = hourlyUncertainty.get(toDate(items[0].hourly.timestamp).toISOString());
+    const indices = calculateHourlyIndices(
+      metrics,
+      items.map((item) => item.hourly.metrics)
+    );
+    const precipitationType = calculatePrecipitationType(
+      items.map((item) => ({
+        model: item.model,
+        metrics: item.hourly.metrics,
+        elevation: elevations.get(item.model),
+      })),
+      weights
+    );
 
     aggregatedHourly.push({
       timestamp: items[0].hourly.timestamp,
       metrics,
       confidence,
       modelAgreement: consensus,
+      conditions,
+      ...(coverage.length > 0 && { coverage }),
       range: {
-        temperature: {
-          min: Math.min(...tempValues),
-          max: Math.max(...tempValues),
-        },
-        precipitation: {
-          min: Math.min(...precipValues),
-          max: Math.max(...precipValues),
-        },
-        windSpeed: {
-          min: Math.min(...windValues),
-          max: Math.max(...windValues),
-        },
+        temperature: sampleRange(temps, metrics.temperature),
+        precipitation: sampleRange(precips, metrics.precipitation),
+        windSpeed: sampleRange(winds, metrics.windSpeed),
       },
+      ...(uncertainty && { uncertainty }),
+      ...(indices && { indices }),
+      ...(precipitationType && { precipitationType }),
     });
   }
 
@@ -603,39 +1014,65 @@ export function aggregateForecasts(
     (a, b) => toDate(a.timestamp).getTime() - toDate(b.timestamp).getTime()
   );
 
+  // Hourly indices by date, for each day's peaks
+  const hourlyIndices = new Map<string, HourlyIndices[]>();
+  for (const hour of aggregatedHourly) {
+    if (!hour.indices) continue;
+    const key = toISOString(hour.timestamp).split("T")[0];
+    hourlyIndices.set(key, [...(hourlyIndices.get(key) ?? []), hour.indices]);
+  }
+
   // Aggregate daily forecasts
   const aggregatedDaily: AggregatedDailyForecast[] = [];
   for (const [, items] of dailyGroups) {
     if (items.length === 0) continue;
 
+    const weights = resolveGroupWeights(strategy, items, {
+      coordinates,
+      leadTimeHours: leadTimeHours(forecastStart, items[0].daily.date),
+    });
+
     const { consensus } = calculateDailyConsensus(items);
-    const forecast = aggregateDailyForecast(items);
-    const precipValues = extractValues(items, (i) => i.daily.precipitation.total);
-    const confidence = calculateDailyConfidence(consensus, precipValues);
+    const coverage = dailyCoverage(items);
+    const conditions = voteConditions(
+      sampleDailyMetric(items, "weatherCode", (d) => d.weatherCode, weights)
+    );
+    const forecast = aggregateDailyForecast(
+      items,
+      weights,
+      conditions,
+      uncoveredMetrics<DailyMetricName>(coverage),
+      createCombiner(policy, exclusions, "daily", toDate(items[0].daily.date))
+    );
+    const precips = sampleDailyMetric(items, "precipitation", (d) => d.precipitation.total);
+    const confidence = calculateDailyConfidence(consensus, precips.values);
 
     // Calculate ranges
-    const tempMaxValues = extractValues(items, (i) => i.daily.temperature.max);
-    const tempMinValues = extractValues(items, (i) => i.daily.temperature.min);
+    const tempMaxes = sampleDailyMetric(items, "temperatureMax", (d) => d.temperature.max);
+    const tempMins = sampleDailyMetric(items, "temperatureMin", (d) => d.temperature.min);
+    const dateKey = toISOString(items[0].daily.date).split("T")[0];
+    const uncertainty = dailyUncertainty.get(dateKey);
+    const indices = calculateDailyIndices(
+      forecast,
+      items.map((item) => item.daily),
+      coordinates.latitude,
+      hourlyIndices.get(dateKey)
+    );
 
     aggregatedDaily.push({
       date: items[0].daily.date,
       forecast,
       confidence,
       modelAgreement: consensus,
+      conditions,
+      ...(coverage.length > 0 && { coverage }),
       range: {
-        temperatureMax: {
-          min: Math.min(...tempMaxValues),
-          max: Math.max(...tempMaxValues),
-        },
-        temperatureMin: {
-          min: Math.min(...tempMinValues),
-          max: Math.max(...tempMinValues),
-        },
-        precipitation: {
-          min: Math.min(...precipValues),
-          max: Math.max(...precipValues),
-        },
+        temperatureMax: sampleRange(tempMaxes, forecast.temperature.max),
+        temperatureMin: sampleRange(tempMins, forecast.temperature.min),
+        precipitation: sampleRange(precips, forecast.precipitation.total),
       },
+      ...(uncertainty && { uncertainty }),
+      indices,
     });
   }
 
@@ -643,7 +1080,7 @@ export function aggregateForecasts(
   aggregatedDaily.sort((a, b) => toDate(a.date).getTime() - toDate(b.date).getTime());
 
   // Calculate model weights and overall confidence
-  const modelWeights = calculateModelWeights(models);
+  const modelWeights = calculateModelWeights(strategy, models, coordinates, leadTimes);
   const overallConfidence = calculateOverallConfidence(aggregatedHourly, aggregatedDaily);
 
   // Determine valid time range
@@ -661,8 +1098,11 @@ export function aggregateForecasts(
         ? aggregatedDaily[aggregatedDaily.length - 1].date
         : reference.validTo;
 
+  const dataQuality = assessDataQuality(forecasts);
+
   return {
-    coordinates: reference.coordinates,
+    coordinates,
+    ...(elevation !== undefined && { elevation }),
     generatedAt: new Date(),
     validFrom,
     validTo,
@@ -674,6 +1114,16 @@ export function aggregateForecasts(
     },
     modelWeights,
     overallConfidence,
+    ...(ensembles.length > 0 && {
+      ensemble: {
+        models: ensembles.map((e) => e.model),
+        memberCount: ensembles.reduce((sum, e) => sum + e.memberCount, 0),
+      },
+    }),
+    ...(dataQuality.entries.length > 0 && { dataQuality }),
+    ...(Object.keys(policy).length > 0 && {
+      aggregation: { policy, exclusions: exclusions.entries() },
+    }),
   };
 }
 
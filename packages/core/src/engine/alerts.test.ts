@@ -0,0 +1,323 @@
+/**
+ * Tests for the alert rules engine.
+ */
+
+import { describe, it, expect } from "bun:test";
+import { evaluateAlertRules, formatAlertCondition, ruleAppliesToLocation } from "./alerts";
+import { aggregateForecasts } from "./aggregator";
+import { calculateConfidence } from "./confidence";
+import { generateNarrative } from "./narrative";
+import { buildDailyForecasts } from "../api/providers/derive";
+import { alertRuleSchema, type AlertRuleConfig } from "../config/schema";
+import type { ModelForecast, ModelName } from "../types/models";
+import type { HourlyForecast, HourlyMetricName } from "../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { latitude, longitude, timezoneId } from "../types/location";
+import type { Location } from "../types/location";
+
+const BASE_TIME = new Date("2024-01-15T00:00:00Z").getTime();
+const HOUR_MS = 3600000;
+
+const LOCATION: Location = {
+  query: "London",
+  resolved: {
+    name: "London",
+    coordinates: { latitude: latitude(51.5), longitude: longitude(-0.12) },
+    country: "United Kingdom",
+    countryCode: "GB",
+    timezone: timezoneId("UTC"),
+  },
+};
+
+interface HourValues {
+  temperature?: number;
+  precipitation?: number;
+  windGust?: number;
+  missing?: readonly HourlyMetricName[];
+}
+
+/**
+ * Create a model forecast from per-hour values starting at BASE_TIME
+ */
+function createForecast(model: ModelName, hours: HourValues[]): ModelForecast {
+  const hourly: HourlyForecast[] = hours.map((values, index) => ({
+    timestamp: new Date(BASE_TIME + index * HOUR_MS),
+    metrics: {
+      temperature: celsius(values.temperature ?? 10),
+      feelsLike: celsius(values.temperature ?? 10),
+      humidity: humidity(70),
+      pressure: pressure(1013),
+      windSpeed: metersPerSecond(4),
+      windDirection: windDirection(180),
+      windGust: values.windGust !== undefined ? metersPerSecond(values.windGust) : undefined,
+      precipitation: millimeters(values.precipitation ?? 0),
+      precipitationProbability: 0,
+      cloudCover: cloudCover(50),
+      visibility: visibility(10000),
+      uvIndex: uvIndex(0),
+      weatherCode: weatherCode(2),
+      missing: values.missing,
+    },
+  }));
+
+  return {
+    model,
+    coordinates: LOCATION.resolved.coordinates,
+    generatedAt: new Date(BASE_TIME),
+    validFrom: hourly[0].timestamp,
+    validTo: hourly[hourly.length - 1].timestamp,
+    hourly,
+    daily: buildDailyForecasts(hourly),
+  };
+}
+
+/**
+ * Create a rule with schema defaults applied
+ */
+function createRule(rule: Partial<AlertRuleConfig> & Pick<AlertRuleConfig, "metric" | "operator" | "threshold">): AlertRuleConfig {
+  return alertRuleSchema.parse({ name: "Test rule", ...rule });
+}
+
+describe("evaluateAlertRules", () => {
+  it("should report the window, peak and triggering models", () => {
+    const gusts = (values: number[]): HourValues[] => values.map((windGust) => ({ windGust }));
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", gusts([5, 5, 20, 20, 5, 5])),
+      createForecast("gfs", gusts([5, 5, 18, 18, 5, 5])),
+      createForecast("icon", gusts([5, 5, 10, 10, 5, 5])),
+    ]);
+
+    const alerts = evaluateAlertRules(
+      aggregated,
+      [createRule({ name: "Strong gusts", metric: "windGust", operator: ">", threshold: 15 })],
+      { location: LOCATION }
+    );
+
+    expect(alerts.length).toBe(1);
+    const [alert] = alerts;
+    expect(alert.rule).toBe("Strong gusts");
+    expect(alert.severity).toBe("warning");
+    expect(alert.start.toISOString()).toBe("2024-01-15T02:00:00.000Z");
+    expect(alert.end.toISOString()).toBe("2024-01-15T04:00:00.000Z");
+    expect(alert.value).toBe(18);
+    expect(alert.modelRange).toEqual({ min: 10, max: 20 });
+    expect(alert.probability).toBe(67);
+    expect(alert.triggeringModels).toEqual(["ecmwf", "gfs"]);
+    expect(alert.message).toContain("Strong gusts: wind gusts above 15 m/s, Mon 02:00-Mon 04:00");
+    expect(alert.message).toContain("2 of 3 models");
+  });
+
+  it("should accumulate precipitation over the rule window", () => {
+    const wet = Array.from({ length: 8 }, (_, i) => ({ precipitation: i < 6 ? 2 : 0 }));
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", wet),
+      createForecast("gfs", wet),
+    ]);
+
+    const sixHours = evaluateAlertRules(aggregated, [
+      createRule({ metric: "precipitation", operator: ">", threshold: 10, windowHours: 6 }),
+    ]);
+    const oneHour = evaluateAlertRules(aggregated, [
+      createRule({ metric: "precipitation", operator: ">", threshold: 10 }),
+    ]);
+
+    expect(sixHours.length).toBe(1);
+    expect(sixHours[0].value).toBeCloseTo(12, 5);
+    expect(sixHours[0].probability).toBe(100);
+    expect(sixHours[0].end.getTime() - sixHours[0].start.getTime()).toBe(6 * HOUR_MS);
+    expect(oneHour).toEqual([]);
+  });
+
+  it("should only consider hours in the rule's period", () => {
+    const temps: HourValues[] = Array.from({ length: 24 }, (_, hour) => ({
+      temperature: hour < 3 || hour === 12 ? -2 : 4,
+    }));
+    const aggregated = aggregateForecasts([createForecast("ecmwf", temps)]);
+    const frost = { metric: "temperature", operator: "<", threshold: 0 } as const;
+
+    const overnight = evaluateAlertRules(aggregated, [createRule({ ...frost, period: "night" })], {
+      location: LOCATION,
+    });
+    const anyTime = evaluateAlertRules(aggregated, [createRule(frost)], { location: LOCATION });
+
+    expect(overnight.map((a) => a.start.toISOString())).toEqual(["2024-01-15T00:00:00.000Z"]);
+    expect(overnight[0].end.toISOString()).toBe("2024-01-15T03:00:00.000Z");
+    expect(anyTime.length).toBe(2);
+  });
+
+  it("should use the location's timezone for periods", () => {
+    const temps: HourValues[] = Array.from({ length: 24 }, (_, hour) => ({
+      temperature: hour === 12 ? -2 : 4,
+    }));
+    const aggregated = aggregateForecasts([createForecast("ecmwf", temps)]);
+
+    // 12:00 UTC is 23:00 in Sydney
+    const alerts = evaluateAlertRules(
+      aggregated,
+      [createRule({ metric: "temperature", operator: "<", threshold: 0, period: "night" })],
+      { timezone: "Australia/Sydney" }
+    );
+
+    expect(alerts.length).toBe(1);
+    expect(alerts[0].message).toContain("Mon 23:00");
+  });
+
+  it("should require the minimum confidence", () => {
+    // Models disagree widely, so confidence cannot be high
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [{ temperature: -10, precipitation: 0 }]),
+      createForecast("gfs", [{ temperature: 5, precipitation: 20 }]),
+      createForecast("icon", [{ temperature: 25, precipitation: 0 }]),
+    ]);
+    expect(aggregated.consensus.hourly[0].confidence.level).not.toBe("high");
+
+    const rule = { metric: "temperature", operator: "<", threshold: 100 } as const;
+
+    expect(evaluateAlertRules(aggregated, [createRule(rule)]).length).toBe(1);
+    expect(
+      evaluateAlertRules(aggregated, [createRule({ ...rule, minConfidence: "high" })])
+    ).toEqual([]);
+  });
+
+  it("should skip rules for other locations", () => {
+    const aggregated = aggregateForecasts([createForecast("ecmwf", [{ temperature: -5 }])]);
+    const rule = { metric: "temperature", operator: "<", threshold: 0 } as const;
+
+    const alerts = evaluateAlertRules(
+      aggregated,
+      [createRule({ ...rule, locations: ["Paris"] }), createRule({ ...rule, locations: ["london"] })],
+      { location: LOCATION }
+    );
+
+    expect(alerts.length).toBe(1);
+  });
+
+  it("should order alerts by time, then severity", () => {
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [{ temperature: -5, windGust: 30 }]),
+    ]);
+
+    const alerts = evaluateAlertRules(aggregated, [
+      createRule({ name: "Frost", metric: "temperature", operator: "<", threshold: 0, severity: "info" }),
+      createRule({ name: "Storm", metric: "windGust", operator: ">=", threshold: 25, severity: "severe" }),
+    ]);
+
+    expect(alerts.map((a) => a.rule)).toEqual(["Storm", "Frost"]);
+  });
+
+  it("should ignore models that do not forecast the metric", () => {
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [{ temperature: -5 }]),
+      createForecast("gfs", [{ temperature: -8, missing: ["temperature"] }]),
+    ]);
+
+    const [alert] = evaluateAlertRules(aggregated, [
+      createRule({ metric: "temperature", operator: "<", threshold: 0 }),
+    ]);
+
+    expect(alert.modelRange).toEqual({ min: -5, max: -5 });
+    expect(alert.triggeringModels).toEqual(["ecmwf"]);
+    expect(alert.message).toContain("1 of 1 models");
+  });
+});
+
+describe("ruleAppliesToLocation", () => {
+  it("should apply rules without locations everywhere", () => {
+    const rule = createRule({ metric: "temperature", operator: "<", threshold: 0 });
+
+    expect(ruleAppliesToLocation(rule)).toBe(true);
+    expect(ruleAppliesToLocation({ ...rule, locations: ["London"] })).toBe(false);
+    expect(ruleAppliesToLocation({ ...rule, locations: ["London"] }, LOCATION)).toBe(true);
+  });
+
+  it("should evaluate derived indices for the consensus and each model", () => {
+    // Both models blow 4 m/s; only the colder one drops the wind chill below -10°C
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [{ temperature: -5 }, { temperature: -5 }]),
+      createForecast("gfs", [{ temperature: -3 }, { temperature: -3 }]),
+    ]);
+
+    const alerts = evaluateAlertRules(aggregated, [
+      createRule({ name: "Bitter wind", metric: "windChill", operator: "<", threshold: -8 }),
+    ]);
+
+    expect(alerts.length).toBe(1);
+    expect(alerts[0].value).toBeCloseTo(-9.2, 1);
+    expect(alerts[0].triggeringModels).toEqual(["ecmwf"]);
+    expect(alerts[0].message).toContain("wind chill below -8°C");
+  });
+
+  it("should evaluate the chance of precipitation falling as snow", () => {
+    // Both models forecast precipitation; only the colder one brings snow
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [{ temperature: -2, precipitation: 1 }]),
+      createForecast("gfs", [{ temperature: 3, precipitation: 1 }]),
+    ]);
+
+    const alerts = evaluateAlertRules(aggregated, [
+      createRule({ name: "Snow", metric: "snowProbability", operator: ">=", threshold: 50 }),
+    ]);
+
+    expect(alerts.length).toBe(1);
+    expect(alerts[0].triggeringModels).toEqual(["ecmwf"]);
+    expect(alerts[0].message).toContain("chance of snow at or above 50%");
+  });
+});
+
+describe("formatAlertCondition", () => {
+  it("should describe thresholds with units and windows", () => {
+    expect(
+      formatAlertCondition({ metric: "precipitation", operator: ">", threshold: 10, windowHours: 6 })
+    ).toBe("precipitation above 10 mm over 6h");
+    expect(
+      formatAlertCondition({ metric: "temperature", operator: "<=", threshold: 0, windowHours: 1 })
+    ).toBe("temperature at or below 0°C");
+  });
+});
+
+describe("alertRuleSchema", () => {
+  it("should apply defaults and reject unknown metrics", () => {
+    const rule = alertRuleSchema.parse({
+      name: "Frost",
+      metric: "temperature",
+      operator: "<",
+      threshold: 0,
+    });
+
+    expect(rule.windowHours).toBe(1);
+    expect(rule.period).toBe("any");
+    expect(rule.minConfidence).toBe("low");
+    expect(rule.severity).toBe("warning");
+    expect(
+      alertRuleSchema.safeParse({ name: "x", metric: "snow", operator: ">", threshold: 1 }).success
+    ).toBe(false);
+  });
+});
+
+describe("generateNarrative with rule alerts", () => {
+  it("should list rule alerts after the built-in alerts", () => {
+    const aggregated = aggregateForecasts([createForecast("ecmwf", [{ temperature: -5 }])]);
+    const alerts = evaluateAlertRules(aggregated, [
+      createRule({ name: "Frost", metric: "temperature", operator: "<", threshold: 0 }),
+    ]);
+
+    const narrative = generateNarrative(
+      aggregated,
+      [calculateConfidence(aggregated, "overall", 0)],
+      alerts
+    );
+
+    expect(narrative.alerts[narrative.alerts.length - 1]).toBe(alerts[0].message);
+  });
+});
@@ -0,0 +1,425 @@
+/**
+ * Alert rules engine for Weather Oracle.
+ * Evaluates user-defined threshold rules against the aggregated hourly
+ * forecast and reports when, how strongly, and by how many models each
+ * rule is met.
+ */
+
+import type {
+  AggregatedForecast,
+  AggregatedHourlyForecast,
+  ConfidenceLevelName,
+  ModelName,
+} from "../types/models";
+import type { Location } from "../types/location";
+import { hasMetric, type WeatherMetrics } from "../types/weather";
+import type { PrecipitationType } from "../types/precipitation";
+import type {
+  AlertAggregation,
+  AlertMetric,
+  AlertOperator,
+  AlertPeriod,
+  AlertSeverity,
+  WeatherAlert,
+} from "../types/alerts";
+import type { AlertRuleConfig } from "../config/schema";
+import { createLocalTimeFormatter } from "./templates";
+import { calculateHourlyIndex, isHourlyIndexName } from "./indices";
+import { precipitationTypeProbability } from "./precipitation-type";
+
+/**
+ * Options for evaluating alert rules
+ */
+export interface AlertEvaluationOptions {
+  /**
+   * Location being forecast; rules listing other locations are skipped
+   */
+  location?: Location;
+
+  /**
+   * IANA timezone for day/night periods and messages (default: location timezone, then UTC)
+   */
+  timezone?: string;
+}
+
+/**
+ * A window of consecutive hours that met a rule
+ */
+interface AlertWindow {
+  readonly start: number;
+  readonly end: number;
+  readonly value: number;
+  readonly confidence: ConfidenceLevelName;
+  readonly probability: number;
+  readonly modelRange: { readonly min: number; readonly max: number };
+  readonly triggeringModels: readonly ModelName[];
+  readonly modelCount: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const CONFIDENCE_RANK: Record<ConfidenceLevelName, number> = { low: 0, medium: 1, high: 2 };
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { info: 0, warning: 1, severe: 2 };
+
+/**
+ * Display label and unit suffix for each metric
+ */
+const METRIC_LABELS: Record<AlertMetric, { readonly label: string; readonly unit: string }> = {
+  temperature: { label: "temperature", unit: "°C" },
+  feelsLike: { label: "feels-like temperature", unit: "°C" },
+  windSpeed: { label: "wind speed", unit: " m/s" },
+  windGust: { label: "wind gusts", unit: " m/s" },
+  precipitation: { label: "precipitation", unit: " mm" },
+  precipitationProbability: { label: "chance of precipitation", unit: "%" },
+  humidity: { label: "humidity", unit: "%" },
+  cloudCover: { label: "cloud cover", unit: "%" },
+  uvIndex: { label: "UV index", unit: "" },
+  visibility: { label: "visibility", unit: " m" },
+  heatIndex: { label: "heat index", unit: "°C" },
+  humidex: { label: "humidex", unit: "°C" },
+  windChill: { label: "wind chill", unit: "°C" },
+  wbgt: { label: "WBGT", unit: "°C" },
+  snowProbability: { label: "chance of snow", unit: "%" },
+  sleetProbability: { label: "chance of sleet", unit: "%" },
+  freezingRainProbability: { label: "chance of freezing rain", unit: "%" },
+};
+
+/**
+ * Alert metrics that are the chance of a precipitation type
+ */
+type PrecipitationTypeMetric = "snowProbability" | "sleetProbability" | "freezingRainProbability";
+
+/**
+ * Precipitation type each chance-of-type metric reports
+ */
+const PRECIPITATION_TYPE_METRICS: Record<PrecipitationTypeMetric, PrecipitationType> = {
+  snowProbability: "snow",
+  sleetProbability: "sleet",
+  freezingRainProbability: "freezingRain",
+};
+
+const OPERATOR_WORDS: Record<AlertOperator, string> = {
+  ">": "above",
+  ">=": "at or above",
+  "<": "below",
+  "<=": "at or below",
+};
+
+/**
+ * Convert a Date or string (from cached data) to epoch milliseconds
+ */
+function toTime(value: Date | string): number {
+  return typeof value === "string" ? new Date(value).getTime() : value.getTime();
+}
+
+/**
+ * Whether a metric is the chance of a precipitation type
+ */
+function isPrecipitationTypeMetric(metric: AlertMetric): metric is PrecipitationTypeMetric {
+  return metric in PRECIPITATION_TYPE_METRICS;
+}
+
+/**
+ * Read a metric from hourly metrics (undefined when the model does not
+ * forecast it), deriving indices and precipitation type chances from the
+ * metrics they depend on; precipitation types are classified at the
+ * site's elevation (m)
+ */
+function metricValue(
+  metrics: WeatherMetrics,
+  metric: AlertMetric,
+  elevation: number | undefined
+): number | undefined {
+  if (isHourlyIndexName(metric)) {
+    return calculateHourlyIndex(metrics, metric);
+  }
+  if (isPrecipitationTypeMetric(metric)) {
+    return precipitationTypeProbability(metrics, PRECIPITATION_TYPE_METRICS[metric], elevation);
+  }
+  return hasMetric(metrics, metric) ? metrics[metric] : undefined;
+}
+
+/**
+ * Default aggregation: accumulate precipitation, average everything else
+ */
+function defaultAggregation(metric: AlertMetric): AlertAggregation {
+  return metric === "precipitation" ? "sum" : "mean";
+}
+
+/**
+ * Combine a window of hourly values; undefined if any hour lacks the metric
+ */
+function combine(
+  values: readonly (number | undefined)[],
+  aggregation: AlertAggregation
+): number | undefined {
+  if (values.length === 0 || values.some((v) => v === undefined)) {
+    return undefined;
+  }
+  const numbers = values as number[];
+
+  switch (aggregation) {
+    case "sum":
+      return numbers.reduce((a, b) => a + b, 0);
+    case "mean":
+      return numbers.reduce((a, b) => a + b, 0) / numbers.length;
+    case "max":
+      return Math.max(...numbers);
+    case "min":
+      return Math.min(...numbers);
+  }
+}
+
+/**
+ * Check a value against a rule threshold
+ */
+function meetsThreshold(value: number, operator: AlertOperator, threshold: number): boolean {
+  switch (operator) {
+    case ">":
+      return value > threshold;
+    case ">=":
+      return value >= threshold;
+    case "<":
+      return value < threshold;
+    case "<=":
+      return value <= threshold;
+  }
+}
+
+/**
+ * Whether a value is more extreme than another in the rule's direction
+ */
+function isMoreExtreme(value: number, than: number, operator: AlertOperator): boolean {
+  return operator.startsWith(">") ? value > than : value < than;
+}
+
+/**
+ * Build a function returning the local hour of day in a timezone
+ */
+function createHourOfDay(timezone?: string): (time: number) => number {
+  if (timezone) {
+    try {
+      const formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hour: "numeric",
+        hourCycle: "h23",
+      });
+      return (time) => parseInt(formatter.format(new Date(time)), 10);
+    } catch {
+      // Unknown timezone: fall back to UTC
+    }
+  }
+  return (time) => new Date(time).getUTCHours();
+}
+
+/**
+ * Whether a local hour falls in a rule's period
+ */
+function inPeriod(hour: number, period: AlertPeriod): boolean {
+  switch (period) {
+    case "any":
+      return true;
+    case "day":
+      return hour >= 6 && hour < 18;
+    case "night":
+      return hour < 6 || hour >= 18;
+  }
+}
+
+/**
+ * Whether a rule applies to a location (rules without locations apply everywhere)
+ */
+export function ruleAppliesToLocation(rule: AlertRuleConfig, location?: Location): boolean {
+  if (!rule.locations || rule.locations.length === 0) {
+    return true;
+  }
+  if (!location) {
+    return false;
+  }
+
+  const names = [location.query, location.resolved.name].map((n) => n.trim().toLowerCase());
+  return rule.locations.some((l) => names.includes(l.trim().toLowerCase()));
+}
+
+/**
+ * Describe a rule's condition, e.g. "precipitation above 10 mm over 6h"
+ */
+export function formatAlertCondition(
+  rule: Pick<AlertRuleConfig, "metric" | "operator" | "threshold" | "windowHours">
+): string {
+  const { label, unit } = METRIC_LABELS[rule.metric];
+  const window = rule.windowHours > 1 ? ` over ${rule.windowHours}h` : "";
+  return `${label} ${OPERATOR_WORDS[rule.operator]} ${rule.threshold}${unit}${window}`;
+}
+
+/**
+ * Find every window of consecutive hours meeting a rule
+ */
+function findAlertWindows(
+  hourly: readonly AggregatedHourlyForecast[],
+  aggregated: AggregatedForecast,
+  rule: AlertRuleConfig,
+  hourOfDay: (time: number) => number
+): AlertWindow[] {
+  const aggregation = rule.aggregation ?? defaultAggregation(rule.metric);
+  const size = rule.windowHours;
+  const modelHours = aggregated.modelForecasts.map((forecast) => ({
+    model: forecast.model,
+    elevation: forecast.elevation ?? aggregated.elevation,
+    byTime: new Map(forecast.hourly.map((h) => [toTime(h.timestamp), h.metrics])),
+  }));
+
+  const windows: AlertWindow[] = [];
+  for (let i = 0; i + size <= hourly.length; i++) {
+    const slice = hourly.slice(i, i + size);
+    const times = slice.map((h) => toTime(h.timestamp));
+    const start = times[0];
+
+    if (times[size - 1] - start !== (size - 1) * HOUR_MS) continue;
+    if (!times.every((t) => inPeriod(hourOfDay(t), rule.period))) continue;
+
+    const value = combine(
+      slice.map((h) => metricValue(h.metrics, rule.metric, aggregated.elevation)),
+      aggregation
+    );
+    if (value === undefined || !meetsThreshold(value, rule.operator, rule.threshold)) continue;
+
+    const weakest = slice.reduce((low, h) =>
+      h.confidence.score < low.confidence.score ? h : low
+    ).confidence.level;
+    if (CONFIDENCE_RANK[weakest] < CONFIDENCE_RANK[rule.minConfidence]) continue;
+
+    // Evaluate each model over the same window
+    const modelValues: { model: ModelName; value: number }[] = [];
+    for (const { model, elevation, byTime } of modelHours) {
+      const metrics = times.map((t) => byTime.get(t));
+      if (metrics.some((m) => m === undefined)) continue;
+      const modelValue = combine(
+        metrics.map((m) => metricValue(m!, rule.metric, elevation)),
+        aggregation
+      );
+      if (modelValue !== undefined) {
+        modelValues.push({ model, value: modelValue });
+      }
+    }
+
+    const triggering = modelValues.filter((m) =>
+      meetsThreshold(m.value, rule.operator, rule.threshold)
+    );
+    const values = modelValues.map((m) => m.value);
+    const hourRange =
+      size === 1 && (rule.metric === "temperature" ||
+        rule.metric === "precipitation" ||
+        rule.metric === "windSpeed")
+        ? slice[0].range[rule.metric]
+        : { min: value, max: value };
+
+    windows.push({
+      start,
+      end: times[size - 1] + HOUR_MS,
+      value,
+      confidence: weakest,
+      probability:
+        modelValues.length > 0
+          ? Math.round((triggering.length / modelValues.length) * 100)
+          : 100,
+      modelRange:
+        values.length > 0 ? { min: Math.min(...values), max: Math.max(...values) } : hourRange,
+      triggeringModels: triggering.map((m) => m.model),
+      modelCount: modelValues.length,
+    });
+  }
+
+  return windows;
+}
+
+/**
+ * Merge overlapping or adjacent windows into alerts
+ */
+function mergeWindows(
+  windows: readonly AlertWindow[],
+  rule: AlertRuleConfig,
+  formatTime: (time: number) => string
+): WeatherAlert[] {
+  const groups: AlertWindow[][] = [];
+  for (const window of windows) {
+    const current = groups[groups.length - 1];
+    if (current && window.start <= Math.max(...current.map((w) => w.end))) {
+      current.push(window);
+    } else {
+      groups.push([window]);
+    }
+  }
+
+  return groups.map((group) => {
+    const peak = group.reduce((best, w) =>
+      isMoreExtreme(w.value, best.value, rule.operator) ? w : best
+    );
+    const triggering = new Set(group.flatMap((w) => w.triggeringModels));
+    const start = group[0].start;
+    const end = Math.max(...group.map((w) => w.end));
+    const support =
+      peak.modelCount > 0
+        ? `${peak.triggeringModels.length} of ${peak.modelCount} models`
+        : "consensus";
+
+    return {
+      rule: rule.name,
+      severity: rule.severity,
+      metric: rule.metric,
+      operator: rule.operator,
+      threshold: rule.threshold,
+      start: new Date(start),
+      end: new Date(end),
+      value: peak.value,
+      modelRange: peak.modelRange,
+      probability: peak.probability,
+      confidence: peak.confidence,
+      triggeringModels: [...triggering],
+      message:
+        `${rule.name}: ${formatAlertCondition(rule)}, ` +
+        `${formatTime(start)}-${formatTime(end)} (${support}, ${peak.confidence} confidence)`,
+    };
+  });
+}
+
+/**
+ * Evaluate alert rules against an aggregated forecast.
+ *
+ * A rule is met when the consensus value over its window crosses the threshold
+ * and every hour has at least the rule's minimum confidence. Overlapping windows
+ * are merged into one alert reporting the peak value and the share of models
+ * that agree.
+ *
+ * @example
+ * ```typescript
+ * const alerts = evaluateAlertRules(aggregated, config.alerts.rules, { location });
+ * for (const alert of alerts) {
+ *   console.log(`[${alert.severity}] ${alert.message}`);
+ * }
+ * ```
+ */
+export function evaluateAlertRules(
+  aggregated: AggregatedForecast,
+  rules: readonly AlertRuleConfig[],
+  options: AlertEvaluationOptions = {}
+): WeatherAlert[] {
+  const timezone = options.timezone ?? options.location?.resolved.timezone;
+  const hourOfDay = createHourOfDay(timezone);
+  const formatTime = createLocalTimeFormatter(timezone);
+  const hourly = [...aggregated.consensus.hourly].sort(
+    (a, b) => toTime(a.timestamp) - toTime(b.timestamp)
+  );
+
+  return rules
+    .filter((rule) => ruleAppliesToLocation(rule, options.location))
+    .flatMap((rule) =>
+      mergeWindows(findAlertWindows(hourly, aggregated, rule, hourOfDay), rule, formatTime)
+    )
+    .sort(
+      (a, b) =>
+        a.start.getTime() - b.start.getTime() ||
+        SEVERITY_RANK[b.severity] - SEVERITY_RANK[a.severity]
+    );
+}
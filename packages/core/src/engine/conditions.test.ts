@@ -0,0 +1,92 @@
+/**
+ * Tests for categorical weather condition consensus
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  conditionConsensus,
+  conditionSeverity,
+  formatConditionDistribution,
+  type ConditionVote,
+} from "./conditions";
+
+const votes = (...codes: number[]): ConditionVote[] => {
+  const models = ["ecmwf", "gfs", "icon", "meteofrance", "ukmo", "jma", "gem"] as const;
+  return codes.map((code, i) => ({ model: models[i], weatherCode: code }));
+};
+
+describe("conditionSeverity", () => {
+  it("ranks precipitation above dry conditions", () => {
+    expect(conditionSeverity("rain")).toBeGreaterThan(conditionSeverity("cloudy"));
+    expect(conditionSeverity("thunderstorm")).toBeGreaterThan(conditionSeverity("snow"));
+    expect(conditionSeverity("unknown")).toBe(0);
+  });
+});
+
+describe("conditionConsensus", () => {
+  it("picks the condition with the most weight", () => {
+    const result = conditionConsensus(votes(61, 63, 3, 61, 71));
+
+    expect(result.condition).toBe("rain");
+    expect(result.weatherCode as number).toBe(61);
+    expect(result.distribution.map((share) => share.condition)).toEqual([
+      "rain",
+      "snow",
+      "cloudy",
+    ]);
+    expect(result.distribution[0].weight).toBeCloseTo(0.6, 10);
+  });
+
+  it("never returns a code between two conditions", () => {
+    const result = conditionConsensus(votes(71, 51));
+
+    expect(result.weatherCode as number).not.toBe(61);
+    expect([71, 51]).toContain(result.weatherCode as number);
+  });
+
+  it("breaks ties toward the more severe condition by default", () => {
+    expect(conditionConsensus(votes(0, 95)).condition).toBe("thunderstorm");
+    expect(conditionConsensus(votes(0, 95), undefined, { preferSevere: false }).condition).toBe(
+      "sunny"
+    );
+  });
+
+  it("uses model weights", () => {
+    const result = conditionConsensus(votes(3, 61, 61), [3, 1, 1]);
+
+    expect(result.condition).toBe("cloudy");
+    expect(result.distribution[0].weight).toBeCloseTo(0.6, 10);
+    expect(result.distribution[1].models).toEqual(["gfs", "icon"]);
+  });
+
+  it("picks the most common code within the winning condition", () => {
+    expect(conditionConsensus(votes(61, 63, 63, 0)).weatherCode as number).toBe(63);
+    expect(conditionConsensus(votes(61, 65)).weatherCode as number).toBe(65);
+  });
+
+  it("falls back to equal weights when all weights are zero", () => {
+    const result = conditionConsensus(votes(3, 3, 61), [0, 0, 0]);
+
+    expect(result.condition).toBe("cloudy");
+    expect(result.distribution[0].weight).toBeCloseTo(2 / 3, 10);
+  });
+
+  it("handles no votes", () => {
+    const result = conditionConsensus([]);
+
+    expect(result.condition).toBe("unknown");
+    expect(result.distribution).toEqual([]);
+  });
+});
+
+describe("formatConditionDistribution", () => {
+  it("describes the split across models", () => {
+    const result = conditionConsensus(votes(61, 61, 63, 61, 3, 3, 71));
+
+    expect(formatConditionDistribution(result)).toBe("4/7 models rain, 2 cloudy, 1 snow");
+  });
+
+  it("uses the singular for one model", () => {
+    expect(formatConditionDistribution(conditionConsensus(votes(0)))).toBe("1/1 model sunny");
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Categorical consensus on weather conditions.
+ * WMO codes are categories, not a scale: the median of snow (71) and drizzle
+ * (51) is rain (61), which no model predicted. Models instead vote for a
+ * condition with their weight, and the consensus code comes from the winners.
+ */
+
+import type { ConditionConsensus, ConditionShare, ModelName } from "../types/models";
+import type { WeatherCondition } from "../types/weather";
+import { weatherCode } from "../types/weather";
+import { conditionToDescription, weatherCodeToCondition } from "./templates";
+
+/**
+ * One model's forecast weather code
+ */
+export interface ConditionVote {
+  readonly model: ModelName;
+  readonly weatherCode: number;
+}
+
+/**
+ * Options for condition consensus
+ */
+export interface ConditionConsensusOptions {
+  /**
+   * Break ties toward the more severe condition (default: true).
+   * When false, ties go to the milder condition.
+   */
+  readonly preferSevere?: boolean;
+}
+
+/**
+ * Conditions from mildest to most severe, used to break ties
+ */
+export const CONDITION_SEVERITY: readonly WeatherCondition[] = [
+  "unknown",
+  "sunny",
+  "partly_cloudy",
+  "cloudy",
+  "overcast",
+  "fog",
+  "drizzle",
+  "rain",
+  "heavy_rain",
+  "sleet",
+  "snow",
+  "thunderstorm",
+];
+
+/**
+ * Weight differences below this count as a tie
+ */
+const TIE_TOLERANCE = 1e-9;
+
+/**
+ * Severity rank of a condition (higher is more severe)
+ */
+export function conditionSeverity(condition: WeatherCondition): number {
+  return CONDITION_SEVERITY.indexOf(condition);
+}
+
+/**
+ * Compare two weights and severities; negative when a ranks first
+ */
+function compareRank(
+  a: { weight: number; severity: number },
+  b: { weight: number; severity: number },
+  preferSevere: boolean
+): number {
+  if (Math.abs(a.weight - b.weight) > TIE_TOLERANCE) {
+    return b.weight - a.weight;
+  }
+  return preferSevere ? b.severity - a.severity : a.severity - b.severity;
+}
+
+/**
+ * Build a categorical consensus from model weather codes.
+ *
+ * @param votes - Each model's WMO weather code
+ * @param weights - Model weights aligned with votes (equal weights when omitted)
+ * @param options - Tie-break behaviour
+ *
+ * @example
+ * ```typescript
+ * const result = conditionConsensus([
+ *   { model: "ecmwf", weatherCode: 71 },
+ *   { model: "gfs", weatherCode: 51 },
+ *   { model: "icon", weatherCode: 73 },
+ * ]);
+ * result.condition;   // "snow"
+ * result.weatherCode; // 73 (tie between 71 and 73 goes to the heavier code)
+ * ```
+ */
+export function conditionConsensus(
+  votes: readonly ConditionVote[],
+  weights?: readonly number[],
+  options: ConditionConsensusOptions = {}
+): ConditionConsensus {
+  const preferSevere = options.preferSevere ?? true;
+  const w = weights ?? votes.map(() => 1);
+  const positive = w.reduce((sum, weight) => sum + Math.max(0, weight), 0);
+  // Fall back to equal weights if every weight is zero
+  const effective = positive > 0 ? w.map((weight) => Math.max(0, weight)) : votes.map(() => 1);
+  const totalWeight = positive > 0 ? positive : votes.length;
+
+  const groups = new Map<WeatherCondition, { models: ModelName[]; weight: number }>();
+  votes.forEach((vote, i) => {
+    const condition = weatherCodeToCondition(vote.weatherCode);
+    const group = groups.get(condition) ?? { models: [], weight: 0 };
+    group.models.push(vote.model);
+    group.weight += effective[i];
+    groups.set(condition, group);
+  });
+
+  const distribution: ConditionShare[] = [...groups]
+    .map(([condition, group]) => ({
+      condition,
+      models: group.models,
+      weight: totalWeight > 0 ? group.weight / totalWeight : 0,
+    }))
+    .sort((a, b) =>
+      compareRank(
+        { weight: a.weight, severity: conditionSeverity(a.condition) },
+        { weight: b.weight, severity: conditionSeverity(b.condition) },
+        preferSevere
+      )
+    );
+
+  const winner = distribution[0];
+  if (!winner) {
+    return { condition: "unknown", weatherCode: weatherCode(0), distribution: [] };
+  }
+
+  return {
+    condition: winner.condition,
+    weatherCode: weatherCode(representativeCode(votes, effective, winner.condition, preferSevere)),
+    distribution,
+  };
+}
+
+/**
+ * Most-weighted code among the votes for a condition. Codes rise with
+ * intensity within a condition (61 < 63 < 65), so ties follow the tie-break.
+ */
+function representativeCode(
+  votes: readonly ConditionVote[],
+  weights: readonly number[],
+  condition: WeatherCondition,
+  preferSevere: boolean
+): number {
+  const codeWeights = new Map<number, number>();
+  votes.forEach((vote, i) => {
+    if (weatherCodeToCondition(vote.weatherCode) === condition) {
+      codeWeights.set(vote.weatherCode, (codeWeights.get(vote.weatherCode) ?? 0) + weights[i]);
+    }
+  });
+
+  const [best] = [...codeWeights]
+    .map(([code, weight]) => ({ code, weight, severity: code }))
+    .sort((a, b) => compareRank(a, b, preferSevere));
+  return best.code;
+}
+
+/**
+ * Describe how models split across conditions, e.g.
+ * "4/7 models rain, 2 cloudy, 1 snow"
+ */
+export function formatConditionDistribution(consensus: ConditionConsensus): string {
+  const total = consensus.distribution.reduce((sum, share) => sum + share.models.length, 0);
+  return consensus.distribution
+    .map((share, i) => {
+      const description = conditionToDescription(share.condition);
+      return i === 0
+        ? `${share.models.length}/${total} ${total === 1 ? "model" : "models"} ${description}`
+        : `${share.models.length} ${description}`;
+    })
+    .join(", ");
+}
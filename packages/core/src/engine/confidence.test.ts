@@ -408,6 +408,35 @@ describe("calculateConfidence", () => {
       expect(agreementFactor!.detail).toContain("/5 models agree");
     });
   });
+
+  describe("extended metrics", () => {
+    /**
+     * Add a CAPE value to every hour of a forecast
+     */
+    function withCape(forecast: ModelForecast, cape: number): ModelForecast {
+      return {
+        ...forecast,
+        hourly: forecast.hourly.map((h) => ({ ...h, metrics: { ...h.metrics, cape } })),
+      };
+    }
+
+    it("should only count the models that provide the metric", () => {
+      const forecasts: ModelForecast[] = [
+        withCape(createMockModelForecast("gfs"), 500),
+        withCape(createMockModelForecast("ecmwf"), 550),
+        createMockModelForecast("icon"),
+      ];
+
+      const aggregated = aggregateForecasts(forecasts);
+      const result = calculateConfidence(aggregated, "cape");
+
+      const spreadFactor = result.factors.find((f) => f.name === "spread");
+      expect(spreadFactor?.detail).toContain("J/kg (2/3 models)");
+      expect(spreadFactor?.score).toBe(1);
+      expect(result.explanation).toContain("2 models");
+      expect(result.explanation).toContain("CAPE predictions");
+    });
+  });
 });
 
 // ============================================================================
@@ -451,6 +480,54 @@ describe("calculateHourlyConfidence", () => {
     expect(windSpread).toBeDefined();
   });
 
+  it("should score wind direction disagreement", () => {
+    const agreeing = aggregateForecasts([
+      createMockModelForecast("gfs", [{ windSpeed: 8, windDirection: 350 }]),
+      createMockModelForecast("ecmwf", [{ windSpeed: 8, windDirection: 10 }]),
+    ]).consensus.hourly[0];
+    const opposed = aggregateForecasts([
+      createMockModelForecast("gfs", [{ windSpeed: 8, windDirection: 270 }]),
+      createMockModelForecast("ecmwf", [{ windSpeed: 8, windDirection: 90 }]),
+    ]).consensus.hourly[0];
+
+    const agreeingWind = calculateHourlyConfidence(agreeing, 2).factors.find(
+      (f) => f.name === "windSpread"
+    );
+    const opposedWind = calculateHourlyConfidence(opposed, 2).factors.find(
+      (f) => f.name === "windSpread"
+    );
+
+    expect(agreeingWind?.score).toBe(1);
+    expect(opposedWind?.score).toBeCloseTo(0.3, 5);
+    expect(opposedWind?.detail).toContain("180° direction");
+  });
+
+  it("should note models missing a metric in the spread detail", () => {
+    const icon = createMockModelForecast("icon", [{ temperature: 0 }]);
+    const aggregated = aggregateForecasts([
+      createMockModelForecast("gfs", [{ temperature: 15 }]),
+      createMockModelForecast("ecmwf", [{ temperature: 15 }]),
+      {
+        ...icon,
+        hourly: icon.hourly.map((h) => ({
+          ...h,
+          metrics: { ...h.metrics, missing: ["temperature" as const] },
+        })),
+      },
+    ]);
+
+    const tempSpread = calculateHourlyConfidence(aggregated.consensus.hourly[0], 3).factors.find(
+      (f) => f.name === "temperatureSpread"
+    );
+    const agreement = calculateConfidence(aggregated, "temperature").factors.find(
+      (f) => f.name === "agreement"
+    );
+
+    expect(tempSpread?.score).toBe(1);
+    expect(tempSpread?.detail).toBe("Temp spread: 0.0C (2/3 models)");
+    expect(agreement?.detail).toBe("2/2 models agree");
+  });
+
   it("should apply time decay", () => {
     const forecasts: ModelForecast[] = [
       createMockModelForecast("gfs", [{ temperature: 15 }]),
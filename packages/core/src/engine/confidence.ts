@@ -9,7 +9,12 @@ import type {
   AggregatedHourlyForecast,
   AggregatedDailyForecast,
   ConfidenceLevelName,
+  MetricCoverage,
+  ModelConsensus,
 } from "../types/models";
+import type { ExtendedMetricName, HourlyMetricName } from "../types/weather";
+import { EXTENDED_METRICS } from "../types/weather";
+import { directionConfidence } from "./wind";
 
 /**
  * Metric types for confidence calculation
@@ -19,6 +24,7 @@ export type MetricType =
   | "precipitation"
   | "wind"
   | "humidity"
+  | ExtendedMetricName
   | "overall";
 
 /**
@@ -50,6 +56,7 @@ interface MetricThresholds {
   readonly spreadHigh: number; // Below this spread = high confidence
   readonly spreadLow: number; // Above this spread = low confidence
   readonly unit: string;
+  readonly label: string;
 }
 
 /**
@@ -60,26 +67,79 @@ const METRIC_THRESHOLDS: Record<MetricType, MetricThresholds> = {
     spreadHigh: 1.5, // 1.5C spread is high confidence
     spreadLow: 4.0, // 4C spread is low confidence
     unit: "C",
+    label: "temperature",
   },
   precipitation: {
     spreadHigh: 2.0, // 2mm spread is high confidence
     spreadLow: 10.0, // 10mm spread is low confidence
     unit: "mm",
+    label: "precipitation",
   },
   wind: {
     spreadHigh: 2.78, // ~10km/h in m/s
     spreadLow: 6.94, // ~25km/h in m/s
     unit: "m/s",
+    label: "wind",
   },
   humidity: {
     spreadHigh: 10, // 10% spread is high
     spreadLow: 30, // 30% spread is low
     unit: "%",
+    label: "humidity",
+  },
+  dewPoint: {
+    spreadHigh: 1.5, // Same as air temperature
+    spreadLow: 4.0,
+    unit: "C",
+    label: "dew point",
+  },
+  snowfall: {
+    spreadHigh: 0.5, // 0.5cm/h spread is high confidence
+    spreadLow: 2.5, // 2.5cm/h spread is low confidence
+    unit: "cm",
+    label: "snowfall",
+  },
+  snowDepth: {
+    spreadHigh: 0.05, // 5cm spread is high confidence
+    spreadLow: 0.2, // 20cm spread is low confidence
+    unit: "m",
+    label: "snow depth",
+  },
+  freezingLevelHeight: {
+    spreadHigh: 200, // 200m spread is high confidence
+    spreadLow: 600, // 600m spread is low confidence
+    unit: "m",
+    label: "freezing level",
+  },
+  cape: {
+    spreadHigh: 250, // 250 J/kg spread is high confidence
+    spreadLow: 1000, // 1000 J/kg spread is low confidence
+    unit: "J/kg",
+    label: "CAPE",
+  },
+  soilTemperature: {
+    spreadHigh: 1.5,
+    spreadLow: 4.0,
+    unit: "C",
+    label: "soil temperature",
+  },
+  soilMoisture: {
+    spreadHigh: 0.03, // 0.03 m³/m³ spread is high confidence
+    spreadLow: 0.1, // 0.1 m³/m³ spread is low confidence
+    unit: "m³/m³",
+    label: "soil moisture",
+  },
+  shortwaveRadiation: {
+    spreadHigh: 100, // 100 W/m² spread is high confidence
+    spreadLow: 300, // 300 W/m² spread is low confidence
+    unit: "W/m²",
+    label: "solar radiation",
   },
   overall: {
     spreadHigh: 0.7,
     spreadLow: 0.4,
     unit: "",
+    label: "forecast",
   },
 };
 
@@ -122,6 +182,89 @@ function scoreFromSpread(
   return 1.0 - ratio * 0.7;
 }
 
+/**
+ * Wind spread score: the lower of the speed and direction scores.
+ * Direction spread is ignored in calm conditions.
+ */
+function scoreWindSpread(consensus: ModelConsensus): number {
+  const speedScore = scoreFromSpread(consensus.windStats.stdDev, METRIC_THRESHOLDS.wind);
+  if (!consensus.windDirectionStats) {
+    return speedScore;
+  }
+  return Math.min(
+    speedScore,
+    directionConfidence(consensus.windDirectionStats, consensus.windStats.median)
+  );
+}
+
+/**
+ * Hourly metric whose coverage applies to each confidence metric
+ */
+const COVERAGE_METRICS: Record<
+  Exclude<MetricType, ExtendedMetricName | "overall">,
+  HourlyMetricName
+> = {
+  temperature: "temperature",
+  precipitation: "precipitation",
+  wind: "windSpeed",
+  humidity: "humidity",
+};
+
+/**
+ * Check whether a confidence metric is one of the extended metrics
+ */
+function isExtendedMetric(metric: MetricType): metric is ExtendedMetricName {
+  return (EXTENDED_METRICS as readonly string[]).includes(metric);
+}
+
+/**
+ * Find the coverage entry for a metric (none when every model provided it)
+ */
+function findCoverage(
+  coverage: readonly MetricCoverage[] | undefined,
+  metric: MetricCoverage["metric"]
+): MetricCoverage | undefined {
+  return coverage?.find((c) => c.metric === metric);
+}
+
+/**
+ * Note how many models provided a metric, e.g. " (3/4 models)"
+ */
+function describeCoverage(
+  coverage: readonly MetricCoverage[] | undefined,
+  metric: MetricCoverage["metric"]
+): string {
+  const entry = findCoverage(coverage, metric);
+  if (!entry) return "";
+  return ` (${entry.models.length}/${entry.models.length + entry.missing.length} models)`;
+}
+
+/**
+ * Note how many models provided a confidence metric (nothing for overall)
+ */
+function describeMetricCoverage(
+  metric: MetricType,
+  coverage: readonly MetricCoverage[] | undefined,
+  provided: number,
+  total: number
+): string {
+  if (metric === "overall") return "";
+  if (isExtendedMetric(metric)) {
+    return provided < total ? ` (${provided}/${total} models)` : "";
+  }
+  return describeCoverage(coverage, COVERAGE_METRICS[metric]);
+}
+
+/**
+ * Describe wind speed and direction spread
+ */
+function describeWindSpread(consensus: ModelConsensus): string {
+  const speed = `Wind spread: ${consensus.windStats.stdDev.toFixed(1)}m/s`;
+  return consensus.windDirectionStats
+    ? `${speed}, ${Math.round(consensus.windDirectionStats.spread)}° direction`
+    : speed;
+}
+
 /**
  * Calculate confidence score from model agreement
  */
@@ -173,7 +316,7 @@ function generateExplanation(
   const metricPhrase =
     metric === "overall"
       ? "on the forecast"
-      : `on ${metric} predictions`;
+      : `on ${METRIC_THRESHOLDS[metric].label} predictions`;
 
   const confidencePhrase =
     level === "high"
@@ -205,7 +348,18 @@ export function calculateConfidence(
   metric: MetricType,
   daysAhead: number = 0
 ): ConfidenceResult {
-  const totalModels = aggregated.models.length;
+  // Models that did not provide this metric are left out of the counts
+  const coverage = aggregated.consensus.hourly[0]?.coverage;
+  const extendedStats = isExtendedMetric(metric)
+    ? aggregated.consensus.hourly[0]?.modelAgreement.extendedStats?.[metric]
+    : undefined;
+  const absent =
+    metric === "overall"
+      ? []
+      : isExtendedMetric(metric)
+        ? aggregated.models.filter((m) => !(extendedStats?.models.includes(m) ?? false))
+        : (findCoverage(coverage, COVERAGE_METRICS[metric])?.missing ?? []);
+  const totalModels = aggregated.models.length - absent.length;
   const thresholds = METRIC_THRESHOLDS[metric];
   const factors: ConfidenceFactor[] = [];
 
@@ -254,6 +408,10 @@ export function calculateConfidence(
           // In real impl, would need to add humidity stats to consensus
           stats = { stdDev: 5 }; // Default moderate spread
           break;
+        default:
+          // Extended metrics only count the models that provided them
+          stats = extendedStats;
+          break;
       }
 
       if (stats) {
@@ -261,7 +419,9 @@ export function calculateConfidence(
         spreadScore = scoreFromSpread(stats.stdDev, thresholds);
       }
 
-      modelsInAgreement = consensusItem.modelsInAgreement.length;
+      modelsInAgreement = consensusItem.modelsInAgreement.filter(
+        (model) => !absent.includes(model)
+      ).length;
     }
   }
 
@@ -272,7 +432,12 @@ export function calculateConfidence(
     weight: FACTOR_WEIGHTS.spread,
     score: spreadScore,
     contribution: spreadContribution,
-    detail: `Spread: ${spreadValue.toFixed(1)}${thresholds.unit}`,
+    detail: `Spread: ${spreadValue.toFixed(1)}${thresholds.unit}${describeMetricCoverage(
+      metric,
+      coverage,
+      totalModels,
+      aggregated.models.length
+    )}`,
   });
 
   // Calculate agreement factor
@@ -342,7 +507,10 @@ export function calculateHourlyConfidence(
     weight: FACTOR_WEIGHTS.spread * 0.5,
     score: tempSpreadScore,
     contribution: tempSpreadScore * FACTOR_WEIGHTS.spread * 0.5,
-    detail: `Temp spread: ${consensus.temperatureStats.stdDev.toFixed(1)}C`,
+    detail: `Temp spread: ${consensus.temperatureStats.stdDev.toFixed(1)}C${describeCoverage(
+      hourly.coverage,
+      "temperature"
+    )}`,
   });
 
   // Precipitation spread factor
@@ -355,20 +523,20 @@ export function calculateHourlyConfidence(
     weight: FACTOR_WEIGHTS.spread * 0.3,
     score: precipSpreadScore,
     contribution: precipSpreadScore * FACTOR_WEIGHTS.spread * 0.3,
-    detail: `Precip spread: ${consensus.precipitationStats.stdDev.toFixed(1)}mm`,
+    detail: `Precip spread: ${consensus.precipitationStats.stdDev.toFixed(1)}mm${describeCoverage(
+      hourly.coverage,
+      "precipitation"
+    )}`,
   });
 
-  // Wind spread factor
-  const windSpreadScore = scoreFromSpread(
-    consensus.windStats.stdDev,
-    METRIC_THRESHOLDS.wind
-  );
+  // Wind spread factor (speed and direction)
+  const windSpreadScore = scoreWindSpread(consensus);
   factors.push({
     name: "windSpread",
     weight: FACTOR_WEIGHTS.spread * 0.2,
     score: windSpreadScore,
     contribution: windSpreadScore * FACTOR_WEIGHTS.spread * 0.2,
-    detail: `Wind spread: ${consensus.windStats.stdDev.toFixed(1)}m/s`,
+    detail: `${describeWindSpread(consensus)}${describeCoverage(hourly.coverage, "windSpeed")}`,
   });
 
   // Agreement factor
@@ -435,7 +603,10 @@ export function calculateDailyConfidence(
     weight: FACTOR_WEIGHTS.spread * 0.5,
     score: tempSpreadScore,
     contribution: tempSpreadScore * FACTOR_WEIGHTS.spread * 0.5,
-    detail: `Temp spread: ${consensus.temperatureStats.stdDev.toFixed(1)}C`,
+    detail: `Temp spread: ${consensus.temperatureStats.stdDev.toFixed(1)}C${describeCoverage(
+      daily.coverage,
+      "temperatureMax"
+    )}`,
   });
 
   // Precipitation spread factor
@@ -448,20 +619,20 @@ export function calculateDailyConfidence(
     weight: FACTOR_WEIGHTS.spread * 0.3,
     score: precipSpreadScore,
     contribution: precipSpreadScore * FACTOR_WEIGHTS.spread * 0.3,
-    detail: `Precip spread: ${consensus.precipitationStats.stdDev.toFixed(1)}mm`,
+    detail: `Precip spread: ${consensus.precipitationStats.stdDev.toFixed(1)}mm${describeCoverage(
+      daily.coverage,
+      "precipitation"
+    )}`,
   });
 
-  // Wind spread factor
-  const windSpreadScore = scoreFromSpread(
-    consensus.windStats.stdDev,
-    METRIC_THRESHOLDS.wind
-  );
+  // Wind spread factor (speed and direction)
+  const windSpreadScore = scoreWindSpread(consensus);
   factors.push({
     name: "windSpread",
     weight: FACTOR_WEIGHTS.spread * 0.2,
     score: windSpreadScore,
     contribution: windSpreadScore * FACTOR_WEIGHTS.spread * 0.2,
-    detail: `Wind spread: ${consensus.windStats.stdDev.toFixed(1)}m/s`,
+    detail: `${describeWindSpread(consensus)}${describeCoverage(daily.coverage, "windSpeed")}`,
   });
 
   // Agreement factor
@@ -0,0 +1,233 @@
+/**
+ * Tests for missing-data sampling, coverage and reporting.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  assessDataQuality,
+  dailyCoverage,
+  formatDataQualityReport,
+  hourlyCoverage,
+  sampleDailyMetric,
+  sampleHourlyMetric,
+  uncoveredMetrics,
+} from "./data-quality";
+import type { ModelForecast, ModelName } from "../types/models";
+import type { DailyForecast, HourlyForecast, HourlyMetricName } from "../types/weather";
+import {
+  celsius,
+  cloudCover,
+  humidity,
+  metersPerSecond,
+  millimeters,
+  pressure,
+  uvIndex,
+  visibility,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { latitude, longitude } from "../types/location";
+
+const BASE_TIME = new Date("2024-01-15T00:00:00Z");
+
+/**
+ * Create an hourly forecast with every metric set, minus `missing`
+ */
+function createHour(
+  hour: number,
+  temperature: number,
+  missing: HourlyMetricName[] = []
+): HourlyForecast {
+  return {
+    timestamp: new Date(BASE_TIME.getTime() + hour * 3600000),
+    metrics: {
+      temperature: celsius(temperature),
+      feelsLike: celsius(temperature),
+      humidity: humidity(70),
+      pressure: pressure(1013),
+      windSpeed: metersPerSecond(5),
+      windDirection: windDirection(180),
+      windGust: metersPerSecond(8),
+      precipitation: millimeters(0),
+      precipitationProbability: 10,
+      cloudCover: cloudCover(50),
+      visibility: visibility(10000),
+      uvIndex: uvIndex(2),
+      weatherCode: weatherCode(2),
+      ...(missing.length > 0 && { missing }),
+    },
+  };
+}
+
+/**
+ * Create a daily forecast, optionally missing some metrics
+ */
+function createDay(day: number, missing: DailyForecast["missing"] = undefined): DailyForecast {
+  const date = new Date(BASE_TIME.getTime() + day * 86400000);
+  return {
+    date,
+    temperature: { min: celsius(5), max: celsius(10) },
+    humidity: { min: humidity(60), max: humidity(80) },
+    pressure: { min: pressure(1010), max: pressure(1015) },
+    precipitation: { total: millimeters(0), probability: 10, hours: 0 },
+    wind: {
+      avgSpeed: metersPerSecond(5),
+      maxSpeed: metersPerSecond(8),
+      dominantDirection: windDirection(180),
+    },
+    cloudCover: { avg: cloudCover(50), max: cloudCover(70) },
+    uvIndex: { max: uvIndex(2) },
+    sun: { sunrise: date, sunset: date, daylightHours: 12 },
+    weatherCode: weatherCode(2),
+    hourly: [],
+    ...(missing && { missing }),
+  };
+}
+
+/**
+ * Create a model forecast from hours and days
+ */
+function createForecast(
+  model: ModelName,
+  hourly: HourlyForecast[],
+  daily: DailyForecast[] = []
+): ModelForecast {
+  return {
+    model,
+    coordinates: { latitude: latitude(53.3), longitude: longitude(-6.3) },
+    generatedAt: BASE_TIME,
+    validFrom: BASE_TIME,
+    validTo: BASE_TIME,
+    hourly,
+    daily,
+  };
+}
+
+describe("sampleHourlyMetric", () => {
+  it("should skip models missing the metric and keep weights aligned", () => {
+    const items = [
+      { model: "gfs" as const, hourly: createHour(0, 10) },
+      { model: "icon" as const, hourly: createHour(0, 0, ["temperature"]) },
+      { model: "ecmwf" as const, hourly: createHour(0, 12) },
+    ];
+
+    const sample = sampleHourlyMetric(items, "temperature", [1, 2, 3]);
+
+    expect(sample.values).toEqual([10, 12]);
+    expect(sample.weights).toEqual([1, 3]);
+    expect(sample.models).toEqual(["gfs", "ecmwf"]);
+  });
+
+  it("should treat an undefined optional metric as missing", () => {
+    const hour = createHour(0, 10);
+    const items = [
+      {
+        model: "gfs" as const,
+        hourly: { ...hour, metrics: { ...hour.metrics, windGust: undefined } },
+      },
+    ];
+
+    expect(sampleHourlyMetric(items, "windGust").values).toEqual([]);
+  });
+});
+
+describe("sampleDailyMetric", () => {
+  it("should read the chosen field from models that provided it", () => {
+    const items = [
+      { model: "gfs" as const, daily: createDay(0) },
+      { model: "icon" as const, daily: createDay(0, ["temperatureMax"]) },
+    ];
+
+    const sample = sampleDailyMetric(items, "temperatureMax", (d) => d.temperature.max);
+
+    expect(sample.values).toEqual([10]);
+    expect(sample.models).toEqual(["gfs"]);
+  });
+});
+
+describe("coverage", () => {
+  it("should list only incomplete metrics", () => {
+    const coverage = hourlyCoverage([
+      { model: "gfs", hourly: createHour(0, 10) },
+      { model: "metno", hourly: createHour(0, 10, ["visibility", "uvIndex"]) },
+    ]);
+
+    expect(coverage).toEqual([
+      { metric: "visibility", models: ["gfs"], missing: ["metno"] },
+      { metric: "uvIndex", models: ["gfs"], missing: ["metno"] },
+    ]);
+  });
+
+  it("should be empty when every model provided every metric", () => {
+    expect(
+      dailyCoverage([
+        { model: "gfs", daily: createDay(0) },
+        { model: "ecmwf", daily: createDay(0) },
+      ])
+    ).toEqual([]);
+  });
+
+  it("should find metrics no model provided", () => {
+    const coverage = dailyCoverage([
+      { model: "gfs", daily: createDay(0, ["uvIndex", "pressure"]) },
+      { model: "nws", daily: createDay(0, ["uvIndex"]) },
+    ]);
+
+    expect(uncoveredMetrics(coverage)).toEqual(["uvIndex"]);
+  });
+});
+
+describe("assessDataQuality", () => {
+  it("should group gaps by model and metric", () => {
+    const report = assessDataQuality([
+      createForecast("gfs", [createHour(0, 10), createHour(1, 10)]),
+      createForecast(
+        "metno",
+        [createHour(0, 10, ["visibility"]), createHour(1, 10, ["visibility", "uvIndex"])],
+        [createDay(0, ["uvIndex"])]
+      ),
+    ]);
+
+    expect(report.entries.map((e) => [e.model, e.scope, e.metric, e.times.length])).toEqual([
+      ["metno", "hourly", "visibility", 2],
+      ["metno", "hourly", "uvIndex", 1],
+      ["metno", "daily", "uvIndex", 1],
+    ]);
+    expect(report.missingValues).toBe(4);
+    expect(report.totalValues).toBe(4 * 13 + 12);
+  });
+
+  it("should report no entries for complete data", () => {
+    const report = assessDataQuality([createForecast("gfs", [createHour(0, 10)])]);
+
+    expect(report.entries).toEqual([]);
+    expect(report.missingValues).toBe(0);
+  });
+});
+
+describe("formatDataQualityReport", () => {
+  it("should collapse consecutive hours into ranges", () => {
+    const report = assessDataQuality([
+      createForecast("metno", [
+        createHour(0, 10, ["visibility"]),
+        createHour(1, 10, ["visibility"]),
+        createHour(2, 10, ["visibility"]),
+        createHour(5, 10, ["visibility"]),
+      ]),
+    ]);
+
+    expect(formatDataQualityReport(report)).toEqual([
+      "MET Norway missing visibility for 4 hours: 2024-01-15 00:00 to 02:00, 2024-01-15 05:00 UTC",
+    ]);
+  });
+
+  it("should list dates for daily gaps", () => {
+    const report = assessDataQuality([
+      createForecast("nws", [], [createDay(0, ["uvIndex"]), createDay(1, ["uvIndex"])]),
+    ]);
+
+    expect(formatDataQualityReport(report)).toEqual([
+      "NWS missing uvIndex for 2 days: 2024-01-15 to 2024-01-16",
+    ]);
+  });
+});
@@ -0,0 +1,302 @@
+/**
+ * Missing-data handling for aggregation.
+ * Sources list the metrics they did not provide (`WeatherMetrics.missing`,
+ * `DailyForecast.missing`). These helpers keep those placeholders out of the
+ * consensus, report which models covered each metric, and list every gap.
+ */
+
+import type {
+  DataQualityReport,
+  MetricCoverage,
+  MissingDataEntry,
+  ModelForecast,
+  ModelName,
+} from "../types/models";
+import type {
+  DailyForecast,
+  DailyMetricName,
+  ExtendedMetricName,
+  HourlyForecast,
+  HourlyMetricName,
+} from "../types/weather";
+import { hasDailyMetric, hasMetric } from "../types/weather";
+import { formatModelName } from "./templates";
+
+/**
+ * Every hourly metric, in display order
+ */
+export const HOURLY_METRICS: readonly HourlyMetricName[] = [
+  "temperature",
+  "feelsLike",
+  "humidity",
+  "pressure",
+  "windSpeed",
+  "windDirection",
+  "windGust",
+  "precipitation",
+  "precipitationProbability",
+  "cloudCover",
+  "visibility",
+  "uvIndex",
+  "weatherCode",
+];
+
+/**
+ * Every daily metric, in display order
+ */
+export const DAILY_METRICS: readonly DailyMetricName[] = [
+  "temperatureMax",
+  "temperatureMin",
+  "humidity",
+  "pressure",
+  "precipitation",
+  "precipitationProbability",
+  "precipitationHours",
+  "windSpeed",
+  "windDirection",
+  "cloudCover",
+  "uvIndex",
+  "weatherCode",
+];
+
+/**
+ * Values of one metric from the models that provided it.
+ * Values, weights and models are aligned.
+ */
+export interface MetricSample {
+  readonly values: readonly number[];
+  readonly weights: readonly number[];
+  readonly models: readonly ModelName[];
+}
+
+type HourlyItem = { readonly model: ModelName; readonly hourly: HourlyForecast };
+type DailyItem = { readonly model: ModelName; readonly daily: DailyForecast };
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Collect values from the items that pass `isAvailable`.
+ * Weights are aligned with items (equal weights when omitted).
+ */
+function sample<T extends { readonly model: ModelName }>(
+  items: readonly T[],
+  isAvailable: (item: T) => boolean,
+  getter: (item: T) => number,
+  weights?: readonly number[]
+): MetricSample {
+  const values: number[] = [];
+  const sampleWeights: number[] = [];
+  const models: ModelName[] = [];
+
+  items.forEach((item, i) => {
+    if (!isAvailable(item)) return;
+    values.push(getter(item));
+    sampleWeights.push(weights?.[i] ?? 1);
+    models.push(item.model);
+  });
+
+  return { values, weights: sampleWeights, models };
+}
+
+/**
+ * Sample an hourly metric from the models that provided it
+ */
+export function sampleHourlyMetric(
+  items: readonly HourlyItem[],
+  metric: HourlyMetricName,
+  weights?: readonly number[]
+): MetricSample {
+  return sample(
+    items,
+    (i) => hasMetric(i.hourly.metrics, metric),
+    (i) => i.hourly.metrics[metric] as number,
+    weights
+  );
+}
+
+/**
+ * Sample a daily metric from the models that provided it.
+ * The getter picks the field (e.g. humidity min or max).
+ */
+export function sampleDailyMetric(
+  items: readonly DailyItem[],
+  metric: DailyMetricName,
+  getter: (daily: DailyForecast) => number,
+  weights?: readonly number[]
+): MetricSample {
+  return sample(
+    items,
+    (i) => hasDailyMetric(i.daily, metric),
+    (i) => getter(i.daily),
+    weights
+  );
+}
+
+/**
+ * Sample an extended hourly metric from the models that provided it
+ */
+export function sampleExtendedMetric(
+  items: readonly HourlyItem[],
+  metric: ExtendedMetricName,
+  weights?: readonly number[]
+): MetricSample {
+  return sample(
+    items,
+    (i) => i.hourly.metrics[metric] !== undefined,
+    (i) => i.hourly.metrics[metric] as number,
+    weights
+  );
+}
+
+/**
+ * Sample an extended daily summary from the models that provided it.
+ * The getter returns undefined for models without it.
+ */
+export function sampleDailyExtendedMetric(
+  items: readonly DailyItem[],
+  getter: (daily: DailyForecast) => number | undefined,
+  weights?: readonly number[]
+): MetricSample {
+  return sample(
+    items,
+    (i) => getter(i.daily) !== undefined,
+    (i) => getter(i.daily) as number,
+    weights
+  );
+}
+
+/**
+ * List the metrics some items are missing, with the models on each side
+ */
+function coverage<T extends { readonly model: ModelName }, M extends MetricCoverage["metric"]>(
+  items: readonly T[],
+  metrics: readonly M[],
+  isAvailable: (item: T, metric: M) => boolean
+): MetricCoverage[] {
+  const result: MetricCoverage[] = [];
+  for (const metric of metrics) {
+    const models = items.filter((item) => isAvailable(item, metric)).map((item) => item.model);
+    if (models.length < items.length) {
+      const missing = items.filter((item) => !isAvailable(item, metric)).map((item) => item.model);
+      result.push({ metric, models, missing });
+    }
+  }
+  return result;
+}
+
+/**
+ * Metrics some models did not provide for one hour (empty when complete)
+ */
+export function hourlyCoverage(items: readonly HourlyItem[]): MetricCoverage[] {
+  return coverage(items, HOURLY_METRICS, (item, metric) => hasMetric(item.hourly.metrics, metric));
+}
+
+/**
+ * Metrics some models did not provide for one day (empty when complete)
+ */
+export function dailyCoverage(items: readonly DailyItem[]): MetricCoverage[] {
+  return coverage(items, DAILY_METRICS, (item, metric) => hasDailyMetric(item.daily, metric));
+}
+
+/**
+ * Metrics no model provided, for marking an aggregate as missing them
+ */
+export function uncoveredMetrics<M extends MetricCoverage["metric"]>(
+  coverageList: readonly MetricCoverage[]
+): M[] {
+  return coverageList.filter((c) => c.models.length === 0).map((c) => c.metric as M);
+}
+
+/**
+ * List which model was missing which metric, and when.
+ *
+ * @example
+ * ```typescript
+ * const report = assessDataQuality(result.forecasts);
+ * for (const line of formatDataQualityReport(report)) console.log(line);
+ * // "MET Norway missing visibility for 48 hours: 2024-01-15 00:00 to 2024-01-16 23:00 UTC"
+ * ```
+ */
+export function assessDataQuality(forecasts: readonly ModelForecast[]): DataQualityReport {
+  const entries = new Map<string, MissingDataEntry & { times: Date[] }>();
+  let missingValues = 0;
+  let totalValues = 0;
+
+  const record = (
+    model: ModelName,
+    scope: MissingDataEntry["scope"],
+    metric: MissingDataEntry["metric"],
+    time: Date
+  ): void => {
+    const key = `${model}|${scope}|${metric}`;
+    const existing = entries.get(key);
+    if (existing) {
+      existing.times.push(time);
+    } else {
+      entries.set(key, { model, scope, metric, times: [time] });
+    }
+    missingValues++;
+  };
+
+  for (const forecast of forecasts) {
+    for (const hour of forecast.hourly) {
+      totalValues += HOURLY_METRICS.length;
+      for (const metric of hour.metrics.missing ?? []) {
+        record(forecast.model, "hourly", metric, new Date(hour.timestamp));
+      }
+    }
+    for (const day of forecast.daily) {
+      totalValues += DAILY_METRICS.length;
+      for (const metric of day.missing ?? []) {
+        record(forecast.model, "daily", metric, new Date(day.date));
+      }
+    }
+  }
+
+  return {
+    entries: [...entries.values()],
+    missingValues,
+    totalValues,
+  };
+}
+
+/**
+ * Group sorted times into runs spaced one step apart
+ */
+function toRuns(times: readonly Date[], stepMs: number): [Date, Date][] {
+  const runs: [Date, Date][] = [];
+  for (const time of times) {
+    const last = runs[runs.length - 1];
+    if (last && time.getTime() - last[1].getTime() === stepMs) {
+      last[1] = time;
+    } else {
+      runs.push([time, time]);
+    }
+  }
+  return runs;
+}
+
+/**
+ * Describe each gap in a data-quality report, one line per model and metric
+ */
+export function formatDataQualityReport(report: DataQualityReport): string[] {
+  return report.entries.map((entry) => {
+    const hourly = entry.scope === "hourly";
+    const format = (date: Date): string =>
+      hourly ? date.toISOString().slice(0, 16).replace("T", " ") : date.toISOString().slice(0, 10);
+    const runs = toRuns(entry.times, hourly ? HOUR_MS : DAY_MS)
+      .map(([start, end]) => {
+        if (start.getTime() === end.getTime()) return format(start);
+        const last = format(end);
+        // Drop the repeated date from same-day hour ranges
+        const sameDay = hourly && last.slice(0, 10) === format(start).slice(0, 10);
+        return `${format(start)} to ${sameDay ? last.slice(11) : last}`;
+      })
+      .join(", ");
+    const count = entry.times.length;
+    const unit = hourly ? (count === 1 ? "hour" : "hours") : count === 1 ? "day" : "days";
+
+    return `${formatModelName(entry.model)} missing ${entry.metric} for ${count} ${unit}: ${runs}${hourly ? " UTC" : ""}`;
+  });
+}
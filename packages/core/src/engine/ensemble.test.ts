@@ -0,0 +1,241 @@
+/**
+ * Tests for the ensemble uncertainty engine.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  summarizeMembers,
+  parseExceedanceThreshold,
+  calculateHourlyUncertainty,
+  calculateDailyUncertainty,
+  toFanChartSeries,
+} from "./ensemble";
+import { aggregateForecasts } from "./aggregator";
+import { ConfigError } from "../errors/config";
+import type { EnsembleForecast, EnsembleModelName } from "../types/ensemble";
+import type { ModelForecast } from "../types/models";
+import type { HourlyForecast, WeatherMetrics } from "../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { latitude, longitude } from "../types/location";
+
+const COORDINATES = { latitude: latitude(51.5), longitude: longitude(-0.12) };
+const BASE_TIME = new Date("2024-01-15T00:00:00Z").getTime();
+
+/**
+ * Create an ensemble forecast where each hour lists member temperatures;
+ * precipitation and wind mirror the temperature values.
+ */
+function createEnsemble(
+  model: EnsembleModelName,
+  hourlyTemperatures: (number | null)[][]
+): EnsembleForecast {
+  const hourly = hourlyTemperatures.map((members, index) => ({
+    timestamp: new Date(BASE_TIME + index * 3600000),
+    temperature: members,
+    precipitation: members.map((v) => (v === null ? null : Math.max(0, v))),
+    windSpeed: members,
+  }));
+
+  return {
+    model,
+    coordinates: COORDINATES,
+    generatedAt: new Date(BASE_TIME),
+    validFrom: hourly[0].timestamp,
+    validTo: hourly[hourly.length - 1].timestamp,
+    memberCount: hourlyTemperatures[0].length,
+    hourly,
+  };
+}
+
+/**
+ * Create a deterministic model forecast with one hour and one day
+ */
+function createModelForecast(): ModelForecast {
+  const metrics: WeatherMetrics = {
+    temperature: celsius(5),
+    feelsLike: celsius(3),
+    humidity: humidity(70),
+    pressure: pressure(1013),
+    windSpeed: metersPerSecond(4),
+    windDirection: windDirection(180),
+    precipitation: millimeters(0),
+    precipitationProbability: 0,
+    cloudCover: cloudCover(50),
+    visibility: visibility(10000),
+    uvIndex: uvIndex(0),
+    weatherCode: weatherCode(2),
+  };
+  const hourly: HourlyForecast[] = [{ timestamp: new Date(BASE_TIME), metrics }];
+
+  return {
+    model: "ecmwf",
+    coordinates: COORDINATES,
+    generatedAt: new Date(BASE_TIME),
+    validFrom: hourly[0].timestamp,
+    validTo: hourly[0].timestamp,
+    hourly,
+    daily: [
+      {
+        date: new Date("2024-01-15"),
+        temperature: { min: celsius(2), max: celsius(8) },
+        humidity: { min: humidity(60), max: humidity(80) },
+        pressure: { min: pressure(1010), max: pressure(1015) },
+        precipitation: { total: millimeters(0), probability: 0, hours: 0 },
+        wind: {
+          avgSpeed: metersPerSecond(4),
+          maxSpeed: metersPerSecond(8),
+          dominantDirection: windDirection(180),
+        },
+        cloudCover: { avg: cloudCover(50), max: cloudCover(70) },
+        uvIndex: { max: uvIndex(1) },
+        sun: {
+          sunrise: new Date(BASE_TIME + 8 * 3600000),
+          sunset: new Date(BASE_TIME + 16 * 3600000),
+          daylightHours: 8,
+        },
+        weatherCode: weatherCode(2),
+        hourly: [],
+      },
+    ],
+  };
+}
+
+describe("summarizeMembers", () => {
+  it("should calculate percentiles across members", () => {
+    const dist = summarizeMembers([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+
+    expect(dist.p10).toBe(1);
+    expect(dist.p50).toBe(5);
+    expect(dist.p90).toBe(9);
+    expect(dist.mean).toBe(5);
+    expect(dist.min).toBe(0);
+    expect(dist.max).toBe(10);
+    expect(dist.memberCount).toBe(11);
+  });
+
+  it("should ignore missing members", () => {
+    const dist = summarizeMembers([null, 4, null, 6]);
+
+    expect(dist.memberCount).toBe(2);
+    expect(dist.p50).toBe(5);
+  });
+
+  it("should return an empty distribution with no members", () => {
+    expect(summarizeMembers([null]).memberCount).toBe(0);
+  });
+});
+
+describe("parseExceedanceThreshold", () => {
+  it("should parse above and below thresholds", () => {
+    expect(parseExceedanceThreshold("precipitation>5")).toEqual({
+      metric: "precipitation",
+      threshold: 5,
+      comparison: "above",
+    });
+    expect(parseExceedanceThreshold("temp < -2.5")).toEqual({
+      metric: "temperature",
+      threshold: -2.5,
+      comparison: "below",
+    });
+    expect(parseExceedanceThreshold("wind>15").metric).toBe("windSpeed");
+  });
+
+  it("should reject unknown metrics and malformed specs", () => {
+    expect(() => parseExceedanceThreshold("humidity>50")).toThrow(ConfigError);
+    expect(() => parseExceedanceThreshold("precipitation=5")).toThrow(ConfigError);
+    expect(() => parseExceedanceThreshold("precipitation>")).toThrow(ConfigError);
+  });
+});
+
+describe("calculateHourlyUncertainty", () => {
+  it("should pool members from all ensemble systems", () => {
+    const uncertainty = calculateHourlyUncertainty([
+      createEnsemble("ecmwf_ens", [[1, 2, 3]]),
+      createEnsemble("gefs", [[4, 5]]),
+    ]);
+    const hour = uncertainty.get(new Date(BASE_TIME).toISOString());
+
+    expect(hour).toBeDefined();
+    expect(hour!.temperature.memberCount).toBe(5);
+    expect(hour!.temperature.p50).toBe(3);
+  });
+
+  it("should compute exceedance probabilities for thresholds", () => {
+    const uncertainty = calculateHourlyUncertainty(
+      [createEnsemble("ecmwf_ens", [[-2, -1, 1, 6]])],
+      [
+        { metric: "temperature", threshold: 0, comparison: "below" },
+        { metric: "precipitation", threshold: 5, comparison: "above" },
+      ]
+    );
+    const hour = uncertainty.get(new Date(BASE_TIME).toISOString())!;
+
+    expect(hour.exceedance).toEqual([
+      { metric: "temperature", threshold: 0, comparison: "below", probability: 50 },
+      { metric: "precipitation", threshold: 5, comparison: "above", probability: 25 },
+    ]);
+  });
+});
+
+describe("calculateDailyUncertainty", () => {
+  it("should derive each member's daily values before taking percentiles", () => {
+    // Two members over three hours: member 0 ranges -1..4, member 1 ranges 2..10
+    const uncertainty = calculateDailyUncertainty(
+      [createEnsemble("icon_eps", [[-1, 2], [4, 10], [0, 5]])],
+      [
+        { metric: "temperature", threshold: 8, comparison: "above" },
+        { metric: "temperature", threshold: 0, comparison: "below" },
+      ]
+    );
+    const day = uncertainty.get("2024-01-15")!;
+
+    expect(day.temperatureMax.min).toBe(4);
+    expect(day.temperatureMax.max).toBe(10);
+    expect(day.temperatureMin.min).toBe(-1);
+    expect(day.precipitation.max).toBe(17);
+    expect(day.windSpeedMax.p50).toBe(7);
+    expect(day.exceedance.map((e) => e.probability)).toEqual([50, 50]);
+  });
+});
+
+describe("aggregateForecasts with ensembles", () => {
+  it("should attach uncertainty to matching hours and days", () => {
+    const aggregated = aggregateForecasts([createModelForecast()], {
+      ensembles: [createEnsemble("ecmwf_ens", [[3, 5, 7]])],
+    });
+
+    expect(aggregated.ensemble).toEqual({ models: ["ecmwf_ens"], memberCount: 3 });
+    expect(aggregated.consensus.hourly[0].uncertainty?.temperature.p50).toBe(5);
+    expect(aggregated.consensus.daily[0].uncertainty?.temperatureMax.p50).toBe(5);
+  });
+
+  it("should leave uncertainty unset without ensembles", () => {
+    const aggregated = aggregateForecasts([createModelForecast()]);
+
+    expect(aggregated.ensemble).toBeUndefined();
+    expect(aggregated.consensus.hourly[0].uncertainty).toBeUndefined();
+  });
+
+  it("should produce fan chart series from uncertain hours", () => {
+    const aggregated = aggregateForecasts([createModelForecast()], {
+      ensembles: [createEnsemble("gefs", [[1, 2, 3, 4, 5]])],
+    });
+    const series = toFanChartSeries(aggregated.consensus.hourly, "temperature");
+
+    expect(series.length).toBe(1);
+    expect(series[0].p50).toBe(3);
+    expect(series[0].min).toBe(1);
+    expect(series[0].max).toBe(5);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Ensemble uncertainty engine.
+ * Turns member-level ensemble forecasts into percentile distributions,
+ * exceedance probabilities and fan-chart series.
+ */
+
+import type {
+  EnsembleForecast,
+  EnsembleMetric,
+  MemberDistribution,
+  ExceedanceThreshold,
+  ExceedanceProbability,
+  HourlyUncertainty,
+  DailyUncertainty,
+} from "../types/ensemble";
+import type { AggregatedHourlyForecast } from "../types/models";
+import { ConfigError } from "../errors/config";
+import { mean, percentile, ensembleProbability } from "./statistics";
+
+/**
+ * Thresholds used when none are configured:
+ * any measurable rain, frost, and strong wind (Beaufort 6)
+ */
+export const DEFAULT_EXCEEDANCE_THRESHOLDS: readonly ExceedanceThreshold[] = [
+  { metric: "precipitation", threshold: 0.1, comparison: "above" },
+  { metric: "temperature", threshold: 0, comparison: "below" },
+  { metric: "windSpeed", threshold: 10.8, comparison: "above" },
+];
+
+/**
+ * A point on a fan chart for one metric
+ */
+export interface FanChartPoint {
+  readonly timestamp: Date;
+  readonly p10: number;
+  readonly p50: number;
+  readonly p90: number;
+  readonly min: number;
+  readonly max: number;
+}
+
+const METRIC_ALIASES: Record<string, EnsembleMetric> = {
+  temperature: "temperature",
+  temp: "temperature",
+  precipitation: "precipitation",
+  precip: "precipitation",
+  rain: "precipitation",
+  windspeed: "windSpeed",
+  wind: "windSpeed",
+};
+
+/**
+ * Summarize member values into a percentile distribution.
+ * Null (missing) members are ignored.
+ */
+export function summarizeMembers(values: readonly (number | null)[]): MemberDistribution {
+  const present = values.filter((v): v is number => v !== null && Number.isFinite(v));
+
+  if (present.length === 0) {
+    return { p10: 0, p50: 0, p90: 0, mean: 0, min: 0, max: 0, memberCount: 0 };
+  }
+
+  return {
+    p10: percentile(present, 10),
+    p50: percentile(present, 50),
+    p90: percentile(present, 90),
+    mean: mean(present),
+    min: Math.min(...present),
+    max: Math.max(...present),
+    memberCount: present.length,
+  };
+}
+
+/**
+ * Parse a threshold spec such as "precipitation>5" or "temp<0".
+ *
+ * @throws ConfigError if the spec is not `<metric><'>' | '<'><number>`
+ */
+export function parseExceedanceThreshold(spec: string): ExceedanceThreshold {
+  const match = /^\s*([a-zA-Z]+)\s*([<>])\s*(-?\d+(?:\.\d+)?)\s*$/.exec(spec);
+  const metric = match ? METRIC_ALIASES[match[1].toLowerCase()] : undefined;
+
+  if (!match || metric === undefined) {
+    throw ConfigError.invalid(
+      "exceedance",
+      `"${spec}" is not a threshold like "precipitation>5" (metrics: temperature, precipitation, windSpeed)`
+    );
+  }
+
+  return {
+    metric,
+    threshold: parseFloat(match[3]),
+    comparison: match[2] === ">" ? "above" : "below",
+  };
+}
+
+/**
+ * Probability (0-100) that member values meet each threshold
+ */
+function calculateExceedance(
+  valuesFor: (metric: EnsembleMetric, comparison: ExceedanceThreshold["comparison"]) => number[],
+  thresholds: readonly ExceedanceThreshold[]
+): ExceedanceProbability[] {
+  return thresholds.map((t) => ({
+    ...t,
+    probability: ensembleProbability(
+      valuesFor(t.metric, t.comparison),
+      t.threshold,
+      t.comparison === "above" ? "gt" : "lt"
+    ),
+  }));
+}
+
+/**
+ * Key an hour by its ISO timestamp
+ */
+function hourKey(timestamp: Date | string): string {
+  return new Date(timestamp).toISOString();
+}
+
+/**
+ * Calculate hourly uncertainty, pooling members from all ensemble systems.
+ *
+ * @returns Map of ISO timestamp to uncertainty for that hour
+ */
+export function calculateHourlyUncertainty(
+  ensembles: readonly EnsembleForecast[],
+  thresholds: readonly ExceedanceThreshold[] = DEFAULT_EXCEEDANCE_THRESHOLDS
+): Map<string, HourlyUncertainty> {
+  const pooled = new Map<string, Record<EnsembleMetric, (number | null)[]>>();
+
+  for (const ensemble of ensembles) {
+    for (const hour of ensemble.hourly) {
+      const key = hourKey(hour.timestamp);
+      const existing = pooled.get(key) ?? { temperature: [], precipitation: [], windSpeed: [] };
+      existing.temperature.push(...hour.temperature);
+      existing.precipitation.push(...hour.precipitation);
+      existing.windSpeed.push(...hour.windSpeed);
+      pooled.set(key, existing);
+    }
+  }
+
+  const result = new Map<string, HourlyUncertainty>();
+  for (const [key, members] of pooled) {
+    const present = (metric: EnsembleMetric): number[] =>
+      members[metric].filter((v): v is number => v !== null);
+
+    result.set(key, {
+      temperature: summarizeMembers(members.temperature),
+      precipitation: summarizeMembers(members.precipitation),
+      windSpeed: summarizeMembers(members.windSpeed),
+      exceedance: calculateExceedance((metric) => present(metric), thresholds),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Calculate daily uncertainty. Each member's daily high, low, precipitation
+ * total and peak wind are derived first, then summarized across members
+ * from all ensemble systems.
+ *
+ * @returns Map of ISO date (YYYY-MM-DD) to uncertainty for that day
+ */
+export function calculateDailyUncertainty(
+  ensembles: readonly EnsembleForecast[],
+  thresholds: readonly ExceedanceThreshold[] = DEFAULT_EXCEEDANCE_THRESHOLDS
+): Map<string, DailyUncertainty> {
+  interface MemberDay {
+    temperatureMax: number[];
+    temperatureMin: number[];
+    precipitation: number[];
+    windSpeedMax: number[];
+  }
+
+  const days = new Map<string, MemberDay>();
+
+  for (const ensemble of ensembles) {
+    // Per-member accumulators for this system, keyed by day
+    const systemDays = new Map<string, { temps: number[][]; precip: number[]; wind: number[][] }>();
+
+    for (const hour of ensemble.hourly) {
+      const key = hourKey(hour.timestamp).split("T")[0];
+      const day = systemDays.get(key) ?? {
+        temps: Array.from({ length: ensemble.memberCount }, () => []),
+        precip: new Array<number>(ensemble.memberCount).fill(0),
+        wind: Array.from({ length: ensemble.memberCount }, () => []),
+      };
+
+      for (let m = 0; m < ensemble.memberCount; m++) {
+        const temp = hour.temperature[m];
+        const precip = hour.precipitation[m];
+        const wind = hour.windSpeed[m];
+        if (temp != null) day.temps[m].push(temp);
+        if (precip != null) day.precip[m] += precip;
+        if (wind != null) day.wind[m].push(wind);
+      }
+      systemDays.set(key, day);
+    }
+
+    for (const [key, day] of systemDays) {
+      const pooled = days.get(key) ?? {
+        temperatureMax: [],
+        temperatureMin: [],
+        precipitation: [],
+        windSpeedMax: [],
+      };
+
+      for (let m = 0; m < ensemble.memberCount; m++) {
+        if (day.temps[m].length > 0) {
+          pooled.temperatureMax.push(Math.max(...day.temps[m]));
+          pooled.temperatureMin.push(Math.min(...day.temps[m]));
+        }
+        pooled.precipitation.push(day.precip[m]);
+        if (day.wind[m].length > 0) {
+          pooled.windSpeedMax.push(Math.max(...day.wind[m]));
+        }
+      }
+      days.set(key, pooled);
+    }
+  }
+
+  const result = new Map<string, DailyUncertainty>();
+  for (const [key, day] of days) {
+    result.set(key, {
+      temperatureMax: summarizeMembers(day.temperatureMax),
+      temperatureMin: summarizeMembers(day.temperatureMin),
+      precipitation: summarizeMembers(day.precipitation),
+      windSpeedMax: summarizeMembers(day.windSpeedMax),
+      exceedance: calculateExceedance((metric, comparison) => {
+        switch (metric) {
+          case "temperature":
+            return comparison === "above" ? day.temperatureMax : day.temperatureMin;
+          case "precipitation":
+            return day.precipitation;
+          case "windSpeed":
+            return day.windSpeedMax;
+        }
+      }, thresholds),
+    });
+  }
+
+  return result;
+}
+
+/**
+ * Build a fan chart series for one metric from aggregated hourly forecasts.
+ * Hours without ensemble uncertainty are skipped.
+ */
+export function toFanChartSeries(
+  hourly: readonly AggregatedHourlyForecast[],
+  metric: EnsembleMetric
+): FanChartPoint[] {
+  const points: FanChartPoint[] = [];
+
+  for (const hour of hourly) {
+    if (!hour.uncertainty) continue;
+    const { p10, p50, p90, min, max } = hour.uncertainty[metric];
+    points.push({ timestamp: new Date(hour.timestamp), p10, p50, p90, min, max });
+  }
+
+  return points;
+}
@@ -9,19 +9,137 @@ export {
   calculateSpread,
   type SpreadMetrics,
   type OutlierInfo,
+  type AggregationOptions,
 } from "./aggregator";
 
+export {
+  equalWeighting,
+  resolutionWeighting,
+  regionWeighting,
+  leadTimeWeighting,
+  skillWeighting,
+  combineWeightingStrategies,
+  createWeightingStrategy,
+  loadSkillScores,
+  loadWeightingStrategy,
+  type WeightingStrategy,
+  type WeightingStrategyName,
+  type WeightingStrategyOptions,
+  type WeightingContext,
+  type SkillScores,
+} from "./weighting";
+
 export {
   mean,
   median,
+  percentile,
   stdDev,
   trimmedMean,
+  weightedMean,
+  weightedMedian,
+  weightedTrimmedMean,
   findOutlierIndices,
+  robustZScores,
   ensembleProbability,
+  weightedEnsembleProbability,
   confidenceFromStdDev,
   confidenceFromRange,
 } from "./statistics";
 
+export {
+  windToVector,
+  vectorToWind,
+  angularDifference,
+  circularStatistics,
+  circularMean,
+  vectorMeanWind,
+  consensusWindDirection,
+  directionConfidence,
+  DIRECTION_SPREAD_THRESHOLDS,
+  CALM_WIND_SPEED,
+  type WindVector,
+  type WindSpeedDirection,
+} from "./wind";
+
+export {
+  conditionConsensus,
+  conditionSeverity,
+  formatConditionDistribution,
+  CONDITION_SEVERITY,
+  type ConditionVote,
+  type ConditionConsensusOptions,
+} from "./conditions";
+
+export {
+  applyAggregationMethod,
+  parseAggregationPolicy,
+  createExclusionLog,
+  formatAggregationExclusions,
+  AGGREGATION_METHODS,
+  AGGREGATION_METRICS,
+  OUTLIER_Z_THRESHOLD,
+  OUTLIER_EXCLUSION_THRESHOLD,
+  type MethodResult,
+  type ExclusionLog,
+} from "./aggregation-policy";
+
+export {
+  assessDataQuality,
+  formatDataQualityReport,
+  sampleHourlyMetric,
+  sampleDailyMetric,
+  sampleExtendedMetric,
+  sampleDailyExtendedMetric,
+  hourlyCoverage,
+  dailyCoverage,
+  HOURLY_METRICS,
+  DAILY_METRICS,
+  type MetricSample,
+} from "./data-quality";
+
+export {
+  calculateHourlyIndices,
+  calculateDailyIndices,
+  calculateHourlyIndex,
+  isHourlyIndexName,
+  dewPointFromHumidity,
+  heatIndex,
+  humidex,
+  windChill,
+  wetBulbGlobeTemperature,
+  classifyDewPoint,
+  classifyFrostRisk,
+  growingDegreeDays,
+  referenceEvapotranspiration,
+  GROWING_DEGREE_BASE,
+  FROST_TEMPERATURE,
+  FROST_RISK_THRESHOLDS,
+  DEW_POINT_COMFORT_THRESHOLDS,
+  INDEX_CAUTION_THRESHOLDS,
+  type EvapotranspirationInput,
+} from "./indices";
+
+export {
+  calculatePrecipitationType,
+  classifyPrecipitationType,
+  precipitationTypeProbability,
+  weatherCodeToPrecipitationType,
+  wetBulbFromDewPoint,
+  PRECIPITATION_TYPE_THRESHOLD,
+  PRECIPITATION_TYPE_WET_BULB,
+  WARM_LAYER_HEIGHTS,
+} from "./precipitation-type";
+
+export {
+  summarizeMembers,
+  parseExceedanceThreshold,
+  calculateHourlyUncertainty,
+  calculateDailyUncertainty,
+  toFanChartSeries,
+  DEFAULT_EXCEEDANCE_THRESHOLDS,
+  type FanChartPoint,
+} from "./ensemble";
+
 export {
   calculateConfidence,
   calculateHourlyConfidence,
@@ -42,8 +160,16 @@ export {
   getAverageConfidenceLevel,
   type NarrativeSummary,
   type NarrativeType,
+  type NarrativeOptions,
 } from "./narrative";
 
+export {
+  evaluateAlertRules,
+  formatAlertCondition,
+  ruleAppliesToLocation,
+  type AlertEvaluationOptions,
+} from "./alerts";
+
 export {
   weatherCodeToCondition,
   conditionToDescription,
@@ -54,8 +180,12 @@ export {
   formatModelList,
   formatTemperature,
   formatPrecipitation,
+  formatTemperatureAnomaly,
+  formatMonthName,
+  formatPrecipitationType,
   formatRelativeDay,
   formatTimePeriod,
+  createLocalTimeFormatter,
   fillTemplate,
   selectTemplate,
   type WeatherCondition,
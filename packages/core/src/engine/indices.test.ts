@@ -0,0 +1,202 @@
+/**
+ * Tests for derived comfort and hazard indices.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  heatIndex,
+  humidex,
+  windChill,
+  wetBulbGlobeTemperature,
+  dewPointFromHumidity,
+  classifyDewPoint,
+  classifyFrostRisk,
+  growingDegreeDays,
+  referenceEvapotranspiration,
+  calculateHourlyIndex,
+} from "./indices";
+import { aggregateForecasts } from "./aggregator";
+import { buildDailyForecasts } from "../api/providers/derive";
+import type { ModelForecast, ModelName } from "../types/models";
+import type { HourlyForecast, WeatherMetrics } from "../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { latitude, longitude } from "../types/location";
+
+const BASE_TIME = new Date("2024-07-15T00:00:00Z").getTime();
+const HOUR_MS = 3600000;
+
+interface HourValues {
+  temperature: number;
+  humidity?: number;
+  windSpeed?: number;
+}
+
+/**
+ * Create hourly metrics from a temperature, humidity and wind speed
+ */
+function createMetrics(values: HourValues): WeatherMetrics {
+  return {
+    temperature: celsius(values.temperature),
+    feelsLike: celsius(values.temperature),
+    humidity: humidity(values.humidity ?? 50),
+    pressure: pressure(1013),
+    windSpeed: metersPerSecond(values.windSpeed ?? 3),
+    windDirection: windDirection(180),
+    precipitation: millimeters(0),
+    precipitationProbability: 0,
+    cloudCover: cloudCover(20),
+    visibility: visibility(10000),
+    uvIndex: uvIndex(5),
+    weatherCode: weatherCode(1),
+  };
+}
+
+/**
+ * Create a model forecast from per-hour values starting at BASE_TIME
+ */
+function createForecast(model: ModelName, hours: HourValues[]): ModelForecast {
+  const hourly: HourlyForecast[] = hours.map((values, index) => ({
+    timestamp: new Date(BASE_TIME + index * HOUR_MS),
+    metrics: createMetrics(values),
+  }));
+
+  return {
+    model,
+    coordinates: { latitude: latitude(40.7), longitude: longitude(-74) },
+    generatedAt: new Date(BASE_TIME),
+    validFrom: hourly[0].timestamp,
+    validTo: hourly[hourly.length - 1].timestamp,
+    hourly,
+    daily: buildDailyForecasts(hourly),
+  };
+}
+
+/**
+ * A day of hours warming from a low to a high and back
+ */
+function createDay(low: number, high: number, humidityValue = 50): HourValues[] {
+  return Array.from({ length: 24 }, (_, hour) => ({
+    temperature: low + ((high - low) * (1 - Math.cos(((hour - 3) / 24) * 2 * Math.PI))) / 2,
+    humidity: humidityValue,
+  }));
+}
+
+describe("index formulas", () => {
+  it("should match the NWS heat index table", () => {
+    // 90°F at 70% humidity feels like 106°F
+    const fahrenheit = (heatIndex(((90 - 32) * 5) / 9, 70) * 9) / 5 + 32;
+    expect(fahrenheit).toBeCloseTo(106, 0);
+    expect(heatIndex(20, 90)).toBe(20);
+  });
+
+  it("should match the Environment Canada humidex and wind chill tables", () => {
+    expect(humidex(30, 15)).toBeCloseTo(34, 0);
+    expect(humidex(18, 15)).toBe(18);
+    expect(windChill(-10, 20 / 3.6)).toBeCloseTo(-18, 0);
+    expect(windChill(15, 10)).toBe(15);
+    expect(windChill(-10, 1)).toBe(-10);
+  });
+
+  it("should approximate WBGT and dew point from humidity", () => {
+    expect(wetBulbGlobeTemperature(30, 50)).toBeCloseTo(29.3, 1);
+    expect(dewPointFromHumidity(20, 50)).toBeCloseTo(9.3, 1);
+    expect(dewPointFromHumidity(20, 100)).toBeCloseTo(20, 5);
+  });
+
+  it("should classify dew point comfort and frost risk", () => {
+    expect(classifyDewPoint(5)).toBe("dry");
+    expect(classifyDewPoint(14)).toBe("comfortable");
+    expect(classifyDewPoint(19)).toBe("muggy");
+    expect(classifyDewPoint(26)).toBe("miserable");
+    expect(classifyFrostRisk(-2)).toBe("high");
+    expect(classifyFrostRisk(1.5)).toBe("moderate");
+    expect(classifyFrostRisk(3)).toBe("low");
+    expect(classifyFrostRisk(8)).toBe("none");
+  });
+
+  it("should count growing degree days above the base", () => {
+    expect(growingDegreeDays(25, 15)).toBe(10);
+    expect(growingDegreeDays(12, 2)).toBe(0);
+    expect(growingDegreeDays(25, 15, 5)).toBe(15);
+  });
+
+  it("should reproduce the FAO-56 reference evapotranspiration example", () => {
+    // FAO-56 example 18: Brussels on 6 July
+    const evapotranspiration = referenceEvapotranspiration({
+      date: "2023-07-06",
+      latitude: 50.8,
+      temperatureMax: 21.5,
+      temperatureMin: 12.3,
+      humidityMax: 84,
+      humidityMin: 63,
+      windSpeed: 10 / 3.6,
+      pressure: 1001,
+      shortwaveRadiation: 22.07,
+    });
+    expect(evapotranspiration).toBeCloseTo(3.9, 1);
+  });
+
+  it("should skip indices whose metrics are missing", () => {
+    const metrics = { ...createMetrics({ temperature: 30 }), missing: ["humidity" as const] };
+    expect(calculateHourlyIndex(metrics, "heatIndex")).toBeUndefined();
+    expect(calculateHourlyIndex(metrics, "windChill")).toBe(30);
+  });
+});
+
+describe("aggregated indices", () => {
+  it("should add indices to each hour with confidence from the model spread", () => {
+    const hot = { temperature: 34, humidity: 60 };
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [hot, hot]),
+      createForecast("gfs", [hot, { temperature: 30, humidity: 60 }]),
+    ]);
+    const [agreed, split] = aggregated.consensus.hourly;
+
+    expect(agreed.indices?.heatIndex.value).toBeCloseTo(heatIndex(34, 60), 1);
+    expect(agreed.indices?.heatIndex.confidence.level).toBe("high");
+    expect(agreed.indices?.comfort.class).toBe("miserable");
+    expect(split.indices?.heatIndex.range.max).toBeGreaterThan(
+      split.indices?.heatIndex.range.min ?? 0
+    );
+    expect(split.indices?.heatIndex.confidence.score).toBeLessThan(1);
+  });
+
+  it("should add daily peaks, frost risk, growing degree days and evapotranspiration", () => {
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", createDay(18, 32, 60)),
+      createForecast("gfs", createDay(18, 32, 60)),
+    ]);
+    const [day] = aggregated.consensus.daily;
+    const hours = aggregated.consensus.hourly;
+
+    expect(day.indices?.peaks?.heatIndex.value).toBe(
+      Math.max(...hours.map((h) => h.indices?.heatIndex.value ?? -Infinity))
+    );
+    expect(day.indices?.frostRisk).toMatchObject({ risk: "none", probability: 0 });
+    expect(day.indices?.growingDegreeDays.value).toBe(15);
+    expect(day.indices?.growingDegreeDays.confidence.level).toBe("high");
+    expect(day.indices?.referenceEvapotranspiration?.value).toBeGreaterThan(0);
+  });
+
+  it("should report the share of models forecasting frost", () => {
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", createDay(-2, 6)),
+      createForecast("gfs", createDay(1, 8)),
+    ]);
+    const frostRisk = aggregated.consensus.daily[0].indices?.frostRisk;
+
+    expect(frostRisk?.probability).toBe(50);
+    expect(frostRisk?.risk).toBe("high");
+  });
+});
@@ -0,0 +1,582 @@
+/**
+ * Derived comfort and hazard indices for Weather Oracle.
+ * Computes heat index, humidex, wind chill, WBGT, dew-point comfort, frost
+ * risk, growing degree days and FAO-56 reference evapotranspiration from the
+ * aggregated forecast. Each index is also computed from every model's own
+ * forecast, and the spread of those values sets its confidence.
+ */
+
+import { confidenceLevel, type ConfidenceLevel } from "../types/models";
+import {
+  hasMetric,
+  hasDailyMetric,
+  type DailyForecast,
+  type WeatherMetrics,
+} from "../types/weather";
+import {
+  HOURLY_INDEX_NAMES,
+  type ComfortIndex,
+  type DailyIndices,
+  type DewPointComfort,
+  type FrostRisk,
+  type FrostRiskIndex,
+  type HourlyIndexName,
+  type HourlyIndices,
+  type IndexValue,
+} from "../types/indices";
+import { confidenceFromStdDev, stdDev } from "./statistics";
+
+/**
+ * Base temperature for growing degree days, in °C
+ */
+export const GROWING_DEGREE_BASE = 10;
+
+/**
+ * Minimum temperature at or below which a model counts as forecasting frost, in °C
+ */
+export const FROST_TEMPERATURE = 0;
+
+/**
+ * Highest minimum temperature for each frost risk. Ground frost forms on
+ * clear nights with the air a few degrees above freezing.
+ */
+export const FROST_RISK_THRESHOLDS: Readonly<Record<Exclude<FrostRisk, "none">, number>> = {
+  high: 0,
+  moderate: 2,
+  low: 4,
+};
+
+/**
+ * Upper dew point bound of each comfort class, in °C; higher dew points are
+ * "miserable"
+ */
+export const DEW_POINT_COMFORT_THRESHOLDS: readonly {
+  readonly class: DewPointComfort;
+  readonly below: number;
+}[] = [
+  { class: "dry", below: 10 },
+  { class: "comfortable", below: 16 },
+  { class: "humid", below: 18 },
+  { class: "muggy", below: 21 },
+  { class: "oppressive", below: 24 },
+];
+
+/**
+ * Values at which each hourly index calls for caution, in °C: heat indices
+ * at or above them, wind chill at or below
+ */
+export const INDEX_CAUTION_THRESHOLDS: Readonly<Record<HourlyIndexName, number>> = {
+  heatIndex: 27,
+  humidex: 30,
+  wbgt: 25,
+  windChill: 0,
+};
+
+/**
+ * Model spread (standard deviation) below which an index has full
+ * confidence and above which it has the lowest
+ */
+const SPREAD_THRESHOLDS = {
+  temperature: { high: 1.5, low: 4.0 }, // °C, also °C-days
+  evapotranspiration: { high: 0.5, low: 1.5 }, // mm
+} as const;
+
+/**
+ * Lowest temperature humidex is reported for, in °C
+ */
+const HUMIDEX_MIN_TEMPERATURE = 20;
+
+/**
+ * Wind chill is defined at or below this temperature (°C) and above this
+ * wind speed (km/h)
+ */
+const WIND_CHILL_MAX_TEMPERATURE = 10;
+const WIND_CHILL_MIN_WIND_KMH = 4.8;
+
+/**
+ * Magnus formula coefficients for dew point over water
+ */
+const MAGNUS_A = 17.625;
+const MAGNUS_B = 243.04;
+
+/**
+ * Standard sea-level pressure, in hPa, used when a day has no pressure
+ */
+const STANDARD_PRESSURE = 1013.25;
+
+/**
+ * Solar constant, in MJ/m²/min
+ */
+const SOLAR_CONSTANT = 0.082;
+
+/**
+ * Stefan-Boltzmann constant, in MJ/K⁴/m²/day
+ */
+const STEFAN_BOLTZMANN = 4.903e-9;
+
+/**
+ * Hargreaves coefficient estimating solar radiation from the daily
+ * temperature range, for days without a radiation forecast
+ */
+const HARGREAVES_RADIATION_COEFFICIENT = 0.16;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Round to one decimal place
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Confidence from the spread of the models' values
+ */
+function spreadConfidence(
+  values: readonly number[],
+  thresholds: { readonly high: number; readonly low: number }
+): ConfidenceLevel {
+  return confidenceLevel(confidenceFromStdDev(stdDev(values), thresholds.high, thresholds.low));
+}
+
+/**
+ * Build an index value from the consensus value and each model's value
+ */
+function indexValue(
+  value: number,
+  modelValues: readonly number[],
+  thresholds: { readonly high: number; readonly low: number }
+): IndexValue {
+  const values = modelValues.length > 0 ? modelValues : [value];
+  return {
+    value: round1(value),
+    range: { min: round1(Math.min(...values)), max: round1(Math.max(...values)) },
+    confidence: spreadConfidence(values, thresholds),
+  };
+}
+
+/**
+ * Values of a calculation over the models, skipping those it can't be computed for
+ */
+function modelValuesOf<T>(
+  models: readonly T[],
+  calculate: (model: T) => number | undefined
+): number[] {
+  return models.flatMap((model) => {
+    const value = calculate(model);
+    return value === undefined ? [] : [value];
+  });
+}
+
+/**
+ * Whether a name is one of the hourly temperature-like indices
+ */
+export function isHourlyIndexName(name: string): name is HourlyIndexName {
+  return (HOURLY_INDEX_NAMES as readonly string[]).includes(name);
+}
+
+/**
+ * Dew point from temperature (°C) and relative humidity (%), by the Magnus formula
+ */
+export function dewPointFromHumidity(temperature: number, humidity: number): number {
+  const gamma =
+    Math.log(Math.max(humidity, 1) / 100) + (MAGNUS_A * temperature) / (MAGNUS_B + temperature);
+  return (MAGNUS_B * gamma) / (MAGNUS_A - gamma);
+}
+
+/**
+ * US National Weather Service heat index, in °C. Below about 27°C, where
+ * the Rothfusz regression does not apply, it is the air temperature.
+ */
+export function heatIndex(temperature: number, humidity: number): number {
+  const t = (temperature * 9) / 5 + 32;
+  const rh = humidity;
+
+  const simple = 0.5 * (t + 61 + (t - 68) * 1.2 + rh * 0.094);
+  if ((simple + t) / 2 < 80) {
+    return temperature;
+  }
+
+  let index =
+    -42.379 +
+    2.04901523 * t +
+    10.14333127 * rh -
+    0.22475541 * t * rh -
+    0.00683783 * t * t -
+    0.05481717 * rh * rh +
+    0.00122874 * t * t * rh +
+    0.00085282 * t * rh * rh -
+    0.00000199 * t * t * rh * rh;
+  if (rh < 13 && t >= 80 && t <= 112) {
+    index -= ((13 - rh) / 4) * Math.sqrt((17 - Math.abs(t - 95)) / 17);
+  } else if (rh > 85 && t >= 80 && t <= 87) {
+    index += ((rh - 85) / 10) * ((87 - t) / 5);
+  }
+
+  return ((index - 32) * 5) / 9;
+}
+
+/**
+ * Environment Canada humidex, in °C. Below 20°C, or when the air is too dry
+ * to raise it, it is the air temperature.
+ */
+export function humidex(temperature: number, dewPoint: number): number {
+  if (temperature < HUMIDEX_MIN_TEMPERATURE) {
+    return temperature;
+  }
+  const vapourPressure = 6.11 * Math.exp(5417.753 * (1 / 273.16 - 1 / (273.15 + dewPoint)));
+  return Math.max(temperature, temperature + 0.5555 * (vapourPressure - 10));
+}
+
+/**
+ * North American wind chill index from temperature (°C) and wind speed
+ * (m/s), in °C. Above 10°C or in near-calm air it is the air temperature.
+ */
+export function windChill(temperature: number, windSpeed: number): number {
+  const kmh = windSpeed * 3.6;
+  if (temperature > WIND_CHILL_MAX_TEMPERATURE || kmh <= WIND_CHILL_MIN_WIND_KMH) {
+    return temperature;
+  }
+  const v = kmh ** 0.16;
+  return Math.min(temperature, 13.12 + 0.6215 * temperature - 11.37 * v + 0.3965 * temperature * v);
+}
+
+/**
+ * Wet-bulb globe temperature approximated from temperature (°C) and relative
+ * humidity (%), in °C. Uses the Australian Bureau of Meteorology formula,
+ * which assumes shade and light wind.
+ */
+export function wetBulbGlobeTemperature(temperature: number, humidity: number): number {
+  const vapourPressure =
+    (humidity / 100) * 6.105 * Math.exp((17.27 * temperature) / (237.7 + temperature));
+  return 0.567 * temperature + 0.393 * vapourPressure + 3.94;
+}
+
+/**
+ * Comfort class of a dew point (°C)
+ */
+export function classifyDewPoint(dewPoint: number): DewPointComfort {
+  return (
+    DEW_POINT_COMFORT_THRESHOLDS.find((threshold) => dewPoint < threshold.below)?.class ??
+    "miserable"
+  );
+}
+
+/**
+ * Frost risk from a day's minimum temperature (°C)
+ */
+export function classifyFrostRisk(minTemperature: number): FrostRisk {
+  if (minTemperature <= FROST_RISK_THRESHOLDS.high) return "high";
+  if (minTemperature <= FROST_RISK_THRESHOLDS.moderate) return "moderate";
+  if (minTemperature <= FROST_RISK_THRESHOLDS.low) return "low";
+  return "none";
+}
+
+/**
+ * Growing degree days from a day's high and low (°C) above a base temperature
+ */
+export function growingDegreeDays(
+  temperatureMax: number,
+  temperatureMin: number,
+  base: number = GROWING_DEGREE_BASE
+): number {
+  return Math.max(0, (temperatureMax + temperatureMin) / 2 - base);
+}
+
+/**
+ * Daily weather needed for reference evapotranspiration
+ */
+export interface EvapotranspirationInput {
+  readonly date: Date | string;
+  /**
+   * Latitude in degrees, for extraterrestrial radiation
+   */
+  readonly latitude: number;
+  readonly temperatureMax: number;
+  readonly temperatureMin: number;
+  readonly humidityMax: number;
+  readonly humidityMin: number;
+  /**
+   * Mean wind speed at 10 m, in m/s
+   */
+  readonly windSpeed: number;
+  /**
+   * Mean pressure, in hPa (default: standard sea-level pressure)
+   */
+  readonly pressure?: number;
+  /**
+   * Solar radiation, in MJ/m² (default: estimated from the temperature range)
+   */
+  readonly shortwaveRadiation?: number;
+}
+
+/**
+ * Saturation vapour pressure at a temperature (°C), in kPa
+ */
+function saturationVapourPressure(temperature: number): number {
+  return 0.6108 * Math.exp((17.27 * temperature) / (temperature + 237.3));
+}
+
+/**
+ * Extraterrestrial radiation for a latitude and day, in MJ/m²/day
+ */
+function extraterrestrialRadiation(latitude: number, date: Date | string): number {
+  const time = new Date(date).getTime();
+  const yearStart = Date.UTC(new Date(time).getUTCFullYear(), 0, 1);
+  const dayOfYear = Math.floor((time - yearStart) / DAY_MS) + 1;
+
+  const phi = (latitude * Math.PI) / 180;
+  const inverseDistance = 1 + 0.033 * Math.cos((2 * Math.PI * dayOfYear) / 365);
+  const declination = 0.409 * Math.sin((2 * Math.PI * dayOfYear) / 365 - 1.39);
+  const sunsetAngle = Math.acos(Math.min(1, Math.max(-1, -Math.tan(phi) * Math.tan(declination))));
+
+  return (
+    ((24 * 60) / Math.PI) *
+    SOLAR_CONSTANT *
+    inverseDistance *
+    (sunsetAngle * Math.sin(phi) * Math.sin(declination) +
+      Math.cos(phi) * Math.cos(declination) * Math.sin(sunsetAngle))
+  );
+}
+
+/**
+ * FAO-56 Penman-Monteith reference evapotranspiration for a day, in mm.
+ * Soil heat flux is taken as zero, as FAO-56 recommends for daily steps.
+ */
+export function referenceEvapotranspiration(input: EvapotranspirationInput): number {
+  const { temperatureMax, temperatureMin } = input;
+  const temperature = (temperatureMax + temperatureMin) / 2;
+
+  // Psychrometric and vapour pressure terms
+  const slope = (4098 * saturationVapourPressure(temperature)) / (temperature + 237.3) ** 2;
+  const psychrometric = 0.000665 * ((input.pressure ?? STANDARD_PRESSURE) / 10);
+  const maxVapour = saturationVapourPressure(temperatureMax);
+  const minVapour = saturationVapourPressure(temperatureMin);
+  const saturation = (maxVapour + minVapour) / 2;
+  const actual =
+    (minVapour * (input.humidityMax / 100) + maxVapour * (input.humidityMin / 100)) / 2;
+
+  // Net radiation
+  const extraterrestrial = extraterrestrialRadiation(input.latitude, input.date);
+  const solar =
+    input.shortwaveRadiation ??
+    HARGREAVES_RADIATION_COEFFICIENT *
+      Math.sqrt(Math.max(0, temperatureMax - temperatureMin)) *
+      extraterrestrial;
+  const clearSky = 0.75 * extraterrestrial;
+  const relativeShortwave = clearSky > 0 ? Math.min(1, solar / clearSky) : 1;
+  const netShortwave = 0.77 * solar;
+  const netLongwave =
+    STEFAN_BOLTZMANN *
+    (((temperatureMax + 273.16) ** 4 + (temperatureMin + 273.16) ** 4) / 2) *
+    (0.34 - 0.14 * Math.sqrt(Math.max(0, actual))) *
+    (1.35 * relativeShortwave - 0.35);
+  const netRadiation = netShortwave - netLongwave;
+
+  // Wind at 2 m from the 10 m forecast
+  const wind = (input.windSpeed * 4.87) / Math.log(67.8 * 10 - 5.42);
+
+  const evapotranspiration =
+    (0.408 * slope * netRadiation +
+      psychrometric * (900 / (temperature + 273)) * wind * (saturation - actual)) /
+    (slope + psychrometric * (1 + 0.34 * wind));
+
+  return Math.max(0, evapotranspiration);
+}
+
+/**
+ * Dew point of an hour: forecast when the model provides it, otherwise
+ * derived from temperature and humidity
+ */
+function dewPointOf(metrics: WeatherMetrics): number | undefined {
+  if (metrics.dewPoint !== undefined) {
+    return metrics.dewPoint;
+  }
+  if (!hasMetric(metrics, "temperature") || !hasMetric(metrics, "humidity")) {
+    return undefined;
+  }
+  return dewPointFromHumidity(metrics.temperature, metrics.humidity);
+}
+
+/**
+ * Calculate one hourly index from hourly metrics, or undefined when a
+ * metric it needs is missing
+ */
+export function calculateHourlyIndex(
+  metrics: WeatherMetrics,
+  index: HourlyIndexName
+): number | undefined {
+  if (!hasMetric(metrics, "temperature")) {
+    return undefined;
+  }
+
+  switch (index) {
+    case "heatIndex":
+      return hasMetric(metrics, "humidity")
+        ? heatIndex(metrics.temperature, metrics.humidity)
+        : undefined;
+    case "humidex": {
+      const dewPoint = dewPointOf(metrics);
+      return dewPoint === undefined ? undefined : humidex(metrics.temperature, dewPoint);
+    }
+    case "windChill":
+      return hasMetric(metrics, "windSpeed")
+        ? windChill(metrics.temperature, metrics.windSpeed)
+        : undefined;
+    case "wbgt":
+      return hasMetric(metrics, "humidity")
+        ? wetBulbGlobeTemperature(metrics.temperature, metrics.humidity)
+        : undefined;
+  }
+}
+
+/**
+ * Calculate the indices for an aggregated hour from its consensus metrics,
+ * with confidence from the same indices computed per model. Undefined when
+ * temperature, humidity or wind is missing from the consensus.
+ */
+export function calculateHourlyIndices(
+  metrics: WeatherMetrics,
+  models: readonly WeatherMetrics[]
+): HourlyIndices | undefined {
+  const values = HOURLY_INDEX_NAMES.map((name) => {
+    const value = calculateHourlyIndex(metrics, name);
+    return value === undefined
+      ? undefined
+      : indexValue(
+          value,
+          modelValuesOf(models, (model) => calculateHourlyIndex(model, name)),
+          SPREAD_THRESHOLDS.temperature
+        );
+  });
+  const dewPoint = dewPointOf(metrics);
+
+  const [heatIndexValue, humidexValue, windChillValue, wbgtValue] = values;
+  if (!heatIndexValue || !humidexValue || !windChillValue || !wbgtValue || dewPoint === undefined) {
+    return undefined;
+  }
+
+  const dewPoints = modelValuesOf(models, dewPointOf);
+  const comfort: ComfortIndex = {
+    class: classifyDewPoint(dewPoint),
+    dewPoint: round1(dewPoint),
+    confidence: spreadConfidence(
+      dewPoints.length > 0 ? dewPoints : [dewPoint],
+      SPREAD_THRESHOLDS.temperature
+    ),
+  };
+
+  return {
+    heatIndex: heatIndexValue,
+    humidex: humidexValue,
+    windChill: windChillValue,
+    wbgt: wbgtValue,
+    comfort,
+  };
+}
+
+/**
+ * Most extreme hourly indices of a day: the highest heat indices and dew
+ * point, and the lowest wind chill
+ */
+function calculateDailyPeaks(hours: readonly HourlyIndices[]): HourlyIndices | undefined {
+  if (hours.length === 0) {
+    return undefined;
+  }
+
+  const highest = <T>(values: readonly T[], of: (value: T) => number): T =>
+    values.reduce((best, value) => (of(value) > of(best) ? value : best));
+
+  return {
+    heatIndex: highest(hours, (h) => h.heatIndex.value).heatIndex,
+    humidex: highest(hours, (h) => h.humidex.value).humidex,
+    windChill: highest(hours, (h) => -h.windChill.value).windChill,
+    wbgt: highest(hours, (h) => h.wbgt.value).wbgt,
+    comfort: highest(hours, (h) => h.comfort.dewPoint).comfort,
+  };
+}
+
+/**
+ * Reference evapotranspiration for a daily forecast, or undefined when its
+ * humidity or wind is missing
+ */
+function evapotranspirationOf(daily: DailyForecast, latitude: number): number | undefined {
+  if (
+    !hasDailyMetric(daily, "temperatureMax") ||
+    !hasDailyMetric(daily, "temperatureMin") ||
+    !hasDailyMetric(daily, "humidity") ||
+    !hasDailyMetric(daily, "windSpeed")
+  ) {
+    return undefined;
+  }
+
+  return referenceEvapotranspiration({
+    date: daily.date,
+    latitude,
+    temperatureMax: daily.temperature.max,
+    temperatureMin: daily.temperature.min,
+    humidityMax: daily.humidity.max,
+    humidityMin: daily.humidity.min,
+    windSpeed: daily.wind.avgSpeed,
+    ...(hasDailyMetric(daily, "pressure") && {
+      pressure: (daily.pressure.min + daily.pressure.max) / 2,
+    }),
+    ...(daily.shortwaveRadiation && { shortwaveRadiation: daily.shortwaveRadiation.total }),
+  });
+}
+
+/**
+ * Calculate the indices for an aggregated day from its consensus forecast,
+ * with confidence from the same indices computed per model
+ *
+ * @param forecast - Consensus daily forecast
+ * @param models - Each model's forecast for the day
+ * @param latitude - Latitude of the location in degrees
+ * @param hours - Indices of the day's aggregated hours, for the daily peaks
+ */
+export function calculateDailyIndices(
+  forecast: DailyForecast,
+  models: readonly DailyForecast[],
+  latitude: number,
+  hours: readonly HourlyIndices[] = []
+): DailyIndices {
+  const minTemperature = forecast.temperature.min;
+  const modelMins = modelValuesOf(models, (model) =>
+    hasDailyMetric(model, "temperatureMin") ? model.temperature.min : undefined
+  );
+  const mins = modelMins.length > 0 ? modelMins : [minTemperature];
+  const frostRisk: FrostRiskIndex = {
+    risk: classifyFrostRisk(minTemperature),
+    minTemperature: round1(minTemperature),
+    probability: Math.round(
+      (mins.filter((min) => min <= FROST_TEMPERATURE).length / mins.length) * 100
+    ),
+    confidence: spreadConfidence(mins, SPREAD_THRESHOLDS.temperature),
+  };
+
+  const growing = indexValue(
+    growingDegreeDays(forecast.temperature.max, minTemperature),
+    modelValuesOf(models, (model) =>
+      hasDailyMetric(model, "temperatureMax") && hasDailyMetric(model, "temperatureMin")
+        ? growingDegreeDays(model.temperature.max, model.temperature.min)
+        : undefined
+    ),
+    SPREAD_THRESHOLDS.temperature
+  );
+
+  const evapotranspiration = evapotranspirationOf(forecast, latitude);
+  const peaks = calculateDailyPeaks(hours);
+
+  return {
+    ...(peaks && { peaks }),
+    frostRisk,
+    growingDegreeDays: growing,
+    ...(evapotranspiration !== undefined && {
+      referenceEvapotranspiration: indexValue(
+        evapotranspiration,
+        modelValuesOf(models, (model) => evapotranspirationOf(model, latitude)),
+        SPREAD_THRESHOLDS.evapotranspiration
+      ),
+    }),
+  };
+}
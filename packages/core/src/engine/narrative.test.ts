@@ -19,11 +19,15 @@ import {
   formatModelList,
   formatTemperature,
   formatPrecipitation,
+  formatTemperatureAnomaly,
+  formatMonthName,
   formatRelativeDay,
   formatTimePeriod,
   fillTemplate,
 } from "./templates";
 import { aggregateForecasts } from "./aggregator";
+import { applyClimateNormals } from "../climatology/normals";
+import type { ClimateNormals } from "../climatology/types";
 import { calculateConfidence, type ConfidenceResult } from "./confidence";
 import type {
   ModelForecast,
@@ -321,6 +325,20 @@ describe("templates", () => {
     });
   });
 
+  describe("formatTemperatureAnomaly", () => {
+    it("should sign departures from normal", () => {
+      expect(formatTemperatureAnomaly(4.23)).toBe("+4.2\u00B0C vs normal");
+      expect(formatTemperatureAnomaly(-3)).toBe("-3.0\u00B0C vs normal");
+    });
+  });
+
+  describe("formatMonthName", () => {
+    it("should name months", () => {
+      expect(formatMonthName(1)).toBe("January");
+      expect(formatMonthName(10)).toBe("October");
+    });
+  });
+
   describe("formatRelativeDay", () => {
     it("should format today correctly", () => {
       const today = new Date();
@@ -669,6 +687,55 @@ describe("generateNarrative", () => {
       // Model notes may or may not be populated depending on z-score calculation
       expect(narrative.modelNotes).toBeDefined();
     });
+
+    it("should note when models split on conditions", () => {
+      const forecasts: ModelForecast[] = [
+        createMockModelForecast("gfs", [{}], [{ weatherCode: 61 }]),
+        createMockModelForecast("ecmwf", [{}], [{ weatherCode: 61 }]),
+        createMockModelForecast("icon", [{}], [{ weatherCode: 3 }]),
+        createMockModelForecast("ukmo", [{}], [{ weatherCode: 71 }]),
+      ];
+
+      const narrative = generateNarrative(aggregateForecasts(forecasts), []);
+
+      expect(
+        narrative.modelNotes.some((note) =>
+          note.endsWith(": 2/4 models rain, 1 snow, 1 cloudy.")
+        )
+      ).toBe(true);
+    });
+
+    it("should not note conditions most models agree on", () => {
+      const forecasts: ModelForecast[] = [
+        createMockModelForecast("gfs", [{}], [{ weatherCode: 61 }]),
+        createMockModelForecast("ecmwf", [{}], [{ weatherCode: 63 }]),
+        createMockModelForecast("icon", [{}], [{ weatherCode: 3 }]),
+      ];
+
+      const narrative = generateNarrative(aggregateForecasts(forecasts), []);
+
+      expect(narrative.modelNotes.some((note) => note.includes("split"))).toBe(false);
+    });
+
+    it("should note models the aggregation policy dropped", () => {
+      const forecasts: ModelForecast[] = [
+        createMockModelForecast("gfs", [{ temperature: 15 }]),
+        createMockModelForecast("ecmwf", [{ temperature: 15 }]),
+        createMockModelForecast("icon", [{ temperature: 15 }]),
+        createMockModelForecast("ukmo", [{ temperature: 15 }]),
+        createMockModelForecast("gem", [{ temperature: 15 }]),
+        createMockModelForecast("jma", [{ temperature: 35 }]),
+      ];
+
+      const aggregated = aggregateForecasts(forecasts, {
+        policy: { temperature: "exclude-outliers" },
+      });
+      const narrative = generateNarrative(aggregated, []);
+
+      expect(narrative.modelNotes).toContain(
+        "JMA dropped from temperature for 1 hour as an outlier (z-score up to 4.8)."
+      );
+    });
   });
 
   describe("edge cases", () => {
@@ -831,6 +898,71 @@ describe("generateNarrative", () => {
   });
 });
 
+describe("climate anomalies in narratives", () => {
+  /**
+   * Normals of 8°C/2°C and 3mm for January 15th-21st, with a wettest
+   * January week of 20mm in each of 2014-2023
+   */
+  const normals: ClimateNormals = {
+    coordinates: createMockCoordinates(),
+    period: { startYear: 1994, endYear: 2023 },
+    days: Array.from({ length: 7 }, (_, i) => ({
+      day: `01-${15 + i}`,
+      temperatureMax: 8,
+      temperatureMin: 2,
+      precipitation: 3,
+    })),
+    wettestWeeks: Array.from({ length: 10 }, (_, i) => ({
+      year: 2014 + i,
+      month: 1,
+      precipitation: 20,
+    })),
+  };
+
+  /**
+   * Narrative for a week of identical days compared against the normals
+   */
+  function narrativeFor(day: { tempMax: number; precipTotal: number }): string {
+    const week = Array.from({ length: 7 }, () => day);
+    const aggregated = applyClimateNormals(
+      aggregateForecasts([
+        createMockModelForecast("gfs", [{}], week),
+        createMockModelForecast("ecmwf", [{}], week),
+      ]),
+      normals
+    );
+    return generateNarrative(aggregated, [calculateConfidence(aggregated, "overall")]).body;
+  }
+
+  it("should describe unusually warm highs", () => {
+    const body = narrativeFor({ tempMax: 18, precipTotal: 2 });
+
+    expect(body).toContain("Highs average +10.0\u00B0C vs normal across the period.");
+    expect(body).toContain("stands out at 18\u00B0C, +10.0\u00B0C vs normal.");
+  });
+
+  it("should call out a record wet week", () => {
+    const body = narrativeFor({ tempMax: 8, precipTotal: 10 });
+
+    expect(body).toContain("On course for the wettest week for January in 10 years (70mm).");
+    expect(body).not.toContain("Highs average");
+  });
+
+  it("should call out a dry week", () => {
+    expect(narrativeFor({ tempMax: 8, precipTotal: 0 })).toContain(
+      "Drier than normal: trace amounts expected against a normal 21mm."
+    );
+  });
+
+  it("should say nothing about the climate without normals", () => {
+    const aggregated = aggregateForecasts([createMockModelForecast("gfs", [{}], [{}])]);
+    const narrative = generateNarrative(aggregated, []);
+
+    expect(narrative.body).not.toContain("vs normal");
+    expect(narrative.body).not.toContain("than normal");
+  });
+});
+
 // ============================================================================
 // Integration Tests
 // ============================================================================
@@ -9,7 +9,16 @@ import type {
   ModelName,
   ConfidenceLevelName,
 } from "../types/models";
+import type { WeatherAlert } from "../types/alerts";
+import {
+  PRECIPITATION_TYPES,
+  type PrecipitationType,
+  type PrecipitationTypeForecast,
+} from "../types/precipitation";
 import type { ConfidenceResult } from "./confidence";
+import { formatConditionDistribution } from "./conditions";
+import { formatAggregationExclusions } from "./aggregation-policy";
+import { PRECIPITATION_TYPE_THRESHOLD } from "./precipitation-type";
 import {
   weatherCodeToCondition,
   conditionToDescription,
@@ -19,7 +28,11 @@ import {
   formatModelList,
   formatTemperature,
   formatPrecipitation,
+  formatTemperatureAnomaly,
+  formatMonthName,
+  formatPrecipitationType,
   formatRelativeDay,
+  createLocalTimeFormatter,
   fillTemplate,
   selectTemplate,
   AGREEMENT_TEMPLATES,
@@ -61,6 +74,16 @@ export interface NarrativeSummary {
   readonly modelNotes: readonly string[];
 }
 
+/**
+ * Options for generating a narrative
+ */
+export interface NarrativeOptions {
+  /**
+   * IANA timezone for times in the narrative (default: UTC)
+   */
+  timezone?: string;
+}
+
 /**
  * Narrative type classification
  */
@@ -71,11 +94,63 @@ export type NarrativeType = "agreement" | "disagreement" | "transition";
  */
 const OUTLIER_CALLOUT_THRESHOLD = 2.0;
 
+/**
+ * Model weight share below which the leading condition is called out as a split
+ */
+const CONDITION_SPLIT_THRESHOLD = 0.6;
+
 /**
  * Days ahead threshold for uncertainty warning
  */
 const UNCERTAINTY_DAYS_THRESHOLD = 5;
 
+/**
+ * Mean departure of daily highs from normal (°C) worth a sentence
+ */
+const TEMPERATURE_ANOMALY_THRESHOLD = 2.0;
+
+/**
+ * Departure of a single day's high from normal (°C) worth calling out
+ */
+const DAY_ANOMALY_CALLOUT_THRESHOLD = 5.0;
+
+/**
+ * Hours between precipitating hours that still count as one spell
+ */
+const PRECIPITATION_SPELL_GAP_HOURS = 3;
+
+/**
+ * Most precipitation type changes described in the body
+ */
+const MAX_PRECIPITATION_TYPE_CHANGES = 2;
+
+/**
+ * Chance (%) of a precipitating hour's type below which the models are
+ * called out as split
+ */
+const PRECIPITATION_TYPE_SPLIT_THRESHOLD = 60;
+
+/**
+ * Winter alerts: the chance (%) of a precipitation type in a precipitating
+ * hour worth an alert, and the alert's template
+ */
+const WINTER_ALERTS: readonly {
+  readonly type: PrecipitationType;
+  readonly threshold: number;
+  readonly template: string;
+}[] = [
+  {
+    type: "freezingRain",
+    threshold: 30,
+    template: "Freezing rain possible from {time} (up to {probability}% chance) - watch for ice.",
+  },
+  {
+    type: "snow",
+    threshold: 50,
+    template: "Snow likely from {time} (up to {probability}% chance).",
+  },
+];
+
 /**
  * Classify the narrative type based on aggregated data
  */
@@ -412,6 +487,119 @@ function generateBody(
   return sentences.join(" ");
 }
 
+/**
+ * Describe how the forecast compares with the climate, when normals were
+ * applied: unusually warm or cold highs, and unusually wet or dry weeks
+ */
+function generateClimateSentences(aggregated: AggregatedForecast): string[] {
+  const days = aggregated.consensus.daily.flatMap((day) =>
+    day.anomaly ? [{ day, anomaly: day.anomaly }] : []
+  );
+  if (days.length === 0) {
+    return [];
+  }
+
+  const sentences: string[] = [];
+
+  // Days whose high or precipitation is not forecast have no anomaly for it
+  const highs = days.flatMap(({ day, anomaly }) =>
+    anomaly.temperatureMax !== undefined ? [{ day, delta: anomaly.temperatureMax }] : []
+  );
+  if (highs.length > 0) {
+    const meanHigh = highs.reduce((sum, h) => sum + h.delta, 0) / highs.length;
+    if (Math.abs(meanHigh) >= TEMPERATURE_ANOMALY_THRESHOLD) {
+      sentences.push(`Highs average ${formatTemperatureAnomaly(meanHigh)} across the period.`);
+    }
+
+    const peak = highs.reduce((a, b) => (Math.abs(b.delta) > Math.abs(a.delta) ? b : a));
+    if (Math.abs(peak.delta) >= DAY_ANOMALY_CALLOUT_THRESHOLD) {
+      const dayName = formatRelativeDay(peak.day.date);
+      sentences.push(
+        `${dayName.charAt(0).toUpperCase() + dayName.slice(1)} stands out at ${formatTemperature(peak.day.forecast.temperature.max)}, ${formatTemperatureAnomaly(peak.delta)}.`
+      );
+    }
+  }
+
+  const wettestWeek = aggregated.climatology?.wettestWeek;
+  const wetDays = days.filter((d) => d.anomaly.precipitation !== undefined);
+  const expected = wetDays.reduce((sum, d) => sum + d.day.forecast.precipitation.total, 0);
+  const normal = wetDays.reduce((sum, d) => sum + d.anomaly.normal.precipitation, 0);
+  if (wettestWeek) {
+    sentences.push(
+      `On course for the wettest week for ${formatMonthName(wettestWeek.month)} in ${wettestWeek.years} years (${formatPrecipitation(wettestWeek.precipitation)}).`
+    );
+  } else if (normal >= 5 && expected <= normal * 0.25) {
+    sentences.push(
+      `Drier than normal: ${formatPrecipitation(expected)} expected against a normal ${formatPrecipitation(normal)}.`
+    );
+  } else if (expected >= normal * 2 && expected - normal >= 10) {
+    sentences.push(
+      `Wetter than normal: ${formatPrecipitation(expected)} expected against a normal ${formatPrecipitation(normal)}.`
+    );
+  }
+
+  return sentences;
+}
+
+/**
+ * Precipitating hours with a precipitation type, in time order
+ */
+function precipitatingHours(
+  aggregated: AggregatedForecast
+): { time: number; precipitationType: PrecipitationTypeForecast }[] {
+  return aggregated.consensus.hourly
+    .flatMap((hour) =>
+      hour.precipitationType && hour.metrics.precipitation >= PRECIPITATION_TYPE_THRESHOLD
+        ? [{ time: toDate(hour.timestamp).getTime(), precipitationType: hour.precipitationType }]
+        : []
+    )
+    .sort((a, b) => a.time - b.time);
+}
+
+/**
+ * Describe precipitation changing type within a spell, e.g. "Rain turning
+ * to snow after Tue 18:00.", and the first hour the models split on its type
+ */
+function generatePrecipitationTypeSentences(
+  aggregated: AggregatedForecast,
+  formatTime: (time: number) => string
+): string[] {
+  const hours = precipitatingHours(aggregated);
+  const sentences: string[] = [];
+
+  for (let i = 1; i < hours.length && sentences.length < MAX_PRECIPITATION_TYPE_CHANGES; i++) {
+    const from = hours[i - 1];
+    const to = hours[i];
+    if (
+      to.time - from.time <= PRECIPITATION_SPELL_GAP_HOURS * 60 * 60 * 1000 &&
+      to.precipitationType.type !== from.precipitationType.type
+    ) {
+      const fromType = formatPrecipitationType(from.precipitationType.type);
+      sentences.push(
+        `${fromType.charAt(0).toUpperCase() + fromType.slice(1)} turning to ${formatPrecipitationType(to.precipitationType.type)} after ${formatTime(to.time)}.`
+      );
+    }
+  }
+
+  const split = hours.find(
+    (hour) =>
+      hour.precipitationType.probabilities[hour.precipitationType.type] <
+      PRECIPITATION_TYPE_SPLIT_THRESHOLD
+  );
+  if (split) {
+    const { probabilities } = split.precipitationType;
+    const leading = PRECIPITATION_TYPES.filter((type) => probabilities[type] > 0)
+      .sort((a, b) => probabilities[b] - probabilities[a])
+      .slice(0, 2)
+      .map((type) => `${probabilities[type]}% ${formatPrecipitationType(type)}`);
+    sentences.push(
+      `Models split on precipitation type around ${formatTime(split.time)}: ${leading.join(", ")}.`
+    );
+  }
+
+  return sentences;
+}
+
 /**
  * Get average confidence level from results
  */
@@ -473,6 +661,30 @@ function generateAlerts(
   return alerts;
 }
 
+/**
+ * Generate alerts for freezing rain and snow, from the first precipitating
+ * hour likely to bring them
+ */
+function generateWinterAlerts(
+  aggregated: AggregatedForecast,
+  formatTime: (time: number) => string
+): string[] {
+  const hours = precipitatingHours(aggregated);
+
+  return WINTER_ALERTS.flatMap(({ type, threshold, template }) => {
+    const matching = hours.filter(
+      (hour) => hour.precipitationType.probabilities[type] >= threshold
+    );
+    if (matching.length === 0) {
+      return [];
+    }
+    const peak = Math.max(...matching.map((hour) => hour.precipitationType.probabilities[type]));
+    return [
+      fillTemplate(template, { time: formatTime(matching[0].time), probability: String(peak) }),
+    ];
+  });
+}
+
 /**
  * Generate model-specific notes for outliers
  */
@@ -513,6 +725,24 @@ function generateModelNotes(
     }
   }
 
+  // Call out the first day where no condition has a clear majority
+  const splitDay = aggregated.consensus.daily.find(
+    (day) =>
+      day.conditions !== undefined &&
+      day.conditions.distribution.length > 1 &&
+      day.conditions.distribution[0].weight < CONDITION_SPLIT_THRESHOLD
+  );
+  if (splitDay?.conditions) {
+    notes.push(
+      `Models split on conditions ${formatRelativeDay(splitDay.date)}: ${formatConditionDistribution(splitDay.conditions)}.`
+    );
+  }
+
+  // Models the aggregation policy dropped as outliers
+  for (const line of formatAggregationExclusions(aggregated.aggregation?.exclusions ?? [])) {
+    notes.push(`${line}.`);
+  }
+
   return notes;
 }
 
@@ -521,6 +751,8 @@ function generateModelNotes(
  *
  * @param aggregated - The aggregated forecast from multiple models
  * @param confidence - Array of confidence results for the forecast periods
+ * @param weatherAlerts - Alerts from user-defined rules, listed after the built-in alerts
+ * @param options - Timezone for times in the body and alerts
  * @returns NarrativeSummary with headline, body, alerts, and model notes
  *
  * @example
@@ -538,7 +770,9 @@ function generateModelNotes(
  */
 export function generateNarrative(
   aggregated: AggregatedForecast,
-  confidence: readonly ConfidenceResult[]
+  confidence: readonly ConfidenceResult[],
+  weatherAlerts: readonly WeatherAlert[] = [],
+  options: NarrativeOptions = {}
 ): NarrativeSummary {
   // Handle empty forecast
   if (aggregated.consensus.daily.length === 0) {
@@ -572,8 +806,19 @@ export function generateNarrative(
   }
 
   // Generate body, alerts, and model notes
-  const body = generateBody(aggregated, confidence, narrativeType);
-  const alerts = generateAlerts(aggregated, confidence);
+  const formatTime = createLocalTimeFormatter(options.timezone);
+  const body = [
+    generateBody(aggregated, confidence, narrativeType),
+    ...generatePrecipitationTypeSentences(aggregated, formatTime),
+    ...generateClimateSentences(aggregated),
+  ]
+    .filter((text) => text.length > 0)
+    .join(" ");
+  const alerts = [
+    ...generateAlerts(aggregated, confidence),
+    ...generateWinterAlerts(aggregated, formatTime),
+    ...weatherAlerts.map((alert) => alert.message),
+  ];
   const modelNotes = generateModelNotes(aggregated);
 
   return {
@@ -0,0 +1,242 @@
+/**
+ * Tests for precipitation type classification.
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  wetBulbFromDewPoint,
+  weatherCodeToPrecipitationType,
+  classifyPrecipitationType,
+  calculatePrecipitationType,
+} from "./precipitation-type";
+import { aggregateForecasts } from "./aggregator";
+import { evaluateAlertRules } from "./alerts";
+import { calculateConfidence } from "./confidence";
+import { generateNarrative } from "./narrative";
+import { buildDailyForecasts } from "../api/providers/derive";
+import { alertRuleSchema } from "../config/schema";
+import type { ModelForecast, ModelName } from "../types/models";
+import type { HourlyForecast, WeatherMetrics } from "../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { latitude, longitude, elevation } from "../types/location";
+
+const BASE_TIME = new Date("2024-01-15T00:00:00Z").getTime();
+const HOUR_MS = 3600000;
+
+interface HourValues {
+  temperature: number;
+  dewPoint?: number;
+  precipitation?: number;
+  weatherCode?: number;
+  freezingLevelHeight?: number;
+}
+
+/**
+ * Create hourly metrics; the dew point defaults to the temperature and
+ * precipitation to 1mm
+ */
+function createMetrics(values: HourValues): WeatherMetrics {
+  return {
+    temperature: celsius(values.temperature),
+    feelsLike: celsius(values.temperature),
+    humidity: humidity(90),
+    pressure: pressure(1005),
+    windSpeed: metersPerSecond(4),
+    windDirection: windDirection(270),
+    precipitation: millimeters(values.precipitation ?? 1),
+    precipitationProbability: 80,
+    cloudCover: cloudCover(100),
+    visibility: visibility(5000),
+    uvIndex: uvIndex(0),
+    weatherCode: weatherCode(values.weatherCode ?? 3),
+    dewPoint: celsius(values.dewPoint ?? values.temperature),
+    freezingLevelHeight: values.freezingLevelHeight,
+  };
+}
+
+/**
+ * Create a model forecast from per-hour values starting at BASE_TIME
+ */
+function createForecast(model: ModelName, hours: HourValues[]): ModelForecast {
+  const hourly: HourlyForecast[] = hours.map((values, index) => ({
+    timestamp: new Date(BASE_TIME + index * HOUR_MS),
+    metrics: createMetrics(values),
+  }));
+
+  return {
+    model,
+    coordinates: { latitude: latitude(45.5), longitude: longitude(-73.6) },
+    generatedAt: new Date(BASE_TIME),
+    validFrom: hourly[0].timestamp,
+    validTo: hourly[hourly.length - 1].timestamp,
+    hourly,
+    daily: buildDailyForecasts(hourly),
+  };
+}
+
+describe("classifyPrecipitationType", () => {
+  it("should read precipitation types from weather codes", () => {
+    expect(wetBulbFromDewPoint(3, 0)).toBe(2);
+    expect(weatherCodeToPrecipitationType(73, 1)).toBe("snow");
+    expect(weatherCodeToPrecipitationType(61, 2)).toBe("rain");
+    expect(weatherCodeToPrecipitationType(61, -1)).toBe("freezingRain");
+    expect(weatherCodeToPrecipitationType(66, 1)).toBe("freezingRain");
+    expect(weatherCodeToPrecipitationType(3, 1)).toBeUndefined();
+  });
+
+  it("should classify by wet-bulb temperature, with sleet in between", () => {
+    expect(classifyPrecipitationType(createMetrics({ temperature: -3, dewPoint: -4 }))).toEqual({
+      rain: 0,
+      snow: 100,
+      sleet: 0,
+      freezingRain: 0,
+    });
+    expect(classifyPrecipitationType(createMetrics({ temperature: 6 }))?.rain).toBe(100);
+    // Wet bulb of 0.7°C: just over half falls frozen
+    expect(classifyPrecipitationType(createMetrics({ temperature: 1, dewPoint: 0 }))).toEqual({
+      rain: 23,
+      snow: 30,
+      sleet: 47,
+      freezingRain: 0,
+    });
+  });
+
+  it("should melt snow in a warm layer over a sub-zero surface", () => {
+    expect(
+      classifyPrecipitationType(createMetrics({ temperature: -1, freezingLevelHeight: 2000 }))
+        ?.freezingRain
+    ).toBe(100);
+    expect(
+      classifyPrecipitationType(createMetrics({ temperature: -1, freezingLevelHeight: 1000 }))
+    ).toEqual({ rain: 0, snow: 0, sleet: 50, freezingRain: 50 });
+  });
+
+  it("should measure the freezing level from the ground at elevated sites", () => {
+    const metrics = createMetrics({ temperature: -2, freezingLevelHeight: 1600 });
+
+    // A freezing level 1600m above the sea is at the ground of a 1600m site
+    expect(classifyPrecipitationType(metrics)?.freezingRain).toBe(100);
+    expect(classifyPrecipitationType(metrics, 1600)).toEqual({
+      rain: 0,
+      snow: 100,
+      sleet: 0,
+      freezingRain: 0,
+    });
+  });
+
+  it("should blend the model's weather code with its temperatures", () => {
+    expect(classifyPrecipitationType(createMetrics({ temperature: 1.5, weatherCode: 73 }))).toEqual(
+      { rain: 35, snow: 55, sleet: 10, freezingRain: 0 }
+    );
+  });
+
+  it("should skip hours without precipitation", () => {
+    const dry = createMetrics({ temperature: 0, precipitation: 0 });
+    expect(classifyPrecipitationType(dry)).toBeUndefined();
+  });
+});
+
+describe("calculatePrecipitationType", () => {
+  it("should weight the models forecasting precipitation", () => {
+    const result = calculatePrecipitationType(
+      [
+        { model: "ecmwf", metrics: createMetrics({ temperature: -3, dewPoint: -4 }) },
+        { model: "gfs", metrics: createMetrics({ temperature: 6 }) },
+        { model: "icon", metrics: createMetrics({ temperature: 6, precipitation: 0 }) },
+      ],
+      [3, 1, 1]
+    );
+
+    expect(result).toEqual({
+      type: "snow",
+      probabilities: { rain: 25, snow: 75, sleet: 0, freezingRain: 0 },
+      models: ["ecmwf", "gfs"],
+    });
+  });
+
+  it("should be undefined when no model forecasts precipitation", () => {
+    expect(
+      calculatePrecipitationType([
+        { model: "ecmwf", metrics: createMetrics({ temperature: 2, precipitation: 0 }) },
+      ])
+    ).toBeUndefined();
+  });
+
+  it("should use each model's elevation, falling back to the site's", () => {
+    const mountain: HourValues = { temperature: -2, freezingLevelHeight: 1600 };
+    const reported = aggregateForecasts([
+      { ...createForecast("ecmwf", [mountain]), elevation: elevation(1600) },
+    ]);
+    const site = aggregateForecasts([createForecast("gfs", [mountain])], {
+      elevation: elevation(1600),
+    });
+    const seaLevel = aggregateForecasts([createForecast("gfs", [mountain])]);
+    const rule = alertRuleSchema.parse({
+      name: "Ice",
+      metric: "freezingRainProbability",
+      operator: ">=",
+      threshold: 50,
+    });
+
+    expect(reported.elevation).toBe(elevation(1600));
+    expect(reported.consensus.hourly[0].precipitationType?.type).toBe("snow");
+    expect(site.consensus.hourly[0].precipitationType?.type).toBe("snow");
+    expect(evaluateAlertRules(site, [rule])).toEqual([]);
+    expect(evaluateAlertRules(seaLevel, [rule])).toHaveLength(1);
+  });
+});
+
+describe("precipitation type narratives", () => {
+  const rain: HourValues = { temperature: 4, dewPoint: 3, weatherCode: 61 };
+  const snow: HourValues = { temperature: -2, dewPoint: -3, weatherCode: 73 };
+
+  it("should describe rain turning to snow and alert on snow", () => {
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [rain, rain, snow, snow]),
+      createForecast("gfs", [rain, rain, snow, snow]),
+    ]);
+    const hours = aggregated.consensus.hourly;
+
+    expect(hours.map((h) => h.precipitationType?.type)).toEqual(["rain", "rain", "snow", "snow"]);
+
+    const narrative = generateNarrative(
+      aggregated,
+      [calculateConfidence(aggregated, "overall", 0)],
+      [],
+      { timezone: "America/Toronto" }
+    );
+
+    expect(narrative.body).toContain("Rain turning to snow after Sun 21:00.");
+    expect(narrative.alerts).toContain("Snow likely from Sun 21:00 (up to 100% chance).");
+  });
+
+  it("should call out models splitting on type and alert on freezing rain", () => {
+    const freezingRain: HourValues = { temperature: -1, freezingLevelHeight: 2000 };
+    const aggregated = aggregateForecasts([
+      createForecast("ecmwf", [freezingRain, snow]),
+      createForecast("gfs", [freezingRain, rain]),
+    ]);
+
+    const narrative = generateNarrative(aggregated, [
+      calculateConfidence(aggregated, "overall", 0),
+    ]);
+
+    expect(narrative.body).toContain(
+      "Models split on precipitation type around Mon 01:00: 50% rain, 50% snow."
+    );
+    expect(narrative.alerts).toContain(
+      "Freezing rain possible from Mon 00:00 (up to 100% chance) - watch for ice."
+    );
+  });
+});
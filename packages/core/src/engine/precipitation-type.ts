@@ -0,0 +1,250 @@
+/**
+ * Precipitation type classification for Weather Oracle.
+ * Models often disagree on whether precipitation near 0°C falls as rain or
+ * snow. Each model's hour is classified from its surface temperature, wet-bulb
+ * temperature (from the dew point), freezing level and weather code, and the
+ * models' classifications are combined into the chance of rain, snow, sleet
+ * and freezing rain.
+ */
+
+import type { ModelName } from "../types/models";
+import { hasMetric, type WeatherMetrics } from "../types/weather";
+import {
+  PRECIPITATION_TYPES,
+  type PrecipitationType,
+  type PrecipitationTypeForecast,
+  type PrecipitationTypeProbabilities,
+} from "../types/precipitation";
+import { dewPointFromHumidity } from "./indices";
+
+/**
+ * Hourly precipitation (mm) at or above which a model counts as precipitating
+ */
+export const PRECIPITATION_TYPE_THRESHOLD = 0.1;
+
+/**
+ * Wet-bulb temperatures (°C) at or below which precipitation falls as snow
+ * and at or above which it falls as rain; sleet is likeliest between them
+ */
+export const PRECIPITATION_TYPE_WET_BULB = { snow: -0.5, rain: 2 } as const;
+
+/**
+ * Freezing level heights (m above the ground) over a sub-zero surface above
+ * which a warm layer aloft melts snow: shallow layers give sleet, deep
+ * layers freezing rain
+ */
+export const WARM_LAYER_HEIGHTS = { sleet: 500, freezingRain: 1500 } as const;
+
+/**
+ * Share of a model's classification taken from its weather code; the rest
+ * comes from its temperatures
+ */
+const WEATHER_CODE_WEIGHT = 0.5;
+
+/**
+ * Fraction (0-1) of each precipitation type
+ */
+type TypeShares = Record<PrecipitationType, number>;
+
+/**
+ * Build shares by computing each type's value
+ */
+function typeShares(valueOf: (type: PrecipitationType) => number): TypeShares {
+  return {
+    rain: valueOf("rain"),
+    snow: valueOf("snow"),
+    sleet: valueOf("sleet"),
+    freezingRain: valueOf("freezingRain"),
+  };
+}
+
+/**
+ * Convert shares to whole percentages
+ */
+function toProbabilities(shares: TypeShares): PrecipitationTypeProbabilities {
+  return typeShares((type) => Math.round(shares[type] * 100));
+}
+
+/**
+ * Clamp a value to 0-1
+ */
+function clamp01(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+/**
+ * Approximate wet-bulb temperature from temperature and dew point (°C),
+ * using the forecasters' one-third rule
+ */
+export function wetBulbFromDewPoint(temperature: number, dewPoint: number): number {
+  return temperature - (temperature - dewPoint) / 3;
+}
+
+/**
+ * Precipitation type a WMO weather code reports, or undefined for codes
+ * without precipitation. Rain codes over a sub-zero surface count as
+ * freezing rain.
+ */
+export function weatherCodeToPrecipitationType(
+  code: number,
+  temperature: number
+): PrecipitationType | undefined {
+  if (code === 56 || code === 57 || code === 66 || code === 67) {
+    return "freezingRain";
+  }
+  if ((code >= 71 && code <= 77) || code === 85 || code === 86) {
+    return "snow";
+  }
+  if (
+    (code >= 51 && code <= 55) ||
+    (code >= 61 && code <= 65) ||
+    (code >= 80 && code <= 82) ||
+    code >= 95
+  ) {
+    return temperature <= 0 ? "freezingRain" : "rain";
+  }
+  return undefined;
+}
+
+/**
+ * Shares from temperatures alone. Over a sub-zero surface with a warm layer
+ * aloft, snow melts and refreezes as sleet or freezing rain depending on the
+ * layer's depth; otherwise the wet-bulb temperature sets how much falls
+ * frozen, with sleet peaking halfway between snow and rain.
+ */
+function thermalShares(
+  temperature: number,
+  wetBulb: number,
+  freezingLevelAboveGround: number | undefined
+): TypeShares {
+  if (
+    temperature <= 0 &&
+    freezingLevelAboveGround !== undefined &&
+    freezingLevelAboveGround > WARM_LAYER_HEIGHTS.sleet
+  ) {
+    const melted = clamp01(
+      (freezingLevelAboveGround - WARM_LAYER_HEIGHTS.sleet) /
+        (WARM_LAYER_HEIGHTS.freezingRain - WARM_LAYER_HEIGHTS.sleet)
+    );
+    return { rain: 0, snow: 0, sleet: 1 - melted, freezingRain: melted };
+  }
+
+  const { snow, rain } = PRECIPITATION_TYPE_WET_BULB;
+  const frozen = clamp01((rain - wetBulb) / (rain - snow));
+  const sleet = 0.5 * (1 - Math.abs(2 * frozen - 1));
+  return { rain: 1 - frozen - sleet / 2, snow: frozen - sleet / 2, sleet, freezingRain: 0 };
+}
+
+/**
+ * Shares for one model's hour, or undefined when the model forecasts no
+ * precipitation or no temperature. The freezing level height is above sea
+ * level, so it is measured from the ground at the given elevation (m).
+ */
+function classifyShares(metrics: WeatherMetrics, elevation: number): TypeShares | undefined {
+  if (!hasMetric(metrics, "temperature")) {
+    return undefined;
+  }
+
+  const codeType = hasMetric(metrics, "weatherCode")
+    ? weatherCodeToPrecipitationType(metrics.weatherCode, metrics.temperature)
+    : undefined;
+  const precipitating =
+    codeType !== undefined ||
+    (hasMetric(metrics, "precipitation") && metrics.precipitation >= PRECIPITATION_TYPE_THRESHOLD);
+  if (!precipitating) {
+    return undefined;
+  }
+
+  // Without a dew point or humidity, assume saturated air while precipitating
+  const dewPoint =
+    metrics.dewPoint ??
+    (hasMetric(metrics, "humidity")
+      ? dewPointFromHumidity(metrics.temperature, metrics.humidity)
+      : metrics.temperature);
+  const thermal = thermalShares(
+    metrics.temperature,
+    wetBulbFromDewPoint(metrics.temperature, dewPoint),
+    metrics.freezingLevelHeight !== undefined ? metrics.freezingLevelHeight - elevation : undefined
+  );
+  if (codeType === undefined) {
+    return thermal;
+  }
+
+  return typeShares(
+    (type) =>
+      (1 - WEATHER_CODE_WEIGHT) * thermal[type] + (type === codeType ? WEATHER_CODE_WEIGHT : 0)
+  );
+}
+
+/**
+ * Classify one model's hour at a site's elevation (m, default sea level):
+ * the chance of each precipitation type should precipitation fall, or
+ * undefined when it forecasts none
+ */
+export function classifyPrecipitationType(
+  metrics: WeatherMetrics,
+  elevation: number = 0
+): PrecipitationTypeProbabilities | undefined {
+  const shares = classifyShares(metrics, elevation);
+  return shares && toProbabilities(shares);
+}
+
+/**
+ * Chance (0-100) of an hour's precipitation falling as a type at a site's
+ * elevation (m, default sea level): 0 when no precipitation is forecast,
+ * undefined without a temperature
+ */
+export function precipitationTypeProbability(
+  metrics: WeatherMetrics,
+  type: PrecipitationType,
+  elevation: number = 0
+): number | undefined {
+  if (!hasMetric(metrics, "temperature")) {
+    return undefined;
+  }
+  return classifyPrecipitationType(metrics, elevation)?.[type] ?? 0;
+}
+
+/**
+ * Combine the models forecasting precipitation in an hour into the chance
+ * of each type, weighting each model (weights are aligned with models;
+ * equal weights when omitted) and classifying it at its elevation (m,
+ * default sea level). Undefined when no model forecasts precipitation.
+ *
+ * @example
+ * ```typescript
+ * const type = calculatePrecipitationType(
+ *   items.map((item) => ({ model: item.model, metrics: item.hourly.metrics }))
+ * );
+ * // { type: "snow", probabilities: { rain: 20, snow: 65, sleet: 15, freezingRain: 0 }, ... }
+ * ```
+ */
+export function calculatePrecipitationType(
+  models: readonly {
+    readonly model: ModelName;
+    readonly metrics: WeatherMetrics;
+    readonly elevation?: number;
+  }[],
+  weights?: readonly number[]
+): PrecipitationTypeForecast | undefined {
+  const classified = models.flatMap(({ model, metrics, elevation }, i) => {
+    const shares = classifyShares(metrics, elevation ?? 0);
+    return shares ? [{ model, shares, weight: weights?.[i] ?? 1 }] : [];
+  });
+  if (classified.length === 0) {
+    return undefined;
+  }
+
+  const totalWeight = classified.reduce((sum, c) => sum + c.weight, 0);
+  const weightOf = (weight: number): number =>
+    totalWeight > 0 ? weight / totalWeight : 1 / classified.length;
+  const shares = typeShares((type) =>
+    classified.reduce((sum, c) => sum + c.shares[type] * weightOf(c.weight), 0)
+  );
+
+  return {
+    type: PRECIPITATION_TYPES.reduce((best, type) => (shares[type] > shares[best] ? type : best)),
+    probabilities: toProbabilities(shares),
+    models: classified.map((c) => c.model),
+  };
+}
@@ -41,6 +41,25 @@ export function median(values: readonly number[]): number {
   return sorted[mid];
 }
 
+/**
+ * Calculate a percentile using linear interpolation between closest ranks.
+ * Returns 0 for empty arrays.
+ *
+ * @param values - Array of numbers
+ * @param p - Percentile to calculate (0-100)
+ * @returns Interpolated percentile value
+ */
+export function percentile(values: readonly number[], p: number): number {
+  if (values.length === 0) return 0;
+
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = (Math.min(100, Math.max(0, p)) / 100) * (sorted.length - 1);
+  const lower = Math.floor(rank);
+  const upper = Math.ceil(rank);
+
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+}
+
 /**
  * Calculate the standard deviation of an array of numbers.
  * Uses population standard deviation (N, not N-1).
@@ -92,6 +111,114 @@ export function trimmedMean(
   return mean(trimmed);
 }
 
+/**
+ * Pair values with weights and sort ascending by value.
+ * Missing or non-positive weights are treated as zero.
+ */
+function sortWeighted(
+  values: readonly number[],
+  weights: readonly number[]
+): Array<{ value: number; weight: number }> {
+  return values
+    .map((value, i) => ({ value, weight: Math.max(0, weights[i] ?? 0) }))
+    .sort((a, b) => a.value - b.value);
+}
+
+/**
+ * Calculate the weighted arithmetic mean of an array of numbers.
+ * Falls back to the unweighted mean when all weights are zero.
+ * Returns 0 for empty arrays.
+ */
+export function weightedMean(
+  values: readonly number[],
+  weights: readonly number[]
+): number {
+  if (values.length === 0) return 0;
+
+  let sum = 0;
+  let totalWeight = 0;
+  for (let i = 0; i < values.length; i++) {
+    const w = Math.max(0, weights[i] ?? 0);
+    sum += values[i] * w;
+    totalWeight += w;
+  }
+
+  if (totalWeight === 0) return mean(values);
+  return sum / totalWeight;
+}
+
+/**
+ * Calculate the weighted median of an array of numbers.
+ * When the cumulative weight lands exactly on the halfway point the two
+ * neighbouring values are averaged, so equal weights reproduce `median`.
+ * Returns 0 for empty arrays.
+ */
+export function weightedMedian(
+  values: readonly number[],
+  weights: readonly number[]
+): number {
+  if (values.length === 0) return 0;
+
+  const sorted = sortWeighted(values, weights);
+  const totalWeight = sorted.reduce((acc, item) => acc + item.weight, 0);
+  if (totalWeight === 0) return median(values);
+
+  const half = totalWeight / 2;
+  const epsilon = totalWeight * 1e-9;
+  let cumulative = 0;
+
+  for (let i = 0; i < sorted.length; i++) {
+    cumulative += sorted[i].weight;
+    if (Math.abs(cumulative - half) <= epsilon) {
+      // Find the next value that carries weight to average with
+      const next = sorted.slice(i + 1).find((item) => item.weight > 0);
+      return next ? (sorted[i].value + next.value) / 2 : sorted[i].value;
+    }
+    if (cumulative > half) {
+      return sorted[i].value;
+    }
+  }
+
+  return sorted[sorted.length - 1].value;
+}
+
+/**
+ * Calculate the weighted trimmed mean.
+ * Trims the same number of values as `trimmedMean` from each end of the
+ * sorted values, then takes the weighted mean of what remains. At least two
+ * values are kept, so three or fewer are not trimmed and their weights
+ * still count (unlike `trimmedMean`, which takes the median of three).
+ *
+ * @param values - Array of numbers
+ * @param weights - Weight for each value (same order as values)
+ * @param trimFraction - Fraction to trim from each end (default 0.1)
+ * @returns Weighted trimmed mean value
+ */
+export function weightedTrimmedMean(
+  values: readonly number[],
+  weights: readonly number[],
+  trimFraction: number = 0.1
+): number {
+  if (values.length === 0) return 0;
+  if (values.length <= 3) return weightedMean(values, weights);
+
+  const sorted = sortWeighted(values, weights);
+
+  let trimCount = Math.floor(sorted.length * trimFraction);
+  if (trimCount === 0 && sorted.length >= 4) {
+    trimCount = 1;
+  }
+
+  const maxTrim = Math.floor((sorted.length - 2) / 2);
+  const actualTrim = Math.min(trimCount, maxTrim);
+
+  const trimmed = sorted.slice(actualTrim, sorted.length - actualTrim);
+  return weightedMean(
+    trimmed.map((item) => item.value),
+    trimmed.map((item) => item.weight)
+  );
+}
+
 /**
  * Calculate complete spread metrics for a set of values.
  */
@@ -133,6 +260,35 @@ export function zScore(value: number, values: readonly number[]): number {
   return (value - avg) / sd;
 }
 
+/**
+ * Factors scaling the median absolute deviation, and the mean absolute
+ * deviation used when that is 0, to a standard deviation for normal data
+ */
+const MAD_SCALE = 1.4826;
+const MEAN_ABSOLUTE_DEVIATION_SCALE = 1.2533;
+
+/**
+ * Calculate robust z-scores: each value's distance from the median in
+ * median absolute deviations, scaled to standard deviations. Falls back to
+ * the mean absolute deviation when over half the values are equal, and
+ * returns zeros when all are. Unlike plain z-scores, an extreme value does
+ * not inflate the spread it is measured against, so it stands out among as
+ * few as three values.
+ *
+ * @example
+ * ```typescript
+ * robustZScores([10, 10.5, 9.5, 40]); // [-0.34, 0.34, -1.01, 40.1]
+ * ```
+ */
+export function robustZScores(values: readonly number[]): number[] {
+  const center = median(values);
+  const deviations = values.map((v) => Math.abs(v - center));
+  const mad = median(deviations);
+  const scale = mad > 0 ? mad * MAD_SCALE : mean(deviations) * MEAN_ABSOLUTE_DEVIATION_SCALE;
+
+  return values.map((v) => (scale > 0 ? (v - center) / scale : 0));
+}
+
 /**
  * Identify outliers using z-score threshold.
  * Values with |z-score| > threshold are considered outliers.
@@ -201,6 +357,39 @@ export function ensembleProbability(
   return (count / values.length) * 100;
 }
 
+/**
+ * Calculate weighted ensemble probability (weighted share of values meeting a condition).
+ * Falls back to the unweighted probability when all weights are zero.
+ *
+ * @param values - Array of numbers
+ * @param weights - Weight for each value (same order as values)
+ * @param threshold - Threshold to compare against
+ * @param comparison - Comparison type ('gt', 'gte', 'lt', 'lte')
+ * @returns Percentage (0-100) of total weight meeting the condition
+ */
+export function weightedEnsembleProbability(
+  values: readonly number[],
+  weights: readonly number[],
+  threshold: number,
+  comparison: "gt" | "gte" | "lt" | "lte" = "gt"
+): number {
+  if (values.length === 0) return 0;
+
+  let matchedWeight = 0;
+  let totalWeight = 0;
+  for (let i = 0; i < values.length; i++) {
+    const w = Math.max(0, weights[i] ?? 0);
+    totalWeight += w;
+    if (ensembleProbability([values[i]], threshold, comparison) > 0) {
+      matchedWeight += w;
+    }
+  }
+
+  if (totalWeight === 0) return ensembleProbability(values, threshold, comparison);
+  // Round away floating-point noise from summing fractional weights
+  return Math.round((matchedWeight / totalWeight) * 100 * 1e9) / 1e9;
+}
+
 /**
  * Determine confidence level based on standard deviation threshold.
  *
@@ -4,24 +4,10 @@
  */
 
 import type { ConfidenceLevelName, ModelName } from "../types/models";
-import type { WeatherCode } from "../types/weather";
+import type { WeatherCode, WeatherCondition } from "../types/weather";
+import type { PrecipitationType } from "../types/precipitation";
 
-/**
- * Weather condition categories for narrative descriptions
- */
-export type WeatherCondition =
-  | "sunny"
-  | "partly_cloudy"
-  | "cloudy"
-  | "overcast"
-  | "fog"
-  | "drizzle"
-  | "rain"
-  | "heavy_rain"
-  | "thunderstorm"
-  | "snow"
-  | "sleet"
-  | "unknown";
+export type { WeatherCondition };
 
 /**
  * Map WMO weather codes to human-readable conditions.
@@ -135,6 +121,12 @@ export function formatModelName(model: ModelName): string {
       return "JMA";
     case "gem":
       return "GEM";
+    case "nws":
+      return "NWS";
+    case "metno":
+      return "MET Norway";
+    case "local":
+      return "Local";
   }
 }
 
@@ -168,6 +160,30 @@ export function formatPrecipitation(mm: number): string {
   return `${mm.toFixed(0)}mm`;
 }
 
+/**
+ * Format a temperature departure from normal, e.g. "+4.2°C vs normal"
+ */
+export function formatTemperatureAnomaly(delta: number): string {
+  return `${delta < 0 ? "-" : "+"}${Math.abs(delta).toFixed(1)}\u00B0C vs normal`;
+}
+
+/**
+ * Format a precipitation type for display, e.g. "freezing rain"
+ */
+export function formatPrecipitationType(type: PrecipitationType): string {
+  return type === "freezingRain" ? "freezing rain" : type;
+}
+
+/**
+ * Format a month number (1-12) as its name
+ */
+export function formatMonthName(month: number): string {
+  return new Date(Date.UTC(2000, month - 1, 1)).toLocaleString("en-US", {
+    month: "long",
+    timeZone: "UTC",
+  });
+}
+
 /**
  * Format day name from date
  */
@@ -194,6 +210,26 @@ export function formatRelativeDay(date: Date | string, referenceDate: Date = new
   return dateObj.toLocaleDateString("en-US", { weekday: "long", month: "short", day: "numeric" });
 }
 
+/**
+ * Create a formatter for short local times, e.g. "Tue 14:00".
+ * Falls back to UTC for unknown timezones.
+ */
+export function createLocalTimeFormatter(timezone?: string): (time: number) => string {
+  const options: Intl.DateTimeFormatOptions = {
+    weekday: "short",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  };
+  let formatter: Intl.DateTimeFormat;
+  try {
+    formatter = new Intl.DateTimeFormat("en-US", { ...options, timeZone: timezone ?? "UTC" });
+  } catch {
+    formatter = new Intl.DateTimeFormat("en-US", { ...options, timeZone: "UTC" });
+  }
+  return (time) => formatter.format(new Date(time)).replace(",", "");
+}
+
 /**
  * Get time period description (morning, afternoon, evening, etc.)
  */
@@ -0,0 +1,191 @@
+/**
+ * Tests for model weighting strategies.
+ */
+
+import { describe, it, expect, beforeAll, afterAll } from "bun:test";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  equalWeighting,
+  resolutionWeighting,
+  regionWeighting,
+  leadTimeWeighting,
+  skillWeighting,
+  combineWeightingStrategies,
+  createWeightingStrategy,
+  loadSkillScores,
+  loadWeightingStrategy,
+  type WeightingContext,
+} from "./weighting";
+import type { ModelName, ModelWeight } from "../types/models";
+import { latitude, longitude } from "../types/location";
+import { ConfigError } from "../errors/config";
+
+const ALL_MODELS: ModelName[] = ["ecmwf", "gfs", "icon", "meteofrance", "ukmo", "jma", "gem"];
+
+/**
+ * Create a weighting context for a location and lead time
+ */
+function context(lat: number, lon: number, leadTimeHours = 0): WeightingContext {
+  return {
+    coordinates: { latitude: latitude(lat), longitude: longitude(lon) },
+    leadTimeHours,
+  };
+}
+
+const LONDON = context(51.5074, -0.1278);
+const SYDNEY = context(-33.8688, 151.2093);
+
+function weightOf(weights: ModelWeight[], model: ModelName): number {
+  return weights.find((w) => w.model === model)!.weight;
+}
+
+function totalWeight(weights: ModelWeight[]): number {
+  return weights.reduce((sum, w) => sum + w.weight, 0);
+}
+
+describe("equalWeighting", () => {
+  it("should give every model the same weight", () => {
+    const weights = equalWeighting().weigh(["ecmwf", "gfs", "icon", "jma"], LONDON);
+
+    expect(weights.every((w) => w.weight === 0.25)).toBe(true);
+    expect(weights[0].reason).toBe("Equal weighting");
+  });
+});
+
+describe("resolutionWeighting", () => {
+  it("should favour finer grids", () => {
+    const weights = resolutionWeighting().weigh(ALL_MODELS, LONDON);
+
+    expect(weightOf(weights, "ecmwf")).toBeGreaterThan(weightOf(weights, "jma"));
+    expect(weightOf(weights, "icon")).toBeGreaterThan(weightOf(weights, "ecmwf"));
+    expect(totalWeight(weights)).toBeCloseTo(1, 10);
+  });
+
+  it("should weight inversely to grid spacing", () => {
+    const weights = resolutionWeighting().weigh(["ecmwf", "jma"], LONDON);
+
+    // 9km vs 20km
+    expect(weightOf(weights, "ecmwf") / weightOf(weights, "jma")).toBeCloseTo(20 / 9, 10);
+    expect(weights[0].reason).toBe("9km grid resolution");
+  });
+});
+
+describe("regionWeighting", () => {
+  it("should boost regional models inside their home domain", () => {
+    const weights = regionWeighting().weigh(["ukmo", "jma"], LONDON);
+
+    expect(weightOf(weights, "ukmo")).toBeCloseTo(0.6, 10);
+    expect(weights[0].reason).toBe("Regional model for the British Isles");
+    expect(weights[1].reason).toBe("Outside home region");
+  });
+
+  it("should fall back to equal weights outside all home domains", () => {
+    const weights = regionWeighting().weigh(["ukmo", "icon", "gem"], SYDNEY);
+
+    for (const w of weights) {
+      expect(w.weight).toBeCloseTo(1 / 3, 10);
+    }
+  });
+});
+
+describe("leadTimeWeighting", () => {
+  it("should shift weight towards ECMWF at longer lead times", () => {
+    const strategy = leadTimeWeighting();
+    const short = strategy.weigh(["ecmwf", "icon"], context(51.5, 0, 6));
+    const extended = strategy.weigh(["ecmwf", "icon"], context(51.5, 0, 200));
+
+    expect(weightOf(short, "icon")).toBeGreaterThan(weightOf(short, "ecmwf"));
+    expect(weightOf(extended, "ecmwf")).toBeGreaterThan(weightOf(extended, "icon"));
+    expect(extended[0].reason).toContain("Extended-range");
+  });
+});
+
+describe("skillWeighting", () => {
+  it("should weight proportionally to skill scores", () => {
+    const weights = skillWeighting({ ecmwf: 0.9, gfs: 0.3 }).weigh(["ecmwf", "gfs"], LONDON);
+
+    expect(weightOf(weights, "ecmwf")).toBeCloseTo(0.75, 10);
+    expect(weights[0].reason).toBe("Historical skill 0.90");
+  });
+
+  it("should give unscored models the average score", () => {
+    const weights = skillWeighting({ ecmwf: 0.8, gfs: 0.4 }).weigh(
+      ["ecmwf", "gfs", "jma"],
+      LONDON
+    );
+
+    expect(weightOf(weights, "jma")).toBeCloseTo(0.6 / 1.8, 10);
+    expect(weights[2].reason).toBe("No skill score (using average)");
+  });
+});
+
+describe("combineWeightingStrategies", () => {
+  it("should multiply weights and join reasons", () => {
+    const strategy = combineWeightingStrategies("combo", [
+      resolutionWeighting(),
+      regionWeighting(),
+    ]);
+    const weights = strategy.weigh(["ukmo", "jma"], LONDON);
+
+    // ukmo: (1/10) * 1.5, jma: (1/20) * 1
+    expect(weightOf(weights, "ukmo")).toBeCloseTo(0.15 / 0.2, 10);
+    expect(weights[0].reason).toBe("10km grid resolution; Regional model for the British Isles");
+    expect(totalWeight(weights)).toBeCloseTo(1, 10);
+  });
+});
+
+describe("createWeightingStrategy", () => {
+  it("should create built-in strategies by name", () => {
+    expect(createWeightingStrategy("equal").name).toBe("equal");
+    expect(createWeightingStrategy("resolution").name).toBe("resolution");
+    expect(createWeightingStrategy("blended").name).toBe("blended");
+  });
+
+  it("should require skill scores for the skill strategy", () => {
+    expect(() => createWeightingStrategy("skill")).toThrow(ConfigError);
+  });
+});
+
+describe("loadSkillScores", () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), "weather-oracle-skill-"));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("should load scores from a JSON file", async () => {
+    const path = join(dir, "scores.json");
+    await writeFile(path, JSON.stringify({ ecmwf: 0.92, gfs: 0.81 }));
+
+    expect(await loadSkillScores(path)).toEqual({ ecmwf: 0.92, gfs: 0.81 });
+  });
+
+  it("should reject unknown models and invalid scores", async () => {
+    const path = join(dir, "invalid.json");
+    await writeFile(path, JSON.stringify({ ecmwf: -1 }));
+
+    const error = await loadSkillScores(path).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConfigError);
+  });
+
+  it("should throw ConfigError for unreadable files", async () => {
+    const error = await loadSkillScores(join(dir, "missing.json")).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(ConfigError);
+  });
+
+  it("should build the configured strategy with loaded scores", async () => {
+    const path = join(dir, "config-scores.json");
+    await writeFile(path, JSON.stringify({ ecmwf: 3, gfs: 1 }));
+
+    const strategy = await loadWeightingStrategy({ weighting: "skill", skillScores: path });
+    const weights = strategy.weigh(["ecmwf", "gfs"], LONDON);
+
+    expect(weightOf(weights, "ecmwf")).toBeCloseTo(0.75, 10);
+  });
+});
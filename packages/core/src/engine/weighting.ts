@@ -0,0 +1,380 @@
+/**
+ * Model weighting strategies for consensus blending.
+ * Decides how much each model contributes to the aggregated forecast,
+ * based on grid resolution, regional expertise, lead time, or verified skill.
+ */
+
+import { readFile } from "node:fs/promises";
+import { z } from "zod";
+import type { ModelName, ModelWeight } from "../types/models";
+import type { Coordinates } from "../types/location";
+import type { ModelConfig } from "../config/schema";
+import { MODEL_INFO } from "../types/models";
+import { ConfigError } from "../errors/config";
+
+/**
+ * Context a strategy can use when weighting models
+ */
+export interface WeightingContext {
+  readonly coordinates: Coordinates;
+  /**
+   * Hours between the start of the forecast and the time being aggregated
+   */
+  readonly leadTimeHours: number;
+}
+
+/**
+ * A pluggable strategy that assigns a weight to each model.
+ * Returned weights must sum to 1 across the given models.
+ */
+export interface WeightingStrategy {
+  readonly name: string;
+  weigh(models: readonly ModelName[], context: WeightingContext): ModelWeight[];
+}
+
+/**
+ * Built-in weighting strategy names (selectable via config)
+ */
+export type WeightingStrategyName =
+  "equal" | "resolution" | "region" | "leadTime" | "skill" | "blended";
+
+/**
+ * Historical skill scores per model (higher is better)
+ */
+export type SkillScores = Partial<Record<ModelName, number>>;
+
+/**
+ * Geographic bounding box where a regional model has extra skill
+ */
+interface RegionBounds {
+  readonly name: string;
+  readonly minLat: number;
+  readonly maxLat: number;
+  readonly minLon: number;
+  readonly maxLon: number;
+}
+
+/**
+ * Home domains for models run by national services.
+ * Inside these areas the model's high-resolution nest feeds the seamless product.
+ */
+const MODEL_REGIONS: Partial<Record<ModelName, readonly RegionBounds[]>> = {
+  icon: [{ name: "Europe", minLat: 29.5, maxLat: 70.5, minLon: -23.5, maxLon: 62.5 }],
+  meteofrance: [{ name: "Western Europe", minLat: 37.5, maxLat: 55.4, minLon: -12, maxLon: 16 }],
+  ukmo: [{ name: "the British Isles", minLat: 48.5, maxLat: 61, minLon: -11, maxLon: 2.5 }],
+  jma: [{ name: "Japan", minLat: 20, maxLat: 48, minLon: 118, maxLon: 150 }],
+  gem: [{ name: "North America", minLat: 40, maxLat: 85, minLon: -145, maxLon: -50 }],
+  gfs: [{ name: "the contiguous US", minLat: 24, maxLat: 50, minLon: -125, maxLon: -66 }],
+  nws: [{ name: "the contiguous US", minLat: 24, maxLat: 50, minLon: -125, maxLon: -66 }],
+  metno: [{ name: "the Nordic countries", minLat: 54, maxLat: 72, minLon: 4, maxLon: 32 }],
+};
+
+/**
+ * Multiplier applied to a model inside its home domain
+ */
+const REGION_BOOST = 1.5;
+
+/**
+ * Lead-time skill multipliers per model.
+ * Short range: 0-48h, medium range: 48-120h, extended: beyond 120h.
+ */
+const LEAD_TIME_PROFILES: Record<
+  ModelName,
+  { readonly short: number; readonly medium: number; readonly extended: number }
+> = {
+  ecmwf: { short: 1.0, medium: 1.15, extended: 1.25 },
+  gfs: { short: 0.9, medium: 1.0, extended: 1.05 },
+  icon: { short: 1.1, medium: 1.0, extended: 0.9 },
+  meteofrance: { short: 1.1, medium: 0.95, extended: 0.8 },
+  ukmo: { short: 1.1, medium: 1.05, extended: 0.95 },
+  jma: { short: 0.9, medium: 0.9, extended: 0.85 },
+  gem: { short: 0.9, medium: 0.9, extended: 0.85 },
+  nws: { short: 1.1, medium: 1.0, extended: 0.9 },
+  metno: { short: 1.1, medium: 1.0, extended: 0.85 },
+  local: { short: 1.0, medium: 1.0, extended: 1.0 },
+};
+
+/**
+ * Lead-time bucket boundaries in hours
+ */
+const SHORT_RANGE_HOURS = 48;
+const MEDIUM_RANGE_HOURS = 120;
+
+/**
+ * Raw (unnormalized) score for a model with its explanation
+ */
+interface RawWeight {
+  readonly model: ModelName;
+  readonly score: number;
+  readonly reason: string;
+}
+
+/**
+ * Normalize raw scores so they sum to 1.
+ * Falls back to equal weights if every score is zero.
+ */
+function normalizeWeights(raw: readonly RawWeight[]): ModelWeight[] {
+  const total = raw.reduce((sum, r) => sum + Math.max(0, r.score), 0);
+  return raw.map((r) => ({
+    model: r.model,
+    weight: total > 0 ? Math.max(0, r.score) / total : 1 / raw.length,
+    reason: r.reason,
+  }));
+}
+
+/**
+ * Parse a resolution string such as "9km" into kilometres
+ */
+function parseResolutionKm(resolution: string): number | null {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*km\s*$/i.exec(resolution);
+  return match ? parseFloat(match[1]) : null;
+}
+
+/**
+ * Check whether coordinates fall within a bounding box
+ */
+function isWithin(coordinates: Coordinates, bounds: RegionBounds): boolean {
+  return (
+    coordinates.latitude >= bounds.minLat &&
+    coordinates.latitude <= bounds.maxLat &&
+    coordinates.longitude >= bounds.minLon &&
+    coordinates.longitude <= bounds.maxLon
+  );
+}
+
+/**
+ * Equal weighting - every model counts the same.
+ */
+export function equalWeighting(): WeightingStrategy {
+  return {
+    name: "equal",
+    weigh(models): ModelWeight[] {
+      return normalizeWeights(
+        models.map((model) => ({ model, score: 1, reason: "Equal weighting" }))
+      );
+    },
+  };
+}
+
+/**
+ * Resolution weighting - finer grids from MODEL_INFO get more weight (score = 1/km).
+ */
+export function resolutionWeighting(): WeightingStrategy {
+  return {
+    name: "resolution",
+    weigh(models): ModelWeight[] {
+      return normalizeWeights(
+        models.map((model) => {
+          const resolution = MODEL_INFO[model].resolution;
+          const km = parseResolutionKm(resolution);
+          return km !== null && km > 0
+            ? { model, score: 1 / km, reason: `${resolution} grid resolution` }
+            : { model, score: 1 / 10, reason: "Unknown resolution" };
+        })
+      );
+    },
+  };
+}
+
+/**
+ * Region weighting - boosts national models inside their home domain.
+ */
+export function regionWeighting(boost: number = REGION_BOOST): WeightingStrategy {
+  return {
+    name: "region",
+    weigh(models, context): ModelWeight[] {
+      return normalizeWeights(
+        models.map((model) => {
+          const region = MODEL_REGIONS[model]?.find((bounds) =>
+            isWithin(context.coordinates, bounds)
+          );
+          return region
+            ? { model, score: boost, reason: `Regional model for ${region.name}` }
+            : { model, score: 1, reason: "Outside home region" };
+        })
+      );
+    },
+  };
+}
+
+/**
+ * Lead-time weighting - favours high-resolution models at short range and
+ * ensemble-backed global models further out.
+ */
+export function leadTimeWeighting(): WeightingStrategy {
+  return {
+    name: "leadTime",
+    weigh(models, context): ModelWeight[] {
+      const hours = Math.max(0, context.leadTimeHours);
+      const bucket =
+        hours <= SHORT_RANGE_HOURS ? "short" : hours <= MEDIUM_RANGE_HOURS ? "medium" : "extended";
+      const label =
+        bucket === "short"
+          ? `Short-range (0-${SHORT_RANGE_HOURS}h)`
+          : bucket === "medium"
+            ? `Medium-range (${SHORT_RANGE_HOURS}-${MEDIUM_RANGE_HOURS}h)`
+            : `Extended-range (${MEDIUM_RANGE_HOURS}h+)`;
+
+      return normalizeWeights(
+        models.map((model) => ({
+          model,
+          score: LEAD_TIME_PROFILES[model][bucket],
+          reason: `${label} skill profile`,
+        }))
+      );
+    },
+  };
+}
+
+/**
+ * Skill weighting - uses historical skill scores (higher is better).
+ * Models without a score receive the average of the known scores.
+ */
+export function skillWeighting(scores: SkillScores): WeightingStrategy {
+  return {
+    name: "skill",
+    weigh(models): ModelWeight[] {
+      const known = models
+        .map((model) => scores[model])
+        .filter((s): s is number => s !== undefined && s > 0);
+      const fallback = known.length > 0 ? known.reduce((a, b) => a + b, 0) / known.length : 1;
+
+      return normalizeWeights(
+        models.map((model) => {
+          const score = scores[model];
+          return score !== undefined && score > 0
+            ? { model, score, reason: `Historical skill ${score.toFixed(2)}` }
+            : { model, score: fallback, reason: "No skill score (using average)" };
+        })
+      );
+    },
+  };
+}
+
+/**
+ * Combine several strategies by multiplying their weights and renormalizing.
+ * Reasons from each strategy are joined so the blend stays explainable.
+ */
+export function combineWeightingStrategies(
+  name: string,
+  strategies: readonly WeightingStrategy[]
+): WeightingStrategy {
+  return {
+    name,
+    weigh(models, context): ModelWeight[] {
+      if (strategies.length === 0) {
+        return equalWeighting().weigh(models, context);
+      }
+
+      const results = strategies.map((s) => s.weigh(models, context));
+      return normalizeWeights(
+        models.map((model, i) => ({
+          model,
+          score: results.reduce((product, weights) => product * weights[i].weight, 1),
+          reason: results.map((weights) => weights[i].reason).join("; "),
+        }))
+      );
+    },
+  };
+}
+
+/**
+ * Options for building a strategy by name
+ */
+export interface WeightingStrategyOptions {
+  /**
+   * Historical skill scores (required for "skill", optional for "blended")
+   */
+  readonly skillScores?: SkillScores;
+}
+
+/**
+ * Create a built-in weighting strategy by name.
+ *
+ * "blended" multiplies resolution, region and lead-time weights, plus skill
+ * scores when they are available.
+ *
+ * @throws ConfigError if "skill" is requested without skill scores
+ */
+export function createWeightingStrategy(
+  name: WeightingStrategyName,
+  options: WeightingStrategyOptions = {}
+): WeightingStrategy {
+  switch (name) {
+    case "equal":
+      return equalWeighting();
+    case "resolution":
+      return resolutionWeighting();
+    case "region":
+      return regionWeighting();
+    case "leadTime":
+      return leadTimeWeighting();
+    case "skill":
+      if (!options.skillScores) {
+        throw ConfigError.missing("models.skillScores", "path to a skill scores file");
+      }
+      return skillWeighting(options.skillScores);
+    case "blended": {
+      const strategies = [resolutionWeighting(), regionWeighting(), leadTimeWeighting()];
+      if (options.skillScores) {
+        strategies.push(skillWeighting(options.skillScores));
+      }
+      return combineWeightingStrategies("blended", strategies);
+    }
+  }
+}
+
+/**
+ * Schema for a skill scores file: `{ "ecmwf": 0.92, "gfs": 0.81, ... }`
+ */
+const skillScoresSchema = z.record(
+  z.enum(Object.keys(MODEL_INFO) as [ModelName, ...ModelName[]]),
+  z.number().positive()
+);
+
+/**
+ * Load historical skill scores from a local JSON file.
+ *
+ * @throws ConfigError if the file cannot be read or is not a valid score map
+ */
+export async function loadSkillScores(filePath: string): Promise<SkillScores> {
+  let parsed: unknown;
+  try {
+    const content = await readFile(filePath, "utf-8");
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw ConfigError.parseError(
+      filePath,
+      error instanceof Error ? error : new Error(String(error))
+    );
+  }
+
+  const result = skillScoresSchema.safeParse(parsed);
+  if (!result.success) {
+    const firstError = result.error.errors[0];
+    throw ConfigError.invalid(
+      "models.skillScores",
+      `${firstError?.path.join(".") ?? "scores"}: ${firstError?.message ?? "invalid skill scores"}`,
+      filePath
+    );
+  }
+
+  return result.data;
+}
+
+/**
+ * Build the weighting strategy selected in the model configuration,
+ * loading skill scores from disk when the strategy uses them.
+ *
+ * @throws ConfigError if the skill scores file is missing or invalid
+ */
+export async function loadWeightingStrategy(
+  config: Pick<ModelConfig, "weighting" | "skillScores">
+): Promise<WeightingStrategy> {
+  const usesSkill = config.weighting === "skill" || config.weighting === "blended";
+  const skillScores =
+    usesSkill && config.skillScores !== undefined
+      ? await loadSkillScores(config.skillScores)
+      : undefined;
+  return createWeightingStrategy(config.weighting, { skillScores });
+}
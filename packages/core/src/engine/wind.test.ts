@@ -0,0 +1,114 @@
+/**
+ * Tests for vector-based wind aggregation
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  windToVector,
+  vectorToWind,
+  angularDifference,
+  circularStatistics,
+  circularMean,
+  vectorMeanWind,
+  consensusWindDirection,
+  directionConfidence,
+} from "./wind";
+
+describe("windToVector / vectorToWind", () => {
+  it("uses the direction the wind blows from", () => {
+    const northerly = windToVector(10, 0);
+    expect(northerly.u).toBeCloseTo(0, 10);
+    expect(northerly.v).toBeCloseTo(-10, 10);
+
+    const westerly = windToVector(5, 270);
+    expect(westerly.u).toBeCloseTo(5, 10);
+    expect(westerly.v).toBeCloseTo(0, 10);
+  });
+
+  it("round-trips speed and direction", () => {
+    for (const direction of [0, 45, 135, 225, 350]) {
+      const wind = vectorToWind(windToVector(7, direction));
+      expect(wind.speed).toBeCloseTo(7, 10);
+      expect(angularDifference(wind.direction, direction)).toBeCloseTo(0, 8);
+    }
+  });
+});
+
+describe("angularDifference", () => {
+  it("measures the short way round", () => {
+    expect(angularDifference(350, 10)).toBe(20);
+    expect(angularDifference(10, 350)).toBe(20);
+    expect(angularDifference(90, 270)).toBe(180);
+  });
+});
+
+describe("circularStatistics", () => {
+  it("averages across north", () => {
+    const stats = circularStatistics([350, 10]);
+
+    expect(angularDifference(stats.mean, 0)).toBeCloseTo(0, 8);
+    expect(stats.resultantLength).toBeCloseTo(Math.cos((10 * Math.PI) / 180), 10);
+    expect(stats.spread).toBeCloseTo(10, 0);
+  });
+
+  it("reports no spread for identical directions", () => {
+    const stats = circularStatistics([200, 200, 200]);
+
+    expect(stats.mean).toBeCloseTo(200, 8);
+    expect(stats.resultantLength).toBeCloseTo(1, 10);
+    expect(stats.spread).toBeCloseTo(0, 5);
+  });
+
+  it("reports maximum spread for opposed directions", () => {
+    const stats = circularStatistics([90, 270]);
+
+    expect(stats.resultantLength).toBeCloseTo(0, 10);
+    expect(stats.spread).toBe(180);
+  });
+
+  it("applies weights", () => {
+    expect(circularMean([0, 90], [3, 1])).toBeCloseTo(18.43, 1);
+  });
+
+  it("handles empty input", () => {
+    expect(circularStatistics([])).toEqual({ mean: 0, resultantLength: 0, spread: 180 });
+  });
+});
+
+describe("vectorMeanWind", () => {
+  it("cancels opposing winds", () => {
+    expect(vectorMeanWind([5, 5], [90, 270]).speed).toBeCloseTo(0, 10);
+  });
+
+  it("keeps the speed of aligned winds", () => {
+    const wind = vectorMeanWind([4, 6], [180, 180]);
+
+    expect(wind.speed).toBeCloseTo(5, 10);
+    expect(wind.direction).toBeCloseTo(180, 8);
+  });
+});
+
+describe("consensusWindDirection", () => {
+  it("leans toward the stronger wind", () => {
+    const direction = consensusWindDirection([9, 1], [0, 90]);
+
+    expect(direction).toBeGreaterThan(0);
+    expect(direction).toBeLessThan(10);
+  });
+
+  it("falls back to the circular mean when vectors cancel", () => {
+    expect(consensusWindDirection([0, 0], [80, 100])).toBeCloseTo(90, 8);
+  });
+});
+
+describe("directionConfidence", () => {
+  it("scales from high to low with spread", () => {
+    expect(directionConfidence({ mean: 0, resultantLength: 1, spread: 10 }, 8)).toBe(1);
+    expect(directionConfidence({ mean: 0, resultantLength: 0.3, spread: 120 }, 8)).toBe(0.3);
+    expect(directionConfidence({ mean: 0, resultantLength: 0.8, spread: 60 }, 8)).toBeCloseTo(0.65, 5);
+  });
+
+  it("ignores spread in calm conditions", () => {
+    expect(directionConfidence({ mean: 0, resultantLength: 0, spread: 180 }, 1)).toBe(1);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Vector-based wind aggregation.
+ * Wind direction is circular (350° and 10° are 20° apart, not 340°), so
+ * directions are combined as u/v vectors rather than averaged as numbers.
+ *
+ * Directions follow the meteorological convention: degrees clockwise from
+ * north that the wind blows FROM.
+ */
+
+import type { DirectionStatistics } from "../types/models";
+import { confidenceFromRange } from "./statistics";
+
+/**
+ * Wind as eastward (u) and northward (v) components, in the speed's units
+ */
+export interface WindVector {
+  readonly u: number;
+  readonly v: number;
+}
+
+/**
+ * Wind speed and the direction it blows from
+ */
+export interface WindSpeedDirection {
+  readonly speed: number;
+  readonly direction: number;
+}
+
+/**
+ * Spread thresholds for direction confidence, in degrees of circular
+ * standard deviation
+ */
+export const DIRECTION_SPREAD_THRESHOLDS = {
+  high: 30,
+  low: 90,
+} as const;
+
+/**
+ * Below this speed (m/s) direction is not meaningful, so its spread is ignored
+ */
+export const CALM_WIND_SPEED = 2;
+
+/**
+ * Resultant lengths below this are treated as no prevailing direction
+ */
+const MIN_RESULTANT = 1e-6;
+
+/**
+ * Largest circular standard deviation reported (directions fully opposed)
+ */
+const MAX_DIRECTION_SPREAD = 180;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number): number => (radians * 180) / Math.PI;
+
+/**
+ * Normalize an angle to [0, 360)
+ */
+function normalizeDegrees(degrees: number): number {
+  return ((degrees % 360) + 360) % 360;
+}
+
+/**
+ * Resolve weights for a set of values (equal weights when not given)
+ */
+function resolveWeights(count: number, weights?: readonly number[]): readonly number[] {
+  return weights ?? Array.from({ length: count }, () => 1);
+}
+
+/**
+ * Convert speed and direction to u/v components
+ */
+export function windToVector(speed: number, direction: number): WindVector {
+  const radians = toRadians(direction);
+  // Wind from the north (0°) blows southward: v is negative
+  return { u: -speed * Math.sin(radians), v: -speed * Math.cos(radians) };
+}
+
+/**
+ * Convert u/v components back to speed and direction
+ */
+export function vectorToWind(vector: WindVector): WindSpeedDirection {
+  return {
+    speed: Math.hypot(vector.u, vector.v),
+    direction: normalizeDegrees(toDegrees(Math.atan2(-vector.u, -vector.v))),
+  };
+}
+
+/**
+ * Smallest angle between two directions (0-180)
+ */
+export function angularDifference(a: number, b: number): number {
+  const diff = Math.abs(normalizeDegrees(a) - normalizeDegrees(b));
+  return diff > 180 ? 360 - diff : diff;
+}
+
+/**
+ * Circular statistics for a set of directions: the mean of their unit
+ * vectors, its length (1 = identical, 0 = no prevailing direction) and the
+ * circular standard deviation sqrt(-2 ln R) in degrees.
+ */
+export function circularStatistics(
+  directions: readonly number[],
+  weights?: readonly number[]
+): DirectionStatistics {
+  const w = resolveWeights(directions.length, weights);
+  const totalWeight = w.reduce((sum, weight) => sum + weight, 0);
+  if (directions.length === 0 || totalWeight <= 0) {
+    return { mean: 0, resultantLength: 0, spread: MAX_DIRECTION_SPREAD };
+  }
+
+  let sin = 0;
+  let cos = 0;
+  for (let i = 0; i < directions.length; i++) {
+    sin += w[i] * Math.sin(toRadians(directions[i]));
+    cos += w[i] * Math.cos(toRadians(directions[i]));
+  }
+
+  const resultantLength = Math.min(1, Math.hypot(sin, cos) / totalWeight);
+  const spread =
+    resultantLength < MIN_RESULTANT
+      ? MAX_DIRECTION_SPREAD
+      : Math.min(MAX_DIRECTION_SPREAD, toDegrees(Math.sqrt(-2 * Math.log(resultantLength))));
+
+  return {
+    mean: normalizeDegrees(toDegrees(Math.atan2(sin, cos))),
+    resultantLength,
+    spread,
+  };
+}
+
+/**
+ * Circular mean of a set of directions in degrees
+ */
+export function circularMean(directions: readonly number[], weights?: readonly number[]): number {
+  return circularStatistics(directions, weights).mean;
+}
+
+/**
+ * Weighted mean of wind vectors built from speeds and directions
+ */
+export function vectorMeanWind(
+  speeds: readonly number[],
+  directions: readonly number[],
+  weights?: readonly number[]
+): WindSpeedDirection {
+  const w = resolveWeights(speeds.length, weights);
+  const totalWeight = w.reduce((sum, weight) => sum + weight, 0);
+  if (speeds.length === 0 || totalWeight <= 0) {
+    return { speed: 0, direction: 0 };
+  }
+
+  let u = 0;
+  let v = 0;
+  for (let i = 0; i < speeds.length; i++) {
+    const vector = windToVector(speeds[i], directions[i]);
+    u += w[i] * vector.u;
+    v += w[i] * vector.v;
+  }
+
+  return vectorToWind({ u: u / totalWeight, v: v / totalWeight });
+}
+
+/**
+ * Consensus direction for a set of model winds.
+ *
+ * Uses the direction of the mean u/v vector so stronger winds count for more.
+ * When the vectors cancel out (calm or opposed winds) it falls back to the
+ * circular mean of the directions alone.
+ */
+export function consensusWindDirection(
+  speeds: readonly number[],
+  directions: readonly number[],
+  weights?: readonly number[]
+): number {
+  const vector = vectorMeanWind(speeds, directions, weights);
+  return vector.speed >= MIN_RESULTANT ? vector.direction : circularMean(directions, weights);
+}
+
+/**
+ * Confidence score (0.3-1.0) from how much models disagree on direction.
+ * Direction spread is ignored in calm conditions.
+ */
+export function directionConfidence(stats: DirectionStatistics, windSpeed: number): number {
+  if (windSpeed < CALM_WIND_SPEED) {
+    return 1.0;
+  }
+  return confidenceFromRange(
+    stats.spread,
+    DIRECTION_SPREAD_THRESHOLDS.high,
+    DIRECTION_SPREAD_THRESHOLDS.low
+  );
+}
@@ -12,6 +12,10 @@ export class ApiError extends WeatherOracleError {
   readonly statusCode?: number;
   readonly endpoint?: string;
   readonly model?: ModelName;
+  /**
+   * Seconds the server asked us to wait before retrying (from Retry-After)
+   */
+  readonly retryAfterSeconds?: number;
 
   constructor(
     code: ErrorCode,
@@ -21,6 +25,7 @@ export class ApiError extends WeatherOracleError {
       statusCode?: number;
       endpoint?: string;
       model?: ModelName;
+      retryAfterSeconds?: number;
       debugInfo?: Omit<ErrorDebugInfo, "timestamp">;
     }
   ) {
@@ -29,6 +34,7 @@ export class ApiError extends WeatherOracleError {
     this.statusCode = options?.statusCode;
     this.endpoint = options?.endpoint;
     this.model = options?.model;
+    this.retryAfterSeconds = options?.retryAfterSeconds;
   }
 
   /**
@@ -49,6 +55,7 @@ export class ApiError extends WeatherOracleError {
       {
         statusCode: 429,
         model,
+        retryAfterSeconds,
         debugInfo: { retryAfterSeconds },
       }
     );
@@ -136,6 +143,22 @@ export class ApiError extends WeatherOracleError {
     );
   }
 
+  /**
+   * Create an error for a model that cannot serve a request
+   * (no registered provider, or a location outside its coverage)
+   */
+  static unsupported(model: ModelName, reason: string): ApiError {
+    return new ApiError(
+      ErrorCode.API_UNSUPPORTED,
+      `Model ${model} is not supported: ${reason}`,
+      `${model} forecasts are not available: ${reason}.`,
+      {
+        model,
+        debugInfo: { reason },
+      }
+    );
+  }
+
   /**
    * Create an API error from an HTTP response
    */
@@ -143,7 +166,8 @@ export class ApiError extends WeatherOracleError {
     statusCode: number,
     statusText: string,
     endpoint: string,
-    model?: ModelName
+    model?: ModelName,
+    retryAfterSeconds?: number
   ): ApiError {
     let code: ErrorCode;
     let userMessage: string;
@@ -156,7 +180,9 @@ export class ApiError extends WeatherOracleError {
         break;
       case 429:
         code = ErrorCode.API_RATE_LIMIT;
-        userMessage = "Too many requests. Please try again later.";
+        userMessage = retryAfterSeconds !== undefined
+          ? `Too many requests. Please try again in ${retryAfterSeconds} seconds.`
+          : "Too many requests. Please try again later.";
         break;
       case 500:
       case 502:
@@ -178,7 +204,8 @@ export class ApiError extends WeatherOracleError {
         statusCode,
         endpoint,
         model,
-        debugInfo: { statusCode, statusText, endpoint },
+        retryAfterSeconds,
+        debugInfo: { statusCode, statusText, endpoint, retryAfterSeconds },
       }
     );
   }
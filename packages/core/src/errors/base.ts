@@ -19,6 +19,7 @@ export enum ErrorCode {
   API_UNAVAILABLE = "API_UNAVAILABLE",
   API_INVALID_RESPONSE = "API_INVALID_RESPONSE",
   API_AUTH_FAILED = "API_AUTH_FAILED",
+  API_UNSUPPORTED = "API_UNSUPPORTED",
 
   // Config errors (3xxx)
   CONFIG_INVALID = "CONFIG_INVALID",
@@ -31,6 +32,20 @@ export enum ErrorCode {
   CACHE_EXPIRED = "CACHE_EXPIRED",
   CACHE_CORRUPTED = "CACHE_CORRUPTED",
 
+  // Verification errors (5xxx)
+  VERIFICATION_STORE_ERROR = "VERIFICATION_STORE_ERROR",
+  VERIFICATION_INVALID_OBSERVATIONS = "VERIFICATION_INVALID_OBSERVATIONS",
+
+  // Watch errors (6xxx)
+  WATCH_NOTIFY_FAILED = "WATCH_NOTIFY_FAILED",
+
+  // Run history errors (7xxx)
+  RUN_HISTORY_STORE_ERROR = "RUN_HISTORY_STORE_ERROR",
+
+  // Climatology errors (8xxx)
+  CLIMATOLOGY_STORE_ERROR = "CLIMATOLOGY_STORE_ERROR",
+  CLIMATOLOGY_INVALID_DATA = "CLIMATOLOGY_INVALID_DATA",
+
   // General errors (9xxx)
   UNKNOWN = "UNKNOWN",
   INTERNAL = "INTERNAL",
@@ -0,0 +1,68 @@
+/**
+ * Climatology error classes.
+ */
+
+import { WeatherOracleError, ErrorCode, type ErrorDebugInfo } from "./base";
+
+/**
+ * Error thrown when climate normals cannot be computed, read or stored.
+ */
+export class ClimatologyError extends WeatherOracleError {
+  readonly storePath?: string;
+  readonly source?: string;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    userMessage: string,
+    options?: {
+      storePath?: string;
+      source?: string;
+      debugInfo?: Omit<ErrorDebugInfo, "timestamp">;
+    }
+  ) {
+    super(code, message, userMessage, options?.debugInfo);
+    this.name = "ClimatologyError";
+    this.storePath = options?.storePath;
+    this.source = options?.source;
+  }
+
+  /**
+   * Create an error for failed reads/writes of the climate normals store
+   */
+  static storeError(
+    storePath: string,
+    operation: "read" | "write",
+    cause?: Error
+  ): ClimatologyError {
+    return new ClimatologyError(
+      ErrorCode.CLIMATOLOGY_STORE_ERROR,
+      `Failed to ${operation} climate normals at "${storePath}": ${cause?.message ?? "Unknown error"}`,
+      `Could not ${operation} climate normals. Please check the climatology directory.`,
+      {
+        storePath,
+        debugInfo: {
+          storePath,
+          operation,
+          originalError: cause?.message,
+          originalStack: cause?.stack,
+        },
+      }
+    );
+  }
+
+  /**
+   * Create an error for daily climate data that cannot be parsed
+   */
+  static invalidData(source: string, reason: string): ClimatologyError {
+    return new ClimatologyError(
+      ErrorCode.CLIMATOLOGY_INVALID_DATA,
+      `Invalid climate data from "${source}": ${reason}`,
+      `Could not read climate data: ${reason}`,
+      {
+        source,
+        debugInfo: { source, reason },
+      }
+    );
+  }
+}
@@ -15,6 +15,10 @@ export { GeocodingError, type LocationSuggestion } from "./geocoding";
 export { ApiError } from "./api";
 export { ConfigError } from "./config";
 export { CacheError } from "./cache";
+export { VerificationError } from "./verification";
+export { WatchError } from "./watch";
+export { RunHistoryError } from "./runs";
+export { ClimatologyError } from "./climatology";
 
 /**
  * Type guard to check if an error is any Weather Oracle error
@@ -51,9 +55,41 @@ export function isCacheError(error: unknown): error is CacheError {
   return error instanceof CacheError;
 }
 
+/**
+ * Type guard for VerificationError
+ */
+export function isVerificationError(error: unknown): error is VerificationError {
+  return error instanceof VerificationError;
+}
+
+/**
+ * Type guard for WatchError
+ */
+export function isWatchError(error: unknown): error is WatchError {
+  return error instanceof WatchError;
+}
+
+/**
+ * Type guard for RunHistoryError
+ */
+export function isRunHistoryError(error: unknown): error is RunHistoryError {
+  return error instanceof RunHistoryError;
+}
+
+/**
+ * Type guard for ClimatologyError
+ */
+export function isClimatologyError(error: unknown): error is ClimatologyError {
+  return error instanceof ClimatologyError;
+}
+
 // Import classes for type guards
 import { WeatherOracleError } from "./base";
 import { GeocodingError } from "./geocoding";
 import { ApiError } from "./api";
 import { ConfigError } from "./config";
 import { CacheError } from "./cache";
+import { VerificationError } from "./verification";
+import { WatchError } from "./watch";
+import { RunHistoryError } from "./runs";
+import { ClimatologyError } from "./climatology";
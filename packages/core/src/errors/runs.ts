@@ -0,0 +1,50 @@
+/**
+ * Model run history error classes.
+ */
+
+import { WeatherOracleError, ErrorCode, type ErrorDebugInfo } from "./base";
+
+/**
+ * Error thrown when the model run history cannot be read or written.
+ */
+export class RunHistoryError extends WeatherOracleError {
+  readonly storePath?: string;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    userMessage: string,
+    options?: {
+      storePath?: string;
+      debugInfo?: Omit<ErrorDebugInfo, "timestamp">;
+    }
+  ) {
+    super(code, message, userMessage, options?.debugInfo);
+    this.name = "RunHistoryError";
+    this.storePath = options?.storePath;
+  }
+
+  /**
+   * Create an error for failed reads/writes of the run history store
+   */
+  static storeError(
+    storePath: string,
+    operation: "read" | "write",
+    cause?: Error
+  ): RunHistoryError {
+    return new RunHistoryError(
+      ErrorCode.RUN_HISTORY_STORE_ERROR,
+      `Failed to ${operation} model run history at "${storePath}": ${cause?.message ?? "Unknown error"}`,
+      `Could not ${operation} model run history. Please check the runs directory.`,
+      {
+        storePath,
+        debugInfo: {
+          storePath,
+          operation,
+          originalError: cause?.message,
+          originalStack: cause?.stack,
+        },
+      }
+    );
+  }
+}
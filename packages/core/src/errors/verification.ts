@@ -0,0 +1,71 @@
+/**
+ * Verification-specific error classes.
+ */
+
+import { WeatherOracleError, ErrorCode, type ErrorDebugInfo } from "./base";
+
+/**
+ * Error thrown when forecast verification operations fail.
+ */
+export class VerificationError extends WeatherOracleError {
+  readonly storePath?: string;
+  readonly source?: string;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    userMessage: string,
+    options?: {
+      storePath?: string;
+      source?: string;
+      debugInfo?: Omit<ErrorDebugInfo, "timestamp">;
+    }
+  ) {
+    super(code, message, userMessage, options?.debugInfo);
+    this.name = "VerificationError";
+    this.storePath = options?.storePath;
+    this.source = options?.source;
+  }
+
+  /**
+   * Create an error for failed reads/writes of the verification store
+   */
+  static storeError(
+    storePath: string,
+    operation: "read" | "write",
+    cause?: Error
+  ): VerificationError {
+    return new VerificationError(
+      ErrorCode.VERIFICATION_STORE_ERROR,
+      `Failed to ${operation} verification data at "${storePath}": ${cause?.message ?? "Unknown error"}`,
+      `Could not ${operation} verification history. Please check the verification directory.`,
+      {
+        storePath,
+        debugInfo: {
+          storePath,
+          operation,
+          originalError: cause?.message,
+          originalStack: cause?.stack,
+        },
+      }
+    );
+  }
+
+  /**
+   * Create an error for observation data that cannot be parsed
+   */
+  static invalidObservations(
+    source: string,
+    reason: string
+  ): VerificationError {
+    return new VerificationError(
+      ErrorCode.VERIFICATION_INVALID_OBSERVATIONS,
+      `Invalid observations from "${source}": ${reason}`,
+      `Could not read observations: ${reason}`,
+      {
+        source,
+        debugInfo: { source, reason },
+      }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Watch mode error classes.
+ */
+
+import { WeatherOracleError, ErrorCode, type ErrorDebugInfo } from "./base";
+
+/**
+ * Error thrown when watch mode cannot deliver a change notification.
+ */
+export class WatchError extends WeatherOracleError {
+  readonly target?: string;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    userMessage: string,
+    options?: {
+      target?: string;
+      debugInfo?: Omit<ErrorDebugInfo, "timestamp">;
+    }
+  ) {
+    super(code, message, userMessage, options?.debugInfo);
+    this.name = "WatchError";
+    this.target = options?.target;
+  }
+
+  /**
+   * Create an error for a notification that could not be written or sent
+   */
+  static notifyFailed(target: string, cause?: Error): WatchError {
+    return new WatchError(
+      ErrorCode.WATCH_NOTIFY_FAILED,
+      `Failed to deliver watch notification to "${target}": ${cause?.message ?? "Unknown error"}`,
+      `Could not deliver forecast change notification to ${target}.`,
+      {
+        target,
+        debugInfo: {
+          target,
+          originalError: cause?.message,
+          originalStack: cause?.stack,
+        },
+      }
+    );
+  }
+}
@@ -0,0 +1,418 @@
+/**
+ * Bundled gazetteer dataset.
+ * A compact, GeoNames cities15000-style list of major cities used for
+ * offline geocoding. One city per line:
+ *
+ *   name|alternate names (;-separated)|latitude|longitude|country code|admin1 code|admin1 name|population|timezone
+ */
+
+/**
+ * Country names and common aliases, keyed by ISO 3166-1 alpha-2 code
+ */
+export const GAZETTEER_COUNTRIES: Readonly<Record<string, readonly [string, ...string[]]>> = {
+  AE: ["United Arab Emirates", "UAE"],
+  AM: ["Armenia"],
+  AR: ["Argentina"],
+  AT: ["Austria", "Österreich"],
+  AU: ["Australia"],
+  AZ: ["Azerbaijan"],
+  BD: ["Bangladesh"],
+  BE: ["Belgium", "België", "Belgique"],
+  BG: ["Bulgaria"],
+  BO: ["Bolivia"],
+  BR: ["Brazil", "Brasil"],
+  BY: ["Belarus"],
+  CA: ["Canada"],
+  CD: ["DR Congo", "Democratic Republic of the Congo", "Congo"],
+  CH: ["Switzerland", "Schweiz", "Suisse"],
+  CL: ["Chile"],
+  CN: ["China"],
+  CO: ["Colombia"],
+  CR: ["Costa Rica"],
+  CU: ["Cuba"],
+  CY: ["Cyprus"],
+  CZ: ["Czechia", "Czech Republic"],
+  DE: ["Germany", "Deutschland"],
+  DK: ["Denmark", "Danmark"],
+  DZ: ["Algeria"],
+  EC: ["Ecuador"],
+  EE: ["Estonia"],
+  EG: ["Egypt"],
+  ES: ["Spain", "España"],
+  ET: ["Ethiopia"],
+  FI: ["Finland", "Suomi"],
+  FJ: ["Fiji"],
+  FR: ["France"],
+  GB: ["United Kingdom", "UK", "Great Britain", "Britain"],
+  GE: ["Georgia"],
+  GH: ["Ghana"],
+  GR: ["Greece"],
+  HK: ["Hong Kong"],
+  HR: ["Croatia", "Hrvatska"],
+  HU: ["Hungary"],
+  ID: ["Indonesia"],
+  IE: ["Ireland", "Éire"],
+  IL: ["Israel"],
+  IN: ["India"],
+  IQ: ["Iraq"],
+  IR: ["Iran"],
+  IS: ["Iceland"],
+  IT: ["Italy", "Italia"],
+  JO: ["Jordan"],
+  JP: ["Japan"],
+  KE: ["Kenya"],
+  KR: ["South Korea", "Korea"],
+  KZ: ["Kazakhstan"],
+  LB: ["Lebanon"],
+  LK: ["Sri Lanka"],
+  LT: ["Lithuania"],
+  LU: ["Luxembourg"],
+  LV: ["Latvia"],
+  MA: ["Morocco"],
+  MN: ["Mongolia"],
+  MT: ["Malta"],
+  MX: ["Mexico", "México"],
+  MY: ["Malaysia"],
+  NG: ["Nigeria"],
+  NL: ["Netherlands", "The Netherlands", "Holland"],
+  NO: ["Norway", "Norge"],
+  NP: ["Nepal"],
+  NZ: ["New Zealand"],
+  PA: ["Panama"],
+  PE: ["Peru"],
+  PH: ["Philippines"],
+  PK: ["Pakistan"],
+  PL: ["Poland", "Polska"],
+  PT: ["Portugal"],
+  PY: ["Paraguay"],
+  QA: ["Qatar"],
+  RO: ["Romania"],
+  RS: ["Serbia"],
+  RU: ["Russia", "Russian Federation"],
+  SA: ["Saudi Arabia"],
+  SE: ["Sweden", "Sverige"],
+  SG: ["Singapore"],
+  SI: ["Slovenia"],
+  SK: ["Slovakia"],
+  SN: ["Senegal"],
+  TH: ["Thailand"],
+  TN: ["Tunisia"],
+  TR: ["Turkey", "Türkiye"],
+  TW: ["Taiwan"],
+  TZ: ["Tanzania"],
+  UA: ["Ukraine"],
+  UG: ["Uganda"],
+  US: ["United States", "USA", "United States of America", "America"],
+  UY: ["Uruguay"],
+  UZ: ["Uzbekistan"],
+  VE: ["Venezuela"],
+  VN: ["Vietnam", "Viet Nam"],
+  ZA: ["South Africa"],
+};
+
+/**
+ * Bundled city records
+ */
+export const GAZETTEER_CITIES = `
+London||51.50853|-0.12574|GB|ENG|England|8961989|Europe/London
+Birmingham||52.48142|-1.89983|GB|ENG|England|984333|Europe/London
+Liverpool||53.41058|-2.97794|GB|ENG|England|864122|Europe/London
+Sheffield||53.38297|-1.4659|GB|ENG|England|685368|Europe/London
+Bristol||51.45523|-2.59665|GB|ENG|England|617280|Europe/London
+Leeds||53.79648|-1.54785|GB|ENG|England|455123|Europe/London
+Manchester||53.48095|-2.23743|GB|ENG|England|395515|Europe/London
+Plymouth||50.37153|-4.14305|GB|ENG|England|260203|Europe/London
+Southampton||50.90395|-1.40428|GB|ENG|England|246201|Europe/London
+Nottingham||52.9536|-1.15047|GB|ENG|England|246093|Europe/London
+Newcastle upon Tyne|Newcastle|54.97328|-1.61396|GB|ENG|England|192382|Europe/London
+Oxford||51.75222|-1.25596|GB|ENG|England|154600|Europe/London
+York||53.95763|-1.08271|GB|ENG|England|153717|Europe/London
+Brighton||50.82838|-0.13947|GB|ENG|England|139001|Europe/London
+Cambridge||52.2|0.11667|GB|ENG|England|128488|Europe/London
+Glasgow||55.86515|-4.25763|GB|SCT|Scotland|591620|Europe/London
+Edinburgh||55.95206|-3.19648|GB|SCT|Scotland|464990|Europe/London
+Aberdeen||57.14369|-2.09814|GB|SCT|Scotland|196670|Europe/London
+Perth||56.39522|-3.43139|GB|SCT|Scotland|47180|Europe/London
+Cardiff|Caerdydd|51.48|-3.18|GB|WLS|Wales|447287|Europe/London
+Belfast||54.59682|-5.92541|GB|NIR|Northern Ireland|274770|Europe/London
+Dublin|Baile Átha Cliath|53.33306|-6.24889|IE||Leinster|1024027|Europe/Dublin
+Cork||51.89797|-8.47061|IE||Munster|190384|Europe/Dublin
+Limerick||52.66472|-8.62306|IE||Munster|94192|Europe/Dublin
+Galway||53.27194|-9.04889|IE||Connacht|70686|Europe/Dublin
+Paris||48.85341|2.3488|FR||Île-de-France|2138551|Europe/Paris
+Marseille|Marseilles|43.29695|5.38107|FR||Provence-Alpes-Côte d'Azur|870731|Europe/Paris
+Lyon|Lyons|45.74846|4.84671|FR||Auvergne-Rhône-Alpes|522969|Europe/Paris
+Toulouse||43.60426|1.44367|FR||Occitanie|493465|Europe/Paris
+Nice||43.70313|7.26608|FR||Provence-Alpes-Côte d'Azur|342669|Europe/Paris
+Nantes||47.21725|-1.55336|FR||Pays de la Loire|318808|Europe/Paris
+Montpellier||43.61092|3.87723|FR||Occitanie|295542|Europe/Paris
+Strasbourg||48.58392|7.74553|FR||Grand Est|290576|Europe/Paris
+Bordeaux||44.84044|-0.5805|FR||Nouvelle-Aquitaine|260958|Europe/Paris
+Lille||50.63297|3.05858|FR||Hauts-de-France|234475|Europe/Paris
+Berlin||52.52437|13.41053|DE||Berlin|3426354|Europe/Berlin
+Hamburg||53.57532|10.01534|DE||Hamburg|1845229|Europe/Berlin
+Munich|München;Muenchen|48.13743|11.57549|DE||Bavaria|1260391|Europe/Berlin
+Cologne|Köln;Koeln|50.93333|6.95|DE||North Rhine-Westphalia|963395|Europe/Berlin
+Frankfurt am Main|Frankfurt|50.11552|8.68417|DE||Hesse|650000|Europe/Berlin
+Stuttgart||48.78232|9.17702|DE||Baden-Württemberg|589793|Europe/Berlin
+Düsseldorf|Duesseldorf|51.22172|6.77616|DE||North Rhine-Westphalia|573057|Europe/Berlin
+Bremen||53.07516|8.80777|DE||Bremen|546501|Europe/Berlin
+Hanover|Hannover|52.37052|9.73322|DE||Lower Saxony|515140|Europe/Berlin
+Leipzig||51.33962|12.37129|DE||Saxony|504971|Europe/Berlin
+Nuremberg|Nürnberg;Nuernberg|49.45421|11.07752|DE||Bavaria|499237|Europe/Berlin
+Dresden||51.05089|13.73832|DE||Saxony|486854|Europe/Berlin
+Amsterdam||52.37403|4.88969|NL||North Holland|741636|Europe/Amsterdam
+Rotterdam||51.9225|4.47917|NL||South Holland|598199|Europe/Amsterdam
+The Hague|Den Haag;'s-Gravenhage|52.07667|4.29861|NL||South Holland|474292|Europe/Amsterdam
+Utrecht||52.09083|5.12222|NL||Utrecht|290529|Europe/Amsterdam
+Eindhoven||51.44083|5.47778|NL||North Brabant|209620|Europe/Amsterdam
+Brussels|Bruxelles;Brussel|50.85045|4.34878|BE||Brussels Capital|1019022|Europe/Brussels
+Antwerp|Antwerpen;Anvers|51.21989|4.40346|BE||Flanders|459805|Europe/Brussels
+Ghent|Gent;Gand|51.05|3.71667|BE||Flanders|231493|Europe/Brussels
+Luxembourg|Luxemburg|49.61167|6.13|LU||Luxembourg|76684|Europe/Luxembourg
+Zurich|Zürich|47.36667|8.55|CH||Zurich|341730|Europe/Zurich
+Geneva|Genève;Genf|46.20222|6.14569|CH||Geneva|183981|Europe/Zurich
+Basel|Bâle|47.55839|7.57327|CH||Basel-City|164488|Europe/Zurich
+Bern|Berne|46.94809|7.44744|CH||Bern|121631|Europe/Zurich
+Vienna|Wien|48.20849|16.37208|AT||Vienna|1691468|Europe/Vienna
+Graz||47.06667|15.45|AT||Styria|222326|Europe/Vienna
+Salzburg||47.79941|13.04399|AT||Salzburg|145871|Europe/Vienna
+Innsbruck||47.26266|11.39454|AT||Tyrol|112467|Europe/Vienna
+Rome|Roma|41.89193|12.51133|IT||Lazio|2318895|Europe/Rome
+Milan|Milano|45.46427|9.18951|IT||Lombardy|1236837|Europe/Rome
+Naples|Napoli|40.85216|14.26811|IT||Campania|909048|Europe/Rome
+Turin|Torino|45.07049|7.68682|IT||Piedmont|870456|Europe/Rome
+Palermo||38.13205|13.33561|IT||Sicily|668405|Europe/Rome
+Bologna||44.49381|11.33875|IT||Emilia-Romagna|366133|Europe/Rome
+Florence|Firenze|43.77925|11.24626|IT||Tuscany|349296|Europe/Rome
+Venice|Venezia|45.43713|12.33265|IT||Veneto|51298|Europe/Rome
+Madrid||40.4165|-3.70256|ES||Madrid|3255944|Europe/Madrid
+Barcelona||41.38879|2.15899|ES||Catalonia|1620343|Europe/Madrid
+Valencia||39.46975|-0.37739|ES||Valencia|814208|Europe/Madrid
+Seville|Sevilla|37.38283|-5.97317|ES||Andalusia|703206|Europe/Madrid
+Zaragoza|Saragossa|41.65606|-0.87734|ES||Aragon|674317|Europe/Madrid
+Málaga|Malaga|36.72016|-4.42034|ES||Andalusia|568305|Europe/Madrid
+Palma|Palma de Mallorca|39.56939|2.65024|ES||Balearic Islands|401270|Europe/Madrid
+Las Palmas de Gran Canaria|Las Palmas|28.09973|-15.41343|ES||Canary Islands|378517|Atlantic/Canary
+Bilbao|Bilbo|43.26271|-2.92528|ES||Basque Country|354860|Europe/Madrid
+Córdoba|Cordoba|37.89155|-4.77275|ES||Andalusia|328428|Europe/Madrid
+Lisbon|Lisboa|38.71667|-9.13333|PT||Lisbon|517802|Europe/Lisbon
+Porto|Oporto|41.14961|-8.61099|PT||Porto|249633|Europe/Lisbon
+Funchal||32.66568|-16.92547|PT||Madeira|111892|Atlantic/Madeira
+Oslo||59.91273|10.74609|NO||Oslo|580000|Europe/Oslo
+Bergen||60.39299|5.32415|NO||Vestland|213585|Europe/Oslo
+Trondheim||63.43049|10.39506|NO||Trøndelag|147139|Europe/Oslo
+Stavanger||58.97005|5.73332|NO||Rogaland|121610|Europe/Oslo
+Tromsø|Tromso|69.6489|18.95508|NO||Troms og Finnmark|64000|Europe/Oslo
+Stockholm||59.32938|18.06871|SE||Stockholm|1515017|Europe/Stockholm
+Gothenburg|Göteborg;Goteborg|57.70716|11.96679|SE||Västra Götaland|572799|Europe/Stockholm
+Malmö|Malmo|55.60587|13.00073|SE||Skåne|301706|Europe/Stockholm
+Copenhagen|København;Kobenhavn|55.67594|12.56553|DK||Capital Region|1153615|Europe/Copenhagen
+Aarhus|Århus|56.15674|10.21076|DK||Central Jutland|285273|Europe/Copenhagen
+Helsinki|Helsingfors|60.16952|24.93545|FI||Uusimaa|558457|Europe/Helsinki
+Tampere|Tammerfors|61.49911|23.78712|FI||Pirkanmaa|202687|Europe/Helsinki
+Reykjavík|Reykjavik|64.13548|-21.89541|IS||Capital Region|118918|Atlantic/Reykjavik
+Warsaw|Warszawa|52.22977|21.01178|PL||Masovia|1702139|Europe/Warsaw
+Kraków|Krakow;Cracow|50.06143|19.93658|PL||Lesser Poland|755050|Europe/Warsaw
+Wrocław|Wroclaw;Breslau|51.1|17.03333|PL||Lower Silesia|634893|Europe/Warsaw
+Gdańsk|Gdansk;Danzig|54.35205|18.64637|PL||Pomerania|461865|Europe/Warsaw
+Prague|Praha;Prag|50.08804|14.42076|CZ||Prague|1165581|Europe/Prague
+Brno||49.19522|16.60796|CZ||South Moravia|369559|Europe/Prague
+Budapest||47.49801|19.03991|HU||Budapest|1741041|Europe/Budapest
+Bratislava||48.14816|17.10674|SK||Bratislava|423737|Europe/Bratislava
+Ljubljana||46.05108|14.50513|SI||Ljubljana|255115|Europe/Ljubljana
+Zagreb||45.81444|15.97798|HR||City of Zagreb|698966|Europe/Zagreb
+Split||43.50891|16.43915|HR||Split-Dalmatia|176314|Europe/Zagreb
+Belgrade|Beograd|44.80401|20.46513|RS||Belgrade|1273651|Europe/Belgrade
+Bucharest|București;Bucuresti|44.43225|26.10626|RO||Bucharest|1877155|Europe/Bucharest
+Sofia|Sofiya|42.69751|23.32415|BG||Sofia-Capital|1152556|Europe/Sofia
+Athens|Athína;Athina|37.98376|23.72784|GR||Attica|664046|Europe/Athens
+Thessaloniki|Salonica|40.64361|22.93086|GR||Central Macedonia|354290|Europe/Athens
+Istanbul|İstanbul;Constantinople|41.01384|28.94966|TR||Istanbul|14804116|Europe/Istanbul
+Ankara||39.91987|32.85427|TR||Ankara|3517182|Europe/Istanbul
+Izmir|İzmir;Smyrna|38.41273|27.13838|TR||Izmir|2500603|Europe/Istanbul
+Kyiv|Kiev;Kyiv City|50.45466|30.5238|UA||Kyiv City|2797553|Europe/Kyiv
+Moscow|Moskva|55.75222|37.61556|RU||Moscow|10381222|Europe/Moscow
+Saint Petersburg|St Petersburg;Sankt-Peterburg|59.93863|30.31413|RU||St.-Petersburg|5351935|Europe/Moscow
+Vilnius||54.68916|25.2798|LT||Vilnius|542366|Europe/Vilnius
+Riga||56.946|24.10589|LV||Riga|742572|Europe/Riga
+Tallinn||59.43696|24.75353|EE||Harju|394024|Europe/Tallinn
+Minsk||53.9|27.56667|BY||Minsk City|1742124|Europe/Minsk
+Valletta||35.89968|14.5148|MT||Valletta|6966|Europe/Malta
+Nicosia|Lefkosia|35.17531|33.3642|CY||Nicosia|200452|Asia/Nicosia
+New York City|New York;NYC|40.71427|-74.00597|US|NY|New York|8804190|America/New_York
+Los Angeles|LA|34.05223|-118.24368|US|CA|California|3898747|America/Los_Angeles
+Chicago||41.85003|-87.65005|US|IL|Illinois|2746388|America/Chicago
+Houston||29.76328|-95.36327|US|TX|Texas|2304580|America/Chicago
+Phoenix||33.44838|-112.07404|US|AZ|Arizona|1608139|America/Phoenix
+Philadelphia||39.95238|-75.16362|US|PA|Pennsylvania|1603797|America/New_York
+San Antonio||29.42412|-98.49363|US|TX|Texas|1434625|America/Chicago
+San Diego||32.71571|-117.16472|US|CA|California|1386932|America/Los_Angeles
+Dallas||32.78306|-96.80667|US|TX|Texas|1304379|America/Chicago
+San Jose|San José|37.33939|-121.89496|US|CA|California|1013240|America/Los_Angeles
+Austin||30.26715|-97.74306|US|TX|Texas|961855|America/Chicago
+Jacksonville||30.33218|-81.65565|US|FL|Florida|949611|America/New_York
+Columbus||39.96118|-82.99879|US|OH|Ohio|905748|America/New_York
+Indianapolis||39.76838|-86.15804|US|IN|Indiana|887642|America/Indiana/Indianapolis
+Charlotte||35.22709|-80.84313|US|NC|North Carolina|874579|America/New_York
+San Francisco|SF|37.77493|-122.41942|US|CA|California|873965|America/Los_Angeles
+Seattle||47.60621|-122.33207|US|WA|Washington|737015|America/Los_Angeles
+Denver||39.73915|-104.9847|US|CO|Colorado|715522|America/Denver
+Washington|Washington DC;Washington D.C.|38.89511|-77.03637|US|DC|District of Columbia|689545|America/New_York
+Nashville||36.16589|-86.78444|US|TN|Tennessee|689447|America/Chicago
+Oklahoma City||35.46756|-97.51643|US|OK|Oklahoma|681054|America/Chicago
+Boston||42.35843|-71.05977|US|MA|Massachusetts|675647|America/New_York
+Portland||45.52345|-122.67621|US|OR|Oregon|652503|America/Los_Angeles
+Las Vegas||36.17497|-115.13722|US|NV|Nevada|641903|America/Los_Angeles
+Detroit||42.33143|-83.04575|US|MI|Michigan|639111|America/Detroit
+Memphis||35.14953|-90.04898|US|TN|Tennessee|633104|America/Chicago
+Baltimore||39.29038|-76.61219|US|MD|Maryland|585708|America/New_York
+Milwaukee||43.0389|-87.90647|US|WI|Wisconsin|577222|America/Chicago
+Albuquerque||35.08449|-106.65114|US|NM|New Mexico|564559|America/Denver
+Tucson||32.22174|-110.92648|US|AZ|Arizona|542629|America/Phoenix
+Sacramento||38.58157|-121.4944|US|CA|California|524943|America/Los_Angeles
+Kansas City||39.09973|-94.57857|US|MO|Missouri|508090|America/Chicago
+Atlanta||33.749|-84.38798|US|GA|Georgia|498715|America/New_York
+Raleigh||35.7721|-78.63861|US|NC|North Carolina|467665|America/New_York
+Miami||25.77427|-80.19366|US|FL|Florida|442241|America/New_York
+Minneapolis||44.97997|-93.26384|US|MN|Minnesota|429954|America/Chicago
+Tampa||27.94752|-82.45843|US|FL|Florida|384959|America/New_York
+New Orleans||29.95465|-90.07507|US|LA|Louisiana|383997|America/Chicago
+Cleveland||41.4995|-81.69541|US|OH|Ohio|372624|America/New_York
+Honolulu||21.30694|-157.85833|US|HI|Hawaii|350964|Pacific/Honolulu
+Cincinnati||39.12711|-84.51439|US|OH|Ohio|309317|America/New_York
+Orlando||28.53834|-81.37924|US|FL|Florida|307573|America/New_York
+Pittsburgh||40.44062|-79.99589|US|PA|Pennsylvania|302971|America/New_York
+St. Louis|Saint Louis;St Louis|38.62727|-90.19789|US|MO|Missouri|301578|America/Chicago
+Anchorage||61.21806|-149.90028|US|AK|Alaska|291247|America/Anchorage
+Buffalo||42.88645|-78.87837|US|NY|New York|278349|America/New_York
+Boise||43.6135|-116.20345|US|ID|Idaho|235684|America/Boise
+Richmond||37.55376|-77.46026|US|VA|Virginia|226610|America/New_York
+Birmingham||33.52066|-86.80249|US|AL|Alabama|200733|America/Chicago
+Salt Lake City||40.76078|-111.89105|US|UT|Utah|200133|America/Denver
+Springfield||37.21533|-93.29824|US|MO|Missouri|169176|America/Chicago
+Springfield||42.10148|-72.58981|US|MA|Massachusetts|155929|America/New_York
+Springfield||39.80172|-89.64371|US|IL|Illinois|114394|America/Chicago
+Cambridge||42.3751|-71.10561|US|MA|Massachusetts|118403|America/New_York
+Portland||43.66147|-70.25533|US|ME|Maine|68408|America/New_York
+Dublin||40.09923|-83.11408|US|OH|Ohio|49328|America/New_York
+Paris||33.66094|-95.55551|US|TX|Texas|24782|America/Chicago
+Toronto||43.70011|-79.4163|CA|ON|Ontario|2731571|America/Toronto
+Montreal|Montréal|45.50884|-73.58781|CA|QC|Quebec|1762949|America/Toronto
+Calgary||51.05011|-114.08529|CA|AB|Alberta|1239220|America/Edmonton
+Edmonton||53.55014|-113.46871|CA|AB|Alberta|981280|America/Edmonton
+Ottawa||45.41117|-75.69812|CA|ON|Ontario|812129|America/Toronto
+Winnipeg||49.8844|-97.14704|CA|MB|Manitoba|749534|America/Winnipeg
+Vancouver||49.24966|-123.11934|CA|BC|British Columbia|631486|America/Vancouver
+Hamilton||43.25011|-79.84963|CA|ON|Ontario|536917|America/Toronto
+Quebec City|Québec;Quebec|46.81228|-71.21454|CA|QC|Quebec|531902|America/Toronto
+Halifax||44.64533|-63.57239|CA|NS|Nova Scotia|403131|America/Halifax
+London||42.98339|-81.23304|CA|ON|Ontario|383822|America/Toronto
+St. John's|St Johns;Saint John's|47.56494|-52.70931|CA|NL|Newfoundland and Labrador|108860|America/St_Johns
+Victoria||48.43294|-123.3693|CA|BC|British Columbia|91867|America/Vancouver
+Mexico City|Ciudad de México;CDMX|19.42847|-99.12766|MX||Mexico City|12294193|America/Mexico_City
+Guadalajara||20.66682|-103.39182|MX||Jalisco|1385629|America/Mexico_City
+Monterrey||25.67507|-100.31847|MX||Nuevo León|1135512|America/Monterrey
+Cancún|Cancun|21.17429|-86.84656|MX||Quintana Roo|628306|America/Cancun
+Havana|La Habana|23.13302|-82.38304|CU||Havana|2163824|America/Havana
+San José|San Jose|9.93333|-84.08333|CR||San José|335007|America/Costa_Rica
+Panama City|Panamá;Ciudad de Panamá|8.9936|-79.51973|PA||Panamá|408168|America/Panama
+Bogotá|Bogota|4.60971|-74.08175|CO||Bogota D.C.|7674366|America/Bogota
+Medellín|Medellin|6.25184|-75.56359|CO||Antioquia|1999979|America/Bogota
+Lima||-12.04318|-77.02824|PE||Lima|7737002|America/Lima
+Quito||-0.22985|-78.52495|EC||Pichincha|1399814|America/Guayaquil
+Caracas||10.48801|-66.87919|VE||Capital District|3000000|America/Caracas
+Valencia||10.16202|-68.00765|VE||Carabobo|1385202|America/Caracas
+Santiago|Santiago de Chile|-33.45694|-70.64827|CL||Santiago Metropolitan|4837295|America/Santiago
+Buenos Aires||-34.61315|-58.37723|AR||Buenos Aires F.D.|3054300|America/Argentina/Buenos_Aires
+Córdoba|Cordoba|-31.4135|-64.18105|AR||Córdoba|1428214|America/Argentina/Cordoba
+Montevideo||-34.90328|-56.18816|UY||Montevideo|1270737|America/Montevideo
+São Paulo|Sao Paulo|-23.5475|-46.63611|BR||São Paulo|10021295|America/Sao_Paulo
+Rio de Janeiro|Rio|-22.90642|-43.18223|BR||Rio de Janeiro|6023699|America/Sao_Paulo
+Brasília|Brasilia|-15.77972|-47.92972|BR||Federal District|2207718|America/Sao_Paulo
+La Paz||-16.5|-68.15|BO||La Paz|812799|America/La_Paz
+Asunción|Asuncion|-25.28646|-57.647|PY||Asunción|1482200|America/Asuncion
+Cairo|Al Qahirah|30.06263|31.24967|EG||Cairo|7734614|Africa/Cairo
+Lagos||6.45407|3.39467|NG||Lagos|9000000|Africa/Lagos
+Kinshasa||-4.32758|15.31357|CD||Kinshasa|7785965|Africa/Kinshasa
+Casablanca||33.58831|-7.61138|MA||Casablanca-Settat|3144909|Africa/Casablanca
+Marrakesh|Marrakech|31.63416|-7.99994|MA||Marrakesh-Safi|839296|Africa/Casablanca
+Cape Town||-33.92584|18.42322|ZA|WC|Western Cape|3433441|Africa/Johannesburg
+Durban||-29.8579|31.0292|ZA|KZN|KwaZulu-Natal|3120282|Africa/Johannesburg
+Johannesburg||-26.20227|28.04363|ZA|GT|Gauteng|2026469|Africa/Johannesburg
+Addis Ababa||9.02497|38.74689|ET||Addis Ababa|2757729|Africa/Addis_Ababa
+Nairobi||-1.28333|36.81667|KE||Nairobi|2750547|Africa/Nairobi
+Dar es Salaam||-6.82349|39.26951|TZ||Dar es Salaam|2698652|Africa/Dar_es_Salaam
+Dakar||14.6937|-17.44406|SN||Dakar|2476400|Africa/Dakar
+Algiers|Alger|36.73225|3.08746|DZ||Algiers|1977663|Africa/Algiers
+Accra||5.55602|-0.1969|GH||Greater Accra|1963264|Africa/Accra
+Kampala||0.31628|32.58219|UG||Central|1353189|Africa/Kampala
+Tunis||36.81897|10.16579|TN||Tunis|693210|Africa/Tunis
+Dubai||25.07725|55.30927|AE||Dubai|3790000|Asia/Dubai
+Abu Dhabi||24.45118|54.39696|AE||Abu Dhabi|603492|Asia/Dubai
+Doha||25.28545|51.53096|QA||Baladiyat ad Dawhah|344939|Asia/Qatar
+Riyadh||24.68773|46.72185|SA||Riyadh|4205961|Asia/Riyadh
+Jeddah|Jidda|21.54238|39.19797|SA||Makkah|2867446|Asia/Riyadh
+Jerusalem||31.76904|35.21633|IL||Jerusalem|801000|Asia/Jerusalem
+Tel Aviv|Tel Aviv-Yafo|32.08088|34.78057|IL||Tel Aviv|432892|Asia/Jerusalem
+Amman||31.95522|35.94503|JO||Amman|1275857|Asia/Amman
+Beirut||33.89332|35.50157|LB||Beirut|1916100|Asia/Beirut
+Tehran|Teheran|35.69439|51.42151|IR||Tehran|7153309|Asia/Tehran
+Baghdad||33.34058|44.40088|IQ||Baghdad|5672513|Asia/Baghdad
+Karachi||24.8608|67.0104|PK||Sindh|11624219|Asia/Karachi
+Lahore||31.558|74.35071|PK||Punjab|6310888|Asia/Karachi
+Hyderabad||25.39242|68.37366|PK||Sindh|1386330|Asia/Karachi
+Islamabad||33.72148|73.04329|PK||Islamabad|601600|Asia/Karachi
+Mumbai|Bombay|19.07283|72.88261|IN||Maharashtra|12691836|Asia/Kolkata
+Delhi|New Delhi|28.65195|77.23149|IN||Delhi|10927986|Asia/Kolkata
+Bengaluru|Bangalore|12.97194|77.59369|IN||Karnataka|5104047|Asia/Kolkata
+Kolkata|Calcutta|22.56263|88.36304|IN||West Bengal|4631392|Asia/Kolkata
+Chennai|Madras|13.08784|80.27847|IN||Tamil Nadu|4328063|Asia/Kolkata
+Hyderabad||17.38405|78.45636|IN||Telangana|3597816|Asia/Kolkata
+Dhaka|Dacca|23.7104|90.40744|BD||Dhaka|10356500|Asia/Dhaka
+Kathmandu||27.70169|85.3206|NP||Bagmati|1442271|Asia/Kathmandu
+Colombo||6.93194|79.84778|LK||Western|648034|Asia/Colombo
+Bangkok|Krung Thep|13.75398|100.50144|TH||Bangkok|5104476|Asia/Bangkok
+Hanoi|Hà Nội|21.0245|105.84117|VN||Hanoi|8053663|Asia/Bangkok
+Ho Chi Minh City|Saigon|10.82302|106.62965|VN||Ho Chi Minh|3467331|Asia/Ho_Chi_Minh
+Kuala Lumpur||3.1412|101.68653|MY||Kuala Lumpur|1453975|Asia/Kuala_Lumpur
+Singapore||1.28967|103.85007|SG||Singapore|3547809|Asia/Singapore
+Jakarta||-6.21462|106.84513|ID||Jakarta|8540121|Asia/Jakarta
+Manila||14.6042|120.9822|PH||Metro Manila|1600000|Asia/Manila
+Hong Kong||22.27832|114.17469|HK||Hong Kong|7482500|Asia/Hong_Kong
+Taipei||25.04776|121.53185|TW||Taipei|2514000|Asia/Taipei
+Shanghai||31.22222|121.45806|CN||Shanghai|22315474|Asia/Shanghai
+Beijing|Peking|39.9075|116.39723|CN||Beijing|18960744|Asia/Shanghai
+Guangzhou|Canton|23.11667|113.25|CN||Guangdong|11071424|Asia/Shanghai
+Shenzhen||22.54554|114.0683|CN||Guangdong|10358381|Asia/Shanghai
+Chengdu||30.66667|104.06667|CN||Sichuan|7415590|Asia/Shanghai
+Seoul||37.566|126.9784|KR||Seoul|10349312|Asia/Seoul
+Busan|Pusan|35.10168|129.03004|KR||Busan|3678555|Asia/Seoul
+Tokyo||35.6895|139.69171|JP||Tokyo|8336599|Asia/Tokyo
+Yokohama||35.44778|139.6425|JP||Kanagawa|3574443|Asia/Tokyo
+Osaka||34.69374|135.50218|JP||Osaka|2592413|Asia/Tokyo
+Sapporo||43.06667|141.35|JP||Hokkaido|1883027|Asia/Tokyo
+Kyoto||35.02107|135.75385|JP||Kyoto|1459640|Asia/Tokyo
+Fukuoka||33.6|130.41667|JP||Fukuoka|1392289|Asia/Tokyo
+Ulaanbaatar|Ulan Bator|47.90771|106.88324|MN||Ulaanbaatar|844818|Asia/Ulaanbaatar
+Almaty||43.25667|76.92861|KZ||Almaty|2000900|Asia/Almaty
+Tashkent||41.26465|69.21627|UZ||Tashkent|1978028|Asia/Tashkent
+Baku||40.37767|49.89201|AZ||Baku|1116513|Asia/Baku
+Yerevan||40.18111|44.51361|AM||Yerevan|1093485|Asia/Yerevan
+Tbilisi||41.69411|44.83368|GE||Tbilisi|1049498|Asia/Tbilisi
+Sydney||-33.86785|151.20732|AU|NSW|New South Wales|4627345|Australia/Sydney
+Melbourne||-37.814|144.96332|AU|VIC|Victoria|4246375|Australia/Melbourne
+Brisbane||-27.46794|153.02809|AU|QLD|Queensland|2189878|Australia/Brisbane
+Perth||-31.95224|115.8614|AU|WA|Western Australia|1896548|Australia/Perth
+Adelaide||-34.92866|138.59863|AU|SA|South Australia|1225235|Australia/Adelaide
+Gold Coast||-28.00029|153.43088|AU|QLD|Queensland|679127|Australia/Brisbane
+Newcastle||-32.92953|151.7801|AU|NSW|New South Wales|497955|Australia/Sydney
+Canberra||-35.28346|149.12807|AU|ACT|Australian Capital Territory|367752|Australia/Sydney
+Hobart||-42.87936|147.32941|AU|TAS|Tasmania|206097|Australia/Hobart
+Darwin||-12.46113|130.84185|AU|NT|Northern Territory|129062|Australia/Darwin
+Auckland||-36.84853|174.76349|NZ||Auckland|1656000|Pacific/Auckland
+Christchurch||-43.53333|172.63333|NZ||Canterbury|383200|Pacific/Auckland
+Wellington||-41.28664|174.77557|NZ||Wellington|381900|Pacific/Auckland
+Hamilton||-37.78333|175.28333|NZ||Waikato|169300|Pacific/Auckland
+Suva||-18.14161|178.44149|FJ||Central|77366|Pacific/Fiji
+`;
@@ -0,0 +1,150 @@
+/**
+ * Tests for the offline gazetteer geocoder
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  normalizeName,
+  searchGazetteer,
+  searchLocationsOffline,
+  geocodeLocationOffline,
+  suggestLocations,
+  getGazetteerEntries,
+  reverseGeocodeOffline,
+  findNearestPlace,
+  type GazetteerEntry,
+} from "./gazetteer";
+import { GeocodingError } from "../errors/geocoding";
+import { ErrorCode } from "../errors/base";
+import { createCoordinates } from "../types/location";
+
+describe("normalizeName", () => {
+  it("strips diacritics and punctuation", () => {
+    expect(normalizeName("Zürich")).toBe("zurich");
+    expect(normalizeName("São Paulo")).toBe("sao paulo");
+    expect(normalizeName("Tromsø")).toBe("tromso");
+    expect(normalizeName("St. John's")).toBe("st john s");
+  });
+});
+
+describe("getGazetteerEntries", () => {
+  it("parses the bundled dataset", () => {
+    const entries = getGazetteerEntries();
+
+    expect(entries.length).toBeGreaterThan(200);
+    for (const entry of entries) {
+      expect(Number.isFinite(entry.latitude)).toBe(true);
+      expect(Number.isFinite(entry.longitude)).toBe(true);
+      expect(entry.timezone.length).toBeGreaterThan(0);
+    }
+  });
+});
+
+describe("geocodeLocationOffline", () => {
+  it("prefers the most populous exact match", () => {
+    const result = geocodeLocationOffline("London");
+
+    expect(result.countryCode).toBe("GB");
+    expect(result.country).toBe("United Kingdom");
+    expect(result.coordinates.latitude as number).toBeCloseTo(51.51, 1);
+  });
+
+  it("disambiguates by country name, region code and region name", () => {
+    expect(geocodeLocationOffline("London, Canada").countryCode).toBe("CA");
+    expect(geocodeLocationOffline("Portland, ME").region).toBe("Maine");
+    expect(geocodeLocationOffline("Springfield, Illinois").region).toBe("Illinois");
+    expect(geocodeLocationOffline("Paris, TX").countryCode).toBe("US");
+  });
+
+  it("matches accented names with or without accents", () => {
+    expect(geocodeLocationOffline("Zürich").name).toBe("Zurich");
+    expect(geocodeLocationOffline("Tromso").name).toBe("Tromsø");
+    expect(geocodeLocationOffline("montréal").countryCode).toBe("CA");
+  });
+
+  it("matches alternate names", () => {
+    expect(geocodeLocationOffline("Bombay").name).toBe("Mumbai");
+  });
+
+  it("matches name prefixes", () => {
+    expect(geocodeLocationOffline("Philadel").name).toBe("Philadelphia");
+  });
+
+  it("throws not found with suggestions for typos", () => {
+    let error: unknown;
+    try {
+      geocodeLocationOffline("Lodnon");
+    } catch (e) {
+      error = e;
+    }
+
+    expect(error).toBeInstanceOf(GeocodingError);
+    expect((error as GeocodingError).code).toBe(ErrorCode.GEOCODING_NOT_FOUND);
+    expect((error as GeocodingError).suggestions?.[0]?.name).toBe("London");
+  });
+
+  it("searches caller-provided entries", () => {
+    const entries: GazetteerEntry[] = [
+      {
+        name: "Testville",
+        alternateNames: [],
+        latitude: 10,
+        longitude: 20,
+        countryCode: "GB",
+        population: 100,
+        timezone: "Europe/London",
+      },
+    ];
+
+    expect(geocodeLocationOffline("Testville", { entries }).coordinates.longitude as number).toBe(
+      20
+    );
+    expect(() => geocodeLocationOffline("London", { entries })).toThrow(GeocodingError);
+  });
+});
+
+describe("searchLocationsOffline", () => {
+  it("returns matches ranked by population up to count", () => {
+    const results = searchLocationsOffline("Springfield", { count: 2 });
+
+    expect(results).toHaveLength(2);
+    expect(results.map((r) => r.region)).toEqual(["Missouri", "Massachusetts"]);
+  });
+
+  it("ranks exact matches above prefix matches", () => {
+    const [first] = searchGazetteer("Perth");
+
+    expect(first?.score).toBe(1);
+  });
+
+  it("returns nothing for an empty query", () => {
+    expect(searchLocationsOffline("  ")).toEqual([]);
+    expect(suggestLocations(", GB")).toEqual([]);
+  });
+});
+
+describe("reverseGeocodeOffline", () => {
+  it("names a point after the nearest city and keeps its coordinates", () => {
+    const point = createCoordinates(51.47, -0.45);
+    const result = reverseGeocodeOffline(point);
+
+    expect(result.name).toBe("London");
+    expect(result.coordinates).toEqual(point);
+    expect(result.timezone as string).toBe("Europe/London");
+    expect(findNearestPlace(point)?.distanceKm).toBeLessThan(30);
+  });
+
+  it("labels remote points by their coordinates", () => {
+    const result = reverseGeocodeOffline(createCoordinates(-45, -140));
+
+    expect(result.name).toBe("-45.0000, -140.0000");
+    expect(result.countryCode).toBe("XX");
+    expect(result.timezone as string).toBe("UTC");
+  });
+
+  it("respects a custom distance limit", () => {
+    const point = createCoordinates(51.47, -0.45);
+
+    expect(reverseGeocodeOffline(point, { maxDistanceKm: 5 }).countryCode).toBe("XX");
+  });
+});
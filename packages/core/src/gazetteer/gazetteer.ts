@@ -0,0 +1,403 @@
+/**
+ * Offline geocoder backed by the bundled gazetteer.
+ * Matches names, ASCII spellings and alternate names with typo tolerance,
+ * narrows by country or region qualifiers ("Portland, ME", "London, Canada"),
+ * and ranks by match quality then population.
+ */
+
+import type { Coordinates, GeocodingResult } from "../types/location";
+import { createCoordinates, timezoneId } from "../types/location";
+import { GeocodingError, type LocationSuggestion } from "../errors/geocoding";
+import { distanceKm, formatCoordinates } from "../geo/coordinates";
+import { GAZETTEER_CITIES, GAZETTEER_COUNTRIES } from "./data";
+
+/**
+ * A city in the gazetteer
+ */
+export interface GazetteerEntry {
+  readonly name: string;
+  readonly alternateNames: readonly string[];
+  readonly latitude: number;
+  readonly longitude: number;
+  readonly countryCode: string;
+  readonly admin1Code?: string;
+  readonly admin1?: string;
+  readonly population: number;
+  readonly timezone: string;
+}
+
+/**
+ * A gazetteer entry matched against a query
+ */
+export interface GazetteerMatch {
+  readonly entry: GazetteerEntry;
+  /**
+   * Match quality from 0 to 1 (1 = exact name match)
+   */
+  readonly score: number;
+}
+
+/**
+ * Options for gazetteer searches
+ */
+export interface GazetteerSearchOptions {
+  /**
+   * Maximum number of matches to return (default 5)
+   */
+  readonly count?: number;
+  /**
+   * Lowest match score to include (default: prefix matches and better)
+   */
+  readonly minScore?: number;
+  /**
+   * Entries to search instead of the bundled dataset
+   */
+  readonly entries?: readonly GazetteerEntry[];
+}
+
+/**
+ * The gazetteer entry nearest to a point
+ */
+export interface NearestPlace {
+  readonly entry: GazetteerEntry;
+  readonly distanceKm: number;
+}
+
+/**
+ * Options for offline reverse geocoding
+ */
+export interface ReverseGazetteerOptions {
+  /**
+   * Farthest a city may be from the point to name it (default 50 km)
+   */
+  readonly maxDistanceKm?: number;
+  /**
+   * Entries to search instead of the bundled dataset
+   */
+  readonly entries?: readonly GazetteerEntry[];
+}
+
+/**
+ * Default reach of offline reverse geocoding. The dataset only holds major
+ * cities, so points farther out are labelled by their coordinates instead.
+ */
+export const DEFAULT_REVERSE_DISTANCE_KM = 50;
+
+/**
+ * Score for a query that is a prefix of a name; also the lowest score
+ * that counts as a match rather than a suggestion
+ */
+export const PREFIX_MATCH_SCORE = 0.8;
+
+/**
+ * Lowest name similarity considered for suggestions
+ */
+const MIN_SIMILARITY = 0.6;
+
+/**
+ * Fuzzy matches rank below every prefix match
+ */
+const FUZZY_SCORE_SCALE = 0.75;
+
+/**
+ * Letters that don't decompose into a base letter plus diacritic
+ */
+const SPECIAL_LETTERS: Readonly<Record<string, string>> = {
+  ø: "o",
+  æ: "ae",
+  œ: "oe",
+  ß: "ss",
+  ł: "l",
+  đ: "d",
+  ð: "d",
+  þ: "th",
+  ı: "i",
+};
+
+/**
+ * Normalize a name for comparison: strip accents, lowercase, collapse punctuation
+ */
+export function normalizeName(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[øæœßłđðþı]/g, (ch) => SPECIAL_LETTERS[ch] ?? ch)
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+/**
+ * Optimal string alignment distance (Levenshtein plus adjacent transpositions)
+ */
+function editDistance(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) =>
+    Array.from({ length: cols }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+
+  return d[a.length][b.length];
+}
+
+/**
+ * Score one normalized name against a normalized query
+ */
+function scoreName(query: string, name: string): number {
+  if (name === query) {
+    return 1;
+  }
+  if (query.length >= 3 && name.startsWith(query)) {
+    return PREFIX_MATCH_SCORE + 0.1 * (query.length / name.length);
+  }
+
+  const similarity = 1 - editDistance(query, name) / Math.max(query.length, name.length);
+  return similarity >= MIN_SIMILARITY ? similarity * FUZZY_SCORE_SCALE : 0;
+}
+
+/**
+ * Parse the bundled dataset
+ */
+function parseGazetteer(data: string): GazetteerEntry[] {
+  return data
+    .split("\n")
+    .filter((line) => line.trim().length > 0)
+    .map((line) => {
+      const [name, alternates, lat, lon, countryCode, admin1Code, admin1, population, timezone] =
+        line.split("|");
+      return {
+        name,
+        alternateNames: alternates ? alternates.split(";") : [],
+        latitude: parseFloat(lat),
+        longitude: parseFloat(lon),
+        countryCode,
+        ...(admin1Code && { admin1Code }),
+        ...(admin1 && { admin1 }),
+        population: parseInt(population, 10),
+        timezone,
+      };
+    });
+}
+
+let bundledEntries: GazetteerEntry[] | undefined;
+
+/**
+ * Get the bundled gazetteer entries (parsed on first use)
+ */
+export function getGazetteerEntries(): readonly GazetteerEntry[] {
+  bundledEntries ??= parseGazetteer(GAZETTEER_CITIES);
+  return bundledEntries;
+}
+
+/**
+ * Get the display name of a country code
+ */
+export function getCountryName(countryCode: string): string {
+  return GAZETTEER_COUNTRIES[countryCode]?.[0] ?? countryCode;
+}
+
+/**
+ * Whether an entry's country or region matches a normalized qualifier
+ */
+function matchesQualifier(entry: GazetteerEntry, qualifier: string): boolean {
+  if (qualifier === entry.countryCode.toLowerCase()) {
+    return true;
+  }
+  if (entry.admin1Code !== undefined && qualifier === entry.admin1Code.toLowerCase()) {
+    return true;
+  }
+  if (entry.admin1 !== undefined && qualifier === normalizeName(entry.admin1)) {
+    return true;
+  }
+  return (GAZETTEER_COUNTRIES[entry.countryCode] ?? []).some(
+    (country) => normalizeName(country) === qualifier
+  );
+}
+
+/**
+ * Split "Portland, ME" into a normalized name and qualifiers
+ */
+function parseQuery(query: string): { name: string; qualifiers: string[] } {
+  const [name = "", ...rest] = query.split(",");
+  return {
+    name: normalizeName(name),
+    qualifiers: rest.map(normalizeName).filter((q) => q.length > 0),
+  };
+}
+
+/**
+ * Score every entry against a name, best first (ties go to the larger city)
+ */
+function rankEntries(
+  name: string,
+  entries: readonly GazetteerEntry[],
+  minScore: number
+): GazetteerMatch[] {
+  const matches: GazetteerMatch[] = [];
+
+  for (const entry of entries) {
+    let score = 0;
+    for (const candidate of [entry.name, ...entry.alternateNames]) {
+      score = Math.max(score, scoreName(name, normalizeName(candidate)));
+      if (score === 1) {
+        break;
+      }
+    }
+    if (score >= minScore && score > 0) {
+      matches.push({ entry, score });
+    }
+  }
+
+  return matches.sort((a, b) => b.score - a.score || b.entry.population - a.entry.population);
+}
+
+/**
+ * Search the gazetteer.
+ *
+ * A comma-separated query is treated as "name, qualifier, ...", where each
+ * qualifier must match the city's country (code, name or alias) or region
+ * (code or name).
+ */
+export function searchGazetteer(
+  query: string,
+  options: GazetteerSearchOptions = {}
+): GazetteerMatch[] {
+  const { name, qualifiers } = parseQuery(query);
+  if (name.length === 0) {
+    return [];
+  }
+
+  return rankEntries(
+    name,
+    options.entries ?? getGazetteerEntries(),
+    options.minScore ?? PREFIX_MATCH_SCORE
+  )
+    .filter((match) => qualifiers.every((q) => matchesQualifier(match.entry, q)))
+    .slice(0, options.count ?? 5);
+}
+
+/**
+ * Convert a gazetteer entry to a geocoding result
+ */
+export function gazetteerEntryToResult(entry: GazetteerEntry): GeocodingResult {
+  return {
+    name: entry.name,
+    coordinates: createCoordinates(entry.latitude, entry.longitude),
+    country: getCountryName(entry.countryCode),
+    countryCode: entry.countryCode,
+    ...(entry.admin1 !== undefined && { region: entry.admin1 }),
+    timezone: timezoneId(entry.timezone),
+    population: entry.population,
+  };
+}
+
+/**
+ * Suggest places for a query that did not match, including the other
+ * countries and regions a qualified name exists in
+ */
+export function suggestLocations(
+  query: string,
+  options: Omit<GazetteerSearchOptions, "minScore"> = {}
+): LocationSuggestion[] {
+  const { name } = parseQuery(query);
+  if (name.length === 0) {
+    return [];
+  }
+
+  return rankEntries(name, options.entries ?? getGazetteerEntries(), 0)
+    .slice(0, options.count ?? 3)
+    .map(({ entry }) => ({
+      name: entry.name,
+      country: getCountryName(entry.countryCode),
+      ...(entry.admin1 !== undefined && { region: entry.admin1 }),
+    }));
+}
+
+/**
+ * Search for locations without network access
+ */
+export function searchLocationsOffline(
+  query: string,
+  options: Omit<GazetteerSearchOptions, "minScore"> = {}
+): GeocodingResult[] {
+  return searchGazetteer(query, options).map((match) => gazetteerEntryToResult(match.entry));
+}
+
+/**
+ * Geocode a location without network access
+ *
+ * @throws GeocodingError with suggestions if nothing matches
+ */
+export function geocodeLocationOffline(
+  query: string,
+  options: Omit<GazetteerSearchOptions, "minScore" | "count"> = {}
+): GeocodingResult {
+  const [best] = searchGazetteer(query, { ...options, count: 1 });
+  if (!best) {
+    throw GeocodingError.notFound(query, suggestLocations(query, options));
+  }
+  return gazetteerEntryToResult(best.entry);
+}
+
+/**
+ * Find the gazetteer entry nearest to a point
+ */
+export function findNearestPlace(
+  coordinates: Coordinates,
+  entries: readonly GazetteerEntry[] = getGazetteerEntries()
+): NearestPlace | undefined {
+  let nearest: NearestPlace | undefined;
+
+  for (const entry of entries) {
+    const distance = distanceKm(coordinates, createCoordinates(entry.latitude, entry.longitude));
+    if (!nearest || distance < nearest.distanceKm) {
+      nearest = { entry, distanceKm: distance };
+    }
+  }
+
+  return nearest;
+}
+
+/**
+ * Name a point after the nearest gazetteer city without network access.
+ *
+ * The result keeps the given coordinates. Points with no city within
+ * `maxDistanceKm` are named by their coordinates, with an unknown country and UTC.
+ */
+export function reverseGeocodeOffline(
+  coordinates: Coordinates,
+  options: ReverseGazetteerOptions = {}
+): GeocodingResult {
+  const nearest = findNearestPlace(coordinates, options.entries);
+  const maxDistance = options.maxDistanceKm ?? DEFAULT_REVERSE_DISTANCE_KM;
+
+  if (!nearest || nearest.distanceKm > maxDistance) {
+    return {
+      name: formatCoordinates(coordinates),
+      coordinates,
+      country: "Unknown",
+      countryCode: "XX",
+      timezone: timezoneId("UTC"),
+    };
+  }
+
+  const { entry } = nearest;
+  return {
+    name: entry.name,
+    coordinates,
+    country: getCountryName(entry.countryCode),
+    countryCode: entry.countryCode,
+    ...(entry.admin1 !== undefined && { region: entry.admin1 }),
+    timezone: timezoneId(entry.timezone),
+  };
+}
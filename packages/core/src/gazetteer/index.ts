@@ -0,0 +1,24 @@
+/**
+ * Gazetteer module.
+ * Offline geocoding from a bundled dataset of major cities.
+ */
+
+export {
+  searchGazetteer,
+  searchLocationsOffline,
+  geocodeLocationOffline,
+  reverseGeocodeOffline,
+  findNearestPlace,
+  suggestLocations,
+  gazetteerEntryToResult,
+  getGazetteerEntries,
+  getCountryName,
+  normalizeName,
+  PREFIX_MATCH_SCORE,
+  DEFAULT_REVERSE_DISTANCE_KM,
+  type GazetteerEntry,
+  type GazetteerMatch,
+  type GazetteerSearchOptions,
+  type NearestPlace,
+  type ReverseGazetteerOptions,
+} from "./gazetteer";
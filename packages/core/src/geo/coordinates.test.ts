@@ -0,0 +1,107 @@
+/**
+ * Tests for coordinate query parsing
+ */
+
+import { describe, it, expect } from "bun:test";
+import { parseCoordinates, parseShortPlusCode, formatCoordinates, distanceKm } from "./coordinates";
+import { createCoordinates } from "../types/location";
+import { GeocodingError } from "../errors/geocoding";
+import { ErrorCode } from "../errors/base";
+
+function parseOrThrow(query: string): { latitude: number; longitude: number; format: string } {
+  const parsed = parseCoordinates(query);
+  if (!parsed) {
+    throw new Error(`Expected coordinates for "${query}"`);
+  }
+  return { ...parsed.coordinates, format: parsed.format };
+}
+
+function parseError(query: string): unknown {
+  try {
+    parseCoordinates(query);
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+}
+
+describe("parseCoordinates", () => {
+  it("parses decimal pairs with comma, semicolon or space separators", () => {
+    for (const query of ["51.5,-0.12", "51.5, -0.12", "51.5;-0.12", "51.5 -0.12", "geo:51.5,-0.12"]) {
+      expect(parseOrThrow(query)).toEqual({ latitude: 51.5, longitude: -0.12, format: "decimal" });
+    }
+  });
+
+  it("applies hemisphere letters and swaps longitude-first pairs", () => {
+    expect(parseOrThrow("33.87S 151.21E")).toMatchObject({ latitude: -33.87, longitude: 151.21 });
+    expect(parseOrThrow("0.12W, 51.5N")).toMatchObject({ latitude: 51.5, longitude: -0.12 });
+    expect(parseOrThrow("N40.7 W74")).toMatchObject({ latitude: 40.7, longitude: -74 });
+  });
+
+  it("parses degrees, minutes and seconds", () => {
+    const parsed = parseOrThrow(`51°30'26"N 0°7'39"W`);
+
+    expect(parsed.format).toBe("dms");
+    expect(parsed.latitude).toBeCloseTo(51.5072, 4);
+    expect(parsed.longitude).toBeCloseTo(-0.1275, 4);
+    expect(parseOrThrow("33°52′S 151°12′E").latitude).toBeCloseTo(-33.8667, 4);
+  });
+
+  it("parses geohashes", () => {
+    const parsed = parseOrThrow("gcpvj0du");
+
+    expect(parsed.format).toBe("geohash");
+    expect(parsed.latitude).toBeCloseTo(51.5074, 3);
+    expect(parsed.longitude).toBeCloseTo(-0.1279, 3);
+    expect(parseOrThrow("geohash:gcpvj").format).toBe("geohash");
+  });
+
+  it("parses full plus codes", () => {
+    const parsed = parseOrThrow("8FW4V75V+8Q");
+
+    expect(parsed.format).toBe("plus-code");
+    expect(parsed.latitude).toBeCloseTo(48.8583, 4);
+    expect(parsed.longitude).toBeCloseTo(2.2944, 4);
+  });
+
+  it("ignores place names, postcodes and short plus codes", () => {
+    for (const query of ["London", "Perth", "Derby", "10 Downing Street", "90210", "V75V+8Q Paris"]) {
+      expect(parseCoordinates(query)).toBeUndefined();
+    }
+  });
+
+  it("rejects out-of-range and contradictory coordinates", () => {
+    for (const query of ["91,0", "0,181", "51.5N,0.1N", "-51.5S 0", "51°75'N 0°W", "gh:gcpvja"]) {
+      const error = parseError(query);
+      expect(error).toBeInstanceOf(GeocodingError);
+      expect((error as GeocodingError).code).toBe(ErrorCode.GEOCODING_INVALID_INPUT);
+    }
+  });
+});
+
+describe("parseShortPlusCode", () => {
+  it("splits the code from its locality", () => {
+    expect(parseShortPlusCode("v75v+8q Paris, France")).toEqual({
+      code: "V75V+8Q",
+      locality: "Paris, France",
+    });
+    expect(parseShortPlusCode("V75V+8Q")).toEqual({ code: "V75V+8Q" });
+    expect(parseShortPlusCode("Paris")).toBeUndefined();
+  });
+});
+
+describe("formatCoordinates", () => {
+  it("formats with four decimals", () => {
+    expect(formatCoordinates(createCoordinates(51.5, -0.12))).toBe("51.5000, -0.1200");
+  });
+});
+
+describe("distanceKm", () => {
+  it("measures great-circle distance", () => {
+    const london = createCoordinates(51.5074, -0.1278);
+    const paris = createCoordinates(48.8566, 2.3522);
+
+    expect(distanceKm(london, paris)).toBeCloseTo(343.5, 0);
+    expect(distanceKm(london, london)).toBe(0);
+  });
+});
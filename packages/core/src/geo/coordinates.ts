@@ -0,0 +1,223 @@
+/**
+ * Coordinate parsing for location queries.
+ * Recognizes decimal degrees ("51.5,-0.12", "geo:51.5,-0.12", "51.5N 0.12W"),
+ * degrees-minutes-seconds ("51°30'26\"N 0°7'39\"W"), geohashes and full plus codes.
+ */
+
+import type { Coordinates } from "../types/location";
+import { createCoordinates } from "../types/location";
+import { GeocodingError } from "../errors/geocoding";
+import { decodeGeohash, isGeohash } from "./geohash";
+import { decodePlusCode, isFullPlusCode, isShortPlusCode } from "./plus-codes";
+
+/**
+ * Notation a coordinate query was written in
+ */
+export type CoordinateFormat = "decimal" | "dms" | "geohash" | "plus-code";
+
+/**
+ * Coordinates parsed from a query
+ */
+export interface ParsedCoordinates {
+  readonly coordinates: Coordinates;
+  readonly format: CoordinateFormat;
+}
+
+/**
+ * A short plus code and the locality it is relative to
+ */
+export interface ShortPlusCodeQuery {
+  readonly code: string;
+  /**
+   * Place name used to recover the full code (e.g. "London" in "GV2G+2X London")
+   */
+  readonly locality?: string;
+}
+
+/**
+ * Mean Earth radius in kilometers
+ */
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * One coordinate: optional leading hemisphere or sign, degrees, optional
+ * minutes and seconds, optional trailing hemisphere
+ */
+const COMPONENT =
+  `([NSEW])?\\s*([+-])?\\s*(\\d+(?:\\.\\d+)?)(?:\\s*°\\s*|\\s+)?` +
+  `(?:(\\d+(?:\\.\\d+)?)\\s*'\\s*)?(?:(\\d+(?:\\.\\d+)?)\\s*"\\s*)?([NSEW])?`;
+
+const COORDINATE_PAIR = new RegExp(`^${COMPONENT}(?:\\s*[,;]\\s*|\\s+)${COMPONENT}$`, "i");
+
+/**
+ * Optional prefixes naming the notation explicitly
+ */
+const GEO_URI_PREFIX = /^geo:/i;
+const GEOHASH_PREFIX = /^(?:geohash|gh):/i;
+
+/**
+ * A single parsed coordinate before it is assigned to an axis
+ */
+interface Component {
+  readonly value: number;
+  readonly axis?: "lat" | "lon";
+  readonly sexagesimal: boolean;
+}
+
+/**
+ * Parse one regex component group into a signed value
+ */
+function parseComponent(query: string, groups: (string | undefined)[]): Component {
+  const [leadingHemisphere, sign, degrees, minutes, seconds, trailingHemisphere] = groups;
+
+  if (leadingHemisphere && trailingHemisphere) {
+    throw GeocodingError.invalidInput(query, "Give each coordinate one hemisphere letter.");
+  }
+  const hemisphere = (leadingHemisphere ?? trailingHemisphere)?.toUpperCase();
+  if (hemisphere && sign) {
+    throw GeocodingError.invalidInput(
+      query,
+      "Use either a sign or a hemisphere letter, not both."
+    );
+  }
+
+  const mins = minutes !== undefined ? parseFloat(minutes) : 0;
+  const secs = seconds !== undefined ? parseFloat(seconds) : 0;
+  if (mins >= 60 || secs >= 60) {
+    throw GeocodingError.invalidInput(query, "Minutes and seconds must be less than 60.");
+  }
+
+  const magnitude = parseFloat(degrees ?? "0") + mins / 60 + secs / 3600;
+  const negative = sign === "-" || hemisphere === "S" || hemisphere === "W";
+
+  return {
+    value: negative ? -magnitude : magnitude,
+    axis: hemisphere === "N" || hemisphere === "S" ? "lat" : hemisphere ? "lon" : undefined,
+    sexagesimal: minutes !== undefined || seconds !== undefined || query.includes("°"),
+  };
+}
+
+/**
+ * Parse a latitude/longitude pair in decimal or DMS notation
+ */
+function parseCoordinatePair(query: string): ParsedCoordinates | undefined {
+  const normalized = query
+    .replace(GEO_URI_PREFIX, "")
+    .replace(/[″]|''/g, '"')
+    .replace(/[′’]/g, "'")
+    .trim();
+
+  const match = COORDINATE_PAIR.exec(normalized);
+  if (!match) {
+    return undefined;
+  }
+
+  const first = parseComponent(query, match.slice(1, 7));
+  const second = parseComponent(query, match.slice(7, 13));
+  if (first.axis !== undefined && first.axis === second.axis) {
+    throw GeocodingError.invalidInput(query, "Give one latitude and one longitude.");
+  }
+
+  // Unlabelled pairs are latitude first; hemisphere letters can swap them
+  const swapped = first.axis === "lon" || second.axis === "lat";
+  const [lat, lon] = swapped ? [second.value, first.value] : [first.value, second.value];
+
+  if (lat < -90 || lat > 90) {
+    throw GeocodingError.invalidInput(query, `Latitude must be between -90 and 90, got ${lat}.`);
+  }
+  if (lon < -180 || lon > 180) {
+    throw GeocodingError.invalidInput(
+      query,
+      `Longitude must be between -180 and 180, got ${lon}.`
+    );
+  }
+
+  return {
+    coordinates: createCoordinates(lat, lon),
+    format: first.sexagesimal || second.sexagesimal ? "dms" : "decimal",
+  };
+}
+
+/**
+ * Parse a geohash. Without a "geohash:" prefix the hash must mix letters and
+ * digits so ordinary place names ("Perth", "Derby") are not mistaken for one.
+ */
+function parseGeohash(query: string): ParsedCoordinates | undefined {
+  const prefixed = GEOHASH_PREFIX.test(query);
+  const hash = query.replace(GEOHASH_PREFIX, "").trim();
+
+  if (!isGeohash(hash)) {
+    if (prefixed) {
+      throw GeocodingError.invalidInput(
+        query,
+        "Geohashes use the characters 0-9 and b-z except i, l and o."
+      );
+    }
+    return undefined;
+  }
+  if (!prefixed && (hash.length < 5 || !/\d/.test(hash) || !/[a-z]/i.test(hash))) {
+    return undefined;
+  }
+
+  return { coordinates: decodeGeohash(hash), format: "geohash" };
+}
+
+/**
+ * Parse a location query written as coordinates.
+ *
+ * @returns The coordinates, or undefined if the query is not coordinate notation
+ *   (short plus codes included; see `parseShortPlusCode`)
+ * @throws GeocodingError if the query is coordinate notation but out of range
+ *
+ * @example
+ * ```typescript
+ * parseCoordinates("51.5074, -0.1278");     // decimal
+ * parseCoordinates("33°52'S 151°12'E");     // dms
+ * parseCoordinates("gcpvj0du");             // geohash
+ * parseCoordinates("9C3XGV2G+2X");          // plus-code
+ * parseCoordinates("London");               // undefined
+ * ```
+ */
+export function parseCoordinates(query: string): ParsedCoordinates | undefined {
+  const trimmed = query.trim();
+
+  if (isFullPlusCode(trimmed)) {
+    return { coordinates: decodePlusCode(trimmed), format: "plus-code" };
+  }
+
+  return parseCoordinatePair(trimmed) ?? parseGeohash(trimmed);
+}
+
+/**
+ * Split a short plus code query ("GV2G+2X London") into the code and locality
+ */
+export function parseShortPlusCode(query: string): ShortPlusCodeQuery | undefined {
+  const [code = "", ...rest] = query.trim().split(/[\s,]+/);
+  if (!isShortPlusCode(code)) {
+    return undefined;
+  }
+
+  const locality = query.trim().slice(code.length).replace(/^[\s,]+/, "");
+  return { code: code.toUpperCase(), ...(rest.length > 0 && { locality }) };
+}
+
+/**
+ * Format coordinates as "lat, lon" with four decimals (about 10 m)
+ */
+export function formatCoordinates(coordinates: Coordinates): string {
+  return `${coordinates.latitude.toFixed(4)}, ${coordinates.longitude.toFixed(4)}`;
+}
+
+/**
+ * Great-circle distance between two points in kilometers (haversine formula)
+ */
+export function distanceKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+  const dLat = toRadians(b.latitude - a.latitude);
+  const dLon = toRadians(b.longitude - a.longitude);
+  const h =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2;
+
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(h)));
+}
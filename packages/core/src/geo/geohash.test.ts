@@ -0,0 +1,39 @@
+/**
+ * Tests for geohash decoding
+ */
+
+import { describe, it, expect } from "bun:test";
+import { decodeGeohash, isGeohash } from "./geohash";
+
+describe("isGeohash", () => {
+  it("accepts base32 geohash characters", () => {
+    expect(isGeohash("u4pruydqqvj")).toBe(true);
+    expect(isGeohash("GCPVJ0")).toBe(true);
+  });
+
+  it("rejects letters outside the alphabet and overlong hashes", () => {
+    expect(isGeohash("gcpvja")).toBe(false);
+    expect(isGeohash("")).toBe(false);
+    expect(isGeohash("gcpvj0dugcpvj")).toBe(false);
+  });
+});
+
+describe("decodeGeohash", () => {
+  it("decodes to the cell center", () => {
+    const center = decodeGeohash("u4pruydqqvj");
+
+    expect(center.latitude as number).toBeCloseTo(57.64911, 5);
+    expect(center.longitude as number).toBeCloseTo(10.40744, 5);
+  });
+
+  it("decodes short hashes to large cells", () => {
+    const center = decodeGeohash("u");
+
+    expect(center.latitude as number).toBe(67.5);
+    expect(center.longitude as number).toBe(22.5);
+  });
+
+  it("throws for invalid hashes", () => {
+    expect(() => decodeGeohash("gcpvja")).toThrow(RangeError);
+  });
+});
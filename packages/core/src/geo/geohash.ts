@@ -0,0 +1,61 @@
+/**
+ * Geohash decoding.
+ * A geohash interleaves longitude and latitude bits into base32 characters,
+ * so each extra character narrows the cell (e.g. "gcpvj0" is a ~1 km cell in London).
+ */
+
+import type { Coordinates } from "../types/location";
+import { createCoordinates } from "../types/location";
+
+/**
+ * Geohash base32 alphabet (no a, i, l or o)
+ */
+const GEOHASH_ALPHABET = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+/**
+ * Longest geohash accepted (12 characters is sub-centimetre precision)
+ */
+const MAX_GEOHASH_LENGTH = 12;
+
+/**
+ * Check whether a string is a well-formed geohash
+ */
+export function isGeohash(value: string): boolean {
+  const hash = value.toLowerCase();
+  return (
+    hash.length > 0 &&
+    hash.length <= MAX_GEOHASH_LENGTH &&
+    [...hash].every((ch) => GEOHASH_ALPHABET.includes(ch))
+  );
+}
+
+/**
+ * Decode a geohash to the center of its cell
+ *
+ * @throws RangeError if the geohash is malformed
+ */
+export function decodeGeohash(hash: string): Coordinates {
+  if (!isGeohash(hash)) {
+    throw new RangeError(`Invalid geohash: "${hash}"`);
+  }
+
+  const lat = [-90, 90];
+  const lon = [-180, 180];
+  let isLon = true;
+
+  for (const ch of hash.toLowerCase()) {
+    const bits = GEOHASH_ALPHABET.indexOf(ch);
+    for (let bit = 4; bit >= 0; bit--) {
+      const range = isLon ? lon : lat;
+      const mid = (range[0] + range[1]) / 2;
+      if ((bits >> bit) & 1) {
+        range[0] = mid;
+      } else {
+        range[1] = mid;
+      }
+      isLon = !isLon;
+    }
+  }
+
+  return createCoordinates((lat[0] + lat[1]) / 2, (lon[0] + lon[1]) / 2);
+}
@@ -0,0 +1,23 @@
+/**
+ * Geo module.
+ * Parses coordinate queries (decimal, DMS, geohash, plus codes) and measures distances.
+ */
+
+export {
+  parseCoordinates,
+  parseShortPlusCode,
+  formatCoordinates,
+  distanceKm,
+  type CoordinateFormat,
+  type ParsedCoordinates,
+  type ShortPlusCodeQuery,
+} from "./coordinates";
+
+export { decodeGeohash, isGeohash } from "./geohash";
+
+export {
+  decodePlusCode,
+  recoverShortPlusCode,
+  isFullPlusCode,
+  isShortPlusCode,
+} from "./plus-codes";
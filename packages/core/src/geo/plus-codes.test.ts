@@ -0,0 +1,80 @@
+/**
+ * Tests for plus code decoding
+ */
+
+import { describe, it, expect } from "bun:test";
+import {
+  decodePlusCode,
+  recoverShortPlusCode,
+  isFullPlusCode,
+  isShortPlusCode,
+} from "./plus-codes";
+import { createCoordinates } from "../types/location";
+
+describe("isFullPlusCode", () => {
+  it("accepts full and padded codes", () => {
+    expect(isFullPlusCode("8FW4V75V+8Q")).toBe(true);
+    expect(isFullPlusCode("8fw4v75v+8q")).toBe(true);
+    expect(isFullPlusCode("8FW40000+")).toBe(true);
+  });
+
+  it("rejects short, malformed and out-of-range codes", () => {
+    expect(isFullPlusCode("V75V+8Q")).toBe(false);
+    expect(isFullPlusCode("8FW4V75V8Q")).toBe(false);
+    expect(isFullPlusCode("8FW00000+")).toBe(false);
+    expect(isFullPlusCode("8FW40000+8Q")).toBe(false);
+    expect(isFullPlusCode("XFW4V75V+8Q")).toBe(false);
+  });
+});
+
+describe("isShortPlusCode", () => {
+  it("accepts codes with leading pairs removed", () => {
+    expect(isShortPlusCode("V75V+8Q")).toBe(true);
+    expect(isShortPlusCode("5V+8Q")).toBe(true);
+    expect(isShortPlusCode("75V+8Q")).toBe(false);
+    expect(isShortPlusCode("8FW4V75V+8Q")).toBe(false);
+  });
+});
+
+describe("decodePlusCode", () => {
+  it("decodes to the center of the code area", () => {
+    const center = decodePlusCode("8FW4V75V+8Q");
+
+    expect(center.latitude as number).toBeCloseTo(48.858313, 5);
+    expect(center.longitude as number).toBeCloseTo(2.294438, 5);
+  });
+
+  it("decodes padded codes to the center of the larger area", () => {
+    const center = decodePlusCode("8FW40000+");
+
+    expect(center.latitude as number).toBeCloseTo(48.5, 6);
+    expect(center.longitude as number).toBeCloseTo(2.5, 6);
+  });
+
+  it("decodes grid digits beyond the pairs", () => {
+    const center = decodePlusCode("9C3W9QCJ+2VX");
+
+    expect(center.latitude as number).toBeCloseTo(51.370113, 5);
+    expect(center.longitude as number).toBeCloseTo(-1.217766, 5);
+  });
+
+  it("throws for invalid codes", () => {
+    expect(() => decodePlusCode("V75V+8Q")).toThrow(RangeError);
+  });
+});
+
+describe("recoverShortPlusCode", () => {
+  it("recovers against a nearby reference", () => {
+    const recovered = recoverShortPlusCode("CWC8+R9", createCoordinates(37.4, -122.1));
+
+    expect(recovered.latitude as number).toBeCloseTo(37.422063, 5);
+    expect(recovered.longitude as number).toBeCloseTo(-122.084063, 5);
+  });
+
+  it("picks the nearest cell across a boundary", () => {
+    // The reference sits just south of the 49°N line; the code is just north of it
+    const recovered = recoverShortPlusCode("2222+22", createCoordinates(48.99, 2.5));
+
+    expect(recovered.latitude as number).toBeCloseTo(49.0000625, 5);
+  });
+});
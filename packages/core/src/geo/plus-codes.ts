@@ -0,0 +1,183 @@
+/**
+ * Open Location Code ("plus code") decoding.
+ * Full codes ("9C3XGV2G+2X") decode on their own; short codes ("GV2G+2X")
+ * drop leading characters and are recovered against a nearby reference point.
+ *
+ * See https://github.com/google/open-location-code/blob/main/docs/specification.md
+ */
+
+import type { Coordinates } from "../types/location";
+import { createCoordinates } from "../types/location";
+
+/**
+ * Plus code digit alphabet
+ */
+const CODE_ALPHABET = "23456789CFGHJMPQRVWX";
+
+/**
+ * Position of the "+" separator in a full code
+ */
+const SEPARATOR_POSITION = 8;
+
+/**
+ * Number of digits encoded as latitude/longitude pairs
+ */
+const PAIR_CODE_LENGTH = 10;
+
+/**
+ * Longest code decoded; further digits add no useful precision
+ */
+const MAX_CODE_LENGTH = 15;
+
+/**
+ * Grid refinement after the pair digits: 5 rows by 4 columns
+ */
+const GRID_ROWS = 5;
+const GRID_COLUMNS = 4;
+
+const DIGIT = `[${CODE_ALPHABET}]`;
+const FULL_CODE = new RegExp(`^(?:${DIGIT}{8}\\+(?:${DIGIT}{2,})?|${DIGIT}{2,6}0{2,6}\\+)$`);
+const SHORT_CODE = new RegExp(`^${DIGIT}{2,6}\\+${DIGIT}{2,}$`);
+
+/**
+ * Place value of the first pair digit, in degrees
+ */
+const FIRST_PLACE_VALUE = 20;
+
+/**
+ * Check whether a string is a full (globally unique) plus code
+ */
+export function isFullPlusCode(value: string): boolean {
+  const code = value.toUpperCase();
+  if (!FULL_CODE.test(code) || code.indexOf("+") !== SEPARATOR_POSITION) {
+    return false;
+  }
+
+  // Padding must fill whole pairs, and the first pair must be in range
+  const padding = code.indexOf("0");
+  if (padding !== -1 && padding % 2 !== 0) {
+    return false;
+  }
+  return (
+    CODE_ALPHABET.indexOf(code[0]) * FIRST_PLACE_VALUE < 180 &&
+    CODE_ALPHABET.indexOf(code[1]) * FIRST_PLACE_VALUE < 360
+  );
+}
+
+/**
+ * Check whether a string is a short plus code that needs a reference location
+ */
+export function isShortPlusCode(value: string): boolean {
+  const code = value.toUpperCase();
+  return SHORT_CODE.test(code) && code.indexOf("+") % 2 === 0;
+}
+
+/**
+ * Decode a full plus code to the center of its area
+ *
+ * @throws RangeError if the code is not a valid full code
+ */
+export function decodePlusCode(value: string): Coordinates {
+  if (!isFullPlusCode(value)) {
+    throw new RangeError(`Invalid plus code: "${value}"`);
+  }
+
+  const digits = value
+    .toUpperCase()
+    .replace("+", "")
+    .replace(/0+$/, "")
+    .slice(0, MAX_CODE_LENGTH);
+
+  let lat = 0;
+  let lon = 0;
+  let latResolution = FIRST_PLACE_VALUE;
+  let lonResolution = FIRST_PLACE_VALUE;
+
+  for (let i = 0; i < Math.min(digits.length, PAIR_CODE_LENGTH); i += 2) {
+    if (i > 0) {
+      latResolution /= 20;
+      lonResolution /= 20;
+    }
+    lat += CODE_ALPHABET.indexOf(digits[i]) * latResolution;
+    lon += CODE_ALPHABET.indexOf(digits[i + 1]) * lonResolution;
+  }
+
+  for (let i = PAIR_CODE_LENGTH; i < digits.length; i++) {
+    const index = CODE_ALPHABET.indexOf(digits[i]);
+    latResolution /= GRID_ROWS;
+    lonResolution /= GRID_COLUMNS;
+    lat += Math.floor(index / GRID_COLUMNS) * latResolution;
+    lon += (index % GRID_COLUMNS) * lonResolution;
+  }
+
+  return createCoordinates(
+    Math.min(lat + latResolution / 2 - 90, 90),
+    normalizeLongitude(lon + lonResolution / 2 - 180)
+  );
+}
+
+/**
+ * Recover a short plus code using a reference point within about half the
+ * code's area (typically the locality it was written with)
+ *
+ * @throws RangeError if the code is not a valid short code
+ */
+export function recoverShortPlusCode(value: string, reference: Coordinates): Coordinates {
+  if (!isShortPlusCode(value)) {
+    throw new RangeError(`Invalid short plus code: "${value}"`);
+  }
+
+  const code = value.toUpperCase();
+  const paddingLength = SEPARATOR_POSITION - code.indexOf("+");
+  const resolution = Math.pow(20, 2 - paddingLength / 2);
+  const halfResolution = resolution / 2;
+
+  // Borrow the leading digits from the reference, then pick the nearest of
+  // the neighbouring cells if that lands on the wrong side of a boundary
+  const center = decodePlusCode(encodePairs(reference, paddingLength) + code);
+  let lat: number = center.latitude;
+  let lon: number = center.longitude;
+
+  if (reference.latitude + halfResolution < lat && lat - resolution >= -90) {
+    lat -= resolution;
+  } else if (reference.latitude - halfResolution > lat && lat + resolution <= 90) {
+    lat += resolution;
+  }
+
+  if (reference.longitude + halfResolution < lon) {
+    lon -= resolution;
+  } else if (reference.longitude - halfResolution > lon) {
+    lon += resolution;
+  }
+
+  return createCoordinates(lat, normalizeLongitude(lon));
+}
+
+/**
+ * Encode the leading pair digits of a location
+ */
+function encodePairs(coordinates: Coordinates, length: number): string {
+  // Keep latitude 90 inside the last cell
+  let lat = Math.min(coordinates.latitude + 90, 180 - 1e-9);
+  let lon = normalizeLongitude(coordinates.longitude) + 180;
+  let placeValue = FIRST_PLACE_VALUE;
+  let code = "";
+
+  for (let i = 0; i < length; i += 2) {
+    const latDigit = Math.floor(lat / placeValue);
+    const lonDigit = Math.floor(lon / placeValue);
+    lat -= latDigit * placeValue;
+    lon -= lonDigit * placeValue;
+    code += CODE_ALPHABET[latDigit] + CODE_ALPHABET[lonDigit];
+    placeValue /= 20;
+  }
+
+  return code;
+}
+
+/**
+ * Wrap a longitude into [-180, 180)
+ */
+function normalizeLongitude(lon: number): number {
+  return ((((lon + 180) % 360) + 360) % 360) - 180;
+}
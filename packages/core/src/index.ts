@@ -7,3 +7,9 @@ export * from "./config/index";
 export * from "./api/index";
 export * from "./cache/index";
 export * from "./engine/index";
+export * from "./verification/index";
+export * from "./watch/index";
+export * from "./runs/index";
+export * from "./climatology/index";
+export * from "./gazetteer/index";
+export * from "./geo/index";
@@ -0,0 +1,192 @@
+/**
+ * File-based model run history.
+ * Stores run summaries per site as JSON files in
+ * ~/.weather-oracle/runs/<site>/runs.json
+ */
+
+import { homedir, tmpdir } from "node:os";
+import { join, dirname } from "node:path";
+import { readFile, writeFile, mkdir, rename, rm, unlink } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import type { Coordinates } from "../types/location";
+import type { ModelRun, RunDay, RunHistoryStore, RunRange } from "./types";
+import { createSiteKey } from "../verification/records";
+import { RunHistoryError } from "../errors/runs";
+
+/**
+ * Default number of days of run history to keep per site
+ */
+const DEFAULT_RETENTION_DAYS = 14;
+
+const RUNS_FILE = "runs.json";
+
+/**
+ * Serialized (JSON) form of a model run
+ */
+interface StoredModelRun {
+  model: ModelRun["model"];
+  coordinates: Coordinates;
+  runInitTime: string;
+  runInitSource: ModelRun["runInitSource"];
+  fetchedAt: string;
+  days: RunDay[];
+}
+
+/**
+ * Configuration options for FileRunHistoryStore
+ */
+export interface FileRunHistoryStoreOptions {
+  /**
+   * Directory for run history (default: ~/.weather-oracle/runs)
+   */
+  directory?: string;
+
+  /**
+   * Days of run history to keep (default: 14)
+   */
+  retentionDays?: number;
+}
+
+/**
+ * File-based run history store implementation
+ */
+export class FileRunHistoryStore implements RunHistoryStore {
+  private readonly directory: string;
+  private readonly retentionDays: number;
+
+  constructor(options: FileRunHistoryStoreOptions = {}) {
+    this.directory = options.directory ?? join(homedir(), ".weather-oracle", "runs");
+    this.retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Get the runs file for a site
+   */
+  private getRunsFile(coordinates: Coordinates): string {
+    return join(this.directory, createSiteKey(coordinates), RUNS_FILE);
+  }
+
+  /**
+   * Read a site's runs, returning an empty array if there are none
+   */
+  private async readRuns(filePath: string): Promise<StoredModelRun[]> {
+    try {
+      const content = await readFile(filePath, "utf-8");
+      const parsed = JSON.parse(content) as unknown;
+      return Array.isArray(parsed) ? (parsed as StoredModelRun[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw RunHistoryError.storeError(
+        filePath,
+        "read",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Write a site's runs atomically
+   */
+  private async writeRuns(filePath: string, runs: readonly StoredModelRun[]): Promise<void> {
+    const tempPath = join(tmpdir(), `weather-oracle-${randomUUID()}.tmp`);
+
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(runs), "utf-8");
+      await rename(tempPath, filePath);
+    } catch (error) {
+      try {
+        await unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw RunHistoryError.storeError(
+        filePath,
+        "write",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Record model runs.
+   * A run is identified by model and init time; re-fetching it replaces it.
+   */
+  async saveRuns(runs: readonly ModelRun[]): Promise<void> {
+    // Group by site so each file is rewritten once
+    const bySite = new Map<string, { coordinates: Coordinates; runs: ModelRun[] }>();
+    for (const run of runs) {
+      const key = createSiteKey(run.coordinates);
+      const group = bySite.get(key) ?? { coordinates: run.coordinates, runs: [] };
+      group.runs.push(run);
+      bySite.set(key, group);
+    }
+
+    const cutoff = new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+
+    for (const group of bySite.values()) {
+      const filePath = this.getRunsFile(group.coordinates);
+      const existing = await this.readRuns(filePath);
+
+      const byRun = new Map<string, StoredModelRun>();
+      for (const stored of existing) {
+        byRun.set(`${stored.model}@${stored.runInitTime}`, stored);
+      }
+      for (const run of group.runs) {
+        const stored: StoredModelRun = {
+          model: run.model,
+          coordinates: run.coordinates,
+          runInitTime: run.runInitTime.toISOString(),
+          runInitSource: run.runInitSource,
+          fetchedAt: run.fetchedAt.toISOString(),
+          days: [...run.days],
+        };
+        byRun.set(`${stored.model}@${stored.runInitTime}`, stored);
+      }
+
+      const kept = Array.from(byRun.values())
+        .filter((r) => new Date(r.runInitTime) >= cutoff)
+        .sort((a, b) => a.runInitTime.localeCompare(b.runInitTime));
+
+      await this.writeRuns(filePath, kept);
+    }
+  }
+
+  /**
+   * Get stored runs for a site, oldest first
+   */
+  async getRuns(coordinates: Coordinates, range?: RunRange): Promise<ModelRun[]> {
+    const stored = await this.readRuns(this.getRunsFile(coordinates));
+
+    return stored
+      .map((r) => ({
+        model: r.model,
+        coordinates: r.coordinates,
+        runInitTime: new Date(r.runInitTime),
+        runInitSource: r.runInitSource,
+        fetchedAt: new Date(r.fetchedAt),
+        days: r.days,
+      }))
+      .filter((r) => {
+        if (range?.from && r.runInitTime < range.from) return false;
+        if (range?.to && r.runInitTime > range.to) return false;
+        return true;
+      });
+  }
+
+  /**
+   * Remove all stored runs for a site
+   */
+  async clear(coordinates: Coordinates): Promise<void> {
+    await rm(join(this.directory, createSiteKey(coordinates)), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Create a run history store with the given options
+ */
+export function createRunHistoryStore(options?: FileRunHistoryStoreOptions): RunHistoryStore {
+  return new FileRunHistoryStore(options);
+}
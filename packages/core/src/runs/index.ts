@@ -0,0 +1,52 @@
+/**
+ * Model run history module.
+ * Tracks which run each forecast came from, stores successive runs per site,
+ * and reports how the forecast has moved from run to run.
+ */
+
+// Types
+export type {
+  TrendMetric,
+  RunDailyValues,
+  RunDay,
+  ModelRun,
+  RunStaleness,
+  RunStatus,
+  TrendReport,
+  TrendPoint,
+  ModelTrend,
+  ForecastTrend,
+  RunRange,
+  RunHistoryStore,
+} from "./types";
+
+export { TREND_METRICS } from "./types";
+
+// Run schedules
+export {
+  RUN_AVAILABILITY_DELAY_HOURS,
+  getRunIntervalHours,
+  estimateRunInitTime,
+  assessRunStaleness,
+} from "./schedule";
+
+// Record conversion
+export { toModelRun } from "./records";
+
+// File-based store implementation
+export {
+  FileRunHistoryStore,
+  createRunHistoryStore,
+  type FileRunHistoryStoreOptions,
+} from "./file-store";
+
+// Trends
+export {
+  computeForecastTrends,
+  createTrendReport,
+  isSignificantTrend,
+  formatForecastTrend,
+  DEFAULT_TREND_RUNS,
+  TREND_THRESHOLDS,
+  type TrendOptions,
+} from "./trend";
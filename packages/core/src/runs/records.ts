@@ -0,0 +1,54 @@
+/**
+ * Conversion from model forecasts to stored model runs.
+ */
+
+import type { ModelForecast } from "../types/models";
+import type { DailyForecast } from "../types/weather";
+import { hasDailyMetric } from "../types/weather";
+import type { ModelRun, RunDailyValues, TrendMetric } from "./types";
+import { TREND_METRICS } from "./types";
+
+/**
+ * Safely convert a Date or string to a Date object.
+ * Handles cached data where Dates become strings after JSON serialization.
+ */
+function toDate(value: Date | string): Date {
+  return typeof value === "string" ? new Date(value) : value;
+}
+
+/**
+ * Read a tracked metric from a daily forecast
+ */
+const DAILY_VALUES: Record<TrendMetric, (daily: DailyForecast) => number> = {
+  temperatureMax: (d) => d.temperature.max,
+  temperatureMin: (d) => d.temperature.min,
+  precipitation: (d) => d.precipitation.total,
+  windSpeed: (d) => d.wind.maxSpeed,
+};
+
+/**
+ * Convert a model forecast into a compact run record.
+ * Returns undefined when the forecast's run initialisation time is unknown.
+ */
+export function toModelRun(forecast: ModelForecast): ModelRun | undefined {
+  if (!forecast.runInitTime) {
+    return undefined;
+  }
+
+  return {
+    model: forecast.model,
+    coordinates: forecast.coordinates,
+    runInitTime: toDate(forecast.runInitTime),
+    runInitSource: forecast.runInitSource ?? "estimated",
+    fetchedAt: toDate(forecast.generatedAt),
+    days: forecast.daily.map((daily) => {
+      const values: RunDailyValues = {};
+      for (const metric of TREND_METRICS) {
+        if (hasDailyMetric(daily, metric)) {
+          values[metric] = DAILY_VALUES[metric](daily);
+        }
+      }
+      return { date: toDate(daily.date).toISOString().slice(0, 10), values };
+    }),
+  };
+}
@@ -0,0 +1,334 @@
+/**
+ * Tests for model run history: schedules, records, store, and trends.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "node:path";
+import { rm, writeFile, mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { assessRunStaleness, estimateRunInitTime, getRunIntervalHours } from "./schedule";
+import { toModelRun } from "./records";
+import { FileRunHistoryStore } from "./file-store";
+import {
+  computeForecastTrends,
+  createTrendReport,
+  formatForecastTrend,
+  isSignificantTrend,
+} from "./trend";
+import type { ModelRun, RunDailyValues } from "./types";
+import type { ModelForecast, ModelName } from "../types/models";
+import type { Coordinates } from "../types/location";
+import type { DailyForecast } from "../types/weather";
+import { latitude, longitude } from "../types/location";
+import {
+  celsius,
+  cloudCover,
+  humidity,
+  metersPerSecond,
+  millimeters,
+  pressure,
+  uvIndex,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { createSiteKey } from "../verification/records";
+import { RunHistoryError } from "../errors/runs";
+
+const HOUR = 60 * 60 * 1000;
+
+const OSLO: Coordinates = {
+  latitude: latitude(59.91),
+  longitude: longitude(10.75),
+};
+
+/**
+ * Create a run with one day of values per entry in `days`
+ */
+function createRun(
+  model: ModelName,
+  runInitTime: Date,
+  days: Record<string, RunDailyValues>
+): ModelRun {
+  return {
+    model,
+    coordinates: OSLO,
+    runInitTime,
+    runInitSource: "estimated",
+    fetchedAt: runInitTime,
+    days: Object.entries(days).map(([date, values]) => ({ date, values })),
+  };
+}
+
+/**
+ * Run init times `count` runs apart, six hours each, ending a few hours ago
+ */
+function recentRuns(count: number): Date[] {
+  const latest = Math.floor((Date.now() - 6 * HOUR) / (6 * HOUR)) * 6 * HOUR;
+  return Array.from({ length: count }, (_, i) => new Date(latest - (count - 1 - i) * 6 * HOUR));
+}
+
+/**
+ * Create a daily forecast with the given max/min temperature
+ */
+function createDay(date: string, max: number, min: number): DailyForecast {
+  const day = new Date(`${date}T00:00:00Z`);
+  return {
+    date: day,
+    temperature: { min: celsius(min), max: celsius(max) },
+    humidity: { min: humidity(60), max: humidity(80) },
+    pressure: { min: pressure(1010), max: pressure(1015) },
+    precipitation: { total: millimeters(2), probability: 40, hours: 2 },
+    wind: {
+      avgSpeed: metersPerSecond(4),
+      maxSpeed: metersPerSecond(9),
+      dominantDirection: windDirection(200),
+    },
+    cloudCover: { avg: cloudCover(50), max: cloudCover(80) },
+    uvIndex: { max: uvIndex(2) },
+    sun: { sunrise: day, sunset: day, daylightHours: 12 },
+    weatherCode: weatherCode(61),
+    hourly: [],
+  };
+}
+
+describe("schedule", () => {
+  it("should read run intervals from the update frequency", () => {
+    expect(getRunIntervalHours("ecmwf")).toBe(6);
+    expect(getRunIntervalHours("gem")).toBe(12);
+    expect(getRunIntervalHours("local")).toBeUndefined();
+  });
+
+  it("should estimate the latest published run", () => {
+    // ECMWF runs are published about 7 hours after initialisation
+    expect(estimateRunInitTime("ecmwf", new Date("2024-01-15T12:30:00Z"))).toEqual(
+      new Date("2024-01-15T00:00:00Z")
+    );
+    expect(estimateRunInitTime("ecmwf", new Date("2024-01-15T13:30:00Z"))).toEqual(
+      new Date("2024-01-15T06:00:00Z")
+    );
+    expect(estimateRunInitTime("local", new Date())).toBeUndefined();
+  });
+
+  it("should flag a run once its successor should be out", () => {
+    const init = new Date("2024-01-15T00:00:00Z");
+
+    const fresh = assessRunStaleness("gfs", init, new Date("2024-01-15T09:00:00Z"));
+    expect(fresh.ageHours).toBe(9);
+    expect(fresh.newerRunExpected).toBe(false);
+    expect(fresh.nextRunAvailableAt).toEqual(new Date("2024-01-15T10:00:00Z"));
+
+    const stale = assessRunStaleness("gfs", init, new Date("2024-01-15T11:00:00Z"));
+    expect(stale.newerRunExpected).toBe(true);
+
+    expect(
+      assessRunStaleness("local", init, new Date("2024-02-15T00:00:00Z")).newerRunExpected
+    ).toBe(false);
+  });
+});
+
+describe("records", () => {
+  const forecast: ModelForecast = {
+    model: "ecmwf",
+    coordinates: OSLO,
+    generatedAt: new Date("2024-01-15T09:00:00Z"),
+    runInitTime: new Date("2024-01-15T00:00:00Z"),
+    runInitSource: "estimated",
+    validFrom: new Date("2024-01-15T00:00:00Z"),
+    validTo: new Date("2024-01-16T23:00:00Z"),
+    hourly: [],
+    daily: [
+      createDay("2024-01-15", 4, -2),
+      { ...createDay("2024-01-16", 6, 0), missing: ["temperatureMin"] },
+    ],
+  };
+
+  it("should keep daily values for the tracked metrics", () => {
+    const run = toModelRun(forecast)!;
+
+    expect(run.runInitTime).toEqual(new Date("2024-01-15T00:00:00Z"));
+    expect(run.fetchedAt).toEqual(new Date("2024-01-15T09:00:00Z"));
+    expect(run.days).toEqual([
+      {
+        date: "2024-01-15",
+        values: { temperatureMax: 4, temperatureMin: -2, precipitation: 2, windSpeed: 9 },
+      },
+      { date: "2024-01-16", values: { temperatureMax: 6, precipitation: 2, windSpeed: 9 } },
+    ]);
+  });
+
+  it("should skip forecasts without a run time", () => {
+    expect(toModelRun({ ...forecast, runInitTime: undefined })).toBeUndefined();
+  });
+});
+
+describe("FileRunHistoryStore", () => {
+  let directory: string;
+  let store: FileRunHistoryStore;
+
+  beforeEach(() => {
+    directory = join(tmpdir(), `weather-oracle-runs-test-${randomUUID()}`);
+    store = new FileRunHistoryStore({ directory });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(directory, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should return no runs for an unknown site", async () => {
+    expect(await store.getRuns(OSLO)).toEqual([]);
+  });
+
+  it("should replace a re-fetched run and keep successive runs", async () => {
+    const [first, second] = recentRuns(2);
+    await store.saveRuns([createRun("ecmwf", first, { "2024-01-20": { temperatureMax: 10 } })]);
+    await store.saveRuns([
+      createRun("ecmwf", first, { "2024-01-20": { temperatureMax: 11 } }),
+      createRun("ecmwf", second, { "2024-01-20": { temperatureMax: 12 } }),
+    ]);
+
+    const runs = await store.getRuns(OSLO);
+
+    expect(runs.map((r) => r.runInitTime)).toEqual([first, second]);
+    expect(runs.map((r) => r.days[0].values.temperatureMax)).toEqual([11, 12]);
+  });
+
+  it("should prune runs older than the retention window", async () => {
+    const shortStore = new FileRunHistoryStore({ directory, retentionDays: 1 });
+    await shortStore.saveRuns([
+      createRun("gfs", new Date(Date.now() - 3 * 24 * HOUR), {}),
+      createRun("gfs", recentRuns(1)[0], {}),
+    ]);
+
+    expect(await shortStore.getRuns(OSLO)).toHaveLength(1);
+  });
+
+  it("should throw RunHistoryError for corrupt files", async () => {
+    const siteDir = join(directory, createSiteKey(OSLO));
+    await mkdir(siteDir, { recursive: true });
+    await writeFile(join(siteDir, "runs.json"), "{not json", "utf-8");
+
+    const error = await store.getRuns(OSLO).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(RunHistoryError);
+  });
+});
+
+describe("computeForecastTrends", () => {
+  const times = [0, 6, 12, 18].map((h) => new Date(Date.UTC(2024, 0, 18, h)));
+
+  it("should compare each model's runs oldest to newest", () => {
+    const runs = [
+      ...[10, 11, 12, 13].map((max, i) =>
+        createRun("ecmwf", times[i], { "2024-01-20": { temperatureMax: max } })
+      ),
+      ...[9, 11].map((max, i) =>
+        createRun("gfs", times[i + 2], { "2024-01-20": { temperatureMax: max } })
+      ),
+    ];
+
+    const [trend] = computeForecastTrends(runs);
+
+    expect(trend.date).toBe("2024-01-20");
+    expect(trend.metric).toBe("temperatureMax");
+    expect(trend.models.map((m) => [m.model, m.change])).toEqual([
+      ["ecmwf", 3],
+      ["gfs", 2],
+    ]);
+    expect(trend.change).toBe(2.5);
+    expect(trend.from).toBe(9.5);
+    expect(trend.to).toBe(12);
+    expect(trend.runs).toBe(4);
+  });
+
+  it("should only use the most recent runs", () => {
+    const runs = [5, 10, 11].map((max, i) =>
+      createRun("ecmwf", times[i], { "2024-01-20": { temperatureMax: max } })
+    );
+
+    const [trend] = computeForecastTrends(runs, { runs: 2 });
+
+    expect(trend.change).toBe(1);
+    expect(trend.runs).toBe(2);
+  });
+
+  it("should skip single runs, earlier days and other metrics", () => {
+    const runs = [
+      createRun("ecmwf", times[0], {
+        "2024-01-19": { temperatureMax: 8, precipitation: 1 },
+        "2024-01-20": { temperatureMax: 8, precipitation: 1 },
+      }),
+      createRun("ecmwf", times[1], {
+        "2024-01-19": { temperatureMax: 9, precipitation: 4 },
+        "2024-01-20": { temperatureMax: 9, precipitation: 4 },
+      }),
+      createRun("gfs", times[1], { "2024-01-20": { temperatureMax: 20 } }),
+    ];
+
+    const trends = computeForecastTrends(runs, {
+      fromDate: "2024-01-20",
+      metrics: ["precipitation"],
+    });
+
+    expect(trends.map((t) => [t.date, t.metric, t.change])).toEqual([
+      ["2024-01-20", "precipitation", 3],
+    ]);
+  });
+});
+
+describe("formatForecastTrend", () => {
+  const reference = new Date(2024, 0, 16, 12);
+  const trend = {
+    date: "2024-01-20",
+    metric: "temperatureMax" as const,
+    from: 12,
+    to: 15,
+    change: 3,
+    runs: 4,
+    models: [],
+  };
+
+  it("should describe warming and cooling", () => {
+    expect(formatForecastTrend(trend, reference)).toBe(
+      "Saturday's max has warmed 3°C over the last 4 runs"
+    );
+    expect(
+      formatForecastTrend(
+        { ...trend, date: "2024-01-17", metric: "windSpeed", change: -2.4 },
+        reference
+      )
+    ).toBe("Tomorrow's peak wind has eased 2 m/s over the last 4 runs");
+  });
+
+  it("should call small changes steady", () => {
+    const steady = { ...trend, metric: "precipitation" as const, to: 4.2, change: 0.4, runs: 3 };
+
+    expect(isSignificantTrend(steady)).toBe(false);
+    expect(formatForecastTrend(steady, reference)).toBe(
+      "Saturday's rain total has held steady at 4mm over the last 3 runs"
+    );
+  });
+});
+
+describe("createTrendReport", () => {
+  it("should list each model's latest run with its staleness", () => {
+    const runs = [
+      createRun("gfs", new Date("2024-01-15T00:00:00Z"), {}),
+      createRun("gfs", new Date("2024-01-15T06:00:00Z"), {}),
+      createRun("ecmwf", new Date("2024-01-15T00:00:00Z"), {}),
+    ];
+
+    const report = createTrendReport(OSLO, runs, {}, new Date("2024-01-15T13:00:00Z"));
+
+    expect(report.latestRuns.map((r) => [r.model, r.storedRuns, r.newerRunExpected])).toEqual([
+      ["gfs", 2, false],
+      ["ecmwf", 1, true],
+    ]);
+    expect(report.latestRuns[0].runInitTime).toEqual(new Date("2024-01-15T06:00:00Z"));
+    expect(report.trends).toEqual([]);
+  });
+});
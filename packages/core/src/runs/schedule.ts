@@ -0,0 +1,75 @@
+/**
+ * Model run schedules.
+ * Estimates which run a forecast came from when the provider does not say,
+ * and whether a newer run should already be available.
+ */
+
+import { MODEL_INFO, type ModelName } from "../types/models";
+import { parseUpdateFrequency } from "../watch/schedule";
+import type { RunStaleness } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * Approximate hours between a run's initialisation and its data being
+ * published. Models not listed are available as soon as they are issued.
+ */
+export const RUN_AVAILABILITY_DELAY_HOURS: Partial<Record<ModelName, number>> = {
+  ecmwf: 7,
+  gfs: 4,
+  icon: 4,
+  meteofrance: 4,
+  ukmo: 6,
+  jma: 5,
+  gem: 5,
+};
+
+/**
+ * Hours between a model's runs, from MODEL_INFO.updateFrequency.
+ * Undefined for models without a fixed schedule (e.g. local files).
+ */
+export function getRunIntervalHours(model: ModelName): number | undefined {
+  const ms = parseUpdateFrequency(MODEL_INFO[model].updateFrequency);
+  return ms === undefined ? undefined : ms / HOUR_MS;
+}
+
+/**
+ * Estimate the initialisation time of the latest run published by `at`.
+ * Runs are assumed to start at multiples of the update interval from 00 UTC.
+ * Returns undefined for models without a fixed schedule.
+ */
+export function estimateRunInitTime(model: ModelName, at: Date): Date | undefined {
+  const interval = getRunIntervalHours(model);
+  if (interval === undefined) {
+    return undefined;
+  }
+
+  const intervalMs = interval * HOUR_MS;
+  const published = at.getTime() - (RUN_AVAILABILITY_DELAY_HOURS[model] ?? 0) * HOUR_MS;
+  return new Date(Math.floor(published / intervalMs) * intervalMs);
+}
+
+/**
+ * Work out how old a run is and whether a newer one should have been
+ * published by `now`
+ */
+export function assessRunStaleness(
+  model: ModelName,
+  runInitTime: Date,
+  now: Date = new Date()
+): RunStaleness {
+  const ageHours = (now.getTime() - runInitTime.getTime()) / HOUR_MS;
+  const interval = getRunIntervalHours(model);
+  if (interval === undefined) {
+    return { ageHours, newerRunExpected: false };
+  }
+
+  const nextRunAvailableAt = new Date(
+    runInitTime.getTime() + (interval + (RUN_AVAILABILITY_DELAY_HOURS[model] ?? 0)) * HOUR_MS
+  );
+  return {
+    ageHours,
+    nextRunAvailableAt,
+    newerRunExpected: now >= nextRunAvailableAt,
+  };
+}
@@ -0,0 +1,197 @@
+/**
+ * Run-to-run forecast trends (dprog/dt).
+ * Compares each model's recent runs to show how the forecast for a day has
+ * moved, e.g. "Saturday's max has warmed 3°C over the last 4 runs".
+ */
+
+import type { ModelName } from "../types/models";
+import type { Coordinates } from "../types/location";
+import { mean } from "../engine/statistics";
+import { formatRelativeDay } from "../engine/templates";
+import type {
+  ForecastTrend,
+  ModelRun,
+  ModelTrend,
+  RunStatus,
+  TrendMetric,
+  TrendPoint,
+  TrendReport,
+} from "./types";
+import { TREND_METRICS } from "./types";
+import { assessRunStaleness } from "./schedule";
+
+/**
+ * Default number of recent runs per model to compare
+ */
+export const DEFAULT_TREND_RUNS = 4;
+
+/**
+ * Smallest change worth calling a trend, per metric
+ */
+export const TREND_THRESHOLDS: Record<TrendMetric, number> = {
+  temperatureMax: 1,
+  temperatureMin: 1,
+  precipitation: 1,
+  windSpeed: 1,
+};
+
+/**
+ * Options for computing trends
+ */
+export interface TrendOptions {
+  /**
+   * Recent runs per model to compare (default: 4)
+   */
+  readonly runs?: number;
+
+  /**
+   * Skip forecast days before this date (YYYY-MM-DD)
+   */
+  readonly fromDate?: string;
+
+  /**
+   * Metrics to include (default: all)
+   */
+  readonly metrics?: readonly TrendMetric[];
+}
+
+/**
+ * Group runs by model, oldest first
+ */
+function groupByModel(runs: readonly ModelRun[]): Map<ModelName, ModelRun[]> {
+  const byModel = new Map<ModelName, ModelRun[]>();
+  for (const run of runs) {
+    const list = byModel.get(run.model) ?? [];
+    list.push(run);
+    byModel.set(run.model, list);
+  }
+  for (const list of byModel.values()) {
+    list.sort((a, b) => a.runInitTime.getTime() - b.runInitTime.getTime());
+  }
+  return byModel;
+}
+
+/**
+ * Compute how each day's forecast has moved across recent runs.
+ * Each model's latest runs are compared oldest to newest; days and metrics
+ * with fewer than two runs from any model are left out.
+ */
+export function computeForecastTrends(
+  runs: readonly ModelRun[],
+  options: TrendOptions = {}
+): ForecastTrend[] {
+  const maxRuns = options.runs ?? DEFAULT_TREND_RUNS;
+  const metrics = options.metrics ?? TREND_METRICS;
+
+  // date -> metric -> model trends
+  const groups = new Map<string, Map<TrendMetric, ModelTrend[]>>();
+  for (const [model, modelRuns] of groupByModel(runs)) {
+    const recent = modelRuns.slice(-maxRuns);
+
+    const series = new Map<string, TrendPoint[]>();
+    for (const run of recent) {
+      for (const day of run.days) {
+        if (options.fromDate && day.date < options.fromDate) continue;
+        for (const metric of metrics) {
+          const value = day.values[metric];
+          if (value === undefined) continue;
+          const key = `${day.date}|${metric}`;
+          const points = series.get(key) ?? [];
+          points.push({ runInitTime: run.runInitTime, value });
+          series.set(key, points);
+        }
+      }
+    }
+
+    for (const [key, points] of series) {
+      if (points.length < 2) continue;
+      const [date, metric] = key.split("|") as [string, TrendMetric];
+      const byMetric = groups.get(date) ?? new Map<TrendMetric, ModelTrend[]>();
+      const trends = byMetric.get(metric) ?? [];
+      trends.push({ model, points, change: points[points.length - 1].value - points[0].value });
+      byMetric.set(metric, trends);
+      groups.set(date, byMetric);
+    }
+  }
+
+  const result: ForecastTrend[] = [];
+  for (const date of [...groups.keys()].sort()) {
+    const byMetric = groups.get(date);
+    for (const metric of metrics) {
+      const models = byMetric?.get(metric);
+      if (!models) continue;
+      result.push({
+        date,
+        metric,
+        from: mean(models.map((m) => m.points[0].value)),
+        to: mean(models.map((m) => m.points[m.points.length - 1].value)),
+        change: mean(models.map((m) => m.change)),
+        runs: Math.max(...models.map((m) => m.points.length)),
+        models,
+      });
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Report each model's latest run and the run-to-run trends for a site
+ */
+export function createTrendReport(
+  coordinates: Coordinates,
+  runs: readonly ModelRun[],
+  options: TrendOptions = {},
+  now: Date = new Date()
+): TrendReport {
+  const latestRuns: RunStatus[] = [];
+  for (const [model, modelRuns] of groupByModel(runs)) {
+    const latest = modelRuns[modelRuns.length - 1];
+    latestRuns.push({
+      model,
+      runInitTime: latest.runInitTime,
+      runInitSource: latest.runInitSource,
+      storedRuns: modelRuns.length,
+      ...assessRunStaleness(model, latest.runInitTime, now),
+    });
+  }
+
+  return { coordinates, latestRuns, trends: computeForecastTrends(runs, options) };
+}
+
+/**
+ * Check whether a trend's change is large enough to mention
+ */
+export function isSignificantTrend(trend: ForecastTrend): boolean {
+  return Math.abs(trend.change) >= TREND_THRESHOLDS[trend.metric];
+}
+
+/**
+ * Wording per metric: subject, rising verb, falling verb, unit
+ */
+const TREND_WORDING: Record<TrendMetric, [string, string, string, string]> = {
+  temperatureMax: ["max", "warmed", "cooled", "°C"],
+  temperatureMin: ["min", "warmed", "cooled", "°C"],
+  precipitation: ["rain total", "risen", "fallen", "mm"],
+  windSpeed: ["peak wind", "strengthened", "eased", " m/s"],
+};
+
+/**
+ * Describe a trend, e.g. "Saturday's max has warmed 3°C over the last 4 runs"
+ */
+export function formatForecastTrend(
+  trend: ForecastTrend,
+  referenceDate: Date = new Date()
+): string {
+  const [year, month, day] = trend.date.split("-").map(Number);
+  const dayName = formatRelativeDay(new Date(year, month - 1, day), referenceDate);
+  const [subject, rising, falling, unit] = TREND_WORDING[trend.metric];
+  const prefix = `${dayName.charAt(0).toUpperCase()}${dayName.slice(1)}'s ${subject}`;
+  const over = `over the last ${trend.runs} runs`;
+
+  if (!isSignificantTrend(trend)) {
+    return `${prefix} has held steady at ${Math.round(trend.to)}${unit} ${over}`;
+  }
+  const verb = trend.change > 0 ? rising : falling;
+  return `${prefix} has ${verb} ${Math.round(Math.abs(trend.change))}${unit} ${over}`;
+}
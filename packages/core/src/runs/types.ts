@@ -0,0 +1,160 @@
+/**
+ * Model run history types.
+ * Defines stored per-run daily summaries and the run-to-run trends
+ * computed from them.
+ */
+
+import type { ModelName, RunInitSource } from "../types/models";
+import type { Coordinates } from "../types/location";
+
+/**
+ * Daily values tracked from run to run
+ */
+export const TREND_METRICS = [
+  "temperatureMax",
+  "temperatureMin",
+  "precipitation",
+  "windSpeed",
+] as const;
+
+export type TrendMetric = (typeof TREND_METRICS)[number];
+
+/**
+ * Daily values for the tracked metrics (any may be missing).
+ * Units: °C, mm (daily total), m/s (daily maximum).
+ */
+export type RunDailyValues = Partial<Record<TrendMetric, number>>;
+
+/**
+ * One forecast day from a model run
+ */
+export interface RunDay {
+  /**
+   * Forecast date (YYYY-MM-DD)
+   */
+  readonly date: string;
+  readonly values: RunDailyValues;
+}
+
+/**
+ * A stored model run (compact form of ModelForecast)
+ */
+export interface ModelRun {
+  readonly model: ModelName;
+  readonly coordinates: Coordinates;
+  readonly runInitTime: Date;
+  readonly runInitSource: RunInitSource;
+  /**
+   * When the run was last fetched
+   */
+  readonly fetchedAt: Date;
+  readonly days: readonly RunDay[];
+}
+
+/**
+ * How old a run is and whether a newer one should be available
+ */
+export interface RunStaleness {
+  readonly ageHours: number;
+  /**
+   * When the next run is expected to be published (absent for models
+   * without a fixed schedule)
+   */
+  readonly nextRunAvailableAt?: Date;
+  readonly newerRunExpected: boolean;
+}
+
+/**
+ * A forecast value from one run
+ */
+export interface TrendPoint {
+  readonly runInitTime: Date;
+  readonly value: number;
+}
+
+/**
+ * How one model's forecast for a day has moved across its recent runs
+ */
+export interface ModelTrend {
+  readonly model: ModelName;
+  /**
+   * Values from oldest to newest run
+   */
+  readonly points: readonly TrendPoint[];
+  /**
+   * Newest value minus oldest value
+   */
+  readonly change: number;
+}
+
+/**
+ * How the forecast for one day and metric has moved across recent runs
+ */
+export interface ForecastTrend {
+  readonly date: string;
+  readonly metric: TrendMetric;
+  /**
+   * Mean of the oldest and newest values across models
+   */
+  readonly from: number;
+  readonly to: number;
+  /**
+   * Mean change across models
+   */
+  readonly change: number;
+  /**
+   * Most runs any model contributed
+   */
+  readonly runs: number;
+  readonly models: readonly ModelTrend[];
+}
+
+/**
+ * A model's latest stored run and how stale it is
+ */
+export interface RunStatus extends RunStaleness {
+  readonly model: ModelName;
+  readonly runInitTime: Date;
+  readonly runInitSource: RunInitSource;
+  /**
+   * Stored runs for this model
+   */
+  readonly storedRuns: number;
+}
+
+/**
+ * Latest runs and run-to-run trends for a site
+ */
+export interface TrendReport {
+  readonly coordinates: Coordinates;
+  readonly latestRuns: readonly RunStatus[];
+  readonly trends: readonly ForecastTrend[];
+}
+
+/**
+ * Time range filter for stored runs
+ */
+export interface RunRange {
+  readonly from?: Date;
+  readonly to?: Date;
+}
+
+/**
+ * Persistent store for model runs
+ */
+export interface RunHistoryStore {
+  /**
+   * Record model runs (replacing any with the same model and init time)
+   */
+  saveRuns(runs: readonly ModelRun[]): Promise<void>;
+
+  /**
+   * Get stored runs for a site, optionally limited to those initialised in a range
+   */
+  getRuns(coordinates: Coordinates, range?: RunRange): Promise<ModelRun[]>;
+
+  /**
+   * Remove all stored runs for a site
+   */
+  clear(coordinates: Coordinates): Promise<void>;
+}
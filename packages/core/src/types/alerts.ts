@@ -0,0 +1,120 @@
+/**
+ * Weather alert types for the Weather Oracle system.
+ * Defines the vocabulary of user-defined alert rules and the
+ * structured alerts produced when a rule is met.
+ */
+
+import type { ConfidenceLevelName, ModelName } from "./models";
+
+/**
+ * Hourly metrics an alert rule can test, including the derived heat index,
+ * humidex, wind chill and WBGT, and the chance (0-100) of snow, sleet or
+ * freezing rain
+ */
+export type AlertMetric =
+  | "temperature"
+  | "feelsLike"
+  | "windSpeed"
+  | "windGust"
+  | "precipitation"
+  | "precipitationProbability"
+  | "humidity"
+  | "cloudCover"
+  | "uvIndex"
+  | "visibility"
+  | "heatIndex"
+  | "humidex"
+  | "windChill"
+  | "wbgt"
+  | "snowProbability"
+  | "sleetProbability"
+  | "freezingRainProbability";
+
+export const ALERT_METRICS: readonly AlertMetric[] = [
+  "temperature",
+  "feelsLike",
+  "windSpeed",
+  "windGust",
+  "precipitation",
+  "precipitationProbability",
+  "humidity",
+  "cloudCover",
+  "uvIndex",
+  "visibility",
+  "heatIndex",
+  "humidex",
+  "windChill",
+  "wbgt",
+  "snowProbability",
+  "sleetProbability",
+  "freezingRainProbability",
+];
+
+/**
+ * Comparison between a metric and the rule threshold
+ */
+export type AlertOperator = ">" | ">=" | "<" | "<=";
+
+export const ALERT_OPERATORS: readonly AlertOperator[] = [">", ">=", "<", "<="];
+
+/**
+ * How hourly values are combined over a rule's window
+ */
+export type AlertAggregation = "sum" | "mean" | "max" | "min";
+
+export const ALERT_AGGREGATIONS: readonly AlertAggregation[] = ["sum", "mean", "max", "min"];
+
+/**
+ * Time of day a rule applies to, in the location's local time.
+ * Day is 06:00-18:00, night is 18:00-06:00.
+ */
+export type AlertPeriod = "any" | "day" | "night";
+
+export const ALERT_PERIODS: readonly AlertPeriod[] = ["any", "day", "night"];
+
+/**
+ * Alert severity
+ */
+export type AlertSeverity = "info" | "warning" | "severe";
+
+export const ALERT_SEVERITIES: readonly AlertSeverity[] = ["info", "warning", "severe"];
+
+/**
+ * An alert raised when a rule is met during a forecast window
+ */
+export interface WeatherAlert {
+  /**
+   * Name of the rule that raised the alert
+   */
+  readonly rule: string;
+  readonly severity: AlertSeverity;
+  readonly metric: AlertMetric;
+  readonly operator: AlertOperator;
+  readonly threshold: number;
+  /**
+   * Start of the first hour and end of the last hour meeting the rule
+   */
+  readonly start: Date;
+  readonly end: Date;
+  /**
+   * Most extreme consensus value over the alert window
+   */
+  readonly value: number;
+  /**
+   * Spread of the individual models' values at the peak
+   */
+  readonly modelRange: { readonly min: number; readonly max: number };
+  /**
+   * Percentage of models meeting the rule at the peak (0-100)
+   */
+  readonly probability: number;
+  readonly confidence: ConfidenceLevelName;
+  /**
+   * Models meeting the rule at any point in the window
+   */
+  readonly triggeringModels: readonly ModelName[];
+  /**
+   * Human-readable description
+   */
+  readonly message: string;
+}
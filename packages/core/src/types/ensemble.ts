@@ -0,0 +1,149 @@
+/**
+ * Ensemble forecast types for the Weather Oracle system.
+ * Defines member-level ensemble forecasts and the probabilistic
+ * summaries (percentiles, exceedance probabilities) derived from them.
+ */
+
+import type { Coordinates } from "./location";
+
+/**
+ * Supported ensemble prediction systems
+ */
+export type EnsembleModelName = "ecmwf_ens" | "gefs" | "icon_eps";
+
+/**
+ * Ensemble system display information
+ */
+export interface EnsembleModelInfo {
+  readonly displayName: string;
+  readonly provider: string;
+  readonly resolution: string;
+  /**
+   * Number of members including the control run
+   */
+  readonly members: number;
+}
+
+/**
+ * Standard ensemble system metadata
+ */
+export const ENSEMBLE_MODEL_INFO: Record<EnsembleModelName, EnsembleModelInfo> = {
+  ecmwf_ens: {
+    displayName: "ECMWF ENS",
+    provider: "European Centre for Medium-Range Weather Forecasts",
+    resolution: "25km",
+    members: 51,
+  },
+  gefs: {
+    displayName: "GEFS",
+    provider: "NOAA/NCEP",
+    resolution: "25km",
+    members: 31,
+  },
+  icon_eps: {
+    displayName: "ICON-EPS",
+    provider: "Deutscher Wetterdienst",
+    resolution: "26km",
+    members: 40,
+  },
+};
+
+/**
+ * Metrics available from ensemble members
+ */
+export type EnsembleMetric = "temperature" | "precipitation" | "windSpeed";
+
+/**
+ * Member values for one hour.
+ * Arrays are indexed by member (control first); null means the member
+ * has no value for that hour.
+ */
+export interface EnsembleHourlyMembers {
+  readonly timestamp: Date;
+  readonly temperature: readonly (number | null)[];
+  readonly precipitation: readonly (number | null)[];
+  readonly windSpeed: readonly (number | null)[];
+}
+
+/**
+ * Member-level forecast from a single ensemble system
+ */
+export interface EnsembleForecast {
+  readonly model: EnsembleModelName;
+  readonly coordinates: Coordinates;
+  readonly generatedAt: Date;
+  readonly validFrom: Date;
+  readonly validTo: Date;
+  readonly memberCount: number;
+  readonly hourly: readonly EnsembleHourlyMembers[];
+}
+
+/**
+ * Distribution of a metric across ensemble members
+ */
+export interface MemberDistribution {
+  readonly p10: number;
+  readonly p50: number;
+  readonly p90: number;
+  readonly mean: number;
+  readonly min: number;
+  readonly max: number;
+  readonly memberCount: number;
+}
+
+/**
+ * Direction of an exceedance threshold
+ */
+export type ExceedanceComparison = "above" | "below";
+
+/**
+ * Threshold to compute exceedance probabilities for
+ * (e.g. precipitation above 5mm, temperature below 0°C)
+ */
+export interface ExceedanceThreshold {
+  readonly metric: EnsembleMetric;
+  readonly threshold: number;
+  readonly comparison: ExceedanceComparison;
+}
+
+/**
+ * Share of ensemble members meeting a threshold
+ */
+export interface ExceedanceProbability extends ExceedanceThreshold {
+  /**
+   * Probability as a percentage (0-100)
+   */
+  readonly probability: number;
+}
+
+/**
+ * Ensemble uncertainty for one hour
+ */
+export interface HourlyUncertainty {
+  readonly temperature: MemberDistribution;
+  readonly precipitation: MemberDistribution;
+  readonly windSpeed: MemberDistribution;
+  readonly exceedance: readonly ExceedanceProbability[];
+}
+
+/**
+ * Ensemble uncertainty for one day, computed per member before
+ * taking percentiles (so P90 of the daily high is a real member's high).
+ * Thresholds apply to the daily high (above) or low (below) temperature,
+ * the daily precipitation total, and the daily maximum wind speed.
+ */
+export interface DailyUncertainty {
+  readonly temperatureMax: MemberDistribution;
+  readonly temperatureMin: MemberDistribution;
+  readonly precipitation: MemberDistribution;
+  readonly windSpeedMax: MemberDistribution;
+  readonly exceedance: readonly ExceedanceProbability[];
+}
+
+/**
+ * Summary of the ensemble data behind an aggregated forecast
+ */
+export interface EnsembleSummary {
+  readonly models: readonly EnsembleModelName[];
+  readonly memberCount: number;
+}
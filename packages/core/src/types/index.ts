@@ -37,6 +37,9 @@ export type {
   Visibility,
   WeatherCode,
   WeatherMetrics,
+  HourlyMetricName,
+  DailyMetricName,
+  ExtendedMetricName,
   HourlyForecast,
   TemperatureRange,
   PrecipitationSummary,
@@ -60,16 +63,36 @@ export {
   uvIndex,
   visibility,
   weatherCode,
+  hasMetric,
+  hasDailyMetric,
+  EXTENDED_METRICS,
 } from "./weather";
 
 // Model types
 export type {
   ModelName,
+  OpenMeteoModelName,
+  ProviderModelName,
   ModelInfo,
   ConfidenceLevelName,
   ConfidenceLevel,
+  RunInitSource,
   ModelForecast,
   MetricStatistics,
+  ExtendedMetricStatistics,
+  DirectionStatistics,
+  ConditionShare,
+  ConditionConsensus,
+  MetricCoverage,
+  MissingDataEntry,
+  DataQualityReport,
+  DailyAnomaly,
+  ClimateComparison,
+  AggregationMethod,
+  AggregationMetric,
+  AggregationPolicy,
+  AggregationExclusion,
+  AggregationSummary,
   ModelConsensus,
   ModelWeight,
   AggregatedForecast,
@@ -79,7 +102,68 @@ export type {
 
 export {
   MODEL_INFO,
+  OPEN_METEO_MODELS,
+  isOpenMeteoModel,
   confidenceLevel,
   isModelForecast,
   emptyConsensus,
 } from "./models";
+
+// Ensemble types
+export type {
+  EnsembleModelName,
+  EnsembleModelInfo,
+  EnsembleMetric,
+  EnsembleHourlyMembers,
+  EnsembleForecast,
+  MemberDistribution,
+  ExceedanceComparison,
+  ExceedanceThreshold,
+  ExceedanceProbability,
+  HourlyUncertainty,
+  DailyUncertainty,
+  EnsembleSummary,
+} from "./ensemble";
+
+export { ENSEMBLE_MODEL_INFO } from "./ensemble";
+
+// Alert types
+export type {
+  AlertMetric,
+  AlertOperator,
+  AlertAggregation,
+  AlertPeriod,
+  AlertSeverity,
+  WeatherAlert,
+} from "./alerts";
+
+export {
+  ALERT_METRICS,
+  ALERT_OPERATORS,
+  ALERT_AGGREGATIONS,
+  ALERT_PERIODS,
+  ALERT_SEVERITIES,
+} from "./alerts";
+
+// Derived index types
+export type {
+  HourlyIndexName,
+  DewPointComfort,
+  FrostRisk,
+  IndexValue,
+  ComfortIndex,
+  FrostRiskIndex,
+  HourlyIndices,
+  DailyIndices,
+} from "./indices";
+
+export { HOURLY_INDEX_NAMES } from "./indices";
+
+// Precipitation type types
+export type {
+  PrecipitationType,
+  PrecipitationTypeProbabilities,
+  PrecipitationTypeForecast,
+} from "./precipitation";
+
+export { PRECIPITATION_TYPES } from "./precipitation";
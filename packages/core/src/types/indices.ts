@@ -0,0 +1,108 @@
+/**
+ * Derived index types for the Weather Oracle system.
+ * Comfort and hazard indices computed from the aggregated forecast, each
+ * with a confidence reflecting how far the models' own values spread.
+ */
+
+import type { ConfidenceLevel } from "./models";
+
+/**
+ * Hourly indices that are a single temperature-like value
+ */
+export type HourlyIndexName = "heatIndex" | "humidex" | "windChill" | "wbgt";
+
+export const HOURLY_INDEX_NAMES: readonly HourlyIndexName[] = [
+  "heatIndex",
+  "humidex",
+  "windChill",
+  "wbgt",
+];
+
+/**
+ * Comfort class of a dew point, from dry air to miserable mugginess
+ */
+export type DewPointComfort =
+  "dry" | "comfortable" | "humid" | "muggy" | "oppressive" | "miserable";
+
+/**
+ * Risk of frost from the night's lowest temperature
+ */
+export type FrostRisk = "none" | "low" | "moderate" | "high";
+
+/**
+ * A derived index value with the spread of the models' values
+ */
+export interface IndexValue {
+  readonly value: number;
+  /**
+   * Lowest and highest value computed from each model's forecast
+   */
+  readonly range: { readonly min: number; readonly max: number };
+  readonly confidence: ConfidenceLevel;
+}
+
+/**
+ * Comfort class of the dew point
+ */
+export interface ComfortIndex {
+  readonly class: DewPointComfort;
+  /**
+   * Dew point the class is taken from, in °C
+   */
+  readonly dewPoint: number;
+  readonly confidence: ConfidenceLevel;
+}
+
+/**
+ * Frost risk for a day
+ */
+export interface FrostRiskIndex {
+  readonly risk: FrostRisk;
+  /**
+   * Consensus minimum temperature, in °C
+   */
+  readonly minTemperature: number;
+  /**
+   * Percentage of models forecasting a minimum at or below freezing (0-100)
+   */
+  readonly probability: number;
+  readonly confidence: ConfidenceLevel;
+}
+
+/**
+ * Indices for one aggregated hour. Temperatures are in °C; heat index,
+ * humidex and wind chill equal the air temperature outside the conditions
+ * they are defined for.
+ */
+export interface HourlyIndices {
+  readonly heatIndex: IndexValue;
+  readonly humidex: IndexValue;
+  readonly windChill: IndexValue;
+  /**
+   * Wet-bulb globe temperature, approximated for shade from temperature and humidity
+   */
+  readonly wbgt: IndexValue;
+  readonly comfort: ComfortIndex;
+}
+
+/**
+ * Indices for one aggregated day
+ */
+export interface DailyIndices {
+  /**
+   * Most extreme hourly indices of the day: the highest heat index,
+   * humidex, WBGT and dew point, and the lowest wind chill (absent without
+   * hourly data for the day)
+   */
+  readonly peaks?: HourlyIndices;
+  readonly frostRisk: FrostRiskIndex;
+  /**
+   * Growing degree days above a 10°C base
+   */
+  readonly growingDegreeDays: IndexValue;
+  /**
+   * FAO-56 Penman-Monteith reference evapotranspiration, in mm (absent
+   * when humidity or wind was not forecast)
+   */
+  readonly referenceEvapotranspiration?: IndexValue;
+}
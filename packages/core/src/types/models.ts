@@ -3,13 +3,25 @@
  * Defines weather model names, model-specific forecasts, and aggregated forecasts.
  */
 
-import type { Coordinates } from "./location";
-import type { DailyForecast, HourlyForecast, WeatherMetrics } from "./weather";
+import type { Coordinates, Elevation } from "./location";
+import type {
+  DailyForecast,
+  DailyMetricName,
+  ExtendedMetricName,
+  HourlyForecast,
+  HourlyMetricName,
+  WeatherCode,
+  WeatherCondition,
+  WeatherMetrics,
+} from "./weather";
+import type { DailyUncertainty, EnsembleSummary, HourlyUncertainty } from "./ensemble";
+import type { DailyIndices, HourlyIndices } from "./indices";
+import type { PrecipitationTypeForecast } from "./precipitation";
 
 /**
- * Supported weather forecast models
+ * Weather models served by Open-Meteo
  */
-export type ModelName =
+export type OpenMeteoModelName =
   | "ecmwf"
   | "gfs"
   | "icon"
@@ -18,6 +30,36 @@ export type ModelName =
   | "jma"
   | "gem";
 
+/**
+ * Models served by other weather providers
+ */
+export type ProviderModelName = "nws" | "metno" | "local";
+
+/**
+ * Supported weather forecast models
+ */
+export type ModelName = OpenMeteoModelName | ProviderModelName;
+
+/**
+ * Open-Meteo models, fetched by default
+ */
+export const OPEN_METEO_MODELS: readonly OpenMeteoModelName[] = [
+  "ecmwf",
+  "gfs",
+  "icon",
+  "meteofrance",
+  "ukmo",
+  "jma",
+  "gem",
+];
+
+/**
+ * Check whether a model is served by Open-Meteo
+ */
+export function isOpenMeteoModel(model: ModelName): model is OpenMeteoModelName {
+  return (OPEN_METEO_MODELS as readonly ModelName[]).includes(model);
+}
+
 /**
  * Model display information
  */
@@ -75,6 +117,24 @@ export const MODEL_INFO: Record<ModelName, Omit<ModelInfo, "name">> = {
     resolution: "15km",
     updateFrequency: "12 hours",
   },
+  nws: {
+    displayName: "NWS NDFD",
+    provider: "US National Weather Service",
+    resolution: "2.5km",
+    updateFrequency: "1 hour",
+  },
+  metno: {
+    displayName: "MET Norway",
+    provider: "Norwegian Meteorological Institute",
+    resolution: "2.5km",
+    updateFrequency: "1 hour",
+  },
+  local: {
+    displayName: "Local File",
+    provider: "Local forecast file",
+    resolution: "unknown",
+    updateFrequency: "on demand",
+  },
 };
 
 /**
@@ -108,6 +168,12 @@ export function confidenceLevel(score: number): ConfidenceLevel {
   return { level, score };
 }
 
+/**
+ * Where a forecast's run initialisation time came from: reported by the
+ * provider, or estimated from the model's update cycle
+ */
+export type RunInitSource = "provider" | "estimated";
+
 /**
  * Forecast from a single weather model
  * Uses discriminated union pattern with model field as discriminant
@@ -115,7 +181,16 @@ export function confidenceLevel(score: number): ConfidenceLevel {
 export interface ModelForecast<M extends ModelName = ModelName> {
   readonly model: M;
   readonly coordinates: Coordinates;
+  /**
+   * Ground elevation (m) of the forecast point, when the provider reports it
+   */
+  readonly elevation?: Elevation;
   readonly generatedAt: Date;
+  /**
+   * Initialisation time of the model run the forecast came from
+   */
+  readonly runInitTime?: Date;
+  readonly runInitSource?: RunInitSource;
   readonly validFrom: Date;
   readonly validTo: Date;
   readonly hourly: readonly HourlyForecast[];
@@ -144,6 +219,204 @@ export interface MetricStatistics {
   readonly range: number;
 }
 
+/**
+ * Statistics for an extended metric, with the models that provided it
+ */
+export interface ExtendedMetricStatistics extends MetricStatistics {
+  readonly models: readonly ModelName[];
+}
+
+/**
+ * Circular statistics for wind direction across models
+ */
+export interface DirectionStatistics {
+  /**
+   * Circular mean direction in degrees (0-360, direction the wind blows from)
+   */
+  readonly mean: number;
+  /**
+   * Length of the mean unit vector: 1 when all models agree, 0 when they cancel out
+   */
+  readonly resultantLength: number;
+  /**
+   * Circular standard deviation in degrees (0-180)
+   */
+  readonly spread: number;
+}
+
+/**
+ * Models that forecast one weather condition
+ */
+export interface ConditionShare {
+  readonly condition: WeatherCondition;
+  readonly models: readonly ModelName[];
+  /**
+   * Fraction of the total model weight behind this condition (0-1)
+   */
+  readonly weight: number;
+}
+
+/**
+ * Categorical consensus on the weather condition across models
+ */
+export interface ConditionConsensus {
+  /**
+   * Condition with the most model weight (ties go to the more severe condition)
+   */
+  readonly condition: WeatherCondition;
+  /**
+   * WMO code forecast by the winning models, so it is always one a model predicted
+   */
+  readonly weatherCode: WeatherCode;
+  /**
+   * Every forecast condition, by weight descending
+   */
+  readonly distribution: readonly ConditionShare[];
+}
+
+/**
+ * Which models provided a metric for one hour or day
+ */
+export interface MetricCoverage {
+  readonly metric: HourlyMetricName | DailyMetricName;
+  /**
+   * Models whose values were aggregated
+   */
+  readonly models: readonly ModelName[];
+  /**
+   * Models that did not provide the metric
+   */
+  readonly missing: readonly ModelName[];
+}
+
+/**
+ * A metric one model did not provide, and when
+ */
+export interface MissingDataEntry {
+  readonly model: ModelName;
+  readonly scope: "hourly" | "daily";
+  readonly metric: HourlyMetricName | DailyMetricName;
+  /**
+   * Hours (hourly scope) or dates (daily scope) without a value, in order
+   */
+  readonly times: readonly Date[];
+}
+
+/**
+ * Missing values across the model forecasts behind an aggregation
+ */
+export interface DataQualityReport {
+  readonly entries: readonly MissingDataEntry[];
+  readonly missingValues: number;
+  readonly totalValues: number;
+}
+
+/**
+ * How a day compares with the climatological normal for its date
+ */
+export interface DailyAnomaly {
+  /**
+   * Normal high, low (°C) and precipitation (mm) for the date
+   */
+  readonly normal: {
+    readonly temperatureMax: number;
+    readonly temperatureMin: number;
+    readonly precipitation: number;
+  };
+  /**
+   * Forecast high minus the normal high (°C), absent when the high is not
+   * forecast
+   */
+  readonly temperatureMax?: number;
+  /**
+   * Forecast low minus the normal low (°C), absent when the low is not
+   * forecast
+   */
+  readonly temperatureMin?: number;
+  /**
+   * Forecast precipitation minus the normal (mm), absent when precipitation
+   * is not forecast
+   */
+  readonly precipitation?: number;
+}
+
+/**
+ * Climatological context for a forecast as a whole
+ */
+export interface ClimateComparison {
+  /**
+   * Years the normals were computed from
+   */
+  readonly period: { readonly startYear: number; readonly endYear: number };
+  /**
+   * Set when the forecast week is wetter than the wettest week of its month
+   * in each of the most recent `years` years
+   */
+  readonly wettestWeek?: {
+    /**
+     * Month (1-12)
+     */
+    readonly month: number;
+    readonly years: number;
+    /**
+     * Forecast precipitation for the week (mm)
+     */
+    readonly precipitation: number;
+  };
+}
+
+/**
+ * How one metric is combined across models
+ */
+export type AggregationMethod =
+  | "mean"
+  | "median"
+  | "trimmed-mean"
+  | "weighted-median"
+  | "exclude-outliers";
+
+/**
+ * Metrics whose aggregation method can be chosen
+ */
+export type AggregationMetric =
+  | "temperature"
+  | "humidity"
+  | "pressure"
+  | "windSpeed"
+  | "precipitation"
+  | "cloudCover"
+  | "visibility"
+  | "uvIndex"
+  | ExtendedMetricName;
+
+/**
+ * Aggregation method per metric; unset metrics use the built-in methods
+ */
+export type AggregationPolicy = {
+  readonly [M in AggregationMetric]?: AggregationMethod;
+};
+
+/**
+ * A model left out of a metric's consensus, with the times it was dropped
+ */
+export interface AggregationExclusion {
+  readonly model: ModelName;
+  readonly metric: AggregationMetric;
+  readonly scope: "hourly" | "daily";
+  readonly method: AggregationMethod;
+  /** Largest absolute z-score among the dropped values */
+  readonly zScore: number;
+  readonly times: readonly Date[];
+}
+
+/**
+ * Aggregation policy applied to a forecast and the models it dropped
+ */
+export interface AggregationSummary {
+  readonly policy: AggregationPolicy;
+  readonly exclusions: readonly AggregationExclusion[];
+}
+
 /**
  * Agreement metrics across weather models
  */
@@ -154,6 +427,16 @@ export interface ModelConsensus {
   readonly temperatureStats: MetricStatistics;
   readonly precipitationStats: MetricStatistics;
   readonly windStats: MetricStatistics;
+  /**
+   * Wind direction agreement (absent in forecasts aggregated before it was added)
+   */
+  readonly windDirectionStats?: DirectionStatistics;
+  /**
+   * Agreement on the extended metrics at least one model provided
+   */
+  readonly extendedStats?: {
+    readonly [M in ExtendedMetricName]?: ExtendedMetricStatistics;
+  };
 }
 
 /**
@@ -170,6 +453,11 @@ export interface ModelWeight {
  */
 export interface AggregatedForecast {
   readonly coordinates: Coordinates;
+  /**
+   * Ground elevation (m) of the site, used to measure the freezing level
+   * from the ground (absent when unknown)
+   */
+  readonly elevation?: Elevation;
   readonly generatedAt: Date;
   readonly validFrom: Date;
   readonly validTo: Date;
@@ -181,6 +469,22 @@ export interface AggregatedForecast {
   };
   readonly modelWeights: readonly ModelWeight[];
   readonly overallConfidence: ConfidenceLevel;
+  /**
+   * Ensemble systems used for uncertainty bands (when ensembles were provided)
+   */
+  readonly ensemble?: EnsembleSummary;
+  /**
+   * Values missing from the model forecasts (absent when nothing was missing)
+   */
+  readonly dataQuality?: DataQualityReport;
+  /**
+   * Aggregation policy and exclusions (when a policy was given)
+   */
+  readonly aggregation?: AggregationSummary;
+  /**
+   * Comparison with the location's climate (when normals were applied)
+   */
+  readonly climatology?: ClimateComparison;
 }
 
 /**
@@ -196,6 +500,26 @@ export interface AggregatedHourlyForecast {
     readonly precipitation: { readonly min: number; readonly max: number };
     readonly windSpeed: { readonly min: number; readonly max: number };
   };
+  /**
+   * How models split across weather conditions (absent in older cached forecasts)
+   */
+  readonly conditions?: ConditionConsensus;
+  /**
+   * Metrics some models did not provide (absent when coverage is complete)
+   */
+  readonly coverage?: readonly MetricCoverage[];
+  /**
+   * Ensemble member percentiles and exceedance probabilities (fan-chart data)
+   */
+  readonly uncertainty?: HourlyUncertainty;
+  /**
+   * Comfort and hazard indices (absent in older cached forecasts)
+   */
+  readonly indices?: HourlyIndices;  /**
+   * Chance of rain, snow, sleet and freezing rain (absent when no model
+   * forecasts precipitation, and in older cached forecasts)
+   */
+  readonly precipitationType?: PrecipitationTypeForecast;
 }
 
 /**
@@ -211,6 +535,26 @@ export interface AggregatedDailyForecast {
     readonly temperatureMin: { readonly min: number; readonly max: number };
     readonly precipitation: { readonly min: number; readonly max: number };
   };
+  /**
+   * How models split across weather conditions (absent in older cached forecasts)
+   */
+  readonly conditions?: ConditionConsensus;
+  /**
+   * Metrics some models did not provide (absent when coverage is complete)
+   */
+  readonly coverage?: readonly MetricCoverage[];
+  /**
+   * Ensemble member percentiles and exceedance probabilities for the day
+   */
+  readonly uncertainty?: DailyUncertainty;
+  /**
+   * Departure from the climatological normal (when normals were applied)
+   */
+  readonly anomaly?: DailyAnomaly;
+  /**
+   * Comfort, hazard and agricultural indices (absent in older cached forecasts)
+   */
+  readonly indices?: DailyIndices;
 }
 
 /**
@@ -0,0 +1,44 @@
+/**
+ * Precipitation type types for the Weather Oracle system.
+ * How likely precipitation is to fall as rain, snow, sleet or freezing
+ * rain, combining each model's temperatures and weather code.
+ */
+
+import type { ModelName } from "./models";
+
+/**
+ * Form precipitation takes at the surface
+ */
+export type PrecipitationType = "rain" | "snow" | "sleet" | "freezingRain";
+
+export const PRECIPITATION_TYPES: readonly PrecipitationType[] = [
+  "rain",
+  "snow",
+  "sleet",
+  "freezingRain",
+];
+
+/**
+ * Percentage chance (0-100) of each precipitation type, rounded to whole
+ * percentages that sum to about 100
+ */
+export type PrecipitationTypeProbabilities = Readonly<Record<PrecipitationType, number>>;
+
+/**
+ * Precipitation type for one aggregated hour, from the models forecasting
+ * precipitation
+ */
+export interface PrecipitationTypeForecast {
+  /**
+   * Most likely type
+   */
+  readonly type: PrecipitationType;
+  /**
+   * Chance of each type should precipitation fall, weighted across models
+   */
+  readonly probabilities: PrecipitationTypeProbabilities;
+  /**
+   * Models forecasting precipitation in the hour
+   */
+  readonly models: readonly ModelName[];
+}
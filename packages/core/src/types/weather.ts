@@ -175,6 +175,23 @@ export function weatherCode(code: number): WeatherCode {
   return code as WeatherCode;
 }
 
+/**
+ * Weather condition categories that WMO codes are grouped into
+ */
+export type WeatherCondition =
+  | "sunny"
+  | "partly_cloudy"
+  | "cloudy"
+  | "overcast"
+  | "fog"
+  | "drizzle"
+  | "rain"
+  | "heavy_rain"
+  | "thunderstorm"
+  | "snow"
+  | "sleet"
+  | "unknown";
+
 /**
  * Core weather metrics at a point in time
  */
@@ -192,6 +209,119 @@ export interface WeatherMetrics {
   readonly visibility: Visibility;
   readonly uvIndex: UVIndex;
   readonly weatherCode: WeatherCode;
+  /**
+   * Dew point at 2 m
+   */
+  readonly dewPoint?: Celsius;
+  /**
+   * Snowfall over the preceding hour, in centimetres
+   */
+  readonly snowfall?: number;
+  /**
+   * Snow depth on the ground, in metres
+   */
+  readonly snowDepth?: number;
+  /**
+   * Height of the 0°C isotherm above sea level, in metres
+   */
+  readonly freezingLevelHeight?: number;
+  /**
+   * Convective available potential energy, in J/kg
+   */
+  readonly cape?: number;
+  /**
+   * Soil temperature at the surface
+   */
+  readonly soilTemperature?: Celsius;
+  /**
+   * Volumetric soil moisture in the top 1 cm, in m³/m³
+   */
+  readonly soilMoisture?: number;
+  /**
+   * Shortwave (solar) radiation averaged over the preceding hour, in W/m²
+   */
+  readonly shortwaveRadiation?: number;
+  /**
+   * Metrics the source did not provide. Their values are placeholders and
+   * are left out of aggregation and confidence.
+   */
+  readonly missing?: readonly HourlyMetricName[];
+}
+
+/**
+ * Names of the hourly metrics a source can omit
+ */
+export type HourlyMetricName =
+  | "temperature"
+  | "feelsLike"
+  | "humidity"
+  | "pressure"
+  | "windSpeed"
+  | "windDirection"
+  | "windGust"
+  | "precipitation"
+  | "precipitationProbability"
+  | "cloudCover"
+  | "visibility"
+  | "uvIndex"
+  | "weatherCode";
+
+/**
+ * Names of the optional metrics only some models serve. A model without one
+ * leaves it undefined rather than listing it in `missing`.
+ */
+export type ExtendedMetricName =
+  | "dewPoint"
+  | "snowfall"
+  | "snowDepth"
+  | "freezingLevelHeight"
+  | "cape"
+  | "soilTemperature"
+  | "soilMoisture"
+  | "shortwaveRadiation";
+
+export const EXTENDED_METRICS: readonly ExtendedMetricName[] = [
+  "dewPoint",
+  "snowfall",
+  "snowDepth",
+  "freezingLevelHeight",
+  "cape",
+  "soilTemperature",
+  "soilMoisture",
+  "shortwaveRadiation",
+];
+
+/**
+ * Names of the daily metrics a source can omit.
+ * Paired fields share a name (humidity covers min and max, windSpeed covers
+ * average and maximum).
+ */
+export type DailyMetricName =
+  | "temperatureMax"
+  | "temperatureMin"
+  | "humidity"
+  | "pressure"
+  | "precipitation"
+  | "precipitationProbability"
+  | "precipitationHours"
+  | "windSpeed"
+  | "windDirection"
+  | "cloudCover"
+  | "uvIndex"
+  | "weatherCode";
+
+/**
+ * Check whether hourly metrics include a real value for a metric
+ */
+export function hasMetric(metrics: WeatherMetrics, metric: HourlyMetricName): boolean {
+  return metrics[metric] !== undefined && !(metrics.missing?.includes(metric) ?? false);
+}
+
+/**
+ * Check whether a daily forecast includes a real value for a metric
+ */
+export function hasDailyMetric(daily: DailyForecast, metric: DailyMetricName): boolean {
+  return !(daily.missing?.includes(metric) ?? false);
 }
 
 /**
@@ -263,4 +393,37 @@ export interface DailyForecast {
   readonly sun: SunTimes;
   readonly weatherCode: WeatherCode;
   readonly hourly: readonly HourlyForecast[];
+  /**
+   * Extended metrics, present when the source provided them
+   */
+  readonly dewPoint?: {
+    readonly min: Celsius;
+    readonly max: Celsius;
+  };
+  readonly snowfall?: {
+    readonly total: number; // cm
+  };
+  readonly snowDepth?: {
+    readonly max: number; // m
+  };
+  readonly freezingLevelHeight?: {
+    readonly min: number; // m
+  };
+  readonly cape?: {
+    readonly max: number; // J/kg
+  };
+  readonly soilTemperature?: {
+    readonly min: Celsius;
+    readonly max: Celsius;
+  };
+  readonly soilMoisture?: {
+    readonly avg: number; // m³/m³
+  };
+  readonly shortwaveRadiation?: {
+    readonly total: number; // MJ/m²
+  };
+  /**
+   * Metrics the source did not provide (values are placeholders)
+   */
+  readonly missing?: readonly DailyMetricName[];
 }
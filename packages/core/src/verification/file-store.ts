@@ -0,0 +1,264 @@
+/**
+ * File-based verification store.
+ * Stores forecasts and observations per site as JSON files in
+ * ~/.weather-oracle/verification/<site>/
+ */
+
+import { homedir, tmpdir } from "node:os";
+import { join, dirname } from "node:path";
+import { readFile, writeFile, mkdir, rename, rm, unlink } from "node:fs/promises";
+import { randomUUID } from "node:crypto";
+import type { Coordinates } from "../types/location";
+import type {
+  ForecastRecord,
+  Observation,
+  TimeRange,
+  VerificationStore,
+  VerifiedValues,
+} from "./types";
+import { createSiteKey } from "./records";
+import { VerificationError } from "../errors/verification";
+
+/**
+ * Default number of days of forecast history to keep per site
+ */
+const DEFAULT_RETENTION_DAYS = 90;
+
+const FORECASTS_FILE = "forecasts.json";
+const OBSERVATIONS_FILE = "observations.json";
+
+/**
+ * Serialized (JSON) form of a forecast record
+ */
+interface StoredForecastRecord {
+  model: ForecastRecord["model"];
+  coordinates: Coordinates;
+  generatedAt: string;
+  points: Array<{ timestamp: string; leadTimeHours: number; values: VerifiedValues }>;
+}
+
+/**
+ * Serialized (JSON) form of an observation
+ */
+interface StoredObservation {
+  timestamp: string;
+  values: VerifiedValues;
+}
+
+/**
+ * Configuration options for FileVerificationStore
+ */
+export interface FileVerificationStoreOptions {
+  /**
+   * Directory for verification data (default: ~/.weather-oracle/verification)
+   */
+  directory?: string;
+
+  /**
+   * Days of forecast and observation history to keep (default: 90)
+   */
+  retentionDays?: number;
+}
+
+/**
+ * Check whether a date falls within an optional range
+ */
+function inRange(date: Date, range?: TimeRange): boolean {
+  if (range?.from && date < range.from) return false;
+  if (range?.to && date > range.to) return false;
+  return true;
+}
+
+/**
+ * File-based verification store implementation
+ */
+export class FileVerificationStore implements VerificationStore {
+  private readonly directory: string;
+  private readonly retentionDays: number;
+
+  constructor(options: FileVerificationStoreOptions = {}) {
+    this.directory =
+      options.directory ?? join(homedir(), ".weather-oracle", "verification");
+    this.retentionDays = options.retentionDays ?? DEFAULT_RETENTION_DAYS;
+  }
+
+  /**
+   * Get the directory for a site
+   */
+  private getSiteDir(coordinates: Coordinates): string {
+    return join(this.directory, createSiteKey(coordinates));
+  }
+
+  /**
+   * Oldest date still kept by the retention policy
+   */
+  private getRetentionCutoff(): Date {
+    return new Date(Date.now() - this.retentionDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Read a JSON array file, returning an empty array if it doesn't exist
+   */
+  private async readJson<T>(filePath: string): Promise<T[]> {
+    try {
+      const content = await readFile(filePath, "utf-8");
+      const parsed = JSON.parse(content) as unknown;
+      return Array.isArray(parsed) ? (parsed as T[]) : [];
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw VerificationError.storeError(
+        filePath,
+        "read",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Write a JSON array file atomically
+   */
+  private async writeJson<T>(filePath: string, data: readonly T[]): Promise<void> {
+    const tempPath = join(tmpdir(), `weather-oracle-${randomUUID()}.tmp`);
+
+    try {
+      await mkdir(dirname(filePath), { recursive: true });
+      await writeFile(tempPath, JSON.stringify(data), "utf-8");
+      await rename(tempPath, filePath);
+    } catch (error) {
+      try {
+        await unlink(tempPath);
+      } catch {
+        // Ignore cleanup errors
+      }
+      throw VerificationError.storeError(
+        filePath,
+        "write",
+        error instanceof Error ? error : new Error(String(error))
+      );
+    }
+  }
+
+  /**
+   * Record model forecasts for later verification.
+   * A run is identified by model and generation time; re-saving replaces it.
+   */
+  async saveForecasts(forecasts: readonly ForecastRecord[]): Promise<void> {
+    // Group by site so each file is rewritten once
+    const bySite = new Map<string, { coordinates: Coordinates; records: ForecastRecord[] }>();
+    for (const record of forecasts) {
+      const key = createSiteKey(record.coordinates);
+      const group = bySite.get(key) ?? { coordinates: record.coordinates, records: [] };
+      group.records.push(record);
+      bySite.set(key, group);
+    }
+
+    const cutoff = this.getRetentionCutoff();
+
+    for (const { coordinates, records } of bySite.values()) {
+      const filePath = join(this.getSiteDir(coordinates), FORECASTS_FILE);
+      const existing = await this.readJson<StoredForecastRecord>(filePath);
+
+      const runs = new Map<string, StoredForecastRecord>();
+      for (const stored of existing) {
+        runs.set(`${stored.model}@${stored.generatedAt}`, stored);
+      }
+      for (const record of records) {
+        const stored: StoredForecastRecord = {
+          model: record.model,
+          coordinates: record.coordinates,
+          generatedAt: record.generatedAt.toISOString(),
+          points: record.points.map((p) => ({
+            timestamp: p.timestamp.toISOString(),
+            leadTimeHours: p.leadTimeHours,
+            values: p.values,
+          })),
+        };
+        runs.set(`${stored.model}@${stored.generatedAt}`, stored);
+      }
+
+      const kept = Array.from(runs.values())
+        .filter((r) => new Date(r.generatedAt) >= cutoff)
+        .sort((a, b) => a.generatedAt.localeCompare(b.generatedAt));
+
+      await this.writeJson(filePath, kept);
+    }
+  }
+
+  /**
+   * Get stored forecasts for a site
+   */
+  async getForecasts(coordinates: Coordinates, range?: TimeRange): Promise<ForecastRecord[]> {
+    const filePath = join(this.getSiteDir(coordinates), FORECASTS_FILE);
+    const stored = await this.readJson<StoredForecastRecord>(filePath);
+
+    return stored
+      .map((r) => ({
+        model: r.model,
+        coordinates: r.coordinates,
+        generatedAt: new Date(r.generatedAt),
+        points: r.points.map((p) => ({
+          timestamp: new Date(p.timestamp),
+          leadTimeHours: p.leadTimeHours,
+          values: p.values,
+        })),
+      }))
+      .filter((r) => inRange(r.generatedAt, range));
+  }
+
+  /**
+   * Record observations for a site, replacing any with the same timestamp
+   */
+  async saveObservations(
+    coordinates: Coordinates,
+    observations: readonly Observation[]
+  ): Promise<void> {
+    const filePath = join(this.getSiteDir(coordinates), OBSERVATIONS_FILE);
+    const existing = await this.readJson<StoredObservation>(filePath);
+
+    const byTime = new Map<string, StoredObservation>();
+    for (const stored of existing) {
+      byTime.set(stored.timestamp, stored);
+    }
+    for (const observation of observations) {
+      const timestamp = observation.timestamp.toISOString();
+      byTime.set(timestamp, { timestamp, values: observation.values });
+    }
+
+    const cutoff = this.getRetentionCutoff();
+    const kept = Array.from(byTime.values())
+      .filter((o) => new Date(o.timestamp) >= cutoff)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+    await this.writeJson(filePath, kept);
+  }
+
+  /**
+   * Get stored observations for a site
+   */
+  async getObservations(coordinates: Coordinates, range?: TimeRange): Promise<Observation[]> {
+    const filePath = join(this.getSiteDir(coordinates), OBSERVATIONS_FILE);
+    const stored = await this.readJson<StoredObservation>(filePath);
+
+    return stored
+      .map((o) => ({ timestamp: new Date(o.timestamp), values: o.values }))
+      .filter((o) => inRange(o.timestamp, range));
+  }
+
+  /**
+   * Remove all stored data for a site
+   */
+  async clear(coordinates: Coordinates): Promise<void> {
+    await rm(this.getSiteDir(coordinates), { recursive: true, force: true });
+  }
+}
+
+/**
+ * Create a verification store with the given options
+ */
+export function createVerificationStore(
+  options?: FileVerificationStoreOptions
+): VerificationStore {
+  return new FileVerificationStore(options);
+}
@@ -0,0 +1,53 @@
+/**
+ * Forecast verification module for Weather Oracle.
+ * Stores model forecasts, ingests observations, and scores model accuracy.
+ */
+
+// Types and interfaces
+export type {
+  VerifiedMetric,
+  VerifiedValues,
+  ForecastPoint,
+  ForecastRecord,
+  Observation,
+  LeadTimeBucket,
+  ErrorStatistics,
+  ModelVerificationScore,
+  VerificationReport,
+  TimeRange,
+  VerificationStore,
+} from "./types";
+
+export { VERIFIED_METRICS, DEFAULT_LEAD_TIME_BUCKETS } from "./types";
+
+// Record conversion
+export { createSiteKey, toForecastRecord } from "./records";
+
+// File-based store implementation
+export {
+  FileVerificationStore,
+  createVerificationStore,
+  type FileVerificationStoreOptions,
+} from "./file-store";
+
+// Observation ingestion
+export {
+  parseArchiveObservations,
+  parseObservationsCsv,
+  loadObservationsFile,
+  fetchArchiveObservations,
+  type ArchiveResponse,
+  type ArchiveHourlyData,
+  type ArchiveFetchOptions,
+} from "./observations";
+
+// Scoring
+export {
+  ALL_LEAD_TIMES,
+  calculateErrorStatistics,
+  scoreForecasts,
+  toSkillScores,
+  verifySite,
+  type ScoringOptions,
+  type VerifySiteOptions,
+} from "./scoring";
@@ -0,0 +1,308 @@
+/**
+ * Observation ingestion for forecast verification.
+ * Reads observed weather from Open-Meteo archive responses or local CSV files.
+ */
+
+import { readFile } from "node:fs/promises";
+import { extname } from "node:path";
+import type { Coordinates } from "../types/location";
+import type { Observation, TimeRange, VerifiedMetric, VerifiedValues } from "./types";
+import { VerificationError } from "../errors/verification";
+import { ApiError } from "../errors/api";
+import { OPEN_METEO_ARCHIVE_URL } from "../api/endpoints";
+
+/**
+ * Hourly variables requested from the archive API
+ */
+const ARCHIVE_HOURLY_VARIABLES = [
+  "temperature_2m",
+  "precipitation",
+  "wind_speed_10m",
+  "relative_humidity_2m",
+  "surface_pressure",
+] as const;
+
+/**
+ * Hourly block of an Open-Meteo archive response
+ */
+export interface ArchiveHourlyData {
+  time: string[];
+  temperature_2m?: (number | null)[];
+  precipitation?: (number | null)[];
+  wind_speed_10m?: (number | null)[];
+  relative_humidity_2m?: (number | null)[];
+  surface_pressure?: (number | null)[];
+}
+
+/**
+ * Open-Meteo archive-style response (historical weather API)
+ */
+export interface ArchiveResponse {
+  latitude?: number;
+  longitude?: number;
+  hourly_units?: Record<string, string>;
+  hourly?: ArchiveHourlyData;
+  error?: boolean;
+  reason?: string;
+}
+
+/**
+ * CSV column names mapped to a metric and a multiplier to convert to
+ * internal units. Internal names use internal units; Open-Meteo names use
+ * Open-Meteo default units (wind in km/h).
+ */
+const CSV_COLUMNS: Record<string, { metric: VerifiedMetric; scale: number }> = {
+  temperature: { metric: "temperature", scale: 1 },
+  temperature_2m: { metric: "temperature", scale: 1 },
+  precipitation: { metric: "precipitation", scale: 1 },
+  windspeed: { metric: "windSpeed", scale: 1 },
+  wind_speed: { metric: "windSpeed", scale: 1 },
+  wind_speed_10m: { metric: "windSpeed", scale: 1 / 3.6 },
+  humidity: { metric: "humidity", scale: 1 },
+  relative_humidity_2m: { metric: "humidity", scale: 1 },
+  pressure: { metric: "pressure", scale: 1 },
+  surface_pressure: { metric: "pressure", scale: 1 },
+};
+
+/**
+ * Column names accepted for the observation time
+ */
+const CSV_TIME_COLUMNS = ["timestamp", "time", "datetime", "date"];
+
+/**
+ * Parse an ISO-like timestamp, returning null if invalid
+ */
+function parseTimestamp(value: string): Date | null {
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Parse observations from an Open-Meteo archive-style response.
+ * Wind speed is converted to m/s based on `hourly_units` (km/h by default).
+ *
+ * @throws VerificationError if the response has no hourly data
+ */
+export function parseArchiveObservations(
+  response: ArchiveResponse,
+  source: string = "archive"
+): Observation[] {
+  if (response.error) {
+    throw VerificationError.invalidObservations(source, response.reason ?? "API error");
+  }
+  if (!response.hourly || !Array.isArray(response.hourly.time)) {
+    throw VerificationError.invalidObservations(source, "missing hourly data");
+  }
+
+  const hourly = response.hourly;
+  const windUnit = response.hourly_units?.["wind_speed_10m"] ?? "km/h";
+  const windScale = windUnit === "m/s" ? 1 : windUnit === "mp/h" ? 0.44704 : 1 / 3.6;
+
+  const observations: Observation[] = [];
+
+  for (let i = 0; i < hourly.time.length; i++) {
+    const timestamp = parseTimestamp(hourly.time[i]);
+    if (!timestamp) continue;
+
+    const values: VerifiedValues = {};
+    const temperature = hourly.temperature_2m?.[i];
+    const precipitation = hourly.precipitation?.[i];
+    const windSpeed = hourly.wind_speed_10m?.[i];
+    const humidity = hourly.relative_humidity_2m?.[i];
+    const pressure = hourly.surface_pressure?.[i];
+
+    if (temperature != null) values.temperature = temperature;
+    if (precipitation != null) values.precipitation = precipitation;
+    if (windSpeed != null) values.windSpeed = windSpeed * windScale;
+    if (humidity != null) values.humidity = humidity;
+    if (pressure != null) values.pressure = pressure;
+
+    if (Object.keys(values).length > 0) {
+      observations.push({ timestamp, values });
+    }
+  }
+
+  return observations;
+}
+
+/**
+ * Parse observations from CSV content.
+ *
+ * The first row must be a header with a time column (`timestamp` or `time`)
+ * and any of: temperature (°C), precipitation (mm), windSpeed (m/s),
+ * humidity (%), pressure (hPa). Open-Meteo column names such as
+ * `temperature_2m` and `wind_speed_10m` (km/h) are also accepted.
+ * Empty cells are treated as missing values.
+ *
+ * @throws VerificationError if the header or a row is invalid
+ */
+export function parseObservationsCsv(content: string, source: string = "csv"): Observation[] {
+  const lines = content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line.length > 0 && !line.startsWith("#"));
+
+  if (lines.length === 0) {
+    throw VerificationError.invalidObservations(source, "file is empty");
+  }
+
+  const header = lines[0].split(",").map((h) => h.trim().toLowerCase());
+  const timeIndex = header.findIndex((h) => CSV_TIME_COLUMNS.includes(h));
+  if (timeIndex === -1) {
+    throw VerificationError.invalidObservations(
+      source,
+      `missing time column (expected one of: ${CSV_TIME_COLUMNS.join(", ")})`
+    );
+  }
+
+  const columns = header
+    .map((name, index) => ({ index, column: CSV_COLUMNS[name] }))
+    .filter((c) => c.column !== undefined);
+  if (columns.length === 0) {
+    throw VerificationError.invalidObservations(source, "no recognised metric columns");
+  }
+
+  const observations: Observation[] = [];
+
+  for (let row = 1; row < lines.length; row++) {
+    const cells = lines[row].split(",").map((c) => c.trim());
+    const timestamp = parseTimestamp(cells[timeIndex] ?? "");
+    if (!timestamp) {
+      throw VerificationError.invalidObservations(
+        source,
+        `invalid timestamp "${cells[timeIndex] ?? ""}" on line ${row + 1}`
+      );
+    }
+
+    const values: VerifiedValues = {};
+    for (const { index, column } of columns) {
+      const cell = cells[index];
+      if (cell === undefined || cell === "") continue;
+
+      const value = parseFloat(cell);
+      if (isNaN(value)) {
+        throw VerificationError.invalidObservations(
+          source,
+          `invalid ${header[index]} value "${cell}" on line ${row + 1}`
+        );
+      }
+      values[column.metric] = value * column.scale;
+    }
+
+    observations.push({ timestamp, values });
+  }
+
+  return observations;
+}
+
+/**
+ * Load observations from a local file.
+ * Files ending in .csv are parsed as CSV; anything else as an archive JSON response.
+ *
+ * @throws VerificationError if the file cannot be read or parsed
+ */
+export async function loadObservationsFile(filePath: string): Promise<Observation[]> {
+  let content: string;
+  try {
+    content = await readFile(filePath, "utf-8");
+  } catch (error) {
+    throw VerificationError.invalidObservations(
+      filePath,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  if (extname(filePath).toLowerCase() === ".csv") {
+    return parseObservationsCsv(content, filePath);
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw VerificationError.invalidObservations(
+      filePath,
+      error instanceof Error ? error.message : String(error)
+    );
+  }
+
+  return parseArchiveObservations(parsed as ArchiveResponse, filePath);
+}
+
+/**
+ * Options for fetching archive observations
+ */
+export interface ArchiveFetchOptions {
+  /**
+   * Archive endpoint URL (default: Open-Meteo archive API)
+   */
+  endpoint?: string;
+
+  /**
+   * Request timeout in milliseconds (default 30000)
+   */
+  timeout?: number;
+}
+
+/**
+ * Format a date as YYYY-MM-DD for archive queries
+ */
+function toDateParam(date: Date): string {
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Fetch hourly observations from the Open-Meteo archive API.
+ * Note that the archive lags real time by a few days.
+ *
+ * @throws ApiError if the request fails
+ */
+export async function fetchArchiveObservations(
+  coordinates: Coordinates,
+  range: Required<TimeRange>,
+  options: ArchiveFetchOptions = {}
+): Promise<Observation[]> {
+  const endpoint = options.endpoint ?? OPEN_METEO_ARCHIVE_URL;
+  const timeout = options.timeout ?? 30000;
+
+  const url = new URL(endpoint);
+  url.searchParams.set("latitude", String(coordinates.latitude));
+  url.searchParams.set("longitude", String(coordinates.longitude));
+  url.searchParams.set("start_date", toDateParam(range.from));
+  url.searchParams.set("end_date", toDateParam(range.to));
+  url.searchParams.set("hourly", ARCHIVE_HOURLY_VARIABLES.join(","));
+  url.searchParams.set("timezone", "auto");
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+  let data: ArchiveResponse;
+  try {
+    const response = await fetch(url.toString(), {
+      signal: controller.signal,
+      headers: { Accept: "application/json" },
+    });
+
+    if (!response.ok) {
+      throw ApiError.fromResponse(response.status, response.statusText, endpoint);
+    }
+
+    data = (await response.json()) as ArchiveResponse;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      throw error;
+    }
+    if (error instanceof Error && error.name === "AbortError") {
+      throw ApiError.timeout(endpoint, timeout);
+    }
+    throw ApiError.unavailable(undefined, error instanceof Error ? error : undefined);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+
+  if (data.error) {
+    throw ApiError.invalidResponse(endpoint, data.reason ?? "Unknown API error");
+  }
+
+  return parseArchiveObservations(data, endpoint);
+}
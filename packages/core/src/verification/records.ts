@@ -0,0 +1,65 @@
+/**
+ * Conversion helpers between model forecasts and stored verification records.
+ */
+
+import type { ModelForecast } from "../types/models";
+import type { Coordinates } from "../types/location";
+import { hasMetric } from "../types/weather";
+import {
+  VERIFIED_METRICS,
+  type ForecastRecord,
+  type ForecastPoint,
+  type VerifiedValues,
+} from "./types";
+
+/**
+ * Safely convert a Date or string to a Date object.
+ * Handles cached data where Dates become strings after JSON serialization.
+ */
+function toDate(value: Date | string): Date {
+  return typeof value === "string" ? new Date(value) : value;
+}
+
+/**
+ * Create a stable key for a verification site.
+ * Coordinates are rounded to 2 decimal places (~1km), matching cache keys.
+ */
+export function createSiteKey(coordinates: Coordinates): string {
+  const roundedLat = Math.round(coordinates.latitude * 100) / 100;
+  const roundedLon = Math.round(coordinates.longitude * 100) / 100;
+  return `${roundedLat}_${roundedLon}`;
+}
+
+/**
+ * Convert a model forecast into a compact record for verification.
+ * Only hourly values for the verified metrics are kept (metrics the model
+ * does not forecast are left out rather than scored as placeholders), and
+ * hours before the forecast was generated are dropped since they are not
+ * predictions.
+ */
+export function toForecastRecord(forecast: ModelForecast): ForecastRecord {
+  const generatedAt = toDate(forecast.generatedAt);
+  const points: ForecastPoint[] = [];
+
+  for (const hourly of forecast.hourly) {
+    const timestamp = toDate(hourly.timestamp);
+    const leadTimeHours = (timestamp.getTime() - generatedAt.getTime()) / (60 * 60 * 1000);
+    if (leadTimeHours < 0) continue;
+
+    const values: VerifiedValues = {};
+    for (const metric of VERIFIED_METRICS) {
+      if (hasMetric(hourly.metrics, metric)) {
+        values[metric] = hourly.metrics[metric];
+      }
+    }
+
+    points.push({ timestamp, leadTimeHours, values });
+  }
+
+  return {
+    model: forecast.model,
+    coordinates: forecast.coordinates,
+    generatedAt,
+    points,
+  };
+}
@@ -0,0 +1,219 @@
+/**
+ * Forecast verification scoring.
+ * Matches stored forecasts with observations and computes per-model
+ * MAE, RMSE and bias per metric and lead time.
+ */
+
+import type { ModelName } from "../types/models";
+import type { Coordinates } from "../types/location";
+import type { SkillScores } from "../engine/weighting";
+import type {
+  ErrorStatistics,
+  ForecastRecord,
+  LeadTimeBucket,
+  ModelVerificationScore,
+  Observation,
+  TimeRange,
+  VerificationReport,
+  VerificationStore,
+  VerifiedMetric,
+} from "./types";
+import { DEFAULT_LEAD_TIME_BUCKETS, VERIFIED_METRICS } from "./types";
+
+/**
+ * Lead-time label used for scores across all lead times
+ */
+export const ALL_LEAD_TIMES = "all";
+
+/**
+ * Options for scoring forecasts
+ */
+export interface ScoringOptions {
+  /**
+   * Metrics to score (default: all verified metrics)
+   */
+  readonly metrics?: readonly VerifiedMetric[];
+
+  /**
+   * Lead-time buckets (default: DEFAULT_LEAD_TIME_BUCKETS)
+   */
+  readonly buckets?: readonly LeadTimeBucket[];
+}
+
+/**
+ * Running totals for one model/metric/lead-time group
+ */
+interface ErrorAccumulator {
+  absSum: number;
+  sqSum: number;
+  sum: number;
+  count: number;
+}
+
+/**
+ * Calculate MAE, RMSE and bias for forecast/observed pairs.
+ * Returns zeros with sampleSize 0 for no pairs.
+ */
+export function calculateErrorStatistics(
+  pairs: readonly { forecast: number; observed: number }[]
+): ErrorStatistics {
+  const acc: ErrorAccumulator = { absSum: 0, sqSum: 0, sum: 0, count: 0 };
+  for (const pair of pairs) {
+    addError(acc, pair.forecast - pair.observed);
+  }
+  return toStatistics(acc);
+}
+
+function addError(acc: ErrorAccumulator, error: number): void {
+  acc.absSum += Math.abs(error);
+  acc.sqSum += error * error;
+  acc.sum += error;
+  acc.count++;
+}
+
+function toStatistics(acc: ErrorAccumulator): ErrorStatistics {
+  if (acc.count === 0) {
+    return { mae: 0, rmse: 0, bias: 0, sampleSize: 0 };
+  }
+  return {
+    mae: acc.absSum / acc.count,
+    rmse: Math.sqrt(acc.sqSum / acc.count),
+    bias: acc.sum / acc.count,
+    sampleSize: acc.count,
+  };
+}
+
+/**
+ * Find the bucket for a lead time
+ */
+function findBucket(
+  leadTimeHours: number,
+  buckets: readonly LeadTimeBucket[]
+): LeadTimeBucket | undefined {
+  return buckets.find((b) => leadTimeHours >= b.minHours && leadTimeHours < b.maxHours);
+}
+
+/**
+ * Score stored forecasts against observations.
+ *
+ * Each forecast point is matched to the observation with the same timestamp.
+ * Scores are produced per model, metric and lead-time bucket, plus an
+ * overall row per model and metric with lead time "all".
+ */
+export function scoreForecasts(
+  forecasts: readonly ForecastRecord[],
+  observations: readonly Observation[],
+  options: ScoringOptions = {}
+): ModelVerificationScore[] {
+  const metrics = options.metrics ?? VERIFIED_METRICS;
+  const buckets = options.buckets ?? DEFAULT_LEAD_TIME_BUCKETS;
+
+  const observed = new Map<number, Observation>();
+  for (const observation of observations) {
+    observed.set(observation.timestamp.getTime(), observation);
+  }
+
+  const groups = new Map<string, ErrorAccumulator>();
+  const accumulate = (model: ModelName, metric: VerifiedMetric, leadTime: string, error: number): void => {
+    const key = `${model}|${metric}|${leadTime}`;
+    const acc = groups.get(key) ?? { absSum: 0, sqSum: 0, sum: 0, count: 0 };
+    addError(acc, error);
+    groups.set(key, acc);
+  };
+
+  const models: ModelName[] = [];
+
+  for (const forecast of forecasts) {
+    if (!models.includes(forecast.model)) {
+      models.push(forecast.model);
+    }
+
+    for (const point of forecast.points) {
+      if (point.leadTimeHours < 0) continue;
+      const observation = observed.get(point.timestamp.getTime());
+      if (!observation) continue;
+      const bucket = findBucket(point.leadTimeHours, buckets);
+
+      for (const metric of metrics) {
+        const predicted = point.values[metric];
+        const actual = observation.values[metric];
+        if (predicted === undefined || actual === undefined) continue;
+
+        const error = predicted - actual;
+        accumulate(forecast.model, metric, ALL_LEAD_TIMES, error);
+        if (bucket) {
+          accumulate(forecast.model, metric, bucket.label, error);
+        }
+      }
+    }
+  }
+
+  const scores: ModelVerificationScore[] = [];
+  const leadTimes = [ALL_LEAD_TIMES, ...buckets.map((b) => b.label)];
+
+  for (const model of models) {
+    for (const metric of metrics) {
+      for (const leadTime of leadTimes) {
+        const acc = groups.get(`${model}|${metric}|${leadTime}`);
+        if (!acc) continue;
+        scores.push({ model, metric, leadTime, ...toStatistics(acc) });
+      }
+    }
+  }
+
+  return scores;
+}
+
+/**
+ * Convert verification scores into skill scores for model weighting.
+ * Uses the overall MAE for the metric: skill = 1 / (1 + MAE), so
+ * lower error gives higher skill. Models without samples are omitted.
+ */
+export function toSkillScores(
+  scores: readonly ModelVerificationScore[],
+  metric: VerifiedMetric = "temperature"
+): SkillScores {
+  const skill: SkillScores = {};
+  for (const score of scores) {
+    if (score.metric === metric && score.leadTime === ALL_LEAD_TIMES && score.sampleSize > 0) {
+      skill[score.model] = 1 / (1 + score.mae);
+    }
+  }
+  return skill;
+}
+
+/**
+ * Options for verifying a site
+ */
+export interface VerifySiteOptions extends ScoringOptions {
+  /**
+   * Only include forecasts generated within this range
+   */
+  readonly range?: TimeRange;
+}
+
+/**
+ * Build a verification report for a site from stored forecasts and observations.
+ */
+export async function verifySite(
+  store: VerificationStore,
+  coordinates: Coordinates,
+  options: VerifySiteOptions = {}
+): Promise<VerificationReport> {
+  const forecasts = await store.getForecasts(coordinates, options.range);
+  const observations = await store.getObservations(coordinates);
+  const scores = scoreForecasts(forecasts, observations, options);
+
+  const generatedTimes = forecasts.map((f) => f.generatedAt.getTime());
+  const now = Date.now();
+
+  return {
+    coordinates,
+    from: new Date(generatedTimes.length > 0 ? Math.min(...generatedTimes) : now),
+    to: new Date(generatedTimes.length > 0 ? Math.max(...generatedTimes) : now),
+    models: Array.from(new Set(forecasts.map((f) => f.model))),
+    forecastCount: forecasts.length,
+    observationCount: observations.length,
+    scores,
+  };
+}
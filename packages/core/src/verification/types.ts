@@ -0,0 +1,163 @@
+/**
+ * Forecast verification types.
+ * Defines stored forecast records, observations, and per-model scores.
+ */
+
+import type { ModelName } from "../types/models";
+import type { Coordinates } from "../types/location";
+
+/**
+ * Metrics that can be verified against observations
+ */
+export const VERIFIED_METRICS = [
+  "temperature",
+  "precipitation",
+  "windSpeed",
+  "humidity",
+  "pressure",
+] as const;
+
+export type VerifiedMetric = (typeof VERIFIED_METRICS)[number];
+
+/**
+ * Values for the verified metrics (any may be missing).
+ * Units match WeatherMetrics: °C, mm, m/s, %, hPa.
+ */
+export type VerifiedValues = Partial<Record<VerifiedMetric, number>>;
+
+/**
+ * A single hourly forecast value kept for verification
+ */
+export interface ForecastPoint {
+  readonly timestamp: Date;
+  /**
+   * Hours between the forecast being generated and the valid time
+   */
+  readonly leadTimeHours: number;
+  readonly values: VerifiedValues;
+}
+
+/**
+ * A stored model forecast run (compact form of ModelForecast)
+ */
+export interface ForecastRecord {
+  readonly model: ModelName;
+  readonly coordinates: Coordinates;
+  readonly generatedAt: Date;
+  readonly points: readonly ForecastPoint[];
+}
+
+/**
+ * A single observed weather value set
+ */
+export interface Observation {
+  readonly timestamp: Date;
+  readonly values: VerifiedValues;
+}
+
+/**
+ * Lead-time range used to group verification scores
+ */
+export interface LeadTimeBucket {
+  readonly label: string;
+  /**
+   * Inclusive lower bound in hours
+   */
+  readonly minHours: number;
+  /**
+   * Exclusive upper bound in hours
+   */
+  readonly maxHours: number;
+}
+
+/**
+ * Default lead-time buckets (day 1, day 2, days 3-5, days 6+)
+ */
+export const DEFAULT_LEAD_TIME_BUCKETS: readonly LeadTimeBucket[] = [
+  { label: "0-24h", minHours: 0, maxHours: 24 },
+  { label: "24-48h", minHours: 24, maxHours: 48 },
+  { label: "48-120h", minHours: 48, maxHours: 120 },
+  { label: "120h+", minHours: 120, maxHours: Number.POSITIVE_INFINITY },
+];
+
+/**
+ * Error statistics for forecast/observation pairs
+ */
+export interface ErrorStatistics {
+  /**
+   * Mean absolute error
+   */
+  readonly mae: number;
+  /**
+   * Root mean squared error
+   */
+  readonly rmse: number;
+  /**
+   * Mean error (forecast - observed); positive means the model runs high
+   */
+  readonly bias: number;
+  /**
+   * Number of matched pairs
+   */
+  readonly sampleSize: number;
+}
+
+/**
+ * Verification score for one model, metric, and lead-time bucket
+ */
+export interface ModelVerificationScore extends ErrorStatistics {
+  readonly model: ModelName;
+  readonly metric: VerifiedMetric;
+  readonly leadTime: string;
+}
+
+/**
+ * Verification report for a site
+ */
+export interface VerificationReport {
+  readonly coordinates: Coordinates;
+  readonly from: Date;
+  readonly to: Date;
+  readonly models: readonly ModelName[];
+  readonly forecastCount: number;
+  readonly observationCount: number;
+  readonly scores: readonly ModelVerificationScore[];
+}
+
+/**
+ * Time range filter for stored data
+ */
+export interface TimeRange {
+  readonly from?: Date;
+  readonly to?: Date;
+}
+
+/**
+ * Persistent store for forecasts and observations
+ */
+export interface VerificationStore {
+  /**
+   * Record model forecasts for later verification
+   */
+  saveForecasts(forecasts: readonly ForecastRecord[]): Promise<void>;
+
+  /**
+   * Get stored forecasts for a site, optionally limited to those generated in a range
+   */
+  getForecasts(coordinates: Coordinates, range?: TimeRange): Promise<ForecastRecord[]>;
+
+  /**
+   * Record observations for a site (replacing any with the same timestamp)
+   */
+  saveObservations(coordinates: Coordinates, observations: readonly Observation[]): Promise<void>;
+
+  /**
+   * Get stored observations for a site, optionally limited to a range
+   */
+  getObservations(coordinates: Coordinates, range?: TimeRange): Promise<Observation[]>;
+
+  /**
+   * Remove all stored data for a site
+   */
+  clear(coordinates: Coordinates): Promise<void>;
+}
@@ -0,0 +1,399 @@
+/**
+ * Tests for forecast verification: records, store, observations, and scoring.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from "bun:test";
+import { join } from "node:path";
+import { rm, writeFile, mkdir } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
+import { createSiteKey, toForecastRecord } from "./records";
+import { FileVerificationStore } from "./file-store";
+import {
+  parseArchiveObservations,
+  parseObservationsCsv,
+  loadObservationsFile,
+} from "./observations";
+import {
+  ALL_LEAD_TIMES,
+  calculateErrorStatistics,
+  scoreForecasts,
+  toSkillScores,
+  verifySite,
+} from "./scoring";
+import type { ForecastRecord, Observation } from "./types";
+import type { ModelForecast, ModelName } from "../types/models";
+import type { Coordinates } from "../types/location";
+import { latitude, longitude } from "../types/location";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { VerificationError } from "../errors/verification";
+
+const HOUR = 60 * 60 * 1000;
+
+const LONDON: Coordinates = {
+  latitude: latitude(51.5074),
+  longitude: longitude(-0.1278),
+};
+
+/**
+ * Create a forecast record with hourly temperatures starting at generatedAt
+ */
+function createRecord(
+  model: ModelName,
+  generatedAt: Date,
+  temperatures: number[]
+): ForecastRecord {
+  return {
+    model,
+    coordinates: LONDON,
+    generatedAt,
+    points: temperatures.map((temperature, index) => ({
+      timestamp: new Date(generatedAt.getTime() + index * HOUR),
+      leadTimeHours: index,
+      values: { temperature },
+    })),
+  };
+}
+
+/**
+ * Create hourly temperature observations starting at a time
+ */
+function createObservations(start: Date, temperatures: number[]): Observation[] {
+  return temperatures.map((temperature, index) => ({
+    timestamp: new Date(start.getTime() + index * HOUR),
+    values: { temperature },
+  }));
+}
+
+/**
+ * Start of the current hour, a few days ago (within retention)
+ */
+function recentHour(daysAgo: number): Date {
+  const date = new Date(Date.now() - daysAgo * 24 * HOUR);
+  date.setUTCMinutes(0, 0, 0);
+  return date;
+}
+
+describe("records", () => {
+  it("should create site keys rounded to 2 decimals", () => {
+    expect(createSiteKey(LONDON)).toBe("51.51_-0.13");
+  });
+
+  it("should convert a model forecast and drop past hours", () => {
+    const generatedAt = new Date("2024-01-15T01:00:00Z");
+    const metrics = {
+      temperature: celsius(5),
+      feelsLike: celsius(3),
+      humidity: humidity(80),
+      pressure: pressure(1010),
+      windSpeed: metersPerSecond(4),
+      windDirection: windDirection(200),
+      precipitation: millimeters(0.5),
+      precipitationProbability: 40,
+      cloudCover: cloudCover(90),
+      visibility: visibility(8000),
+      uvIndex: uvIndex(1),
+      weatherCode: weatherCode(61),
+    };
+    const forecast: ModelForecast = {
+      model: "ecmwf",
+      coordinates: LONDON,
+      generatedAt,
+      validFrom: new Date("2024-01-15T00:00:00Z"),
+      validTo: new Date("2024-01-15T02:00:00Z"),
+      hourly: [0, 1, 2].map((h) => ({
+        timestamp: new Date(Date.UTC(2024, 0, 15, h)),
+        metrics,
+      })),
+      daily: [],
+    };
+
+    const record = toForecastRecord(forecast);
+
+    expect(record.points).toHaveLength(2);
+    expect(record.points[0].leadTimeHours).toBe(0);
+    expect(record.points[1].leadTimeHours).toBe(1);
+    expect(record.points[0].values).toEqual({
+      temperature: 5,
+      precipitation: 0.5,
+      windSpeed: 4,
+      humidity: 80,
+      pressure: 1010,
+    });
+
+    // Metrics the model does not forecast are left out rather than scored
+    const partial = toForecastRecord({
+      ...forecast,
+      hourly: forecast.hourly.map((hourly) => ({
+        ...hourly,
+        metrics: { ...metrics, missing: ["humidity", "pressure"] as const },
+      })),
+    });
+    expect(partial.points[0].values).toEqual({ temperature: 5, precipitation: 0.5, windSpeed: 4 });
+  });
+});
+
+describe("FileVerificationStore", () => {
+  let directory: string;
+  let store: FileVerificationStore;
+
+  beforeEach(() => {
+    directory = join(tmpdir(), `weather-oracle-verification-test-${randomUUID()}`);
+    store = new FileVerificationStore({ directory });
+  });
+
+  afterEach(async () => {
+    try {
+      await rm(directory, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it("should return empty arrays for an unknown site", async () => {
+    expect(await store.getForecasts(LONDON)).toEqual([]);
+    expect(await store.getObservations(LONDON)).toEqual([]);
+  });
+
+  it("should round-trip forecasts and replace re-saved runs", async () => {
+    const generatedAt = recentHour(2);
+    await store.saveForecasts([createRecord("ecmwf", generatedAt, [1, 2])]);
+    await store.saveForecasts([
+      createRecord("ecmwf", generatedAt, [3, 4]),
+      createRecord("gfs", generatedAt, [5]),
+    ]);
+
+    const forecasts = await store.getForecasts(LONDON);
+
+    expect(forecasts).toHaveLength(2);
+    const ecmwf = forecasts.find((f) => f.model === "ecmwf")!;
+    expect(ecmwf.generatedAt).toEqual(generatedAt);
+    expect(ecmwf.points.map((p) => p.values.temperature)).toEqual([3, 4]);
+  });
+
+  it("should filter forecasts by generation time", async () => {
+    await store.saveForecasts([
+      createRecord("ecmwf", recentHour(5), [1]),
+      createRecord("ecmwf", recentHour(1), [2]),
+    ]);
+
+    const forecasts = await store.getForecasts(LONDON, { from: recentHour(3) });
+
+    expect(forecasts).toHaveLength(1);
+    expect(forecasts[0].points[0].values.temperature).toBe(2);
+  });
+
+  it("should prune data older than the retention window", async () => {
+    const shortStore = new FileVerificationStore({ directory, retentionDays: 3 });
+    await shortStore.saveForecasts([
+      createRecord("ecmwf", recentHour(10), [1]),
+      createRecord("ecmwf", recentHour(1), [2]),
+    ]);
+    await shortStore.saveObservations(LONDON, [
+      ...createObservations(recentHour(10), [1]),
+      ...createObservations(recentHour(1), [2]),
+    ]);
+
+    expect(await shortStore.getForecasts(LONDON)).toHaveLength(1);
+    expect(await shortStore.getObservations(LONDON)).toHaveLength(1);
+  });
+
+  it("should merge observations by timestamp", async () => {
+    const start = recentHour(1);
+    await store.saveObservations(LONDON, createObservations(start, [1, 2]));
+    await store.saveObservations(LONDON, createObservations(start, [9]));
+
+    const observations = await store.getObservations(LONDON);
+
+    expect(observations.map((o) => o.values.temperature)).toEqual([9, 2]);
+  });
+
+  it("should clear a site", async () => {
+    await store.saveObservations(LONDON, createObservations(recentHour(1), [1]));
+    await store.clear(LONDON);
+
+    expect(await store.getObservations(LONDON)).toEqual([]);
+  });
+
+  it("should throw VerificationError for corrupt files", async () => {
+    const siteDir = join(directory, createSiteKey(LONDON));
+    await mkdir(siteDir, { recursive: true });
+    await writeFile(join(siteDir, "observations.json"), "{not json", "utf-8");
+
+    const error = await store.getObservations(LONDON).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(VerificationError);
+  });
+});
+
+describe("observations", () => {
+  it("should parse archive responses and convert wind to m/s", () => {
+    const observations = parseArchiveObservations({
+      hourly_units: { wind_speed_10m: "km/h" },
+      hourly: {
+        time: ["2024-01-15T00:00", "2024-01-15T01:00"],
+        temperature_2m: [4.5, null],
+        wind_speed_10m: [36, 18],
+      },
+    });
+
+    expect(observations).toHaveLength(2);
+    expect(observations[0].values.temperature).toBe(4.5);
+    expect(observations[0].values.windSpeed).toBeCloseTo(10, 10);
+    expect(observations[1].values.temperature).toBeUndefined();
+  });
+
+  it("should reject archive responses without hourly data", () => {
+    expect(() => parseArchiveObservations({})).toThrow(VerificationError);
+  });
+
+  it("should parse CSV with internal and Open-Meteo column names", () => {
+    const csv = [
+      "# observed at the airport",
+      "timestamp,temperature,wind_speed_10m,humidity",
+      "2024-01-15T00:00:00Z,4.5,36,80",
+      "2024-01-15T01:00:00Z,,18,",
+    ].join("\n");
+
+    const observations = parseObservationsCsv(csv);
+
+    expect(observations).toHaveLength(2);
+    expect(observations[0].values).toEqual({ temperature: 4.5, windSpeed: 10, humidity: 80 });
+    expect(observations[1].values.temperature).toBeUndefined();
+    expect(observations[1].values.windSpeed).toBeCloseTo(5, 10);
+  });
+
+  it("should reject CSV without a time column or with bad values", () => {
+    expect(() => parseObservationsCsv("temperature\n4")).toThrow(VerificationError);
+    expect(() => parseObservationsCsv("time,temperature\nyesterday,4")).toThrow(
+      VerificationError
+    );
+    expect(() => parseObservationsCsv("time,temperature\n2024-01-15T00:00Z,warm")).toThrow(
+      VerificationError
+    );
+  });
+
+  it("should load CSV and JSON files by extension", async () => {
+    const directory = join(tmpdir(), `weather-oracle-observations-test-${randomUUID()}`);
+    await mkdir(directory, { recursive: true });
+    try {
+      const csvPath = join(directory, "obs.csv");
+      const jsonPath = join(directory, "obs.json");
+      await writeFile(csvPath, "time,temperature\n2024-01-15T00:00Z,4", "utf-8");
+      await writeFile(
+        jsonPath,
+        JSON.stringify({ hourly: { time: ["2024-01-15T00:00Z"], temperature_2m: [5] } }),
+        "utf-8"
+      );
+
+      expect((await loadObservationsFile(csvPath))[0].values.temperature).toBe(4);
+      expect((await loadObservationsFile(jsonPath))[0].values.temperature).toBe(5);
+
+      const error = await loadObservationsFile(join(directory, "missing.csv")).catch(
+        (e: unknown) => e
+      );
+      expect(error).toBeInstanceOf(VerificationError);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe("scoring", () => {
+  it("should calculate MAE, RMSE and bias", () => {
+    const stats = calculateErrorStatistics([
+      { forecast: 12, observed: 10 },
+      { forecast: 8, observed: 10 },
+      { forecast: 14, observed: 10 },
+    ]);
+
+    expect(stats.mae).toBeCloseTo(8 / 3, 10);
+    expect(stats.rmse).toBeCloseTo(Math.sqrt(24 / 3), 10);
+    expect(stats.bias).toBeCloseTo(4 / 3, 10);
+    expect(stats.sampleSize).toBe(3);
+  });
+
+  it("should return zero statistics for no pairs", () => {
+    expect(calculateErrorStatistics([])).toEqual({ mae: 0, rmse: 0, bias: 0, sampleSize: 0 });
+  });
+
+  it("should score per model, metric and lead-time bucket", () => {
+    const start = new Date("2024-01-15T00:00:00Z");
+    const temperatures = Array.from({ length: 30 }, () => 10);
+    const forecasts = [
+      createRecord("ecmwf", start, temperatures.map((t) => t + 1)),
+      createRecord("gfs", start, temperatures.map((t) => t - 3)),
+    ];
+    const observations = createObservations(start, temperatures);
+
+    const scores = scoreForecasts(forecasts, observations);
+
+    const ecmwfAll = scores.find((s) => s.model === "ecmwf" && s.leadTime === ALL_LEAD_TIMES)!;
+    expect(ecmwfAll.metric).toBe("temperature");
+    expect(ecmwfAll.mae).toBeCloseTo(1, 10);
+    expect(ecmwfAll.bias).toBeCloseTo(1, 10);
+    expect(ecmwfAll.sampleSize).toBe(30);
+
+    const gfsDay2 = scores.find((s) => s.model === "gfs" && s.leadTime === "24-48h")!;
+    expect(gfsDay2.bias).toBeCloseTo(-3, 10);
+    expect(gfsDay2.sampleSize).toBe(6);
+
+    // No humidity was forecast or observed
+    expect(scores.some((s) => s.metric === "humidity")).toBe(false);
+  });
+
+  it("should skip forecast hours without observations", () => {
+    const start = new Date("2024-01-15T00:00:00Z");
+    const scores = scoreForecasts(
+      [createRecord("icon", start, [1, 2, 3])],
+      createObservations(new Date(start.getTime() + 2 * HOUR), [3])
+    );
+
+    expect(scores.find((s) => s.leadTime === ALL_LEAD_TIMES)!.sampleSize).toBe(1);
+  });
+
+  it("should convert scores into skill scores", () => {
+    const start = new Date("2024-01-15T00:00:00Z");
+    const scores = scoreForecasts(
+      [createRecord("ecmwf", start, [11]), createRecord("gfs", start, [13])],
+      createObservations(start, [10])
+    );
+
+    const skill = toSkillScores(scores);
+
+    expect(skill.ecmwf).toBeCloseTo(0.5, 10);
+    expect(skill.gfs).toBeCloseTo(0.25, 10);
+    expect(skill.icon).toBeUndefined();
+  });
+
+  it("should build a report from a store", async () => {
+    const directory = join(tmpdir(), `weather-oracle-verification-test-${randomUUID()}`);
+    const store = new FileVerificationStore({ directory });
+    try {
+      const start = recentHour(2);
+      await store.saveForecasts([createRecord("ecmwf", start, [11, 12])]);
+      await store.saveObservations(LONDON, createObservations(start, [10, 10]));
+
+      const report = await verifySite(store, LONDON);
+
+      expect(report.models).toEqual(["ecmwf"]);
+      expect(report.forecastCount).toBe(1);
+      expect(report.observationCount).toBe(2);
+      expect(report.from).toEqual(start);
+      expect(report.scores[0].mae).toBeCloseTo(1.5, 10);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,241 @@
+/**
+ * Forecast change detection for watch mode.
+ * Compares two aggregated forecasts for the same location and reports
+ * the differences worth telling someone about.
+ */
+
+import type { AggregatedForecast, ConfidenceLevelName } from "../types/models";
+import { createLocalTimeFormatter } from "../engine/templates";
+import type {
+  ChangeThresholds,
+  ConfidenceChange,
+  ForecastChange,
+  PrecipitationChange,
+  RainTimingChange,
+  TemperatureChange,
+} from "./types";
+
+/**
+ * Default change thresholds
+ */
+export const DEFAULT_CHANGE_THRESHOLDS: ChangeThresholds = {
+  rainThreshold: 0.2,
+  rainShiftHours: 2,
+  temperatureDelta: 3,
+  precipitationDelta: 5,
+  confidenceDrop: 0.15,
+};
+
+/**
+ * Options for diffing forecasts
+ */
+export interface ForecastDiffOptions {
+  readonly thresholds?: Partial<ChangeThresholds>;
+  /**
+   * Ignore hours and days before this time (defaults to the current forecast's start)
+   */
+  readonly now?: Date;
+  /**
+   * Timezone used for times in messages (defaults to UTC)
+   */
+  readonly timezone?: string;
+}
+
+const CONFIDENCE_RANK: Record<ConfidenceLevelName, number> = {
+  low: 0,
+  medium: 1,
+  high: 2,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * Convert a Date or ISO string (from cached data) to epoch milliseconds
+ */
+function toTime(value: Date | string): number {
+  return typeof value === "string" ? new Date(value).getTime() : value.getTime();
+}
+
+/**
+ * Format a daily forecast date, e.g. "Tue 16 Jan"
+ */
+function formatDay(time: number): string {
+  return new Date(time).toLocaleDateString("en-GB", {
+    weekday: "short",
+    day: "numeric",
+    month: "short",
+    timeZone: "UTC",
+  });
+}
+
+/**
+ * Round a value to one decimal place for messages
+ */
+function round1(value: number): number {
+  return Math.round(value * 10) / 10;
+}
+
+/**
+ * Find the first hour with rain in [from, to)
+ */
+function findRainStart(
+  forecast: AggregatedForecast,
+  from: number,
+  to: number,
+  threshold: number
+): number | null {
+  for (const hour of forecast.consensus.hourly) {
+    const time = toTime(hour.timestamp);
+    if (time < from || time >= to) continue;
+    if (hour.metrics.precipitation >= threshold) {
+      return time;
+    }
+  }
+  return null;
+}
+
+/**
+ * Compare rain onset over the hours both forecasts cover
+ */
+function diffRainTiming(
+  previous: AggregatedForecast,
+  current: AggregatedForecast,
+  from: number,
+  thresholds: ChangeThresholds,
+  formatTime: (time: number) => string
+): RainTimingChange | null {
+  const to = Math.min(toTime(previous.validTo), toTime(current.validTo)) + HOUR_MS;
+  const before = findRainStart(previous, from, to, thresholds.rainThreshold);
+  const after = findRainStart(current, from, to, thresholds.rainThreshold);
+
+  if (before === null && after === null) return null;
+
+  let message: string;
+  if (before === null) {
+    message = `Rain now expected from ${formatTime(after!)}`;
+  } else if (after === null) {
+    message = `Rain no longer expected (was due ${formatTime(before)})`;
+  } else {
+    const shift = Math.round((after - before) / HOUR_MS);
+    if (Math.abs(shift) < thresholds.rainShiftHours) return null;
+    const direction = shift > 0 ? "later" : "earlier";
+    message = `Rain now expected from ${formatTime(after)}, ${Math.abs(shift)}h ${direction} than before (${formatTime(before)})`;
+  }
+
+  return {
+    kind: "rain-timing",
+    previousStart: before === null ? null : new Date(before),
+    currentStart: after === null ? null : new Date(after),
+    message,
+  };
+}
+
+/**
+ * Report a drop in overall confidence
+ */
+function diffConfidence(
+  previous: AggregatedForecast,
+  current: AggregatedForecast,
+  thresholds: ChangeThresholds
+): ConfidenceChange | null {
+  const before = previous.overallConfidence;
+  const after = current.overallConfidence;
+  const levelDropped = CONFIDENCE_RANK[after.level] < CONFIDENCE_RANK[before.level];
+  const scoreDropped = before.score - after.score >= thresholds.confidenceDrop;
+
+  if (!levelDropped && !scoreDropped) return null;
+
+  return {
+    kind: "confidence",
+    previousLevel: before.level,
+    currentLevel: after.level,
+    previousScore: before.score,
+    currentScore: after.score,
+    message: `Confidence dropped from ${before.level} (${Math.round(before.score * 100)}%) to ${after.level} (${Math.round(after.score * 100)}%)`,
+  };
+}
+
+/**
+ * Compare daily highs, lows and precipitation totals for days in both forecasts
+ */
+function diffDaily(
+  previous: AggregatedForecast,
+  current: AggregatedForecast,
+  from: number,
+  thresholds: ChangeThresholds
+): Array<TemperatureChange | PrecipitationChange> {
+  const changes: Array<TemperatureChange | PrecipitationChange> = [];
+  const previousDays = new Map(
+    previous.consensus.daily.map((day) => [toTime(day.date), day.forecast])
+  );
+
+  for (const day of current.consensus.daily) {
+    const time = toTime(day.date);
+    // Skip days that have already ended
+    if (time + DAY_MS <= from) continue;
+
+    const before = previousDays.get(time);
+    if (!before) continue;
+
+    const after = day.forecast;
+    const label = formatDay(time);
+    const temperatures: Array<["high" | "low", number, number]> = [
+      ["high", before.temperature.max, after.temperature.max],
+      ["low", before.temperature.min, after.temperature.min],
+    ];
+
+    for (const [field, was, now] of temperatures) {
+      if (Math.abs(now - was) >= thresholds.temperatureDelta) {
+        changes.push({
+          kind: "temperature",
+          date: new Date(time),
+          field,
+          previous: was,
+          current: now,
+          message: `${label} ${field} now ${Math.round(now)}°C (was ${Math.round(was)}°C)`,
+        });
+      }
+    }
+
+    const wasRain = before.precipitation.total;
+    const nowRain = after.precipitation.total;
+    if (Math.abs(nowRain - wasRain) >= thresholds.precipitationDelta) {
+      changes.push({
+        kind: "precipitation",
+        date: new Date(time),
+        previous: wasRain,
+        current: nowRain,
+        message: `${label} rainfall now ${round1(nowRain)} mm (was ${round1(wasRain)} mm)`,
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Report meaningful differences between two forecasts for the same location.
+ * Changes are ordered: rain timing, confidence, then daily changes by date.
+ */
+export function diffForecasts(
+  previous: AggregatedForecast,
+  current: AggregatedForecast,
+  options: ForecastDiffOptions = {}
+): ForecastChange[] {
+  const thresholds: ChangeThresholds = { ...DEFAULT_CHANGE_THRESHOLDS, ...options.thresholds };
+  const from = options.now?.getTime() ?? toTime(current.validFrom);
+  const formatTime = createLocalTimeFormatter(options.timezone);
+
+  const changes: ForecastChange[] = [];
+
+  const rain = diffRainTiming(previous, current, from, thresholds, formatTime);
+  if (rain) changes.push(rain);
+
+  const confidence = diffConfidence(previous, current, thresholds);
+  if (confidence) changes.push(confidence);
+
+  changes.push(...diffDaily(previous, current, from, thresholds));
+
+  return changes;
+}
@@ -0,0 +1,48 @@
+/**
+ * Watch mode module.
+ * Polls locations on each model's update frequency and reports
+ * meaningful forecast changes.
+ */
+
+// Types
+export type {
+  ForecastChangeKind,
+  RainTimingChange,
+  ConfidenceChange,
+  TemperatureChange,
+  PrecipitationChange,
+  ForecastChange,
+  ChangeThresholds,
+  WatchEvent,
+  ChangeNotifier,
+  WatchClock,
+} from "./types";
+
+// Change detection
+export { diffForecasts, DEFAULT_CHANGE_THRESHOLDS, type ForecastDiffOptions } from "./diff";
+
+// Scheduling
+export {
+  parseUpdateFrequency,
+  getModelPollInterval,
+  systemClock,
+  DEFAULT_POLL_INTERVAL_MS,
+} from "./schedule";
+
+// Notifiers
+export {
+  createJsonlNotifier,
+  createWebhookNotifier,
+  toWatchEventRecord,
+  DEFAULT_WEBHOOK_TIMEOUT,
+  type WatchEventRecord,
+  type WebhookNotifierOptions,
+} from "./notifiers";
+
+// Watcher
+export {
+  ForecastWatcher,
+  createForecastWatcher,
+  DEFAULT_RETRY_DELAY_MS,
+  type ForecastWatcherOptions,
+} from "./watcher";
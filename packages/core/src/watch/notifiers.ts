@@ -0,0 +1,114 @@
+/**
+ * Change notifiers for watch mode.
+ * Deliver watch events to a JSONL log file or a webhook URL.
+ */
+
+import { appendFile, mkdir } from "node:fs/promises";
+import { dirname } from "node:path";
+import { WatchError } from "../errors/watch";
+import type { ChangeNotifier, ForecastChange, WatchEvent } from "./types";
+
+/**
+ * Default webhook request timeout in milliseconds
+ */
+export const DEFAULT_WEBHOOK_TIMEOUT = 10000;
+
+/**
+ * Serialized form of a watch event (one JSONL line or webhook body)
+ */
+export interface WatchEventRecord {
+  readonly location: {
+    readonly query: string;
+    readonly name: string;
+    readonly country: string;
+    readonly latitude: number;
+    readonly longitude: number;
+  };
+  readonly checkedAt: Date;
+  readonly models: readonly string[];
+  readonly changes: readonly ForecastChange[];
+}
+
+/**
+ * Convert a watch event to its serialized form
+ */
+export function toWatchEventRecord(event: WatchEvent): WatchEventRecord {
+  const { query, resolved } = event.location;
+  return {
+    location: {
+      query,
+      name: resolved.name,
+      country: resolved.country,
+      latitude: resolved.coordinates.latitude,
+      longitude: resolved.coordinates.longitude,
+    },
+    checkedAt: event.checkedAt,
+    models: event.models.slice(),
+    changes: event.changes,
+  };
+}
+
+/**
+ * Create a notifier that appends each event as a line of JSON
+ *
+ * @throws WatchError when the file cannot be written
+ */
+export function createJsonlNotifier(path: string): ChangeNotifier {
+  return {
+    async notify(event: WatchEvent): Promise<void> {
+      try {
+        await mkdir(dirname(path), { recursive: true });
+        await appendFile(path, JSON.stringify(toWatchEventRecord(event)) + "\n", "utf-8");
+      } catch (error) {
+        throw WatchError.notifyFailed(path, error instanceof Error ? error : undefined);
+      }
+    },
+  };
+}
+
+/**
+ * Options for the webhook notifier
+ */
+export interface WebhookNotifierOptions {
+  readonly timeout?: number;
+  readonly headers?: Record<string, string>;
+}
+
+/**
+ * Create a notifier that POSTs each event as JSON to a URL
+ *
+ * @throws WatchError on network errors, timeouts and non-2xx responses
+ */
+export function createWebhookNotifier(
+  url: string,
+  options: WebhookNotifierOptions = {}
+): ChangeNotifier {
+  const timeout = options.timeout ?? DEFAULT_WEBHOOK_TIMEOUT;
+
+  return {
+    async notify(event: WatchEvent): Promise<void> {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), timeout);
+
+      try {
+        const response = await fetch(url, {
+          method: "POST",
+          signal: controller.signal,
+          headers: { "Content-Type": "application/json", ...options.headers },
+          body: JSON.stringify(toWatchEventRecord(event)),
+        });
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status} ${response.statusText}`);
+        }
+      } catch (error) {
+        if (error instanceof Error && error.name === "AbortError") {
+          throw WatchError.notifyFailed(url, new Error(`Timed out after ${timeout}ms`));
+        }
+        throw WatchError.notifyFailed(url, error instanceof Error ? error : undefined);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * Poll scheduling for watch mode.
+ * Derives how often each model should be re-fetched from its published
+ * update frequency.
+ */
+
+import { MODEL_INFO, type ModelName } from "../types/models";
+import type { WatchClock } from "./types";
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/**
+ * Fallback poll interval when a model's update frequency is not recognised
+ */
+export const DEFAULT_POLL_INTERVAL_MS = 6 * HOUR_MS;
+
+/**
+ * Parse an update frequency such as "6 hours" or "30 minutes" into milliseconds.
+ * Returns undefined for text that cannot be parsed.
+ */
+export function parseUpdateFrequency(frequency: string): number | undefined {
+  const match = /^\s*(\d+(?:\.\d+)?)\s*(minutes?|mins?|hours?|h|days?)\s*$/i.exec(frequency);
+  if (!match) {
+    return undefined;
+  }
+
+  const amount = parseFloat(match[1]);
+  const unit = match[2].toLowerCase();
+  if (amount <= 0) {
+    return undefined;
+  }
+  if (unit.startsWith("m")) {
+    return amount * MINUTE_MS;
+  }
+  if (unit.startsWith("d")) {
+    return amount * 24 * HOUR_MS;
+  }
+  return amount * HOUR_MS;
+}
+
+/**
+ * Get how often a model should be polled, from MODEL_INFO.updateFrequency
+ */
+export function getModelPollInterval(model: ModelName): number {
+  return parseUpdateFrequency(MODEL_INFO[model].updateFrequency) ?? DEFAULT_POLL_INTERVAL_MS;
+}
+
+/**
+ * Clock backed by the system time and timers
+ */
+export const systemClock: WatchClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
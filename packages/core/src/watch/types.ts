@@ -0,0 +1,120 @@
+/**
+ * Watch mode types.
+ * Defines forecast changes detected between polls, the events delivered
+ * to notifiers, and the clock used to schedule polls.
+ */
+
+import type { ConfidenceLevelName, ModelName } from "../types/models";
+import type { Location } from "../types/location";
+
+/**
+ * Kinds of forecast change reported by watch mode
+ */
+export type ForecastChangeKind = "rain-timing" | "confidence" | "temperature" | "precipitation";
+
+/**
+ * Rain onset moved, appeared, or disappeared.
+ * A null start means no rain in the compared period.
+ */
+export interface RainTimingChange {
+  readonly kind: "rain-timing";
+  readonly previousStart: Date | null;
+  readonly currentStart: Date | null;
+  readonly message: string;
+}
+
+/**
+ * Overall forecast confidence dropped
+ */
+export interface ConfidenceChange {
+  readonly kind: "confidence";
+  readonly previousLevel: ConfidenceLevelName;
+  readonly currentLevel: ConfidenceLevelName;
+  readonly previousScore: number;
+  readonly currentScore: number;
+  readonly message: string;
+}
+
+/**
+ * A day's high or low temperature changed (°C)
+ */
+export interface TemperatureChange {
+  readonly kind: "temperature";
+  readonly date: Date;
+  readonly field: "high" | "low";
+  readonly previous: number;
+  readonly current: number;
+  readonly message: string;
+}
+
+/**
+ * A day's precipitation total changed (mm)
+ */
+export interface PrecipitationChange {
+  readonly kind: "precipitation";
+  readonly date: Date;
+  readonly previous: number;
+  readonly current: number;
+  readonly message: string;
+}
+
+export type ForecastChange =
+  | RainTimingChange
+  | ConfidenceChange
+  | TemperatureChange
+  | PrecipitationChange;
+
+/**
+ * How large a difference must be before it is reported
+ */
+export interface ChangeThresholds {
+  /**
+   * Hourly precipitation (mm) counted as rain
+   */
+  readonly rainThreshold: number;
+  /**
+   * Hours rain onset must move by
+   */
+  readonly rainShiftHours: number;
+  /**
+   * Change in a daily high or low (°C)
+   */
+  readonly temperatureDelta: number;
+  /**
+   * Change in a daily precipitation total (mm)
+   */
+  readonly precipitationDelta: number;
+  /**
+   * Drop in overall confidence score (0-1); a lower level is always reported
+   */
+  readonly confidenceDrop: number;
+}
+
+/**
+ * Changes found for one location after a poll
+ */
+export interface WatchEvent {
+  readonly location: Location;
+  readonly checkedAt: Date;
+  /**
+   * Models refreshed by this poll
+   */
+  readonly models: readonly ModelName[];
+  readonly changes: readonly ForecastChange[];
+}
+
+/**
+ * Destination for watch events (stdout, JSONL log, webhook, ...)
+ */
+export interface ChangeNotifier {
+  notify(event: WatchEvent): Promise<void>;
+}
+
+/**
+ * Time source and timer used by the watcher (replaceable in tests)
+ */
+export interface WatchClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
@@ -0,0 +1,489 @@
+/**
+ * Tests for watch mode: change detection, scheduling, notifiers and the watcher.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, mock } from "bun:test";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { diffForecasts } from "./diff";
+import { parseUpdateFrequency, getModelPollInterval, DEFAULT_POLL_INTERVAL_MS } from "./schedule";
+import { createJsonlNotifier, createWebhookNotifier } from "./notifiers";
+import { ForecastWatcher } from "./watcher";
+import type { ChangeNotifier, WatchClock, WatchEvent } from "./types";
+import { aggregateForecasts } from "../engine/aggregator";
+import { buildDailyForecasts } from "../api/providers/derive";
+import { WatchError } from "../errors/watch";
+import { ErrorCode } from "../errors/base";
+import type { AggregatedForecast, ModelForecast, ModelName } from "../types/models";
+import type { HourlyForecast } from "../types/weather";
+import {
+  celsius,
+  millimeters,
+  metersPerSecond,
+  humidity,
+  pressure,
+  cloudCover,
+  uvIndex,
+  visibility,
+  weatherCode,
+  windDirection,
+} from "../types/weather";
+import { latitude, longitude, timezoneId } from "../types/location";
+import type { Location } from "../types/location";
+
+const BASE_TIME = new Date("2024-01-15T00:00:00Z").getTime();
+const HOUR_MS = 3600000;
+
+const LONDON: Location = {
+  query: "London",
+  resolved: {
+    name: "London",
+    coordinates: { latitude: latitude(51.5), longitude: longitude(-0.12) },
+    country: "United Kingdom",
+    countryCode: "GB",
+    timezone: timezoneId("UTC"),
+  },
+};
+
+interface Scenario {
+  /**
+   * First hour (from BASE_TIME) with rain, or null for a dry forecast
+   */
+  rainFrom: number | null;
+  temperature: number;
+}
+
+/**
+ * Hourly precipitation for a scenario: 1 mm/h for 3 hours from rainFrom
+ */
+function rainAt(scenario: Scenario, hour: number): number {
+  return scenario.rainFrom !== null && hour >= scenario.rainFrom && hour < scenario.rainFrom + 3
+    ? 1
+    : 0;
+}
+
+/**
+ * Create a 48-hour model forecast for a scenario
+ */
+function createForecast(model: ModelName, scenario: Scenario): ModelForecast {
+  const hourly: HourlyForecast[] = Array.from({ length: 48 }, (_, hour) => ({
+    timestamp: new Date(BASE_TIME + hour * HOUR_MS),
+    metrics: {
+      temperature: celsius(scenario.temperature),
+      feelsLike: celsius(scenario.temperature),
+      humidity: humidity(70),
+      pressure: pressure(1013),
+      windSpeed: metersPerSecond(4),
+      windDirection: windDirection(180),
+      precipitation: millimeters(rainAt(scenario, hour)),
+      precipitationProbability: 0,
+      cloudCover: cloudCover(50),
+      visibility: visibility(10000),
+      uvIndex: uvIndex(0),
+      weatherCode: weatherCode(2),
+    },
+  }));
+
+  return {
+    model,
+    coordinates: LONDON.resolved.coordinates,
+    generatedAt: new Date(BASE_TIME),
+    validFrom: hourly[0].timestamp,
+    validTo: hourly[hourly.length - 1].timestamp,
+    hourly,
+    daily: buildDailyForecasts(hourly),
+  };
+}
+
+/**
+ * Aggregate a single-model forecast for a scenario
+ */
+function aggregate(scenario: Scenario): AggregatedForecast {
+  return aggregateForecasts([createForecast("ecmwf", scenario)]);
+}
+
+/**
+ * Create an Open-Meteo API response for a scenario
+ */
+function createApiResponse(scenario: Scenario): object {
+  const hours = Array.from({ length: 48 }, (_, hour) => hour);
+  return {
+    latitude: 51.5,
+    longitude: -0.12,
+    timezone: "UTC",
+    hourly: {
+      time: hours.map((hour) => new Date(BASE_TIME + hour * HOUR_MS).toISOString()),
+      temperature_2m: hours.map(() => scenario.temperature),
+      precipitation: hours.map((hour) => rainAt(scenario, hour)),
+      weather_code: hours.map(() => 2),
+    },
+    daily: {
+      time: ["2024-01-15", "2024-01-16"],
+      temperature_2m_max: [scenario.temperature, scenario.temperature],
+      temperature_2m_min: [scenario.temperature, scenario.temperature],
+      precipitation_sum: [0, 0].map((_, day) =>
+        hours.slice(day * 24, day * 24 + 24).reduce((sum, hour) => sum + rainAt(scenario, hour), 0)
+      ),
+      weather_code: [2, 2],
+    },
+  };
+}
+
+/**
+ * Helper to create a mock fetch function
+ */
+function createMockFetch(
+  handler: (url: string | URL | Request, init?: RequestInit) => Promise<Response>
+): typeof globalThis.fetch {
+  return Object.assign(mock(handler), { preconnect: () => {} });
+}
+
+/**
+ * Get the request URL as a string
+ */
+function requestUrl(url: string | URL | Request): string {
+  return url instanceof Request ? url.url : url.toString();
+}
+
+/**
+ * Fake clock that runs timers when advanced
+ */
+interface FakeClock extends WatchClock {
+  advance(ms: number): Promise<void>;
+  pending(): number;
+}
+
+function createFakeClock(start: number): FakeClock {
+  let now = start;
+  let nextId = 1;
+  const timers = new Map<number, { at: number; callback: () => void }>();
+
+  const settle = async (): Promise<void> => {
+    // Let the fired poll finish (it schedules the next timer when done)
+    for (let i = 0; i < 100 && timers.size === 0; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+    }
+  };
+
+  return {
+    now: () => now,
+    setTimeout(callback, ms) {
+      const id = nextId++;
+      timers.set(id, { at: now + ms, callback });
+      return id;
+    },
+    clearTimeout(handle) {
+      timers.delete(handle as number);
+    },
+    pending: () => timers.size,
+    async advance(ms) {
+      const target = now + ms;
+      for (;;) {
+        const due = [...timers.entries()]
+          .filter(([, timer]) => timer.at <= target)
+          .sort((a, b) => a[1].at - b[1].at)[0];
+        if (!due) break;
+        timers.delete(due[0]);
+        now = due[1].at;
+        due[1].callback();
+        await settle();
+      }
+      now = target;
+    },
+  };
+}
+
+describe("parseUpdateFrequency", () => {
+  it("should parse hours, minutes and days", () => {
+    expect(parseUpdateFrequency("6 hours")).toBe(6 * HOUR_MS);
+    expect(parseUpdateFrequency("1 hour")).toBe(HOUR_MS);
+    expect(parseUpdateFrequency("30 minutes")).toBe(30 * 60000);
+    expect(parseUpdateFrequency("1 day")).toBe(24 * HOUR_MS);
+    expect(parseUpdateFrequency("on demand")).toBeUndefined();
+  });
+
+  it("should derive model poll intervals from MODEL_INFO", () => {
+    expect(getModelPollInterval("gfs")).toBe(6 * HOUR_MS);
+    expect(getModelPollInterval("gem")).toBe(12 * HOUR_MS);
+    expect(getModelPollInterval("local")).toBe(DEFAULT_POLL_INTERVAL_MS);
+  });
+});
+
+describe("diffForecasts", () => {
+  it("should report rain moving later", () => {
+    const changes = diffForecasts(
+      aggregate({ rainFrom: 10, temperature: 10 }),
+      aggregate({ rainFrom: 14, temperature: 10 })
+    );
+
+    expect(changes.length).toBe(1);
+    const [change] = changes;
+    expect(change.kind).toBe("rain-timing");
+    if (change.kind !== "rain-timing") return;
+    expect(change.previousStart?.toISOString()).toBe("2024-01-15T10:00:00.000Z");
+    expect(change.currentStart?.toISOString()).toBe("2024-01-15T14:00:00.000Z");
+    expect(change.message).toBe("Rain now expected from Mon 14:00, 4h later than before (Mon 10:00)");
+  });
+
+  it("should report rain appearing and disappearing", () => {
+    const dry = aggregate({ rainFrom: null, temperature: 10 });
+    const wet = aggregate({ rainFrom: 30, temperature: 10 });
+
+    expect(diffForecasts(dry, wet)[0].message).toBe("Rain now expected from Tue 06:00");
+    expect(diffForecasts(wet, dry)[0].message).toBe("Rain no longer expected (was due Tue 06:00)");
+  });
+
+  it("should ignore small shifts and unchanged forecasts", () => {
+    const scenario = { rainFrom: 10, temperature: 10 };
+
+    expect(diffForecasts(aggregate(scenario), aggregate(scenario))).toEqual([]);
+    expect(diffForecasts(aggregate(scenario), aggregate({ ...scenario, rainFrom: 11 }))).toEqual(
+      []
+    );
+    expect(
+      diffForecasts(aggregate(scenario), aggregate({ ...scenario, rainFrom: 11 }), {
+        thresholds: { rainShiftHours: 1 },
+      }).length
+    ).toBe(1);
+  });
+
+  it("should only compare hours after now", () => {
+    const changes = diffForecasts(
+      aggregate({ rainFrom: 2, temperature: 10 }),
+      aggregate({ rainFrom: null, temperature: 10 }),
+      { now: new Date(BASE_TIME + 6 * HOUR_MS) }
+    );
+
+    expect(changes).toEqual([]);
+  });
+
+  it("should report daily temperature changes", () => {
+    const changes = diffForecasts(
+      aggregate({ rainFrom: null, temperature: 10 }),
+      aggregate({ rainFrom: null, temperature: 14 })
+    );
+
+    expect(changes.map((c) => c.kind)).toEqual([
+      "temperature",
+      "temperature",
+      "temperature",
+      "temperature",
+    ]);
+    expect(changes[0].message).toBe("Mon 15 Jan high now 14°C (was 10°C)");
+  });
+
+  it("should report confidence drops", () => {
+    const previous = aggregate({ rainFrom: null, temperature: 10 });
+    const current: AggregatedForecast = {
+      ...previous,
+      overallConfidence: { level: "low", score: 0.4 },
+    };
+
+    const changes = diffForecasts({ ...previous, overallConfidence: { level: "high", score: 0.85 } }, current);
+
+    expect(changes.length).toBe(1);
+    expect(changes[0].message).toBe("Confidence dropped from high (85%) to low (40%)");
+  });
+});
+
+describe("notifiers", () => {
+  let directory: string;
+  let originalFetch: typeof globalThis.fetch;
+
+  const event: WatchEvent = {
+    location: LONDON,
+    checkedAt: new Date(BASE_TIME),
+    models: ["gfs"],
+    changes: [
+      {
+        kind: "rain-timing",
+        previousStart: null,
+        currentStart: new Date(BASE_TIME + 6 * HOUR_MS),
+        message: "Rain now expected from Mon 06:00",
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "weather-oracle-watch-"));
+    originalFetch = globalThis.fetch;
+  });
+
+  afterEach(async () => {
+    globalThis.fetch = originalFetch;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it("should append one JSON line per event", async () => {
+    const path = join(directory, "logs", "changes.jsonl");
+    const notifier = createJsonlNotifier(path);
+
+    await notifier.notify(event);
+    await notifier.notify(event);
+
+    const lines = (await readFile(path, "utf-8")).trim().split("\n");
+    expect(lines.length).toBe(2);
+    const record = JSON.parse(lines[0]) as {
+      location: { name: string };
+      checkedAt: string;
+      changes: Array<{ kind: string; currentStart: string }>;
+    };
+    expect(record.location.name).toBe("London");
+    expect(record.checkedAt).toBe("2024-01-15T00:00:00.000Z");
+    expect(record.changes[0].currentStart).toBe("2024-01-15T06:00:00.000Z");
+  });
+
+  it("should POST events to a webhook", async () => {
+    const requests: Array<{ url: string; init?: RequestInit }> = [];
+    globalThis.fetch = createMockFetch((url, init) => {
+      requests.push({ url: requestUrl(url), init });
+      return Promise.resolve(new Response(null, { status: 204 }));
+    });
+
+    await createWebhookNotifier("http://localhost:8080/hook").notify(event);
+
+    expect(requests.length).toBe(1);
+    expect(requests[0].url).toBe("http://localhost:8080/hook");
+    expect(requests[0].init?.method).toBe("POST");
+    expect(JSON.parse(requests[0].init?.body as string)).toMatchObject({
+      location: { query: "London" },
+      models: ["gfs"],
+    });
+  });
+
+  it("should raise WatchError for failed webhook calls", async () => {
+    globalThis.fetch = createMockFetch(() =>
+      Promise.resolve(new Response("nope", { status: 500, statusText: "Server Error" }))
+    );
+
+    const error = await createWebhookNotifier("http://localhost:8080/hook")
+      .notify(event)
+      .catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(WatchError);
+    expect((error as WatchError).code).toBe(ErrorCode.WATCH_NOTIFY_FAILED);
+    expect((error as WatchError).message).toContain("HTTP 500");
+  });
+});
+
+describe("ForecastWatcher", () => {
+  let originalFetch: typeof globalThis.fetch;
+  let scenario: Scenario;
+  let requests: string[];
+  let failing: boolean;
+
+  beforeEach(() => {
+    originalFetch = globalThis.fetch;
+    scenario = { rainFrom: 10, temperature: 10 };
+    requests = [];
+    failing = false;
+    globalThis.fetch = createMockFetch((url) => {
+      requests.push(requestUrl(url));
+      if (failing) {
+        return Promise.resolve(new Response("down", { status: 503 }));
+      }
+      return Promise.resolve(
+        new Response(JSON.stringify(createApiResponse(scenario)), {
+          status: 200,
+          headers: { "Content-Type": "application/json" },
+        })
+      );
+    });
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  /**
+   * Create a watcher on a fake clock recording its events
+   */
+  function createWatcher(models: ModelName[], errors: Error[] = []) {
+    const clock = createFakeClock(BASE_TIME);
+    const events: WatchEvent[] = [];
+    const notifier: ChangeNotifier = {
+      notify(event) {
+        events.push(event);
+        return Promise.resolve();
+      },
+    };
+    const watcher = new ForecastWatcher({
+      locations: [LONDON],
+      models,
+      notifiers: [notifier],
+      fetchOptions: { retries: 0 },
+      clock,
+      onError: (error) => errors.push(error),
+    });
+    return { watcher, clock, events };
+  }
+
+  it("should poll each model on its update frequency", async () => {
+    const { watcher, clock } = createWatcher(["gfs", "gem"]);
+
+    await watcher.start();
+    expect(requests.length).toBe(2);
+    expect(watcher.getNextPollTime()?.toISOString()).toBe("2024-01-15T06:00:00.000Z");
+
+    await clock.advance(6 * HOUR_MS);
+    expect(requests.length).toBe(3);
+    expect(requests[2]).toContain("/gfs");
+
+    await clock.advance(6 * HOUR_MS);
+    expect(requests.length).toBe(5);
+
+    await watcher.stop();
+  });
+
+  it("should notify when the forecast changes", async () => {
+    const { watcher, clock, events } = createWatcher(["gfs"]);
+
+    await watcher.start();
+    expect(events).toEqual([]);
+
+    await clock.advance(6 * HOUR_MS);
+    expect(events).toEqual([]);
+
+    scenario = { rainFrom: 14, temperature: 10 };
+    await clock.advance(6 * HOUR_MS);
+
+    expect(events.length).toBe(1);
+    expect(events[0].checkedAt.toISOString()).toBe("2024-01-15T12:00:00.000Z");
+    expect(events[0].models).toEqual(["gfs"]);
+    expect(events[0].changes.map((c) => c.kind)).toEqual(["rain-timing"]);
+
+    await watcher.stop();
+  });
+
+  it("should retry failed models and report errors", async () => {
+    const errors: Error[] = [];
+    const { watcher, clock } = createWatcher(["gfs"], errors);
+    failing = true;
+
+    await watcher.start();
+    expect(errors.length).toBe(1);
+    expect(watcher.getNextPollTime()?.toISOString()).toBe("2024-01-15T00:15:00.000Z");
+
+    failing = false;
+    await clock.advance(15 * 60 * 1000);
+    expect(requests.length).toBe(2);
+    expect(watcher.getNextPollTime()?.toISOString()).toBe("2024-01-15T06:15:00.000Z");
+
+    await watcher.stop();
+  });
+
+  it("should stop polling after stop", async () => {
+    const { watcher, clock } = createWatcher(["gfs"]);
+
+    await watcher.start();
+    expect(watcher.running).toBe(true);
+
+    await watcher.stop();
+    expect(watcher.running).toBe(false);
+    expect(clock.pending()).toBe(0);
+
+    await clock.advance(24 * HOUR_MS);
+    expect(requests.length).toBe(1);
+  });
+});
@@ -0,0 +1,280 @@
+/**
+ * Forecast watcher for watch mode.
+ * Re-polls each location's models on their update frequency, re-aggregates,
+ * and notifies when the forecast changes meaningfully.
+ */
+
+import type { AggregatedForecast, ModelForecast, ModelName } from "../types/models";
+import type { Location } from "../types/location";
+import { fetchAllModels, getDefaultModels, type MultiModelOptions } from "../api/multi-model";
+import { aggregateForecasts, type AggregationOptions } from "../engine/aggregator";
+import { diffForecasts } from "./diff";
+import { getModelPollInterval, systemClock } from "./schedule";
+import type {
+  ChangeNotifier,
+  ChangeThresholds,
+  ForecastChange,
+  WatchClock,
+  WatchEvent,
+} from "./types";
+
+/**
+ * Default delay before retrying a model that failed to fetch (15 minutes)
+ */
+export const DEFAULT_RETRY_DELAY_MS = 15 * 60 * 1000;
+
+/**
+ * Options for the forecast watcher
+ */
+export interface ForecastWatcherOptions {
+  readonly locations: readonly Location[];
+  /**
+   * Models to poll (defaults to the Open-Meteo models)
+   */
+  readonly models?: readonly ModelName[];
+  readonly notifiers?: readonly ChangeNotifier[];
+  readonly fetchOptions?: MultiModelOptions;
+  readonly aggregation?: AggregationOptions;
+  readonly thresholds?: Partial<ChangeThresholds>;
+  /**
+   * Poll every model at this interval instead of its update frequency
+   */
+  readonly intervalMs?: number;
+  readonly retryDelayMs?: number;
+  readonly clock?: WatchClock;
+  /**
+   * Called after each location is checked, whether or not anything changed
+   */
+  readonly onCheck?: (
+    location: Location,
+    forecast: AggregatedForecast,
+    changes: readonly ForecastChange[]
+  ) => void;
+  /**
+   * Called for fetch and notification failures; the watcher keeps running
+   */
+  readonly onError?: (error: Error, location: Location) => void;
+}
+
+/**
+ * Per-location polling state
+ */
+interface LocationState {
+  readonly location: Location;
+  readonly forecasts: Map<ModelName, ModelForecast>;
+  readonly nextDue: Map<ModelName, number>;
+  previous?: AggregatedForecast;
+}
+
+/**
+ * Polls locations on a schedule and reports forecast changes.
+ */
+export class ForecastWatcher {
+  private readonly options: ForecastWatcherOptions;
+  private readonly clock: WatchClock;
+  private readonly models: readonly ModelName[];
+  private readonly states: LocationState[];
+  private timer: unknown;
+  private polling: Promise<void> | undefined;
+  private stopped = true;
+
+  constructor(options: ForecastWatcherOptions) {
+    this.options = options;
+    this.clock = options.clock ?? systemClock;
+    this.models = options.models ?? getDefaultModels();
+    this.states = options.locations.map((location) => ({
+      location,
+      forecasts: new Map(),
+      nextDue: new Map(),
+    }));
+  }
+
+  /**
+   * Whether the watcher is polling
+   */
+  get running(): boolean {
+    return !this.stopped;
+  }
+
+  /**
+   * Start watching. Resolves once the initial poll of every location completes.
+   */
+  async start(): Promise<void> {
+    if (!this.stopped) {
+      return;
+    }
+    this.stopped = false;
+
+    const now = this.clock.now();
+    for (const state of this.states) {
+      for (const model of this.models) {
+        state.nextDue.set(model, now);
+      }
+    }
+
+    await this.tick();
+  }
+
+  /**
+   * Stop watching. Waits for an in-progress poll to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+    if (this.timer !== undefined) {
+      this.clock.clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    await this.polling;
+  }
+
+  /**
+   * Get the time of the next scheduled poll, if any
+   */
+  getNextPollTime(): Date | undefined {
+    let next = Number.POSITIVE_INFINITY;
+    for (const state of this.states) {
+      for (const due of state.nextDue.values()) {
+        next = Math.min(next, due);
+      }
+    }
+    return Number.isFinite(next) ? new Date(next) : undefined;
+  }
+
+  /**
+   * Poll everything that is due, then schedule the next poll
+   */
+  private async tick(): Promise<void> {
+    this.timer = undefined;
+    this.polling = this.pollDue();
+    try {
+      await this.polling;
+    } finally {
+      this.polling = undefined;
+    }
+
+    if (!this.stopped) {
+      this.schedule();
+    }
+  }
+
+  /**
+   * Set a timer for the earliest due model
+   */
+  private schedule(): void {
+    const next = this.getNextPollTime();
+    if (next === undefined) {
+      return;
+    }
+    const delay = Math.max(0, next.getTime() - this.clock.now());
+    this.timer = this.clock.setTimeout(() => void this.tick(), delay);
+  }
+
+  /**
+   * Poll the due models of each location in turn
+   */
+  private async pollDue(): Promise<void> {
+    const now = this.clock.now();
+
+    for (const state of this.states) {
+      if (this.stopped) {
+        return;
+      }
+      const due = this.models.filter((model) => (state.nextDue.get(model) ?? now) <= now);
+      if (due.length === 0) {
+        continue;
+      }
+      try {
+        await this.pollLocation(state, due, now);
+      } catch (error) {
+        // Keep watching; try these models again after the retry delay
+        const retryAt = now + (this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS);
+        for (const model of due) {
+          state.nextDue.set(model, retryAt);
+        }
+        this.options.onError?.(
+          error instanceof Error ? error : new Error(String(error)),
+          state.location
+        );
+      }
+    }
+  }
+
+  /**
+   * Fetch models for one location, re-aggregate, and report changes
+   */
+  private async pollLocation(
+    state: LocationState,
+    models: ModelName[],
+    now: number
+  ): Promise<void> {
+    const { location } = state;
+    const retryDelay = this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    const result = await fetchAllModels(location, models, this.options.fetchOptions);
+
+    for (const forecast of result.forecasts) {
+      state.forecasts.set(forecast.model, forecast);
+      state.nextDue.set(forecast.model, now + this.getInterval(forecast.model));
+    }
+    for (const failure of result.failures) {
+      state.nextDue.set(
+        failure.model,
+        now + Math.min(retryDelay, this.getInterval(failure.model))
+      );
+      this.options.onError?.(failure.error, location);
+    }
+
+    if (result.forecasts.length === 0) {
+      return;
+    }
+
+    const current = aggregateForecasts([...state.forecasts.values()], this.options.aggregation);
+    const previous = state.previous;
+    state.previous = current;
+
+    const changes = previous
+      ? diffForecasts(previous, current, {
+          thresholds: this.options.thresholds,
+          now: new Date(now),
+          timezone: location.resolved.timezone,
+        })
+      : [];
+
+    this.options.onCheck?.(location, current, changes);
+
+    if (changes.length === 0) {
+      return;
+    }
+
+    const event: WatchEvent = {
+      location,
+      checkedAt: new Date(now),
+      models: result.forecasts.map((f) => f.model),
+      changes,
+    };
+
+    await Promise.all(
+      (this.options.notifiers ?? []).map((notifier) =>
+        notifier.notify(event).catch((error: unknown) => {
+          this.options.onError?.(
+            error instanceof Error ? error : new Error(String(error)),
+            location
+          );
+        })
+      )
+    );
+  }
+
+  /**
+   * Get the poll interval for a model
+   */
+  private getInterval(model: ModelName): number {
+    return this.options.intervalMs ?? getModelPollInterval(model);
+  }
+}
+
+/**
+ * Create a forecast watcher
+ */
+export function createForecastWatcher(options: ForecastWatcherOptions): ForecastWatcher {
+  return new ForecastWatcher(options);
+}
@@ -5,6 +5,10 @@
  */
 
 import { describe, it, expect, beforeAll, afterAll, afterEach } from "bun:test";
+import { join } from "node:path";
+import { rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { randomUUID } from "node:crypto";
 import {
   setupMswServer,
   resetMswServer,
@@ -19,7 +23,12 @@ import {
   calculateConfidence,
   generateNarrative,
   identifyOutliers,
+  toModelRun,
+  createRunHistoryStore,
+  createTrendReport,
+  fetchForecastsForLocations,
   type Location,
+  type ModelRun,
 } from "@weather-oracle/core";
 
 // Setup MSW server
@@ -245,6 +254,82 @@ describe("Web API Integration Tests", () => {
     });
   });
 
+  describe("GET /api/trend", () => {
+    it("should record runs and report each model's latest run", async () => {
+      const location = await geocodeLocation("Dublin");
+      const locationObj: Location = { query: "Dublin", resolved: location };
+      const directory = join(tmpdir(), `weather-oracle-trend-test-${randomUUID()}`);
+
+      try {
+        const modelResult = await fetchAllModels(locationObj, ["ecmwf", "gfs"], {
+          forecastDays: 3,
+        });
+        const runs = modelResult.forecasts
+          .map(toModelRun)
+          .filter((run): run is ModelRun => run !== undefined);
+
+        // Open-Meteo models get an estimated run time from their update cycle
+        expect(runs.length).toBe(2);
+        expect(runs[0].runInitSource).toBe("estimated");
+
+        const store = createRunHistoryStore({ directory });
+        await store.saveRuns(runs);
+        const report = createTrendReport(
+          location.coordinates,
+          await store.getRuns(location.coordinates)
+        );
+
+        expect(report.latestRuns.map((r) => r.model).sort()).toEqual(["ecmwf", "gfs"]);
+        expect(report.latestRuns[0].newerRunExpected).toBe(false);
+        // A single run per model has nothing to compare against
+        expect(report.trends).toEqual([]);
+      } finally {
+        await rm(directory, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe("POST /api/forecast/batch", () => {
+    it("should fetch and aggregate several locations together", async () => {
+      const locations: Location[] = await Promise.all(
+        ["Dublin", "London"].map(async (query) => ({
+          query,
+          resolved: await geocodeLocation(query),
+        }))
+      );
+
+      const results = await fetchForecastsForLocations(locations, ["ecmwf", "gfs"], {
+        forecastDays: 3,
+        batchRequests: true,
+      });
+
+      expect(results.map((r) => r.location.query)).toEqual(["Dublin", "London"]);
+      for (const { location, result } of results) {
+        expect(result.forecasts.map((f) => f.model)).toEqual(["ecmwf", "gfs"]);
+        expect(result.forecasts[0].coordinates.latitude).toBe(
+          location.resolved.coordinates.latitude
+        );
+
+        const aggregated = aggregateForecasts(result.forecasts);
+        expect(aggregated.consensus.daily.length).toBeGreaterThan(0);
+      }
+    });
+
+    it("should report failed models per location", async () => {
+      setModelFailure("gfs", true);
+      const location = await geocodeLocation("London");
+
+      const [{ result }] = await fetchForecastsForLocations(
+        [{ query: "London", resolved: location }],
+        ["ecmwf", "gfs"],
+        { forecastDays: 3, retries: 0 }
+      );
+
+      expect(result.forecasts.map((f) => f.model)).toEqual(["ecmwf"]);
+      expect(result.failures.map((f) => f.model)).toEqual(["gfs"]);
+    });
+  });
+
   describe("GET /api/geocode", () => {
     it("should return geocoding results for valid query", async () => {
       const result = await geocodeLocation("Dublin");
@@ -293,7 +378,7 @@ describe("Web API Integration Tests", () => {
         meta: {
           fetchedAt: new Date().toISOString(),
           models: modelResult.forecasts.map((f) => f.model),
-          cached: false,
+          cached: "revalidated",
           duration: 150,
         },
       };
@@ -21,7 +21,7 @@ import {
   identifyOutliers,
   searchLocations,
   type Location,
-  type ModelName,
+  type OpenMeteoModelName,
   type GeocodingResult,
 } from "@weather-oracle/core";
 
@@ -34,7 +34,7 @@ const WEATHER_API = "https://api.open-meteo.com/v1";
 /**
  * Model endpoint mappings
  */
-const MODEL_ENDPOINTS: Record<ModelName, string> = {
+const MODEL_ENDPOINTS: Record<OpenMeteoModelName, string> = {
   ecmwf: `${WEATHER_API}/ecmwf`,
   gfs: `${WEATHER_API}/gfs`,
   icon: `${WEATHER_API}/dwd-icon`,
@@ -48,7 +48,7 @@ const MODEL_ENDPOINTS: Record<ModelName, string> = {
  * Mock state
  */
 interface MockState {
-  failingModels: Set<ModelName>;
+  failingModels: Set<OpenMeteoModelName>;
   geocodingFailure: boolean;
   networkDelay: number;
 }
@@ -65,7 +65,7 @@ function resetMockState(): void {
   mockState.networkDelay = 0;
 }
 
-function setModelFailure(model: ModelName, shouldFail: boolean): void {
+function setModelFailure(model: OpenMeteoModelName, shouldFail: boolean): void {
   if (shouldFail) {
     mockState.failingModels.add(model);
   } else {
@@ -125,7 +125,7 @@ const LOCATIONS: Record<string, {
 /**
  * Generate mock forecast response
  */
-function generateMockForecast(lat: number, lon: number, days: number, model: ModelName) {
+function generateMockForecast(lat: number, lon: number, days: number, model: OpenMeteoModelName) {
   const now = new Date();
   const hourlyTimes: string[] = [];
   const dailyTimes: string[] = [];
@@ -241,11 +241,11 @@ const handlers = [
       const lon = parseFloat(url.searchParams.get("longitude") ?? "-6.26");
       const days = parseInt(url.searchParams.get("forecast_days") ?? "5", 10);
 
-      if (mockState.failingModels.has(model as ModelName)) {
+      if (mockState.failingModels.has(model as OpenMeteoModelName)) {
         return HttpResponse.json({ error: true, reason: `${model} unavailable` });
       }
 
-      return HttpResponse.json(generateMockForecast(lat, lon, days, model as ModelName));
+      return HttpResponse.json(generateMockForecast(lat, lon, days, model as OpenMeteoModelName));
     })
   ),
 ];
@@ -573,7 +573,7 @@ describe("Web API E2E Tests", () => {
         meta: {
           fetchedAt: new Date().toISOString(),
           models: modelResult.forecasts.map((f) => f.model),
-          cached: false,
+          cached: "revalidated",
           duration: 150,
         },
       };
@@ -4,7 +4,7 @@
  */
 
 import { http, HttpResponse, delay } from "msw";
-import type { ModelName } from "@weather-oracle/core";
+import type { OpenMeteoModelName } from "@weather-oracle/core";
 
 /**
  * Open-Meteo API base URLs
@@ -15,7 +15,7 @@ const WEATHER_API = "https://api.open-meteo.com/v1";
 /**
  * Model endpoint mappings
  */
-const MODEL_ENDPOINTS: Record<ModelName, string> = {
+const MODEL_ENDPOINTS: Record<OpenMeteoModelName, string> = {
   ecmwf: `${WEATHER_API}/ecmwf`,
   gfs: `${WEATHER_API}/gfs`,
   icon: `${WEATHER_API}/dwd-icon`,
@@ -25,11 +25,24 @@ const MODEL_ENDPOINTS: Record<ModelName, string> = {
   ukmo: `${WEATHER_API}/ukmo`,
 };
 
+/**
+ * Models selected by models= on the /forecast endpoint
+ */
+const MODEL_PARAMS: Record<string, OpenMeteoModelName> = {
+  ecmwf_ifs025: "ecmwf",
+  gfs_seamless: "gfs",
+  icon_seamless: "icon",
+  jma_seamless: "jma",
+  gem_seamless: "gem",
+  meteofrance_seamless: "meteofrance",
+  ukmo_seamless: "ukmo",
+};
+
 /**
  * Mock state for controlling behavior
  */
 interface MockState {
-  failingModels: Set<ModelName>;
+  failingModels: Set<OpenMeteoModelName>;
   geocodingFailure: boolean;
   networkDelay: number;
 }
@@ -52,7 +65,7 @@ export function resetMockState(): void {
 /**
  * Configure model failure
  */
-export function setModelFailure(model: ModelName, shouldFail: boolean): void {
+export function setModelFailure(model: OpenMeteoModelName, shouldFail: boolean): void {
   if (shouldFail) {
     mockState.failingModels.add(model);
   } else {
@@ -92,7 +105,7 @@ const LOCATIONS: Record<string, { lat: number; lon: number; country: string; cou
 /**
  * Generate mock forecast data
  */
-function generateMockForecast(lat: number, lon: number, days: number, model: ModelName) {
+function generateMockForecast(lat: number, lon: number, days: number, model: OpenMeteoModelName) {
   const now = new Date();
   const hourlyTimes: string[] = [];
   const dailyTimes: string[] = [];
@@ -158,6 +171,32 @@ function generateMockForecast(lat: number, lon: number, days: number, model: Mod
   };
 }
 
+/**
+ * Generate a multi-model /forecast response: each model's columns suffixed
+ * with its models= value. Failing models are left out.
+ */
+function generateMockBatchForecast(lat: number, lon: number, days: number, params: string[]) {
+  const base = generateMockForecast(lat, lon, days, "ecmwf");
+  const hourly: Record<string, unknown> = { time: base.hourly.time };
+  const daily: Record<string, unknown> = { time: base.daily.time };
+
+  for (const param of params) {
+    const model = MODEL_PARAMS[param];
+    if (!model || mockState.failingModels.has(model)) {
+      continue;
+    }
+    const forecast = generateMockForecast(lat, lon, days, model);
+    for (const [key, values] of Object.entries(forecast.hourly)) {
+      if (key !== "time") hourly[`${key}_${param}`] = values;
+    }
+    for (const [key, values] of Object.entries(forecast.daily)) {
+      if (key !== "time") daily[`${key}_${param}`] = values;
+    }
+  }
+
+  return { ...base, hourly, daily };
+}
+
 /**
  * MSW handlers for Web API tests
  */
@@ -203,15 +242,44 @@ export const handlers = [
       }
 
       const url = new URL(request.url);
-      const lat = parseFloat(url.searchParams.get("latitude") ?? "53.35");
-      const lon = parseFloat(url.searchParams.get("longitude") ?? "-6.26");
+      // Several locations come as comma-separated coordinates and get an array back
+      const lats = (url.searchParams.get("latitude") ?? "53.35").split(",").map((v) => parseFloat(v));
+      const lons = (url.searchParams.get("longitude") ?? "-6.26").split(",").map((v) => parseFloat(v));
       const days = parseInt(url.searchParams.get("forecast_days") ?? "5", 10);
 
-      if (mockState.failingModels.has(model as ModelName)) {
+      if (mockState.failingModels.has(model as OpenMeteoModelName)) {
         return HttpResponse.json({ error: true, reason: `${model} unavailable` });
       }
 
-      return HttpResponse.json(generateMockForecast(lat, lon, days, model as ModelName));
+      const forecasts = lats.map((lat, i) =>
+        generateMockForecast(lat, lons[i], days, model as OpenMeteoModelName)
+      );
+      return HttpResponse.json(forecasts.length === 1 ? forecasts[0] : forecasts);
     })
   ),
+
+  // Multi-model requests (and UKMO) on the /forecast endpoint
+  http.get(`${WEATHER_API}/forecast`, async ({ request }) => {
+    if (mockState.networkDelay > 0) {
+      await delay(mockState.networkDelay);
+    }
+
+    const url = new URL(request.url);
+    const lats = (url.searchParams.get("latitude") ?? "53.35").split(",").map((v) => parseFloat(v));
+    const lons = (url.searchParams.get("longitude") ?? "-6.26").split(",").map((v) => parseFloat(v));
+    const days = parseInt(url.searchParams.get("forecast_days") ?? "5", 10);
+    const params = (url.searchParams.get("models") ?? "ukmo_seamless").split(",");
+
+    if (params.length === 1) {
+      const model = MODEL_PARAMS[params[0]] ?? "ukmo";
+      if (mockState.failingModels.has(model)) {
+        return HttpResponse.json({ error: true, reason: `${model} unavailable` });
+      }
+      const forecasts = lats.map((lat, i) => generateMockForecast(lat, lons[i], days, model));
+      return HttpResponse.json(forecasts.length === 1 ? forecasts[0] : forecasts);
+    }
+
+    const forecasts = lats.map((lat, i) => generateMockBatchForecast(lat, lons[i], days, params));
+    return HttpResponse.json(forecasts.length === 1 ? forecasts[0] : forecasts);
+  }),
 ];
@@ -428,7 +428,7 @@ describe("Response Format Tests", () => {
         meta: {
           fetchedAt: new Date().toISOString(),
           models: result.forecasts.map((f) => f.model),
-          cached: false,
+          cached: "revalidated",
           duration: 150,
         },
       };
@@ -482,7 +482,7 @@ describe("Response Format Tests", () => {
         meta: {
           fetchedAt: new Date().toISOString(),
           models: result.forecasts.map((f) => f.model),
-          cached: false,
+          cached: "revalidated",
           duration: 200,
         },
       };
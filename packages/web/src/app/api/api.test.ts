@@ -31,13 +31,13 @@ describe("API Response Helpers", () => {
       const data = { temp: 20 };
       const response = successResponse(data, {
         models: ["gfs", "ecmwf"],
-        cached: true,
+        cached: "fresh",
         duration: 150,
       });
 
       const json = (await response.json()) as ApiSuccessResponse<typeof data>;
       expect(json.meta.models).toEqual(["gfs", "ecmwf"]);
-      expect(json.meta.cached).toBe(true);
+      expect(json.meta.cached).toBe("fresh");
       expect(json.meta.duration).toBe(150);
     });
 
@@ -150,7 +150,7 @@ describe("API Response Helpers", () => {
       expect(response.status).toBe(204);
       expect(response.headers.get("Access-Control-Allow-Origin")).toBe("*");
       expect(response.headers.get("Access-Control-Allow-Methods")).toBe(
-        "GET, OPTIONS"
+        "GET, POST, OPTIONS"
       );
       expect(response.headers.get("Access-Control-Allow-Headers")).toBe(
         "Content-Type, Authorization"
@@ -165,7 +165,7 @@ describe("API Response Helpers", () => {
         "*"
       );
       expect(withCorsResponse.headers.get("Access-Control-Allow-Methods")).toBe(
-        "GET, OPTIONS"
+        "GET, POST, OPTIONS"
       );
     });
   });
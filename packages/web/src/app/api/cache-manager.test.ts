@@ -0,0 +1,64 @@
+/**
+ * Tests for the web routes' shared cache manager.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, spyOn } from "bun:test";
+import { NextRequest } from "next/server";
+import * as core from "@weather-oracle/core";
+import { appConfigSchema, MemoryCacheManager } from "@weather-oracle/core";
+import { setupMswServer, resetMswServer, teardownMswServer } from "../../__tests__/mocks/server";
+import { getCacheManager, getWebCacheOptions } from "./cache-manager";
+import { GET } from "./trend/route";
+
+beforeAll(() => {
+  setupMswServer();
+});
+
+afterAll(() => {
+  teardownMswServer();
+});
+
+afterEach(() => {
+  resetMswServer();
+});
+
+describe("getWebCacheOptions", () => {
+  it("should cache in memory unless the file backend is configured", () => {
+    expect(getWebCacheOptions(appConfigSchema.parse({})).backend).toBe("memory");
+    expect(
+      getWebCacheOptions(appConfigSchema.parse({ cache: { backend: "sqlite" } })).backend
+    ).toBe("memory");
+    expect(getWebCacheOptions(appConfigSchema.parse({ cache: { backend: "file" } })).backend).toBe(
+      "file"
+    );
+  });
+});
+
+describe("getCacheManager", () => {
+  it("should serve routes in memory when sqlite is configured", async () => {
+    const config = appConfigSchema.parse({
+      cache: { backend: "sqlite" },
+      runs: { enabled: false },
+    });
+    const loadConfig = spyOn(core, "loadConfig").mockResolvedValue(config);
+
+    try {
+      const response = await GET(
+        new NextRequest("http://localhost/api/trend?lat=40.71&lon=-74.01")
+      );
+
+      expect(response.status).toBe(200);
+      expect(getCacheManager(config)).toBeInstanceOf(MemoryCacheManager);
+    } finally {
+      loadConfig.mockRestore();
+    }
+  });
+
+  it("should create one cache for the server process", () => {
+    const config = appConfigSchema.parse({ cache: { backend: "memory" } });
+    const cacheManager = getCacheManager(config);
+
+    expect(cacheManager).toBeInstanceOf(MemoryCacheManager);
+    expect(getCacheManager(appConfigSchema.parse({}))).toBe(cacheManager);
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * Shared cache manager for Weather Oracle web routes.
+ * Every route caches in one manager built from the config's cache settings
+ * (directory, TTL and size), like the CLI. The server keeps entries in memory
+ * unless the config picks the file backend.
+ */
+
+import {
+  createCacheManager,
+  getCacheOptionsFromConfig,
+  type AppConfig,
+  type CacheManager,
+  type CacheManagerOptions,
+} from "@weather-oracle/core";
+
+let cacheManager: CacheManager | undefined;
+
+/**
+ * Get the web server's cache options from the config.
+ * The sqlite backend needs bun:sqlite, which Next's Node runtime can't load,
+ * so it falls back to memory like an unset backend.
+ */
+export function getWebCacheOptions(config: Pick<AppConfig, "cache">): CacheManagerOptions {
+  return {
+    ...getCacheOptionsFromConfig(config),
+    backend: config.cache.backend === "file" ? "file" : "memory",
+  };
+}
+
+/**
+ * Get the server process's cache manager, creating it from the config on
+ * first use since the config is only loaded once a request arrives
+ */
+export function getCacheManager(config: Pick<AppConfig, "cache">): CacheManager {
+  cacheManager ??= createCacheManager(getWebCacheOptions(config));
+  return cacheManager;
+}
@@ -1,24 +1,35 @@
 /**
  * Model Comparison API route for Weather Oracle.
- * GET /api/compare?location=<query>&lat=<lat>&lon=<lon>&days=<number>
+ * GET /api/compare?location=<query>&lat=<lat>&lon=<lon>&days=<number>&ensemble=true
  *
  * Returns individual model forecasts for comparison.
  */
 
 import { NextRequest } from "next/server";
 import {
-  geocodeLocation,
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
   fetchAllModels,
+  fetchEnsembleForecasts,
+  getEnsembleOptionsFromConfig,
+  calculateDailyUncertainty,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
+  loadConfig,
   identifyOutliers,
-  createCacheManager,
+  getForecastCacheTtl,
   createCoordinates,
   isGeocodingError,
   isApiError,
+  hasDailyMetric,
   MODEL_INFO,
   type GeocodingResult,
+  type SavedLocationConfig,
   type ModelForecast,
   type ModelName,
   type ModelInfo,
+  type DailyUncertainty,
+  type EnsembleModelName,
 } from "@weather-oracle/core";
 import { type OutlierInfo } from "@weather-oracle/core";
 import {
@@ -27,6 +38,8 @@ import {
   handleCors,
   withCors,
 } from "../response";
+import { createResponseCache, type ResponseCache } from "../response-cache";
+import { getCacheManager } from "../cache-manager";
 
 /**
  * Model forecast summary for comparison
@@ -39,12 +52,13 @@ export interface ModelComparisonEntry {
     validTo: string;
     daily: Array<{
       date: string;
-      temperatureMax: number;
-      temperatureMin: number;
-      precipitationTotal: number;
-      precipitationProbability: number;
-      windMaxSpeed: number;
-      weatherCode: number;
+      // Omitted when the model does not forecast the metric
+      temperatureMax?: number;
+      temperatureMin?: number;
+      precipitationTotal?: number;
+      precipitationProbability?: number;
+      windMaxSpeed?: number;
+      weatherCode?: number;
     }>;
     hourlyCount: number;
   };
@@ -52,6 +66,15 @@ export interface ModelComparisonEntry {
   error?: string;
 }
 
+/**
+ * Daily ensemble member distributions for uncertainty bands
+ */
+export interface EnsembleComparison {
+  models: EnsembleModelName[];
+  memberCount: number;
+  daily: Array<{ date: string } & DailyUncertainty>;
+}
+
 /**
  * Response data for compare endpoint
  */
@@ -59,6 +82,7 @@ export interface CompareResponseData {
   location: GeocodingResult;
   models: ModelComparisonEntry[];
   outliers: OutlierInfo[];
+  ensemble?: EnsembleComparison;
   summary: {
     totalModels: number;
     successfulModels: number;
@@ -66,8 +90,10 @@ export interface CompareResponseData {
   };
 }
 
-// Create a singleton cache manager
-const cacheManager = createCacheManager({ enabled: true });
+// Singleton response cache for the server process, created in the configured
+// cache on the first request: concurrent identical requests share one fetch,
+// and expired entries are served while refreshing
+let responseCache: ResponseCache<CompareResponseData> | undefined;
 
 /**
  * Generate a cache key for compare requests
@@ -75,15 +101,19 @@ const cacheManager = createCacheManager({ enabled: true });
 function getCompareCacheKey(
   lat: number,
   lon: number,
-  days: number
+  days: number,
+  ensemble: boolean,
+  models?: readonly string[]
 ): string {
   const roundedLat = Math.round(lat * 100) / 100;
   const roundedLon = Math.round(lon * 100) / 100;
-  return `compare_${roundedLat}_${roundedLon}_${days}`;
+  const modelKey = models ? `_${[...new Set(models)].sort().join("+")}` : "";
+  return `compare_${roundedLat}_${roundedLon}_${days}${ensemble ? "_ens" : ""}${modelKey}`;
 }
 
 /**
- * Transform a ModelForecast into a comparison entry
+ * Transform a ModelForecast into a comparison entry, leaving out daily
+ * metrics the model does not forecast
  */
 function toComparisonEntry(forecast: ModelForecast): ModelComparisonEntry {
   return {
@@ -94,12 +124,14 @@ function toComparisonEntry(forecast: ModelForecast): ModelComparisonEntry {
       validTo: forecast.validTo.toISOString(),
       daily: forecast.daily.map((d) => ({
         date: d.date.toISOString(),
-        temperatureMax: d.temperature.max,
-        temperatureMin: d.temperature.min,
-        precipitationTotal: d.precipitation.total,
-        precipitationProbability: d.precipitation.probability,
-        windMaxSpeed: d.wind.maxSpeed,
-        weatherCode: d.weatherCode,
+        ...(hasDailyMetric(d, "temperatureMax") && { temperatureMax: d.temperature.max }),
+        ...(hasDailyMetric(d, "temperatureMin") && { temperatureMin: d.temperature.min }),
+        ...(hasDailyMetric(d, "precipitation") && { precipitationTotal: d.precipitation.total }),
+        ...(hasDailyMetric(d, "precipitationProbability") && {
+          precipitationProbability: d.precipitation.probability,
+        }),
+        ...(hasDailyMetric(d, "windSpeed") && { windMaxSpeed: d.wind.maxSpeed }),
+        ...(hasDailyMetric(d, "weatherCode") && { weatherCode: d.weatherCode }),
       })),
       hourlyCount: forecast.hourly.length,
     },
@@ -111,11 +143,12 @@ function toComparisonEntry(forecast: ModelForecast): ModelComparisonEntry {
  * GET /api/compare
  *
  * Query parameters:
- * - location (optional): Location name to geocode
+ * - location (optional): Saved location alias or location name to geocode
  * - lat (optional): Latitude (alternative to location)
  * - lon (optional): Longitude (alternative to location)
- * - days (optional): Number of forecast days (1-7, default 5)
- * - models (optional): Comma-separated list of models to include
+ * - days (optional): Number of forecast days (1-7, default 5 or the saved location's days)
+ * - models (optional): Comma-separated list of models to include (defaults to the saved location's models)
+ * - ensemble (optional): "true" to include daily ensemble percentiles
  *
  * Must provide either "location" OR both "lat" and "lon"
  */
@@ -129,6 +162,7 @@ export async function GET(request: NextRequest) {
   const lonParam = searchParams.get("lon");
   const daysParam = searchParams.get("days");
   const modelsParam = searchParams.get("models");
+  const includeEnsemble = searchParams.get("ensemble") === "true";
 
   // Validate location parameters
   const hasLocation = locationQuery && locationQuery.trim().length > 0;
@@ -142,8 +176,8 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Parse and validate days
-  let days = 5;
+  // Parse and validate days (a saved location's own days apply when omitted)
+  let requestedDays: number | undefined;
   if (daysParam) {
     const parsed = parseInt(daysParam, 10);
     if (isNaN(parsed) || parsed < 1 || parsed > 7) {
@@ -153,7 +187,7 @@ export async function GET(request: NextRequest) {
         })
       );
     }
-    days = parsed;
+    requestedDays = parsed;
   }
 
   // Parse and validate models filter
@@ -178,8 +212,11 @@ export async function GET(request: NextRequest) {
   }
 
   try {
+    const config = await loadConfig();
+
     // Resolve location
     let resolvedLocation: GeocodingResult;
+    let saved: SavedLocationConfig | undefined;
 
     if (hasCoordinates) {
       const lat = parseFloat(latParam!);
@@ -209,100 +246,132 @@ export async function GET(request: NextRequest) {
         timezone: "UTC" as GeocodingResult["timezone"],
       };
     } else {
-      resolvedLocation = await geocodeLocation(locationQuery!.trim());
+      // Saved aliases resolve from config; anything else is geocoded
+      const result = await resolveLocation(
+        locationQuery!,
+        config.locations,
+        getGeocodingOptionsFromConfig(config)
+      );
+      resolvedLocation = result.location.resolved;
+      saved = result.saved;
     }
 
-    // Check cache
+    const days = requestedDays ?? Math.min(saved?.days ?? 5, 7);
+    modelsFilter ??= saved?.models as ModelName[] | undefined;
+
     const cacheKey = getCompareCacheKey(
       resolvedLocation.coordinates.latitude,
       resolvedLocation.coordinates.longitude,
-      days
+      days,
+      includeEnsemble,
+      modelsFilter
     );
 
-    const cached = await cacheManager.get<CompareResponseData>(cacheKey);
-    if (cached && !modelsFilter) {
-      // Only use cache if not filtering by specific models
-      const duration = Date.now() - startTime;
-      return withCors(
-        successResponse<CompareResponseData>(cached, {
-          duration,
-          cached: true,
-          models: cached.models
-            .filter((m) => m.status === "success")
-            .map((m) => m.model),
-        })
-      );
-    }
-
     // Create location object for fetching
     const location = {
       query: locationQuery ?? `${resolvedLocation.coordinates.latitude},${resolvedLocation.coordinates.longitude}`,
       resolved: resolvedLocation,
     };
 
-    // Fetch forecasts from all (or selected) models
-    const modelResult = await fetchAllModels(location, modelsFilter, {
-      forecastDays: days,
-    });
+    responseCache ??= createResponseCache<CompareResponseData>({ cache: getCacheManager(config) });
+    const result = await responseCache.get(cacheKey, async () => {
+      // Fetch forecasts from all (or selected) models
+      const modelResult = await fetchAllModels(location, modelsFilter, {
+        ...getForecastOptionsFromConfig(config),
+        forecastDays: days,
+        registry: createProviderRegistry(config.providers),
+      });
 
-    // Build comparison entries
-    const modelEntries: ModelComparisonEntry[] = [];
+      // Build comparison entries
+      const modelEntries: ModelComparisonEntry[] = [];
 
-    // Add successful forecasts
-    for (const forecast of modelResult.forecasts) {
-      modelEntries.push(toComparisonEntry(forecast));
-    }
+      // Add successful forecasts
+      for (const forecast of modelResult.forecasts) {
+        modelEntries.push(toComparisonEntry(forecast));
+      }
+
+      // Add failed models
+      for (const failure of modelResult.failures) {
+        modelEntries.push({
+          model: failure.model,
+          info: MODEL_INFO[failure.model],
+          forecast: {
+            validFrom: "",
+            validTo: "",
+            daily: [],
+            hourlyCount: 0,
+          },
+          status: "failed",
+          error: failure.error.message,
+        });
+      }
 
-    // Add failed models
-    for (const failure of modelResult.failures) {
-      modelEntries.push({
-        model: failure.model,
-        info: MODEL_INFO[failure.model],
-        forecast: {
-          validFrom: "",
-          validTo: "",
-          daily: [],
-          hourlyCount: 0,
+      // Sort by model name for consistent ordering
+      modelEntries.sort((a, b) => a.model.localeCompare(b.model));
+
+      // Identify outliers across successful forecasts
+      const outliers =
+        modelResult.forecasts.length >= 3
+          ? identifyOutliers(modelResult.forecasts)
+          : [];
+
+      // Summarize ensemble members per day when requested
+      let ensemble: EnsembleComparison | undefined;
+      if (includeEnsemble) {
+        const ensembleResult = await fetchEnsembleForecasts(location, undefined, {
+          ...getEnsembleOptionsFromConfig(config),
+          forecastDays: days,
+        });
+
+        if (ensembleResult.forecasts.length > 0) {
+          const daily = calculateDailyUncertainty(ensembleResult.forecasts);
+          ensemble = {
+            models: ensembleResult.forecasts.map((f) => f.model),
+            memberCount: ensembleResult.forecasts.reduce((sum, f) => sum + f.memberCount, 0),
+            daily: [...daily.entries()]
+              .sort(([a], [b]) => a.localeCompare(b))
+              .map(([date, uncertainty]) => ({ date, ...uncertainty })),
+          };
+        }
+      }
+
+      // Build response
+      const responseData: CompareResponseData = {
+        location: resolvedLocation,
+        models: modelEntries,
+        outliers,
+        ...(ensemble && { ensemble }),
+        summary: {
+          totalModels: modelEntries.length,
+          successfulModels: modelResult.forecasts.length,
+          failedModels: modelResult.failures.length,
         },
-        status: "failed",
-        error: failure.error.message,
-      });
-    }
+      };
 
-    // Sort by model name for consistent ordering
-    modelEntries.sort((a, b) => a.model.localeCompare(b.model));
-
-    // Identify outliers across successful forecasts
-    const outliers =
-      modelResult.forecasts.length >= 3
-        ? identifyOutliers(modelResult.forecasts)
-        : [];
-
-    // Build response
-    const responseData: CompareResponseData = {
-      location: resolvedLocation,
-      models: modelEntries,
-      outliers,
-      summary: {
-        totalModels: modelEntries.length,
-        successfulModels: modelResult.forecasts.length,
-        failedModels: modelResult.failures.length,
-      },
-    };
+      // Fresh for up to 30 minutes, or until a newer model run is due
+      const ttl = Math.min(1800, getForecastCacheTtl(modelResult.forecasts.map((f) => f.model)));
 
-    // Cache full result (not filtered)
-    if (!modelsFilter) {
-      await cacheManager.set(cacheKey, responseData, 1800);
+      return {
+        data: responseData,
+        models: modelResult.forecasts.map((f) => f.model),
+        fetchedAt: modelResult.fetchedAt.toISOString(),
+        ttlSeconds: ttl,
+      };
+    });
+
+    // The loader always returns a comparison, even when every model failed
+    if (!result) {
+      return withCors(errors.internalError());
     }
 
     const duration = Date.now() - startTime;
 
     return withCors(
-      successResponse<CompareResponseData>(responseData, {
-        fetchedAt: modelResult.fetchedAt,
+      successResponse<CompareResponseData>(result.data, {
+        fetchedAt: result.fetchedAt,
         duration,
-        models: modelResult.forecasts.map((f) => f.model),
-        cached: false,
+        models: result.models,
+        cached: result.status,
       })
     );
   } catch (error) {
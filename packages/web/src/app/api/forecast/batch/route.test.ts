@@ -0,0 +1,94 @@
+/**
+ * Tests for the batch forecast route.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, spyOn } from "bun:test";
+import { NextRequest } from "next/server";
+import * as core from "@weather-oracle/core";
+import { appConfigSchema } from "@weather-oracle/core";
+import {
+  setupMswServer,
+  resetMswServer,
+  teardownMswServer,
+} from "../../../../__tests__/mocks/server";
+import { POST, type BatchForecastResponseData } from "./route";
+
+beforeAll(() => {
+  setupMswServer();
+});
+
+afterAll(() => {
+  teardownMswServer();
+});
+
+afterEach(() => {
+  resetMswServer();
+});
+
+/**
+ * POST a batch request with the given config in place of the user's
+ */
+async function postBatch(
+  config: unknown,
+  body: unknown
+): Promise<{ status: number; data: BatchForecastResponseData }> {
+  const loadConfig = spyOn(core, "loadConfig").mockResolvedValue(appConfigSchema.parse(config));
+  try {
+    const response = await POST(
+      new NextRequest("http://localhost/api/forecast/batch", {
+        method: "POST",
+        body: JSON.stringify(body),
+      })
+    );
+    const json = (await response.json()) as { data: BatchForecastResponseData };
+    return { status: response.status, data: json.data };
+  } finally {
+    loadConfig.mockRestore();
+  }
+}
+
+describe("POST /api/forecast/batch", () => {
+  it("should weight models with the configured strategy", async () => {
+    const { status, data } = await postBatch(
+      { cache: { backend: "memory" }, models: { weighting: "resolution" } },
+      { locations: [{ lat: 48.85, lon: 2.35 }] }
+    );
+
+    expect(status).toBe(200);
+    const weights = data.results[0].forecast?.modelWeights.map((w) => w.weight) ?? [];
+    expect(weights.length).toBeGreaterThan(1);
+    expect(new Set(weights).size).toBeGreaterThan(1);
+  });
+
+  it("should use a saved location's own models and days", async () => {
+    const { status, data } = await postBatch(
+      {
+        cache: { backend: "memory" },
+        locations: {
+          saved: [
+            {
+              alias: "cabin",
+              resolved: {
+                name: "Bergen",
+                coordinates: { latitude: 60.39, longitude: 5.32 },
+                country: "Norway",
+                countryCode: "NO",
+                timezone: "Europe/Oslo",
+              },
+              models: ["gfs", "icon"],
+              days: 3,
+            },
+          ],
+        },
+      },
+      { locations: ["cabin", { lat: 59.91, lon: 10.75 }] }
+    );
+
+    expect(status).toBe(200);
+    const [cabin, other] = data.results;
+    expect(cabin.forecast?.modelWeights.map((w) => w.model).sort()).toEqual(["gfs", "icon"]);
+    expect(cabin.forecast?.daily).toHaveLength(3);
+    expect(other.forecast?.modelWeights.length).toBeGreaterThan(2);
+    expect(other.forecast?.daily).toHaveLength(5);
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * Batch Forecast API route for Weather Oracle.
+ * POST /api/forecast/batch
+ *
+ * Returns an aggregated forecast for each of several locations, fetched
+ * together with shared requests and a shared cache.
+ */
+
+import { NextRequest } from "next/server";
+import {
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
+  fetchForecastsForLocations,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
+  loadConfig,
+  aggregateForecasts,
+  calculateConfidence,
+  createCoordinates,
+  loadWeightingStrategy,
+  isGeocodingError,
+  MODEL_INFO,
+  type AggregatedForecast,
+  type GeocodingResult,
+  type Location,
+  type LocationForecastResult,
+  type ModelName,
+  type SavedLocationConfig,
+} from "@weather-oracle/core";
+import { successResponse, errors, handleCors, withCors } from "../../response";
+import { getCacheManager } from "../../cache-manager";
+
+/**
+ * Most locations accepted in one request
+ */
+const MAX_BATCH_LOCATIONS = 50;
+
+/**
+ * A location in the request body: a query (saved alias or place name) or coordinates
+ */
+type BatchLocationInput = string | { lat: number; lon: number };
+
+/**
+ * A resolved location, with its saved config if it is a saved alias
+ */
+interface ResolvedSite {
+  index: number;
+  location: Location;
+  saved?: SavedLocationConfig;
+}
+
+/**
+ * Forecast for one requested location, or the error that stopped it
+ */
+export interface BatchForecastResult {
+  query: string;
+  location?: GeocodingResult;
+  forecast?: {
+    validFrom: string;
+    validTo: string;
+    daily: AggregatedForecast["consensus"]["daily"];
+    modelWeights: AggregatedForecast["modelWeights"];
+  };
+  confidence?: {
+    level: string;
+    score: number;
+  };
+  failures?: Array<{ model: ModelName; error: string }>;
+  cached?: boolean;
+  error?: string;
+}
+
+/**
+ * Response data for batch forecast endpoint
+ */
+export interface BatchForecastResponseData {
+  results: BatchForecastResult[];
+}
+
+/**
+ * Check whether a body entry is a location query or a lat/lon pair
+ */
+function isLocationInput(value: unknown): value is BatchLocationInput {
+  if (typeof value === "string") {
+    return value.trim().length > 0;
+  }
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { lat, lon } = value as Record<string, unknown>;
+  return (
+    typeof lat === "number" &&
+    typeof lon === "number" &&
+    lat >= -90 &&
+    lat <= 90 &&
+    lon >= -180 &&
+    lon <= 180
+  );
+}
+
+/**
+ * POST /api/forecast/batch
+ *
+ * JSON body:
+ * - locations (required): Up to 50 entries, each a saved location alias or
+ *   location name to geocode, or an object with "lat" and "lon"
+ * - days (optional): Number of forecast days (1-7, default: a saved location's days, or 5)
+ * - models (optional): Models to fetch for every location (default: a saved
+ *   location's models, or the configured models)
+ *
+ * Locations that can't be resolved or fetched are reported in their result's
+ * "error" field; the rest of the batch still succeeds.
+ */
+export async function POST(request: NextRequest) {
+  const startTime = Date.now();
+
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return withCors(errors.badRequest("Request body must be JSON"));
+  }
+
+  const {
+    locations,
+    days: daysParam,
+    models: modelsParam,
+  } = typeof body === "object" && body !== null ? (body as Record<string, unknown>) : {};
+
+  // Validate locations
+  if (!Array.isArray(locations) || locations.length === 0) {
+    return withCors(errors.missingParameter("locations"));
+  }
+  if (locations.length > MAX_BATCH_LOCATIONS) {
+    return withCors(
+      errors.badRequest(`At most ${MAX_BATCH_LOCATIONS} locations can be requested at once`, {
+        provided: locations.length,
+      })
+    );
+  }
+  const invalid = locations.findIndex((entry) => !isLocationInput(entry));
+  if (invalid !== -1) {
+    return withCors(
+      errors.badRequest(
+        "Each location must be a non-empty string or an object with valid 'lat' and 'lon'",
+        { index: invalid }
+      )
+    );
+  }
+  const inputs = locations as BatchLocationInput[];
+
+  // Validate days
+  let days: number | undefined;
+  if (daysParam !== undefined) {
+    if (
+      typeof daysParam !== "number" ||
+      !Number.isInteger(daysParam) ||
+      daysParam < 1 ||
+      daysParam > 7
+    ) {
+      return withCors(
+        errors.badRequest("Days must be a number between 1 and 7", { provided: daysParam })
+      );
+    }
+    days = daysParam;
+  }
+
+  // Validate models
+  let models: ModelName[] | undefined;
+  if (modelsParam !== undefined) {
+    const validModels = Object.keys(MODEL_INFO) as ModelName[];
+    if (
+      !Array.isArray(modelsParam) ||
+      modelsParam.length === 0 ||
+      !modelsParam.every((m) => validModels.includes(m as ModelName))
+    ) {
+      return withCors(
+        errors.badRequest(`Models must be a list of: ${validModels.join(", ")}`, {
+          provided: modelsParam,
+        })
+      );
+    }
+    models = modelsParam as ModelName[];
+  }
+
+  try {
+    const config = await loadConfig();
+
+    // Resolve locations; one that can't be resolved doesn't fail the batch
+    const results: BatchForecastResult[] = inputs.map((input) => ({
+      query: typeof input === "string" ? input : `${input.lat},${input.lon}`,
+    }));
+    const resolved: ResolvedSite[] = [];
+    for (const [index, input] of inputs.entries()) {
+      if (typeof input !== "string") {
+        // Create a synthetic location from coordinates
+        resolved.push({
+          index,
+          location: {
+            query: results[index].query,
+            resolved: {
+              name: `${input.lat.toFixed(4)}, ${input.lon.toFixed(4)}`,
+              coordinates: createCoordinates(input.lat, input.lon),
+              country: "Unknown",
+              countryCode: "XX",
+              timezone: "UTC" as GeocodingResult["timezone"],
+            },
+          },
+        });
+        continue;
+      }
+
+      try {
+        const { location, saved } = await resolveLocation(
+          input,
+          config.locations,
+          getGeocodingOptionsFromConfig(config)
+        );
+        resolved.push({ index, location, saved });
+      } catch (error) {
+        if (!isGeocodingError(error)) {
+          throw error;
+        }
+        results[index].error = error.userMessage;
+      }
+    }
+
+    // Saved locations use their own models and days unless the request sets them
+    const groups = new Map<string, { models: ModelName[]; days: number; sites: ResolvedSite[] }>();
+    for (const site of resolved) {
+      const siteModels =
+        models ??
+        (site.saved?.models as ModelName[] | undefined) ??
+        (config.models.defaults as ModelName[]);
+      const siteDays = days ?? Math.min(site.saved?.days ?? 5, 7);
+      const key = `${siteDays}:${siteModels.join(",")}`;
+      const group = groups.get(key) ?? { models: siteModels, days: siteDays, sites: [] };
+      group.sites.push(site);
+      groups.set(key, group);
+    }
+
+    // Fetch the locations sharing models and days together
+    const fetched: Array<{ site: ResolvedSite } & LocationForecastResult> = [];
+    for (const group of groups.values()) {
+      const groupResults = await fetchForecastsForLocations(
+        group.sites.map((site) => site.location),
+        group.models,
+        {
+          ...getForecastOptionsFromConfig(config),
+          forecastDays: group.days,
+          registry: createProviderRegistry(config.providers),
+          cache: getCacheManager(config),
+          cacheTtlSeconds: 1800,
+        }
+      );
+      groupResults.forEach((result, i) => fetched.push({ site: group.sites[i], ...result }));
+    }
+
+    // Aggregate each location
+    const weighting = await loadWeightingStrategy(config.models);
+    const fetchedModels = new Set<ModelName>();
+    for (const { site, location, result, cached } of fetched) {
+      const index = site.index;
+      const failures = result.failures.map((failure) => ({
+        model: failure.model,
+        error: failure.error.message,
+      }));
+
+      if (result.forecasts.length === 0) {
+        results[index] = {
+          ...results[index],
+          location: location.resolved,
+          failures,
+          error: "Unable to fetch forecast data from any weather model",
+        };
+        continue;
+      }
+
+      const aggregated = aggregateForecasts(result.forecasts, {
+        weighting,
+        policy: config.aggregation,
+        elevation: location.resolved.elevation,
+      });
+      const confidence = calculateConfidence(aggregated, "overall", 0);
+      aggregated.models.forEach((model) => fetchedModels.add(model));
+
+      results[index] = {
+        query: results[index].query,
+        location: location.resolved,
+        forecast: {
+          validFrom: new Date(aggregated.validFrom).toISOString(),
+          validTo: new Date(aggregated.validTo).toISOString(),
+          daily: aggregated.consensus.daily,
+          modelWeights: aggregated.modelWeights,
+        },
+        confidence: { level: confidence.level, score: confidence.score },
+        failures,
+        cached,
+      };
+    }
+
+    const duration = Date.now() - startTime;
+
+    return withCors(
+      successResponse<BatchForecastResponseData>(
+        { results },
+        {
+          duration,
+          models: [...fetchedModels],
+          cached:
+            fetched.length > 0 && fetched.every((site) => site.cached) ? "fresh" : "revalidated",
+        }
+      )
+    );
+  } catch (error) {
+    console.error("Batch forecast API error:", error);
+    return withCors(errors.internalError());
+  }
+}
+
+/**
+ * OPTIONS /api/forecast/batch - CORS preflight
+ */
+export function OPTIONS() {
+  return handleCors();
+}
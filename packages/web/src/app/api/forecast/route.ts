@@ -1,25 +1,40 @@
 /**
  * Forecast API route for Weather Oracle.
- * GET /api/forecast?location=<query>&lat=<lat>&lon=<lon>&days=<number>
+ * GET /api/forecast?location=<query>&lat=<lat>&lon=<lon>&days=<number>&weighting=<strategy>&ensemble=true
  *
  * Returns aggregated weather forecast from multiple models.
  */
 
 import { NextRequest } from "next/server";
 import {
-  geocodeLocation,
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
   fetchAllModels,
+  fetchEnsembleForecasts,
+  getEnsembleOptionsFromConfig,
+  parseExceedanceThreshold,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
+  loadConfig,
   aggregateForecasts,
   generateNarrative,
+  evaluateAlertRules,
   calculateConfidence,
-  createCacheManager,
+  getForecastCacheTtl,
   createCoordinates,
+  loadWeightingStrategy,
   isGeocodingError,
   isApiError,
   type GeocodingResult,
+  type SavedLocationConfig,
+  type ModelName,
   type AggregatedForecast,
   type ConfidenceResult,
   type NarrativeSummary,
+  type WeatherAlert,
+  type WeightingStrategyName,
+  type EnsembleForecast,
+  type ExceedanceThreshold,
 } from "@weather-oracle/core";
 import {
   successResponse,
@@ -27,6 +42,8 @@ import {
   handleCors,
   withCors,
 } from "../response";
+import { createResponseCache, type ResponseCache } from "../response-cache";
+import { getCacheManager } from "../cache-manager";
 
 /**
  * Response data for forecast endpoint
@@ -40,6 +57,7 @@ export interface ForecastResponseData {
     daily: AggregatedForecast["consensus"]["daily"];
     hourly: AggregatedForecast["consensus"]["hourly"];
     modelWeights: AggregatedForecast["modelWeights"];
+    ensemble?: AggregatedForecast["ensemble"];
   };
   confidence: {
     overall: ConfidenceResult;
@@ -47,10 +65,25 @@ export interface ForecastResponseData {
     score: number;
   };
   narrative: NarrativeSummary;
+  alerts: WeatherAlert[];
 }
 
-// Create a singleton cache manager
-const cacheManager = createCacheManager({ enabled: true });
+// Singleton response cache for the server process, created in the configured
+// cache on the first request: concurrent identical requests share one fetch,
+// and expired entries are served while refreshing
+let responseCache: ResponseCache<ForecastResponseData> | undefined;
+
+/**
+ * Weighting strategies selectable via query parameter.
+ * "skill" is excluded because it needs a local skill scores file.
+ */
+const WEIGHTING_STRATEGIES: readonly WeightingStrategyName[] = [
+  "equal",
+  "resolution",
+  "region",
+  "leadTime",
+  "blended",
+];
 
 /**
  * Generate a cache key for forecast requests
@@ -58,22 +91,30 @@ const cacheManager = createCacheManager({ enabled: true });
 function getForecastCacheKey(
   lat: number,
   lon: number,
-  days: number
+  days: number,
+  weighting: WeightingStrategyName,
+  ensemble: string,
+  models?: readonly string[]
 ): string {
   // Round coordinates to ~1km precision for cache efficiency
   const roundedLat = Math.round(lat * 100) / 100;
   const roundedLon = Math.round(lon * 100) / 100;
-  return `forecast_${roundedLat}_${roundedLon}_${days}`;
+  const modelKey = models ? `_${[...models].sort().join("+")}` : "";
+  return `forecast_${roundedLat}_${roundedLon}_${days}_${weighting}_${ensemble}${modelKey}`;
 }
 
 /**
  * GET /api/forecast
  *
  * Query parameters:
- * - location (optional): Location name to geocode
+ * - location (optional): Saved location alias or location name to geocode
  * - lat (optional): Latitude (alternative to location)
  * - lon (optional): Longitude (alternative to location)
- * - days (optional): Number of forecast days (1-7, default 5)
+ * - days (optional): Number of forecast days (1-7, default 5 or the saved location's days)
+ * - weighting (optional): Model weighting strategy (default: the configured models.weighting)
+ * - ensemble (optional): "true" to add ensemble percentiles and exceedance probabilities
+ * - exceed (optional): Comma-separated exceedance thresholds, e.g. "precipitation>5,temperature<0"
+ *   (implies ensemble)
  *
  * Must provide either "location" OR both "lat" and "lon"
  */
@@ -86,6 +127,9 @@ export async function GET(request: NextRequest) {
   const latParam = searchParams.get("lat");
   const lonParam = searchParams.get("lon");
   const daysParam = searchParams.get("days");
+  const weightingParam = searchParams.get("weighting");
+  const ensembleParam = searchParams.get("ensemble");
+  const exceedParam = searchParams.get("exceed");
 
   // Validate location parameters
   const hasLocation = locationQuery && locationQuery.trim().length > 0;
@@ -99,8 +143,8 @@ export async function GET(request: NextRequest) {
     );
   }
 
-  // Parse and validate days
-  let days = 5;
+  // Parse and validate days (a saved location's own days apply when omitted)
+  let requestedDays: number | undefined;
   if (daysParam) {
     const parsed = parseInt(daysParam, 10);
     if (isNaN(parsed) || parsed < 1 || parsed > 7) {
@@ -110,12 +154,45 @@ export async function GET(request: NextRequest) {
         })
       );
     }
-    days = parsed;
+    requestedDays = parsed;
+  }
+
+  // Parse and validate weighting strategy
+  let requestedWeighting: WeightingStrategyName | undefined;
+  if (weightingParam) {
+    if (!WEIGHTING_STRATEGIES.includes(weightingParam as WeightingStrategyName)) {
+      return withCors(
+        errors.badRequest(
+          `Weighting must be one of: ${WEIGHTING_STRATEGIES.join(", ")}`,
+          { provided: weightingParam }
+        )
+      );
+    }
+    requestedWeighting = weightingParam as WeightingStrategyName;
+  }
+
+  // Parse and validate ensemble thresholds
+  let exceedanceThresholds: ExceedanceThreshold[] | undefined;
+  if (exceedParam) {
+    try {
+      exceedanceThresholds = exceedParam.split(",").map((spec) => parseExceedanceThreshold(spec));
+    } catch {
+      return withCors(
+        errors.badRequest(
+          'Exceed must be thresholds like "precipitation>5" (metrics: temperature, precipitation, windSpeed)',
+          { provided: exceedParam }
+        )
+      );
+    }
   }
+  const includeEnsemble = ensembleParam === "true" || exceedanceThresholds !== undefined;
 
   try {
+    const config = await loadConfig();
+
     // Resolve location
     let resolvedLocation: GeocodingResult;
+    let saved: SavedLocationConfig | undefined;
 
     if (hasCoordinates) {
       // Parse coordinates
@@ -147,42 +224,116 @@ export async function GET(request: NextRequest) {
         timezone: "UTC" as GeocodingResult["timezone"],
       };
     } else {
-      // Geocode the location query
-      resolvedLocation = await geocodeLocation(locationQuery!.trim());
+      // Saved aliases resolve from config; anything else is geocoded
+      const result = await resolveLocation(
+        locationQuery!,
+        config.locations,
+        getGeocodingOptionsFromConfig(config)
+      );
+      resolvedLocation = result.location.resolved;
+      saved = result.saved;
     }
 
-    // Check cache
+    const days = requestedDays ?? Math.min(saved?.days ?? 5, 7);
+    const weighting = requestedWeighting ?? config.models.weighting;
+    const savedModels = saved?.models as ModelName[] | undefined;
+
     const cacheKey = getForecastCacheKey(
       resolvedLocation.coordinates.latitude,
       resolvedLocation.coordinates.longitude,
-      days
+      days,
+      weighting,
+      includeEnsemble ? `ens${exceedParam ? `_${exceedParam}` : ""}` : "det",
+      savedModels
     );
 
-    const cached = await cacheManager.get<ForecastResponseData>(cacheKey);
-    if (cached) {
-      const duration = Date.now() - startTime;
-      return withCors(
-        successResponse<ForecastResponseData>(cached, {
-          duration,
-          cached: true,
-          models: cached.forecast.modelWeights.map((w) => w.model),
-        })
-      );
-    }
-
     // Create location object for fetching
     const location = {
       query: locationQuery ?? `${resolvedLocation.coordinates.latitude},${resolvedLocation.coordinates.longitude}`,
       resolved: resolvedLocation,
     };
 
-    // Fetch forecasts from all models
-    const modelResult = await fetchAllModels(location, undefined, {
-      forecastDays: days,
+    responseCache ??= createResponseCache<ForecastResponseData>({ cache: getCacheManager(config) });
+    const result = await responseCache.get(cacheKey, async () => {
+      // Fetch forecasts from all (or the saved location's) models using configured
+      // endpoints and retry policy
+      const modelResult = await fetchAllModels(location, savedModels, {
+        ...getForecastOptionsFromConfig(config),
+        forecastDays: days,
+        registry: createProviderRegistry(config.providers),
+      });
+
+      // Nothing to cache if every model failed
+      if (modelResult.forecasts.length === 0) {
+        return undefined;
+      }
+
+      // Fetch ensemble members when uncertainty bands are requested
+      let ensembles: EnsembleForecast[] = [];
+      if (includeEnsemble) {
+        const ensembleResult = await fetchEnsembleForecasts(location, undefined, {
+          ...getEnsembleOptionsFromConfig(config),
+          forecastDays: days,
+        });
+        ensembles = ensembleResult.forecasts;
+      }
+
+      // Aggregate forecasts
+      const aggregated = aggregateForecasts(modelResult.forecasts, {
+        weighting: await loadWeightingStrategy({ ...config.models, weighting }),
+        ensembles,
+        exceedanceThresholds,
+        policy: config.aggregation,
+        elevation: resolvedLocation.elevation,
+      });
+
+      // Calculate confidence
+      const overallConfidence = calculateConfidence(aggregated, "overall", 0);
+
+      // Evaluate configured alert rules
+      const alerts = config.alerts.enabled
+        ? evaluateAlertRules(aggregated, config.alerts.rules, { location })
+        : [];
+
+      // Generate narrative
+      const narrative = generateNarrative(aggregated, [overallConfidence], alerts, {
+        timezone: location.resolved.timezone,
+      });
+
+      // Build response data
+      const responseData: ForecastResponseData = {
+        location: resolvedLocation,
+        forecast: {
+          coordinates: aggregated.coordinates,
+          validFrom: aggregated.validFrom.toISOString(),
+          validTo: aggregated.validTo.toISOString(),
+          daily: aggregated.consensus.daily,
+          hourly: aggregated.consensus.hourly,
+          modelWeights: aggregated.modelWeights,
+          ensemble: aggregated.ensemble,
+        },
+        confidence: {
+          overall: overallConfidence,
+          level: overallConfidence.level,
+          score: overallConfidence.score,
+        },
+        narrative,
+        alerts,
+      };
+
+      // Fresh for up to 30 minutes, or until a newer model run is due
+      const ttl = Math.min(1800, getForecastCacheTtl(modelResult.forecasts.map((f) => f.model)));
+
+      return {
+        data: responseData,
+        models: [...aggregated.models],
+        fetchedAt: modelResult.fetchedAt.toISOString(),
+        ttlSeconds: ttl,
+      };
     });
 
     // Check if we got enough data
-    if (modelResult.forecasts.length === 0) {
+    if (!result) {
       return withCors(
         errors.serviceUnavailable(
           "Unable to fetch forecast data from any weather model"
@@ -190,46 +341,14 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Aggregate forecasts
-    const aggregated = aggregateForecasts(modelResult.forecasts);
-
-    // Calculate confidence
-    const overallConfidence = calculateConfidence(aggregated, "overall", 0);
-
-    // Generate narrative
-    const narrative = generateNarrative(aggregated, [overallConfidence]);
-
-    // Build response data
-    const responseData: ForecastResponseData = {
-      location: resolvedLocation,
-      forecast: {
-        coordinates: aggregated.coordinates,
-        validFrom: aggregated.validFrom.toISOString(),
-        validTo: aggregated.validTo.toISOString(),
-        daily: aggregated.consensus.daily,
-        hourly: aggregated.consensus.hourly,
-        modelWeights: aggregated.modelWeights,
-      },
-      confidence: {
-        overall: overallConfidence,
-        level: overallConfidence.level,
-        score: overallConfidence.score,
-      },
-      narrative,
-    };
-
-    // Cache the response (TTL: 30 minutes)
-    await cacheManager.set(cacheKey, responseData, 1800);
-
     const duration = Date.now() - startTime;
-    const models = [...aggregated.models];
 
     return withCors(
-      successResponse<ForecastResponseData>(responseData, {
-        fetchedAt: modelResult.fetchedAt,
+      successResponse<ForecastResponseData>(result.data, {
+        fetchedAt: result.fetchedAt,
         duration,
-        models,
-        cached: false,
+        models: result.models,
+        cached: result.status,
       })
     );
   } catch (error) {
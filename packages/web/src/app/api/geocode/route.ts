@@ -9,6 +9,8 @@ import { NextRequest } from "next/server";
 import {
   searchLocations,
   geocodeLocation,
+  getGeocodingOptionsFromConfig,
+  loadConfig,
   isGeocodingError,
   type GeocodingResult,
 } from "@weather-oracle/core";
@@ -67,14 +69,15 @@ export async function GET(request: NextRequest) {
 
   try {
     let results: GeocodingResult[];
+    const geocodingOptions = getGeocodingOptionsFromConfig(await loadConfig());
 
     if (returnSingle) {
       // Return only the best match
-      const result = await geocodeLocation(query.trim(), { count: 1 });
+      const result = await geocodeLocation(query.trim(), { ...geocodingOptions, count: 1 });
       results = [result];
     } else {
       // Return multiple results for autocomplete/selection
-      results = await searchLocations(query.trim(), { count });
+      results = await searchLocations(query.trim(), { ...geocodingOptions, count });
     }
 
     const duration = Date.now() - startTime;
@@ -0,0 +1,144 @@
+/**
+ * Tests for the single-flight, stale-while-revalidate response cache.
+ */
+
+import { describe, it, expect, spyOn } from "bun:test";
+import { createCacheManager, type ModelName } from "@weather-oracle/core";
+import { createResponseCache, type LoadedResponse, type ResponseLoader } from "./response-cache";
+
+/**
+ * Wait for entries with a 0 second TTL to go stale
+ */
+function tick(ms: number = 10): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Loader that counts its calls
+ */
+interface CountingLoader {
+  calls: number;
+  load: ResponseLoader<number>;
+}
+
+/**
+ * Create a loader that counts its calls and returns the call number
+ */
+function countingLoader(ttlSeconds: number = 60): CountingLoader {
+  const loader: CountingLoader = {
+    calls: 0,
+    load: async (): Promise<LoadedResponse<number>> => {
+      loader.calls++;
+      const data = loader.calls;
+      await tick(5);
+      return {
+        data,
+        models: ["gfs"] as ModelName[],
+        fetchedAt: new Date().toISOString(),
+        ttlSeconds,
+      };
+    },
+  };
+  return loader;
+}
+
+describe("ResponseCache", () => {
+  it("should load on a miss and serve fresh hits from the cache", async () => {
+    const cache = createResponseCache<number>();
+    const loader = countingLoader();
+
+    const first = await cache.get("key", loader.load);
+    const second = await cache.get("key", loader.load);
+
+    expect(first?.status).toBe("revalidated");
+    expect(second?.status).toBe("fresh");
+    expect(second?.data).toBe(1);
+    expect(second?.models).toEqual(["gfs"]);
+    expect(loader.calls).toBe(1);
+  });
+
+  it("should share one load between concurrent requests for a key", async () => {
+    const cache = createResponseCache<number>();
+    const loader = countingLoader();
+
+    const results = await Promise.all([
+      cache.get("key", loader.load),
+      cache.get("key", loader.load),
+      cache.get("key", loader.load),
+    ]);
+
+    expect(loader.calls).toBe(1);
+    expect(results.map((r) => r?.status)).toEqual(["revalidated", "revalidated", "revalidated"]);
+    expect(await cache.get("other", loader.load)).toMatchObject({ data: 2 });
+  });
+
+  it("should serve stale entries while refreshing in the background", async () => {
+    const cache = createResponseCache<number>();
+    const loader = countingLoader(0);
+
+    await cache.get("key", loader.load);
+    await tick();
+
+    const stale = await cache.get("key", loader.load);
+    expect(stale?.status).toBe("stale");
+    expect(stale?.data).toBe(1);
+    expect(loader.calls).toBe(2);
+
+    await tick(20);
+    expect(await cache.get("key", loader.load)).toMatchObject({ status: "stale", data: 2 });
+  });
+
+  it("should drop entries once they are past the stale window", async () => {
+    const cache = createResponseCache<number>({ staleSeconds: 0 });
+    const loader = countingLoader(0);
+
+    await cache.get("key", loader.load);
+    await tick();
+
+    expect(await cache.get("key", loader.load)).toMatchObject({
+      status: "revalidated",
+      data: 2,
+    });
+  });
+
+  it("should keep the stale entry when a background refresh fails", async () => {
+    const cache = createResponseCache<number>();
+    const loader = countingLoader(0);
+    await cache.get("key", loader.load);
+    await tick();
+
+    const error = spyOn(console, "error").mockImplementation(() => {});
+    try {
+      const failing = (): Promise<never> => Promise.reject(new Error("upstream down"));
+      expect(await cache.get("key", failing)).toMatchObject({ status: "stale", data: 1 });
+      await tick();
+      expect(await cache.get("key", failing)).toMatchObject({ status: "stale", data: 1 });
+      await tick();
+      expect(error).toHaveBeenCalledTimes(2);
+    } finally {
+      error.mockRestore();
+    }
+  });
+
+  it("should not cache a loader returning nothing", async () => {
+    const store = createCacheManager({ backend: "memory" });
+    const cache = createResponseCache<number>({ cache: store });
+
+    expect(await cache.get("key", () => Promise.resolve(undefined))).toBeUndefined();
+    expect((await store.stats()).size).toBe(0);
+  });
+
+  it("should retry after a failed load", async () => {
+    const cache = createResponseCache<number>();
+    const loader = countingLoader();
+
+    const failing = (): Promise<never> => Promise.reject(new Error("timeout"));
+    const error = await cache.get("key", failing).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(Error);
+    expect((error as Error).message).toBe("timeout");
+    expect(await cache.get("key", loader.load)).toMatchObject({
+      status: "revalidated",
+      data: 1,
+    });
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Response cache for Weather Oracle web routes.
+ * Coalesces concurrent requests for the same normalised request into one
+ * fetch, and serves expired entries while refreshing them in the background.
+ */
+
+import { createCacheManager, type CacheManager, type ModelName } from "@weather-oracle/core";
+
+/**
+ * How a response was served:
+ * - fresh: from the cache, within its TTL
+ * - stale: from an expired cache entry while a background refresh runs
+ * - revalidated: fetched for this request (or a concurrent identical one)
+ */
+export type CacheStatus = "fresh" | "stale" | "revalidated";
+
+/**
+ * Default time an expired entry may still be served while it refreshes (1 hour)
+ */
+export const DEFAULT_STALE_SECONDS = 3600;
+
+/**
+ * A route response as cached
+ */
+export interface CachedResponse<T> {
+  data: T;
+  models: ModelName[];
+  fetchedAt: string;
+}
+
+/**
+ * A freshly loaded response and how long it stays fresh
+ */
+export interface LoadedResponse<T> extends CachedResponse<T> {
+  ttlSeconds: number;
+}
+
+/**
+ * A response and how it was served
+ */
+export interface ResponseCacheResult<T> extends CachedResponse<T> {
+  status: CacheStatus;
+}
+
+/**
+ * Loads a response from the models. Returns undefined when there is nothing
+ * worth caching (e.g. every model failed).
+ */
+export type ResponseLoader<T> = () => Promise<LoadedResponse<T> | undefined>;
+
+/**
+ * Options for ResponseCache
+ */
+export interface ResponseCacheOptions {
+  /**
+   * Cache for responses (default: an in-memory LRU)
+   */
+  cache?: CacheManager;
+
+  /**
+   * How long after expiry an entry may still be served while it refreshes.
+   * Default: 3600
+   */
+  staleSeconds?: number;
+}
+
+/**
+ * Cache entry: the response and when it stops being fresh
+ */
+interface StoredResponse<T> extends CachedResponse<T> {
+  freshUntil: number;
+}
+
+/**
+ * Single-flight, stale-while-revalidate response cache
+ */
+export class ResponseCache<T> {
+  private readonly cache: CacheManager;
+  private readonly staleSeconds: number;
+  private readonly inFlight = new Map<string, Promise<LoadedResponse<T> | undefined>>();
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.cache = options.cache ?? createCacheManager({ backend: "memory" });
+    this.staleSeconds = options.staleSeconds ?? DEFAULT_STALE_SECONDS;
+  }
+
+  /**
+   * Get the response for a request key, loading it when it isn't cached.
+   * Concurrent calls for the same key share one load; an expired entry is
+   * returned as "stale" and refreshed in the background.
+   */
+  async get(key: string, load: ResponseLoader<T>): Promise<ResponseCacheResult<T> | undefined> {
+    const stored = await this.cache.get<StoredResponse<T>>(key);
+
+    if (stored && stored.freshUntil > Date.now()) {
+      return toResult(stored, "fresh");
+    }
+
+    if (stored) {
+      // Failures keep the stale entry; the next request tries again
+      this.load(key, load).catch((error: unknown) => {
+        console.error(`Background refresh failed for ${key}:`, error);
+      });
+      return toResult(stored, "stale");
+    }
+
+    const loaded = await this.load(key, load);
+    return loaded ? toResult(loaded, "revalidated") : undefined;
+  }
+
+  /**
+   * Load a response, sharing an in-flight load for the same key
+   */
+  private load(key: string, load: ResponseLoader<T>): Promise<LoadedResponse<T> | undefined> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = this.loadAndStore(key, load);
+    this.inFlight.set(key, request);
+    const done = (): void => {
+      this.inFlight.delete(key);
+    };
+    request.then(done, done);
+    return request;
+  }
+
+  /**
+   * Load a response and store it, fresh for its TTL and then stale for
+   * staleSeconds
+   */
+  private async loadAndStore(
+    key: string,
+    load: ResponseLoader<T>
+  ): Promise<LoadedResponse<T> | undefined> {
+    const loaded = await load();
+    if (loaded) {
+      const stored: StoredResponse<T> = {
+        ...toResult(loaded, "revalidated"),
+        freshUntil: Date.now() + loaded.ttlSeconds * 1000,
+      };
+      await this.cache.set(key, stored, loaded.ttlSeconds + this.staleSeconds);
+    }
+    return loaded;
+  }
+}
+
+/**
+ * Pick the cached response fields and attach how it was served
+ */
+function toResult<T>(response: CachedResponse<T>, status: CacheStatus): ResponseCacheResult<T> {
+  return {
+    data: response.data,
+    models: response.models,
+    fetchedAt: response.fetchedAt,
+    status,
+  };
+}
+
+/**
+ * Create a response cache
+ */
+export function createResponseCache<T>(options?: ResponseCacheOptions): ResponseCache<T> {
+  return new ResponseCache<T>(options);
+}
@@ -5,6 +5,7 @@
 
 import { NextResponse } from "next/server";
 import type { ModelName } from "@weather-oracle/core";
+import type { CacheStatus } from "./response-cache";
 
 /**
  * Standard API success response format
@@ -15,7 +16,7 @@ export interface ApiSuccessResponse<T> {
   meta: {
     fetchedAt: string;
     models?: ModelName[];
-    cached?: boolean;
+    cached?: CacheStatus;
     duration?: number;
   };
 }
@@ -116,7 +117,7 @@ export const errors = {
  */
 export const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Methods": "GET, OPTIONS",
+  "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
   "Access-Control-Allow-Headers": "Content-Type, Authorization",
 };
 
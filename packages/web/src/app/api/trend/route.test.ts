@@ -0,0 +1,46 @@
+/**
+ * Tests for the forecast trend route.
+ */
+
+import { describe, it, expect, beforeAll, afterAll, afterEach, spyOn } from "bun:test";
+import { NextRequest } from "next/server";
+import * as core from "@weather-oracle/core";
+import { appConfigSchema, FileRunHistoryStore, RunHistoryError } from "@weather-oracle/core";
+import { setupMswServer, resetMswServer, teardownMswServer } from "../../../__tests__/mocks/server";
+import { GET } from "./route";
+
+beforeAll(() => {
+  setupMswServer();
+});
+
+afterAll(() => {
+  teardownMswServer();
+});
+
+afterEach(() => {
+  resetMswServer();
+});
+
+describe("GET /api/trend", () => {
+  it("should still return the trend when the run history cannot be saved", async () => {
+    const loadConfig = spyOn(core, "loadConfig").mockResolvedValue(
+      appConfigSchema.parse({
+        cache: { backend: "memory" },
+        runs: { directory: "/nonexistent/weather-oracle-runs" },
+      })
+    );
+    const saveRuns = spyOn(FileRunHistoryStore.prototype, "saveRuns").mockRejectedValue(
+      RunHistoryError.storeError("/nonexistent/weather-oracle-runs", "write", new Error("EACCES"))
+    );
+
+    try {
+      const response = await GET(new NextRequest("http://localhost/api/trend?lat=53.35&lon=-6.26"));
+
+      expect(response.status).toBe(200);
+      expect(saveRuns).toHaveBeenCalled();
+    } finally {
+      loadConfig.mockRestore();
+      saveRuns.mockRestore();
+    }
+  });
+});
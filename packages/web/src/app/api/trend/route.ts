@@ -0,0 +1,296 @@
+/**
+ * Forecast Trend API route for Weather Oracle.
+ * GET /api/trend?location=<query>&lat=<lat>&lon=<lon>&runs=<number>&metric=<name>&all=true
+ *
+ * Returns each model's latest run and how the forecast has moved across recent runs.
+ */
+
+import { NextRequest } from "next/server";
+import {
+  resolveLocation,
+  getGeocodingOptionsFromConfig,
+  fetchAllModels,
+  getForecastOptionsFromConfig,
+  createProviderRegistry,
+  loadConfig,
+  getForecastCacheTtl,
+  createCoordinates,
+  createRunHistoryStore,
+  createTrendReport,
+  formatForecastTrend,
+  isSignificantTrend,
+  toModelRun,
+  isGeocodingError,
+  isApiError,
+  ErrorCode,
+  TREND_METRICS,
+  DEFAULT_TREND_RUNS,
+  type GeocodingResult,
+  type SavedLocationConfig,
+  type ModelName,
+  type ModelRun,
+  type ForecastTrend,
+  type RunStatus,
+  type TrendMetric,
+} from "@weather-oracle/core";
+import {
+  successResponse,
+  errors,
+  handleCors,
+  withCors,
+} from "../response";
+import { getCacheManager } from "../cache-manager";
+
+/**
+ * Response data for trend endpoint
+ */
+export interface TrendResponseData {
+  location: GeocodingResult;
+  latestRuns: RunStatus[];
+  trends: Array<ForecastTrend & { summary: string }>;
+}
+
+/**
+ * Generate a cache key for trend requests
+ */
+function getTrendCacheKey(
+  lat: number,
+  lon: number,
+  runs: number,
+  metric: TrendMetric | undefined,
+  all: boolean
+): string {
+  const roundedLat = Math.round(lat * 100) / 100;
+  const roundedLon = Math.round(lon * 100) / 100;
+  return `trend_${roundedLat}_${roundedLon}_${runs}_${metric ?? "all"}${all ? "_steady" : ""}`;
+}
+
+/**
+ * GET /api/trend
+ *
+ * Query parameters:
+ * - location (optional): Saved location alias or location name to geocode
+ * - lat (optional): Latitude (alternative to location)
+ * - lon (optional): Longitude (alternative to location)
+ * - runs (optional): Recent runs per model to compare (2-20, default 4)
+ * - metric (optional): Only one metric (temperatureMax, temperatureMin, precipitation, windSpeed)
+ * - all (optional): "true" to include metrics that have held steady
+ *
+ * Must provide either "location" OR both "lat" and "lon"
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now();
+
+  // Get query parameters
+  const searchParams = request.nextUrl.searchParams;
+  const locationQuery = searchParams.get("location");
+  const latParam = searchParams.get("lat");
+  const lonParam = searchParams.get("lon");
+  const runsParam = searchParams.get("runs");
+  const metricParam = searchParams.get("metric");
+  const includeSteady = searchParams.get("all") === "true";
+
+  // Validate location parameters
+  const hasLocation = locationQuery && locationQuery.trim().length > 0;
+  const hasCoordinates = latParam && lonParam;
+
+  if (!hasLocation && !hasCoordinates) {
+    return withCors(
+      errors.badRequest(
+        "Must provide either 'location' parameter or both 'lat' and 'lon' parameters"
+      )
+    );
+  }
+
+  // Parse and validate runs
+  let runs = DEFAULT_TREND_RUNS;
+  if (runsParam) {
+    const parsed = parseInt(runsParam, 10);
+    if (isNaN(parsed) || parsed < 2 || parsed > 20) {
+      return withCors(
+        errors.badRequest("Runs must be a number between 2 and 20", {
+          provided: runsParam,
+        })
+      );
+    }
+    runs = parsed;
+  }
+
+  // Parse and validate metric
+  let metric: TrendMetric | undefined;
+  if (metricParam) {
+    if (!TREND_METRICS.includes(metricParam as TrendMetric)) {
+      return withCors(
+        errors.badRequest(`Metric must be one of: ${TREND_METRICS.join(", ")}`, {
+          provided: metricParam,
+        })
+      );
+    }
+    metric = metricParam as TrendMetric;
+  }
+
+  try {
+    const config = await loadConfig();
+
+    // Resolve location
+    let resolvedLocation: GeocodingResult;
+    let saved: SavedLocationConfig | undefined;
+
+    if (hasCoordinates) {
+      const lat = parseFloat(latParam);
+      const lon = parseFloat(lonParam);
+
+      if (isNaN(lat) || lat < -90 || lat > 90) {
+        return withCors(
+          errors.badRequest("Latitude must be a number between -90 and 90", {
+            provided: latParam,
+          })
+        );
+      }
+
+      if (isNaN(lon) || lon < -180 || lon > 180) {
+        return withCors(
+          errors.badRequest("Longitude must be a number between -180 and 180", {
+            provided: lonParam,
+          })
+        );
+      }
+
+      resolvedLocation = {
+        name: `${lat.toFixed(4)}, ${lon.toFixed(4)}`,
+        coordinates: createCoordinates(lat, lon),
+        country: "Unknown",
+        countryCode: "XX",
+        timezone: "UTC" as GeocodingResult["timezone"],
+      };
+    } else {
+      // Saved aliases resolve from config; anything else is geocoded
+      const result = await resolveLocation(
+        locationQuery ?? "",
+        config.locations,
+        getGeocodingOptionsFromConfig(config)
+      );
+      resolvedLocation = result.location.resolved;
+      saved = result.saved;
+    }
+
+    // Check cache
+    const cacheKey = getTrendCacheKey(
+      resolvedLocation.coordinates.latitude,
+      resolvedLocation.coordinates.longitude,
+      runs,
+      metric,
+      includeSteady
+    );
+
+    const cacheManager = getCacheManager(config);
+    const cached = await cacheManager.get<TrendResponseData>(cacheKey);
+    if (cached) {
+      const duration = Date.now() - startTime;
+      return withCors(
+        successResponse<TrendResponseData>(cached, {
+          duration,
+          cached: "fresh",
+          models: cached.latestRuns.map((r) => r.model),
+        })
+      );
+    }
+
+    const location = {
+      query: locationQuery ?? `${resolvedLocation.coordinates.latitude},${resolvedLocation.coordinates.longitude}`,
+      resolved: resolvedLocation,
+    };
+
+    // Fetch the latest runs so they are part of the history
+    const modelResult = await fetchAllModels(location, saved?.models as ModelName[] | undefined, {
+      ...getForecastOptionsFromConfig(config),
+      forecastDays: saved?.days ?? 7,
+      registry: createProviderRegistry(config.providers),
+    });
+
+    const store = createRunHistoryStore({
+      directory: config.runs.directory,
+      retentionDays: config.runs.retentionDays,
+    });
+    if (config.runs.enabled) {
+      try {
+        await store.saveRuns(
+          modelResult.forecasts.map(toModelRun).filter((run): run is ModelRun => run !== undefined)
+        );
+      } catch {
+        // Run history is best-effort
+      }
+    }
+
+    const report = createTrendReport(
+      resolvedLocation.coordinates,
+      await store.getRuns(resolvedLocation.coordinates),
+      {
+        runs,
+        fromDate: new Date().toISOString().slice(0, 10),
+        ...(metric !== undefined && { metrics: [metric] }),
+      }
+    );
+
+    const trends = includeSteady ? report.trends : report.trends.filter(isSignificantTrend);
+    const responseData: TrendResponseData = {
+      location: resolvedLocation,
+      latestRuns: [...report.latestRuns],
+      trends: trends.map((trend) => ({ ...trend, summary: formatForecastTrend(trend) })),
+    };
+
+    // Cache the response for up to 30 minutes, or until a newer model run is due
+    const ttl = Math.min(1800, getForecastCacheTtl(modelResult.forecasts.map((f) => f.model)));
+    await cacheManager.set(cacheKey, responseData, ttl);
+
+    const duration = Date.now() - startTime;
+
+    return withCors(
+      successResponse<TrendResponseData>(responseData, {
+        fetchedAt: modelResult.fetchedAt,
+        duration,
+        models: report.latestRuns.map((r) => r.model),
+        cached: "revalidated",
+      })
+    );
+  } catch (error) {
+    if (isGeocodingError(error)) {
+      switch (error.code) {
+        case ErrorCode.GEOCODING_NOT_FOUND:
+          return withCors(
+            errors.notFound(`Location not found: ${locationQuery}`)
+          );
+        case ErrorCode.GEOCODING_INVALID_INPUT:
+          return withCors(errors.badRequest(error.userMessage));
+        default:
+          return withCors(
+            errors.serviceUnavailable("Location service temporarily unavailable")
+          );
+      }
+    }
+
+    if (isApiError(error)) {
+      switch (error.code) {
+        case ErrorCode.API_RATE_LIMIT:
+          return withCors(errors.rateLimited());
+        case ErrorCode.API_TIMEOUT:
+        case ErrorCode.API_UNAVAILABLE:
+          return withCors(
+            errors.serviceUnavailable("Weather service temporarily unavailable")
+          );
+        default:
+          return withCors(errors.internalError(error.userMessage));
+      }
+    }
+
+    console.error("Trend API error:", error);
+    return withCors(errors.internalError());
+  }
+}
+
+/**
+ * OPTIONS /api/trend - CORS preflight
+ */
+export function OPTIONS() {
+  return handleCors();
+}
@@ -60,13 +60,14 @@ export default function HomePage() {
     staleTime: 5 * 60 * 1000,
   });
 
-  // Fetch comparison data
+  // Fetch comparison data (with ensemble bands for the chart)
+  const includeEnsemble = activeTab === "chart";
   const {
     data: compareData,
     isLoading: compareLoading,
     error: compareError,
   } = useQuery({
-    queryKey: ["compare", selectedLocation?.coordinates],
+    queryKey: ["compare", selectedLocation?.coordinates, includeEnsemble],
     queryFn: async (): Promise<CompareResponseData | null> => {
       if (!selectedLocation) return null;
 
@@ -75,6 +76,9 @@ export default function HomePage() {
         lon: selectedLocation.coordinates.longitude.toString(),
         days: "7",
       });
+      if (includeEnsemble) {
+        params.set("ensemble", "true");
+      }
 
       const response = await fetch(`/api/compare?${params}`);
       const json: ApiResponse<CompareResponseData> = await response.json();
@@ -18,19 +18,24 @@ const modelColors: Record<ModelName, string> = {
   ukmo: "#ea580c", // orange
   jma: "#0891b2", // cyan
   gem: "#be123c", // rose
+  nws: "#4f46e5", // indigo
+  metno: "#0d9488", // teal
+  local: "#64748b", // slate
 };
 
-function formatTemp(celsius: number): string {
+function formatTemp(celsius: number | undefined): string {
+  if (celsius === undefined) return "-";
   return `${Math.round(celsius)}°`;
 }
 
-function formatPrecip(mm: number): string {
-  if (mm < 0.1) return "-";
+function formatPrecip(mm: number | undefined): string {
+  if (mm === undefined || mm < 0.1) return "-";
   if (mm < 1) return "<1mm";
   return `${Math.round(mm)}mm`;
 }
 
-function formatWind(ms: number): string {
+function formatWind(ms: number | undefined): string {
+  if (ms === undefined) return "-";
   // Convert m/s to km/h
   const kmh = ms * 3.6;
   return `${Math.round(kmh)}`;
@@ -176,7 +181,7 @@ export function ModelComparison({ data, selectedDate }: ModelComparisonProps) {
 
                   {/* Weather conditions */}
                   <td className="px-6 py-4 text-center">
-                    {forecast ? (
+                    {forecast?.weatherCode !== undefined ? (
                       <div className="flex justify-center">
                         <WeatherIcon code={forecast.weatherCode} size="md" />
                       </div>
@@ -209,9 +214,9 @@ export function ModelComparison({ data, selectedDate }: ModelComparisonProps) {
                         <span className="text-blue-600 dark:text-blue-400">
                           {formatPrecip(forecast.precipitationTotal)}
                         </span>
-                        {forecast.precipitationProbability > 0 && (
+                        {(forecast.precipitationProbability ?? 0) > 0 && (
                           <span className="text-xs text-slate-500 ml-1">
-                            ({Math.round(forecast.precipitationProbability)}%)
+                            ({Math.round(forecast.precipitationProbability ?? 0)}%)
                           </span>
                         )}
                       </div>
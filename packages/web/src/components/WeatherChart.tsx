@@ -2,7 +2,6 @@
 
 import { useMemo } from "react";
 import {
-  LineChart,
   Line,
   XAxis,
   YAxis,
@@ -29,6 +28,9 @@ const modelColors: Record<ModelName, string> = {
   ukmo: "#ea580c",
   jma: "#0891b2",
   gem: "#be123c",
+  nws: "#4f46e5",
+  metno: "#0d9488",
+  local: "#64748b",
 };
 
 const modelNames: Record<ModelName, string> = {
@@ -39,16 +41,48 @@ const modelNames: Record<ModelName, string> = {
   ukmo: "UK Met",
   jma: "JMA",
   gem: "GEM",
+  nws: "NWS",
+  metno: "MET Norway",
+  local: "Local",
 };
 
 type ChartDataPoint = {
   date: string;
   displayDate: string;
-  [key: string]: string | number | undefined;
+  [key: string]: string | number | [number, number] | undefined;
 };
 
+const ENSEMBLE_COLOR = "#64748b";
+
+/**
+ * Round a value for display in the chart's units
+ */
+function toChartValue(value: number, metric: "temperature" | "precipitation" | "wind"): number {
+  switch (metric) {
+    case "temperature":
+      return Math.round(value);
+    case "precipitation":
+      return Math.round(value * 10) / 10;
+    case "wind":
+      // Convert m/s to km/h
+      return Math.round(value * 3.6);
+  }
+}
+
+/**
+ * Label a series key for the tooltip and legend
+ */
+function seriesLabel(key: string): string {
+  if (key === "ensemble_band") return "Ensemble P10-P90";
+  if (key === "ensemble_p50") return "Ensemble median";
+  const [model, type] = key.split("_");
+  const name = modelNames[model as ModelName];
+  if (type === undefined) return name;
+  return `${name} ${type === "high" ? "High" : "Low"}`;
+}
+
 export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps) {
-  const { models } = data;
+  const { models, ensemble } = data;
 
   // Prepare chart data
   const chartData = useMemo(() => {
@@ -81,25 +115,52 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
       successfulModels.forEach((model) => {
         const dayForecast = model.forecast.daily.find((d) => d.date === date);
         if (dayForecast) {
+          // Metrics the model does not forecast are left as gaps
           switch (metric) {
             case "temperature":
-              point[`${model.model}_high`] = Math.round(dayForecast.temperatureMax);
-              point[`${model.model}_low`] = Math.round(dayForecast.temperatureMin);
+              if (dayForecast.temperatureMax !== undefined) {
+                point[`${model.model}_high`] = Math.round(dayForecast.temperatureMax);
+              }
+              if (dayForecast.temperatureMin !== undefined) {
+                point[`${model.model}_low`] = Math.round(dayForecast.temperatureMin);
+              }
               break;
             case "precipitation":
-              point[model.model] = Math.round(dayForecast.precipitationTotal * 10) / 10;
+              if (dayForecast.precipitationTotal !== undefined) {
+                point[model.model] = Math.round(dayForecast.precipitationTotal * 10) / 10;
+              }
               break;
             case "wind":
               // Convert m/s to km/h
-              point[model.model] = Math.round(dayForecast.windMaxSpeed * 3.6);
+              if (dayForecast.windMaxSpeed !== undefined) {
+                point[model.model] = Math.round(dayForecast.windMaxSpeed * 3.6);
+              }
               break;
           }
         }
       });
 
+      // Ensemble percentile band (daily high for temperature)
+      const ensembleDay = ensemble?.daily.find((d) => d.date === date.split("T")[0]);
+      if (ensembleDay) {
+        const distribution =
+          metric === "temperature"
+            ? ensembleDay.temperatureMax
+            : metric === "precipitation"
+              ? ensembleDay.precipitation
+              : ensembleDay.windSpeedMax;
+        point.ensemble_band = [
+          toChartValue(distribution.p10, metric),
+          toChartValue(distribution.p90, metric),
+        ];
+        point.ensemble_p50 = toChartValue(distribution.p50, metric);
+      }
+
       return point;
     });
-  }, [models, metric]);
+  }, [models, ensemble, metric]);
+
+  const hasEnsemble = chartData.some((point) => point.ensemble_band !== undefined);
 
   const successfulModels = models.filter((m) => m.status === "success");
 
@@ -125,6 +186,11 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
           if (high !== undefined) max = Math.max(max, high);
           if (low !== undefined) min = Math.min(min, low);
         });
+        const band = point.ensemble_band as [number, number] | undefined;
+        if (band !== undefined) {
+          min = Math.min(min, band[0]);
+          max = Math.max(max, band[1]);
+        }
       });
       return [Math.floor(min - 2), Math.ceil(max + 2)];
     }
@@ -149,7 +215,9 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
           Model Comparison - {metric.charAt(0).toUpperCase() + metric.slice(1)}
         </h3>
         <p className="text-sm text-slate-500 dark:text-slate-400 mt-1">
-          Spaghetti plot showing model spread
+          {hasEnsemble
+            ? "Spaghetti plot showing model spread with ensemble P10-P90 band"
+            : "Spaghetti plot showing model spread"}
         </p>
       </div>
 
@@ -189,18 +257,38 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
                     border: "1px solid #e2e8f0",
                     boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
                   }}
-                  formatter={(value: number, name: string) => {
-                    const [model, type] = name.split("_");
-                    return [`${value}°C`, `${modelNames[model as ModelName]} ${type === "high" ? "High" : "Low"}`];
+                  formatter={(value: number | [number, number], name: string) => {
+                    const text = Array.isArray(value) ? `${value[0]}-${value[1]}°C` : `${value}°C`;
+                    return [text, seriesLabel(name)];
                   }}
                 />
                 <Legend
                   formatter={(value: string) => {
+                    if (value.startsWith("ensemble_")) return seriesLabel(value);
                     const [model] = value.split("_");
                     return modelNames[model as ModelName];
                   }}
                   wrapperStyle={{ paddingTop: "20px" }}
                 />
+                {hasEnsemble && (
+                  <Area
+                    type="monotone"
+                    dataKey="ensemble_band"
+                    stroke="none"
+                    fill={ENSEMBLE_COLOR}
+                    fillOpacity={0.2}
+                  />
+                )}
+                {hasEnsemble && (
+                  <Line
+                    type="monotone"
+                    dataKey="ensemble_p50"
+                    stroke={ENSEMBLE_COLOR}
+                    strokeWidth={2}
+                    strokeDasharray="2 4"
+                    dot={false}
+                  />
+                )}
                 {successfulModels.map((model) => (
                   <Area
                     key={model.model}
@@ -228,8 +316,8 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
                 ))}
               </ComposedChart>
             ) : (
-              // Precipitation/Wind use simple line chart
-              <LineChart data={chartData}>
+              // Precipitation/Wind use simple lines (plus the ensemble band)
+              <ComposedChart data={chartData}>
                 <CartesianGrid
                   strokeDasharray="3 3"
                   stroke="#e2e8f0"
@@ -259,15 +347,35 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
                     border: "1px solid #e2e8f0",
                     boxShadow: "0 4px 6px -1px rgba(0, 0, 0, 0.1)",
                   }}
-                  formatter={(value: number, name: string) => {
+                  formatter={(value: number | [number, number], name: string) => {
                     const unit = metric === "precipitation" ? "mm" : "km/h";
-                    return [`${value} ${unit}`, modelNames[name as ModelName]];
+                    const text = Array.isArray(value) ? `${value[0]}-${value[1]} ${unit}` : `${value} ${unit}`;
+                    return [text, seriesLabel(name)];
                   }}
                 />
                 <Legend
-                  formatter={(value: string) => modelNames[value as ModelName]}
+                  formatter={(value: string) => seriesLabel(value)}
                   wrapperStyle={{ paddingTop: "20px" }}
                 />
+                {hasEnsemble && (
+                  <Area
+                    type="monotone"
+                    dataKey="ensemble_band"
+                    stroke="none"
+                    fill={ENSEMBLE_COLOR}
+                    fillOpacity={0.2}
+                  />
+                )}
+                {hasEnsemble && (
+                  <Line
+                    type="monotone"
+                    dataKey="ensemble_p50"
+                    stroke={ENSEMBLE_COLOR}
+                    strokeWidth={2}
+                    strokeDasharray="2 4"
+                    dot={false}
+                  />
+                )}
                 {successfulModels.map((model) => (
                   <Line
                     key={model.model}
@@ -279,7 +387,7 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
                     activeDot={{ r: 5 }}
                   />
                 ))}
-              </LineChart>
+              </ComposedChart>
             )}
           </ResponsiveContainer>
         </div>
@@ -292,6 +400,7 @@ export function WeatherChart({ data, metric = "temperature" }: WeatherChartProps
                 <strong>Solid lines:</strong> High temperatures,{" "}
                 <strong>Dashed lines:</strong> Low temperatures.
                 The spread between models indicates forecast uncertainty.
+                {hasEnsemble && " The shaded band shows the ensemble P10-P90 range of daily highs."}
               </>
             ) : metric === "precipitation" ? (
               <>